@@ -0,0 +1,27 @@
+CREATE TYPE "public"."competitor_alert_status" AS ENUM('open', 'acknowledged', 'dismissed');--> statement-breakpoint
+CREATE TYPE "public"."competitor_alert_type" AS ENUM('new_competitor', 'outranking_share_change', 'lost_is_rank_increase');--> statement-breakpoint
+CREATE TABLE "competitor_alerts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"client_account_id" uuid NOT NULL,
+	"competitor_id" uuid,
+	"alert_type" "competitor_alert_type" NOT NULL,
+	"status" "competitor_alert_status" DEFAULT 'open' NOT NULL,
+	"date_range_start" date NOT NULL,
+	"date_range_end" date NOT NULL,
+	"previous_date_range_end" date,
+	"metric_name" varchar(50) NOT NULL,
+	"previous_value" numeric(5, 2),
+	"current_value" numeric(5, 2),
+	"message" text NOT NULL,
+	"status_changed_by" uuid,
+	"status_changed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "competitor_alerts" ADD CONSTRAINT "competitor_alerts_client_account_id_client_accounts_id_fk" FOREIGN KEY ("client_account_id") REFERENCES "public"."client_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "competitor_alerts" ADD CONSTRAINT "competitor_alerts_competitor_id_competitors_id_fk" FOREIGN KEY ("competitor_id") REFERENCES "public"."competitors"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "competitor_alerts" ADD CONSTRAINT "competitor_alerts_status_changed_by_users_id_fk" FOREIGN KEY ("status_changed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_competitor_alerts_client" ON "competitor_alerts" USING btree ("client_account_id");--> statement-breakpoint
+CREATE INDEX "idx_competitor_alerts_competitor" ON "competitor_alerts" USING btree ("competitor_id");--> statement-breakpoint
+CREATE INDEX "idx_competitor_alerts_status" ON "competitor_alerts" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "idx_competitor_alerts_date_range_end" ON "competitor_alerts" USING btree ("date_range_end");
\ No newline at end of file
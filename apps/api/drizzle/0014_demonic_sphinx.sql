@@ -0,0 +1,29 @@
+CREATE TYPE "public"."google_ads_mutation_status" AS ENUM('applied', 'failed', 'rolled_back', 'rollback_failed');--> statement-breakpoint
+CREATE TYPE "public"."google_ads_mutation_type" AS ENUM('keyword_pause', 'bid_change', 'negative_keyword');--> statement-breakpoint
+CREATE TABLE "google_ads_mutations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"client_account_id" uuid NOT NULL,
+	"recommendation_id" uuid,
+	"mutation_type" "google_ads_mutation_type" NOT NULL,
+	"status" "google_ads_mutation_status" NOT NULL,
+	"google_ads_customer_id" varchar(20),
+	"resource_name" varchar(255),
+	"campaign_id" varchar(50),
+	"ad_group_id" varchar(50),
+	"keyword_text" text NOT NULL,
+	"previous_state_json" text,
+	"new_state_json" text,
+	"error_message" text,
+	"applied_by" uuid,
+	"rolled_back_by" uuid,
+	"rolled_back_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "google_ads_mutations" ADD CONSTRAINT "google_ads_mutations_client_account_id_client_accounts_id_fk" FOREIGN KEY ("client_account_id") REFERENCES "public"."client_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "google_ads_mutations" ADD CONSTRAINT "google_ads_mutations_recommendation_id_recommendations_id_fk" FOREIGN KEY ("recommendation_id") REFERENCES "public"."recommendations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "google_ads_mutations" ADD CONSTRAINT "google_ads_mutations_applied_by_users_id_fk" FOREIGN KEY ("applied_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "google_ads_mutations" ADD CONSTRAINT "google_ads_mutations_rolled_back_by_users_id_fk" FOREIGN KEY ("rolled_back_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_google_ads_mutations_client" ON "google_ads_mutations" USING btree ("client_account_id");--> statement-breakpoint
+CREATE INDEX "idx_google_ads_mutations_recommendation" ON "google_ads_mutations" USING btree ("recommendation_id");--> statement-breakpoint
+CREATE INDEX "idx_google_ads_mutations_status" ON "google_ads_mutations" USING btree ("status");
\ No newline at end of file
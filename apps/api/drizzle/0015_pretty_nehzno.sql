@@ -0,0 +1,21 @@
+CREATE TYPE "public"."report_schedule_frequency" AS ENUM('weekly', 'monthly');--> statement-breakpoint
+CREATE TABLE "report_schedules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"client_account_id" uuid NOT NULL,
+	"frequency" "report_schedule_frequency" DEFAULT 'weekly' NOT NULL,
+	"day_of_week" integer DEFAULT 1 NOT NULL,
+	"day_of_month" integer DEFAULT 1 NOT NULL,
+	"date_range_days" integer DEFAULT 30 NOT NULL,
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"last_run_at" timestamp with time zone,
+	"last_report_id" uuid,
+	"last_skipped_at" timestamp with time zone,
+	"last_skip_reason" text,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "report_schedules" ADD CONSTRAINT "report_schedules_client_account_id_client_accounts_id_fk" FOREIGN KEY ("client_account_id") REFERENCES "public"."client_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "report_schedules" ADD CONSTRAINT "report_schedules_last_report_id_interplay_reports_id_fk" FOREIGN KEY ("last_report_id") REFERENCES "public"."interplay_reports"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_report_schedules_client" ON "report_schedules" USING btree ("client_account_id");--> statement-breakpoint
+CREATE INDEX "idx_report_schedules_enabled" ON "report_schedules" USING btree ("is_enabled");
\ No newline at end of file
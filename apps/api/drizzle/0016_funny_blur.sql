@@ -0,0 +1,30 @@
+CREATE TYPE "public"."queue_job_status" AS ENUM('queued', 'running', 'completed', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."queue_job_type" AS ENUM('client_sync', 'interplay_report');--> statement-breakpoint
+CREATE TABLE "job_queue" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_type" "queue_job_type" NOT NULL,
+	"status" "queue_job_status" DEFAULT 'queued' NOT NULL,
+	"agency_id" uuid NOT NULL,
+	"client_account_id" uuid,
+	"reference_id" uuid,
+	"payload_json" text DEFAULT '{}' NOT NULL,
+	"result_json" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"run_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"locked_by" varchar(255),
+	"locked_until" timestamp with time zone,
+	"heartbeat_at" timestamp with time zone,
+	"last_error" text,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"started_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "job_queue" ADD CONSTRAINT "job_queue_agency_id_agencies_id_fk" FOREIGN KEY ("agency_id") REFERENCES "public"."agencies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "job_queue" ADD CONSTRAINT "job_queue_client_account_id_client_accounts_id_fk" FOREIGN KEY ("client_account_id") REFERENCES "public"."client_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_job_queue_claim" ON "job_queue" USING btree ("status","run_at");--> statement-breakpoint
+CREATE INDEX "idx_job_queue_agency_status" ON "job_queue" USING btree ("agency_id","status");--> statement-breakpoint
+CREATE INDEX "idx_job_queue_client" ON "job_queue" USING btree ("client_account_id");--> statement-breakpoint
+CREATE INDEX "idx_job_queue_reference" ON "job_queue" USING btree ("reference_id");
\ No newline at end of file
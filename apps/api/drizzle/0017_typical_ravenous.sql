@@ -0,0 +1,17 @@
+CREATE TYPE "public"."report_phase" AS ENUM('skill_load', 'data_fetch', 'scout', 'researcher', 'sem', 'seo', 'director', 'constraint_validation');--> statement-breakpoint
+CREATE TYPE "public"."report_phase_event_type" AS ENUM('started', 'progress', 'completed', 'failed');--> statement-breakpoint
+CREATE TABLE "report_phase_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"report_id" uuid NOT NULL,
+	"sequence" integer NOT NULL,
+	"phase" "report_phase" NOT NULL,
+	"event_type" "report_phase_event_type" NOT NULL,
+	"message" text,
+	"progress_current" integer,
+	"progress_total" integer,
+	"duration_ms" integer,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "report_phase_events" ADD CONSTRAINT "report_phase_events_report_id_interplay_reports_id_fk" FOREIGN KEY ("report_id") REFERENCES "public"."interplay_reports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_report_phase_events_report_sequence" ON "report_phase_events" USING btree ("report_id","sequence");
\ No newline at end of file
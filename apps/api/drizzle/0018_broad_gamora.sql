@@ -0,0 +1,32 @@
+CREATE TABLE "custom_skill_bundle_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bundle_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"overrides_json" text NOT NULL,
+	"change_note" text,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "custom_skill_bundles" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"agency_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"base_business_type" "business_type" NOT NULL,
+	"current_version" integer DEFAULT 1 NOT NULL,
+	"is_archived" boolean DEFAULT false NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "client_accounts" ADD COLUMN "custom_skill_bundle_id" uuid;--> statement-breakpoint
+ALTER TABLE "custom_skill_bundle_versions" ADD CONSTRAINT "custom_skill_bundle_versions_bundle_id_custom_skill_bundles_id_fk" FOREIGN KEY ("bundle_id") REFERENCES "public"."custom_skill_bundles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_skill_bundle_versions" ADD CONSTRAINT "custom_skill_bundle_versions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_skill_bundles" ADD CONSTRAINT "custom_skill_bundles_agency_id_agencies_id_fk" FOREIGN KEY ("agency_id") REFERENCES "public"."agencies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_skill_bundles" ADD CONSTRAINT "custom_skill_bundles_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_custom_skill_bundle_versions_bundle_version" ON "custom_skill_bundle_versions" USING btree ("bundle_id","version");--> statement-breakpoint
+CREATE INDEX "idx_custom_skill_bundles_agency_id" ON "custom_skill_bundles" USING btree ("agency_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_custom_skill_bundles_agency_name" ON "custom_skill_bundles" USING btree ("agency_id","name");--> statement-breakpoint
+ALTER TABLE "client_accounts" ADD CONSTRAINT "client_accounts_custom_skill_bundle_id_custom_skill_bundles_id_fk" FOREIGN KEY ("custom_skill_bundle_id") REFERENCES "public"."custom_skill_bundles"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
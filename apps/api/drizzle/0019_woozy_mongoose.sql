@@ -0,0 +1 @@
+ALTER TABLE "client_accounts" ADD COLUMN "skill_overrides_json" text;
\ No newline at end of file
@@ -0,0 +1,41 @@
+CREATE TYPE "public"."skill_experiment_assignment" AS ENUM('client', 'report');--> statement-breakpoint
+CREATE TYPE "public"."skill_experiment_status" AS ENUM('running', 'stopped');--> statement-breakpoint
+CREATE TABLE "skill_experiment_variants" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"experiment_id" uuid NOT NULL,
+	"name" varchar(30) NOT NULL,
+	"weight" integer NOT NULL,
+	"overrides_json" text DEFAULT '{}' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "skill_experiments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"agency_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"business_type" "business_type" NOT NULL,
+	"assignment_unit" "skill_experiment_assignment" DEFAULT 'client' NOT NULL,
+	"status" "skill_experiment_status" DEFAULT 'running' NOT NULL,
+	"created_by" uuid,
+	"started_at" timestamp with time zone DEFAULT now(),
+	"stopped_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "constraint_violations" ALTER COLUMN "skill_version" SET DATA TYPE varchar(100);--> statement-breakpoint
+ALTER TABLE "report_metrics" ALTER COLUMN "skill_version" SET DATA TYPE varchar(100);--> statement-breakpoint
+ALTER TABLE "report_metrics" ADD COLUMN "experiment_id" uuid;--> statement-breakpoint
+ALTER TABLE "report_metrics" ADD COLUMN "variant_id" uuid;--> statement-breakpoint
+ALTER TABLE "report_metrics" ADD COLUMN "tokens_used" integer;--> statement-breakpoint
+ALTER TABLE "skill_experiment_variants" ADD CONSTRAINT "skill_experiment_variants_experiment_id_skill_experiments_id_fk" FOREIGN KEY ("experiment_id") REFERENCES "public"."skill_experiments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "skill_experiments" ADD CONSTRAINT "skill_experiments_agency_id_agencies_id_fk" FOREIGN KEY ("agency_id") REFERENCES "public"."agencies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "skill_experiments" ADD CONSTRAINT "skill_experiments_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_skill_experiment_variants_experiment_id" ON "skill_experiment_variants" USING btree ("experiment_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_skill_experiment_variants_experiment_name" ON "skill_experiment_variants" USING btree ("experiment_id","name");--> statement-breakpoint
+CREATE INDEX "idx_skill_experiments_agency_id" ON "skill_experiments" USING btree ("agency_id");--> statement-breakpoint
+CREATE INDEX "idx_skill_experiments_agency_type_status" ON "skill_experiments" USING btree ("agency_id","business_type","status");--> statement-breakpoint
+ALTER TABLE "report_metrics" ADD CONSTRAINT "report_metrics_experiment_id_skill_experiments_id_fk" FOREIGN KEY ("experiment_id") REFERENCES "public"."skill_experiments"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "report_metrics" ADD CONSTRAINT "report_metrics_variant_id_skill_experiment_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "public"."skill_experiment_variants"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_report_metrics_variant_id" ON "report_metrics" USING btree ("variant_id");
\ No newline at end of file
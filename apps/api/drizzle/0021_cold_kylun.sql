@@ -0,0 +1,55 @@
+CREATE TYPE "public"."alert_severity" AS ENUM('critical', 'warning', 'info');--> statement-breakpoint
+CREATE TYPE "public"."notification_channel_type" AS ENUM('email', 'webhook', 'slack');--> statement-breakpoint
+CREATE TYPE "public"."notification_delivery_status" AS ENUM('sent', 'failed', 'skipped');--> statement-breakpoint
+CREATE TABLE "notification_channels" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"agency_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"type" "notification_channel_type" NOT NULL,
+	"config_encrypted" text NOT NULL,
+	"config_key_version" integer DEFAULT 1 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "notification_deliveries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"agency_id" uuid NOT NULL,
+	"channel_id" uuid,
+	"rule_id" uuid,
+	"channel_type" "notification_channel_type" NOT NULL,
+	"alert_code" varchar(100) NOT NULL,
+	"severity" "alert_severity" NOT NULL,
+	"message" text NOT NULL,
+	"context_json" text,
+	"status" "notification_delivery_status" NOT NULL,
+	"error_message" text,
+	"duration_ms" integer,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "notification_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"agency_id" uuid NOT NULL,
+	"channel_id" uuid NOT NULL,
+	"min_severity" "alert_severity" DEFAULT 'critical' NOT NULL,
+	"alert_codes" text[] DEFAULT '{}' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "notification_channels" ADD CONSTRAINT "notification_channels_agency_id_agencies_id_fk" FOREIGN KEY ("agency_id") REFERENCES "public"."agencies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_channels" ADD CONSTRAINT "notification_channels_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_agency_id_agencies_id_fk" FOREIGN KEY ("agency_id") REFERENCES "public"."agencies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_channel_id_notification_channels_id_fk" FOREIGN KEY ("channel_id") REFERENCES "public"."notification_channels"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_rule_id_notification_rules_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."notification_rules"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_rules" ADD CONSTRAINT "notification_rules_agency_id_agencies_id_fk" FOREIGN KEY ("agency_id") REFERENCES "public"."agencies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_rules" ADD CONSTRAINT "notification_rules_channel_id_notification_channels_id_fk" FOREIGN KEY ("channel_id") REFERENCES "public"."notification_channels"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_notification_channels_agency_id" ON "notification_channels" USING btree ("agency_id");--> statement-breakpoint
+CREATE INDEX "idx_notification_deliveries_agency_created" ON "notification_deliveries" USING btree ("agency_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_notification_deliveries_channel_id" ON "notification_deliveries" USING btree ("channel_id");--> statement-breakpoint
+CREATE INDEX "idx_notification_rules_agency_id" ON "notification_rules" USING btree ("agency_id");--> statement-breakpoint
+CREATE INDEX "idx_notification_rules_channel_id" ON "notification_rules" USING btree ("channel_id");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "audit_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"agency_id" uuid NOT NULL,
+	"actor_user_id" uuid,
+	"actor_name" varchar(255),
+	"actor_email" varchar(255),
+	"api_key_id" uuid,
+	"action" varchar(100) NOT NULL,
+	"entity_type" varchar(50) NOT NULL,
+	"entity_id" varchar(255),
+	"client_account_id" uuid,
+	"changes_json" text,
+	"metadata_json" text DEFAULT '{}' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_agency_id_agencies_id_fk" FOREIGN KEY ("agency_id") REFERENCES "public"."agencies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_audit_events_agency_created" ON "audit_events" USING btree ("agency_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_audit_events_entity" ON "audit_events" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX "idx_audit_events_client_account_id" ON "audit_events" USING btree ("client_account_id");
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE "agency_brandings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"agency_id" uuid NOT NULL,
+	"company_name" varchar(100),
+	"logo_data_url" text,
+	"primary_color" varchar(7),
+	"accent_color" varchar(7),
+	"footer_text" varchar(200),
+	"cover_page_enabled" boolean DEFAULT false NOT NULL,
+	"cover_title" varchar(150),
+	"cover_subtitle" varchar(500),
+	"updated_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "client_logos" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"client_account_id" uuid NOT NULL,
+	"logo_data_url" text NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "agency_brandings" ADD CONSTRAINT "agency_brandings_agency_id_agencies_id_fk" FOREIGN KEY ("agency_id") REFERENCES "public"."agencies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "agency_brandings" ADD CONSTRAINT "agency_brandings_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "client_logos" ADD CONSTRAINT "client_logos_client_account_id_client_accounts_id_fk" FOREIGN KEY ("client_account_id") REFERENCES "public"."client_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_agency_brandings_agency_id" ON "agency_brandings" USING btree ("agency_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_client_logos_client_id" ON "client_logos" USING btree ("client_account_id");
\ No newline at end of file
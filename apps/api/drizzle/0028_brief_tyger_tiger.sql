@@ -0,0 +1,22 @@
+CREATE TABLE "report_share_links" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"report_id" uuid NOT NULL,
+	"client_account_id" uuid NOT NULL,
+	"token_prefix" varchar(20) NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"password_hash" varchar(100),
+	"expires_at" timestamp with time zone NOT NULL,
+	"revoked_at" timestamp with time zone,
+	"first_viewed_at" timestamp with time zone,
+	"last_viewed_at" timestamp with time zone,
+	"view_count" integer DEFAULT 0 NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "report_share_links" ADD CONSTRAINT "report_share_links_report_id_interplay_reports_id_fk" FOREIGN KEY ("report_id") REFERENCES "public"."interplay_reports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "report_share_links" ADD CONSTRAINT "report_share_links_client_account_id_client_accounts_id_fk" FOREIGN KEY ("client_account_id") REFERENCES "public"."client_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "report_share_links" ADD CONSTRAINT "report_share_links_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_report_share_links_report_id" ON "report_share_links" USING btree ("report_id");--> statement-breakpoint
+CREATE INDEX "idx_report_share_links_client_account_id" ON "report_share_links" USING btree ("client_account_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_report_share_links_token_hash" ON "report_share_links" USING btree ("token_hash");
\ No newline at end of file
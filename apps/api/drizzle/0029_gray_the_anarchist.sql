@@ -0,0 +1,39 @@
+CREATE TYPE "public"."report_delivery_status" AS ENUM('pending', 'sent', 'failed');--> statement-breakpoint
+ALTER TYPE "public"."queue_job_type" ADD VALUE 'report_delivery';--> statement-breakpoint
+CREATE TABLE "report_deliveries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"report_id" uuid NOT NULL,
+	"client_account_id" uuid NOT NULL,
+	"list_id" uuid,
+	"list_name" varchar(100) NOT NULL,
+	"recipients" text[] NOT NULL,
+	"requested_by" uuid,
+	"status" "report_delivery_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"last_attempt_at" timestamp with time zone,
+	"sent_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "report_distribution_lists" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"client_account_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"recipients" text[] DEFAULT '{}' NOT NULL,
+	"triggers" text[] DEFAULT '{}' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "report_deliveries" ADD CONSTRAINT "report_deliveries_report_id_interplay_reports_id_fk" FOREIGN KEY ("report_id") REFERENCES "public"."interplay_reports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "report_deliveries" ADD CONSTRAINT "report_deliveries_client_account_id_client_accounts_id_fk" FOREIGN KEY ("client_account_id") REFERENCES "public"."client_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "report_deliveries" ADD CONSTRAINT "report_deliveries_list_id_report_distribution_lists_id_fk" FOREIGN KEY ("list_id") REFERENCES "public"."report_distribution_lists"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "report_deliveries" ADD CONSTRAINT "report_deliveries_requested_by_users_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "report_distribution_lists" ADD CONSTRAINT "report_distribution_lists_client_account_id_client_accounts_id_fk" FOREIGN KEY ("client_account_id") REFERENCES "public"."client_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "report_distribution_lists" ADD CONSTRAINT "report_distribution_lists_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_report_deliveries_report_created" ON "report_deliveries" USING btree ("report_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_report_deliveries_list_id" ON "report_deliveries" USING btree ("list_id");--> statement-breakpoint
+CREATE INDEX "idx_report_distribution_lists_client_account_id" ON "report_distribution_lists" USING btree ("client_account_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TYPE "public"."recommendation_status" ADD VALUE 'applying' BEFORE 'applied';--> statement-breakpoint
+ALTER TYPE "public"."recommendation_status" ADD VALUE 'partial' BEFORE 'applied';--> statement-breakpoint
+ALTER TABLE "google_ads_mutations" ADD COLUMN "applied_at" timestamp with time zone;--> statement-breakpoint
+UPDATE "google_ads_mutations" SET "applied_at" = "created_at" WHERE "status" IN ('applied', 'rolled_back', 'rollback_failed');
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "job_queue" ADD COLUMN "dedupe_key" varchar(255);--> statement-breakpoint
+-- Key the newest waiting deduplicated job per client so jobs already queued keep deduplicating
+UPDATE "job_queue" SET "dedupe_key" = "client_account_id"::text WHERE "id" IN (
+	SELECT DISTINCT ON ("job_type", "client_account_id") "id" FROM "job_queue"
+	WHERE "status" = 'queued' AND "client_account_id" IS NOT NULL
+		AND ("job_type" = 'interplay_report' OR ("job_type" = 'client_sync' AND "reference_id" IS NULL))
+	ORDER BY "job_type", "client_account_id", "created_at" DESC
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_job_queue_queued_dedupe" ON "job_queue" USING btree ("job_type","dedupe_key") WHERE status = 'queued';
@@ -0,0 +1,2 @@
+ALTER TABLE "report_share_links" ADD COLUMN "failed_password_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "report_share_links" ADD COLUMN "password_locked_until" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TYPE "public"."google_ads_mutation_status" ADD VALUE 'rolling_back' BEFORE 'rolled_back';
\ No newline at end of file
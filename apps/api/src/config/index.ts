@@ -22,12 +22,37 @@ export const config = {
   googleAdsDeveloperToken: process.env.GOOGLE_ADS_DEVELOPER_TOKEN,
 
   // AI Provider
-  aiProvider: (process.env.AI_PROVIDER || 'anthropic') as 'anthropic' | 'openai',
+  aiProvider: (process.env.AI_PROVIDER || 'anthropic') as 'anthropic' | 'openai' | 'fixture',
   anthropicApiKey: process.env.ANTHROPIC_API_KEY,
   anthropicModel: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5-20250929',
   openaiApiKey: process.env.OPENAI_API_KEY,
   openaiModel: process.env.OPENAI_MODEL || 'gpt-5.1',
 
+  // LLM provider layer (services/llm). Per-agent provider/model fall back to the defaults above.
+  llm: {
+    // Unset: calls run until the provider answers or errors
+    timeoutMs: process.env.LLM_TIMEOUT_MS ? parseInt(process.env.LLM_TIMEOUT_MS, 10) : undefined,
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '3', 10),
+    fixtureDir: process.env.LLM_FIXTURE_DIR,
+    agents: {
+      sem: {
+        provider: process.env.LLM_SEM_PROVIDER as 'anthropic' | 'openai' | 'fixture' | undefined,
+        model: process.env.LLM_SEM_MODEL,
+        maxTokens: process.env.LLM_SEM_MAX_TOKENS ? parseInt(process.env.LLM_SEM_MAX_TOKENS, 10) : undefined,
+      },
+      seo: {
+        provider: process.env.LLM_SEO_PROVIDER as 'anthropic' | 'openai' | 'fixture' | undefined,
+        model: process.env.LLM_SEO_MODEL,
+        maxTokens: process.env.LLM_SEO_MAX_TOKENS ? parseInt(process.env.LLM_SEO_MAX_TOKENS, 10) : undefined,
+      },
+      director: {
+        provider: process.env.LLM_DIRECTOR_PROVIDER as 'anthropic' | 'openai' | 'fixture' | undefined,
+        model: process.env.LLM_DIRECTOR_MODEL,
+        maxTokens: process.env.LLM_DIRECTOR_MAX_TOKENS ? parseInt(process.env.LLM_DIRECTOR_MAX_TOKENS, 10) : undefined,
+      },
+    },
+  },
+
   // AWS
   awsRegion: process.env.AWS_REGION,
   awsAccessKeyId: process.env.AWS_ACCESS_KEY_ID,
@@ -37,6 +62,40 @@ export const config = {
   // Email
   resendApiKey: process.env.RESEND_API_KEY,
 
+  // SMTP server for email notifications and report delivery (services/notifications)
+  smtp: {
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    // Implicit TLS (usually port 465); otherwise STARTTLS, which is required
+    // when SMTP_USER is set so credentials are never sent in cleartext
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from: process.env.SMTP_FROM || 'Advergent <alerts@advergent.local>',
+    // Write mail to .eml files here instead of sending it (local development)
+    outboxDir: process.env.SMTP_OUTBOX_DIR,
+  },
+
+  // Alert delivery
+  notifications: {
+    timeoutMs: parseInt(process.env.NOTIFICATION_TIMEOUT_MS || '10000', 10),
+  },
+
+  // Background job queue (worker process)
+  jobQueue: {
+    workerConcurrency: parseInt(process.env.JOB_WORKER_CONCURRENCY || '2', 10),
+    agencyConcurrency: parseInt(process.env.JOB_AGENCY_CONCURRENCY || '1', 10),
+    leaseSeconds: parseInt(process.env.JOB_LEASE_SECONDS || '120', 10),
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10),
+  },
+
+  // Report pipeline record/replay (services/fixtures)
+  reportFixtures: {
+    mode: (process.env.REPORT_FIXTURE_MODE || 'off') as 'off' | 'record' | 'replay',
+    path: process.env.REPORT_FIXTURE_PATH || './fixtures/report-pipeline.json',
+    allowPromptDrift: process.env.REPORT_FIXTURE_ALLOW_PROMPT_DRIFT === 'true',
+  },
+
   // Feature flags
   useMockGoogleApis: process.env.USE_MOCK_GOOGLE_APIS === 'true',
 
@@ -11,7 +11,7 @@ export const syncFrequencyEnum = pgEnum('sync_frequency', ['daily']);
 export const analysisStatusEnum = pgEnum('analysis_status', ['pending', 'analyzing', 'completed', 'failed']);
 export const recommendationTypeEnum = pgEnum('recommendation_type', ['reduce', 'pause', 'increase', 'maintain']);
 export const confidenceLevelEnum = pgEnum('confidence_level', ['high', 'medium', 'low']);
-export const recommendationStatusEnum = pgEnum('recommendation_status', ['pending', 'approved', 'rejected', 'applied']);
+export const recommendationStatusEnum = pgEnum('recommendation_status', ['pending', 'approved', 'rejected', 'applying', 'partial', 'applied']);
 export const jobTypeEnum = pgEnum('job_type', ['google_ads_sync', 'search_console_sync', 'full_sync']);
 export const jobStatusEnum = pgEnum('job_status', ['pending', 'running', 'completed', 'failed']);
 export const detectedViaEnum = pgEnum('detected_via', ['auction_insights']);
@@ -34,6 +34,38 @@ export const businessTypeEnum = pgEnum('business_type', ['ecommerce', 'lead-gen'
 // Phase 9: Instrumentation enums
 export const serializationModeEnum = pgEnum('serialization_mode', ['full', 'compact']);
 
+// Competitor alerting enums
+export const competitorAlertTypeEnum = pgEnum('competitor_alert_type', ['new_competitor', 'outranking_share_change', 'lost_is_rank_increase']);
+export const competitorAlertStatusEnum = pgEnum('competitor_alert_status', ['open', 'acknowledged', 'dismissed']);
+
+// Google Ads apply pipeline enums
+export const googleAdsMutationTypeEnum = pgEnum('google_ads_mutation_type', ['keyword_pause', 'bid_change', 'negative_keyword']);
+export const googleAdsMutationStatusEnum = pgEnum('google_ads_mutation_status', ['applied', 'failed', 'rolling_back', 'rolled_back', 'rollback_failed']);
+
+// Report scheduling enums
+export const reportScheduleFrequencyEnum = pgEnum('report_schedule_frequency', ['weekly', 'monthly']);
+export const reportDeliveryStatusEnum = pgEnum('report_delivery_status', ['pending', 'sent', 'failed']);
+
+// Background job queue enums
+export const queueJobTypeEnum = pgEnum('queue_job_type', ['client_sync', 'interplay_report', 'webhook_delivery', 'report_delivery']);
+export const queueJobStatusEnum = pgEnum('queue_job_status', ['queued', 'running', 'completed', 'failed']);
+
+// Report progress enums
+export const reportPhaseEnum = pgEnum('report_phase', ['skill_load', 'data_fetch', 'scout', 'researcher', 'sem', 'seo', 'director', 'constraint_validation']);
+export const reportPhaseEventTypeEnum = pgEnum('report_phase_event_type', ['started', 'progress', 'completed', 'failed']);
+
+// Skill experiment enums
+export const skillExperimentStatusEnum = pgEnum('skill_experiment_status', ['running', 'stopped']);
+export const skillExperimentAssignmentEnum = pgEnum('skill_experiment_assignment', ['client', 'report']);
+
+// Notification enums
+export const notificationChannelTypeEnum = pgEnum('notification_channel_type', ['email', 'webhook', 'slack']);
+export const alertSeverityEnum = pgEnum('alert_severity', ['critical', 'warning', 'info']);
+export const notificationDeliveryStatusEnum = pgEnum('notification_delivery_status', ['sent', 'failed', 'skipped']);
+
+// Outbound webhook enums
+export const webhookDeliveryStatusEnum = pgEnum('webhook_delivery_status', ['pending', 'delivered', 'failed']);
+
 // ============================================================================
 // CORE TABLES
 // ============================================================================
@@ -102,6 +134,10 @@ export const clientAccounts = pgTable('client_accounts', {
   syncFrequency: varchar('sync_frequency', { length: 20 }).default('daily'),
   // Phase 7: Business type for skill loading
   businessType: businessTypeEnum('business_type').default('ecommerce').notNull(),
+  // Agency skill bundle used in place of the built-in one; businessType holds its base type
+  customSkillBundleId: uuid('custom_skill_bundle_id').references(() => customSkillBundles.id, { onDelete: 'set null' }),
+  // Per-client scout threshold and SEM/SEO benchmark overrides (JSON), merged over the skill bundle
+  skillOverridesJson: text('skill_overrides_json'),
   isActive: boolean('is_active').default(true),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
@@ -241,6 +277,37 @@ export const recommendations = pgTable('recommendations', {
   sourceIdx: index('idx_recommendations_source').on(table.source),
 }));
 
+/**
+ * Log of every change pushed to Google Ads when applying a recommendation.
+ * previousStateJson holds what is needed to roll the change back.
+ */
+export const googleAdsMutations = pgTable('google_ads_mutations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  clientAccountId: uuid('client_account_id').notNull().references(() => clientAccounts.id, { onDelete: 'cascade' }),
+  recommendationId: uuid('recommendation_id').references(() => recommendations.id, { onDelete: 'set null' }),
+  mutationType: googleAdsMutationTypeEnum('mutation_type').notNull(),
+  status: googleAdsMutationStatusEnum('status').notNull(),
+  googleAdsCustomerId: varchar('google_ads_customer_id', { length: 20 }),
+  // Resource affected (for negative keywords, the criterion that was created)
+  resourceName: varchar('resource_name', { length: 255 }),
+  campaignId: varchar('campaign_id', { length: 50 }),
+  adGroupId: varchar('ad_group_id', { length: 50 }),
+  keywordText: text('keyword_text').notNull(),
+  previousStateJson: text('previous_state_json'),
+  newStateJson: text('new_state_json'),
+  errorMessage: text('error_message'),
+  appliedBy: uuid('applied_by').references(() => users.id),
+  // Set when the mutation lands in Google Ads; a retried failure lands later than it was logged
+  appliedAt: timestamp('applied_at', { withTimezone: true }),
+  rolledBackBy: uuid('rolled_back_by').references(() => users.id),
+  rolledBackAt: timestamp('rolled_back_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  clientIdx: index('idx_google_ads_mutations_client').on(table.clientAccountId),
+  recommendationIdx: index('idx_google_ads_mutations_recommendation').on(table.recommendationId),
+  statusIdx: index('idx_google_ads_mutations_status').on(table.status),
+}));
+
 export const competitors = pgTable('competitors', {
   id: uuid('id').primaryKey().defaultRandom(),
   clientAccountId: uuid('client_account_id').notNull().references(() => clientAccounts.id, { onDelete: 'cascade' }),
@@ -342,6 +409,43 @@ export const syncJobs = pgTable('sync_jobs', {
   createdAtIdx: index('idx_sync_jobs_created_at').on(table.createdAt),
 }));
 
+/**
+ * Postgres-backed work queue consumed by the worker process (src/worker.ts).
+ * Jobs are leased to a worker; a lease that is not renewed by heartbeat expires
+ * and the job is retried, so a crashed process does not lose work.
+ */
+export const jobQueue = pgTable('job_queue', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobType: queueJobTypeEnum('job_type').notNull(),
+  status: queueJobStatusEnum('status').default('queued').notNull(),
+  agencyId: uuid('agency_id').notNull().references(() => agencies.id, { onDelete: 'cascade' }),
+  clientAccountId: uuid('client_account_id').references(() => clientAccounts.id, { onDelete: 'cascade' }),
+  referenceId: uuid('reference_id'), // Domain record driven by this job (e.g. sync_jobs.id)
+  dedupeKey: varchar('dedupe_key', { length: 255 }), // Set on deduplicated jobs until claimed; one queued job per type and key
+  payloadJson: text('payload_json').notNull().default('{}'),
+  resultJson: text('result_json'),
+  attempts: integer('attempts').default(0).notNull(),
+  maxAttempts: integer('max_attempts').default(3).notNull(),
+  runAt: timestamp('run_at', { withTimezone: true }).defaultNow().notNull(),
+  lockedBy: varchar('locked_by', { length: 255 }),
+  lockedUntil: timestamp('locked_until', { withTimezone: true }),
+  heartbeatAt: timestamp('heartbeat_at', { withTimezone: true }),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  startedAt: timestamp('started_at', { withTimezone: true }),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  claimIdx: index('idx_job_queue_claim').on(table.status, table.runAt),
+  agencyStatusIdx: index('idx_job_queue_agency_status').on(table.agencyId, table.status),
+  clientIdx: index('idx_job_queue_client').on(table.clientAccountId),
+  referenceIdx: index('idx_job_queue_reference').on(table.referenceId),
+  // Backs enqueue dedupe, so concurrent enqueues can't both add a waiting job
+  queuedDedupeIdx: uniqueIndex('idx_job_queue_queued_dedupe')
+    .on(table.jobType, table.dedupeKey)
+    .where(sql`status = 'queued'`),
+}));
+
 export const analysisJobs = pgTable('analysis_jobs', {
   id: uuid('id').primaryKey().defaultRandom(),
   queryOverlapId: uuid('query_overlap_id').notNull().references(() => queryOverlaps.id, { onDelete: 'cascade' }),
@@ -402,6 +506,464 @@ export const interplayReports = pgTable('interplay_reports', {
   createdIdx: index('idx_interplay_reports_created').on(table.createdAt),
 }));
 
+// ============================================================================
+// REPORT PHASE EVENTS
+// ============================================================================
+
+/**
+ * Pipeline progress events written by the orchestrator as each phase runs.
+ * Streamed to the browser over SSE; the report may be generated in another process.
+ */
+export const reportPhaseEvents = pgTable('report_phase_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  reportId: uuid('report_id').notNull().references(() => interplayReports.id, { onDelete: 'cascade' }),
+  sequence: integer('sequence').notNull(), // Monotonic per report
+  phase: reportPhaseEnum('phase').notNull(),
+  eventType: reportPhaseEventTypeEnum('event_type').notNull(),
+  message: text('message'),
+  progressCurrent: integer('progress_current'),
+  progressTotal: integer('progress_total'),
+  durationMs: integer('duration_ms'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  reportSequenceIdx: uniqueIndex('idx_report_phase_events_report_sequence').on(table.reportId, table.sequence),
+}));
+
+// ============================================================================
+// REPORT SCHEDULES
+// ============================================================================
+
+/**
+ * Per-client schedule for automatic interplay report generation.
+ * Evaluated by the scheduled-reports cron job.
+ */
+export const reportSchedules = pgTable('report_schedules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  clientAccountId: uuid('client_account_id').notNull().references(() => clientAccounts.id, { onDelete: 'cascade' }),
+  frequency: reportScheduleFrequencyEnum('frequency').default('weekly').notNull(),
+  dayOfWeek: integer('day_of_week').default(1).notNull(), // 0 = Sunday ... 6 = Saturday (weekly only)
+  dayOfMonth: integer('day_of_month').default(1).notNull(), // 1-28 (monthly only)
+  dateRangeDays: integer('date_range_days').default(30).notNull(),
+  isEnabled: boolean('is_enabled').default(true).notNull(),
+  lastRunAt: timestamp('last_run_at', { withTimezone: true }),
+  lastReportId: uuid('last_report_id').references(() => interplayReports.id, { onDelete: 'set null' }),
+  lastSkippedAt: timestamp('last_skipped_at', { withTimezone: true }),
+  lastSkipReason: text('last_skip_reason'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  clientIdx: uniqueIndex('idx_report_schedules_client').on(table.clientAccountId),
+  enabledIdx: index('idx_report_schedules_enabled').on(table.isEnabled),
+}));
+
+// ============================================================================
+// REPORT SHARE LINKS
+// ============================================================================
+
+/**
+ * Public read-only links to a single report, for clients without accounts.
+ * Only the token hash is stored; the link is shown once when created.
+ */
+export const reportShareLinks = pgTable('report_share_links', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  reportId: uuid('report_id').notNull().references(() => interplayReports.id, { onDelete: 'cascade' }),
+  clientAccountId: uuid('client_account_id').notNull().references(() => clientAccounts.id, { onDelete: 'cascade' }),
+  tokenPrefix: varchar('token_prefix', { length: 20 }).notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull(),
+  passwordHash: varchar('password_hash', { length: 100 }), // bcrypt; null when the link is not password protected
+  // Wrong passwords since the last success or lockout; reaching the limit locks the link for a while
+  failedPasswordAttempts: integer('failed_password_attempts').default(0).notNull(),
+  passwordLockedUntil: timestamp('password_locked_until', { withTimezone: true }),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  firstViewedAt: timestamp('first_viewed_at', { withTimezone: true }),
+  lastViewedAt: timestamp('last_viewed_at', { withTimezone: true }),
+  viewCount: integer('view_count').default(0).notNull(),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  reportIdx: index('idx_report_share_links_report_id').on(table.reportId),
+  clientIdx: index('idx_report_share_links_client_account_id').on(table.clientAccountId),
+  tokenHashIdx: uniqueIndex('idx_report_share_links_token_hash').on(table.tokenHash),
+}));
+
+// ============================================================================
+// REPORT DISTRIBUTION
+// ============================================================================
+
+/**
+ * Client stakeholders who are emailed a report (summary inline, PDF attached)
+ * when one completes with any of the list's triggers.
+ */
+export const reportDistributionLists = pgTable('report_distribution_lists', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  clientAccountId: uuid('client_account_id').notNull().references(() => clientAccounts.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  recipients: text('recipients').array().notNull().default([]),
+  triggers: text('triggers').array().notNull().default([]), // Report triggers that send to this list
+  isActive: boolean('is_active').default(true).notNull(),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  clientIdx: index('idx_report_distribution_lists_client_account_id').on(table.clientAccountId),
+}));
+
+/**
+ * One email of a report to one distribution list. The list name and
+ * recipients are copied so history survives list edits and deletion.
+ */
+export const reportDeliveries = pgTable('report_deliveries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  reportId: uuid('report_id').notNull().references(() => interplayReports.id, { onDelete: 'cascade' }),
+  clientAccountId: uuid('client_account_id').notNull().references(() => clientAccounts.id, { onDelete: 'cascade' }),
+  listId: uuid('list_id').references(() => reportDistributionLists.id, { onDelete: 'set null' }),
+  listName: varchar('list_name', { length: 100 }).notNull(),
+  recipients: text('recipients').array().notNull(),
+  requestedBy: uuid('requested_by').references(() => users.id, { onDelete: 'set null' }), // Null when sent on completion
+  status: reportDeliveryStatusEnum('status').default('pending').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  lastError: text('last_error'),
+  lastAttemptAt: timestamp('last_attempt_at', { withTimezone: true }),
+  sentAt: timestamp('sent_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  reportCreatedIdx: index('idx_report_deliveries_report_created').on(table.reportId, table.createdAt),
+  listIdx: index('idx_report_deliveries_list_id').on(table.listId),
+}));
+
+// ============================================================================
+// CUSTOM SKILL BUNDLES
+// ============================================================================
+
+/**
+ * Agency-defined skill bundle: a built-in bundle (baseBusinessType) plus
+ * overrides. Selectable as a client's business type.
+ */
+export const customSkillBundles = pgTable('custom_skill_bundles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  agencyId: uuid('agency_id').notNull().references(() => agencies.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  baseBusinessType: businessTypeEnum('base_business_type').notNull(),
+  currentVersion: integer('current_version').default(1).notNull(),
+  isArchived: boolean('is_archived').default(false).notNull(),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  agencyIdx: index('idx_custom_skill_bundles_agency_id').on(table.agencyId),
+  agencyNameIdx: uniqueIndex('idx_custom_skill_bundles_agency_name').on(table.agencyId, table.name),
+}));
+
+/**
+ * Immutable overrides for each saved version of a custom skill bundle.
+ * Reports record the version they ran with in skillMetadataJson.
+ */
+export const customSkillBundleVersions = pgTable('custom_skill_bundle_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  bundleId: uuid('bundle_id').notNull().references(() => customSkillBundles.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(),
+  overridesJson: text('overrides_json').notNull(),
+  changeNote: text('change_note'),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  bundleVersionIdx: uniqueIndex('idx_custom_skill_bundle_versions_bundle_version').on(table.bundleId, table.version),
+}));
+
+// ============================================================================
+// SKILL EXPERIMENTS
+// ============================================================================
+
+/**
+ * A/B test of built-in skill bundle variants for one business type. While
+ * running, reports for the agency's clients of that type are assigned a
+ * variant by weight, per client (sticky) or per report.
+ */
+export const skillExperiments = pgTable('skill_experiments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  agencyId: uuid('agency_id').notNull().references(() => agencies.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  businessType: businessTypeEnum('business_type').notNull(),
+  assignmentUnit: skillExperimentAssignmentEnum('assignment_unit').default('client').notNull(),
+  status: skillExperimentStatusEnum('status').default('running').notNull(),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  startedAt: timestamp('started_at', { withTimezone: true }).defaultNow(),
+  stoppedAt: timestamp('stopped_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  agencyIdx: index('idx_skill_experiments_agency_id').on(table.agencyId),
+  agencyBusinessTypeStatusIdx: index('idx_skill_experiments_agency_type_status').on(
+    table.agencyId,
+    table.businessType,
+    table.status
+  ),
+}));
+
+/**
+ * One arm of an experiment: overrides over the built-in bundle ({} for the
+ * control) and its share of assignments in percent. Overrides are immutable
+ * once created; weights can be changed to ramp a variant up or down.
+ */
+export const skillExperimentVariants = pgTable('skill_experiment_variants', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  experimentId: uuid('experiment_id').notNull().references(() => skillExperiments.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 30 }).notNull(),
+  weight: integer('weight').notNull(),
+  overridesJson: text('overrides_json').notNull().default('{}'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  experimentIdx: index('idx_skill_experiment_variants_experiment_id').on(table.experimentId),
+  experimentNameIdx: uniqueIndex('idx_skill_experiment_variants_experiment_name').on(table.experimentId, table.name),
+}));
+
+// ============================================================================
+// API KEYS
+// ============================================================================
+
+/**
+ * Agency-scoped keys for the REST API. Only a SHA-256 hash of the key is
+ * stored; the prefix identifies the key in the UI. Requests act as the user
+ * who created the key, limited to the key's scopes.
+ */
+export const apiKeys = pgTable('api_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  agencyId: uuid('agency_id').notNull().references(() => agencies.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  keyPrefix: varchar('key_prefix', { length: 20 }).notNull(),
+  keyHash: varchar('key_hash', { length: 64 }).notNull(),
+  scopes: text('scopes').array().notNull().default([]),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  agencyIdx: index('idx_api_keys_agency_id').on(table.agencyId),
+  keyHashIdx: uniqueIndex('idx_api_keys_key_hash').on(table.keyHash),
+}));
+
+// ============================================================================
+// REPORT BRANDING
+// ============================================================================
+
+/**
+ * Agency white-label settings for report PDFs. Logos are stored as PNG or
+ * JPEG data URLs so the server can render PDFs without fetching anything.
+ */
+export const agencyBrandings = pgTable('agency_brandings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  agencyId: uuid('agency_id').notNull().references(() => agencies.id, { onDelete: 'cascade' }),
+  companyName: varchar('company_name', { length: 100 }),
+  logoDataUrl: text('logo_data_url'),
+  primaryColor: varchar('primary_color', { length: 7 }),
+  accentColor: varchar('accent_color', { length: 7 }),
+  footerText: varchar('footer_text', { length: 200 }),
+  coverPageEnabled: boolean('cover_page_enabled').default(false).notNull(),
+  coverTitle: varchar('cover_title', { length: 150 }),
+  coverSubtitle: varchar('cover_subtitle', { length: 500 }),
+  updatedBy: uuid('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  agencyIdx: uniqueIndex('idx_agency_brandings_agency_id').on(table.agencyId),
+}));
+
+/**
+ * A client's own logo, shown on its report cover and header. Kept out of
+ * client_accounts so client listings do not carry image data.
+ */
+export const clientLogos = pgTable('client_logos', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  clientAccountId: uuid('client_account_id').notNull().references(() => clientAccounts.id, { onDelete: 'cascade' }),
+  logoDataUrl: text('logo_data_url').notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  clientIdx: uniqueIndex('idx_client_logos_client_id').on(table.clientAccountId),
+}));
+
+// ============================================================================
+// AUDIT EVENTS
+// ============================================================================
+
+/**
+ * Append-only record of user actions. Actor, client and entity IDs are kept
+ * without foreign keys so events outlive the users and clients they mention;
+ * actor name and email are copied for the same reason.
+ */
+export const auditEvents = pgTable('audit_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  agencyId: uuid('agency_id').notNull().references(() => agencies.id, { onDelete: 'cascade' }),
+  actorUserId: uuid('actor_user_id'),
+  actorName: varchar('actor_name', { length: 255 }),
+  actorEmail: varchar('actor_email', { length: 255 }),
+  apiKeyId: uuid('api_key_id'), // Set when the action was taken with an API key
+  action: varchar('action', { length: 100 }).notNull(),
+  entityType: varchar('entity_type', { length: 50 }).notNull(),
+  entityId: varchar('entity_id', { length: 255 }),
+  clientAccountId: uuid('client_account_id'),
+  changesJson: text('changes_json'), // { field: { before, after } }
+  metadataJson: text('metadata_json').notNull().default('{}'), // Request method, path, IP, user agent
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  agencyCreatedIdx: index('idx_audit_events_agency_created').on(table.agencyId, table.createdAt),
+  entityIdx: index('idx_audit_events_entity').on(table.entityType, table.entityId),
+  clientIdx: index('idx_audit_events_client_account_id').on(table.clientAccountId),
+}));
+
+// ============================================================================
+// CLIENT ASSIGNMENTS
+// ============================================================================
+
+/**
+ * Clients a user is responsible for. Members only see clients they are
+ * assigned to; owners and admins see every client in the agency.
+ */
+export const clientAssignments = pgTable('client_assignments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  clientAccountId: uuid('client_account_id').notNull().references(() => clientAccounts.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  assignedBy: uuid('assigned_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_client_assignments_user_id').on(table.userId),
+  uniqueIdx: uniqueIndex('idx_client_assignments_unique').on(table.clientAccountId, table.userId),
+}));
+
+// ============================================================================
+// ROLE PERMISSIONS
+// ============================================================================
+
+/**
+ * Per-agency changes to the default role permission matrix. A row exists only
+ * where the agency differs from the default for that role and permission.
+ */
+export const rolePermissions = pgTable('role_permissions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  agencyId: uuid('agency_id').notNull().references(() => agencies.id, { onDelete: 'cascade' }),
+  role: roleEnum('role').notNull(),
+  permission: varchar('permission', { length: 100 }).notNull(),
+  allowed: boolean('allowed').notNull(),
+  updatedBy: uuid('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  uniqueIdx: uniqueIndex('idx_role_permissions_unique').on(table.agencyId, table.role, table.permission),
+}));
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+/**
+ * Where an agency's alerts are delivered. Config holds recipients or the
+ * webhook URL and is encrypted because incoming webhook URLs are credentials.
+ */
+export const notificationChannels = pgTable('notification_channels', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  agencyId: uuid('agency_id').notNull().references(() => agencies.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  type: notificationChannelTypeEnum('type').notNull(),
+  configEncrypted: text('config_encrypted').notNull(),
+  configKeyVersion: integer('config_key_version').default(1).notNull(),
+  isActive: boolean('is_active').default(true).notNull(),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  agencyIdx: index('idx_notification_channels_agency_id').on(table.agencyId),
+}));
+
+/**
+ * Routes alerts at or above a severity to a channel. An empty alertCodes
+ * list matches every code.
+ */
+export const notificationRules = pgTable('notification_rules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  agencyId: uuid('agency_id').notNull().references(() => agencies.id, { onDelete: 'cascade' }),
+  channelId: uuid('channel_id').notNull().references(() => notificationChannels.id, { onDelete: 'cascade' }),
+  minSeverity: alertSeverityEnum('min_severity').default('critical').notNull(),
+  alertCodes: text('alert_codes').array().notNull().default([]),
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  agencyIdx: index('idx_notification_rules_agency_id').on(table.agencyId),
+  channelIdx: index('idx_notification_rules_channel_id').on(table.channelId),
+}));
+
+/**
+ * One attempt to deliver an alert to a channel
+ */
+export const notificationDeliveries = pgTable('notification_deliveries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  agencyId: uuid('agency_id').notNull().references(() => agencies.id, { onDelete: 'cascade' }),
+  channelId: uuid('channel_id').references(() => notificationChannels.id, { onDelete: 'set null' }),
+  ruleId: uuid('rule_id').references(() => notificationRules.id, { onDelete: 'set null' }),
+  channelType: notificationChannelTypeEnum('channel_type').notNull(),
+  alertCode: varchar('alert_code', { length: 100 }).notNull(),
+  severity: alertSeverityEnum('severity').notNull(),
+  message: text('message').notNull(),
+  contextJson: text('context_json'),
+  status: notificationDeliveryStatusEnum('status').notNull(),
+  errorMessage: text('error_message'),
+  durationMs: integer('duration_ms'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  agencyCreatedIdx: index('idx_notification_deliveries_agency_created').on(table.agencyId, table.createdAt),
+  channelIdx: index('idx_notification_deliveries_channel_id').on(table.channelId),
+}));
+
+// ============================================================================
+// OUTBOUND WEBHOOKS
+// ============================================================================
+
+/**
+ * Agency-registered endpoint that receives signed lifecycle events. The
+ * signing secret is encrypted because it must be recoverable to sign.
+ */
+export const webhookEndpoints = pgTable('webhook_endpoints', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  agencyId: uuid('agency_id').notNull().references(() => agencies.id, { onDelete: 'cascade' }),
+  url: text('url').notNull(),
+  description: varchar('description', { length: 255 }),
+  // Event types to deliver; empty means all
+  events: text('events').array().notNull().default([]),
+  secretEncrypted: text('secret_encrypted').notNull(),
+  secretKeyVersion: integer('secret_key_version').default(1).notNull(),
+  isActive: boolean('is_active').default(true).notNull(),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  agencyIdx: index('idx_webhook_endpoints_agency_id').on(table.agencyId),
+}));
+
+/**
+ * One event queued for one endpoint. Attempts run on the job queue
+ * (webhook_delivery jobs) with its retry backoff.
+ */
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  endpointId: uuid('endpoint_id').notNull().references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+  agencyId: uuid('agency_id').notNull().references(() => agencies.id, { onDelete: 'cascade' }),
+  // Shared by every endpoint's delivery of the same event, for receiver-side dedupe
+  eventId: uuid('event_id').notNull(),
+  eventType: varchar('event_type', { length: 100 }).notNull(),
+  payloadJson: text('payload_json').notNull(),
+  status: webhookDeliveryStatusEnum('status').default('pending').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  responseStatus: integer('response_status'),
+  lastError: text('last_error'),
+  lastAttemptAt: timestamp('last_attempt_at', { withTimezone: true }),
+  deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  endpointCreatedIdx: index('idx_webhook_deliveries_endpoint_created').on(table.endpointId, table.createdAt),
+  eventIdx: index('idx_webhook_deliveries_event_id').on(table.eventId),
+}));
+
 // ============================================================================
 // CONSTRAINT VIOLATIONS (PHASE 6)
 // ============================================================================
@@ -432,7 +994,7 @@ export const constraintViolations = pgTable('constraint_violations', {
   violatingContent: text('violating_content').notNull(),
 
   // Skill version for debugging
-  skillVersion: varchar('skill_version', { length: 20 }).notNull(),
+  skillVersion: varchar('skill_version', { length: 100 }).notNull(),
 
   // Timestamps
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
@@ -521,6 +1083,36 @@ export const auctionInsights = pgTable('auction_insights', {
   campaignIdx: index('idx_auction_insights_campaign').on(table.campaignName),
 }));
 
+/**
+ * Alerts raised when successive auction insights date ranges show a meaningful
+ * competitive shift. competitorId is null for alerts about our own account
+ * (e.g. impression share lost to rank).
+ */
+export const competitorAlerts = pgTable('competitor_alerts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  clientAccountId: uuid('client_account_id').notNull().references(() => clientAccounts.id, { onDelete: 'cascade' }),
+  competitorId: uuid('competitor_id').references(() => competitors.id, { onDelete: 'cascade' }),
+  alertType: competitorAlertTypeEnum('alert_type').notNull(),
+  status: competitorAlertStatusEnum('status').notNull().default('open'),
+  // The date range that triggered the alert and the one it was compared against
+  dateRangeStart: date('date_range_start').notNull(),
+  dateRangeEnd: date('date_range_end').notNull(),
+  previousDateRangeEnd: date('previous_date_range_end'),
+  // Metric snapshot (percentage points)
+  metricName: varchar('metric_name', { length: 50 }).notNull(),
+  previousValue: decimal('previous_value', { precision: 5, scale: 2 }),
+  currentValue: decimal('current_value', { precision: 5, scale: 2 }),
+  message: text('message').notNull(),
+  statusChangedBy: uuid('status_changed_by').references(() => users.id),
+  statusChangedAt: timestamp('status_changed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  clientIdx: index('idx_competitor_alerts_client').on(table.clientAccountId),
+  competitorIdx: index('idx_competitor_alerts_competitor').on(table.competitorId),
+  statusIdx: index('idx_competitor_alerts_status').on(table.status),
+  dateRangeEndIdx: index('idx_competitor_alerts_date_range_end').on(table.dateRangeEnd),
+}));
+
 // ============================================================================
 // CAMPAIGN METRICS (TIER 2)
 // ============================================================================
@@ -591,6 +1183,14 @@ export const dailyAccountMetrics = pgTable('daily_account_metrics', {
 export const agenciesRelations = relations(agencies, ({ many }) => ({
   users: many(users),
   clientAccounts: many(clientAccounts),
+  customSkillBundles: many(customSkillBundles),
+  skillExperiments: many(skillExperiments),
+  notificationChannels: many(notificationChannels),
+  webhookEndpoints: many(webhookEndpoints),
+  apiKeys: many(apiKeys),
+  rolePermissions: many(rolePermissions),
+  auditEvents: many(auditEvents),
+  brandings: many(agencyBrandings),
 }));
 
 export const usersRelations = relations(users, ({ one, many }) => ({
@@ -615,12 +1215,18 @@ export const clientAccountsRelations = relations(clientAccounts, ({ one, many })
     fields: [clientAccounts.agencyId],
     references: [agencies.id],
   }),
+  customSkillBundle: one(customSkillBundles, {
+    fields: [clientAccounts.customSkillBundleId],
+    references: [customSkillBundles.id],
+  }),
   searchQueries: many(searchQueries),
   googleAdsQueries: many(googleAdsQueries),
   searchConsoleQueries: many(searchConsoleQueries),
   queryOverlaps: many(queryOverlaps),
   recommendations: many(recommendations),
   competitors: many(competitors),
+  assignments: many(clientAssignments),
+  logos: many(clientLogos),
   ga4Metrics: many(ga4Metrics),
   ga4LandingPageMetrics: many(ga4LandingPageMetrics),
   syncJobs: many(syncJobs),
@@ -698,12 +1304,24 @@ export const recommendationsRelations = relations(recommendations, ({ one }) =>
   }),
 }));
 
+export const googleAdsMutationsRelations = relations(googleAdsMutations, ({ one }) => ({
+  clientAccount: one(clientAccounts, {
+    fields: [googleAdsMutations.clientAccountId],
+    references: [clientAccounts.id],
+  }),
+  recommendation: one(recommendations, {
+    fields: [googleAdsMutations.recommendationId],
+    references: [recommendations.id],
+  }),
+}));
+
 export const competitorsRelations = relations(competitors, ({ one, many }) => ({
   clientAccount: one(clientAccounts, {
     fields: [competitors.clientAccountId],
     references: [clientAccounts.id],
   }),
   metrics: many(competitorMetrics),
+  alerts: many(competitorAlerts),
 }));
 
 export const competitorMetricsRelations = relations(competitorMetrics, ({ one }) => ({
@@ -713,6 +1331,17 @@ export const competitorMetricsRelations = relations(competitorMetrics, ({ one })
   }),
 }));
 
+export const competitorAlertsRelations = relations(competitorAlerts, ({ one }) => ({
+  clientAccount: one(clientAccounts, {
+    fields: [competitorAlerts.clientAccountId],
+    references: [clientAccounts.id],
+  }),
+  competitor: one(competitors, {
+    fields: [competitorAlerts.competitorId],
+    references: [competitors.id],
+  }),
+}));
+
 export const ga4MetricsRelations = relations(ga4Metrics, ({ one }) => ({
   clientAccount: one(clientAccounts, {
     fields: [ga4Metrics.clientAccountId],
@@ -735,6 +1364,17 @@ export const syncJobsRelations = relations(syncJobs, ({ one }) => ({
   }),
 }));
 
+export const jobQueueRelations = relations(jobQueue, ({ one }) => ({
+  agency: one(agencies, {
+    fields: [jobQueue.agencyId],
+    references: [agencies.id],
+  }),
+  clientAccount: one(clientAccounts, {
+    fields: [jobQueue.clientAccountId],
+    references: [clientAccounts.id],
+  }),
+}));
+
 export const analysisJobsRelations = relations(analysisJobs, ({ one }) => ({
   queryOverlap: one(queryOverlaps, {
     fields: [analysisJobs.queryOverlapId],
@@ -753,6 +1393,189 @@ export const interplayReportsRelations = relations(interplayReports, ({ one, man
   }),
   recommendations: many(recommendations),
   constraintViolations: many(constraintViolations),
+  phaseEvents: many(reportPhaseEvents),
+  shareLinks: many(reportShareLinks),
+  deliveries: many(reportDeliveries),
+}));
+
+export const reportPhaseEventsRelations = relations(reportPhaseEvents, ({ one }) => ({
+  interplayReport: one(interplayReports, {
+    fields: [reportPhaseEvents.reportId],
+    references: [interplayReports.id],
+  }),
+}));
+
+export const reportSchedulesRelations = relations(reportSchedules, ({ one }) => ({
+  clientAccount: one(clientAccounts, {
+    fields: [reportSchedules.clientAccountId],
+    references: [clientAccounts.id],
+  }),
+  lastReport: one(interplayReports, {
+    fields: [reportSchedules.lastReportId],
+    references: [interplayReports.id],
+  }),
+}));
+
+export const customSkillBundlesRelations = relations(customSkillBundles, ({ one, many }) => ({
+  agency: one(agencies, {
+    fields: [customSkillBundles.agencyId],
+    references: [agencies.id],
+  }),
+  versions: many(customSkillBundleVersions),
+  clientAccounts: many(clientAccounts),
+}));
+
+export const customSkillBundleVersionsRelations = relations(customSkillBundleVersions, ({ one }) => ({
+  bundle: one(customSkillBundles, {
+    fields: [customSkillBundleVersions.bundleId],
+    references: [customSkillBundles.id],
+  }),
+}));
+
+export const skillExperimentsRelations = relations(skillExperiments, ({ one, many }) => ({
+  agency: one(agencies, {
+    fields: [skillExperiments.agencyId],
+    references: [agencies.id],
+  }),
+  variants: many(skillExperimentVariants),
+}));
+
+export const skillExperimentVariantsRelations = relations(skillExperimentVariants, ({ one, many }) => ({
+  experiment: one(skillExperiments, {
+    fields: [skillExperimentVariants.experimentId],
+    references: [skillExperiments.id],
+  }),
+  reportMetrics: many(reportMetrics),
+}));
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  agency: one(agencies, {
+    fields: [apiKeys.agencyId],
+    references: [agencies.id],
+  }),
+  creator: one(users, {
+    fields: [apiKeys.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const reportShareLinksRelations = relations(reportShareLinks, ({ one }) => ({
+  interplayReport: one(interplayReports, {
+    fields: [reportShareLinks.reportId],
+    references: [interplayReports.id],
+  }),
+  clientAccount: one(clientAccounts, {
+    fields: [reportShareLinks.clientAccountId],
+    references: [clientAccounts.id],
+  }),
+  creator: one(users, {
+    fields: [reportShareLinks.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const reportDistributionListsRelations = relations(reportDistributionLists, ({ one, many }) => ({
+  clientAccount: one(clientAccounts, {
+    fields: [reportDistributionLists.clientAccountId],
+    references: [clientAccounts.id],
+  }),
+  creator: one(users, {
+    fields: [reportDistributionLists.createdBy],
+    references: [users.id],
+  }),
+  deliveries: many(reportDeliveries),
+}));
+
+export const reportDeliveriesRelations = relations(reportDeliveries, ({ one }) => ({
+  interplayReport: one(interplayReports, {
+    fields: [reportDeliveries.reportId],
+    references: [interplayReports.id],
+  }),
+  clientAccount: one(clientAccounts, {
+    fields: [reportDeliveries.clientAccountId],
+    references: [clientAccounts.id],
+  }),
+  list: one(reportDistributionLists, {
+    fields: [reportDeliveries.listId],
+    references: [reportDistributionLists.id],
+  }),
+}));
+
+export const agencyBrandingsRelations = relations(agencyBrandings, ({ one }) => ({
+  agency: one(agencies, {
+    fields: [agencyBrandings.agencyId],
+    references: [agencies.id],
+  }),
+}));
+
+export const clientLogosRelations = relations(clientLogos, ({ one }) => ({
+  clientAccount: one(clientAccounts, {
+    fields: [clientLogos.clientAccountId],
+    references: [clientAccounts.id],
+  }),
+}));
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  agency: one(agencies, {
+    fields: [auditEvents.agencyId],
+    references: [agencies.id],
+  }),
+}));
+
+export const clientAssignmentsRelations = relations(clientAssignments, ({ one }) => ({
+  clientAccount: one(clientAccounts, {
+    fields: [clientAssignments.clientAccountId],
+    references: [clientAccounts.id],
+  }),
+  user: one(users, {
+    fields: [clientAssignments.userId],
+    references: [users.id],
+  }),
+}));
+
+export const rolePermissionsRelations = relations(rolePermissions, ({ one }) => ({
+  agency: one(agencies, {
+    fields: [rolePermissions.agencyId],
+    references: [agencies.id],
+  }),
+}));
+
+export const notificationChannelsRelations = relations(notificationChannels, ({ one, many }) => ({
+  agency: one(agencies, {
+    fields: [notificationChannels.agencyId],
+    references: [agencies.id],
+  }),
+  rules: many(notificationRules),
+  deliveries: many(notificationDeliveries),
+}));
+
+export const notificationRulesRelations = relations(notificationRules, ({ one }) => ({
+  channel: one(notificationChannels, {
+    fields: [notificationRules.channelId],
+    references: [notificationChannels.id],
+  }),
+}));
+
+export const notificationDeliveriesRelations = relations(notificationDeliveries, ({ one }) => ({
+  channel: one(notificationChannels, {
+    fields: [notificationDeliveries.channelId],
+    references: [notificationChannels.id],
+  }),
+}));
+
+export const webhookEndpointsRelations = relations(webhookEndpoints, ({ one, many }) => ({
+  agency: one(agencies, {
+    fields: [webhookEndpoints.agencyId],
+    references: [agencies.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  endpoint: one(webhookEndpoints, {
+    fields: [webhookDeliveries.endpointId],
+    references: [webhookEndpoints.id],
+  }),
 }));
 
 // ============================================================================
@@ -789,9 +1612,13 @@ export const reportMetrics = pgTable('report_metrics', {
 
   // Skill information
   businessType: varchar('business_type', { length: 50 }).notNull(),
-  skillVersion: varchar('skill_version', { length: 20 }).notNull(),
+  skillVersion: varchar('skill_version', { length: 100 }).notNull(),
   usingFallback: boolean('using_fallback').notNull().default(false),
 
+  // Skill experiment arm the report ran with, if any
+  experimentId: uuid('experiment_id').references(() => skillExperiments.id, { onDelete: 'set null' }),
+  variantId: uuid('variant_id').references(() => skillExperimentVariants.id, { onDelete: 'set null' }),
+
   // Constraint violations
   constraintViolations: integer('constraint_violations').notNull().default(0),
   violationsByRule: text('violations_by_rule').notNull().default('{}'), // JSON string
@@ -816,6 +1643,9 @@ export const reportMetrics = pgTable('report_metrics', {
   keywordsDropped: integer('keywords_dropped').notNull().default(0),
   pagesDropped: integer('pages_dropped').notNull().default(0),
 
+  // LLM tokens across all agents
+  tokensUsed: integer('tokens_used'),
+
   // Timestamps
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
 }, (table) => ({
@@ -824,6 +1654,7 @@ export const reportMetrics = pgTable('report_metrics', {
   businessTypeIdx: index('idx_report_metrics_business_type').on(table.businessType),
   createdAtIdx: index('idx_report_metrics_created_at').on(table.createdAt),
   skillVersionIdx: index('idx_report_metrics_skill_version').on(table.skillVersion),
+  variantIdx: index('idx_report_metrics_variant_id').on(table.variantId),
 }));
 
 export const reportMetricsRelations = relations(reportMetrics, ({ one }) => ({
@@ -835,6 +1666,10 @@ export const reportMetricsRelations = relations(reportMetrics, ({ one }) => ({
     fields: [reportMetrics.clientAccountId],
     references: [clientAccounts.id],
   }),
+  variant: one(skillExperimentVariants, {
+    fields: [reportMetrics.variantId],
+    references: [skillExperimentVariants.id],
+  }),
 }));
 
 // ============================================================================
@@ -2,7 +2,7 @@
 import { db } from '@/db/index.js';
 import { clientAccounts, syncJobs } from '@/db/schema.js';
 import { eq, and, or, sql } from 'drizzle-orm';
-import { runClientSync } from '@/services/client-sync.service.js';
+import { enqueueClientSync } from '@/services/job-queue.service.js';
 import { workerLogger } from '@/utils/logger.js';
 
 async function main() {
@@ -41,34 +41,32 @@ async function main() {
 
   workerLogger.info({ clientCount: clients.length }, 'Found active clients');
 
-  let successCount = 0;
+  let queuedCount = 0;
   let failureCount = 0;
 
-  // Run syncs sequentially
+  // Queue one sync per client; the job worker runs them under per-agency limits
   for (const client of clients) {
     try {
-      const result = await runClientSync(client.id, 'scheduled');
-      successCount++;
-      workerLogger.info(
-        { clientId: client.id, recordsProcessed: result.recordsProcessed },
-        'Client sync succeeded'
-      );
+      const { job, created } = await enqueueClientSync(client.id, { trigger: 'scheduled' });
+      if (created) {
+        queuedCount++;
+      }
+      workerLogger.info({ clientId: client.id, jobId: job.id, created }, 'Client sync queued');
     } catch (error) {
       failureCount++;
-      // Error already logged by runClientSync, just count it
       workerLogger.error(
         { clientId: client.id, error: error instanceof Error ? error.message : 'Unknown error' },
-        'Client sync failed'
+        'Failed to queue client sync'
       );
     }
   }
 
   workerLogger.info(
-    { total: clients.length, succeeded: successCount, failed: failureCount },
+    { total: clients.length, queued: queuedCount, failed: failureCount },
     'Daily sync job completed'
   );
 
-  // Exit with error code if any syncs failed
+  // Exit with error code if any syncs could not be queued
   process.exit(failureCount > 0 ? 1 : 0);
 }
 
@@ -0,0 +1,19 @@
+#!/usr/bin/env node
+import { runScheduledReports } from '@/services/report-schedule.service.js';
+import { workerLogger } from '@/utils/logger.js';
+
+async function main() {
+  workerLogger.info('Starting scheduled reports job');
+
+  const summary = await runScheduledReports();
+
+  workerLogger.info(summary, 'Scheduled reports job completed');
+
+  // Exit with error code if any reports failed
+  process.exit(summary.failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  workerLogger.error({ error }, 'Scheduled reports job crashed');
+  process.exit(1);
+});
@@ -3,6 +3,9 @@ import { clerkClient, getAuth } from '@clerk/express';
 import { authLogger } from '@/utils/logger.js';
 import { db, users } from '@/db/index.js';
 import { eq } from 'drizzle-orm';
+import { isApiKey, verifyApiKey, type ApiKeyScope } from '@/services/api-key.service.js';
+import { hasPermission, type Permission, type Role } from '@/services/permission.service.js';
+import { canAccessClient } from '@/services/client-access.service.js';
 
 // Extend Express Request to include our custom user data
 // Note: Do NOT override req.auth - that's used by Clerk's getAuth()
@@ -17,8 +20,85 @@ declare global {
         name: string;
         role: string;
       };
+      /** Set when the request authenticated with an API key instead of a Clerk session */
+      apiKey?: {
+        id: string;
+        scopes: string[];
+      };
+    }
+  }
+}
+
+// ============================================================================
+// API KEYS
+// ============================================================================
+
+/**
+ * Routes reachable with an API key and the scope each needs. Anything not
+ * listed is rejected for API keys, so new routes stay session-only by default.
+ * Paths are matched against the full request path.
+ */
+const API_KEY_ROUTES: Array<{ method: string; path: RegExp; scope: ApiKeyScope }> = [
+  { method: 'GET', path: /^\/api\/clients\/?$/, scope: 'read:reports' },
+  { method: 'GET', path: /^\/api\/clients\/[^/]+\/?$/, scope: 'read:reports' },
+  { method: 'GET', path: /^\/api\/clients\/[^/]+\/interplay-reports\/?$/, scope: 'read:reports' },
+  { method: 'GET', path: /^\/api\/clients\/[^/]+\/interplay-report(\/diff)?\/?$/, scope: 'read:reports' },
+  { method: 'GET', path: /^\/api\/clients\/[^/]+\/interplay-report\/[0-9a-f-]{36}(\/progress|\/export)?\/?$/, scope: 'read:reports' },
+  { method: 'GET', path: /^\/api\/clients\/[^/]+\/recommendations\/?$/, scope: 'read:reports' },
+  { method: 'GET', path: /^\/api\/clients\/[^/]+\/sync-status\/?$/, scope: 'read:reports' },
+  { method: 'GET', path: /^\/api\/recommendations\/[^/]+\/?$/, scope: 'read:reports' },
+  { method: 'PATCH', path: /^\/api\/recommendations\/[^/]+\/status\/?$/, scope: 'write:recommendations' },
+  { method: 'POST', path: /^\/api\/recommendations\/[^/]+\/(approve|reject)\/?$/, scope: 'write:recommendations' },
+  { method: 'POST', path: /^\/api\/clients\/[^/]+\/sync\/?$/, scope: 'trigger:sync' },
+];
+
+function getPresentedApiKey(req: Request): string | null {
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) {
+    return header.trim();
+  }
+
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Bearer ')) {
+    const token = authHeader.slice('Bearer '.length).trim();
+    if (isApiKey(token)) {
+      return token;
     }
   }
+
+  return null;
+}
+
+/**
+ * Alternate authentication path: resolve an API key to its creator and check
+ * the route against the key's scopes
+ */
+async function authenticateApiKey(req: Request, res: Response, next: NextFunction, rawKey: string) {
+  const path = req.originalUrl.split('?')[0];
+  const route = API_KEY_ROUTES.find((r) => r.method === req.method && r.path.test(path));
+
+  if (!route) {
+    return res.status(403).json({ error: 'This endpoint is not available to API keys' });
+  }
+
+  const verified = await verifyApiKey(rawKey);
+
+  if (!verified) {
+    authLogger.warn({ url: req.url, method: req.method }, 'Invalid or revoked API key');
+    return res.status(401).json({ error: 'Invalid API key' });
+  }
+
+  if (!verified.key.scopes.includes(route.scope)) {
+    return res.status(403).json({ error: `API key is missing the ${route.scope} scope` });
+  }
+
+  req.currentUser = verified.user;
+  (req as any).user = verified.user;
+  req.apiKey = { id: verified.key.id, scopes: verified.key.scopes };
+
+  authLogger.debug({ apiKeyId: verified.key.id, scope: route.scope }, 'API key authenticated');
+
+  return next();
 }
 
 /**
@@ -33,6 +113,11 @@ export async function authenticate(req: Request, res: Response, next: NextFuncti
       return next();
     }
 
+    const apiKey = getPresentedApiKey(req);
+    if (apiKey) {
+      return await authenticateApiKey(req, res, next, apiKey);
+    }
+
     // Debug: Log the Authorization header presence (but not the token itself)
     const authHeader = req.headers.authorization;
     authLogger.debug({
@@ -133,3 +218,68 @@ export function requireOrganization(req: Request, res: Response, next: NextFunct
   }
   return next();
 }
+
+/**
+ * Require the authenticated user to hold one of the given agency roles
+ * Must run after authenticate
+ */
+export function requireRole(...roles: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.currentUser) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    if (!roles.includes(req.currentUser.role)) {
+      authLogger.warn({ userId: req.currentUser.id, role: req.currentUser.role, roles }, 'Insufficient role');
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+    return next();
+  };
+}
+
+/**
+ * Require the authenticated user's role to hold a permission in their agency's
+ * permission matrix. Must run after authenticate
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.currentUser) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const { id: userId, agencyId, role } = req.currentUser;
+
+      if (!(await hasPermission(agencyId, role as Role, permission))) {
+        authLogger.warn({ userId, role, permission }, 'Permission denied');
+        return res.status(403).json({ error: 'Insufficient permissions', permission });
+      }
+
+      return next();
+    } catch (error) {
+      authLogger.error({ error, permission }, 'Permission check failed');
+      return res.status(500).json({ error: 'Permission check failed' });
+    }
+  };
+}
+
+/**
+ * Param handler that blocks members from clients they are not assigned to.
+ * Register with router.param() for the client ID parameter. Must run after authenticate
+ */
+export async function requireClientAccess(req: Request, res: Response, next: NextFunction, clientId: string) {
+  if (!req.currentUser) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+
+  try {
+    if (!(await canAccessClient(req.currentUser, clientId))) {
+      authLogger.warn({ userId: req.currentUser.id, clientId }, 'Client access denied');
+      return res.status(403).json({ error: 'You do not have access to this client' });
+    }
+
+    return next();
+  } catch (error) {
+    authLogger.error({ error, clientId }, 'Client access check failed');
+    return res.status(500).json({ error: 'Client access check failed' });
+  }
+}
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { requirePermission } from '@/middleware/auth.middleware.js';
 
 const router = Router();
 
@@ -6,7 +7,7 @@ router.get('/', (_req, res) => {
   res.json({ message: 'agency info placeholder' });
 });
 
-router.patch('/', (_req, res) => {
+router.patch('/', requirePermission('settings:manage'), (_req, res) => {
   res.json({ message: 'update agency placeholder' });
 });
 
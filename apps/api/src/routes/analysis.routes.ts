@@ -20,15 +20,18 @@ import {
 import { analyzeQueryOverlap, analyzeBatchQueryOverlaps } from '@/services/ai-analyzer.service.js';
 import { saveRecommendation, getRecommendationStats } from '@/services/recommendation-storage.service.js';
 import { getOrCreateQuery } from '@/services/query-matcher.service.js';
+import { requirePermission, requireClientAccess } from '@/middleware/auth.middleware.js';
 
 const router = Router();
+
+router.param('clientId', requireClientAccess);
 const analysisLogger = logger.child({ module: 'analysis-routes' });
 
 /**
  * POST /api/analysis/run/:clientId
  * Run AI analysis on query overlaps for a specific client
  */
-router.post('/run/:clientId', async (req: Request, res: Response) => {
+router.post('/run/:clientId', requirePermission('reports:generate'), async (req: Request, res: Response) => {
   const startTime = Date.now();
   const { clientId } = req.params;
   const user = (req as any).user;
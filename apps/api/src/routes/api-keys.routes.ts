@@ -0,0 +1,95 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import { API_KEY_SCOPES, listApiKeys, createApiKey, revokeApiKey } from '@/services/api-key.service.js';
+
+const router = Router();
+const routeLogger = logger.child({ module: 'api-keys-routes' });
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'Select at least one scope'),
+});
+
+function handleError(error: unknown, res: Response, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof AppError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  routeLogger.error({ error }, message);
+  return res.status(500).json({ error: message });
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * GET /api/api-keys
+ * List the agency's API keys, including revoked ones, with available scopes
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const apiKeys = await listApiKeys(user.agencyId);
+
+    res.json({ apiKeys, scopes: API_KEY_SCOPES });
+  } catch (error) {
+    handleError(error, res, 'Failed to list API keys');
+  }
+});
+
+/**
+ * POST /api/api-keys
+ * Create a key. The response contains the key itself, which is shown only once.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const input = createApiKeySchema.parse(req.body);
+    const result = await createApiKey(user.agencyId, user.id, input);
+
+    res.status(201).json(result);
+  } catch (error) {
+    handleError(error, res, 'Failed to create API key');
+  }
+});
+
+/**
+ * DELETE /api/api-keys/:id
+ * Revoke a key; requests using it are rejected immediately
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const apiKey = await revokeApiKey(user.agencyId, req.params.id);
+
+    res.json({ apiKey });
+  } catch (error) {
+    handleError(error, res, 'Failed to revoke API key');
+  }
+});
+
+export default router;
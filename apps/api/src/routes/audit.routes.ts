@@ -0,0 +1,82 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import { AUDIT_ACTIONS, listAuditEvents, listAuditActors } from '@/services/audit.service.js';
+
+const router = Router();
+const routeLogger = logger.child({ module: 'audit-routes' });
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const auditEventsQuerySchema = z.object({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  entityType: z.string().max(50).optional(),
+  entityId: z.string().max(255).optional(),
+  actorUserId: z.string().uuid().optional(),
+  clientAccountId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+function handleError(error: unknown, res: Response, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof AppError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  routeLogger.error({ error }, message);
+  return res.status(500).json({ error: message });
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * GET /api/audit-events/filters
+ * Actions and actors available to filter the audit log by
+ */
+router.get('/filters', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const actors = await listAuditActors(user.agencyId);
+
+    res.json({ actions: AUDIT_ACTIONS, actors });
+  } catch (error) {
+    handleError(error, res, 'Failed to fetch audit filters');
+  }
+});
+
+/**
+ * GET /api/audit-events
+ * The agency's audit log, newest first, filtered by action, entity, actor, client and date
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const filters = auditEventsQuerySchema.parse(req.query);
+    const result = await listAuditEvents(user.agencyId, filters);
+
+    res.json(result);
+  } catch (error) {
+    handleError(error, res, 'Failed to list audit events');
+  }
+});
+
+export default router;
@@ -0,0 +1,106 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { DEFAULT_BRANDING } from '@advergent/report-pdf';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import { requirePermission } from '@/middleware/auth.middleware.js';
+import {
+  HEX_COLOR_PATTERN,
+  LOGO_DATA_URL_PATTERN,
+  MAX_LOGO_DATA_URL_LENGTH,
+  getAgencyBrandingSettings,
+  updateAgencyBranding,
+} from '@/services/branding.service.js';
+
+const router = Router();
+const routeLogger = logger.child({ module: 'branding-routes' });
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const logoDataUrlSchema = z
+  .string()
+  .max(MAX_LOGO_DATA_URL_LENGTH, 'Logo must be smaller than 512 KB')
+  .regex(LOGO_DATA_URL_PATTERN, 'Logo must be a PNG or JPEG image');
+
+const hexColorSchema = z.string().regex(HEX_COLOR_PATTERN, 'Colours must be hex values like #2563eb');
+
+/** Blank strings clear a field back to its default */
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .nullable()
+    .optional()
+    .transform((value) => (value === '' ? null : value));
+
+const updateBrandingSchema = z.object({
+  companyName: optionalText(100),
+  logoDataUrl: logoDataUrlSchema.nullable().optional(),
+  primaryColor: hexColorSchema.nullable().optional(),
+  accentColor: hexColorSchema.nullable().optional(),
+  footerText: optionalText(200),
+  coverPageEnabled: z.boolean().optional(),
+  coverTitle: optionalText(150),
+  coverSubtitle: optionalText(500),
+});
+
+function handleError(error: unknown, res: Response, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof AppError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  routeLogger.error({ error }, message);
+  return res.status(500).json({ error: message });
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * GET /api/branding
+ * The agency's report branding and the defaults unset fields fall back to
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const branding = await getAgencyBrandingSettings(user.agencyId);
+
+    res.json({ branding, defaults: DEFAULT_BRANDING });
+  } catch (error) {
+    handleError(error, res, 'Failed to fetch branding');
+  }
+});
+
+/**
+ * PUT /api/branding
+ * Update report branding. Omitted fields are unchanged; null resets a field.
+ */
+router.put('/', requirePermission('settings:manage'), async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const input = updateBrandingSchema.parse(req.body);
+    const branding = await updateAgencyBranding(user.agencyId, input, user.id);
+
+    res.json({ branding });
+  } catch (error) {
+    handleError(error, res, 'Failed to update branding');
+  }
+});
+
+export default router;
@@ -13,19 +13,49 @@ import {
   ga4LandingPageMetrics,
   interplayReports,
 } from '@/db/schema.js';
-import { eq, and, desc, sql, or, gte } from 'drizzle-orm';
+import { eq, and, desc, sql, or, gte, inArray } from 'drizzle-orm';
 import { logger } from '@/utils/logger.js';
 import { getClientRecommendations } from '@/services/recommendation-storage.service.js';
-import { runClientSync } from '@/services/client-sync.service.js';
+import { enqueueClientSync, hasActiveJobForReference } from '@/services/job-queue.service.js';
+import { listCompetitors } from '@/services/competitor.service.js';
 import { analyzeSearchConsoleData, analyzeSearchConsoleDataGrouped, runSeoSemAnalysis, constructInterplayData } from '@/services/ai-analyzer.service.js';
 import { contentFetcher } from '@/services/content-fetcher.service.js';
 import { getSearchQueryReport } from '@/services/google-ads.service.js';
 import { getSearchAnalytics } from '@/services/search-console.service.js';
 import { getGA4LandingPageMetrics } from '@/services/ga4.service.js';
-import { isBusinessTypeSupported, type BusinessType } from '@/services/interplay-report/skills/index.js';
+import {
+  isBusinessTypeSupported,
+  clientSkillOverridesSchema,
+  type BusinessType,
+} from '@/services/interplay-report/skills/index.js';
+import {
+  getSelectableSkillBundle,
+  listSkillBundles,
+  getClientSkillOverrides,
+  saveClientSkillOverrides,
+  SkillBundleValidationError,
+} from '@/services/skill-bundle.service.js';
+import { AppError } from '@/utils/errors.js';
+import { requirePermission, requireClientAccess } from '@/middleware/auth.middleware.js';
+import {
+  getAccessibleClientIds,
+  assignCreator,
+  listClientAssignments,
+  setClientAssignments,
+} from '@/services/client-access.service.js';
+import { recordAuditEvent } from '@/services/audit.service.js';
+import {
+  LOGO_DATA_URL_PATTERN,
+  MAX_LOGO_DATA_URL_LENGTH,
+  resolveReportBranding,
+  setClientLogo,
+} from '@/services/branding.service.js';
 
 const router = Router();
 
+// Members only reach clients assigned to them
+router.param('id', requireClientAccess);
+
 // Business type Zod schema
 const businessTypeSchema = z.enum(['ecommerce', 'lead-gen', 'saas', 'local']);
 
@@ -33,6 +63,7 @@ const businessTypeSchema = z.enum(['ecommerce', 'lead-gen', 'saas', 'local']);
 const createClientSchema = z.object({
   name: z.string().min(1, 'Client name is required').max(255),
   businessType: businessTypeSchema.default('ecommerce'),
+  customSkillBundleId: z.string().uuid().nullable().optional(),
 });
 
 const updateClientSchema = z.object({
@@ -40,9 +71,26 @@ const updateClientSchema = z.object({
   googleAdsCustomerId: z.string().optional(),
   searchConsoleSiteUrl: z.string().url().optional(),
   businessType: businessTypeSchema.optional(),
+  customSkillBundleId: z.string().uuid().nullable().optional(),
   isActive: z.boolean().optional(),
 });
 
+const skillOverridesSchema = z.object({
+  overrides: clientSkillOverridesSchema.nullable(),
+});
+
+const clientLogoSchema = z.object({
+  logoDataUrl: z
+    .string()
+    .max(MAX_LOGO_DATA_URL_LENGTH, 'Logo must be smaller than 512 KB')
+    .regex(LOGO_DATA_URL_PATTERN, 'Logo must be a PNG or JPEG image')
+    .nullable(),
+});
+
+const updateAssignmentsSchema = z.object({
+  userIds: z.array(z.string().uuid()).max(500),
+});
+
 // Helper functions for business type metadata
 function getBusinessTypeLabel(type: BusinessType): string {
   const labels: Record<BusinessType, string> = {
@@ -72,12 +120,54 @@ function getFallbackType(type: BusinessType): BusinessType {
   return fallbacks[type] || type;
 }
 
+/**
+ * Client fields recorded in the audit log; credentials are left out
+ */
+function auditedClientFields(client: typeof clientAccounts.$inferSelect) {
+  return {
+    name: client.name,
+    businessType: client.businessType,
+    customSkillBundleId: client.customSkillBundleId,
+    googleAdsCustomerId: client.googleAdsCustomerId,
+    searchConsoleSiteUrl: client.searchConsoleSiteUrl,
+    isActive: client.isActive,
+  };
+}
+
+/**
+ * Resolve the business type a client runs with. A custom skill bundle pins
+ * the business type to the bundle's base type.
+ */
+async function resolveSkillSelection(
+  agencyId: string,
+  businessType: BusinessType | undefined,
+  customSkillBundleId: string | null | undefined
+): Promise<{ businessType?: BusinessType; customSkillBundleId?: string | null }> {
+  if (customSkillBundleId) {
+    const bundle = await getSelectableSkillBundle(agencyId, customSkillBundleId);
+    return { businessType: bundle.baseBusinessType, customSkillBundleId: bundle.id };
+  }
+
+  // Picking a built-in business type drops any custom bundle
+  if (customSkillBundleId === null || businessType) {
+    return { businessType, customSkillBundleId: null };
+  }
+
+  return {};
+}
+
 /**
  * GET /api/clients/business-types
  * Returns available business types for selection
  */
-router.get('/business-types', async (_req: Request, res: Response) => {
+router.get('/business-types', async (req: Request, res: Response) => {
   try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
     const allTypes: BusinessType[] = ['ecommerce', 'lead-gen', 'saas', 'local'];
 
     const types = allTypes.map(type => ({
@@ -90,7 +180,20 @@ router.get('/business-types', async (_req: Request, res: Response) => {
         : undefined,
     }));
 
-    res.json({ types });
+    // Agency custom bundles are selectable alongside the built-in types
+    const customBundles = await listSkillBundles(user.agencyId);
+    const customTypes = customBundles.map(bundle => ({
+      value: `custom:${bundle.id}`,
+      label: bundle.name,
+      description: bundle.description
+        || `Custom skills based on ${getBusinessTypeLabel(bundle.baseBusinessType)}`,
+      isFullySupported: true,
+      fallbackNote: undefined,
+      customSkillBundleId: bundle.id,
+      baseBusinessType: bundle.baseBusinessType,
+    }));
+
+    res.json({ types: [...types, ...customTypes] });
   } catch (error) {
     logger.error({ error }, 'Failed to get business types');
     res.status(500).json({ error: 'Failed to get business types' });
@@ -101,15 +204,20 @@ router.get('/business-types', async (_req: Request, res: Response) => {
  * POST /api/clients
  * Create a new client account
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requirePermission('clients:create'), async (req: Request, res: Response) => {
   try {
-    const { name, businessType } = createClientSchema.parse(req.body);
+    const input = createClientSchema.parse(req.body);
     const user = (req as any).user;
 
     if (!user) {
       return res.status(401).json({ error: 'User not found' });
     }
 
+    const { name } = input;
+    const skillSelection = await resolveSkillSelection(user.agencyId, input.businessType, input.customSkillBundleId);
+    const businessType = skillSelection.businessType ?? input.businessType;
+    const customSkillBundleId = skillSelection.customSkillBundleId ?? null;
+
     // Create client account
     const [client] = await db
       .insert(clientAccounts)
@@ -117,21 +225,35 @@ router.post('/', async (req: Request, res: Response) => {
         agencyId: user.agencyId,
         name,
         businessType,
+        customSkillBundleId,
         isActive: true,
       })
       .returning();
 
-    logger.info({ clientId: client.id, userId: user.id, businessType }, 'Client created');
+    await assignCreator(user, client.id);
+    await recordAuditEvent(req, {
+      action: 'client.created',
+      entityType: 'client',
+      entityId: client.id,
+      clientAccountId: client.id,
+      after: auditedClientFields(client),
+    });
+
+    logger.info({ clientId: client.id, userId: user.id, businessType, customSkillBundleId }, 'Client created');
 
     res.status(201).json({
       id: client.id,
       name: client.name,
       businessType: client.businessType,
+      customSkillBundleId: client.customSkillBundleId,
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid request', details: error.errors });
     }
+    if (error instanceof AppError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     logger.error({ error }, 'Failed to create client');
     res.status(500).json({ error: 'Failed to create client' });
   }
@@ -149,10 +271,16 @@ router.get('/', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'User not found' });
     }
 
+    const accessibleClientIds = await getAccessibleClientIds(user);
+
     const clients = await db
       .select()
       .from(clientAccounts)
-      .where(eq(clientAccounts.agencyId, user.agencyId));
+      .where(
+        accessibleClientIds === null
+          ? eq(clientAccounts.agencyId, user.agencyId)
+          : and(eq(clientAccounts.agencyId, user.agencyId), inArray(clientAccounts.id, accessibleClientIds))
+      );
 
     res.json({ clients });
   } catch (error) {
@@ -212,7 +340,7 @@ router.get('/:id', async (req: Request, res: Response) => {
  * PATCH /api/clients/:id
  * Update a client
  */
-router.patch('/:id', async (req: Request, res: Response) => {
+router.patch('/:id', requirePermission('clients:update'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const updates = updateClientSchema.parse(req.body);
@@ -238,21 +366,40 @@ router.patch('/:id', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Client not found' });
     }
 
+    const skillSelection = await resolveSkillSelection(
+      user.agencyId,
+      updates.businessType,
+      updates.customSkillBundleId
+    );
+
     // Update client
     const [updatedClient] = await db
       .update(clientAccounts)
       .set({
         ...updates,
+        ...skillSelection,
         updatedAt: new Date(),
       })
       .where(eq(clientAccounts.id, id))
       .returning();
 
+    await recordAuditEvent(req, {
+      action: 'client.updated',
+      entityType: 'client',
+      entityId: id,
+      clientAccountId: id,
+      before: auditedClientFields(existingClient),
+      after: auditedClientFields(updatedClient),
+    });
+
     logger.info(
       {
         clientId: id,
         userId: user.id,
-        ...(updates.businessType && { businessType: updates.businessType }),
+        ...(skillSelection.businessType && { businessType: skillSelection.businessType }),
+        ...(skillSelection.customSkillBundleId !== undefined && {
+          customSkillBundleId: skillSelection.customSkillBundleId,
+        }),
       },
       'Client updated'
     );
@@ -262,16 +409,187 @@ router.patch('/:id', async (req: Request, res: Response) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid request', details: error.errors });
     }
+    if (error instanceof AppError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     logger.error({ error }, 'Failed to update client');
     res.status(500).json({ error: 'Failed to update client' });
   }
 });
 
+/**
+ * GET /api/clients/:id/skill-overrides
+ * Client threshold and benchmark overrides, with the bundle values they replace
+ */
+router.get('/:id/skill-overrides', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const [client] = await db
+      .select()
+      .from(clientAccounts)
+      .where(
+        and(
+          eq(clientAccounts.id, id),
+          eq(clientAccounts.agencyId, user.agencyId)
+        )
+      )
+      .limit(1);
+
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    res.json(await getClientSkillOverrides(client));
+  } catch (error) {
+    logger.error({ error }, 'Failed to get client skill overrides');
+    res.status(500).json({ error: 'Failed to get client skill overrides' });
+  }
+});
+
+/**
+ * PUT /api/clients/:id/skill-overrides
+ * Replace the client's overrides; null or {} clears them
+ */
+router.put('/:id/skill-overrides', requirePermission('clients:update'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { overrides } = skillOverridesSchema.parse(req.body);
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const [client] = await db
+      .select()
+      .from(clientAccounts)
+      .where(
+        and(
+          eq(clientAccounts.id, id),
+          eq(clientAccounts.agencyId, user.agencyId)
+        )
+      )
+      .limit(1);
+
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const result = await saveClientSkillOverrides(client, overrides);
+
+    await recordAuditEvent(req, {
+      action: 'client.skill_overrides_updated',
+      entityType: 'client',
+      entityId: id,
+      clientAccountId: id,
+      before: { overrides: client.skillOverridesJson ? JSON.parse(client.skillOverridesJson) : null },
+      after: { overrides: result.overrides },
+    });
+
+    logger.info({ clientId: id, userId: user.id, hasOverrides: !!result.overrides }, 'Client skill overrides updated');
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    if (error instanceof SkillBundleValidationError) {
+      return res.status(400).json({ error: error.message, details: error.issues });
+    }
+    logger.error({ error }, 'Failed to update client skill overrides');
+    res.status(500).json({ error: 'Failed to update client skill overrides' });
+  }
+});
+
+/**
+ * GET /api/clients/:id/branding
+ * Resolved report branding for the client: agency branding plus the client's logo
+ */
+router.get('/:id/branding', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const [client] = await db
+      .select({ id: clientAccounts.id })
+      .from(clientAccounts)
+      .where(
+        and(
+          eq(clientAccounts.id, id),
+          eq(clientAccounts.agencyId, user.agencyId)
+        )
+      )
+      .limit(1);
+
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    res.json({ branding: await resolveReportBranding(user.agencyId, client.id) });
+  } catch (error) {
+    logger.error({ error }, 'Failed to get client branding');
+    res.status(500).json({ error: 'Failed to get client branding' });
+  }
+});
+
+/**
+ * PUT /api/clients/:id/logo
+ * Set the client's report logo (PNG or JPEG data URL); null removes it
+ */
+router.put('/:id/logo', requirePermission('clients:update'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { logoDataUrl } = clientLogoSchema.parse(req.body);
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const [client] = await db
+      .select({ id: clientAccounts.id })
+      .from(clientAccounts)
+      .where(
+        and(
+          eq(clientAccounts.id, id),
+          eq(clientAccounts.agencyId, user.agencyId)
+        )
+      )
+      .limit(1);
+
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    await setClientLogo(client.id, logoDataUrl);
+
+    logger.info({ clientId: id, userId: user.id, hasLogo: !!logoDataUrl }, 'Client logo updated');
+
+    res.json({ branding: await resolveReportBranding(user.agencyId, client.id) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    logger.error({ error }, 'Failed to update client logo');
+    res.status(500).json({ error: 'Failed to update client logo' });
+  }
+});
+
 /**
  * DELETE /api/clients/:id
  * Delete a client
  */
-router.delete('/:id', async (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('clients:delete'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const user = (req as any).user;
@@ -301,6 +619,14 @@ router.delete('/:id', async (req: Request, res: Response) => {
       .delete(clientAccounts)
       .where(eq(clientAccounts.id, id));
 
+    await recordAuditEvent(req, {
+      action: 'client.deleted',
+      entityType: 'client',
+      entityId: id,
+      clientAccountId: id,
+      before: auditedClientFields(existingClient),
+    });
+
     logger.info({ clientId: id, userId: user.id }, 'Client deleted');
 
     res.json({ success: true, message: 'Client deleted successfully' });
@@ -310,6 +636,68 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/clients/:id/assignments
+ * Users assigned to a client, with the agency's users to choose from
+ */
+router.get('/:id/assignments', requirePermission('clients:assign'), async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const result = await listClientAssignments(user.agencyId, req.params.id);
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ error }, 'Failed to list client assignments');
+    res.status(500).json({ error: 'Failed to list client assignments' });
+  }
+});
+
+/**
+ * PUT /api/clients/:id/assignments
+ * Replace the users assigned to a client
+ */
+router.put('/:id/assignments', requirePermission('clients:assign'), async (req: Request, res: Response) => {
+  try {
+    const { userIds } = updateAssignmentsSchema.parse(req.body);
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const previous = await listClientAssignments(user.agencyId, req.params.id);
+    const result = await setClientAssignments(user.agencyId, req.params.id, userIds, user.id);
+
+    await recordAuditEvent(req, {
+      action: 'client.assignments_updated',
+      entityType: 'client',
+      entityId: req.params.id,
+      clientAccountId: req.params.id,
+      before: { userIds: [...previous.assignedUserIds].sort() },
+      after: { userIds: [...result.assignedUserIds].sort() },
+    });
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ error }, 'Failed to update client assignments');
+    res.status(500).json({ error: 'Failed to update client assignments' });
+  }
+});
+
 /**
  * GET /api/clients/:id/search-console-data
  * Fetch recent Search Console query data for a client
@@ -565,7 +953,7 @@ router.get('/:id/ga4-landing-pages', async (req: Request, res: Response) => {
  * POST /api/clients/:id/search-console/analyze
  * Analyze Search Console data using AI
  */
-router.post('/:id/search-console/analyze', async (req: Request, res: Response) => {
+router.post('/:id/search-console/analyze', requirePermission('reports:generate'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const user = (req as any).user;
@@ -910,7 +1298,7 @@ router.get('/:id/query-overlaps', async (req: Request, res: Response) => {
  * POST /api/clients/:id/seo-sem-analysis
  * Run the multi-agent SEO/SEM interplay analysis
  */
-router.post('/:id/seo-sem-analysis', async (req: Request, res: Response) => {
+router.post('/:id/seo-sem-analysis', requirePermission('reports:generate'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const user = (req as any).user;
@@ -1094,7 +1482,7 @@ router.get('/:id/recommendations', async (req: Request, res: Response) => {
  * POST /api/clients/:id/analyze
  * Trigger AI analysis for a specific client (moved from analysis routes)
  */
-router.post('/:id/analyze', async (req: Request, res: Response) => {
+router.post('/:id/analyze', requirePermission('reports:generate'), async (req: Request, res: Response) => {
   // Import analysis handler from analysis routes
   const analysisRoutes = await import('./analysis.routes.js');
   const analysisHandler = analysisRoutes.default.stack.find(
@@ -1112,17 +1500,41 @@ router.post('/:id/analyze', async (req: Request, res: Response) => {
 
 /**
  * GET /api/clients/:id/competitors
- * Get competitors for a client (Phase 2 - placeholder)
+ * Get tracked competitors for a client with their latest auction insights metrics
  */
-router.get('/:id/competitors', (_req, res) => {
-  res.json({ message: 'client competitors placeholder' });
+router.get('/:id/competitors', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const [client] = await db
+      .select({ id: clientAccounts.id })
+      .from(clientAccounts)
+      .where(and(eq(clientAccounts.id, id), eq(clientAccounts.agencyId, user.agencyId)))
+      .limit(1);
+
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const results = await listCompetitors(id);
+
+    res.json({ competitors: results, total: results.length });
+  } catch (error) {
+    logger.error({ error }, 'Failed to fetch client competitors');
+    res.status(500).json({ error: 'Failed to fetch client competitors' });
+  }
 });
 
 /**
  * POST /api/clients/:id/sync
  * Trigger manual data sync for a client from Google Ads and Search Console
  */
-router.post('/:id/sync', async (req: Request, res: Response) => {
+router.post('/:id/sync', requirePermission('clients:sync'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const user = (req as any).user;
@@ -1142,21 +1554,30 @@ router.post('/:id/sync', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Client not found' });
     }
 
-    // Fail stale pending jobs (e.g., server crashed before async work kicked off)
+    // Fail stale pending jobs that never made it onto the queue (e.g., server
+    // crashed between insert and enqueue). Jobs still waiting for a worker are left alone.
     const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-    await db
-      .update(syncJobs)
-      .set({
-        status: 'failed',
-        completedAt: new Date(),
-        errorMessage: 'Sync timed out before starting',
-      })
+    const stalePending = await db
+      .select({ id: syncJobs.id })
+      .from(syncJobs)
       .where(and(
         eq(syncJobs.clientAccountId, id),
         eq(syncJobs.status, 'pending'),
         sql`${syncJobs.createdAt} < ${fiveMinutesAgo}`
       ));
 
+    for (const stale of stalePending) {
+      if (await hasActiveJobForReference(stale.id)) continue;
+      await db
+        .update(syncJobs)
+        .set({
+          status: 'failed',
+          completedAt: new Date(),
+          errorMessage: 'Sync timed out before starting',
+        })
+        .where(and(eq(syncJobs.id, stale.id), eq(syncJobs.status, 'pending')));
+    }
+
     // Try to insert new sync job (status 'pending')
     // The unique partial index will prevent concurrent syncs atomically
     let syncJob;
@@ -1197,9 +1618,20 @@ router.post('/:id/sync', async (req: Request, res: Response) => {
       throw error;
     }
 
+    // Hand the sync to the job worker; the pending row is what the UI polls
+    const { job: queueJob } = await enqueueClientSync(id, { trigger: 'manual', syncJobId: syncJob.id });
+
+    await recordAuditEvent(req, {
+      action: 'client.sync_triggered',
+      entityType: 'client',
+      entityId: id,
+      clientAccountId: id,
+      after: { syncJobId: syncJob.id },
+    });
+
     logger.info(
-      { clientId: id, userId: user.id, jobId: syncJob.id },
-      'Manual sync initiated'
+      { clientId: id, userId: user.id, jobId: syncJob.id, queueJobId: queueJob.id },
+      'Manual sync queued'
     );
 
     // Return 202 Accepted with jobId
@@ -1208,23 +1640,6 @@ router.post('/:id/sync', async (req: Request, res: Response) => {
       message: 'Data sync initiated',
       jobId: syncJob.id,
     });
-
-    // Fire-and-forget execution
-    setImmediate(() => {
-      runClientSync(id, 'manual', syncJob.id)
-        .then(result => {
-          logger.info(
-            { clientId: id, userId: user.id, jobId: syncJob.id, recordsProcessed: result.recordsProcessed },
-            'Manual sync completed successfully'
-          );
-        })
-        .catch(error => {
-          logger.error(
-            { clientId: id, userId: user.id, jobId: syncJob.id, error },
-            'Manual sync failed'
-          );
-        });
-    });
   } catch (error) {
     logger.error({ error }, 'Failed to initiate manual sync');
     res.status(500).json({ error: 'Failed to initiate data sync' });
@@ -1,13 +1,446 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { db } from '@/db/index.js';
+import { clientAccounts, competitors, competitorAlerts } from '@/db/schema.js';
+import { eq, and } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import { isUniqueViolation } from '@/utils/errors.js';
+import { canAccessClient, type ClientAccessUser } from '@/services/client-access.service.js';
+import {
+  discoverCompetitors,
+  fetchCompetitorMetrics,
+  listCompetitors,
+  getClientCompetitorTimeseries,
+} from '@/services/competitor.service.js';
+import {
+  detectCompetitorAlerts,
+  listClientAlerts,
+  listCompetitorAlerts,
+  updateAlertStatus,
+} from '@/services/competitor-alert.service.js';
 
 const router = Router();
 
-router.get('/', (_req, res) => res.json({ message: 'list competitors placeholder' }));
-router.post('/', (_req, res) => res.json({ message: 'create competitor placeholder' }));
-router.patch('/:id', (_req, res) => res.json({ message: 'update competitor placeholder' }));
-router.delete('/:id', (_req, res) => res.json({ message: 'delete competitor placeholder' }));
+// Validation schemas
+const listCompetitorsSchema = z.object({
+  clientId: z.string().uuid(),
+  includeInactive: z.enum(['true', 'false']).optional(),
+});
 
-router.get('/:id/alerts', (_req, res) => res.json({ message: 'competitor alerts placeholder' }));
-router.patch('/alerts/:id/status', (_req, res) => res.json({ message: 'update alert placeholder' }));
+const timeseriesSchema = z.object({
+  clientId: z.string().uuid(),
+  days: z.coerce.number().int().min(1).max(730).optional(),
+});
+
+const metricsSchema = z.object({
+  days: z.coerce.number().int().min(1).max(730).optional(),
+});
+
+const createCompetitorSchema = z.object({
+  clientId: z.string().uuid(),
+  competitorDomain: z.string().trim().min(1).max(255),
+});
+
+const discoverCompetitorsSchema = z.object({
+  clientId: z.string().uuid(),
+});
+
+const updateCompetitorSchema = z.object({
+  competitorDomain: z.string().trim().min(1).max(255).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const alertStatusSchema = z.enum(['open', 'acknowledged', 'dismissed']);
+
+const listAlertsSchema = z.object({
+  clientId: z.string().uuid(),
+  status: alertStatusSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+const competitorAlertsSchema = z.object({
+  status: alertStatusSchema.optional(),
+});
+
+const updateAlertStatusSchema = z.object({
+  status: alertStatusSchema,
+});
+
+/**
+ * Convert a "last N days" filter into a YYYY-MM-DD lower bound
+ */
+function sinceDate(days?: number): string | undefined {
+  if (!days) return undefined;
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Verify the client belongs to the user's agency and, for members, is assigned to them
+ */
+async function findClientForUser(clientId: string, user: ClientAccessUser) {
+  const [client] = await db
+    .select({ id: clientAccounts.id })
+    .from(clientAccounts)
+    .where(and(eq(clientAccounts.id, clientId), eq(clientAccounts.agencyId, user.agencyId)))
+    .limit(1);
+
+  return client && (await canAccessClient(user, client.id)) ? client : undefined;
+}
+
+/**
+ * Fetch a competitor, scoped to the clients the user may access
+ */
+async function findCompetitorForUser(competitorId: string, user: ClientAccessUser) {
+  const [competitor] = await db
+    .select({
+      id: competitors.id,
+      clientAccountId: competitors.clientAccountId,
+      competitorDomain: competitors.competitorDomain,
+    })
+    .from(competitors)
+    .innerJoin(clientAccounts, eq(competitors.clientAccountId, clientAccounts.id))
+    .where(and(eq(competitors.id, competitorId), eq(clientAccounts.agencyId, user.agencyId)))
+    .limit(1);
+
+  return competitor && (await canAccessClient(user, competitor.clientAccountId)) ? competitor : undefined;
+}
+
+/**
+ * GET /api/competitors?clientId=...
+ * List tracked competitors for a client with their latest metrics
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const { clientId, includeInactive } = listCompetitorsSchema.parse(req.query);
+
+    const client = await findClientForUser(clientId, user);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const results = await listCompetitors(clientId, { includeInactive: includeInactive === 'true' });
+
+    res.json({ competitors: results, total: results.length });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    logger.error({ error }, 'Failed to list competitors');
+    res.status(500).json({ error: 'Failed to list competitors' });
+  }
+});
+
+/**
+ * GET /api/competitors/timeseries?clientId=...&days=...
+ * Metrics timeseries for every active competitor of a client (dashboard charts)
+ */
+router.get('/timeseries', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const { clientId, days } = timeseriesSchema.parse(req.query);
+
+    const client = await findClientForUser(clientId, user);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const series = await getClientCompetitorTimeseries(clientId, sinceDate(days));
+
+    res.json({ series });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    logger.error({ error }, 'Failed to fetch competitor timeseries');
+    res.status(500).json({ error: 'Failed to fetch competitor timeseries' });
+  }
+});
+
+/**
+ * POST /api/competitors/discover
+ * Re-run competitor discovery and alert detection from the client's auction insights
+ */
+router.post('/discover', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const { clientId } = discoverCompetitorsSchema.parse(req.body);
+
+    const client = await findClientForUser(clientId, user);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const result = await discoverCompetitors(clientId);
+    const alertsCreated = await detectCompetitorAlerts(clientId);
+
+    res.json({ ...result, alertsCreated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    logger.error({ error }, 'Failed to discover competitors');
+    res.status(500).json({ error: 'Failed to discover competitors' });
+  }
+});
+
+/**
+ * POST /api/competitors
+ * Manually track a competitor domain for a client
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const { clientId, competitorDomain } = createCompetitorSchema.parse(req.body);
+
+    const client = await findClientForUser(clientId, user);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const [created] = await db
+      .insert(competitors)
+      .values({
+        clientAccountId: clientId,
+        competitorDomain: competitorDomain.toLowerCase(),
+        detectedVia: 'manual',
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!created) {
+      return res.status(409).json({ error: 'Competitor already tracked for this client' });
+    }
+
+    logger.info({ competitorId: created.id, clientId, userId: user.id }, 'Competitor created');
+
+    res.status(201).json(created);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    logger.error({ error }, 'Failed to create competitor');
+    res.status(500).json({ error: 'Failed to create competitor' });
+  }
+});
+
+/**
+ * GET /api/competitors/:id/metrics
+ * Metrics timeseries for a single competitor
+ */
+router.get('/:id/metrics', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const { days } = metricsSchema.parse(req.query);
+
+    const competitor = await findCompetitorForUser(id, user);
+    if (!competitor) {
+      return res.status(404).json({ error: 'Competitor not found' });
+    }
+
+    const metrics = await fetchCompetitorMetrics(id, sinceDate(days));
+
+    res.json({ competitorId: id, competitorDomain: competitor.competitorDomain, metrics });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    logger.error({ error }, 'Failed to fetch competitor metrics');
+    res.status(500).json({ error: 'Failed to fetch competitor metrics' });
+  }
+});
+
+/**
+ * PATCH /api/competitors/:id
+ * Update a competitor (rename domain, activate/deactivate tracking)
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const updates = updateCompetitorSchema.parse(req.body);
+
+    const competitor = await findCompetitorForUser(id, user);
+    if (!competitor) {
+      return res.status(404).json({ error: 'Competitor not found' });
+    }
+
+    const [updated] = await db
+      .update(competitors)
+      .set({
+        ...(updates.competitorDomain !== undefined && { competitorDomain: updates.competitorDomain.toLowerCase() }),
+        ...(updates.isActive !== undefined && { isActive: updates.isActive }),
+      })
+      .where(eq(competitors.id, id))
+      .returning();
+
+    logger.info({ competitorId: id, userId: user.id, updates }, 'Competitor updated');
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    // Renamed to a domain the client already tracks (idx_competitors_unique)
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ error: 'Competitor already tracked for this client' });
+    }
+    logger.error({ error }, 'Failed to update competitor');
+    res.status(500).json({ error: 'Failed to update competitor' });
+  }
+});
+
+/**
+ * DELETE /api/competitors/:id
+ * Stop tracking a competitor and remove its metrics history
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const competitor = await findCompetitorForUser(id, user);
+    if (!competitor) {
+      return res.status(404).json({ error: 'Competitor not found' });
+    }
+
+    await db.delete(competitors).where(eq(competitors.id, id));
+
+    logger.info({ competitorId: id, userId: user.id }, 'Competitor deleted');
+
+    res.json({ success: true, id });
+  } catch (error) {
+    logger.error({ error }, 'Failed to delete competitor');
+    res.status(500).json({ error: 'Failed to delete competitor' });
+  }
+});
+
+/**
+ * GET /api/competitors/alerts?clientId=...&status=...
+ * List competitor alerts for a client
+ */
+router.get('/alerts', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const { clientId, status, limit } = listAlertsSchema.parse(req.query);
+
+    const client = await findClientForUser(clientId, user);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const alerts = await listClientAlerts(clientId, { status, limit });
+
+    res.json({ alerts, total: alerts.length });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    logger.error({ error }, 'Failed to list competitor alerts');
+    res.status(500).json({ error: 'Failed to list competitor alerts' });
+  }
+});
+
+/**
+ * GET /api/competitors/:id/alerts
+ * List alerts raised for a single competitor
+ */
+router.get('/:id/alerts', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const { status } = competitorAlertsSchema.parse(req.query);
+
+    const competitor = await findCompetitorForUser(id, user);
+    if (!competitor) {
+      return res.status(404).json({ error: 'Competitor not found' });
+    }
+
+    const alerts = await listCompetitorAlerts(id, { status });
+
+    res.json({ alerts, total: alerts.length });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    logger.error({ error }, 'Failed to fetch competitor alerts');
+    res.status(500).json({ error: 'Failed to fetch competitor alerts' });
+  }
+});
+
+/**
+ * PATCH /api/competitors/alerts/:id/status
+ * Acknowledge, dismiss or reopen a competitor alert
+ */
+router.patch('/alerts/:id/status', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const { status } = updateAlertStatusSchema.parse(req.body);
+
+    const [alert] = await db
+      .select({ id: competitorAlerts.id, clientAccountId: competitorAlerts.clientAccountId })
+      .from(competitorAlerts)
+      .innerJoin(clientAccounts, eq(competitorAlerts.clientAccountId, clientAccounts.id))
+      .where(and(eq(competitorAlerts.id, id), eq(clientAccounts.agencyId, user.agencyId)))
+      .limit(1);
+
+    if (!alert || !(await canAccessClient(user, alert.clientAccountId))) {
+      return res.status(404).json({ error: 'Alert not found' });
+    }
+
+    const updated = await updateAlertStatus(id, status, user.id);
+
+    res.json({ id: updated.id, status: updated.status, statusChangedAt: updated.statusChangedAt });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    logger.error({ error }, 'Failed to update competitor alert status');
+    res.status(500).json({ error: 'Failed to update competitor alert status' });
+  }
+});
 
 export default router;
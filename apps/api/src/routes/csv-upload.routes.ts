@@ -5,9 +5,14 @@ import { clientAccounts, csvUploads } from '@/db/schema.js';
 import { eq, and, desc } from 'drizzle-orm';
 import { logger } from '@/utils/logger.js';
 import { processUploadSession } from '@/services/csv-import.service.js';
+import { requirePermission, requireClientAccess } from '@/middleware/auth.middleware.js';
+import { recordAuditEvent } from '@/services/audit.service.js';
 
 const router = Router();
 
+// Members only reach clients assigned to them
+router.param('clientId', requireClientAccess);
+
 // Configure multer for memory storage
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -27,6 +32,7 @@ const upload = multer({
  */
 router.post(
   '/:clientId/csv-upload',
+  requirePermission('csv:upload'),
   upload.array('files', 20), // Max 20 files
   async (req: Request, res: Response) => {
     try {
@@ -77,6 +83,19 @@ router.post(
         'CSV upload completed'
       );
 
+      await recordAuditEvent(req, {
+        action: 'csv_upload.created',
+        entityType: 'csv_upload',
+        entityId: result.sessionId,
+        clientAccountId: clientId,
+        after: {
+          files: files.map((f) => f.originalname),
+          imported: result.imported.length,
+          skipped: result.skipped.length,
+          failed: result.failed.length,
+        },
+      });
+
       res.json(result);
     } catch (error) {
       logger.error({ error }, 'CSV upload failed');
@@ -1,11 +1,23 @@
 import { Router, Request, Response } from 'express';
 import { db } from '@/db/index.js';
 import { agencies, clientAccounts, recommendations, syncJobs } from '@/db/schema.js';
-import { eq, and, sql, count, sum } from 'drizzle-orm';
+import { eq, and, sql, count, sum, inArray, type SQL } from 'drizzle-orm';
 import { logger } from '@/utils/logger.js';
+import { getAccessibleClientIds } from '@/services/client-access.service.js';
 
 const router = Router();
 
+/**
+ * Clients of the agency the current user may see; members only see their assignments
+ */
+async function visibleClientsFilter(req: Request, agencyId: string): Promise<SQL | undefined> {
+  const accessibleClientIds = req.currentUser ? await getAccessibleClientIds(req.currentUser) : [];
+
+  return accessibleClientIds === null
+    ? eq(clientAccounts.agencyId, agencyId)
+    : and(eq(clientAccounts.agencyId, agencyId), inArray(clientAccounts.id, accessibleClientIds));
+}
+
 /**
  * GET /api/dashboard/stats
  * Returns aggregate statistics for the agency dashboard
@@ -30,11 +42,13 @@ router.get('/stats', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Agency not found' });
     }
 
+    const clientsFilter = await visibleClientsFilter(req, agency.id);
+
     // Get total clients for this agency
     const clientsResult = await db
       .select({ count: count() })
       .from(clientAccounts)
-      .where(eq(clientAccounts.agencyId, agency.id));
+      .where(clientsFilter);
 
     const totalClients = clientsResult[0]?.count || 0;
 
@@ -49,7 +63,7 @@ router.get('/stats', async (req: Request, res: Response) => {
       .innerJoin(clientAccounts, eq(recommendations.clientAccountId, clientAccounts.id))
       .where(
         and(
-          eq(clientAccounts.agencyId, agency.id),
+          clientsFilter,
           eq(recommendations.status, 'pending')
         )
       );
@@ -110,7 +124,7 @@ router.get('/clients', async (req: Request, res: Response) => {
         createdAt: clientAccounts.createdAt,
       })
       .from(clientAccounts)
-      .where(eq(clientAccounts.agencyId, agency.id));
+      .where(await visibleClientsFilter(req, agency.id));
 
     // For each client, fetch additional metrics
     const clientsWithMetrics = await Promise.all(
@@ -4,12 +4,15 @@ import { z } from 'zod';
 import { GoogleAdsApi } from 'google-ads-api';
 import { db } from '@/db/index.js';
 import { clientAccounts, searchQueries, searchConsoleQueries, ga4Metrics } from '@/db/schema.js';
-import { eq } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
 import { encryptToken } from '@/services/encryption.service.js';
 import { config } from '@/config/index.js';
 import { logger } from '@/utils/logger.js';
 import { tempOAuthStore } from '@/utils/temp-oauth-store.js';
 import { getOrCreateQuery } from '@/services/query-matcher.service.js';
+import { requirePermission } from '@/middleware/auth.middleware.js';
+import { recordAuditEvent } from '@/services/audit.service.js';
+import { canAccessClient } from '@/services/client-access.service.js';
 
 const router = Router();
 
@@ -24,6 +27,13 @@ const initiateSchema = z.object({
   service: z.enum(['ads', 'search_console', 'ga4', 'all']),
 });
 
+/** Client column holding the connected account for each service */
+const SERVICE_ACCOUNT_FIELDS = {
+  ads: 'googleAdsCustomerId',
+  search_console: 'searchConsoleSiteUrl',
+  ga4: 'ga4PropertyId',
+} as const;
+
 const disconnectSchema = z.object({
   clientId: z.string().uuid(),
   service: z.enum(['ads', 'search_console', 'ga4', 'all']),
@@ -44,6 +54,21 @@ const connectUnifiedSchema = z.object({
   ga4PropertyId: z.string().optional(),
 });
 
+/**
+ * Whether the client belongs to the user's agency and, for members, is assigned to them
+ */
+async function userCanAccessClient(req: Request, clientId: string): Promise<boolean> {
+  if (!req.currentUser) return false;
+
+  const [client] = await db
+    .select({ id: clientAccounts.id })
+    .from(clientAccounts)
+    .where(and(eq(clientAccounts.id, clientId), eq(clientAccounts.agencyId, req.currentUser.agencyId)))
+    .limit(1);
+
+  return !!client && canAccessClient(req.currentUser, client.id);
+}
+
 // Create OAuth2 client
 function getOAuth2Client() {
   return new google.auth.OAuth2(
@@ -57,7 +82,7 @@ function getOAuth2Client() {
  * GET /api/google/auth/initiate
  * Initiates Google OAuth flow for a client
  */
-router.get('/auth/initiate', async (req: Request, res: Response) => {
+router.get('/auth/initiate', requirePermission('google:connect'), async (req: Request, res: Response) => {
   try {
     const { clientId, service } = initiateSchema.parse(req.query);
     const userId = req.auth?.userId;
@@ -67,13 +92,7 @@ router.get('/auth/initiate', async (req: Request, res: Response) => {
     }
 
     // Verify client exists and user has access
-    const [client] = await db
-      .select()
-      .from(clientAccounts)
-      .where(eq(clientAccounts.id, clientId))
-      .limit(1);
-
-    if (!client) {
+    if (!(await userCanAccessClient(req, clientId))) {
       return res.status(404).json({ error: 'Client not found' });
     }
 
@@ -230,6 +249,10 @@ router.get('/accounts/:clientId', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
+    if (!(await userCanAccessClient(req, clientId))) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
     if (!session || typeof session !== 'string') {
       return res.status(400).json({ error: 'Missing session parameter' });
     }
@@ -358,6 +381,10 @@ router.get('/properties/:clientId', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
+    if (!(await userCanAccessClient(req, clientId))) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
     if (!session || typeof session !== 'string') {
       return res.status(400).json({ error: 'Missing session parameter' });
     }
@@ -422,6 +449,10 @@ router.get('/ga4-properties/:clientId', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
+    if (!(await userCanAccessClient(req, clientId))) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
     if (!session || typeof session !== 'string') {
       return res.status(400).json({ error: 'Missing session parameter' });
     }
@@ -479,7 +510,7 @@ router.get('/ga4-properties/:clientId', async (req: Request, res: Response) => {
  * POST /api/google/connect
  * Saves the selected Google Ads account, Search Console property, or GA4 property
  */
-router.post('/connect', async (req: Request, res: Response) => {
+router.post('/connect', requirePermission('google:connect'), async (req: Request, res: Response) => {
   try {
     const { clientId, service, session, selectedAccountId } = connectSchema.parse(req.body);
     const userId = req.auth?.userId;
@@ -488,6 +519,10 @@ router.post('/connect', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
+    if (!(await userCanAccessClient(req, clientId))) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
     const oauthSession = tempOAuthStore.getSession(session);
 
     if (!oauthSession) {
@@ -518,11 +553,11 @@ router.post('/connect', async (req: Request, res: Response) => {
       // Trigger initial sync (background)
       (async () => {
         try {
-          const { runClientSync } = await import('@/services/client-sync.service.js');
-          await runClientSync(clientId, 'manual');
-          logger.info({ clientId }, 'Initial Google Ads sync completed');
+          const { enqueueClientSync } = await import('@/services/job-queue.service.js');
+          await enqueueClientSync(clientId, { trigger: 'manual' });
+          logger.info({ clientId }, 'Initial Google Ads sync queued');
         } catch (error) {
-          logger.error({ error, clientId }, 'Initial Google Ads sync failed');
+          logger.error({ error, clientId }, 'Failed to queue initial Google Ads sync');
         }
       })();
 
@@ -542,11 +577,11 @@ router.post('/connect', async (req: Request, res: Response) => {
       // Trigger initial sync (background)
       (async () => {
         try {
-          const { runClientSync } = await import('@/services/client-sync.service.js');
-          await runClientSync(clientId, 'manual');
-          logger.info({ clientId }, 'Initial Search Console sync completed');
+          const { enqueueClientSync } = await import('@/services/job-queue.service.js');
+          await enqueueClientSync(clientId, { trigger: 'manual' });
+          logger.info({ clientId }, 'Initial Search Console sync queued');
         } catch (error) {
-          logger.error({ error, clientId }, 'Initial Search Console sync failed');
+          logger.error({ error, clientId }, 'Failed to queue initial Search Console sync');
         }
       })();
 
@@ -566,11 +601,11 @@ router.post('/connect', async (req: Request, res: Response) => {
       // Trigger initial sync (background)
       (async () => {
         try {
-          const { runClientSync } = await import('@/services/client-sync.service.js');
-          await runClientSync(clientId, 'manual');
-          logger.info({ clientId }, 'Initial GA4 sync completed');
+          const { enqueueClientSync } = await import('@/services/job-queue.service.js');
+          await enqueueClientSync(clientId, { trigger: 'manual' });
+          logger.info({ clientId }, 'Initial GA4 sync queued');
         } catch (error) {
-          logger.error({ error, clientId }, 'Initial GA4 sync failed');
+          logger.error({ error, clientId }, 'Failed to queue initial GA4 sync');
         }
       })();
     }
@@ -578,6 +613,14 @@ router.post('/connect', async (req: Request, res: Response) => {
     // Delete temporary session
     tempOAuthStore.deleteSession(session);
 
+    await recordAuditEvent(req, {
+      action: 'google.connected',
+      entityType: 'google_connection',
+      entityId: clientId,
+      clientAccountId: clientId,
+      after: { service, [SERVICE_ACCOUNT_FIELDS[service]]: selectedAccountId },
+    });
+
     res.json({
       success: true,
       accountId: selectedAccountId,
@@ -596,7 +639,7 @@ router.post('/connect', async (req: Request, res: Response) => {
  * POST /api/google/disconnect
  * Disconnects Google OAuth for a client
  */
-router.post('/disconnect', async (req: Request, res: Response) => {
+router.post('/disconnect', requirePermission('google:disconnect'), async (req: Request, res: Response) => {
   try {
     const { clientId, service } = disconnectSchema.parse(req.body);
     const userId = req.auth?.userId;
@@ -605,6 +648,20 @@ router.post('/disconnect', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
+    if (!(await userCanAccessClient(req, clientId))) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const [previous] = await db
+      .select({
+        googleAdsCustomerId: clientAccounts.googleAdsCustomerId,
+        searchConsoleSiteUrl: clientAccounts.searchConsoleSiteUrl,
+        ga4PropertyId: clientAccounts.ga4PropertyId,
+      })
+      .from(clientAccounts)
+      .where(eq(clientAccounts.id, clientId))
+      .limit(1);
+
     if (service === 'ads') {
       await db
         .update(clientAccounts)
@@ -637,6 +694,18 @@ router.post('/disconnect', async (req: Request, res: Response) => {
         .where(eq(clientAccounts.id, clientId));
     }
 
+    if (previous && service !== 'all') {
+      const field = SERVICE_ACCOUNT_FIELDS[service];
+      await recordAuditEvent(req, {
+        action: 'google.disconnected',
+        entityType: 'google_connection',
+        entityId: clientId,
+        clientAccountId: clientId,
+        before: { service, [field]: previous[field] },
+        after: { service, [field]: null },
+      });
+    }
+
     res.json({ success: true, message: 'Disconnected successfully' });
   } catch (error) {
     logger.error({ error }, 'Error disconnecting');
@@ -648,7 +717,7 @@ router.post('/disconnect', async (req: Request, res: Response) => {
  * POST /api/google/connect-unified
  * Connects all selected accounts using a single OAuth session
  */
-router.post('/connect-unified', async (req: Request, res: Response) => {
+router.post('/connect-unified', requirePermission('google:connect'), async (req: Request, res: Response) => {
   try {
     const { clientId, session, googleAdsId, searchConsoleUrl, ga4PropertyId } = connectUnifiedSchema.parse(req.body);
     const userId = req.auth?.userId;
@@ -657,6 +726,10 @@ router.post('/connect-unified', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
+    if (!(await userCanAccessClient(req, clientId))) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
     const oauthSession = tempOAuthStore.getSession(session);
 
     if (!oauthSession) {
@@ -710,20 +783,33 @@ router.post('/connect-unified', async (req: Request, res: Response) => {
       try {
         // Only trigger sync if at least one service was connected
         if (googleAdsId || searchConsoleUrl || ga4PropertyId) {
-          const { runClientSync } = await import('@/services/client-sync.service.js');
-          await runClientSync(clientId, 'manual');
-          logger.info({ clientId }, 'Initial unified sync completed');
+          const { enqueueClientSync } = await import('@/services/job-queue.service.js');
+          await enqueueClientSync(clientId, { trigger: 'manual' });
+          logger.info({ clientId }, 'Initial unified sync queued');
         } else {
           logger.info({ clientId }, 'No services connected, skipping sync');
         }
       } catch (error) {
-        logger.error({ error, clientId }, 'Initial unified sync failed');
+        logger.error({ error, clientId }, 'Failed to queue initial unified sync');
       }
     })();
 
     // Delete temporary session
     tempOAuthStore.deleteSession(session);
 
+    await recordAuditEvent(req, {
+      action: 'google.connected',
+      entityType: 'google_connection',
+      entityId: clientId,
+      clientAccountId: clientId,
+      after: {
+        service: 'all',
+        ...(googleAdsId && { googleAdsCustomerId: googleAdsId }),
+        ...(searchConsoleUrl && { searchConsoleSiteUrl: searchConsoleUrl }),
+        ...(ga4PropertyId && { ga4PropertyId }),
+      },
+    });
+
     res.json({
       success: true,
       message: 'Accounts connected successfully',
@@ -0,0 +1,279 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import {
+  listNotificationChannels,
+  createNotificationChannel,
+  updateNotificationChannel,
+  deleteNotificationChannel,
+  testNotificationChannel,
+  listNotificationRules,
+  createNotificationRule,
+  updateNotificationRule,
+  deleteNotificationRule,
+  listNotificationDeliveries,
+} from '@/services/notification.service.js';
+
+const router = Router();
+const routeLogger = logger.child({ module: 'notifications-routes' });
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const severitySchema = z.enum(['critical', 'warning', 'info']);
+
+// Config shape depends on the channel type and is validated by the service
+const createChannelSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  type: z.enum(['email', 'webhook', 'slack']),
+  config: z.record(z.unknown()),
+});
+
+const updateChannelSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  config: z.record(z.unknown()).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const ruleSchema = z.object({
+  channelId: z.string().uuid(),
+  minSeverity: severitySchema.optional(),
+  alertCodes: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const deliveriesQuerySchema = z.object({
+  channelId: z.string().uuid().optional(),
+  status: z.enum(['sent', 'failed', 'skipped']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+function handleError(error: unknown, res: Response, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof AppError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  routeLogger.error({ error }, message);
+  return res.status(500).json({ error: message });
+}
+
+// ============================================================================
+// CHANNELS
+// ============================================================================
+
+/**
+ * GET /api/notifications/channels
+ * List the agency's notification channels (credentials redacted)
+ */
+router.get('/channels', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const channels = await listNotificationChannels(user.agencyId);
+
+    res.json({ channels });
+  } catch (error) {
+    handleError(error, res, 'Failed to list notification channels');
+  }
+});
+
+/**
+ * POST /api/notifications/channels
+ * Add an email, webhook or Slack channel
+ */
+router.post('/channels', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const input = createChannelSchema.parse(req.body);
+    const channel = await createNotificationChannel(user.agencyId, user.id, input);
+
+    res.status(201).json({ channel });
+  } catch (error) {
+    handleError(error, res, 'Failed to create notification channel');
+  }
+});
+
+/**
+ * PATCH /api/notifications/channels/:id
+ * Rename, reconfigure, enable or disable a channel
+ */
+router.patch('/channels/:id', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const input = updateChannelSchema.parse(req.body);
+    const channel = await updateNotificationChannel(user.agencyId, req.params.id, input);
+
+    res.json({ channel });
+  } catch (error) {
+    handleError(error, res, 'Failed to update notification channel');
+  }
+});
+
+/**
+ * DELETE /api/notifications/channels/:id
+ * Delete a channel and its routing rules
+ */
+router.delete('/channels/:id', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    await deleteNotificationChannel(user.agencyId, req.params.id);
+
+    res.status(204).send();
+  } catch (error) {
+    handleError(error, res, 'Failed to delete notification channel');
+  }
+});
+
+/**
+ * POST /api/notifications/channels/:id/test
+ * Send a test alert to the channel and return the delivery record
+ */
+router.post('/channels/:id/test', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const delivery = await testNotificationChannel(user.agencyId, req.params.id);
+
+    res.json({ delivery });
+  } catch (error) {
+    handleError(error, res, 'Failed to send test notification');
+  }
+});
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * GET /api/notifications/rules
+ */
+router.get('/rules', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const rules = await listNotificationRules(user.agencyId);
+
+    res.json({ rules });
+  } catch (error) {
+    handleError(error, res, 'Failed to list notification rules');
+  }
+});
+
+/**
+ * POST /api/notifications/rules
+ * Route alerts at or above a severity, optionally limited to alert codes, to a channel
+ */
+router.post('/rules', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const input = ruleSchema.parse(req.body);
+    const rule = await createNotificationRule(user.agencyId, input);
+
+    res.status(201).json({ rule });
+  } catch (error) {
+    handleError(error, res, 'Failed to create notification rule');
+  }
+});
+
+/**
+ * PATCH /api/notifications/rules/:id
+ */
+router.patch('/rules/:id', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const input = ruleSchema.partial().parse(req.body);
+    const rule = await updateNotificationRule(user.agencyId, req.params.id, input);
+
+    res.json({ rule });
+  } catch (error) {
+    handleError(error, res, 'Failed to update notification rule');
+  }
+});
+
+/**
+ * DELETE /api/notifications/rules/:id
+ */
+router.delete('/rules/:id', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    await deleteNotificationRule(user.agencyId, req.params.id);
+
+    res.status(204).send();
+  } catch (error) {
+    handleError(error, res, 'Failed to delete notification rule');
+  }
+});
+
+// ============================================================================
+// DELIVERY LOG
+// ============================================================================
+
+/**
+ * GET /api/notifications/deliveries
+ * Delivery attempts, newest first
+ */
+router.get('/deliveries', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const options = deliveriesQuerySchema.parse(req.query);
+    const result = await listNotificationDeliveries(user.agencyId, options);
+
+    res.json(result);
+  } catch (error) {
+    handleError(error, res, 'Failed to list notification deliveries');
+  }
+});
+
+export default router;
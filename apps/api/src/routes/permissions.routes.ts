@@ -0,0 +1,113 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import { requirePermission } from '@/middleware/auth.middleware.js';
+import {
+  PERMISSIONS,
+  EDITABLE_ROLES,
+  LOCKED_PERMISSIONS,
+  getDefaultPermissionMatrix,
+  getPermissionMatrix,
+  getRolePermissions,
+  updateRolePermissions,
+  type Role,
+} from '@/services/permission.service.js';
+
+const router = Router();
+const routeLogger = logger.child({ module: 'permissions-routes' });
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const roleParamSchema = z.enum(EDITABLE_ROLES as [Role, ...Role[]]);
+
+const updateRolePermissionsSchema = z.object({
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+function handleError(error: unknown, res: Response, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof AppError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  routeLogger.error({ error }, message);
+  return res.status(500).json({ error: message });
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * GET /api/permissions/me
+ * The current user's role and the permissions it holds, used by the UI to hide actions
+ */
+router.get('/me', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const permissions = await getRolePermissions(user.agencyId, user.role);
+
+    res.json({ role: user.role, permissions });
+  } catch (error) {
+    handleError(error, res, 'Failed to fetch permissions');
+  }
+});
+
+/**
+ * GET /api/permissions
+ * The agency's permission matrix alongside the defaults
+ */
+router.get('/', requirePermission('permissions:manage'), async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const matrix = await getPermissionMatrix(user.agencyId);
+
+    res.json({
+      permissions: PERMISSIONS,
+      matrix,
+      defaults: getDefaultPermissionMatrix(),
+      editableRoles: EDITABLE_ROLES,
+      lockedPermissions: LOCKED_PERMISSIONS,
+    });
+  } catch (error) {
+    handleError(error, res, 'Failed to fetch permission matrix');
+  }
+});
+
+/**
+ * PUT /api/permissions/:role
+ * Replace the permissions granted to the admin or member role
+ */
+router.put('/:role', requirePermission('permissions:manage'), async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const role = roleParamSchema.parse(req.params.role);
+    const { permissions } = updateRolePermissionsSchema.parse(req.body);
+    const matrix = await updateRolePermissions(user.agencyId, user.id, role, permissions);
+
+    res.json({ matrix });
+  } catch (error) {
+    handleError(error, res, 'Failed to update role permissions');
+  }
+});
+
+export default router;
@@ -1,23 +1,57 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { db } from '@/db/index.js';
-import { recommendations, queryOverlaps, clientAccounts, searchQueries } from '@/db/schema.js';
+import { recommendations, queryOverlaps, clientAccounts, searchQueries, googleAdsMutations } from '@/db/schema.js';
 import { eq, and } from 'drizzle-orm';
 import { logger } from '@/utils/logger.js';
-import { updateRecommendationStatus } from '@/services/recommendation-storage.service.js';
+import {
+  approveRecommendation,
+  rejectRecommendation,
+  reopenRecommendation,
+  previewRecommendationApply,
+  applyRecommendation,
+  rollbackRecommendation,
+  rollbackMutation,
+  getRecommendationMutations,
+} from '@/services/recommendation.service.js';
+import { AppError } from '@/utils/errors.js';
+import { recordAuditEvent } from '@/services/audit.service.js';
+import { requirePermission } from '@/middleware/auth.middleware.js';
+import { canAccessClient, type ClientAccessUser } from '@/services/client-access.service.js';
 
 const router = Router();
 
-// Validation schema
+// Validation schema. 'applied' is only reached through POST /:id/apply.
 const updateStatusSchema = z.object({
-  status: z.enum(['pending', 'approved', 'rejected', 'applied']),
+  status: z.enum(['pending', 'approved', 'rejected']),
 });
 
+// Each refuses recommendations that are applying, applied or partially applied
+const STATUS_UPDATES = {
+  pending: reopenRecommendation,
+  approved: approveRecommendation,
+  rejected: rejectRecommendation,
+};
+
+/**
+ * Fetch the recommendation if it exists and belongs to a client the user may access
+ */
+async function findAccessibleRecommendation(recommendationId: string, user: ClientAccessUser) {
+  const [rec] = await db
+    .select({ id: recommendations.id, clientAccountId: recommendations.clientAccountId, status: recommendations.status })
+    .from(recommendations)
+    .innerJoin(clientAccounts, eq(recommendations.clientAccountId, clientAccounts.id))
+    .where(and(eq(recommendations.id, recommendationId), eq(clientAccounts.agencyId, user.agencyId)))
+    .limit(1);
+
+  return rec && (await canAccessClient(user, rec.clientAccountId)) ? rec : null;
+}
+
 /**
  * PATCH /api/recommendations/:id/status
- * Update recommendation status (approve/reject/apply)
+ * Approve, reject or reopen a recommendation that hasn't been applied
  */
-router.patch('/:id/status', async (req: Request, res: Response) => {
+router.patch('/:id/status', requirePermission('recommendations:review'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { status } = updateStatusSchema.parse(req.body);
@@ -33,6 +67,7 @@ router.patch('/:id/status', async (req: Request, res: Response) => {
         recId: recommendations.id,
         clientAccountId: recommendations.clientAccountId,
         agencyId: clientAccounts.agencyId,
+        status: recommendations.status,
       })
       .from(recommendations)
       .innerJoin(clientAccounts, eq(recommendations.clientAccountId, clientAccounts.id))
@@ -43,12 +78,20 @@ router.patch('/:id/status', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Recommendation not found' });
     }
 
-    if (recommendation.agencyId !== user.agencyId) {
+    if (recommendation.agencyId !== user.agencyId || !(await canAccessClient(user, recommendation.clientAccountId))) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    // Update status
-    const updated = await updateRecommendationStatus(id, status, user.id);
+    const updated = await STATUS_UPDATES[status](id, user.id);
+
+    await recordAuditEvent(req, {
+      action: 'recommendation.status_changed',
+      entityType: 'recommendation',
+      entityId: id,
+      clientAccountId: recommendation.clientAccountId,
+      before: { status: recommendation.status },
+      after: { status: updated.status },
+    });
 
     logger.info(
       {
@@ -70,11 +113,279 @@ router.patch('/:id/status', async (req: Request, res: Response) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid request', details: error.errors });
     }
+    if (error instanceof AppError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     logger.error({ error }, 'Failed to update recommendation status');
     res.status(500).json({ error: 'Failed to update recommendation status' });
   }
 });
 
+/**
+ * POST /api/recommendations/:id/approve
+ * Approve a pending recommendation
+ */
+router.post('/:id/approve', requirePermission('recommendations:review'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const recommendation = await findAccessibleRecommendation(id, user);
+
+    if (!recommendation) {
+      return res.status(404).json({ error: 'Recommendation not found' });
+    }
+
+    const updated = await approveRecommendation(id, user.id);
+
+    await recordAuditEvent(req, {
+      action: 'recommendation.status_changed',
+      entityType: 'recommendation',
+      entityId: id,
+      clientAccountId: recommendation.clientAccountId,
+      before: { status: recommendation.status },
+      after: { status: updated.status },
+    });
+
+    res.json({ id: updated.id, status: updated.status, approvedAt: updated.approvedAt?.toISOString() });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ error }, 'Failed to approve recommendation');
+    res.status(500).json({ error: 'Failed to approve recommendation' });
+  }
+});
+
+/**
+ * POST /api/recommendations/:id/reject
+ * Reject a recommendation that hasn't been applied
+ */
+router.post('/:id/reject', requirePermission('recommendations:review'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const recommendation = await findAccessibleRecommendation(id, user);
+
+    if (!recommendation) {
+      return res.status(404).json({ error: 'Recommendation not found' });
+    }
+
+    const updated = await rejectRecommendation(id, user.id);
+
+    await recordAuditEvent(req, {
+      action: 'recommendation.status_changed',
+      entityType: 'recommendation',
+      entityId: id,
+      clientAccountId: recommendation.clientAccountId,
+      before: { status: recommendation.status },
+      after: { status: updated.status },
+    });
+
+    res.json({ id: updated.id, status: updated.status });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ error }, 'Failed to reject recommendation');
+    res.status(500).json({ error: 'Failed to reject recommendation' });
+  }
+});
+
+/**
+ * GET /api/recommendations/:id/apply/preview
+ * Dry run: list the Google Ads mutations that applying would make, validated but not applied
+ */
+router.get('/:id/apply/preview', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    if (!(await findAccessibleRecommendation(id, user))) {
+      return res.status(404).json({ error: 'Recommendation not found' });
+    }
+
+    const preview = await previewRecommendationApply(id);
+
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ error }, 'Failed to preview recommendation apply');
+    res.status(500).json({ error: 'Failed to preview recommendation apply' });
+  }
+});
+
+/**
+ * POST /api/recommendations/:id/apply
+ * Push an approved recommendation to Google Ads
+ */
+router.post('/:id/apply', requirePermission('recommendations:apply'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const recommendation = await findAccessibleRecommendation(id, user);
+
+    if (!recommendation) {
+      return res.status(404).json({ error: 'Recommendation not found' });
+    }
+
+    const result = await applyRecommendation(id, user.id);
+
+    await recordAuditEvent(req, {
+      action: 'recommendation.applied',
+      entityType: 'recommendation',
+      entityId: id,
+      clientAccountId: recommendation.clientAccountId,
+      before: { status: recommendation.status },
+      after: { status: result.status, mutationCount: result.mutations.length },
+    });
+
+    res.status(result.status === 'failed' ? 502 : 200).json(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ error }, 'Failed to apply recommendation');
+    res.status(500).json({ error: 'Failed to apply recommendation' });
+  }
+});
+
+/**
+ * GET /api/recommendations/:id/mutations
+ * Google Ads mutation log for a recommendation
+ */
+router.get('/:id/mutations', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    if (!(await findAccessibleRecommendation(id, user))) {
+      return res.status(404).json({ error: 'Recommendation not found' });
+    }
+
+    const mutations = await getRecommendationMutations(id);
+
+    res.json({ mutations });
+  } catch (error) {
+    logger.error({ error }, 'Failed to fetch recommendation mutations');
+    res.status(500).json({ error: 'Failed to fetch recommendation mutations' });
+  }
+});
+
+/**
+ * POST /api/recommendations/:id/rollback
+ * Revert every applied Google Ads mutation of a recommendation
+ */
+router.post('/:id/rollback', requirePermission('recommendations:apply'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const recommendation = await findAccessibleRecommendation(id, user);
+
+    if (!recommendation) {
+      return res.status(404).json({ error: 'Recommendation not found' });
+    }
+
+    const result = await rollbackRecommendation(id, user.id);
+
+    await recordAuditEvent(req, {
+      action: 'recommendation.rolled_back',
+      entityType: 'recommendation',
+      entityId: id,
+      clientAccountId: recommendation.clientAccountId,
+      before: { status: recommendation.status },
+      after: { status: result.status, mutationCount: result.mutations.length },
+    });
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ error }, 'Failed to roll back recommendation');
+    res.status(500).json({ error: 'Failed to roll back recommendation' });
+  }
+});
+
+/**
+ * POST /api/recommendations/mutations/:mutationId/rollback
+ * Revert a single Google Ads mutation
+ */
+router.post('/mutations/:mutationId/rollback', requirePermission('recommendations:apply'), async (req: Request, res: Response) => {
+  try {
+    const { mutationId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const [mutation] = await db
+      .select({
+        id: googleAdsMutations.id,
+        clientAccountId: googleAdsMutations.clientAccountId,
+        recommendationId: googleAdsMutations.recommendationId,
+        status: googleAdsMutations.status,
+      })
+      .from(googleAdsMutations)
+      .innerJoin(clientAccounts, eq(googleAdsMutations.clientAccountId, clientAccounts.id))
+      .where(and(eq(googleAdsMutations.id, mutationId), eq(clientAccounts.agencyId, user.agencyId)))
+      .limit(1);
+
+    if (!mutation || !(await canAccessClient(user, mutation.clientAccountId))) {
+      return res.status(404).json({ error: 'Mutation not found' });
+    }
+
+    const updated = await rollbackMutation(mutationId, user.id);
+
+    await recordAuditEvent(req, {
+      action: 'recommendation.rolled_back',
+      entityType: 'mutation',
+      entityId: mutationId,
+      clientAccountId: mutation.clientAccountId,
+      before: { status: mutation.status, recommendationId: mutation.recommendationId },
+      after: { status: updated.status, recommendationId: mutation.recommendationId },
+    });
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ error }, 'Failed to roll back mutation');
+    res.status(500).json({ error: 'Failed to roll back mutation' });
+  }
+});
+
 /**
  * GET /api/recommendations/:id
  * Get a single recommendation by ID with query details
@@ -106,7 +417,7 @@ router.get('/:id', async (req: Request, res: Response) => {
       )
       .limit(1);
 
-    if (!rec) {
+    if (!rec || !(await canAccessClient(user, rec.recommendation.clientAccountId))) {
       return res.status(404).json({ error: 'Recommendation not found' });
     }
 
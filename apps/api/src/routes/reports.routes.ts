@@ -9,14 +9,73 @@ import { clientAccounts } from '@/db/schema.js';
 import { eq, and } from 'drizzle-orm';
 import { logger } from '@/utils/logger.js';
 import {
-  generateInterplayReport,
   getLatestInterplayReport,
   getInterplayReportDebug,
+  getInterplayReportDiff,
+  getInterplayReportById,
+  listInterplayReports,
+  getInterplayReportProgress,
+  loadAdsEntityCatalog,
 } from '@/services/interplay-report/index.js';
+import { getReportSchedule, upsertReportSchedule, type ReportSchedule } from '@/services/report-schedule.service.js';
+import { enqueueReportGeneration } from '@/services/job-queue.service.js';
+import { requirePermission, requireClientAccess } from '@/middleware/auth.middleware.js';
+import { recordAuditEvent } from '@/services/audit.service.js';
+import {
+  buildAdsEditorExport,
+  buildReportExport,
+  REPORT_EXPORT_FORMATS,
+  REPORT_EXPORT_SHEETS,
+} from '@/services/report-export/index.js';
+import { resolveReportBranding } from '@/services/branding.service.js';
+import {
+  createReportShare,
+  listReportShares,
+  revokeReportShare,
+  MAX_SHARE_EXPIRY_DAYS,
+} from '@/services/report-share.service.js';
+import {
+  DELIVERY_TRIGGERS,
+  createDistributionList,
+  deleteDistributionList,
+  listDistributionLists,
+  listReportDeliveries,
+  sendReportNow,
+  updateDistributionList,
+  type ReportDistributionList,
+} from '@/services/report-delivery/index.js';
 
 const router = Router();
 const routeLogger = logger.child({ module: 'reports-routes' });
 
+// Members only reach clients assigned to them
+router.param('clientId', requireClientAccess);
+
+/**
+ * Schedule fields recorded in the audit log when a schedule changes
+ */
+function auditedScheduleFields(schedule: ReportSchedule) {
+  return {
+    frequency: schedule.frequency,
+    dayOfWeek: schedule.dayOfWeek,
+    dayOfMonth: schedule.dayOfMonth,
+    dateRangeDays: schedule.dateRangeDays,
+    isEnabled: schedule.isEnabled,
+  };
+}
+
+/**
+ * Distribution list fields recorded in the audit log when a list changes
+ */
+function auditedDistributionListFields(list: ReportDistributionList) {
+  return {
+    name: list.name,
+    recipients: list.recipients,
+    triggers: list.triggers,
+    isActive: list.isActive,
+  };
+}
+
 /**
  * Helper to verify client belongs to user's agency
  * Returns the client if found and authorized, null otherwise
@@ -40,6 +99,55 @@ const regenerateSchema = z.object({
   days: z.number().min(7).max(90).optional().default(30),
 });
 
+const historyQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+const reportIdSchema = z.string().uuid();
+
+const diffQuerySchema = z.object({
+  from: z.string().uuid().optional(),
+  to: z.string().uuid().optional(),
+});
+
+const progressQuerySchema = z.object({
+  after: z.coerce.number().int().min(0).optional(),
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(REPORT_EXPORT_FORMATS).default('xlsx'),
+  sheet: z.enum(REPORT_EXPORT_SHEETS).optional(),
+});
+
+const createShareSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(MAX_SHARE_EXPIRY_DAYS).optional().default(14),
+  password: z.string().min(6).max(100).optional(),
+});
+
+const distributionListSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  recipients: z.array(z.string().trim().email()).min(1).max(50),
+  triggers: z.array(z.enum(DELIVERY_TRIGGERS)).max(DELIVERY_TRIGGERS.length),
+  isActive: z.boolean().optional(),
+});
+
+const sendReportSchema = z.object({
+  listIds: z.array(z.string().uuid()).min(1).optional(),
+});
+
+// Progress stream tuning
+const PROGRESS_POLL_INTERVAL_MS = 1000;
+const PROGRESS_KEEPALIVE_INTERVAL_MS = 15000;
+
+const reportScheduleSchema = z.object({
+  frequency: z.enum(['weekly', 'monthly']),
+  dayOfWeek: z.number().int().min(0).max(6).optional(),
+  dayOfMonth: z.number().int().min(1).max(28).optional(),
+  dateRangeDays: z.number().int().min(7).max(90).optional(),
+  isEnabled: z.boolean().optional(),
+});
+
 /**
  * GET /api/clients/:clientId/interplay-report
  * Get the latest interplay report for a client
@@ -79,7 +187,7 @@ router.get('/:clientId/interplay-report', async (req: Request, res: Response, ne
  * POST /api/clients/:clientId/interplay-report/regenerate
  * Trigger manual report regeneration
  */
-router.post('/:clientId/interplay-report/regenerate', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:clientId/interplay-report/regenerate', requirePermission('reports:generate'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { clientId } = req.params;
     const user = (req as any).user;
@@ -98,42 +206,82 @@ router.post('/:clientId/interplay-report/regenerate', async (req: Request, res:
 
     routeLogger.info({ clientId, days: body.days }, 'Manual report regeneration requested');
 
-    // Start generation in background (fire-and-forget)
-    const reportPromise = generateInterplayReport(clientId, {
+    // Queue for the job worker; an already queued/running generation is reused
+    const { job, created } = await enqueueReportGeneration(clientId, {
       days: body.days,
       trigger: 'manual',
     });
 
-    // Return immediately with accepted status
+    routeLogger.info({ clientId, jobId: job.id, created }, 'Manual report generation queued');
+
+    if (created) {
+      await recordAuditEvent(req, {
+        action: 'report.regenerated',
+        entityType: 'report',
+        entityId: job.id,
+        clientAccountId: clientId,
+        after: { days: body.days, jobId: job.id },
+      });
+    }
+
     res.status(202).json({
-      message: 'Report generation started',
+      message: created ? 'Report generation started' : 'Report generation already in progress',
       clientId,
       days: body.days,
+      jobId: job.id,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to start report regeneration');
+    next(error);
+  }
+});
+
+/**
+ * GET /api/clients/:clientId/interplay-report/diff?from=&to=
+ * Compare two reports. Defaults to the latest completed report against the one before it.
+ */
+router.get('/:clientId/interplay-report/diff', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    // Verify client belongs to user's agency
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const query = diffQuerySchema.parse(req.query);
+
+    if (query.from && query.to && query.from === query.to) {
+      return res.status(400).json({ error: 'Cannot compare a report with itself' });
+    }
+
+    const diff = await getInterplayReportDiff(clientId, {
+      fromReportId: query.from,
+      toReportId: query.to,
     });
 
-    // Log when complete (don't await in response)
-    reportPromise
-      .then(({ reportId, metadata }) => {
-        routeLogger.info(
-          {
-            clientId,
-            reportId,
-            businessType: metadata.skillBundle.businessType,
-            skillVersion: metadata.skillBundle.version,
-            totalDurationMs: metadata.performance.totalDurationMs,
-            warningCount: metadata.warnings.length,
-          },
-          'Manual report generation complete'
-        );
-      })
-      .catch((error) => {
-        routeLogger.error({ clientId, error: error.message }, 'Manual report generation failed');
+    if (!diff) {
+      return res.status(404).json({
+        error: 'Not enough reports to compare',
+        message: 'At least two completed reports are required',
       });
+    }
+
+    res.json(diff);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid request', details: error.errors });
     }
-    routeLogger.error({ error }, 'Failed to start report regeneration');
+    routeLogger.error({ error }, 'Failed to diff interplay reports');
     next(error);
   }
 });
@@ -181,4 +329,686 @@ router.get('/:clientId/interplay-report/debug', async (req: Request, res: Respon
   }
 });
 
+/**
+ * GET /api/clients/:clientId/interplay-reports?page=&pageSize=
+ * Paginated history of all interplay reports for a client (newest first)
+ */
+router.get('/:clientId/interplay-reports', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    // Verify client belongs to user's agency
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const query = historyQuerySchema.parse(req.query);
+    const history = await listInterplayReports(clientId, query);
+
+    res.json(history);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to list interplay reports');
+    next(error);
+  }
+});
+
+/**
+ * GET /api/clients/:clientId/interplay-report/:reportId/progress?after=
+ * Server-Sent Events stream of pipeline phase events for a report.
+ * Emits `phase` events (id = sequence), `status` on status changes and `end`
+ * once the report has completed or failed. Resume with ?after= or Last-Event-ID.
+ */
+router.get('/:clientId/interplay-report/:reportId/progress', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    // Verify client belongs to user's agency
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const reportId = reportIdSchema.parse(req.params.reportId);
+    const query = progressQuerySchema.parse(req.query);
+    let cursor = query.after ?? (Number(req.header('Last-Event-ID')) || 0);
+
+    const initial = await getInterplayReportProgress(reportId, cursor);
+    if (!initial || initial.clientAccountId !== clientId) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    let lastStatus: string | null = null;
+    let lastWriteAt = Date.now();
+
+    req.on('close', () => {
+      closed = true;
+    });
+
+    const send = (event: string, data: unknown, id?: number) => {
+      res.write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      lastWriteAt = Date.now();
+    };
+
+    let progress: typeof initial | null = initial;
+
+    while (!closed && progress) {
+      for (const event of progress.events) {
+        send('phase', event, event.sequence);
+        cursor = event.sequence;
+      }
+
+      if (progress.status.status !== lastStatus) {
+        send('status', progress.status);
+        lastStatus = progress.status.status;
+      }
+
+      if (progress.status.status === 'completed' || progress.status.status === 'failed') {
+        send('end', progress.status);
+        break;
+      }
+
+      if (Date.now() - lastWriteAt >= PROGRESS_KEEPALIVE_INTERVAL_MS) {
+        res.write(': keep-alive\n\n');
+        lastWriteAt = Date.now();
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, PROGRESS_POLL_INTERVAL_MS));
+      if (closed) break;
+
+      progress = await getInterplayReportProgress(reportId, cursor);
+    }
+
+    res.end();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to stream interplay report progress');
+    if (res.headersSent) {
+      return res.end();
+    }
+    next(error);
+  }
+});
+
+/**
+ * GET /api/clients/:clientId/interplay-report/:reportId/export?format=&sheet=
+ * Download a completed report as an XLSX workbook (default), CSV or branded
+ * PDF. CSV includes every section unless ?sheet= picks one.
+ */
+router.get('/:clientId/interplay-report/:reportId/export', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    // Verify client belongs to user's agency
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const reportId = reportIdSchema.parse(req.params.reportId);
+    const query = exportQuerySchema.parse(req.query);
+    const report = await getInterplayReportDebug(reportId);
+
+    if (!report || report.clientAccountId !== clientId) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    if (report.status !== 'completed') {
+      return res.status(409).json({ error: 'Only completed reports can be exported' });
+    }
+
+    const branding = query.format === 'pdf' ? await resolveReportBranding(user.agencyId, clientId) : undefined;
+    const file = await buildReportExport(report, { clientName: client.name, branding, ...query });
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('Content-Length', file.content.length);
+    res.send(file.content);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to export interplay report');
+    next(error);
+  }
+});
+
+/**
+ * GET /api/clients/:clientId/interplay-report/:reportId/ads-editor-export
+ * Download the report's SEM actions as a Google Ads Editor bulk-change CSV.
+ * X-Skipped-Actions counts actions that couldn't be matched to the account.
+ */
+router.get('/:clientId/interplay-report/:reportId/ads-editor-export', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    // Verify client belongs to user's agency
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const reportId = reportIdSchema.parse(req.params.reportId);
+    const report = await getInterplayReportDebug(reportId);
+
+    if (!report || report.clientAccountId !== clientId) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    if (report.status !== 'completed') {
+      return res.status(409).json({ error: 'Only completed reports can be exported' });
+    }
+
+    const catalog = await loadAdsEntityCatalog(clientId, report.dateRange);
+    const file = buildAdsEditorExport(report, client.name, catalog);
+
+    routeLogger.info(
+      { clientId, reportId, rows: file.rowCount, skipped: file.skipped.length },
+      'Built Google Ads Editor export'
+    );
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('Content-Length', file.content.length);
+    res.setHeader('X-Skipped-Actions', file.skipped.length);
+    res.send(file.content);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid report ID', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to build Google Ads Editor export');
+    next(error);
+  }
+});
+
+/**
+ * GET /api/clients/:clientId/interplay-report/:reportId/shares
+ * List share links for a report, including revoked and expired ones
+ */
+router.get('/:clientId/interplay-report/:reportId/shares', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const reportId = reportIdSchema.parse(req.params.reportId);
+    const shares = await listReportShares(clientId, reportId);
+
+    res.json({ shares });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid report ID', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to list report share links');
+    next(error);
+  }
+});
+
+/**
+ * POST /api/clients/:clientId/interplay-report/:reportId/shares
+ * Create an expiring, optionally password-protected public link to a
+ * completed report. The URL is only returned in this response.
+ */
+router.post('/:clientId/interplay-report/:reportId/shares', requirePermission('reports:share'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const reportId = reportIdSchema.parse(req.params.reportId);
+    const body = createShareSchema.parse(req.body);
+    const report = await getInterplayReportById(reportId);
+
+    if (!report || report.clientAccountId !== clientId) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    if (report.status !== 'completed') {
+      return res.status(409).json({ error: 'Only completed reports can be shared' });
+    }
+
+    const { share, url } = await createReportShare(clientId, reportId, user.id, body);
+
+    await recordAuditEvent(req, {
+      action: 'report.shared',
+      entityType: 'report_share',
+      entityId: share.id,
+      clientAccountId: clientId,
+      after: { reportId, expiresAt: share.expiresAt, passwordProtected: share.passwordProtected },
+    });
+
+    res.status(201).json({ share, url });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to create report share link');
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/clients/:clientId/report-shares/:shareId
+ * Revoke a share link; it stops working immediately
+ */
+router.delete('/:clientId/report-shares/:shareId', requirePermission('reports:share'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const shareId = z.string().uuid().parse(req.params.shareId);
+    const share = await revokeReportShare(clientId, shareId);
+
+    await recordAuditEvent(req, {
+      action: 'report.share_revoked',
+      entityType: 'report_share',
+      entityId: share.id,
+      clientAccountId: clientId,
+      before: { revokedAt: null },
+      after: { revokedAt: share.revokedAt },
+    });
+
+    res.json({ share });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid share ID', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to revoke report share link');
+    next(error);
+  }
+});
+
+/**
+ * GET /api/clients/:clientId/interplay-report/:reportId/deliveries
+ * Email delivery history for a report, newest first
+ */
+router.get('/:clientId/interplay-report/:reportId/deliveries', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const reportId = reportIdSchema.parse(req.params.reportId);
+    const deliveries = await listReportDeliveries(clientId, reportId);
+
+    res.json({ deliveries });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid report ID', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to list report deliveries');
+    next(error);
+  }
+});
+
+/**
+ * POST /api/clients/:clientId/interplay-report/:reportId/deliveries
+ * Email a completed report now, to the given lists or every active list
+ */
+router.post('/:clientId/interplay-report/:reportId/deliveries', requirePermission('reports:schedule'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const reportId = reportIdSchema.parse(req.params.reportId);
+    const body = sendReportSchema.parse(req.body);
+    const report = await getInterplayReportById(reportId);
+
+    if (!report || report.clientAccountId !== clientId) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    if (report.status !== 'completed') {
+      return res.status(409).json({ error: 'Only completed reports can be sent' });
+    }
+
+    const deliveries = await sendReportNow(clientId, user.agencyId, reportId, user.id, body.listIds);
+
+    await recordAuditEvent(req, {
+      action: 'report.sent',
+      entityType: 'report',
+      entityId: reportId,
+      clientAccountId: clientId,
+      after: { lists: deliveries.map((delivery) => delivery.listName) },
+    });
+
+    res.status(202).json({ deliveries });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to send report');
+    next(error);
+  }
+});
+
+/**
+ * GET /api/clients/:clientId/interplay-report/:reportId
+ * Get a specific (possibly historical) interplay report
+ *
+ * Registered after /diff and /debug so those paths are not captured as report IDs.
+ */
+router.get('/:clientId/interplay-report/:reportId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    // Verify client belongs to user's agency
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const reportId = reportIdSchema.parse(req.params.reportId);
+    const report = await getInterplayReportById(reportId);
+
+    if (!report || report.clientAccountId !== clientId) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    res.json(report);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid report ID', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to get interplay report by ID');
+    next(error);
+  }
+});
+
+/**
+ * GET /api/clients/:clientId/report-schedule
+ * Get the automatic report schedule for a client (null if none configured)
+ */
+router.get('/:clientId/report-schedule', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const schedule = await getReportSchedule(clientId);
+
+    res.json({ schedule });
+  } catch (error) {
+    routeLogger.error({ error }, 'Failed to get report schedule');
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/clients/:clientId/report-schedule
+ * Create or update the automatic report schedule for a client
+ */
+router.put('/:clientId/report-schedule', requirePermission('reports:schedule'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const body = reportScheduleSchema.parse(req.body);
+    const previous = await getReportSchedule(clientId);
+    const schedule = await upsertReportSchedule(clientId, body);
+
+    await recordAuditEvent(req, {
+      action: 'report.schedule_updated',
+      entityType: 'report_schedule',
+      entityId: schedule.id,
+      clientAccountId: clientId,
+      before: previous ? auditedScheduleFields(previous) : null,
+      after: auditedScheduleFields(schedule),
+    });
+
+    res.json({ schedule });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to save report schedule');
+    next(error);
+  }
+});
+
+/**
+ * GET /api/clients/:clientId/distribution-lists
+ * List the client's report distribution lists
+ */
+router.get('/:clientId/distribution-lists', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const lists = await listDistributionLists(clientId);
+
+    res.json({ lists, triggers: DELIVERY_TRIGGERS });
+  } catch (error) {
+    routeLogger.error({ error }, 'Failed to list distribution lists');
+    next(error);
+  }
+});
+
+/**
+ * POST /api/clients/:clientId/distribution-lists
+ * Create a distribution list. Reports completing with one of its triggers
+ * are emailed to its recipients.
+ */
+router.post('/:clientId/distribution-lists', requirePermission('reports:schedule'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const body = distributionListSchema.parse(req.body);
+    const list = await createDistributionList(clientId, body, user.id);
+
+    await recordAuditEvent(req, {
+      action: 'report.distribution_list_created',
+      entityType: 'distribution_list',
+      entityId: list.id,
+      clientAccountId: clientId,
+      after: auditedDistributionListFields(list),
+    });
+
+    res.status(201).json({ list });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to create distribution list');
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/clients/:clientId/distribution-lists/:listId
+ * Replace a distribution list's name, recipients and triggers
+ */
+router.put('/:clientId/distribution-lists/:listId', requirePermission('reports:schedule'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const listId = z.string().uuid().parse(req.params.listId);
+    const body = distributionListSchema.parse(req.body);
+    const { before, after } = await updateDistributionList(clientId, listId, body);
+
+    await recordAuditEvent(req, {
+      action: 'report.distribution_list_updated',
+      entityType: 'distribution_list',
+      entityId: listId,
+      clientAccountId: clientId,
+      before: auditedDistributionListFields(before),
+      after: auditedDistributionListFields(after),
+    });
+
+    res.json({ list: after });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to update distribution list');
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/clients/:clientId/distribution-lists/:listId
+ * Delete a distribution list. Its past deliveries stay in report history.
+ */
+router.delete('/:clientId/distribution-lists/:listId', requirePermission('reports:schedule'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId } = req.params;
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const client = await verifyClientOwnership(clientId, user.agencyId);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const listId = z.string().uuid().parse(req.params.listId);
+    const list = await deleteDistributionList(clientId, listId);
+
+    await recordAuditEvent(req, {
+      action: 'report.distribution_list_deleted',
+      entityType: 'distribution_list',
+      entityId: listId,
+      clientAccountId: clientId,
+      before: auditedDistributionListFields(list),
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid list ID', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to delete distribution list');
+    next(error);
+  }
+});
+
 export default router;
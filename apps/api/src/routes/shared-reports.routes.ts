@@ -0,0 +1,99 @@
+/**
+ * Shared Reports Routes - Public, read-only access to a report through a share link
+ *
+ * Mounted without authentication; the share token is the credential.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import type { SharedReportResponse } from '@advergent/shared';
+import { logger } from '@/utils/logger.js';
+import { getInterplayReportById } from '@/services/interplay-report/index.js';
+import { resolveReportBranding } from '@/services/branding.service.js';
+import {
+  recordReportShareView,
+  resolveReportShare,
+  verifyReportSharePassword,
+} from '@/services/report-share.service.js';
+
+const router = Router();
+const routeLogger = logger.child({ module: 'shared-reports-routes' });
+
+const viewSharedReportSchema = z.object({
+  password: z.string().max(100).optional(),
+});
+
+/**
+ * POST /api/shared-reports/:token
+ * View a shared report. Password-protected links answer 401 with
+ * `passwordRequired` until the right password is sent in the body, and 429
+ * while locked after repeated wrong passwords. Each successful response
+ * counts as a view.
+ */
+router.post('/:token', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { password } = viewSharedReportSchema.parse(req.body ?? {});
+    const resolved = await resolveReportShare(req.params.token);
+
+    // Unknown, revoked and expired links are indistinguishable to the viewer
+    if (!resolved) {
+      return res.status(404).json({ error: 'This link is invalid or has expired' });
+    }
+
+    const { share, clientName, agencyId } = resolved;
+
+    const passwordCheck = await verifyReportSharePassword(share, password);
+
+    if (passwordCheck.status === 'locked') {
+      const retryAfterSeconds = Math.ceil((passwordCheck.lockedUntil.getTime() - Date.now()) / 1000);
+      res.setHeader('Retry-After', String(Math.max(retryAfterSeconds, 1)));
+      return res.status(429).json({
+        error: 'Too many incorrect passwords. Try again later.',
+        passwordRequired: true,
+      });
+    }
+
+    if (passwordCheck.status !== 'ok') {
+      return res.status(401).json({
+        error: passwordCheck.status === 'incorrect' ? 'Incorrect password' : 'Password required',
+        passwordRequired: true,
+      });
+    }
+
+    const report = await getInterplayReportById(share.reportId);
+
+    if (!report || report.status !== 'completed') {
+      return res.status(404).json({ error: 'This link is invalid or has expired' });
+    }
+
+    const branding = await resolveReportBranding(agencyId, share.clientAccountId);
+
+    recordReportShareView(share.id).catch((error) =>
+      routeLogger.error({ error, shareId: share.id }, 'Failed to record report share view')
+    );
+
+    const response: SharedReportResponse = {
+      clientName,
+      report: {
+        id: report.id,
+        trigger: report.trigger,
+        dateRange: report.dateRange,
+        executiveSummary: report.executiveSummary,
+        recommendations: report.recommendations,
+        generatedAt: report.metadata.createdAt,
+      },
+      branding,
+      expiresAt: share.expiresAt.toISOString(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    routeLogger.error({ error }, 'Failed to load shared report');
+    next(error);
+  }
+});
+
+export default router;
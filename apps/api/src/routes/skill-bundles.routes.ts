@@ -0,0 +1,214 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import {
+  listSkillBundles,
+  getSkillBundle,
+  listSkillBundleVersions,
+  createSkillBundle,
+  updateSkillBundle,
+  archiveSkillBundle,
+  SkillBundleValidationError,
+} from '@/services/skill-bundle.service.js';
+import {
+  loadSkillBundle,
+  businessTypeSchema,
+  type SkillBundleOverrides,
+} from '@/services/interplay-report/skills/index.js';
+import { requirePermission } from '@/middleware/auth.middleware.js';
+
+const router = Router();
+const routeLogger = logger.child({ module: 'skill-bundles-routes' });
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+// Structure is validated against the skill interfaces by the service
+const overridesSchema = z.record(z.unknown()).transform((value) => value as SkillBundleOverrides);
+
+const createBundleSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().max(2000).optional(),
+  baseBusinessType: businessTypeSchema.optional(),
+  cloneFromId: z.string().uuid().optional(),
+  overrides: overridesSchema.optional(),
+}).refine((body) => body.baseBusinessType || body.cloneFromId, {
+  message: 'baseBusinessType or cloneFromId is required',
+});
+
+const updateBundleSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  overrides: overridesSchema.optional(),
+  changeNote: z.string().max(500).optional(),
+});
+
+const listQuerySchema = z.object({
+  includeArchived: z.enum(['true', 'false']).optional(),
+});
+
+function handleError(error: unknown, res: Response, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof SkillBundleValidationError) {
+    return res.status(400).json({ error: error.message, details: error.issues });
+  }
+  if (error instanceof AppError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  routeLogger.error({ error }, message);
+  return res.status(500).json({ error: message });
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * GET /api/skill-bundles/base/:businessType
+ * Built-in skill bundle, as a starting point for overrides
+ */
+router.get('/base/:businessType', async (req: Request, res: Response) => {
+  try {
+    const businessType = businessTypeSchema.parse(req.params.businessType);
+    res.json({ bundle: loadSkillBundle(businessType).bundle });
+  } catch (error) {
+    handleError(error, res, 'Failed to get base skill bundle');
+  }
+});
+
+/**
+ * GET /api/skill-bundles
+ * List the agency's custom skill bundles
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const { includeArchived } = listQuerySchema.parse(req.query);
+    const bundles = await listSkillBundles(user.agencyId, { includeArchived: includeArchived === 'true' });
+
+    res.json({ bundles });
+  } catch (error) {
+    handleError(error, res, 'Failed to list skill bundles');
+  }
+});
+
+/**
+ * POST /api/skill-bundles
+ * Create a custom skill bundle from a built-in business type or another custom bundle
+ */
+router.post('/', requirePermission('settings:manage'), async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const input = createBundleSchema.parse(req.body);
+    const bundle = await createSkillBundle(user.agencyId, user.id, input);
+
+    res.status(201).json({ bundle });
+  } catch (error) {
+    handleError(error, res, 'Failed to create skill bundle');
+  }
+});
+
+/**
+ * GET /api/skill-bundles/:id
+ * Custom skill bundle with its current overrides and the resolved bundle
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const bundle = await getSkillBundle(user.agencyId, req.params.id);
+
+    res.json({ bundle });
+  } catch (error) {
+    handleError(error, res, 'Failed to get skill bundle');
+  }
+});
+
+/**
+ * GET /api/skill-bundles/:id/versions
+ * Version history, newest first
+ */
+router.get('/:id/versions', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const versions = await listSkillBundleVersions(user.agencyId, req.params.id);
+
+    res.json({
+      versions: versions.map((version) => ({
+        version: version.version,
+        overrides: JSON.parse(version.overridesJson),
+        changeNote: version.changeNote,
+        createdBy: version.createdBy,
+        createdAt: version.createdAt,
+      })),
+    });
+  } catch (error) {
+    handleError(error, res, 'Failed to list skill bundle versions');
+  }
+});
+
+/**
+ * PATCH /api/skill-bundles/:id
+ * Rename or describe a bundle; new overrides are saved as a new version
+ */
+router.patch('/:id', requirePermission('settings:manage'), async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const input = updateBundleSchema.parse(req.body);
+    const bundle = await updateSkillBundle(user.agencyId, user.id, req.params.id, input);
+
+    res.json({ bundle });
+  } catch (error) {
+    handleError(error, res, 'Failed to update skill bundle');
+  }
+});
+
+/**
+ * DELETE /api/skill-bundles/:id
+ * Archive a bundle that no client uses
+ */
+router.delete('/:id', requirePermission('settings:manage'), async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    await archiveSkillBundle(user.agencyId, req.params.id);
+
+    res.status(204).send();
+  } catch (error) {
+    handleError(error, res, 'Failed to archive skill bundle');
+  }
+});
+
+export default router;
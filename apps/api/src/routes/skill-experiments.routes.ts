@@ -0,0 +1,191 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import {
+  listSkillExperiments,
+  getSkillExperiment,
+  createSkillExperiment,
+  updateSkillExperiment,
+  stopSkillExperiment,
+  compareSkillExperiment,
+} from '@/services/skill-experiment.service.js';
+import { SkillBundleValidationError } from '@/services/skill-bundle.service.js';
+import { businessTypeSchema, type SkillBundleOverrides } from '@/services/interplay-report/skills/index.js';
+import { requirePermission } from '@/middleware/auth.middleware.js';
+
+const router = Router();
+const routeLogger = logger.child({ module: 'skill-experiments-routes' });
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+// Structure is validated against the skill interfaces by the service
+const overridesSchema = z.record(z.unknown()).transform((value) => value as SkillBundleOverrides);
+
+const variantNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(30)
+  .regex(/^[a-z0-9-]+$/, 'Use lowercase letters, numbers and dashes');
+
+const createExperimentSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().max(2000).optional(),
+  businessType: businessTypeSchema,
+  assignmentUnit: z.enum(['client', 'report']).optional(),
+  variants: z.array(z.object({
+    name: variantNameSchema,
+    weight: z.number().int().min(0).max(100),
+    overrides: overridesSchema.optional(),
+  })).min(2).max(10),
+});
+
+const updateExperimentSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  weights: z.record(z.string().uuid(), z.number().int().min(0).max(100)).optional(),
+});
+
+function handleError(error: unknown, res: Response, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof SkillBundleValidationError) {
+    return res.status(400).json({ error: error.message, details: error.issues });
+  }
+  if (error instanceof AppError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  routeLogger.error({ error }, message);
+  return res.status(500).json({ error: message });
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * GET /api/skill-experiments
+ * List the agency's skill experiments, newest first
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const experiments = await listSkillExperiments(user.agencyId);
+
+    res.json({ experiments });
+  } catch (error) {
+    handleError(error, res, 'Failed to list skill experiments');
+  }
+});
+
+/**
+ * POST /api/skill-experiments
+ * Start an experiment splitting a business type's reports across variants
+ */
+router.post('/', requirePermission('settings:manage'), async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const input = createExperimentSchema.parse(req.body);
+    const experiment = await createSkillExperiment(user.agencyId, user.id, input);
+
+    res.status(201).json({ experiment });
+  } catch (error) {
+    handleError(error, res, 'Failed to create skill experiment');
+  }
+});
+
+/**
+ * GET /api/skill-experiments/:id
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const experiment = await getSkillExperiment(user.agencyId, req.params.id);
+
+    res.json({ experiment });
+  } catch (error) {
+    handleError(error, res, 'Failed to get skill experiment');
+  }
+});
+
+/**
+ * PATCH /api/skill-experiments/:id
+ * Rename an experiment or change variant weights
+ */
+router.patch('/:id', requirePermission('settings:manage'), async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const input = updateExperimentSchema.parse(req.body);
+    const experiment = await updateSkillExperiment(user.agencyId, req.params.id, input);
+
+    res.json({ experiment });
+  } catch (error) {
+    handleError(error, res, 'Failed to update skill experiment');
+  }
+});
+
+/**
+ * POST /api/skill-experiments/:id/stop
+ * Stop assigning variants; later reports use the built-in bundle
+ */
+router.post('/:id/stop', requirePermission('settings:manage'), async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const experiment = await stopSkillExperiment(user.agencyId, req.params.id);
+
+    res.json({ experiment });
+  } catch (error) {
+    handleError(error, res, 'Failed to stop skill experiment');
+  }
+});
+
+/**
+ * GET /api/skill-experiments/:id/comparison
+ * Report metrics aggregated per variant
+ */
+router.get('/:id/comparison', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const comparison = await compareSkillExperiment(user.agencyId, req.params.id);
+
+    res.json(comparison);
+  } catch (error) {
+    handleError(error, res, 'Failed to compare skill experiment variants');
+  }
+});
+
+export default router;
@@ -0,0 +1,144 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '@/utils/logger.js';
+import {
+  getSkillQualityFilterOptions,
+  getViolationTrends,
+  getInvalidMetricLeaks,
+  getTokenBudgetStats,
+  getPhaseLatency,
+  type SkillQualityFilters,
+} from '@/services/skill-quality.service.js';
+
+const router = Router();
+const routeLogger = logger.child({ module: 'skill-quality-routes' });
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+// Business type is a free string so custom and retired types stay queryable
+const filtersSchema = z.object({
+  businessType: z.string().trim().min(1).max(50).optional(),
+  skillVersion: z.string().trim().min(1).max(100).optional(),
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  interval: z.enum(['day', 'week']).default('day'),
+});
+
+function handleError(error: unknown, res: Response, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  routeLogger.error({ error }, message);
+  return res.status(500).json({ error: message });
+}
+
+function parseFilters(req: Request): SkillQualityFilters {
+  return filtersSchema.parse(req.query);
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * GET /api/admin/skill-quality/filters
+ * Business types and skill versions that have report metrics
+ */
+router.get('/filters', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const options = await getSkillQualityFilterOptions(user.agencyId);
+
+    res.json(options);
+  } catch (error) {
+    handleError(error, res, 'Failed to load skill quality filters');
+  }
+});
+
+/**
+ * GET /api/admin/skill-quality/violations
+ * Constraint violations by constraint ID over time
+ */
+router.get('/violations', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const trends = await getViolationTrends(user.agencyId, parseFilters(req));
+
+    res.json(trends);
+  } catch (error) {
+    handleError(error, res, 'Failed to load constraint violation trends');
+  }
+});
+
+/**
+ * GET /api/admin/skill-quality/leaks
+ * Invalid metric leaks per business type
+ */
+router.get('/leaks', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const leaks = await getInvalidMetricLeaks(user.agencyId, parseFilters(req));
+
+    res.json(leaks);
+  } catch (error) {
+    handleError(error, res, 'Failed to load invalid metric leaks');
+  }
+});
+
+/**
+ * GET /api/admin/skill-quality/token-budget
+ * Truncation and dropped keyword/page frequency
+ */
+router.get('/token-budget', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const stats = await getTokenBudgetStats(user.agencyId, parseFilters(req));
+
+    res.json(stats);
+  } catch (error) {
+    handleError(error, res, 'Failed to load token budget stats');
+  }
+});
+
+/**
+ * GET /api/admin/skill-quality/latency
+ * Latency percentiles per report pipeline phase
+ */
+router.get('/latency', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const phases = await getPhaseLatency(user.agencyId, parseFilters(req));
+
+    res.json({ phases });
+  } catch (error) {
+    handleError(error, res, 'Failed to load phase latency');
+  }
+});
+
+export default router;
@@ -0,0 +1,239 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import { config } from '@/config/index.js';
+import {
+  WEBHOOK_EVENT_TYPES,
+  listWebhookEndpoints,
+  createWebhookEndpoint,
+  updateWebhookEndpoint,
+  rotateWebhookSecret,
+  deleteWebhookEndpoint,
+  sendWebhookPing,
+  listWebhookDeliveries,
+  redeliverWebhook,
+} from '@/services/webhook.service.js';
+
+const router = Router();
+const routeLogger = logger.child({ module: 'webhooks-routes' });
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const webhookUrlSchema = z
+  .string()
+  .url()
+  .max(2000)
+  .refine(
+    (url) => /^https:\/\//.test(url) || (!config.isProduction && /^http:\/\/localhost[:/]/.test(url)),
+    'Webhook URLs must use https'
+  );
+
+const eventsSchema = z.array(z.enum(WEBHOOK_EVENT_TYPES)).max(WEBHOOK_EVENT_TYPES.length);
+
+const createEndpointSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().trim().max(255).optional(),
+  events: eventsSchema.optional(),
+});
+
+const updateEndpointSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  description: z.string().trim().max(255).nullable().optional(),
+  events: eventsSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+const paginationSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+function handleError(error: unknown, res: Response, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof AppError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  routeLogger.error({ error }, message);
+  return res.status(500).json({ error: message });
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * GET /api/webhooks/events
+ * Event types endpoints can subscribe to
+ */
+router.get('/events', (_req: Request, res: Response) => {
+  res.json({ events: WEBHOOK_EVENT_TYPES });
+});
+
+/**
+ * GET /api/webhooks
+ * List the agency's webhook endpoints
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const endpoints = await listWebhookEndpoints(user.agencyId);
+
+    res.json({ endpoints });
+  } catch (error) {
+    handleError(error, res, 'Failed to list webhook endpoints');
+  }
+});
+
+/**
+ * POST /api/webhooks
+ * Register an endpoint. The response includes the signing secret, shown only once.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const input = createEndpointSchema.parse(req.body);
+    const result = await createWebhookEndpoint(user.agencyId, user.id, input);
+
+    res.status(201).json(result);
+  } catch (error) {
+    handleError(error, res, 'Failed to create webhook endpoint');
+  }
+});
+
+/**
+ * PATCH /api/webhooks/:id
+ * Change an endpoint's URL, description, subscribed events or active state
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const input = updateEndpointSchema.parse(req.body);
+    const endpoint = await updateWebhookEndpoint(user.agencyId, req.params.id, input);
+
+    res.json({ endpoint });
+  } catch (error) {
+    handleError(error, res, 'Failed to update webhook endpoint');
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    await deleteWebhookEndpoint(user.agencyId, req.params.id);
+
+    res.status(204).send();
+  } catch (error) {
+    handleError(error, res, 'Failed to delete webhook endpoint');
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/rotate-secret
+ * Replace the signing secret; the old one stops working immediately
+ */
+router.post('/:id/rotate-secret', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const result = await rotateWebhookSecret(user.agencyId, req.params.id);
+
+    res.json(result);
+  } catch (error) {
+    handleError(error, res, 'Failed to rotate webhook secret');
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/ping
+ * Queue a ping event to verify the endpoint and its signature check
+ */
+router.post('/:id/ping', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const delivery = await sendWebhookPing(user.agencyId, req.params.id);
+
+    res.status(202).json({ delivery });
+  } catch (error) {
+    handleError(error, res, 'Failed to send webhook ping');
+  }
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ * Delivery attempts for an endpoint, newest first
+ */
+router.get('/:id/deliveries', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const options = paginationSchema.parse(req.query);
+    const result = await listWebhookDeliveries(user.agencyId, req.params.id, options);
+
+    res.json(result);
+  } catch (error) {
+    handleError(error, res, 'Failed to list webhook deliveries');
+  }
+});
+
+/**
+ * POST /api/webhooks/deliveries/:deliveryId/redeliver
+ * Queue another attempt for a delivery
+ */
+router.post('/deliveries/:deliveryId/redeliver', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const delivery = await redeliverWebhook(user.agencyId, req.params.deliveryId);
+
+    res.status(202).json({ delivery });
+  } catch (error) {
+    handleError(error, res, 'Failed to redeliver webhook');
+  }
+});
+
+export default router;
@@ -0,0 +1,98 @@
+#!/usr/bin/env tsx
+/**
+ * Record or replay an interplay report run
+ * Usage: tsx src/scripts/report-fixture.ts <record|replay> <client-id> <bundle-path> [business-type] [--allow-prompt-drift]
+ *
+ * record: runs the live pipeline, saving every LLM call, fetched page and
+ *         database input to <bundle-path> and the agent outputs to
+ *         <bundle-path>.output.json
+ * replay: runs the pipeline from the bundle alone (no database, models or
+ *         network) and compares the agent outputs with the recorded ones.
+ *         Exits 1 when they differ, or when a prompt no longer matches the
+ *         recording unless --allow-prompt-drift is given.
+ */
+
+import 'dotenv/config';
+import fs from 'node:fs/promises';
+import { isDeepStrictEqual } from 'node:util';
+import {
+  generateInterplayReport,
+  getInterplayReportDebug,
+  replayInterplayReport,
+  type BusinessType,
+} from '../services/interplay-report/index.js';
+import { createFixtureSession, runWithFixtures } from '../services/fixtures/index.js';
+import { logger } from '../utils/logger.js';
+
+const scriptLogger = logger.child({ module: 'report-fixture' });
+
+async function main() {
+  const args = process.argv.slice(2);
+  const allowPromptDrift = args.includes('--allow-prompt-drift');
+  const [mode, clientId, bundlePath, businessType] = args.filter((arg) => !arg.startsWith('--'));
+
+  if ((mode !== 'record' && mode !== 'replay') || !clientId || !bundlePath) {
+    console.error(
+      'Usage: tsx src/scripts/report-fixture.ts <record|replay> <client-id> <bundle-path> [business-type] [--allow-prompt-drift]'
+    );
+    process.exit(1);
+  }
+
+  const outputPath = `${bundlePath}.output.json`;
+
+  try {
+    if (mode === 'record') {
+      const session = await createFixtureSession('record', bundlePath);
+      const { reportId } = await runWithFixtures(session, () =>
+        generateInterplayReport(clientId, {
+          trigger: 'manual',
+          businessType: businessType as BusinessType | undefined,
+        })
+      );
+
+      const report = await getInterplayReportDebug(reportId);
+      const output = {
+        semAgentOutput: report?.semAgentOutput ?? null,
+        seoAgentOutput: report?.seoAgentOutput ?? null,
+        directorOutput: report?.directorOutput ?? null,
+      };
+
+      await fs.writeFile(outputPath, JSON.stringify(output, null, 2), 'utf-8');
+      console.log(`\n✅ Recorded report ${reportId}`);
+      console.log(`   Bundle: ${bundlePath}`);
+      console.log(`   Output: ${outputPath}\n`);
+      process.exit(0);
+    }
+
+    const replayed = await replayInterplayReport(clientId, bundlePath, {
+      businessType: businessType as BusinessType | undefined,
+      allowPromptDrift,
+    });
+    // Same shape the recorded output took through the database
+    const output = JSON.parse(
+      JSON.stringify({
+        semAgentOutput: replayed.semAgentOutput,
+        seoAgentOutput: replayed.seoAgentOutput,
+        directorOutput: replayed.directorOutput,
+      })
+    );
+
+    const expected = JSON.parse(await fs.readFile(outputPath, 'utf-8'));
+    if (isDeepStrictEqual(expected, output)) {
+      console.log(`\n✅ Replay of ${bundlePath} matches ${outputPath}\n`);
+      process.exit(0);
+    }
+
+    const actualPath = `${bundlePath}.replay.json`;
+    await fs.writeFile(actualPath, JSON.stringify(output, null, 2), 'utf-8');
+    console.error(`\n❌ Replay of ${bundlePath} differs from ${outputPath}`);
+    console.error(`   Replay output written to ${actualPath}\n`);
+    process.exit(1);
+  } catch (error) {
+    scriptLogger.error({ clientId, mode, error }, 'Report fixture run failed');
+    console.error('\n❌ Report fixture run failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
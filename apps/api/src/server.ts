@@ -17,7 +17,17 @@ import analysisRoutes from './routes/analysis.routes.js';
 import debugRoutes from './routes/debug.routes.js';
 import csvUploadRoutes from './routes/csv-upload.routes.js';
 import reportsRoutes from './routes/reports.routes.js';
-import { authenticate } from './middleware/auth.middleware.js';
+import skillBundleRoutes from './routes/skill-bundles.routes.js';
+import skillExperimentRoutes from './routes/skill-experiments.routes.js';
+import skillQualityRoutes from './routes/skill-quality.routes.js';
+import notificationRoutes from './routes/notifications.routes.js';
+import webhookRoutes from './routes/webhooks.routes.js';
+import apiKeyRoutes from './routes/api-keys.routes.js';
+import permissionRoutes from './routes/permissions.routes.js';
+import auditRoutes from './routes/audit.routes.js';
+import brandingRoutes from './routes/branding.routes.js';
+import sharedReportRoutes from './routes/shared-reports.routes.js';
+import { authenticate, requireRole, requirePermission } from './middleware/auth.middleware.js';
 import { logger } from './utils/logger.js';
 
 const app = express();
@@ -29,10 +39,12 @@ const corsOrigins = config.isDevelopment
 
 app.use(cors({
   origin: corsOrigins,
-  credentials: true
+  credentials: true,
+  // Lets the web app read download filenames and export summaries
+  exposedHeaders: ['Content-Disposition', 'X-Skipped-Actions']
 }));
 app.use(helmet());
-app.use(express.json());
+app.use(express.json({ limit: '1mb' })); // Room for branding logo data URLs
 app.use(cookieParser(config.cookieSecret));
 app.use(requestLogger);
 
@@ -46,6 +58,9 @@ app.get('/api/google/callback', async (req, res) => {
   return handleGoogleOAuthCallback(req, res);
 });
 
+// Public report share links - the token in the URL is the credential
+app.use('/api/shared-reports', sharedReportRoutes);
+
 // Add Clerk middleware to parse and validate tokens
 // Disable handshake for cross-origin API (frontend on :5173, API on :3001)
 // This allows Bearer token auth without requiring the __client_uat cookie
@@ -65,6 +80,15 @@ app.use('/api/competitors', authenticate, competitorRoutes);
 app.use('/api/google', authenticate, googleOAuthRoutes);
 app.use('/api/dashboard', authenticate, dashboardRoutes);
 app.use('/api/analysis', authenticate, analysisRoutes);
+app.use('/api/skill-bundles', authenticate, skillBundleRoutes);
+app.use('/api/skill-experiments', authenticate, skillExperimentRoutes);
+app.use('/api/admin/skill-quality', authenticate, requireRole('owner', 'admin'), skillQualityRoutes);
+app.use('/api/notifications', authenticate, requirePermission('settings:manage'), notificationRoutes);
+app.use('/api/webhooks', authenticate, requirePermission('settings:manage'), webhookRoutes);
+app.use('/api/api-keys', authenticate, requirePermission('settings:manage'), apiKeyRoutes);
+app.use('/api/permissions', authenticate, permissionRoutes);
+app.use('/api/audit-events', authenticate, requirePermission('audit:view'), auditRoutes);
+app.use('/api/branding', authenticate, brandingRoutes);
 app.use('/api/debug', debugRoutes); // Debug endpoint - remove in production
 
 app.use(errorMiddleware);
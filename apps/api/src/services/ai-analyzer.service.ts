@@ -1,8 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
 import { z } from 'zod';
 import { logger } from '@/utils/logger.js';
-import { config } from '@/config/index.js';
+import { callLLM, callLLMJson, resolveAgentModel } from '@/services/llm/index.js';
 import type { QueryOverlap } from './query-matcher.service.js';
 import { SemAgent } from './analysis-agents/sem-agent.js';
 import { SeoAgent } from './analysis-agents/seo-agent.js';
@@ -556,132 +554,6 @@ Provide your analysis in this EXACT JSON format:
 }`;
 }
 
-/**
- * Analyze query overlap using Anthropic Claude
- */
-async function analyzeWithAnthropic(
-  prompt: string,
-  retryCount: number = 0
-): Promise<Recommendation> {
-  const maxRetries = 3;
-  const baseDelay = 1000; // 1 second
-
-  try {
-    const anthropic = new Anthropic({
-      apiKey: config.anthropicApiKey,
-    });
-
-    aiLogger.info(
-      {
-        provider: 'anthropic',
-        model: config.anthropicModel,
-        attempt: retryCount + 1,
-      },
-      'Calling Anthropic API'
-    );
-
-    const message = await anthropic.messages.create({
-      model: config.anthropicModel,
-      max_tokens: 2048,
-      messages: [{ role: 'user', content: prompt }],
-    });
-
-    const responseText = message.content[0].type === 'text'
-      ? message.content[0].text
-      : '';
-
-    aiLogger.debug({ responseText }, 'Received Anthropic response');
-
-    // Parse and validate JSON response
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response');
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]);
-    const validated = recommendationSchema.parse(parsed);
-
-    return validated;
-  } catch (error) {
-    aiLogger.error(
-      {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        attempt: retryCount + 1,
-        maxRetries,
-      },
-      'Anthropic API call failed'
-    );
-
-    if (retryCount < maxRetries) {
-      const delay = baseDelay * Math.pow(2, retryCount);
-      aiLogger.info({ delay, attempt: retryCount + 2 }, 'Retrying Anthropic API call');
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return analyzeWithAnthropic(prompt, retryCount + 1);
-    }
-
-    throw error;
-  }
-}
-
-/**
- * Analyze query overlap using OpenAI
- */
-async function analyzeWithOpenAI(
-  prompt: string,
-  retryCount: number = 0
-): Promise<Recommendation> {
-  const maxRetries = 3;
-  const baseDelay = 1000; // 1 second
-
-  try {
-    const openai = new OpenAI({
-      apiKey: config.openaiApiKey,
-    });
-
-    aiLogger.info(
-      {
-        provider: 'openai',
-        model: config.openaiModel,
-        attempt: retryCount + 1,
-      },
-      'Calling OpenAI API'
-    );
-
-    const completion = await openai.chat.completions.create({
-      model: config.openaiModel,
-      messages: [{ role: 'user', content: prompt }],
-      response_format: { type: 'json_object' },
-    });
-
-    const responseText = completion.choices[0]?.message?.content || '';
-
-    aiLogger.debug({ responseText }, 'Received OpenAI response');
-
-    const parsed = JSON.parse(responseText);
-    const validated = recommendationSchema.parse(parsed);
-
-    return validated;
-  } catch (error) {
-    aiLogger.error(
-      {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        attempt: retryCount + 1,
-        maxRetries,
-      },
-      'OpenAI API call failed'
-    );
-
-    if (retryCount < maxRetries) {
-      const delay = baseDelay * Math.pow(2, retryCount);
-      aiLogger.info({ delay, attempt: retryCount + 2 }, 'Retrying OpenAI API call');
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return analyzeWithOpenAI(prompt, retryCount + 1);
-    }
-
-    throw error;
-  }
-}
-
 /**
  * Main function to analyze query overlap using configured AI provider
  */
@@ -690,13 +562,12 @@ export async function analyzeQueryOverlap(
   clientContext?: ClientContext
 ): Promise<Recommendation> {
   const prompt = buildAnalysisPrompt(overlap, clientContext);
+  const { provider, model } = resolveAgentModel('default');
 
   aiLogger.info(
     {
-      provider: config.aiProvider,
-      model: config.aiProvider === 'anthropic'
-        ? config.anthropicModel
-        : config.openaiModel,
+      provider,
+      model,
       query: overlap.queryText,
       spend: overlap.googleAds?.spend ?? 0,
       position: overlap.searchConsole.position,
@@ -705,15 +576,9 @@ export async function analyzeQueryOverlap(
   );
 
   try {
-    let recommendation: Recommendation;
-
-    if (config.aiProvider === 'anthropic') {
-      recommendation = await analyzeWithAnthropic(prompt);
-    } else if (config.aiProvider === 'openai') {
-      recommendation = await analyzeWithOpenAI(prompt);
-    } else {
-      throw new Error(`Unknown AI provider: ${config.aiProvider}`);
-    }
+    const { data: recommendation } = await callLLMJson(prompt, recommendationSchema, {
+      maxTokens: 2048,
+    });
 
     aiLogger.info(
       {
@@ -758,90 +623,16 @@ export async function analyzeSearchConsoleData(
 
   aiLogger.info(
     {
-      provider: config.aiProvider,
+      provider: resolveAgentModel('default').provider,
       queryCount: data.queries.length,
     },
     'Starting Search Console AI analysis'
   );
 
   try {
-    let analysis: SearchConsoleAnalysis;
-    const maxRetries = 3;
-    const baseDelay = 1000;
-
-    const executeAnalysis = async (retryCount: number = 0): Promise<SearchConsoleAnalysis> => {
-      const startTime = Date.now();
-      try {
-        let responseText = '';
-
-        aiLogger.info({ promptLength: prompt.length, promptPreview: prompt.slice(0, 200) + '...' }, 'Sending prompt to AI');
-
-        if (config.aiProvider === 'anthropic') {
-          if (!config.anthropicApiKey) throw new Error('Anthropic API key not configured');
-          const anthropic = new Anthropic({ apiKey: config.anthropicApiKey });
-          const message = await anthropic.messages.create({
-            model: config.anthropicModel,
-            max_tokens: 4096, // Increased for comprehensive Search Console analysis
-            messages: [{ role: 'user', content: prompt }],
-          });
-          responseText = message.content[0].type === 'text' ? message.content[0].text : '';
-        } else {
-          if (!config.openaiApiKey) throw new Error('OpenAI API key not configured');
-          const openai = new OpenAI({ apiKey: config.openaiApiKey });
-          const completion = await openai.chat.completions.create({
-            model: config.openaiModel,
-            max_tokens: 4096, // Increased for comprehensive Search Console analysis
-            messages: [{ role: 'user', content: prompt }],
-            response_format: { type: 'json_object' },
-          });
-          responseText = completion.choices[0]?.message?.content || '';
-        }
-
-        const duration = Date.now() - startTime;
-        aiLogger.info({ durationMs: duration, responseLength: responseText.length, responsePreview: responseText.slice(0, 200) + '...' }, 'Received AI response');
-
-        // Parse and validate - handle both markdown wrapped and raw JSON
-        let jsonText = responseText;
-
-        // Remove markdown code blocks if present
-        const markdownMatch = responseText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-        if (markdownMatch) {
-          jsonText = markdownMatch[1];
-          aiLogger.debug('Extracted JSON from markdown code block');
-        } else {
-          // Try to find JSON object in the response
-          const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            jsonText = jsonMatch[0];
-          }
-        }
-
-        if (!jsonText || (!jsonText.trim().startsWith('{') && !jsonText.trim().startsWith('['))) {
-          aiLogger.error({ responseText: responseText.slice(0, 500) }, 'No valid JSON found in response');
-          throw new Error('No JSON found in response');
-        }
-
-        const parsed = JSON.parse(jsonText);
-        return searchConsoleAnalysisSchema.parse(parsed);
-
-      } catch (error) {
-        const duration = Date.now() - startTime;
-        aiLogger.warn({
-          error: error instanceof Error ? error.message : 'Unknown error',
-          attempt: retryCount + 1,
-          durationMs: duration,
-          errorType: error instanceof SyntaxError ? 'JSON_PARSE_ERROR' : 'OTHER'
-        }, 'AI analysis attempt failed');
-        if (retryCount < maxRetries) {
-          const delay = baseDelay * Math.pow(2, retryCount);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          return executeAnalysis(retryCount + 1);
-        }
-        throw error;
-      }
-    };
-
-    analysis = await executeAnalysis();
+    const { data: analysis } = await callLLMJson(prompt, searchConsoleAnalysisSchema, {
+      maxTokens: 4096, // Increased for comprehensive Search Console analysis
+    });
 
     aiLogger.info({ summary: analysis.summary }, 'Search Console AI analysis complete');
     return analysis;
@@ -887,7 +678,7 @@ export async function analyzeSearchConsoleDataGrouped(
 
   aiLogger.info(
     {
-      provider: config.aiProvider,
+      provider: resolveAgentModel('default').provider,
       queryCount: data.queries.length,
       landingPageCount: data.queriesByLandingPage?.length || 0,
     },
@@ -895,83 +686,9 @@ export async function analyzeSearchConsoleDataGrouped(
   );
 
   try {
-    let analysis: GroupedSearchConsoleAnalysis;
-    const maxRetries = 3;
-    const baseDelay = 1000;
-
-    const executeAnalysis = async (retryCount: number = 0): Promise<GroupedSearchConsoleAnalysis> => {
-      const startTime = Date.now();
-      try {
-        let responseText = '';
-
-        aiLogger.info({ promptLength: prompt.length, promptPreview: prompt.slice(0, 200) + '...' }, 'Sending grouped prompt to AI');
-
-        if (config.aiProvider === 'anthropic') {
-          if (!config.anthropicApiKey) throw new Error('Anthropic API key not configured');
-          const anthropic = new Anthropic({ apiKey: config.anthropicApiKey });
-          const message = await anthropic.messages.create({
-            model: config.anthropicModel,
-            max_tokens: 8192, // Increased for comprehensive grouped analysis
-            messages: [{ role: 'user', content: prompt }],
-          });
-          responseText = message.content[0].type === 'text' ? message.content[0].text : '';
-        } else {
-          if (!config.openaiApiKey) throw new Error('OpenAI API key not configured');
-          const openai = new OpenAI({ apiKey: config.openaiApiKey });
-          const completion = await openai.chat.completions.create({
-            model: config.openaiModel,
-            max_tokens: 8192, // Increased for comprehensive grouped analysis
-            messages: [{ role: 'user', content: prompt }],
-            response_format: { type: 'json_object' },
-          });
-          responseText = completion.choices[0]?.message?.content || '';
-        }
-
-        const duration = Date.now() - startTime;
-        aiLogger.info({ durationMs: duration, responseLength: responseText.length, responsePreview: responseText.slice(0, 200) + '...' }, 'Received grouped AI response');
-
-        // Parse and validate - handle both markdown wrapped and raw JSON
-        let jsonText = responseText;
-
-        // Remove markdown code blocks if present
-        const markdownMatch = responseText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-        if (markdownMatch) {
-          jsonText = markdownMatch[1];
-          aiLogger.debug('Extracted JSON from markdown code block');
-        } else {
-          // Try to find JSON object in the response
-          const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            jsonText = jsonMatch[0];
-          }
-        }
-
-        if (!jsonText || (!jsonText.trim().startsWith('{') && !jsonText.trim().startsWith('['))) {
-          aiLogger.error({ responseText: responseText.slice(0, 500) }, 'No valid JSON found in response');
-          throw new Error('No JSON found in response');
-        }
-
-        const parsed = JSON.parse(jsonText);
-        return groupedSearchConsoleAnalysisSchema.parse(parsed);
-
-      } catch (error) {
-        const duration = Date.now() - startTime;
-        aiLogger.warn({
-          error: error instanceof Error ? error.message : 'Unknown error',
-          attempt: retryCount + 1,
-          durationMs: duration,
-          errorType: error instanceof SyntaxError ? 'JSON_PARSE_ERROR' : 'OTHER'
-        }, 'Grouped AI analysis attempt failed');
-        if (retryCount < maxRetries) {
-          const delay = baseDelay * Math.pow(2, retryCount);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          return executeAnalysis(retryCount + 1);
-        }
-        throw error;
-      }
-    };
-
-    analysis = await executeAnalysis();
+    const { data: analysis } = await callLLMJson(prompt, groupedSearchConsoleAnalysisSchema, {
+      maxTokens: 8192, // Increased for comprehensive grouped analysis
+    });
 
     aiLogger.info({
       summary: analysis.summary,
@@ -1053,61 +770,8 @@ export async function callGenericAI(
   prompt: string,
   modelOverride?: string
 ): Promise<string> {
-  const maxRetries = 3;
-  const baseDelay = 1000;
-
-  const executeCall = async (retryCount: number = 0): Promise<string> => {
-    try {
-      let responseText = '';
-
-      if (config.aiProvider === 'anthropic') {
-        if (!config.anthropicApiKey) throw new Error('Anthropic API key not configured');
-        const anthropic = new Anthropic({ apiKey: config.anthropicApiKey });
-
-        const message = await anthropic.messages.create({
-          model: modelOverride || config.anthropicModel,
-          max_tokens: 4096,
-          messages: [{ role: 'user', content: prompt }],
-        });
-
-        responseText = message.content[0].type === 'text' ? message.content[0].text : '';
-      } else {
-        if (!config.openaiApiKey) throw new Error('OpenAI API key not configured');
-        const openai = new OpenAI({ apiKey: config.openaiApiKey });
-
-        const completion = await openai.chat.completions.create({
-          model: modelOverride || config.openaiModel,
-          messages: [{ role: 'user', content: prompt }],
-          response_format: { type: 'json_object' },
-        });
-
-        responseText = completion.choices[0]?.message?.content || '';
-      }
-
-      // Extract JSON if wrapped in markdown
-      const markdownMatch = responseText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-      if (markdownMatch) {
-        return markdownMatch[1];
-      }
-
-      // Try to find JSON object
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return jsonMatch[0];
-      }
-
-      return responseText;
-    } catch (error) {
-      if (retryCount < maxRetries) {
-        const delay = baseDelay * Math.pow(2, retryCount);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return executeCall(retryCount + 1);
-      }
-      throw error;
-    }
-  };
-
-  return executeCall();
+  const result = await callLLM(prompt, { model: modelOverride });
+  return result.json ?? result.text;
 }
 
 /**
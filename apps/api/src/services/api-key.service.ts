@@ -0,0 +1,150 @@
+import crypto from 'node:crypto';
+import { db } from '@/db/index.js';
+import { apiKeys, users } from '@/db/schema.js';
+import { eq, and, isNull, lt, or, desc, sql } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import { encryptionService } from './encryption.service.js';
+
+const apiKeyLogger = logger.child({ module: 'api-key-service' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const API_KEY_SCOPES = ['read:reports', 'write:recommendations', 'trigger:sync'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+
+/**
+ * Key as returned to clients; the secret itself is only returned on create
+ */
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>;
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+export interface VerifiedApiKey {
+  key: ApiKeySummary;
+  /** User the request acts as (the key's creator) */
+  user: typeof users.$inferSelect;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const KEY_PREFIX = 'adv_';
+/** Characters of the key kept in plain text so users can tell keys apart */
+const DISPLAY_PREFIX_LENGTH = 12;
+/** last_used_at is only rewritten when older than this, to avoid a write per request */
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function isApiKey(value: string): boolean {
+  return value.startsWith(KEY_PREFIX);
+}
+
+function toSummary(key: ApiKey): ApiKeySummary {
+  const { keyHash: _hash, ...summary } = key;
+  return summary;
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+export async function listApiKeys(agencyId: string): Promise<ApiKeySummary[]> {
+  const keys = await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.agencyId, agencyId))
+    .orderBy(desc(apiKeys.createdAt));
+
+  return keys.map(toSummary);
+}
+
+/**
+ * Create a key. The plain key is returned only here; it cannot be recovered later.
+ */
+export async function createApiKey(
+  agencyId: string,
+  userId: string,
+  input: CreateApiKeyInput
+): Promise<{ apiKey: ApiKeySummary; key: string }> {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  const [apiKey] = await db
+    .insert(apiKeys)
+    .values({
+      agencyId,
+      name: input.name,
+      keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: encryptionService.hash(key),
+      scopes: [...new Set(input.scopes)],
+      createdBy: userId,
+    })
+    .returning();
+
+  apiKeyLogger.info({ agencyId, apiKeyId: apiKey.id, scopes: apiKey.scopes }, 'API key created');
+
+  return { apiKey: toSummary(apiKey), key };
+}
+
+export async function revokeApiKey(agencyId: string, apiKeyId: string): Promise<ApiKeySummary> {
+  const [apiKey] = await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.id, apiKeyId), eq(apiKeys.agencyId, agencyId), isNull(apiKeys.revokedAt)))
+    .returning();
+
+  if (!apiKey) {
+    throw new AppError('API key not found or already revoked', 404);
+  }
+
+  apiKeyLogger.info({ agencyId, apiKeyId }, 'API key revoked');
+
+  return toSummary(apiKey);
+}
+
+/**
+ * Resolve a presented key to its record and acting user. Returns null for
+ * unknown or revoked keys, and for keys whose creator no longer exists.
+ */
+export async function verifyApiKey(rawKey: string): Promise<VerifiedApiKey | null> {
+  const [row] = await db
+    .select({ key: apiKeys, user: users })
+    .from(apiKeys)
+    .innerJoin(users, eq(apiKeys.createdBy, users.id))
+    .where(and(
+      eq(apiKeys.keyHash, encryptionService.hash(rawKey)),
+      isNull(apiKeys.revokedAt),
+      // Keys never act outside their own agency, even if the creator moved
+      eq(users.agencyId, apiKeys.agencyId)
+    ))
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  db.update(apiKeys)
+    .set({ lastUsedAt: new Date() })
+    .where(and(
+      eq(apiKeys.id, row.key.id),
+      or(
+        isNull(apiKeys.lastUsedAt),
+        lt(apiKeys.lastUsedAt, sql`now() - (${LAST_USED_RESOLUTION_SECONDS} * interval '1 second')`)
+      )
+    ))
+    .catch((error) => apiKeyLogger.error({ error, apiKeyId: row.key.id }, 'Failed to record API key use'));
+
+  return { key: toSummary(row.key), user: row.user };
+}
@@ -0,0 +1,223 @@
+import type { Request } from 'express';
+import { db } from '@/db/index.js';
+import { auditEvents } from '@/db/schema.js';
+import { eq, and, desc, gte, lte, count, type SQL } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+
+const auditLogger = logger.child({ module: 'audit-service' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const AUDIT_ACTIONS = [
+  'client.created',
+  'client.updated',
+  'client.deleted',
+  'client.skill_overrides_updated',
+  'client.assignments_updated',
+  'client.sync_triggered',
+  'google.connected',
+  'google.disconnected',
+  'recommendation.status_changed',
+  'recommendation.applied',
+  'recommendation.rolled_back',
+  'report.regenerated',
+  'report.schedule_updated',
+  'report.shared',
+  'report.share_revoked',
+  'report.sent',
+  'report.distribution_list_created',
+  'report.distribution_list_updated',
+  'report.distribution_list_deleted',
+  'csv_upload.created',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditEntityType = 'client' | 'google_connection' | 'recommendation' | 'mutation' | 'report' | 'report_schedule' | 'report_share' | 'distribution_list' | 'csv_upload';
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEventInput {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  clientAccountId?: string | null;
+  /** Entity state before the action; diffed against `after` */
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export interface AuditEvent {
+  id: string;
+  agencyId: string;
+  actorUserId: string | null;
+  actorName: string | null;
+  actorEmail: string | null;
+  apiKeyId: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  clientAccountId: string | null;
+  changes: AuditChanges | null;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface AuditEventFilters {
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  actorUserId?: string;
+  clientAccountId?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Fields never written to the audit log, even when they change */
+const REDACTED_FIELD_PATTERN = /token|secret|password|encrypted|hash/i;
+
+/**
+ * Changed fields between two snapshots. Either side may be missing for
+ * create and delete events, in which case every field is reported.
+ */
+export function diffChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChanges | null {
+  if (!before && !after) {
+    return null;
+  }
+
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    if (REDACTED_FIELD_PATTERN.test(key)) {
+      continue;
+    }
+    const previous = before?.[key] ?? null;
+    const next = after?.[key] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[key] = { before: previous, after: next };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+function getRequestMetadata(req: Request): Record<string, unknown> {
+  return {
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+    ip: req.ip,
+    userAgent: req.get('user-agent') ?? null,
+    requestId: (req as any).id ?? null,
+  };
+}
+
+function toAuditEvent(row: typeof auditEvents.$inferSelect): AuditEvent {
+  const { changesJson, metadataJson, ...event } = row;
+  return {
+    ...event,
+    changes: changesJson ? JSON.parse(changesJson) : null,
+    metadata: JSON.parse(metadataJson),
+  };
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Append an event for the authenticated user's action. Never throws: a failed
+ * audit write is logged rather than failing the action it describes.
+ */
+export async function recordAuditEvent(req: Request, input: AuditEventInput): Promise<void> {
+  const actor = req.currentUser;
+
+  if (!actor) {
+    auditLogger.warn({ action: input.action }, 'Audit event without an authenticated user skipped');
+    return;
+  }
+
+  try {
+    const changes = diffChanges(input.before, input.after);
+
+    await db.insert(auditEvents).values({
+      agencyId: actor.agencyId,
+      actorUserId: actor.id,
+      actorName: actor.name,
+      actorEmail: actor.email,
+      apiKeyId: req.apiKey?.id ?? null,
+      action: input.action,
+      entityType: input.entityType,
+      entityId: input.entityId ?? null,
+      clientAccountId: input.clientAccountId ?? null,
+      changesJson: changes ? JSON.stringify(changes) : null,
+      metadataJson: JSON.stringify(getRequestMetadata(req)),
+    });
+  } catch (error) {
+    auditLogger.error({ error, action: input.action, entityId: input.entityId }, 'Failed to record audit event');
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function listAuditEvents(
+  agencyId: string,
+  filters: AuditEventFilters
+): Promise<{ events: AuditEvent[]; total: number }> {
+  const conditions: SQL[] = [eq(auditEvents.agencyId, agencyId)];
+
+  if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+  if (filters.entityType) conditions.push(eq(auditEvents.entityType, filters.entityType));
+  if (filters.entityId) conditions.push(eq(auditEvents.entityId, filters.entityId));
+  if (filters.actorUserId) conditions.push(eq(auditEvents.actorUserId, filters.actorUserId));
+  if (filters.clientAccountId) conditions.push(eq(auditEvents.clientAccountId, filters.clientAccountId));
+  if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(auditEvents.createdAt, filters.to));
+
+  const condition = and(...conditions);
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select()
+      .from(auditEvents)
+      .where(condition)
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(filters.limit)
+      .offset(filters.offset),
+    db.select({ total: count() }).from(auditEvents).where(condition),
+  ]);
+
+  return { events: rows.map(toAuditEvent), total };
+}
+
+/**
+ * Users who appear in the agency's audit log, for the actor filter
+ */
+export async function listAuditActors(agencyId: string): Promise<Array<{ id: string; name: string | null; email: string | null }>> {
+  const rows = await db
+    .selectDistinctOn([auditEvents.actorUserId], {
+      id: auditEvents.actorUserId,
+      name: auditEvents.actorName,
+      email: auditEvents.actorEmail,
+    })
+    .from(auditEvents)
+    .where(eq(auditEvents.agencyId, agencyId))
+    .orderBy(auditEvents.actorUserId, desc(auditEvents.createdAt));
+
+  return rows
+    .filter((row): row is { id: string; name: string | null; email: string | null } => !!row.id)
+    .sort((a, b) => (a.name ?? '').localeCompare(b.name ?? ''));
+}
@@ -0,0 +1,166 @@
+import { db } from '@/db/index.js';
+import { agencyBrandings, clientLogos } from '@/db/schema.js';
+import { eq } from 'drizzle-orm';
+import { DEFAULT_BRANDING } from '@advergent/report-pdf';
+import type { ReportBranding } from '@advergent/shared';
+import { logger } from '@/utils/logger.js';
+
+const brandingLogger = logger.child({ module: 'branding-service' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Stored agency branding; null fields fall back to DEFAULT_BRANDING
+ */
+export interface AgencyBrandingSettings {
+  companyName: string | null;
+  logoDataUrl: string | null;
+  primaryColor: string | null;
+  accentColor: string | null;
+  footerText: string | null;
+  coverPageEnabled: boolean;
+  coverTitle: string | null;
+  coverSubtitle: string | null;
+  updatedAt: Date | null;
+}
+
+export type UpdateAgencyBrandingInput = Partial<Omit<AgencyBrandingSettings, 'updatedAt'>>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Formats @react-pdf/renderer can embed */
+export const LOGO_DATA_URL_PATTERN = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+={0,2}$/;
+
+/** Roughly 512 KB of image data once base64 encoded */
+export const MAX_LOGO_DATA_URL_LENGTH = 700_000;
+
+export const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const EMPTY_SETTINGS: AgencyBrandingSettings = {
+  companyName: null,
+  logoDataUrl: null,
+  primaryColor: null,
+  accentColor: null,
+  footerText: null,
+  coverPageEnabled: false,
+  coverTitle: null,
+  coverSubtitle: null,
+  updatedAt: null,
+};
+
+// ============================================================================
+// AGENCY BRANDING
+// ============================================================================
+
+export async function getAgencyBrandingSettings(agencyId: string): Promise<AgencyBrandingSettings> {
+  const [row] = await db
+    .select()
+    .from(agencyBrandings)
+    .where(eq(agencyBrandings.agencyId, agencyId))
+    .limit(1);
+
+  if (!row) {
+    return EMPTY_SETTINGS;
+  }
+
+  return {
+    companyName: row.companyName,
+    logoDataUrl: row.logoDataUrl,
+    primaryColor: row.primaryColor,
+    accentColor: row.accentColor,
+    footerText: row.footerText,
+    coverPageEnabled: row.coverPageEnabled,
+    coverTitle: row.coverTitle,
+    coverSubtitle: row.coverSubtitle,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Save agency branding. Omitted fields keep their current value; null clears
+ * a field back to the default.
+ */
+export async function updateAgencyBranding(
+  agencyId: string,
+  input: UpdateAgencyBrandingInput,
+  updatedBy: string
+): Promise<AgencyBrandingSettings> {
+  const values = Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined)
+  ) as UpdateAgencyBrandingInput;
+
+  await db
+    .insert(agencyBrandings)
+    .values({ agencyId, ...values, updatedBy })
+    .onConflictDoUpdate({
+      target: agencyBrandings.agencyId,
+      set: { ...values, updatedBy, updatedAt: new Date() },
+    });
+
+  brandingLogger.info({ agencyId, fields: Object.keys(values) }, 'Agency branding saved');
+
+  return getAgencyBrandingSettings(agencyId);
+}
+
+// ============================================================================
+// CLIENT LOGOS
+// ============================================================================
+
+export async function getClientLogo(clientAccountId: string): Promise<string | null> {
+  const [row] = await db
+    .select({ logoDataUrl: clientLogos.logoDataUrl })
+    .from(clientLogos)
+    .where(eq(clientLogos.clientAccountId, clientAccountId))
+    .limit(1);
+
+  return row?.logoDataUrl ?? null;
+}
+
+/**
+ * Set or (with null) remove a client's logo
+ */
+export async function setClientLogo(clientAccountId: string, logoDataUrl: string | null): Promise<void> {
+  if (!logoDataUrl) {
+    await db.delete(clientLogos).where(eq(clientLogos.clientAccountId, clientAccountId));
+    return;
+  }
+
+  await db
+    .insert(clientLogos)
+    .values({ clientAccountId, logoDataUrl })
+    .onConflictDoUpdate({
+      target: clientLogos.clientAccountId,
+      set: { logoDataUrl, updatedAt: new Date() },
+    });
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Branding to render a client's reports with: the agency's settings over
+ * the defaults, plus the client's logo when one is set
+ */
+export async function resolveReportBranding(agencyId: string, clientAccountId?: string): Promise<ReportBranding> {
+  const [settings, clientLogoDataUrl] = await Promise.all([
+    getAgencyBrandingSettings(agencyId),
+    clientAccountId ? getClientLogo(clientAccountId) : Promise.resolve(null),
+  ]);
+
+  return {
+    companyName: settings.companyName || DEFAULT_BRANDING.companyName,
+    logoDataUrl: settings.logoDataUrl,
+    primaryColor: settings.primaryColor || DEFAULT_BRANDING.primaryColor,
+    accentColor: settings.accentColor || DEFAULT_BRANDING.accentColor,
+    footerText: settings.footerText,
+    coverPageEnabled: settings.coverPageEnabled,
+    coverTitle: settings.coverTitle,
+    coverSubtitle: settings.coverSubtitle,
+    clientLogoDataUrl,
+  };
+}
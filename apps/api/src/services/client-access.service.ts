@@ -0,0 +1,175 @@
+import { db } from '@/db/index.js';
+import { clientAccounts, clientAssignments, users } from '@/db/schema.js';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+
+const clientAccessLogger = logger.child({ module: 'client-access-service' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The parts of the authenticated user that decide client visibility */
+export interface ClientAccessUser {
+  id: string;
+  agencyId: string;
+  role: string;
+}
+
+export interface ClientAssignee {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+}
+
+export interface ClientAssignmentList {
+  /** Users assigned to the client */
+  assignedUserIds: string[];
+  /** Everyone in the agency, so the UI can offer them for assignment */
+  members: ClientAssignee[];
+}
+
+// ============================================================================
+// ACCESS CHECKS
+// ============================================================================
+
+/**
+ * Owners and admins see every client in the agency; members only their assignments
+ */
+export function hasFullClientAccess(user: ClientAccessUser): boolean {
+  return user.role === 'owner' || user.role === 'admin';
+}
+
+/**
+ * IDs of the clients the user may see, or null when they may see every client
+ * in their agency
+ */
+export async function getAccessibleClientIds(user: ClientAccessUser): Promise<string[] | null> {
+  if (hasFullClientAccess(user)) {
+    return null;
+  }
+
+  const rows = await db
+    .select({ clientAccountId: clientAssignments.clientAccountId })
+    .from(clientAssignments)
+    .innerJoin(clientAccounts, eq(clientAssignments.clientAccountId, clientAccounts.id))
+    .where(and(eq(clientAssignments.userId, user.id), eq(clientAccounts.agencyId, user.agencyId)));
+
+  return rows.map((row) => row.clientAccountId);
+}
+
+/**
+ * Whether the user may act on a client. Does not check that the client belongs
+ * to the user's agency for owners and admins; routes already scope by agency.
+ */
+export async function canAccessClient(user: ClientAccessUser, clientAccountId: string): Promise<boolean> {
+  if (hasFullClientAccess(user)) {
+    return true;
+  }
+
+  const [assignment] = await db
+    .select({ id: clientAssignments.id })
+    .from(clientAssignments)
+    .innerJoin(clientAccounts, eq(clientAssignments.clientAccountId, clientAccounts.id))
+    .where(and(
+      eq(clientAssignments.clientAccountId, clientAccountId),
+      eq(clientAssignments.userId, user.id),
+      eq(clientAccounts.agencyId, user.agencyId)
+    ))
+    .limit(1);
+
+  return !!assignment;
+}
+
+// ============================================================================
+// ASSIGNMENTS
+// ============================================================================
+
+async function assertClientInAgency(agencyId: string, clientAccountId: string): Promise<void> {
+  const [client] = await db
+    .select({ id: clientAccounts.id })
+    .from(clientAccounts)
+    .where(and(eq(clientAccounts.id, clientAccountId), eq(clientAccounts.agencyId, agencyId)))
+    .limit(1);
+
+  if (!client) {
+    throw new AppError('Client not found', 404);
+  }
+}
+
+export async function listClientAssignments(agencyId: string, clientAccountId: string): Promise<ClientAssignmentList> {
+  await assertClientInAgency(agencyId, clientAccountId);
+
+  const [assignments, members] = await Promise.all([
+    db
+      .select({ userId: clientAssignments.userId })
+      .from(clientAssignments)
+      .where(eq(clientAssignments.clientAccountId, clientAccountId)),
+    db
+      .select({ id: users.id, name: users.name, email: users.email, role: users.role })
+      .from(users)
+      .where(eq(users.agencyId, agencyId))
+      .orderBy(asc(users.name)),
+  ]);
+
+  return {
+    assignedUserIds: assignments.map((assignment) => assignment.userId),
+    members,
+  };
+}
+
+/**
+ * Replace the set of users assigned to a client
+ */
+export async function setClientAssignments(
+  agencyId: string,
+  clientAccountId: string,
+  userIds: string[],
+  assignedBy: string
+): Promise<ClientAssignmentList> {
+  await assertClientInAgency(agencyId, clientAccountId);
+
+  const uniqueUserIds = [...new Set(userIds)];
+
+  if (uniqueUserIds.length > 0) {
+    const agencyUsers = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.agencyId, agencyId), inArray(users.id, uniqueUserIds)));
+
+    if (agencyUsers.length !== uniqueUserIds.length) {
+      throw new AppError('One or more users are not members of this agency', 400);
+    }
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(clientAssignments).where(eq(clientAssignments.clientAccountId, clientAccountId));
+
+    if (uniqueUserIds.length > 0) {
+      await tx.insert(clientAssignments).values(
+        uniqueUserIds.map((userId) => ({ clientAccountId, userId, assignedBy }))
+      );
+    }
+  });
+
+  clientAccessLogger.info({ agencyId, clientAccountId, userCount: uniqueUserIds.length, assignedBy }, 'Client assignments updated');
+
+  return listClientAssignments(agencyId, clientAccountId);
+}
+
+/**
+ * Give a user access to a client they just created, so members keep seeing
+ * clients they add. Owners and admins already see every client.
+ */
+export async function assignCreator(user: ClientAccessUser, clientAccountId: string): Promise<void> {
+  if (hasFullClientAccess(user)) {
+    return;
+  }
+
+  await db
+    .insert(clientAssignments)
+    .values({ clientAccountId, userId: user.id, assignedBy: user.id })
+    .onConflictDoNothing();
+}
@@ -1,16 +1,64 @@
 import { db } from '@/db/index.js';
 import { clientAccounts, searchQueries, searchConsoleQueries, syncJobs } from '@/db/schema.js';
-import { eq, and, lt, or, isNull } from 'drizzle-orm';
+import { eq, and, lt, or, isNull, desc } from 'drizzle-orm';
 import { getSearchAnalytics } from '@/services/search-console.service.js';
 import { normalizeQuery, hashQuery } from '@/services/query-matcher.service.js';
 import { syncLogger } from '@/utils/logger.js';
-import { generateInterplayReport, hasExistingReports } from '@/services/interplay-report/index.js';
+import { hasExistingReports } from '@/services/interplay-report/index.js';
+import { enqueueReportGeneration } from '@/services/job-queue.service.js';
+import { notifyAgency, type NotificationAlert } from '@/services/notifications/index.js';
+import { emitWebhookEvent } from '@/services/webhook.service.js';
 
 // Configurable timeout for sync jobs (in minutes)
 // Initial syncs with GA4 + Ads + SC can take 15-20 minutes for large accounts
 const parsedTimeout = Number.parseInt(process.env.SYNC_JOB_TIMEOUT_MINUTES || '30', 10);
 const SYNC_JOB_TIMEOUT_MINUTES = Number.isFinite(parsedTimeout) && parsedTimeout > 0 ? parsedTimeout : 30;
 
+// Consecutive failed syncs for one client before the alert escalates to critical
+const REPEATED_SYNC_FAILURE_THRESHOLD = 3;
+
+/**
+ * Alert the client's agency that a sync failed, escalating when the last few
+ * syncs all failed. Never throws.
+ */
+async function alertSyncFailure(
+  client: { id: string; name: string; agencyId: string },
+  trigger: 'scheduled' | 'manual',
+  errorMessage: string
+): Promise<void> {
+  try {
+    const recentJobs = await db
+      .select({ status: syncJobs.status })
+      .from(syncJobs)
+      .where(eq(syncJobs.clientAccountId, client.id))
+      .orderBy(desc(syncJobs.createdAt))
+      .limit(REPEATED_SYNC_FAILURE_THRESHOLD);
+
+    const consecutiveFailures = recentJobs.findIndex((job) => job.status !== 'failed');
+    const failureCount = consecutiveFailures === -1 ? recentJobs.length : consecutiveFailures;
+    const repeated = failureCount >= REPEATED_SYNC_FAILURE_THRESHOLD;
+
+    const alert: NotificationAlert = {
+      severity: repeated ? 'critical' : 'warning',
+      code: repeated ? 'SYNC_REPEATED_FAILURE' : 'SYNC_FAILED',
+      message: repeated
+        ? `Last ${failureCount} syncs failed for ${client.name}`
+        : `Sync failed for ${client.name}`,
+      context: {
+        clientAccountId: client.id,
+        clientName: client.name,
+        trigger,
+        consecutiveFailures: failureCount,
+        error: errorMessage,
+      },
+    };
+
+    await notifyAgency(client.agencyId, [alert]);
+  } catch (error) {
+    syncLogger.error({ error, clientId: client.id }, 'Failed to send sync failure alert');
+  }
+}
+
 /**
  * Run data sync for a client from Google Ads and Search Console
  *
@@ -421,6 +469,13 @@ export async function runClientSync(
         'Sync completed successfully'
       );
 
+      await emitWebhookEvent(client.agencyId, 'sync.completed', {
+        clientAccountId: clientId,
+        syncJobId: syncJob.id,
+        trigger,
+        recordsProcessed,
+      });
+
       // Auto-trigger report generation after first successful sync with Tier 1 data
       // Per Phase 4 spec, OAuth syncs should auto-trigger report generation
       // when meaningful data is first synced (Search Console, GA4, or Google Ads)
@@ -437,23 +492,9 @@ export async function runClientSync(
               'First sync with Tier 1 data - triggering report generation'
             );
 
-            // Fire-and-forget: don't await, don't block sync completion
-            generateInterplayReport(clientId, { days: 30, trigger: 'client_creation' })
-              .then(({ reportId, metadata }) => {
-                syncLogger.info(
-                  {
-                    clientId,
-                    reportId,
-                    businessType: metadata.skillBundle.businessType,
-                    skillVersion: metadata.skillBundle.version,
-                    totalDurationMs: metadata.performance.totalDurationMs,
-                  },
-                  'Auto-triggered report generation complete'
-                );
-              })
-              .catch((err) => {
-                syncLogger.error({ err, clientId }, 'Auto-triggered report generation failed');
-              });
+            // Queued rather than run inline so the worker picks it up even if this process dies
+            const { job } = await enqueueReportGeneration(clientId, { days: 30, trigger: 'client_creation' });
+            syncLogger.info({ clientId, jobId: job.id }, 'Auto-triggered report generation queued');
           } else {
             syncLogger.info(
               { clientId, trigger },
@@ -467,17 +508,28 @@ export async function runClientSync(
 
       return { success: true, recordsProcessed };
     } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
       // Mark sync job as failed in DB
       await db
         .update(syncJobs)
         .set({
           status: 'failed',
           completedAt: new Date(),
-          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          errorMessage,
           recordsProcessed,
         })
         .where(eq(syncJobs.id, syncJob.id));
 
+      await alertSyncFailure(client, trigger, errorMessage);
+      await emitWebhookEvent(client.agencyId, 'sync.failed', {
+        clientAccountId: clientId,
+        syncJobId: syncJob.id,
+        trigger,
+        recordsProcessed,
+        error: errorMessage,
+      });
+
       // Re-throw so caller knows sync failed
       throw error;
     }
@@ -0,0 +1,347 @@
+import { db } from '@/db/index.js';
+import { auctionInsights, competitors, competitorAlerts } from '@/db/schema.js';
+import { eq, and, desc } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import { average, selectLeastGranularRows, type AuctionInsightRow } from './competitor.service.js';
+
+const alertLogger = logger.child({ module: 'competitor-alert-service' });
+
+// ============================================================================
+// THRESHOLDS (percentage points)
+// ============================================================================
+
+/** A competitor absent from the previous range that now overlaps in at least this share of auctions */
+export const NEW_COMPETITOR_OVERLAP_THRESHOLD = 20;
+
+/** Minimum change in outranking share between successive ranges */
+export const OUTRANKING_SHARE_CHANGE_THRESHOLD = 15;
+
+/** Minimum rise in our own impression share lost to rank between successive ranges */
+export const LOST_IS_RANK_INCREASE_THRESHOLD = 10;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CompetitorAlertType = 'new_competitor' | 'outranking_share_change' | 'lost_is_rank_increase';
+export type CompetitorAlertStatus = 'open' | 'acknowledged' | 'dismissed';
+
+export interface CompetitorAlert {
+  id: string;
+  clientAccountId: string;
+  competitorId: string | null;
+  competitorDomain: string | null;
+  alertType: CompetitorAlertType;
+  status: CompetitorAlertStatus;
+  dateRangeStart: string;
+  dateRangeEnd: string;
+  previousDateRangeEnd: string | null;
+  metricName: string;
+  previousValue: number | null;
+  currentValue: number | null;
+  message: string;
+  statusChangedBy: string | null;
+  statusChangedAt: Date | null;
+  createdAt: Date | null;
+}
+
+interface RangeMetrics {
+  overlapRate: number | null;
+  outrankingShare: number | null;
+  lostImpressionShareRank: number | null;
+}
+
+interface RangeSnapshot {
+  start: string;
+  end: string;
+  own: RangeMetrics | null;
+  competitors: Map<string, RangeMetrics>;
+}
+
+type NewAlert = typeof competitorAlerts.$inferInsert;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toNumber(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+function summarize(rows: AuctionInsightRow[]): RangeMetrics {
+  const levelRows = selectLeastGranularRows(rows);
+  return {
+    overlapRate: toNumber(average(levelRows.map((r) => r.overlapRate))),
+    outrankingShare: toNumber(average(levelRows.map((r) => r.outrankingShare))),
+    lostImpressionShareRank: toNumber(average(levelRows.map((r) => r.lostImpressionShareRank))),
+  };
+}
+
+/**
+ * Collapse auction insights rows into one snapshot per uploaded date range, oldest first
+ */
+function buildRangeSnapshots(rows: AuctionInsightRow[]): RangeSnapshot[] {
+  const byRange = new Map<string, { start: string; end: string; own: AuctionInsightRow[]; competitors: Map<string, AuctionInsightRow[]> }>();
+
+  for (const row of rows) {
+    const key = `${row.dateRangeStart}_${row.dateRangeEnd}`;
+    const range = byRange.get(key) ?? {
+      start: row.dateRangeStart,
+      end: row.dateRangeEnd,
+      own: [],
+      competitors: new Map<string, AuctionInsightRow[]>(),
+    };
+
+    if (row.isOwnAccount) {
+      range.own.push(row);
+    } else {
+      const domain = row.competitorDomain.trim().toLowerCase();
+      const domainRows = range.competitors.get(domain) ?? [];
+      domainRows.push(row);
+      range.competitors.set(domain, domainRows);
+    }
+
+    byRange.set(key, range);
+  }
+
+  return Array.from(byRange.values())
+    .sort((a, b) => a.end.localeCompare(b.end) || a.start.localeCompare(b.start))
+    .map((range) => ({
+      start: range.start,
+      end: range.end,
+      own: range.own.length > 0 ? summarize(range.own) : null,
+      competitors: new Map(
+        Array.from(range.competitors.entries()).map(([domain, domainRows]) => [domain, summarize(domainRows)])
+      ),
+    }));
+}
+
+function alertKey(alertType: string, competitorId: string | null, dateRangeEnd: string): string {
+  return `${alertType}|${competitorId ?? 'own'}|${dateRangeEnd}`;
+}
+
+function formatPoints(value: number): string {
+  return `${value.toFixed(1)}%`;
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Compare each auction insights date range with the one before it and raise
+ * alerts for significant competitive shifts. Already-raised alerts are not
+ * duplicated, so this is safe to run after every import.
+ * Returns the number of new alerts created.
+ */
+export async function detectCompetitorAlerts(clientId: string): Promise<number> {
+  const rows = await db
+    .select()
+    .from(auctionInsights)
+    .where(eq(auctionInsights.clientAccountId, clientId));
+
+  const snapshots = buildRangeSnapshots(rows);
+  if (snapshots.length < 2) {
+    alertLogger.debug({ clientId, ranges: snapshots.length }, 'Not enough date ranges for competitor alerting');
+    return 0;
+  }
+
+  const trackedCompetitors = await db
+    .select({ id: competitors.id, domain: competitors.competitorDomain, isActive: competitors.isActive })
+    .from(competitors)
+    .where(eq(competitors.clientAccountId, clientId));
+
+  // Hidden (inactive) competitors don't raise alerts
+  const competitorIdByDomain = new Map(
+    trackedCompetitors.filter((c) => c.isActive).map((c) => [c.domain.toLowerCase(), c.id])
+  );
+
+  const existing = await db
+    .select({
+      alertType: competitorAlerts.alertType,
+      competitorId: competitorAlerts.competitorId,
+      dateRangeEnd: competitorAlerts.dateRangeEnd,
+    })
+    .from(competitorAlerts)
+    .where(eq(competitorAlerts.clientAccountId, clientId));
+
+  const seen = new Set(existing.map((a) => alertKey(a.alertType, a.competitorId, a.dateRangeEnd)));
+  const newAlerts: NewAlert[] = [];
+
+  const pushAlert = (alert: NewAlert) => {
+    const key = alertKey(alert.alertType, alert.competitorId ?? null, alert.dateRangeEnd);
+    if (seen.has(key)) return;
+    seen.add(key);
+    newAlerts.push(alert);
+  };
+
+  for (let i = 1; i < snapshots.length; i++) {
+    const previous = snapshots[i - 1];
+    const current = snapshots[i];
+    const base = {
+      clientAccountId: clientId,
+      dateRangeStart: current.start,
+      dateRangeEnd: current.end,
+      previousDateRangeEnd: previous.end,
+    };
+
+    for (const [domain, metrics] of current.competitors) {
+      const competitorId = competitorIdByDomain.get(domain);
+      if (!competitorId) continue;
+
+      const prior = previous.competitors.get(domain);
+
+      if (!prior && metrics.overlapRate !== null && metrics.overlapRate >= NEW_COMPETITOR_OVERLAP_THRESHOLD) {
+        pushAlert({
+          ...base,
+          competitorId,
+          alertType: 'new_competitor',
+          metricName: 'overlap_rate',
+          previousValue: null,
+          currentValue: metrics.overlapRate.toFixed(2),
+          message: `New competitor ${domain} entered your auctions with a ${formatPoints(metrics.overlapRate)} overlap rate`,
+        });
+      }
+
+      if (prior && prior.outrankingShare !== null && metrics.outrankingShare !== null) {
+        const delta = metrics.outrankingShare - prior.outrankingShare;
+        if (Math.abs(delta) >= OUTRANKING_SHARE_CHANGE_THRESHOLD) {
+          pushAlert({
+            ...base,
+            competitorId,
+            alertType: 'outranking_share_change',
+            metricName: 'outranking_share',
+            previousValue: prior.outrankingShare.toFixed(2),
+            currentValue: metrics.outrankingShare.toFixed(2),
+            message:
+              `Outranking share against ${domain} ${delta > 0 ? 'rose' : 'fell'} ` +
+              `${Math.abs(delta).toFixed(1)} points (${formatPoints(prior.outrankingShare)} → ${formatPoints(metrics.outrankingShare)})`,
+          });
+        }
+      }
+    }
+
+    const priorRank = previous.own?.lostImpressionShareRank ?? null;
+    const currentRank = current.own?.lostImpressionShareRank ?? null;
+    if (priorRank !== null && currentRank !== null && currentRank - priorRank >= LOST_IS_RANK_INCREASE_THRESHOLD) {
+      pushAlert({
+        ...base,
+        competitorId: null,
+        alertType: 'lost_is_rank_increase',
+        metricName: 'lost_impression_share_rank',
+        previousValue: priorRank.toFixed(2),
+        currentValue: currentRank.toFixed(2),
+        message:
+          `Impression share lost to rank rose ${(currentRank - priorRank).toFixed(1)} points ` +
+          `(${formatPoints(priorRank)} → ${formatPoints(currentRank)})`,
+      });
+    }
+  }
+
+  if (newAlerts.length > 0) {
+    await db.insert(competitorAlerts).values(newAlerts);
+  }
+
+  alertLogger.info({ clientId, ranges: snapshots.length, created: newAlerts.length }, 'Competitor alert detection complete');
+
+  return newAlerts.length;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+const alertSelection = {
+  id: competitorAlerts.id,
+  clientAccountId: competitorAlerts.clientAccountId,
+  competitorId: competitorAlerts.competitorId,
+  competitorDomain: competitors.competitorDomain,
+  alertType: competitorAlerts.alertType,
+  status: competitorAlerts.status,
+  dateRangeStart: competitorAlerts.dateRangeStart,
+  dateRangeEnd: competitorAlerts.dateRangeEnd,
+  previousDateRangeEnd: competitorAlerts.previousDateRangeEnd,
+  metricName: competitorAlerts.metricName,
+  previousValue: competitorAlerts.previousValue,
+  currentValue: competitorAlerts.currentValue,
+  message: competitorAlerts.message,
+  statusChangedBy: competitorAlerts.statusChangedBy,
+  statusChangedAt: competitorAlerts.statusChangedAt,
+  createdAt: competitorAlerts.createdAt,
+};
+
+function toAlert(row: { previousValue: string | null; currentValue: string | null }): CompetitorAlert {
+  return {
+    ...row,
+    previousValue: toNumber(row.previousValue),
+    currentValue: toNumber(row.currentValue),
+  } as CompetitorAlert;
+}
+
+/**
+ * List alerts for a client, newest date range first
+ */
+export async function listClientAlerts(
+  clientId: string,
+  options: { status?: CompetitorAlertStatus; limit?: number } = {}
+): Promise<CompetitorAlert[]> {
+  const conditions = [eq(competitorAlerts.clientAccountId, clientId)];
+  if (options.status) {
+    conditions.push(eq(competitorAlerts.status, options.status));
+  }
+
+  const rows = await db
+    .select(alertSelection)
+    .from(competitorAlerts)
+    .leftJoin(competitors, eq(competitorAlerts.competitorId, competitors.id))
+    .where(and(...conditions))
+    .orderBy(desc(competitorAlerts.dateRangeEnd), desc(competitorAlerts.createdAt))
+    .limit(options.limit ?? 100);
+
+  return rows.map(toAlert);
+}
+
+/**
+ * List alerts for a single competitor, newest date range first
+ */
+export async function listCompetitorAlerts(
+  competitorId: string,
+  options: { status?: CompetitorAlertStatus } = {}
+): Promise<CompetitorAlert[]> {
+  const conditions = [eq(competitorAlerts.competitorId, competitorId)];
+  if (options.status) {
+    conditions.push(eq(competitorAlerts.status, options.status));
+  }
+
+  const rows = await db
+    .select(alertSelection)
+    .from(competitorAlerts)
+    .leftJoin(competitors, eq(competitorAlerts.competitorId, competitors.id))
+    .where(and(...conditions))
+    .orderBy(desc(competitorAlerts.dateRangeEnd), desc(competitorAlerts.createdAt));
+
+  return rows.map(toAlert);
+}
+
+/**
+ * Update alert status (acknowledge / dismiss / reopen)
+ */
+export async function updateAlertStatus(
+  alertId: string,
+  status: CompetitorAlertStatus,
+  userId: string
+) {
+  const [updated] = await db
+    .update(competitorAlerts)
+    .set({
+      status,
+      statusChangedBy: userId,
+      statusChangedAt: new Date(),
+    })
+    .where(eq(competitorAlerts.id, alertId))
+    .returning();
+
+  alertLogger.info({ alertId, status, userId }, 'Competitor alert status updated');
+
+  return updated;
+}
@@ -1,7 +1,261 @@
-export async function discoverCompetitors(_clientId: string) {
-  return [];
+import { db } from '@/db/index.js';
+import { auctionInsights, competitors, competitorMetrics } from '@/db/schema.js';
+import { eq, and, asc, desc, gte, inArray } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+
+const competitorLogger = logger.child({ module: 'competitor-service' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CompetitorMetricPoint {
+  date: string;
+  impressionShare: number | null;
+  overlapRate: number | null;
+  positionAboveRate: number | null;
+  topOfPageRate: number | null;
+  outrankingShare: number | null;
+}
+
+export interface CompetitorWithLatestMetrics {
+  id: string;
+  clientAccountId: string;
+  competitorDomain: string;
+  detectedVia: string | null;
+  firstSeenAt: Date | null;
+  lastSeenAt: Date | null;
+  isActive: boolean | null;
+  createdAt: Date | null;
+  latestMetrics: CompetitorMetricPoint | null;
+}
+
+export interface DiscoverCompetitorsResult {
+  competitorsUpserted: number;
+  metricsUpserted: number;
+}
+
+export type AuctionInsightRow = typeof auctionInsights.$inferSelect;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toNumber(value: string | null): number | null {
+  if (value === null || value === undefined) return null;
+  const num = parseFloat(value);
+  return isNaN(num) ? null : num;
+}
+
+export function average(values: (string | null)[]): string | null {
+  const nums = values.map(toNumber).filter((v): v is number => v !== null);
+  if (nums.length === 0) return null;
+  return (nums.reduce((sum, v) => sum + v, 0) / nums.length).toFixed(2);
+}
+
+/**
+ * Auction insights can be uploaded at account, campaign, ad group or keyword
+ * level. For the competitor timeseries we want one value per date range, so
+ * prefer the least granular rows available and average within that level.
+ */
+export function selectLeastGranularRows(rows: AuctionInsightRow[]): AuctionInsightRow[] {
+  const levels: ((row: AuctionInsightRow) => boolean)[] = [
+    (row) => !row.campaignName && !row.adGroupName && !row.keyword,
+    (row) => !!row.campaignName && !row.adGroupName && !row.keyword,
+    (row) => !!row.adGroupName && !row.keyword,
+  ];
+
+  for (const matchesLevel of levels) {
+    const matched = rows.filter(matchesLevel);
+    if (matched.length > 0) return matched;
+  }
+
+  return rows;
+}
+
+function toMetricPoint(row: typeof competitorMetrics.$inferSelect): CompetitorMetricPoint {
+  return {
+    date: row.date,
+    impressionShare: toNumber(row.impressionShare),
+    overlapRate: toNumber(row.overlapRate),
+    positionAboveRate: toNumber(row.positionAboveRate),
+    topOfPageRate: toNumber(row.topOfPageRate),
+    outrankingShare: toNumber(row.outrankingShare),
+  };
 }
 
-export async function fetchCompetitorMetrics(_competitorId: string) {
-  return null;
+// ============================================================================
+// DISCOVERY
+// ============================================================================
+
+/**
+ * Populate competitors and competitor_metrics from the client's auction insights.
+ * Each auction insights date range becomes one metrics point, keyed by the range end date.
+ * Safe to re-run: competitors and metrics are upserted.
+ */
+export async function discoverCompetitors(clientId: string): Promise<DiscoverCompetitorsResult> {
+  const rows = await db
+    .select()
+    .from(auctionInsights)
+    .where(and(
+      eq(auctionInsights.clientAccountId, clientId),
+      eq(auctionInsights.isOwnAccount, false)
+    ));
+
+  if (rows.length === 0) {
+    competitorLogger.debug({ clientId }, 'No auction insights found for competitor discovery');
+    return { competitorsUpserted: 0, metricsUpserted: 0 };
+  }
+
+  // Group rows by domain, then by date range end
+  const byDomain = new Map<string, Map<string, AuctionInsightRow[]>>();
+  for (const row of rows) {
+    const domain = row.competitorDomain.trim().toLowerCase();
+    if (!domain) continue;
+
+    const byDate = byDomain.get(domain) ?? new Map<string, AuctionInsightRow[]>();
+    const dateRows = byDate.get(row.dateRangeEnd) ?? [];
+    dateRows.push(row);
+    byDate.set(row.dateRangeEnd, dateRows);
+    byDomain.set(domain, byDate);
+  }
+
+  let competitorsUpserted = 0;
+  let metricsUpserted = 0;
+
+  for (const [domain, byDate] of byDomain) {
+    const dates = Array.from(byDate.keys()).sort();
+    const startDates = Array.from(byDate.values()).flat().map((r) => r.dateRangeStart).sort();
+    const firstSeenAt = new Date(startDates[0]);
+    const lastSeenAt = new Date(dates[dates.length - 1]);
+
+    const [competitor] = await db
+      .insert(competitors)
+      .values({
+        clientAccountId: clientId,
+        competitorDomain: domain,
+        detectedVia: 'auction_insights',
+        firstSeenAt,
+        lastSeenAt,
+      })
+      .onConflictDoUpdate({
+        target: [competitors.clientAccountId, competitors.competitorDomain],
+        set: { lastSeenAt },
+      })
+      .returning({ id: competitors.id });
+
+    competitorsUpserted++;
+
+    for (const date of dates) {
+      const levelRows = selectLeastGranularRows(byDate.get(date)!);
+      const values = {
+        impressionShare: average(levelRows.map((r) => r.impressionShare)),
+        overlapRate: average(levelRows.map((r) => r.overlapRate)),
+        positionAboveRate: average(levelRows.map((r) => r.positionAboveRate)),
+        topOfPageRate: average(levelRows.map((r) => r.topOfPageRate)),
+        outrankingShare: average(levelRows.map((r) => r.outrankingShare)),
+      };
+
+      await db
+        .insert(competitorMetrics)
+        .values({ competitorId: competitor.id, date, ...values })
+        .onConflictDoUpdate({
+          target: [competitorMetrics.competitorId, competitorMetrics.date],
+          set: values,
+        });
+
+      metricsUpserted++;
+    }
+  }
+
+  competitorLogger.info(
+    { clientId, competitorsUpserted, metricsUpserted },
+    'Competitor discovery complete'
+  );
+
+  return { competitorsUpserted, metricsUpserted };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get the metrics timeseries for a competitor, oldest first.
+ * Optionally limited to points on or after `since` (YYYY-MM-DD).
+ */
+export async function fetchCompetitorMetrics(
+  competitorId: string,
+  since?: string
+): Promise<CompetitorMetricPoint[]> {
+  const conditions = [eq(competitorMetrics.competitorId, competitorId)];
+  if (since) {
+    conditions.push(gte(competitorMetrics.date, since));
+  }
+
+  const rows = await db
+    .select()
+    .from(competitorMetrics)
+    .where(and(...conditions))
+    .orderBy(asc(competitorMetrics.date));
+
+  return rows.map(toMetricPoint);
+}
+
+/**
+ * List a client's competitors with their most recent metrics point.
+ */
+export async function listCompetitors(
+  clientId: string,
+  options: { includeInactive?: boolean } = {}
+): Promise<CompetitorWithLatestMetrics[]> {
+  const conditions = [eq(competitors.clientAccountId, clientId)];
+  if (!options.includeInactive) {
+    conditions.push(eq(competitors.isActive, true));
+  }
+
+  const rows = await db
+    .select()
+    .from(competitors)
+    .where(and(...conditions))
+    .orderBy(asc(competitors.competitorDomain));
+
+  if (rows.length === 0) return [];
+
+  const metrics = await db
+    .select()
+    .from(competitorMetrics)
+    .where(inArray(competitorMetrics.competitorId, rows.map((r) => r.id)))
+    .orderBy(desc(competitorMetrics.date));
+
+  const latestByCompetitor = new Map<string, CompetitorMetricPoint>();
+  for (const metric of metrics) {
+    if (!latestByCompetitor.has(metric.competitorId)) {
+      latestByCompetitor.set(metric.competitorId, toMetricPoint(metric));
+    }
+  }
+
+  return rows.map((row) => ({
+    ...row,
+    latestMetrics: latestByCompetitor.get(row.id) ?? null,
+  }));
+}
+
+/**
+ * Get the metrics timeseries for every active competitor of a client,
+ * grouped by domain. Used by the competitor dashboard charts.
+ */
+export async function getClientCompetitorTimeseries(
+  clientId: string,
+  since?: string
+): Promise<{ competitorId: string; competitorDomain: string; metrics: CompetitorMetricPoint[] }[]> {
+  const clientCompetitors = await listCompetitors(clientId);
+
+  return Promise.all(
+    clientCompetitors.map(async (competitor) => ({
+      competitorId: competitor.id,
+      competitorDomain: competitor.competitorDomain,
+      metrics: await fetchCompetitorMetrics(competitor.id, since),
+    }))
+  );
 }
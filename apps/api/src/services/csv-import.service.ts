@@ -12,6 +12,7 @@ import {
 } from '@/db/schema.js';
 import { eq, and } from 'drizzle-orm';
 import { logger } from '@/utils/logger.js';
+import { emitClientWebhookEvent } from '@/services/webhook.service.js';
 import {
   detectGoogleAdsReportType,
   parseDateRangeFromFilename,
@@ -33,6 +34,8 @@ import {
 } from '@/utils/csv-column-mapper.js';
 import { normalizeQuery, hashQuery } from '@/services/query-matcher.service.js';
 import { generateInterplayReport, hasExistingReports } from '@/services/interplay-report/index.js';
+import { discoverCompetitors } from '@/services/competitor.service.js';
+import { detectCompetitorAlerts } from '@/services/competitor-alert.service.js';
 
 // ============================================================================
 // TYPES
@@ -158,6 +161,15 @@ export async function processUploadSession(
     'Upload session complete'
   );
 
+  await emitClientWebhookEvent(clientAccountId, 'csv_upload.processed', {
+    sessionId,
+    totalFiles: result.totalFiles,
+    imported: result.imported.map((file) => ({ fileName: file.fileName, fileType: file.fileType, rowCount: file.rowCount })),
+    skipped: result.skipped.length,
+    failed: result.failed.map((file) => ({ fileName: file.fileName, error: file.error })),
+    dateRange: result.dateRange,
+  });
+
   // Check if Tier 1 data was uploaded - this enables AI report generation
   // Per Phase 4 spec, CSV uploads should auto-trigger report generation
   // when Tier 1 data is first uploaded
@@ -411,6 +423,16 @@ async function importAuctionInsights(
   }
 
   await createUploadRecord(clientAccountId, sessionId, file, 'auction_insights', 'completed', uploadedBy, rowCount, dateRange);
+
+  // Refresh tracked competitors and alerts from the newly imported rows.
+  // Failure here shouldn't fail the upload - discovery can be re-run from the competitors API.
+  try {
+    await discoverCompetitors(clientAccountId);
+    await detectCompetitorAlerts(clientAccountId);
+  } catch (error) {
+    logger.error({ error, clientAccountId, sessionId }, 'Competitor discovery failed after auction insights import');
+  }
+
   return { rowCount };
 }
 
@@ -0,0 +1,48 @@
+/**
+ * Fixture-aware fetch
+ *
+ * Drop-in replacement for fetch() on pipeline page requests. Passes through
+ * when no session is active.
+ */
+
+import { getFixtureSession } from './session.js';
+
+// Statuses the Response constructor refuses a body for
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+function toResponse(status: number, contentType: string | null, body: string): Response {
+  return new Response(NULL_BODY_STATUSES.has(status) ? null : body, {
+    status,
+    headers: contentType ? { 'Content-Type': contentType } : undefined,
+  });
+}
+
+export async function fixtureFetch(url: string, init?: RequestInit): Promise<Response> {
+  const session = getFixtureSession();
+  if (!session) {
+    return fetch(url, init);
+  }
+
+  if (session.mode === 'replay') {
+    const page = session.replayPage(url);
+    if ('error' in page) {
+      throw new Error(page.error);
+    }
+    return toResponse(page.status, page.contentType, page.body);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    // Record failures too, so replay takes the same path through the researcher
+    session.recordPage({ url, error: error instanceof Error ? error.message : 'Unknown error' });
+    throw error;
+  }
+
+  const body = await response.text();
+  const contentType = response.headers.get('content-type');
+  session.recordPage({ url, status: response.status, contentType, body });
+
+  return toResponse(response.status, contentType, body);
+}
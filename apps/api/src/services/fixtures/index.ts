@@ -0,0 +1,27 @@
+/**
+ * Fixtures Service - Public API
+ *
+ * Record/replay of LLM calls, fetched pages and database inputs, so the
+ * report pipeline can run offline with deterministic output.
+ */
+
+export {
+  FixtureSession,
+  createFixtureSession,
+  getFixtureSession,
+  runWithFixtures,
+  runWithConfiguredFixtures,
+  type FixtureSessionOptions,
+} from './session.js';
+export { fixtureFetch } from './fetch.js';
+export { fixtureInput } from './input.js';
+
+export {
+  FixtureMissError,
+  FIXTURE_BUNDLE_VERSION,
+  type FixtureMode,
+  type FixtureBundle,
+  type RecordedInput,
+  type RecordedLLMCall,
+  type RecordedPage,
+} from './types.js';
@@ -0,0 +1,26 @@
+/**
+ * Fixture-aware inputs
+ *
+ * Wraps a database read the report pipeline depends on. Passes through when
+ * no session is active; records the loaded value or replays it otherwise.
+ */
+
+import { getFixtureSession } from './session.js';
+
+/**
+ * Load a pipeline input under a key that identifies it within one run
+ * (e.g. 'clientContext:<id>'). Replay throws FixtureMissError for an
+ * unrecorded key rather than falling back to the database.
+ */
+export async function fixtureInput<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const session = getFixtureSession();
+  if (!session) {
+    return load();
+  }
+
+  if (session.mode === 'replay') {
+    return session.replayInput(key) as T;
+  }
+
+  return session.recordInput(key, await load());
+}
@@ -0,0 +1,226 @@
+/**
+ * Fixture Sessions
+ *
+ * A session records or replays one run. It is carried through async calls
+ * with AsyncLocalStorage, so the LLM client and page fetcher find it without
+ * it being threaded through every agent.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { config } from '@/config/index.js';
+import { logger } from '@/utils/logger.js';
+import type { LLMAgent, LLMResponse } from '@/services/llm/types.js';
+import {
+  FIXTURE_BUNDLE_VERSION,
+  FixtureMissError,
+  type FixtureBundle,
+  type RecordedInput,
+  type RecordedLLMCall,
+  type RecordedPage,
+} from './types.js';
+
+const fixtureLogger = logger.child({ module: 'fixtures' });
+
+const sessionStorage = new AsyncLocalStorage<FixtureSession>();
+
+function llmCallKey(agent: LLMAgent, prompt: string): string {
+  return createHash('sha256').update(`${agent}\n${prompt}`).digest('hex');
+}
+
+// ============================================================================
+// SESSION
+// ============================================================================
+
+export interface FixtureSessionOptions {
+  /**
+   * Replay a prompt that no longer matches any recording with the next
+   * unused call for the same agent, instead of failing
+   */
+  allowPromptDrift?: boolean;
+}
+
+export class FixtureSession {
+  private consumedCalls = new Set<number>();
+  private pagesByUrl: Map<string, RecordedPage>;
+
+  constructor(
+    readonly mode: 'record' | 'replay',
+    readonly bundlePath: string,
+    private bundle: FixtureBundle,
+    private options: FixtureSessionOptions = {}
+  ) {
+    this.pagesByUrl = new Map(bundle.pages.map((page) => [page.url, page]));
+  }
+
+  /**
+   * Replay an LLM call. Calls are matched by agent + prompt and consumed in
+   * recorded order, so retried calls replay their original sequence. A prompt
+   * that matches no recording has drifted from the bundle and fails the
+   * replay, unless the session allows drift.
+   */
+  replayLLMCall(agent: LLMAgent, prompt: string): LLMResponse {
+    const key = llmCallKey(agent, prompt);
+    const calls = this.bundle.llmCalls;
+
+    let index = calls.findIndex((call, i) => call.key === key && !this.consumedCalls.has(i));
+    if (index === -1) {
+      // Every match consumed: keep answering with the last one
+      index = calls.map((call) => call.key).lastIndexOf(key);
+    }
+    if (index === -1) {
+      if (!this.options.allowPromptDrift) {
+        throw new FixtureMissError(
+          `Prompt for agent '${agent}' does not match any recorded call in ${this.bundlePath} (prompt drift)`
+        );
+      }
+      index = calls.findIndex((call, i) => call.agent === agent && !this.consumedCalls.has(i));
+      if (index !== -1) {
+        fixtureLogger.warn(
+          { agent, bundlePath: this.bundlePath },
+          'Prompt not found in fixture bundle, replaying next recorded call for agent'
+        );
+      }
+    }
+    if (index === -1) {
+      throw new FixtureMissError(`No recorded LLM call for agent '${agent}' in ${this.bundlePath}`);
+    }
+
+    this.consumedCalls.add(index);
+    return { text: calls[index].text, usage: calls[index].usage };
+  }
+
+  recordLLMCall(call: Omit<RecordedLLMCall, 'key'>): void {
+    this.bundle.llmCalls.push({ key: llmCallKey(call.agent, call.prompt), ...call });
+  }
+
+  replayPage(url: string): RecordedPage {
+    const page = this.pagesByUrl.get(url);
+    if (!page) {
+      throw new FixtureMissError(`No recorded page for ${url} in ${this.bundlePath}`);
+    }
+    return page;
+  }
+
+  recordPage(page: RecordedPage): void {
+    this.pagesByUrl.set(page.url, page);
+  }
+
+  replayInput(key: string): unknown {
+    if (!Object.prototype.hasOwnProperty.call(this.bundle.inputs, key)) {
+      throw new FixtureMissError(`No recorded input '${key}' in ${this.bundlePath}`);
+    }
+    return this.bundle.inputs[key].value;
+  }
+
+  /**
+   * Store a loaded value, returning it as replay will see it (JSON round-tripped)
+   */
+  recordInput<T>(key: string, value: T): T {
+    const recorded = JSON.parse(JSON.stringify({ value })) as RecordedInput;
+    this.bundle.inputs[key] = recorded;
+    return recorded.value as T;
+  }
+
+  /**
+   * Write the recorded bundle to disk
+   */
+  async save(): Promise<void> {
+    if (this.mode !== 'record') return;
+
+    // A re-fetched URL keeps its latest response
+    const bundle: FixtureBundle = {
+      ...this.bundle,
+      recordedAt: new Date().toISOString(),
+      pages: Array.from(this.pagesByUrl.values()),
+    };
+
+    await fs.mkdir(path.dirname(this.bundlePath), { recursive: true });
+    await fs.writeFile(this.bundlePath, JSON.stringify(bundle, null, 2), 'utf-8');
+
+    fixtureLogger.info(
+      {
+        bundlePath: this.bundlePath,
+        llmCalls: bundle.llmCalls.length,
+        pages: bundle.pages.length,
+        inputs: Object.keys(bundle.inputs).length,
+      },
+      'Fixture bundle saved'
+    );
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Start a session. Replay loads the bundle from bundlePath; record starts empty.
+ */
+export async function createFixtureSession(
+  mode: 'record' | 'replay',
+  bundlePath: string,
+  options: FixtureSessionOptions = {}
+): Promise<FixtureSession> {
+  const resolvedPath = path.resolve(bundlePath);
+
+  if (mode === 'record') {
+    return new FixtureSession(mode, resolvedPath, {
+      version: FIXTURE_BUNDLE_VERSION,
+      recordedAt: new Date().toISOString(),
+      llmCalls: [],
+      pages: [],
+      inputs: {},
+    });
+  }
+
+  const bundle = JSON.parse(await fs.readFile(resolvedPath, 'utf-8')) as FixtureBundle;
+  if (bundle.version !== FIXTURE_BUNDLE_VERSION) {
+    throw new Error(
+      `Unsupported fixture bundle version ${bundle.version} in ${resolvedPath} (expected ${FIXTURE_BUNDLE_VERSION})`
+    );
+  }
+
+  fixtureLogger.info(
+    {
+      bundlePath: resolvedPath,
+      llmCalls: bundle.llmCalls.length,
+      pages: bundle.pages.length,
+      inputs: Object.keys(bundle.inputs).length,
+    },
+    'Fixture bundle loaded for replay'
+  );
+  return new FixtureSession(mode, resolvedPath, bundle, options);
+}
+
+/**
+ * The session for the current async context, if any
+ */
+export function getFixtureSession(): FixtureSession | undefined {
+  return sessionStorage.getStore();
+}
+
+/**
+ * Run fn inside a session. A recording session is saved once fn succeeds.
+ */
+export async function runWithFixtures<T>(session: FixtureSession, fn: () => Promise<T>): Promise<T> {
+  const result = await sessionStorage.run(session, fn);
+  await session.save();
+  return result;
+}
+
+/**
+ * Run fn under REPORT_FIXTURE_MODE. No-op when the mode is off or a session
+ * is already active (e.g. a test opened one explicitly).
+ */
+export async function runWithConfiguredFixtures<T>(fn: () => Promise<T>): Promise<T> {
+  const { mode, path: bundlePath, allowPromptDrift } = config.reportFixtures;
+  if (mode === 'off' || getFixtureSession()) {
+    return fn();
+  }
+
+  const session = await createFixtureSession(mode, bundlePath, { allowPromptDrift });
+  return runWithFixtures(session, fn);
+}
@@ -0,0 +1,55 @@
+/**
+ * Fixture Bundle Types
+ *
+ * A bundle holds everything the report pipeline reads during a run: LLM
+ * responses, fetched pages and the database inputs (client context, report
+ * data, the pinned date range), so a replay never touches the database.
+ */
+
+import type { LLMAgent, LLMProviderName, TokenCounts } from '@/services/llm/types.js';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export const FIXTURE_BUNDLE_VERSION = 2;
+
+export interface RecordedLLMCall {
+  /** sha256 of agent + prompt, the replay lookup key */
+  key: string;
+  agent: LLMAgent;
+  provider: LLMProviderName;
+  model: string;
+  /** Kept so prompt drift shows up when diffing bundles */
+  prompt: string;
+  text: string;
+  usage: TokenCounts;
+}
+
+export type RecordedPage =
+  | { url: string; status: number; contentType: string | null; body: string }
+  | { url: string; error: string };
+
+/**
+ * A value the pipeline loaded, wrapped so an undefined result is still recorded
+ */
+export interface RecordedInput {
+  value?: unknown;
+}
+
+export interface FixtureBundle {
+  version: number;
+  recordedAt: string;
+  llmCalls: RecordedLLMCall[];
+  pages: RecordedPage[];
+  /** Keyed by what was loaded, e.g. 'clientContext:<id>' */
+  inputs: Record<string, RecordedInput>;
+}
+
+/**
+ * Replay asked for something the bundle does not contain
+ */
+export class FixtureMissError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FixtureMissError';
+  }
+}
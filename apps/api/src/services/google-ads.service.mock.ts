@@ -1,7 +1,7 @@
 import { readFileSync } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { GoogleAdsQuery } from './google-ads.service.js';
+import type { GoogleAdsQuery, KeywordCriterion, KeywordStatus, MutationOptions } from './google-ads.service.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -74,3 +74,187 @@ export async function fetchAuctionInsightsMock(
 ): Promise<any[]> {
   return [];
 }
+
+// ============================================================================
+// MUTATIONS (recommendation apply pipeline)
+// ============================================================================
+
+const MOCK_CUSTOMER_ID = '1234567890';
+
+/**
+ * A mutation recorded by the mock instead of being sent to Google Ads
+ */
+export interface MockMutationRecord {
+  operation: 'set_keyword_status' | 'update_keyword_bid' | 'add_negative_keyword' | 'remove_campaign_criterion';
+  clientAccountId: string;
+  resourceName: string;
+  payload: Record<string, unknown>;
+  validateOnly: boolean;
+  timestamp: string;
+}
+
+let mockKeywords: KeywordCriterion[] = [];
+let mockNegativeKeywords = new Map<string, { campaignId: string; keywordText: string }>();
+let mockMutationLog: MockMutationRecord[] = [];
+let nextNegativeCriterionId = 1;
+
+/**
+ * Seeds one enabled keyword per fixture search term so mutations have something to act on
+ */
+function seedMockKeywords(): KeywordCriterion[] {
+  return (fixture.searchTerms as any[]).map((term, index) => {
+    const campaignId = String(100 + index);
+    const adGroupId = String(1000 + index);
+    const cpcMicros = term.clicks > 0 ? Math.round(term.cost_micros / term.clicks) : 1_000_000;
+
+    return {
+      resourceName: `customers/${MOCK_CUSTOMER_ID}/adGroupCriteria/${adGroupId}~${2000 + index}`,
+      keywordText: term.query,
+      matchType: term.match_type || 'BROAD',
+      status: 'ENABLED' as const,
+      cpcBidMicros: cpcMicros,
+      campaignId,
+      campaignName: term.campaign_name || `Campaign ${campaignId}`,
+      adGroupId,
+      adGroupName: `Ad Group ${adGroupId}`,
+    };
+  });
+}
+
+mockKeywords = seedMockKeywords();
+
+function recordMockMutation(record: Omit<MockMutationRecord, 'timestamp'>) {
+  mockMutationLog.push({ ...record, timestamp: new Date().toISOString() });
+}
+
+function findMockKeyword(resourceName: string): KeywordCriterion {
+  const keyword = mockKeywords.find((k) => k.resourceName === resourceName);
+  if (!keyword) {
+    throw new Error(`Mock keyword criterion not found: ${resourceName}`);
+  }
+  return keyword;
+}
+
+/**
+ * Returns mock keyword criteria matching the keyword text exactly (case-insensitive)
+ */
+export async function findKeywordCriteriaMock(
+  _clientAccountId: string,
+  keywordText: string
+): Promise<KeywordCriterion[]> {
+  const target = keywordText.trim().toLowerCase();
+  return mockKeywords
+    .filter((k) => k.keywordText.toLowerCase() === target)
+    .map((k) => ({ ...k }));
+}
+
+/**
+ * Updates mock keyword status
+ */
+export async function setKeywordStatusMock(
+  clientAccountId: string,
+  resourceName: string,
+  status: KeywordStatus,
+  options: MutationOptions = {}
+): Promise<void> {
+  const keyword = findMockKeyword(resourceName);
+  if (!options.validateOnly) {
+    keyword.status = status;
+  }
+  recordMockMutation({
+    operation: 'set_keyword_status',
+    clientAccountId,
+    resourceName,
+    payload: { status },
+    validateOnly: options.validateOnly ?? false,
+  });
+}
+
+/**
+ * Updates mock keyword bid
+ */
+export async function updateKeywordBidMock(
+  clientAccountId: string,
+  resourceName: string,
+  cpcBidMicros: number,
+  options: MutationOptions = {}
+): Promise<void> {
+  const keyword = findMockKeyword(resourceName);
+  if (!options.validateOnly) {
+    keyword.cpcBidMicros = cpcBidMicros;
+  }
+  recordMockMutation({
+    operation: 'update_keyword_bid',
+    clientAccountId,
+    resourceName,
+    payload: { cpcBidMicros },
+    validateOnly: options.validateOnly ?? false,
+  });
+}
+
+/**
+ * Adds a mock campaign negative keyword
+ */
+export async function addCampaignNegativeKeywordMock(
+  clientAccountId: string,
+  campaignId: string,
+  keywordText: string,
+  options: MutationOptions = {}
+): Promise<string> {
+  const resourceName = options.validateOnly
+    ? ''
+    : `customers/${MOCK_CUSTOMER_ID}/campaignCriteria/${campaignId}~${9000 + nextNegativeCriterionId++}`;
+
+  if (!options.validateOnly) {
+    mockNegativeKeywords.set(resourceName, { campaignId, keywordText });
+  }
+  recordMockMutation({
+    operation: 'add_negative_keyword',
+    clientAccountId,
+    resourceName,
+    payload: { campaignId, keywordText, matchType: 'EXACT' },
+    validateOnly: options.validateOnly ?? false,
+  });
+
+  return resourceName;
+}
+
+/**
+ * Removes a mock campaign criterion
+ */
+export async function removeCampaignCriterionMock(
+  clientAccountId: string,
+  resourceName: string
+): Promise<void> {
+  if (!mockNegativeKeywords.delete(resourceName)) {
+    throw new Error(`Mock campaign criterion not found: ${resourceName}`);
+  }
+  recordMockMutation({
+    operation: 'remove_campaign_criterion',
+    clientAccountId,
+    resourceName,
+    payload: {},
+    validateOnly: false,
+  });
+}
+
+/**
+ * Inspect mock state (keywords, negatives and every recorded mutation)
+ */
+export function getMockGoogleAdsState() {
+  return {
+    keywords: mockKeywords.map((k) => ({ ...k })),
+    negativeKeywords: Array.from(mockNegativeKeywords.entries()).map(([resourceName, value]) => ({ resourceName, ...value })),
+    mutations: [...mockMutationLog],
+  };
+}
+
+/**
+ * Reset mock state back to the fixture seed
+ */
+export function resetMockGoogleAdsState(): void {
+  mockKeywords = seedMockKeywords();
+  mockNegativeKeywords = new Map();
+  mockMutationLog = [];
+  nextNegativeCriterionId = 1;
+}
@@ -1,4 +1,4 @@
-import { GoogleAdsApi } from 'google-ads-api';
+import { GoogleAdsApi, enums } from 'google-ads-api';
 import { db } from '@/db/index.js';
 import { clientAccounts } from '@/db/schema.js';
 import { eq } from 'drizzle-orm';
@@ -245,6 +245,185 @@ export async function getAuctionInsights(
   return [];
 }
 
+// ============================================================================
+// MUTATIONS (recommendation apply pipeline)
+// ============================================================================
+
+export type KeywordStatus = 'ENABLED' | 'PAUSED';
+
+export interface KeywordCriterion {
+  resourceName: string;
+  keywordText: string;
+  matchType: string;
+  status: KeywordStatus;
+  cpcBidMicros: number | null;
+  campaignId: string;
+  campaignName: string;
+  adGroupId: string;
+  adGroupName: string;
+}
+
+export interface MutationOptions {
+  /** Validate the request against the API without applying it */
+  validateOnly?: boolean;
+}
+
+/**
+ * Creates a Customer instance for mutations
+ */
+async function getCustomer(clientAccountId: string) {
+  const { client: googleAdsClient, customerId, refreshToken } = await getClient(clientAccountId);
+  return {
+    customerId,
+    customer: googleAdsClient.Customer({
+      customer_id: customerId,
+      refresh_token: refreshToken,
+    }),
+  };
+}
+
+/**
+ * Finds non-negative, non-removed keyword criteria whose text matches exactly
+ */
+export async function findKeywordCriteria(
+  clientAccountId: string,
+  keywordText: string
+): Promise<KeywordCriterion[]> {
+  const { customer } = await getCustomer(clientAccountId);
+  const escaped = keywordText.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+
+  const query = `
+    SELECT
+      ad_group_criterion.resource_name,
+      ad_group_criterion.keyword.text,
+      ad_group_criterion.keyword.match_type,
+      ad_group_criterion.status,
+      ad_group_criterion.cpc_bid_micros,
+      campaign.id,
+      campaign.name,
+      ad_group.id,
+      ad_group.name
+    FROM ad_group_criterion
+    WHERE ad_group_criterion.type = 'KEYWORD'
+      AND ad_group_criterion.negative = FALSE
+      AND ad_group_criterion.status != 'REMOVED'
+      AND ad_group_criterion.keyword.text = '${escaped}'
+  `;
+
+  const results: KeywordCriterion[] = [];
+  const stream = customer.queryStream(query);
+
+  for await (const row of stream) {
+    const criterion = row.ad_group_criterion;
+    if (!criterion?.resource_name) continue;
+
+    results.push({
+      resourceName: criterion.resource_name,
+      keywordText: criterion.keyword?.text || keywordText,
+      matchType: enums.KeywordMatchType[criterion.keyword?.match_type as number] ?? 'UNKNOWN',
+      status: criterion.status === enums.AdGroupCriterionStatus.PAUSED ? 'PAUSED' : 'ENABLED',
+      cpcBidMicros: criterion.cpc_bid_micros ? Number(criterion.cpc_bid_micros) : null,
+      campaignId: String(row.campaign?.id || ''),
+      campaignName: row.campaign?.name || '',
+      adGroupId: String(row.ad_group?.id || ''),
+      adGroupName: row.ad_group?.name || '',
+    });
+  }
+
+  logger.debug({ clientAccountId, keywordText, matches: results.length }, 'Keyword criteria lookup complete');
+
+  return results;
+}
+
+/**
+ * Sets the status of a keyword criterion (pause or re-enable)
+ */
+export async function setKeywordStatus(
+  clientAccountId: string,
+  resourceName: string,
+  status: KeywordStatus,
+  options: MutationOptions = {}
+): Promise<void> {
+  const { customer } = await getCustomer(clientAccountId);
+
+  await customer.adGroupCriteria.update(
+    [{
+      resource_name: resourceName,
+      status: status === 'PAUSED' ? enums.AdGroupCriterionStatus.PAUSED : enums.AdGroupCriterionStatus.ENABLED,
+    }],
+    { validate_only: options.validateOnly ?? false }
+  );
+
+  logger.info({ clientAccountId, resourceName, status, validateOnly: options.validateOnly }, 'Keyword status updated');
+}
+
+/**
+ * Sets the max CPC bid of a keyword criterion
+ */
+export async function updateKeywordBid(
+  clientAccountId: string,
+  resourceName: string,
+  cpcBidMicros: number,
+  options: MutationOptions = {}
+): Promise<void> {
+  const { customer } = await getCustomer(clientAccountId);
+
+  await customer.adGroupCriteria.update(
+    [{
+      resource_name: resourceName,
+      cpc_bid_micros: cpcBidMicros,
+    }],
+    { validate_only: options.validateOnly ?? false }
+  );
+
+  logger.info({ clientAccountId, resourceName, cpcBidMicros, validateOnly: options.validateOnly }, 'Keyword bid updated');
+}
+
+/**
+ * Adds an exact-match negative keyword to a campaign.
+ * Returns the created criterion resource name (empty when validateOnly).
+ */
+export async function addCampaignNegativeKeyword(
+  clientAccountId: string,
+  campaignId: string,
+  keywordText: string,
+  options: MutationOptions = {}
+): Promise<string> {
+  const { customer, customerId } = await getCustomer(clientAccountId);
+
+  const response = await customer.campaignCriteria.create(
+    [{
+      campaign: `customers/${customerId}/campaigns/${campaignId}`,
+      negative: true,
+      keyword: {
+        text: keywordText,
+        match_type: enums.KeywordMatchType.EXACT,
+      },
+    }],
+    { validate_only: options.validateOnly ?? false }
+  );
+
+  const resourceName = response.results?.[0]?.resource_name || '';
+
+  logger.info({ clientAccountId, campaignId, keywordText, resourceName, validateOnly: options.validateOnly }, 'Campaign negative keyword added');
+
+  return resourceName;
+}
+
+/**
+ * Removes a campaign criterion (used to roll back a negative keyword)
+ */
+export async function removeCampaignCriterion(
+  clientAccountId: string,
+  resourceName: string
+): Promise<void> {
+  const { customer } = await getCustomer(clientAccountId);
+
+  await customer.campaignCriteria.remove([resourceName]);
+
+  logger.info({ clientAccountId, resourceName }, 'Campaign criterion removed');
+}
+
 /**
  * Main export for backwards compatibility
  * If USE_MOCK_GOOGLE_APIS=true, this will be overridden by the service factory
@@ -12,7 +12,8 @@
  */
 
 import { logger } from '@/utils/logger.js';
-import { callGenericAI } from '@/services/ai-analyzer.service.js';
+import { callLLM, extractJsonFromResponse } from '@/services/llm/index.js';
+import { FixtureMissError } from '@/services/fixtures/index.js';
 import { directorOutputSchema } from '../schemas.js';
 import { buildDirectorPrompt } from '../prompts/index.js';
 import type { SEMAgentOutput, SEOAgentOutput, DirectorOutput } from '../types.js';
@@ -22,6 +23,7 @@ import {
   extractFilteredSEMActions,
   extractFilteredSEOActions,
   type ConstraintValidationResult,
+  type ProgressTracker,
 } from '../utils/index.js';
 
 const directorLogger = logger.child({ module: 'director-agent' });
@@ -43,6 +45,8 @@ export interface DirectorAgentInput {
   seoOutput: SEOAgentOutput;
   skill: DirectorSkillDefinition;
   clientContext: DirectorAgentContext;
+  /** Receives constraint validation phase events */
+  progress?: ProgressTracker;
 }
 
 /**
@@ -65,41 +69,6 @@ export interface DirectorOutputWithMeta extends DirectorOutput {
   validationResult?: ConstraintValidationResult;
 }
 
-/**
- * Extracts JSON from an AI response that may contain markdown fences or leading prose.
- * Returns the extracted JSON string or null if no valid JSON structure is found.
- */
-function extractJsonFromResponse(response: string): string | null {
-  if (!response || typeof response !== 'string') {
-    return null;
-  }
-
-  const trimmed = response.trim();
-
-  // Try markdown code block extraction first (```json ... ``` or ``` ... ```)
-  const markdownMatch = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-  if (markdownMatch) {
-    const extracted = markdownMatch[1].trim();
-    if (extracted.startsWith('{') || extracted.startsWith('[')) {
-      return extracted;
-    }
-  }
-
-  // Try to find a JSON object in the response
-  const jsonObjectMatch = trimmed.match(/\{[\s\S]*\}/);
-  if (jsonObjectMatch) {
-    return jsonObjectMatch[0];
-  }
-
-  // Try to find a JSON array in the response
-  const jsonArrayMatch = trimmed.match(/\[[\s\S]*\]/);
-  if (jsonArrayMatch) {
-    return jsonArrayMatch[0];
-  }
-
-  return null;
-}
-
 /**
  * Safely parses and validates the AI response, with detailed error logging.
  * Returns the validated output or an error object.
@@ -189,7 +158,7 @@ function parseAndValidateResponse(
  * invalid recommendations from SEM/SEO agents.
  */
 export async function runDirectorAgent(input: DirectorAgentInput): Promise<DirectorOutputWithMeta> {
-  const { semOutput, seoOutput, skill, clientContext } = input;
+  const { semOutput, seoOutput, skill, clientContext, progress } = input;
 
   directorLogger.info(
     {
@@ -201,7 +170,12 @@ export async function runDirectorAgent(input: DirectorAgentInput): Promise<Direc
   );
 
   // Phase 6: Validate upstream constraints before synthesis
+  progress?.start('constraint_validation');
   const validationResult = validateUpstreamConstraints(semOutput, seoOutput, skill);
+  progress?.complete(
+    'constraint_validation',
+    `${validationResult.filteredCount} of ${validationResult.originalCount} actions kept, ${validationResult.violations.length} violations`
+  );
 
   // Log if violations were detected (indicates prompt weakness in upstream agents)
   if (validationResult.violations.length > 0) {
@@ -264,12 +238,14 @@ export async function runDirectorAgent(input: DirectorAgentInput): Promise<Direc
 
   let response: string;
   try {
-    response = await callGenericAI(prompt);
+    response = (await callLLM(prompt, { agent: 'director' })).text;
   } catch (error) {
     directorLogger.error(
       { error: error instanceof Error ? error.message : 'Unknown error' },
       'Director Agent: AI call failed'
     );
+    // A replay that no longer matches its bundle should say so, not read as an AI outage
+    if (error instanceof FixtureMissError) throw error;
     throw new Error('Director Agent failed to call AI service');
   }
 
@@ -2,7 +2,8 @@
  * Researcher Agent - Data Enrichment
  *
  * Enriches Scout findings with:
- * - SEM Track: Keyword-level competitive metrics from auction_insights
+ * - SEM Track: Keyword-level competitive metrics from auction_insights, and
+ *   the campaigns and ad groups each keyword ran in
  * - SEO Track: Page content (title, H1, meta description, word count)
  *
  * Supports skill-based configuration for business-type-aware content extraction
@@ -14,6 +15,7 @@ import { db } from '@/db/index.js';
 import { auctionInsights } from '@/db/schema.js';
 import { eq, and, isNull, gte, lte } from 'drizzle-orm';
 import { logger } from '@/utils/logger.js';
+import { fixtureFetch, fixtureInput } from '@/services/fixtures/index.js';
 import type {
   ScoutFindings,
   ResearcherData,
@@ -29,6 +31,8 @@ import type {
   PagePattern,
   PriorityBoost,
 } from '../skills/types.js';
+import type { ProgressTracker } from '../utils/progress.js';
+import { loadAdsEntityCatalog, entityNameKey, type AdsEntityCatalog } from '../utils/ads-entities.js';
 
 const researcherLogger = logger.child({ module: 'researcher-agent' });
 
@@ -43,6 +47,9 @@ const DEFAULT_DATA_QUALITY = {
   maxConcurrentFetches: 3,
 };
 
+/** Enough for the SEM agent to target the right ad groups without bloating the prompt */
+const MAX_AD_PLACEMENTS_PER_KEYWORD = 3;
+
 // ============================================================================
 // INPUT/OUTPUT TYPES
 // ============================================================================
@@ -52,6 +59,8 @@ export interface ResearcherInput {
   scoutFindings: ScoutFindings;
   dateRange: { start: string; end: string };
   skill?: ResearcherSkillDefinition;
+  /** Receives page N of M events while critical pages are fetched */
+  progress?: ProgressTracker;
 }
 
 export interface ExtendedPageContent extends PageContent {
@@ -86,7 +95,7 @@ export interface ResearcherOutput extends ResearcherData {
  * Uses business-type-aware content extraction.
  */
 export async function runResearcher(input: ResearcherInput): Promise<ResearcherOutput> {
-  const { clientAccountId, scoutFindings, dateRange, skill } = input;
+  const { clientAccountId, scoutFindings, dateRange, skill, progress } = input;
 
   researcherLogger.info(
     {
@@ -112,7 +121,8 @@ export async function runResearcher(input: ResearcherInput): Promise<ResearcherO
   const { enrichedPages, fetchStats } = await enrichPagesWithSkill(
     scoutFindings.criticalPages,
     skill?.pageEnrichment,
-    dataQualityConfig
+    dataQualityConfig,
+    progress
   );
 
   const output: ResearcherOutput = {
@@ -156,12 +166,11 @@ async function enrichKeywordsWithCompetitiveData(
   priorityBoosts?: PriorityBoost[]
 ): Promise<EnrichedKeyword[]> {
   const enriched: EnrichedKeyword[] = [];
+  const catalog = await fixtureInput('adsEntityCatalog', () => loadAdsEntityCatalog(clientAccountId, dateRange));
 
   for (const kw of keywords) {
-    const competitiveMetrics = await getCompetitiveMetrics(
-      clientAccountId,
-      kw.query,
-      dateRange
+    const competitiveMetrics = await fixtureInput(`competitiveMetrics:${kw.query}`, () =>
+      getCompetitiveMetrics(clientAccountId, kw.query, dateRange)
     );
 
     // Apply priority boosts if configured
@@ -181,12 +190,32 @@ async function enrichKeywordsWithCompetitiveData(
       competitiveMetrics,
       // Update impression share from auction insights if available
       impressionShare: competitiveMetrics?.impressionShare ?? kw.impressionShare,
+      adPlacements: getAdPlacements(catalog, kw.query),
     });
   }
 
   return enriched;
 }
 
+/**
+ * Campaigns and ad groups the keyword ran in, highest spend first
+ * (catalog keywords are already sorted by spend).
+ */
+function getAdPlacements(catalog: AdsEntityCatalog, query: string): EnrichedKeyword['adPlacements'] {
+  const key = entityNameKey(query);
+  const placements = catalog.keywords
+    .filter((keyword) => entityNameKey(keyword.text) === key)
+    .slice(0, MAX_AD_PLACEMENTS_PER_KEYWORD)
+    .map((keyword) => ({
+      campaign: keyword.campaign,
+      adGroup: keyword.adGroup,
+      matchType: keyword.matchType,
+      spend: keyword.spend,
+    }));
+
+  return placements.length > 0 ? placements : undefined;
+}
+
 /**
  * Calculate priority boost based on skill configuration.
  */
@@ -369,7 +398,8 @@ function formatCompetitiveMetrics(
 async function enrichPagesWithSkill(
   pages: ScoutFindings['criticalPages'],
   pageEnrichment: ResearcherSkillDefinition['pageEnrichment'] | undefined,
-  dataQualityConfig: ResearcherSkillDefinition['dataQuality']
+  dataQualityConfig: ResearcherSkillDefinition['dataQuality'],
+  progress?: ProgressTracker
 ): Promise<{ enrichedPages: ExtendedEnrichedPage[]; fetchStats: { success: number; failed: number } }> {
   const enriched: ExtendedEnrichedPage[] = [];
   let successCount = 0;
@@ -389,6 +419,12 @@ async function enrichPagesWithSkill(
         } else {
           failedCount++;
         }
+        progress?.progress(
+          'researcher',
+          successCount + failedCount,
+          pages.length,
+          `Fetched page ${successCount + failedCount} of ${pages.length}`
+        );
         return { ...page, content } as ExtendedEnrichedPage;
       })
     );
@@ -413,7 +449,7 @@ async function fetchAndAnalyzePageWithSkill(
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-    const response = await fetch(url, {
+    const response = await fixtureFetch(url, {
       signal: controller.signal,
       headers: {
         'User-Agent': 'Advergent-Analysis-Bot/1.0',
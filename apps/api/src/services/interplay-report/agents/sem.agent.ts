@@ -6,7 +6,8 @@
  */
 
 import { logger } from '@/utils/logger.js';
-import { callGenericAI } from '@/services/ai-analyzer.service.js';
+import { callLLM, extractJsonFromResponse } from '@/services/llm/index.js';
+import { FixtureMissError } from '@/services/fixtures/index.js';
 import { semAgentOutputSchema } from '../schemas.js';
 import { buildSEMPrompt } from '../prompts/index.js';
 import type { EnrichedKeyword, SEMAgentOutput } from '../types.js';
@@ -34,41 +35,6 @@ export interface SEMAgentOutputWithMeta extends SEMAgentOutput {
   skillVersion?: string;
 }
 
-/**
- * Extracts JSON from an AI response that may contain markdown fences or leading prose.
- * Returns the extracted JSON string or null if no valid JSON structure is found.
- */
-function extractJsonFromResponse(response: string): string | null {
-  if (!response || typeof response !== 'string') {
-    return null;
-  }
-
-  const trimmed = response.trim();
-
-  // Try markdown code block extraction first (```json ... ``` or ``` ... ```)
-  const markdownMatch = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-  if (markdownMatch) {
-    const extracted = markdownMatch[1].trim();
-    if (extracted.startsWith('{') || extracted.startsWith('[')) {
-      return extracted;
-    }
-  }
-
-  // Try to find a JSON object in the response
-  const jsonObjectMatch = trimmed.match(/\{[\s\S]*\}/);
-  if (jsonObjectMatch) {
-    return jsonObjectMatch[0];
-  }
-
-  // Try to find a JSON array in the response
-  const jsonArrayMatch = trimmed.match(/\[[\s\S]*\]/);
-  if (jsonArrayMatch) {
-    return jsonArrayMatch[0];
-  }
-
-  return null;
-}
-
 /**
  * Safely parses and validates the AI response, with detailed error logging.
  * Returns the validated output or null if parsing/validation fails.
@@ -180,12 +146,14 @@ export async function runSEMAgent(input: SEMAgentInput): Promise<SEMAgentOutputW
 
   let response: string;
   try {
-    response = await callGenericAI(prompt);
+    response = (await callLLM(prompt, { agent: 'sem' })).text;
   } catch (error) {
     semLogger.error(
       { error: error instanceof Error ? error.message : 'Unknown error' },
       'SEM Agent: AI call failed'
     );
+    // A replay that no longer matches its bundle should say so, not read as an AI outage
+    if (error instanceof FixtureMissError) throw error;
     throw new Error('SEM Agent failed to call AI service');
   }
 
@@ -6,7 +6,8 @@
  */
 
 import { logger } from '@/utils/logger.js';
-import { callGenericAI } from '@/services/ai-analyzer.service.js';
+import { callLLM, extractJsonFromResponse } from '@/services/llm/index.js';
+import { FixtureMissError } from '@/services/fixtures/index.js';
 import { seoAgentOutputSchema } from '../schemas.js';
 import { buildSEOPrompt } from '../prompts/index.js';
 import type { EnrichedPage, SEOAgentOutput } from '../types.js';
@@ -34,41 +35,6 @@ export interface SEOAgentOutputWithMeta extends SEOAgentOutput {
   skillVersion?: string;
 }
 
-/**
- * Extracts JSON from an AI response that may contain markdown fences or leading prose.
- * Returns the extracted JSON string or null if no valid JSON structure is found.
- */
-function extractJsonFromResponse(response: string): string | null {
-  if (!response || typeof response !== 'string') {
-    return null;
-  }
-
-  const trimmed = response.trim();
-
-  // Try markdown code block extraction first (```json ... ``` or ``` ... ```)
-  const markdownMatch = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-  if (markdownMatch) {
-    const extracted = markdownMatch[1].trim();
-    if (extracted.startsWith('{') || extracted.startsWith('[')) {
-      return extracted;
-    }
-  }
-
-  // Try to find a JSON object in the response
-  const jsonObjectMatch = trimmed.match(/\{[\s\S]*\}/);
-  if (jsonObjectMatch) {
-    return jsonObjectMatch[0];
-  }
-
-  // Try to find a JSON array in the response
-  const jsonArrayMatch = trimmed.match(/\[[\s\S]*\]/);
-  if (jsonArrayMatch) {
-    return jsonArrayMatch[0];
-  }
-
-  return null;
-}
-
 /**
  * Safely parses and validates the AI response, with detailed error logging.
  * Returns the validated output or null if parsing/validation fails.
@@ -180,12 +146,14 @@ export async function runSEOAgent(input: SEOAgentInput): Promise<SEOAgentOutputW
 
   let response: string;
   try {
-    response = await callGenericAI(prompt);
+    response = (await callLLM(prompt, { agent: 'seo' })).text;
   } catch (error) {
     seoLogger.error(
       { error: error instanceof Error ? error.message : 'Unknown error' },
       'SEO Agent: AI call failed'
     );
+    // A replay that no longer matches its bundle should say so, not read as an AI outage
+    if (error instanceof FixtureMissError) throw error;
     throw new Error('SEO Agent failed to call AI service');
   }
 
@@ -7,22 +7,36 @@
 // Main orchestrator functions
 export {
   generateInterplayReport,
+  replayInterplayReport,
   getLatestInterplayReport,
   getInterplayReportById,
   getInterplayReportDebug,
+  getInterplayReportDiff,
+  listInterplayReports,
+  getInterplayReportProgress,
   hasExistingReports,
 } from './orchestrator.js';
 
+// Campaign / ad group / keyword names for bulk-upload exports
+export { loadAdsEntityCatalog, type AdsEntityCatalog } from './utils/ads-entities.js';
+
 // Core types
 export type {
   GenerateReportOptions,
   GenerateReportResult,
+  ReplayReportOptions,
+  InterplayPipelineOutput,
   InterplayReportResponse,
   DebugReportResponse,
   ReportTrigger,
   ReportStatus,
   UnifiedRecommendation,
   ExecutiveSummary,
+  InterplayReportDiff,
+  InterplayReportHistoryResponse,
+  ReportPhase,
+  ReportPhaseEvent,
+  ReportProgressStatus,
 } from './types.js';
 
 // Metadata types
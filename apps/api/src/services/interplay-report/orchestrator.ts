@@ -12,6 +12,18 @@ import { logger } from '@/utils/logger.js';
 import { db } from '@/db/index.js';
 import { clientAccounts } from '@/db/schema.js';
 import { eq } from 'drizzle-orm';
+import { createTokenUsage, runWithTokenUsage, type TokenUsage } from '@/services/llm/index.js';
+import {
+  createFixtureSession,
+  fixtureInput,
+  runWithConfiguredFixtures,
+  runWithFixtures,
+} from '@/services/fixtures/index.js';
+import { loadCustomSkillBundle } from '@/services/skill-bundle.service.js';
+import { assignSkillVariant, type SkillVariantAssignment } from '@/services/skill-experiment.service.js';
+import { notifyAgency } from '@/services/notifications/index.js';
+import { emitClientWebhookEvent } from '@/services/webhook.service.js';
+import { queueReportDeliveries } from '@/services/report-delivery/index.js';
 
 // Skill-based agent imports
 import {
@@ -23,7 +35,16 @@ import {
 } from './agents/index.js';
 
 // Skill loader
-import { loadSkillBundle, type BusinessType } from './skills/index.js';
+import {
+  loadSkillBundle,
+  applyClientSkillOverrides,
+  hasClientSkillOverrides,
+  clientSkillOverridesSchema,
+  type AgentSkillBundle,
+  type BusinessType,
+  type ClientSkillOverrides,
+  type SkillLoadResult,
+} from './skills/index.js';
 
 import {
   createReport,
@@ -35,7 +56,10 @@ import {
   createRecommendationsFromReport,
   getLatestReport,
   getReportById,
+  getReportStatus,
   getReportCount,
+  getLatestCompletedReport,
+  listReports,
   storeConstraintViolations,
 } from './queries.js';
 
@@ -46,11 +70,19 @@ import {
   saveReportMetrics,
   analyzeOutputForViolations,
   checkAndAlertCriticalViolations,
+  createProgressTracker,
+  getReportPhaseEvents,
+  buildReportDiff,
+  type DateRange,
+  type ProgressTracker,
+  type ReportDiffInput,
 } from './utils/index.js';
 
 import type {
   GenerateReportOptions,
   GenerateReportResult,
+  ReplayReportOptions,
+  InterplayPipelineOutput,
   InterplayReportResponse,
   DebugReportResponse,
   ScoutFindings,
@@ -62,6 +94,11 @@ import type {
   SkillBundleMetadata,
   ReportPerformanceMetrics,
   ReportWarning,
+  InterplayReportDiff,
+  InterplayReportHistoryResponse,
+  UnifiedRecommendation,
+  ReportPhaseEvent,
+  ReportProgressStatus,
 } from './types.js';
 
 const orchestratorLogger = logger.child({ module: 'interplay-orchestrator' });
@@ -69,6 +106,8 @@ const orchestratorLogger = logger.child({ module: 'interplay-orchestrator' });
 // Default business type when none is provided
 const DEFAULT_BUSINESS_TYPE: BusinessType = 'ecommerce';
 
+const DEFAULT_REPORT_DAYS = 30;
+
 // ============================================================================
 // MAIN PUBLIC API
 // ============================================================================
@@ -91,27 +130,61 @@ export async function generateInterplayReport(
 ): Promise<GenerateReportResult> {
   const startTime = Date.now();
 
-  // Fetch client context first to get their configured business type
-  const clientContext = await getClientContext(clientAccountId);
+  // Every agent call inside the pipeline records its tokens here
+  const tokenUsage = createTokenUsage();
 
-  // Resolution order: explicit override > client DB value > default
-  const businessType = options.businessType ?? clientContext.businessType ?? DEFAULT_BUSINESS_TYPE;
-  const businessTypeSource = options.businessType
-    ? 'override'
-    : clientContext.businessType
-      ? 'client'
-      : 'default';
+  // REPORT_FIXTURE_MODE=record|replay captures or feeds back LLM calls, fetched
+  // pages and database inputs
+  return runWithConfiguredFixtures(() =>
+    runWithTokenUsage(tokenUsage, async () => {
+      // Fetch client context first to get their configured business type
+      const clientContext = await getClientContext(clientAccountId);
+      const { businessType, businessTypeSource } = resolveBusinessType(options, clientContext);
 
-  return generateInterplayReportWithSkill(
-    clientAccountId,
-    options,
-    businessType,
-    startTime,
-    businessTypeSource,
-    clientContext
+      return generateInterplayReportWithSkill(
+        clientAccountId,
+        options,
+        businessType,
+        startTime,
+        businessTypeSource,
+        clientContext,
+        tokenUsage
+      );
+    })
   );
 }
 
+/**
+ * Re-run a recorded report from its fixture bundle, returning the agent
+ * outputs. Everything the pipeline reads comes from the bundle, so this
+ * needs no database, models or network. A prompt that differs from the
+ * recording fails the replay unless allowPromptDrift is set.
+ */
+export async function replayInterplayReport(
+  clientAccountId: string,
+  bundlePath: string,
+  options: ReplayReportOptions = {}
+): Promise<InterplayPipelineOutput> {
+  const session = await createFixtureSession('replay', bundlePath, {
+    allowPromptDrift: options.allowPromptDrift,
+  });
+
+  return runWithFixtures(session, async () => {
+    const clientContext = await getClientContext(clientAccountId);
+    const { businessType, businessTypeSource } = resolveBusinessType(options, clientContext);
+    const { skillBundle } = await resolveSkill(clientAccountId, businessType, businessTypeSource, clientContext);
+
+    return runInterplayPipeline({
+      clientAccountId,
+      businessType,
+      clientContext,
+      skillBundle,
+      dateRange: await resolveDateRange(options.days || DEFAULT_REPORT_DAYS),
+      performance: {},
+    });
+  });
+}
+
 /**
  * Generate report using skill-based agents with comprehensive performance tracking.
  */
@@ -121,9 +194,10 @@ async function generateInterplayReportWithSkill(
   businessType: BusinessType,
   startTime: number,
   businessTypeSource: 'override' | 'client' | 'default',
-  clientContext: { clientName?: string; businessType?: BusinessType; industry?: string; targetMarket?: string }
+  clientContext: ClientContext,
+  tokenUsage: TokenUsage
 ): Promise<GenerateReportResult> {
-  const days = options.days || 30;
+  const days = options.days || DEFAULT_REPORT_DAYS;
   const warnings: ReportWarning[] = [];
 
   // Initialize performance metrics
@@ -134,15 +208,36 @@ async function generateInterplayReportWithSkill(
 
   // 1. Load skill bundle for the business type
   const skillLoadStart = Date.now();
-  const skillResult = loadSkillBundle(businessType);
+  const {
+    skillResult,
+    customSkillResult,
+    experimentAssignment,
+    skillBundle,
+    clientOverrides,
+    clientOverridesWarning,
+  } = await resolveSkill(clientAccountId, businessType, businessTypeSource, clientContext);
   performance.skillLoadTimeMs = Date.now() - skillLoadStart;
 
   // Build skill metadata
   const skillMetadata: SkillBundleMetadata = {
     businessType,
-    version: skillResult.bundle.version,
+    version: skillBundle.version,
     usingFallback: skillResult.usingFallback,
     fallbackFrom: skillResult.fallbackFrom,
+    customBundle: skillResult.customBundle && {
+      id: skillResult.customBundle.id,
+      name: skillResult.customBundle.name,
+      version: skillResult.customBundle.version,
+    },
+    experiment: experimentAssignment
+      ? {
+          id: experimentAssignment.experimentId,
+          name: experimentAssignment.experimentName,
+          variantId: experimentAssignment.variantId,
+          variantName: experimentAssignment.variantName,
+        }
+      : undefined,
+    clientOverrides,
   };
 
   orchestratorLogger.info(
@@ -153,7 +248,10 @@ async function generateInterplayReportWithSkill(
       businessType,
       businessTypeSource,
       usingFallback: skillResult.usingFallback,
-      skillVersion: skillResult.bundle.version,
+      skillVersion: skillBundle.version,
+      experimentVariantId: experimentAssignment?.variantId,
+      customSkillBundleId: skillResult.customBundle?.id,
+      hasClientOverrides: !!clientOverrides,
       skillLoadTimeMs: performance.skillLoadTimeMs,
     },
     'Loaded skill bundle for report generation'
@@ -168,6 +266,24 @@ async function generateInterplayReportWithSkill(
     orchestratorLogger.warn({ warning: skillResult.warning }, 'Skill loading warning');
   }
 
+  // Custom bundle could not be used (archived or invalid), base bundle loaded instead
+  if (customSkillResult && !customSkillResult.customBundle && customSkillResult.warning) {
+    warnings.push({
+      type: 'custom-skill-fallback',
+      message: customSkillResult.warning,
+    });
+    orchestratorLogger.warn({ warning: customSkillResult.warning }, 'Custom skill bundle not used');
+  }
+
+  // Overrides no longer fit the bundle (e.g. the client switched business type)
+  if (clientOverridesWarning) {
+    warnings.push({
+      type: 'client-skill-overrides-invalid',
+      message: clientOverridesWarning,
+    });
+    orchestratorLogger.warn({ warning: clientOverridesWarning }, 'Client skill overrides not applied');
+  }
+
   // Add warning if using default business type (client has no configured type)
   if (businessTypeSource === 'default') {
     warnings.push({
@@ -176,17 +292,7 @@ async function generateInterplayReportWithSkill(
     });
   }
 
-  const skillBundle = skillResult.bundle;
-
-  // Calculate date range
-  const endDate = new Date();
-  const startDate = new Date();
-  startDate.setDate(endDate.getDate() - days);
-
-  const dateRange = {
-    start: startDate.toISOString().split('T')[0],
-    end: endDate.toISOString().split('T')[0],
-  };
+  const dateRange = await resolveDateRange(days);
 
   // Create report record
   const reportId = await createReport({
@@ -199,6 +305,22 @@ async function generateInterplayReportWithSkill(
 
   orchestratorLogger.info({ reportId, businessType }, 'Report record created');
 
+  // Phase events for the live progress stream. The skill bundle loads before the
+  // report record exists, so its timing is recorded after the fact.
+  const progress = createProgressTracker(reportId);
+  progress.start('skill_load');
+  progress.complete(
+    'skill_load',
+    (skillResult.customBundle
+      ? `"${skillResult.customBundle.name}" skill bundle v${skillResult.customBundle.version} (${businessType} base)`
+      : `${businessType} skill bundle v${skillBundle.version}${skillResult.usingFallback ? ' (fallback)' : ''}`)
+      + (experimentAssignment
+        ? `, experiment "${experimentAssignment.experimentName}" variant ${experimentAssignment.variantName}`
+        : '')
+      + (clientOverrides ? ' with client overrides' : ''),
+    performance.skillLoadTimeMs
+  );
+
   try {
     // Update status to started
     await updateReportStatus({
@@ -207,109 +329,21 @@ async function generateInterplayReportWithSkill(
       startedAt: new Date(),
     });
 
-    // Client context already fetched in generateInterplayReport() for business type resolution
-
-    // 2. Fetch raw data
-    const dataFetchStart = Date.now();
-    const interplayData = await constructInterplayDataFromDb(clientAccountId, dateRange);
-    performance.dataFetchTimeMs = Date.now() - dataFetchStart;
-
-    if (interplayData.queries.length === 0) {
-      throw new Error('No data available for analysis');
-    }
-
-    orchestratorLogger.debug(
-      { queryCount: interplayData.queries.length, dataFetchTimeMs: performance.dataFetchTimeMs },
-      'Data fetch complete'
-    );
-
-    // 3. Scout (data triage with skill-based thresholds)
-    const scoutStart = Date.now();
-    const scoutOutput = runScout({
-      data: interplayData,
-      skill: skillBundle.scout,
-    });
-    performance.scoutDurationMs = Date.now() - scoutStart;
-    await updateScoutFindings({ reportId, scoutFindings: scoutOutput });
-
-    orchestratorLogger.debug(
-      {
-        battlegroundKeywords: scoutOutput.battlegroundKeywords.length,
-        criticalPages: scoutOutput.criticalPages.length,
-        scoutDurationMs: performance.scoutDurationMs,
-      },
-      'Scout phase complete'
-    );
-
-    // 4. Researcher (data enrichment with skill-based content extraction)
-    const researcherStart = Date.now();
-    const researcherOutput = await runResearcher({
+    const { directorOutput } = await runInterplayPipeline({
       clientAccountId,
-      scoutFindings: scoutOutput,
+      businessType,
+      clientContext,
+      skillBundle,
       dateRange,
-      skill: skillBundle.researcher,
-    });
-    performance.researcherDurationMs = Date.now() - researcherStart;
-    await updateResearcherData({ reportId, researcherData: researcherOutput });
-
-    orchestratorLogger.debug(
-      {
-        enrichedKeywords: researcherOutput.enrichedKeywords.length,
-        enrichedPages: researcherOutput.enrichedPages.length,
-        dataQuality: researcherOutput.dataQuality,
-        researcherDurationMs: performance.researcherDurationMs,
-      },
-      'Researcher phase complete'
-    );
-
-    // 5. SEM + SEO Agents (parallel, skill-based prompts)
-    const [semResult, seoResult] = await Promise.all([
-      (async () => {
-        const start = Date.now();
-        const result = await runSEMAgent({
-          enrichedKeywords: researcherOutput.enrichedKeywords,
-          skill: skillBundle.sem,
-          clientContext,
-        });
-        performance.semDurationMs = Date.now() - start;
-        return result;
-      })(),
-      (async () => {
-        const start = Date.now();
-        const result = await runSEOAgent({
-          enrichedPages: researcherOutput.enrichedPages,
-          skill: skillBundle.seo,
-          clientContext,
-        });
-        performance.seoDurationMs = Date.now() - start;
-        return result;
-      })(),
-    ]);
-    await updateAgentOutputs({ reportId, semAgentOutput: semResult, seoAgentOutput: seoResult });
-
-    orchestratorLogger.debug(
-      {
-        semRecommendations: semResult.semActions.length,
-        seoRecommendations: seoResult.seoActions.length,
-        semDurationMs: performance.semDurationMs,
-        seoDurationMs: performance.seoDurationMs,
-      },
-      'SEM and SEO agents complete'
-    );
-
-    // 6. Director (synthesis with skill-based filtering and constraint validation)
-    const directorStart = Date.now();
-    const directorOutput = await runDirectorAgent({
-      semOutput: semResult,
-      seoOutput: seoResult,
-      skill: skillBundle.director,
-      clientContext: {
-        ...clientContext,
-        clientId: clientAccountId,
-        businessType,
+      performance,
+      progress,
+      checkpoint: {
+        scout: (scoutFindings) => updateScoutFindings({ reportId, scoutFindings }),
+        researcher: (researcherData) => updateResearcherData({ reportId, researcherData }),
+        agents: (semAgentOutput, seoAgentOutput) =>
+          updateAgentOutputs({ reportId, semAgentOutput, seoAgentOutput }),
       },
     });
-    performance.directorDurationMs = Date.now() - directorStart;
 
     // Phase 6: Store constraint violations if any were detected
     if (directorOutput.validationResult && directorOutput.validationResult.violations.length > 0) {
@@ -354,8 +388,15 @@ async function generateInterplayReportWithSkill(
     // Phase 9: Analyze final output for any slipped violations
     const outputAnalysis = analyzeOutputForViolations(directorOutput, businessType);
 
-    // Phase 9: Alert on critical violations
-    checkAndAlertCriticalViolations(reportId, businessType, outputAnalysis);
+    // Phase 9: Alert on critical violations and route them to the agency's channels
+    const skillAlerts = checkAndAlertCriticalViolations(reportId, businessType, outputAnalysis);
+    if (skillAlerts.length > 0 && clientContext.agencyId) {
+      // Dispatch logs its own failures; don't hold up the report on delivery
+      void notifyAgency(
+        clientContext.agencyId,
+        skillAlerts.map((alert) => ({ ...alert, context: { ...alert.context, clientAccountId } }))
+      );
+    }
 
     // Phase 9: Build violations by rule map
     const violationsByRule: Record<string, number> = {};
@@ -377,11 +418,24 @@ async function generateInterplayReportWithSkill(
       directorDurationMs: performance.directorDurationMs ?? 0,
     };
 
+    orchestratorLogger.info(
+      {
+        reportId,
+        totalTokens: tokenUsage.totalTokens,
+        llmCalls: tokenUsage.calls,
+        byAgent: tokenUsage.byAgent,
+      },
+      'Report token usage'
+    );
+
+    // Make sure every phase event is visible before the report reads as completed
+    await progress.flush();
+
     // Store final output with metadata
     await updateDirectorOutput({
       reportId,
       directorOutput,
-      tokensUsed: 0, // TODO: Track actual token usage
+      tokensUsed: tokenUsage.totalTokens,
       processingTimeMs: finalPerformance.totalDurationMs,
       skillMetadata,
       performanceMetrics: finalPerformance,
@@ -399,6 +453,7 @@ async function generateInterplayReportWithSkill(
     metricsBuilder
       .setReportContext(reportId, clientAccountId, businessType)
       .setSkillInfo(skillBundle.version, skillResult.usingFallback)
+      .setTokensUsed(tokenUsage.totalTokens)
       .setConstraintViolations(
         directorOutput.validationResult?.violations.length ?? 0,
         violationsByRule
@@ -424,6 +479,10 @@ async function generateInterplayReportWithSkill(
         pagesDropped: 0,
       });
 
+    if (experimentAssignment) {
+      metricsBuilder.setExperiment(experimentAssignment.experimentId, experimentAssignment.variantId);
+    }
+
     // Save metrics asynchronously (don't block report generation)
     saveReportMetrics(metricsBuilder.build()).catch((err) => {
       orchestratorLogger.error({ error: err, reportId }, 'Failed to save report metrics');
@@ -453,17 +512,39 @@ async function generateInterplayReportWithSkill(
       'Report generation complete'
     );
 
+    await emitClientWebhookEvent(clientAccountId, 'report.completed', {
+      reportId,
+      trigger: options.trigger,
+      businessType,
+      skillVersion: skillBundle.version,
+      recommendationCount: directorOutput.unifiedRecommendations.length,
+      totalDurationMs: finalPerformance.totalDurationMs,
+    });
+
+    // Email the report to the client's distribution lists subscribed to this trigger
+    await queueReportDeliveries(clientAccountId, reportId, options.trigger);
+
     return { reportId, metadata };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     orchestratorLogger.error({ reportId, error: errorMessage }, 'Report generation failed');
 
+    progress.failActive(errorMessage);
+    await progress.flush();
+
     await updateReportStatus({
       reportId,
       status: 'failed',
       errorMessage,
     });
 
+    await emitClientWebhookEvent(clientAccountId, 'report.failed', {
+      reportId,
+      trigger: options.trigger,
+      businessType,
+      error: errorMessage,
+    });
+
     throw error;
   }
 }
@@ -498,6 +579,80 @@ export async function getInterplayReportById(
   return formatReportResponse(report);
 }
 
+/**
+ * Report status plus phase events after the given sequence, for the progress stream
+ */
+export async function getInterplayReportProgress(
+  reportId: string,
+  afterSequence = 0
+): Promise<{ clientAccountId: string; status: ReportProgressStatus; events: ReportPhaseEvent[] } | null> {
+  const report = await getReportStatus(reportId);
+
+  if (!report) {
+    return null;
+  }
+
+  const events = await getReportPhaseEvents(reportId, afterSequence);
+
+  return {
+    clientAccountId: report.clientAccountId,
+    status: {
+      reportId: report.id,
+      status: report.status,
+      error: report.errorMessage || undefined,
+    },
+    events,
+  };
+}
+
+/**
+ * List a client's reports (newest first) with status, trigger, date range,
+ * skill version and duration
+ */
+export async function listInterplayReports(
+  clientAccountId: string,
+  options: { page: number; pageSize: number }
+): Promise<InterplayReportHistoryResponse> {
+  const { page, pageSize } = options;
+  const { rows, total } = await listReports(clientAccountId, {
+    limit: pageSize,
+    offset: (page - 1) * pageSize,
+  });
+
+  return {
+    reports: rows.map((row) => {
+      const skill = parseEncrypted<SkillBundleMetadata>(row.skillMetadataJson);
+      const durationMs =
+        row.processingTimeMs ??
+        (row.startedAt && row.completedAt ? row.completedAt.getTime() - row.startedAt.getTime() : null);
+
+      return {
+        id: row.id,
+        status: row.status,
+        trigger: row.triggerType,
+        dateRange: {
+          start: row.dateRangeStart,
+          end: row.dateRangeEnd,
+          days: row.dateRangeDays,
+        },
+        businessType: skill?.businessType ?? null,
+        skillVersion: skill?.version ?? null,
+        customSkillBundle: skill?.customBundle ?? null,
+        durationMs,
+        createdAt: row.createdAt?.toISOString() ?? '',
+        completedAt: row.completedAt?.toISOString() ?? null,
+        error: row.errorMessage ?? undefined,
+      };
+    }),
+    pagination: {
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+    },
+  };
+}
+
 /**
  * Get a report with full debug data (all agent outputs)
  */
@@ -522,6 +677,36 @@ export async function getInterplayReportDebug(
   };
 }
 
+/**
+ * Compare two reports for a client.
+ *
+ * Defaults: `to` is the latest completed report and `from` is the completed
+ * report immediately before it. Returns null when either report is missing or
+ * belongs to another client.
+ */
+export async function getInterplayReportDiff(
+  clientAccountId: string,
+  options: { fromReportId?: string; toReportId?: string } = {}
+): Promise<InterplayReportDiff | null> {
+  const toReport = options.toReportId
+    ? await getReportById(options.toReportId)
+    : await getLatestCompletedReport(clientAccountId);
+
+  if (!toReport || toReport.clientAccountId !== clientAccountId) {
+    return null;
+  }
+
+  const fromReport = options.fromReportId
+    ? await getReportById(options.fromReportId)
+    : await getLatestCompletedReport(clientAccountId, toReport.createdAt ?? undefined);
+
+  if (!fromReport || fromReport.clientAccountId !== clientAccountId) {
+    return null;
+  }
+
+  return buildReportDiff(toDiffInput(fromReport), toDiffInput(toReport));
+}
+
 /**
  * Check if a client has any existing reports
  */
@@ -530,29 +715,313 @@ export async function hasExistingReports(clientAccountId: string): Promise<boole
   return count > 0;
 }
 
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+interface InterplayPipelineInput {
+  clientAccountId: string;
+  businessType: BusinessType;
+  clientContext: ClientContext;
+  skillBundle: AgentSkillBundle;
+  dateRange: DateRange;
+  /** Phase durations are written here as each phase finishes */
+  performance: Partial<ReportPerformanceMetrics>;
+  progress?: ProgressTracker;
+  /** Persists each phase's output as soon as it is available */
+  checkpoint?: {
+    scout(scoutFindings: ScoutFindings): Promise<void>;
+    researcher(researcherData: ResearcherData): Promise<void>;
+    agents(semAgentOutput: SEMAgentOutput, seoAgentOutput: SEOAgentOutput): Promise<void>;
+  };
+}
+
+/**
+ * Data fetch → Scout → Researcher → SEM + SEO → Director. Reads go through
+ * fixtureInput and writes through the checkpoint, so a replay can run it
+ * without a database.
+ */
+async function runInterplayPipeline(input: InterplayPipelineInput) {
+  const { clientAccountId, businessType, clientContext, skillBundle, dateRange, performance, progress, checkpoint } =
+    input;
+
+  // 2. Fetch raw data
+  const dataFetchStart = Date.now();
+  progress?.start('data_fetch');
+  const interplayData = await fixtureInput('interplayData', () =>
+    constructInterplayDataFromDb(clientAccountId, dateRange)
+  );
+  performance.dataFetchTimeMs = Date.now() - dataFetchStart;
+
+  if (interplayData.queries.length === 0) {
+    throw new Error('No data available for analysis');
+  }
+  progress?.complete('data_fetch', `${interplayData.queries.length} queries loaded`);
+
+  orchestratorLogger.debug(
+    { queryCount: interplayData.queries.length, dataFetchTimeMs: performance.dataFetchTimeMs },
+    'Data fetch complete'
+  );
+
+  // 3. Scout (data triage with skill-based thresholds)
+  const scoutStart = Date.now();
+  progress?.start('scout');
+  const scoutOutput = runScout({
+    data: interplayData,
+    skill: skillBundle.scout,
+  });
+  performance.scoutDurationMs = Date.now() - scoutStart;
+  progress?.complete(
+    'scout',
+    `${scoutOutput.battlegroundKeywords.length} battleground keywords, ${scoutOutput.criticalPages.length} critical pages`
+  );
+  await checkpoint?.scout(scoutOutput);
+
+  orchestratorLogger.debug(
+    {
+      battlegroundKeywords: scoutOutput.battlegroundKeywords.length,
+      criticalPages: scoutOutput.criticalPages.length,
+      scoutDurationMs: performance.scoutDurationMs,
+    },
+    'Scout phase complete'
+  );
+
+  // 4. Researcher (data enrichment with skill-based content extraction)
+  const researcherStart = Date.now();
+  progress?.start('researcher', `Fetching ${scoutOutput.criticalPages.length} pages`);
+  const researcherOutput = await runResearcher({
+    clientAccountId,
+    scoutFindings: scoutOutput,
+    dateRange,
+    skill: skillBundle.researcher,
+    progress,
+  });
+  performance.researcherDurationMs = Date.now() - researcherStart;
+  progress?.complete(
+    'researcher',
+    `${researcherOutput.dataQuality.pagesWithContent} pages with content`
+  );
+  await checkpoint?.researcher(researcherOutput);
+
+  orchestratorLogger.debug(
+    {
+      enrichedKeywords: researcherOutput.enrichedKeywords.length,
+      enrichedPages: researcherOutput.enrichedPages.length,
+      dataQuality: researcherOutput.dataQuality,
+      researcherDurationMs: performance.researcherDurationMs,
+    },
+    'Researcher phase complete'
+  );
+
+  // 5. SEM + SEO Agents (parallel, skill-based prompts)
+  const [semResult, seoResult] = await Promise.all([
+    (async () => {
+      const start = Date.now();
+      progress?.start('sem');
+      const result = await runSEMAgent({
+        enrichedKeywords: researcherOutput.enrichedKeywords,
+        skill: skillBundle.sem,
+        clientContext,
+      });
+      performance.semDurationMs = Date.now() - start;
+      progress?.complete('sem', `${result.semActions.length} SEM actions`);
+      return result;
+    })(),
+    (async () => {
+      const start = Date.now();
+      progress?.start('seo');
+      const result = await runSEOAgent({
+        enrichedPages: researcherOutput.enrichedPages,
+        skill: skillBundle.seo,
+        clientContext,
+      });
+      performance.seoDurationMs = Date.now() - start;
+      progress?.complete('seo', `${result.seoActions.length} SEO actions`);
+      return result;
+    })(),
+  ]);
+  await checkpoint?.agents(semResult, seoResult);
+
+  orchestratorLogger.debug(
+    {
+      semRecommendations: semResult.semActions.length,
+      seoRecommendations: seoResult.seoActions.length,
+      semDurationMs: performance.semDurationMs,
+      seoDurationMs: performance.seoDurationMs,
+    },
+    'SEM and SEO agents complete'
+  );
+
+  // 6. Director (synthesis with skill-based filtering and constraint validation)
+  const directorStart = Date.now();
+  progress?.start('director');
+  const directorOutput = await runDirectorAgent({
+    semOutput: semResult,
+    seoOutput: seoResult,
+    skill: skillBundle.director,
+    clientContext: {
+      ...clientContext,
+      clientId: clientAccountId,
+      businessType,
+    },
+    progress,
+  });
+  performance.directorDurationMs = Date.now() - directorStart;
+  progress?.complete('director', `${directorOutput.unifiedRecommendations.length} recommendations`);
+
+  return {
+    scoutFindings: scoutOutput,
+    researcherData: researcherOutput,
+    semAgentOutput: semResult,
+    seoAgentOutput: seoResult,
+    directorOutput,
+  };
+}
+
 // ============================================================================
 // HELPERS
 // ============================================================================
 
-async function getClientContext(clientAccountId: string) {
+interface ClientContext {
+  agencyId?: string;
+  clientName?: string;
+  businessType?: BusinessType;
+  customSkillBundleId?: string;
+  skillOverrides?: ClientSkillOverrides;
+  industry?: string;
+  targetMarket?: string;
+}
+
+/**
+ * Resolution order: explicit override > client DB value > default
+ */
+function resolveBusinessType(
+  options: { businessType?: BusinessType },
+  clientContext: ClientContext
+): { businessType: BusinessType; businessTypeSource: 'override' | 'client' | 'default' } {
+  return {
+    businessType: options.businessType ?? clientContext.businessType ?? DEFAULT_BUSINESS_TYPE,
+    businessTypeSource: options.businessType ? 'override' : clientContext.businessType ? 'client' : 'default',
+  };
+}
+
+interface ResolvedSkill {
+  skillResult: SkillLoadResult;
+  /** Set when the client has a custom bundle, even if it fell back to the base bundle */
+  customSkillResult: SkillLoadResult | null;
+  experimentAssignment: SkillVariantAssignment | null;
+  skillBundle: AgentSkillBundle;
+  clientOverrides?: ClientSkillOverrides;
+  clientOverridesWarning?: string;
+}
+
+/**
+ * Load the skill bundle for the business type. A client's custom bundle only
+ * applies when the business type was not explicitly overridden.
+ */
+async function resolveSkill(
+  clientAccountId: string,
+  businessType: BusinessType,
+  businessTypeSource: 'override' | 'client' | 'default',
+  clientContext: ClientContext
+): Promise<ResolvedSkill> {
+  const { agencyId, customSkillBundleId } = clientContext;
+
+  const customSkillResult = businessTypeSource === 'client' && customSkillBundleId
+    ? await fixtureInput(`customSkillBundle:${customSkillBundleId}`, () => loadCustomSkillBundle(customSkillBundleId))
+    : null;
+  const skillResult = customSkillResult ?? loadSkillBundle(businessType);
+
+  // Reports on the built-in bundle take part in the agency's running experiment, if any
+  const experimentAssignment = !skillResult.customBundle && !skillResult.usingFallback && agencyId
+    ? await fixtureInput(`skillVariant:${businessType}`, () =>
+        assignSkillVariant({ agencyId, clientAccountId, businessType })
+      )
+    : null;
+
+  // Client overrides replace scale-dependent thresholds and benchmarks
+  let skillBundle = experimentAssignment?.bundle ?? skillResult.bundle;
+  let clientOverrides: ClientSkillOverrides | undefined;
+  let clientOverridesWarning: string | undefined;
+  if (clientContext.skillOverrides && hasClientSkillOverrides(clientContext.skillOverrides)) {
+    const overrideResult = applyClientSkillOverrides(skillBundle, clientContext.skillOverrides);
+    if (overrideResult.valid) {
+      skillBundle = overrideResult.bundle;
+      clientOverrides = clientContext.skillOverrides;
+    } else {
+      clientOverridesWarning = `Client skill overrides ignored: ${overrideResult.issues
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join('; ')}`;
+    }
+  }
+
+  return { skillResult, customSkillResult, experimentAssignment, skillBundle, clientOverrides, clientOverridesWarning };
+}
+
+/**
+ * The report window ends today. Fixture bundles pin it, so a replay sees the
+ * recorded dates.
+ */
+function resolveDateRange(days: number): Promise<DateRange> {
+  return fixtureInput(`dateRange:${days}`, async () => {
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(endDate.getDate() - days);
+
+    return {
+      start: startDate.toISOString().split('T')[0],
+      end: endDate.toISOString().split('T')[0],
+    };
+  });
+}
+
+function getClientContext(clientAccountId: string): Promise<ClientContext> {
+  return fixtureInput(`clientContext:${clientAccountId}`, () => queryClientContext(clientAccountId));
+}
+
+async function queryClientContext(clientAccountId: string): Promise<ClientContext> {
   const [client] = await db
     .select({
+      agencyId: clientAccounts.agencyId,
       name: clientAccounts.name,
       businessType: clientAccounts.businessType,
+      customSkillBundleId: clientAccounts.customSkillBundleId,
+      skillOverridesJson: clientAccounts.skillOverridesJson,
     })
     .from(clientAccounts)
     .where(eq(clientAccounts.id, clientAccountId))
     .limit(1);
 
   return {
+    agencyId: client?.agencyId,
     clientName: client?.name,
     businessType: client?.businessType,
+    customSkillBundleId: client?.customSkillBundleId ?? undefined,
+    skillOverrides: parseClientSkillOverrides(clientAccountId, client?.skillOverridesJson ?? null),
     industry: undefined, // Could be added to client_accounts table
     targetMarket: undefined, // Could be added to client_accounts table
   };
 }
 
+function parseClientSkillOverrides(
+  clientAccountId: string,
+  json: string | null
+): ClientSkillOverrides | undefined {
+  if (!json) return undefined;
+
+  try {
+    const result = clientSkillOverridesSchema.safeParse(JSON.parse(json));
+    if (result.success) return result.data;
+    orchestratorLogger.warn({ clientAccountId, issues: result.error.errors }, 'Stored client skill overrides are invalid');
+  } catch (error) {
+    orchestratorLogger.warn({ clientAccountId, error }, 'Failed to parse client skill overrides');
+  }
+  return undefined;
+}
+
 function formatReportResponse(report: any): InterplayReportResponse {
+  const skill = parseEncrypted<SkillBundleMetadata>(report.skillMetadataJson);
+
   return {
     id: report.id,
     clientAccountId: report.clientAccountId,
@@ -570,11 +1039,30 @@ function formatReportResponse(report: any): InterplayReportResponse {
       processingTimeMs: report.processingTimeMs,
       createdAt: report.createdAt?.toISOString(),
       completedAt: report.completedAt?.toISOString(),
+      businessType: skill?.businessType,
+      skillVersion: skill?.version,
+      customSkillBundle: skill?.customBundle,
+      skillExperiment: skill?.experiment,
     },
     error: report.errorMessage,
   };
 }
 
+function toDiffInput(report: any): ReportDiffInput {
+  const formatted = formatReportResponse(report);
+  return {
+    ref: {
+      id: formatted.id,
+      status: formatted.status,
+      trigger: formatted.trigger,
+      dateRange: formatted.dateRange,
+      createdAt: formatted.metadata.createdAt,
+    },
+    recommendations: parseEncrypted<UnifiedRecommendation[]>(report.unifiedRecommendationsEncrypted) ?? [],
+    scoutFindings: parseEncrypted<ScoutFindings>(report.scoutFindingsEncrypted),
+  };
+}
+
 function parseEncrypted<T>(encrypted: string | null): T | undefined {
   if (!encrypted) return undefined;
   try {
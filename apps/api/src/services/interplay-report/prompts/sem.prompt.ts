@@ -35,6 +35,19 @@ export interface SEMAgentContext {
   clientName?: string;
 }
 
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Shared by the full and compact prompts. The structured fields feed the
+ * Google Ads Editor export, so names must match the account exactly.
+ */
+const STRUCTURED_CHANGE_INSTRUCTIONS = `Describe each action's account change with the structured fields as well as the free-text "action":
+- "operation": adjust_bid or adjust_budget with a signed "changePercent" (-90 to 300); pause or enable the entity at "level"; add_keyword or add_negative_keyword with "keyword" and "matchType". Use "other" when the action is not a single account change.
+- "campaign" and "adGroup": copy names exactly from the keyword's adPlacements. Never invent names; omit them when the data has none.
+- Omit fields that do not apply rather than setting them to null.`;
+
 // ============================================================================
 // Prompt Builders
 // ============================================================================
@@ -68,6 +81,7 @@ export function buildSEMPrompt(
           dataLevel: k.competitiveMetrics.dataLevel,
         }
       : undefined,
+    adPlacements: k.adPlacements?.map(({ campaign, adGroup, matchType }) => ({ campaign, adGroup, matchType })),
   }));
 
   const { mode, budget } = determineSerializationMode(serializableKeywords, []);
@@ -159,6 +173,9 @@ ${examplesSection}
 ## CRITICAL CONSTRAINTS
 ${constraintsSection}
 
+## Structured Changes
+${STRUCTURED_CHANGE_INSTRUCTIONS}
+
 ## Output Format
 IMPORTANT: Return ONLY valid JSON without markdown code blocks.
 
@@ -170,7 +187,12 @@ IMPORTANT: Return ONLY valid JSON without markdown code blocks.
       "expectedUplift": "string",
       "reasoning": "string",
       "impact": "high" | "medium" | "low",
-      "keyword": "optional keyword this applies to"
+      "keyword": "optional keyword this applies to",
+      "operation": "adjust_bid" | "adjust_budget" | "pause" | "enable" | "add_keyword" | "add_negative_keyword" | "other",
+      "campaign": "optional campaign name from adPlacements",
+      "adGroup": "optional ad group name from adPlacements",
+      "matchType": "exact" | "phrase" | "broad" (optional),
+      "changePercent": optional number, e.g. -20 to lower a bid by 20%
     }
   ]
 }`;
@@ -223,6 +245,9 @@ ${examplesSection}
 ## CONSTRAINTS
 ${constraintsSection}
 
+## Structured Changes
+${STRUCTURED_CHANGE_INSTRUCTIONS}
+
 ## Output Format
 Return ONLY valid JSON:
 
@@ -234,7 +259,12 @@ Return ONLY valid JSON:
       "expectedUplift": "string",
       "reasoning": "string",
       "impact": "high" | "medium" | "low",
-      "keyword": "optional keyword"
+      "keyword": "optional keyword",
+      "operation": "adjust_bid" | "adjust_budget" | "pause" | "enable" | "add_keyword" | "add_negative_keyword" | "other",
+      "campaign": "optional campaign",
+      "adGroup": "optional ad group",
+      "matchType": "exact" | "phrase" | "broad" (optional),
+      "changePercent": optional number
     }
   ]
 }`;
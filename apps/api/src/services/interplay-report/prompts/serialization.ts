@@ -470,6 +470,12 @@ export interface SerializableKeyword {
     positionAboveRate?: number | null;
     dataLevel?: string;
   };
+  /** Where the keyword runs, so SEM actions can name real campaigns and ad groups */
+  adPlacements?: Array<{
+    campaign: string;
+    adGroup: string | null;
+    matchType: string | null;
+  }>;
 }
 
 /**
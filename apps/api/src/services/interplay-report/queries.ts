@@ -5,7 +5,7 @@
 
 import { db } from '@/db/index.js';
 import { interplayReports, recommendations, constraintViolations } from '@/db/schema.js';
-import { eq, desc, and } from 'drizzle-orm';
+import { eq, desc, and, lt, count } from 'drizzle-orm';
 import type { ConstraintViolation } from './utils/constraint-validation.js';
 import type {
   ReportTrigger,
@@ -177,6 +177,85 @@ export async function getReportById(reportId: string) {
   return report || null;
 }
 
+/**
+ * Lightweight status lookup used by the progress stream
+ */
+export async function getReportStatus(reportId: string) {
+  const [report] = await db
+    .select({
+      id: interplayReports.id,
+      clientAccountId: interplayReports.clientAccountId,
+      status: interplayReports.status,
+      errorMessage: interplayReports.errorMessage,
+    })
+    .from(interplayReports)
+    .where(eq(interplayReports.id, reportId))
+    .limit(1);
+
+  return report || null;
+}
+
+/**
+ * Latest completed report for a client, optionally created before a given time
+ */
+export async function getLatestCompletedReport(clientAccountId: string, before?: Date) {
+  const conditions = [
+    eq(interplayReports.clientAccountId, clientAccountId),
+    eq(interplayReports.status, 'completed'),
+  ];
+  if (before) {
+    conditions.push(lt(interplayReports.createdAt, before));
+  }
+
+  const [report] = await db
+    .select()
+    .from(interplayReports)
+    .where(and(...conditions))
+    .orderBy(desc(interplayReports.createdAt))
+    .limit(1);
+
+  return report || null;
+}
+
+export interface ListReportsParams {
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Paginated report list for a client (newest first). Only lightweight columns
+ * are selected - phase outputs are left out.
+ */
+export async function listReports(clientAccountId: string, params: ListReportsParams) {
+  const rows = await db
+    .select({
+      id: interplayReports.id,
+      status: interplayReports.status,
+      triggerType: interplayReports.triggerType,
+      dateRangeStart: interplayReports.dateRangeStart,
+      dateRangeEnd: interplayReports.dateRangeEnd,
+      dateRangeDays: interplayReports.dateRangeDays,
+      processingTimeMs: interplayReports.processingTimeMs,
+      skillMetadataJson: interplayReports.skillMetadataJson,
+      errorMessage: interplayReports.errorMessage,
+      createdAt: interplayReports.createdAt,
+      startedAt: interplayReports.startedAt,
+      completedAt: interplayReports.completedAt,
+    })
+    .from(interplayReports)
+    .where(eq(interplayReports.clientAccountId, clientAccountId))
+    .orderBy(desc(interplayReports.createdAt))
+    .limit(params.limit)
+    .offset(params.offset);
+
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(interplayReports)
+    .where(eq(interplayReports.clientAccountId, clientAccountId));
+
+  return { rows, total };
+}
+
 export async function getReportCount(clientAccountId: string): Promise<number> {
   const result = await db
     .select({ id: interplayReports.id })
@@ -0,0 +1,91 @@
+/**
+ * Offline replay of a recorded report run
+ *
+ * DATABASE_URL points at a closed port, so any query the pipeline makes
+ * instead of reading the bundle fails the run.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+process.env.DATABASE_URL = 'postgres://replay@127.0.0.1:1/replay';
+process.env.ENCRYPTION_MASTER_KEY ??= '0'.repeat(64);
+process.env.REPORT_FIXTURE_MODE = 'off';
+
+const { replayInterplayReport } = await import('./orchestrator.js');
+const { FixtureMissError } = await import('@/services/fixtures/index.js');
+type FixtureBundle = import('@/services/fixtures/index.js').FixtureBundle;
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '__fixtures__');
+const BUNDLE_PATH = path.join(FIXTURES_DIR, 'replay-bundle.json');
+const OUTPUT_PATH = path.join(FIXTURES_DIR, 'replay-bundle.output.json');
+const CLIENT_ID = '00000000-0000-4000-8000-000000000001';
+
+let tmpDir: string;
+
+/**
+ * Copy of the recorded bundle with the SEM call's prompt changed, as if the
+ * prompt template had been edited since recording
+ */
+async function writeDriftedBundle(): Promise<string> {
+  const bundle = JSON.parse(await fs.readFile(BUNDLE_PATH, 'utf-8')) as FixtureBundle;
+  const semCall = bundle.llmCalls.find((call) => call.agent === 'sem');
+  assert.ok(semCall, 'bundle has a recorded SEM call');
+  semCall.key = 'drifted';
+
+  const driftedPath = path.join(tmpDir, 'drifted-bundle.json');
+  await fs.writeFile(driftedPath, JSON.stringify(bundle), 'utf-8');
+  return driftedPath;
+}
+
+describe('replayInterplayReport', () => {
+  before(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'report-replay-'));
+  });
+
+  after(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('reproduces the recorded agent outputs from the bundle alone', async () => {
+    const replayed = await replayInterplayReport(CLIENT_ID, BUNDLE_PATH);
+    const expected = JSON.parse(await fs.readFile(OUTPUT_PATH, 'utf-8'));
+
+    const output = JSON.parse(
+      JSON.stringify({
+        semAgentOutput: replayed.semAgentOutput,
+        seoAgentOutput: replayed.seoAgentOutput,
+        directorOutput: replayed.directorOutput,
+      })
+    );
+    assert.deepEqual(output, expected);
+    assert.ok(replayed.scoutFindings.battlegroundKeywords.length > 0);
+  });
+
+  it('fails when a prompt no longer matches the recording', async () => {
+    const driftedPath = await writeDriftedBundle();
+
+    await assert.rejects(
+      replayInterplayReport(CLIENT_ID, driftedPath),
+      (error) => error instanceof FixtureMissError && /prompt drift/.test(error.message)
+    );
+  });
+
+  it('replays a drifted prompt when the caller allows it', async () => {
+    const driftedPath = await writeDriftedBundle();
+
+    const replayed = await replayInterplayReport(CLIENT_ID, driftedPath, { allowPromptDrift: true });
+    assert.ok(replayed.semAgentOutput.semActions.length > 0);
+  });
+
+  it('fails on an input the bundle did not record instead of querying the database', async () => {
+    await assert.rejects(
+      replayInterplayReport(CLIENT_ID, BUNDLE_PATH, { days: 90 }),
+      (error) => error instanceof FixtureMissError && /dateRange:90/.test(error.message)
+    );
+  });
+});
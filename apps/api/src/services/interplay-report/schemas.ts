@@ -16,6 +16,16 @@ export const effortLevelSchema = z.enum(['high', 'medium', 'low']);
 // SEM AGENT SCHEMAS
 // ============================================================================
 
+export const semOperationSchema = z.enum([
+  'adjust_bid',
+  'adjust_budget',
+  'pause',
+  'enable',
+  'add_keyword',
+  'add_negative_keyword',
+  'other',
+]);
+
 export const semActionSchema = z.object({
   action: z.string().min(5),
   level: z.enum(['campaign', 'ad_group', 'keyword']),
@@ -23,6 +33,11 @@ export const semActionSchema = z.object({
   reasoning: z.string().min(10),
   impact: impactLevelSchema,
   keyword: z.string().optional(),
+  operation: semOperationSchema.optional(),
+  campaign: z.string().min(1).optional(),
+  adGroup: z.string().min(1).optional(),
+  matchType: z.enum(['exact', 'phrase', 'broad']).optional(),
+  changePercent: z.number().min(-90).max(300).optional(),
 });
 
 export const semAgentOutputSchema = z.object({
@@ -0,0 +1,188 @@
+/**
+ * Custom Skill Bundles
+ *
+ * An agency bundle is a built-in bundle plus overrides. Overrides are a deep
+ * partial of the agent skill definitions: objects merge key by key, while
+ * arrays and scalars replace the base value outright.
+ */
+
+import type { AgentSkillBundle, BusinessType, ClientSkillOverrides } from './types.js';
+import {
+  validateSkillBundle,
+  type SkillValidationIssue,
+  type SkillBundleValidationResult,
+} from './validation.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type DeepPartial<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/**
+ * Overrides stored per custom bundle version. businessType and version are
+ * owned by the bundle record, not the overrides.
+ */
+export type SkillBundleOverrides = DeepPartial<Omit<AgentSkillBundle, 'businessType' | 'version'>>;
+
+export interface CustomSkillBundleRef {
+  id: string;
+  name: string;
+  version: number;
+  baseBusinessType: BusinessType;
+}
+
+export type CustomSkillBundleBuildResult =
+  | { valid: true; bundle: AgentSkillBundle }
+  | { valid: false; issues: SkillValidationIssue[] };
+
+/**
+ * Current values of the settings a client can override, for display as defaults
+ */
+export interface ClientSkillSettings {
+  scout: { thresholds: AgentSkillBundle['scout']['thresholds'] };
+  sem: { benchmarks: AgentSkillBundle['sem']['benchmarks'] };
+  seo: { benchmarks: AgentSkillBundle['seo']['benchmarks'] };
+}
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mergeOverrides(base: unknown, overrides: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(overrides)) {
+    return overrides === undefined ? base : overrides;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = mergeOverrides(base[key], value);
+  }
+  return merged;
+}
+
+/**
+ * Apply overrides to a bundle without mutating it.
+ */
+export function applySkillOverrides(
+  base: AgentSkillBundle,
+  overrides: SkillBundleOverrides
+): AgentSkillBundle {
+  return mergeOverrides(base, overrides) as AgentSkillBundle;
+}
+
+/**
+ * Layer one set of overrides on top of another, e.g. when cloning a custom bundle.
+ */
+export function mergeSkillOverrides(
+  base: SkillBundleOverrides,
+  overrides: SkillBundleOverrides
+): SkillBundleOverrides {
+  return mergeOverrides(base, overrides) as SkillBundleOverrides;
+}
+
+/**
+ * Version string recorded on reports, e.g. "1.0.0+custom.3f2a9c1b.v4"
+ */
+export function customSkillVersion(baseVersion: string, ref: Pick<CustomSkillBundleRef, 'id' | 'version'>): string {
+  return `${baseVersion}+custom.${ref.id.slice(0, 8)}.v${ref.version}`;
+}
+
+/**
+ * Version string recorded on experiment reports, e.g. "1.0.0+exp.3f2a9c1b.shorter-prompts"
+ */
+export function experimentSkillVersion(baseVersion: string, experimentId: string, variantName: string): string {
+  return `${baseVersion}+exp.${experimentId.slice(0, 8)}.${variantName}`;
+}
+
+function buildOverriddenBundle(
+  base: AgentSkillBundle,
+  overrides: unknown,
+  businessType: BusinessType,
+  version: string
+): CustomSkillBundleBuildResult {
+  if (!isPlainObject(overrides)) {
+    return { valid: false, issues: [{ path: '', message: 'Overrides must be a JSON object' }] };
+  }
+
+  const reserved = ['businessType', 'version'].filter((key) => key in overrides);
+  if (reserved.length > 0) {
+    return {
+      valid: false,
+      issues: reserved.map((key) => ({ path: key, message: 'Set by the bundle, cannot be overridden' })),
+    };
+  }
+
+  const merged = applySkillOverrides(base, overrides as SkillBundleOverrides);
+
+  return validateSkillBundle({ ...merged, businessType, version });
+}
+
+/**
+ * Build and validate a custom bundle from its base bundle and overrides.
+ * Overrides may not change businessType or version; those come from the ref.
+ */
+export function buildCustomSkillBundle(
+  base: AgentSkillBundle,
+  overrides: unknown,
+  ref: CustomSkillBundleRef
+): CustomSkillBundleBuildResult {
+  return buildOverriddenBundle(base, overrides, ref.baseBusinessType, customSkillVersion(base.version, ref));
+}
+
+/**
+ * Build and validate an experiment variant of a built-in bundle.
+ */
+export function buildVariantSkillBundle(
+  base: AgentSkillBundle,
+  overrides: unknown,
+  experimentId: string,
+  variantName: string
+): CustomSkillBundleBuildResult {
+  return buildOverriddenBundle(
+    base,
+    overrides,
+    base.businessType,
+    experimentSkillVersion(base.version, experimentId, variantName)
+  );
+}
+
+// ============================================================================
+// CLIENT OVERRIDES
+// ============================================================================
+
+/**
+ * Merge a client's threshold and benchmark overrides over the loaded bundle.
+ * businessType and version are kept; the overrides are recorded separately.
+ */
+export function applyClientSkillOverrides(
+  bundle: AgentSkillBundle,
+  overrides: ClientSkillOverrides
+): SkillBundleValidationResult {
+  return validateSkillBundle(applySkillOverrides(bundle, overrides as SkillBundleOverrides));
+}
+
+export function getClientSkillSettings(bundle: AgentSkillBundle): ClientSkillSettings {
+  return {
+    scout: { thresholds: bundle.scout.thresholds },
+    sem: { benchmarks: bundle.sem.benchmarks },
+    seo: { benchmarks: bundle.seo.benchmarks },
+  };
+}
+
+/**
+ * True when overrides contain at least one value
+ */
+export function hasClientSkillOverrides(overrides: ClientSkillOverrides | null | undefined): boolean {
+  const hasValues = (value: unknown): boolean =>
+    isPlainObject(value) ? Object.values(value).some(hasValues) : value !== undefined;
+  return hasValues(overrides ?? {});
+}
@@ -14,6 +14,7 @@ import type {
   SEOSkillDefinition,
   DirectorSkillDefinition,
 } from './types.js';
+import type { CustomSkillBundleRef } from './custom.js';
 import { logger } from '@/utils/logger.js';
 
 // Import implemented skill bundles
@@ -47,6 +48,8 @@ export interface SkillLoadResult {
   usingFallback: boolean;
   fallbackFrom?: BusinessType;
   warning?: string;
+  /** Set when the bundle is an agency custom bundle */
+  customBundle?: CustomSkillBundleRef;
 }
 
 /**
@@ -159,6 +162,35 @@ export function loadDirectorSkill(businessType: BusinessType): DirectorSkillDefi
   return loadSkillBundle(businessType).bundle.director;
 }
 
+// ============================================================================
+// CUSTOM BUNDLES & VALIDATION
+// ============================================================================
+
+export {
+  applySkillOverrides,
+  mergeSkillOverrides,
+  buildCustomSkillBundle,
+  buildVariantSkillBundle,
+  customSkillVersion,
+  experimentSkillVersion,
+  applyClientSkillOverrides,
+  getClientSkillSettings,
+  hasClientSkillOverrides,
+  type SkillBundleOverrides,
+  type ClientSkillSettings,
+  type CustomSkillBundleRef,
+  type CustomSkillBundleBuildResult,
+} from './custom.js';
+
+export {
+  agentSkillBundleSchema,
+  businessTypeSchema,
+  clientSkillOverridesSchema,
+  validateSkillBundle,
+  type SkillValidationIssue,
+  type SkillBundleValidationResult,
+} from './validation.js';
+
 // ============================================================================
 // TYPE RE-EXPORTS
 // ============================================================================
@@ -167,6 +199,7 @@ export type {
   // Core types
   BusinessType,
   AgentSkillBundle,
+  ClientSkillOverrides,
   PriorityLevel,
   ImportanceLevel,
   KPIDefinition,
@@ -31,6 +31,23 @@ export interface AgentSkillBundle {
   director: DirectorSkillDefinition;
 }
 
+/**
+ * Per-client overrides of the numeric skill settings that depend on the
+ * client's scale rather than its business type. Merged over whichever bundle
+ * the client's report loads.
+ */
+export interface ClientSkillOverrides {
+  scout?: {
+    thresholds?: Partial<ScoutSkillDefinition['thresholds']>;
+  };
+  sem?: {
+    benchmarks?: { [K in keyof SEMSkillDefinition['benchmarks']]?: Partial<ThresholdSet> };
+  };
+  seo?: {
+    benchmarks?: { [K in keyof SEOSkillDefinition['benchmarks']]?: Partial<ThresholdSet> };
+  };
+}
+
 // ============================================================================
 // SHARED SKILL TYPES
 // ============================================================================
@@ -0,0 +1,454 @@
+/**
+ * Skill Bundle Validation
+ *
+ * Runtime schemas mirroring the interfaces in types.ts. Each schema is typed
+ * against its interface, so the two cannot drift apart without a compile
+ * error. Objects are strict: unknown keys (usually typos in custom bundle
+ * overrides) are rejected rather than silently ignored.
+ */
+
+import { z } from 'zod';
+import type {
+  AgentSkillBundle,
+  BusinessType,
+  ClientSkillOverrides,
+  ScoutSkillDefinition,
+  ResearcherSkillDefinition,
+  SEMSkillDefinition,
+  SEOSkillDefinition,
+  DirectorSkillDefinition,
+  KPIDefinition,
+  ThresholdSet,
+  PriorityRule,
+} from './types.js';
+
+// ============================================================================
+// SHARED SCHEMAS
+// ============================================================================
+
+export const businessTypeSchema: z.ZodType<BusinessType> = z.enum(['ecommerce', 'lead-gen', 'saas', 'local']);
+
+const levelSchema = z.enum(['critical', 'high', 'medium', 'low']);
+
+const kpiDefinitionSchema: z.ZodType<KPIDefinition> = z.object({
+  metric: z.string(),
+  importance: levelSchema,
+  description: z.string(),
+  targetDirection: z.enum(['higher', 'lower', 'target']),
+  benchmark: z.number().optional(),
+  businessContext: z.string(),
+}).strict();
+
+const thresholdSetSchema: z.ZodType<ThresholdSet> = z.object({
+  excellent: z.number(),
+  good: z.number(),
+  average: z.number(),
+  poor: z.number(),
+}).strict();
+
+const kpisSchema = z.object({
+  primary: z.array(kpiDefinitionSchema),
+  secondary: z.array(kpiDefinitionSchema),
+  irrelevant: z.array(z.string()),
+}).strict();
+
+const recommendationTypesSchema = z.object({
+  prioritize: z.array(z.string()),
+  deprioritize: z.array(z.string()),
+  exclude: z.array(z.string()),
+}).strict();
+
+// ============================================================================
+// SCOUT
+// ============================================================================
+
+const priorityRuleSchema: z.ZodType<PriorityRule> = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  condition: z.string(),
+  priority: levelSchema,
+  enabled: z.boolean(),
+}).strict();
+
+export const scoutThresholdsSchema = z.object({
+  highSpendThreshold: z.number().min(0),
+  lowRoasThreshold: z.number().min(0),
+  cannibalizationPosition: z.number().min(1),
+  highBounceRateThreshold: z.number().min(0).max(100),
+  lowCtrThreshold: z.number().min(0).max(100),
+  minImpressionsForAnalysis: z.number().int().min(0),
+}).strict();
+
+export const scoutSkillSchema: z.ZodType<ScoutSkillDefinition> = z.object({
+  version: z.string(),
+  thresholds: scoutThresholdsSchema,
+  priorityRules: z.object({
+    battlegroundKeywords: z.array(priorityRuleSchema),
+    criticalPages: z.array(priorityRuleSchema),
+  }).strict(),
+  metrics: z.object({
+    include: z.array(z.string()),
+    exclude: z.array(z.string()),
+    primary: z.array(z.string()),
+  }).strict(),
+  limits: z.object({
+    maxBattlegroundKeywords: z.number().int().min(1),
+    maxCriticalPages: z.number().int().min(1),
+  }).strict(),
+}).strict();
+
+// ============================================================================
+// RESEARCHER
+// ============================================================================
+
+export const researcherSkillSchema: z.ZodType<ResearcherSkillDefinition> = z.object({
+  version: z.string(),
+  keywordEnrichment: z.object({
+    competitiveMetrics: z.object({
+      required: z.array(z.string()),
+      optional: z.array(z.string()),
+      irrelevant: z.array(z.string()),
+    }).strict(),
+    priorityBoosts: z.array(z.object({
+      metric: z.string(),
+      condition: z.string(),
+      boost: z.number(),
+      reason: z.string(),
+    }).strict()),
+  }).strict(),
+  pageEnrichment: z.object({
+    standardExtractions: z.object({
+      title: z.boolean(),
+      h1: z.boolean(),
+      metaDescription: z.boolean(),
+      canonicalUrl: z.boolean(),
+      wordCount: z.boolean(),
+    }).strict(),
+    schemaExtraction: z.object({
+      lookFor: z.array(z.string()),
+      flagIfPresent: z.array(z.string()),
+      flagIfMissing: z.array(z.string()),
+    }).strict(),
+    contentSignals: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      selector: z.string(),
+      importance: levelSchema,
+      description: z.string(),
+      businessContext: z.string(),
+    }).strict()),
+    pageClassification: z.object({
+      patterns: z.array(z.object({
+        pattern: z.string(),
+        pageType: z.string(),
+        description: z.string(),
+        confidence: z.number().min(0).max(1),
+      }).strict()),
+      defaultType: z.string(),
+      confidenceThreshold: z.number().min(0).max(1),
+    }).strict(),
+  }).strict(),
+  dataQuality: z.object({
+    minKeywordsWithCompetitiveData: z.number().int().min(0),
+    minPagesWithContent: z.number().int().min(0),
+    maxFetchTimeout: z.number().int().min(1000),
+    maxConcurrentFetches: z.number().int().min(1).max(10),
+  }).strict(),
+}).strict();
+
+// ============================================================================
+// SEM
+// ============================================================================
+
+const analysisPatternSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  indicators: z.array(z.string()),
+  recommendation: z.string(),
+}).strict();
+
+export const semBenchmarksSchema = z.object({
+  ctr: thresholdSetSchema,
+  conversionRate: thresholdSetSchema,
+  cpc: thresholdSetSchema,
+  roas: thresholdSetSchema.optional(),
+  costPerConversion: thresholdSetSchema.optional(),
+}).strict();
+
+export const semSkillSchema: z.ZodType<SEMSkillDefinition> = z.object({
+  version: z.string(),
+  context: z.object({
+    businessModel: z.string(),
+    conversionDefinition: z.string(),
+    typicalCustomerJourney: z.string(),
+  }).strict(),
+  kpis: kpisSchema,
+  benchmarks: semBenchmarksSchema,
+  analysis: z.object({
+    keyPatterns: z.array(analysisPatternSchema),
+    antiPatterns: z.array(analysisPatternSchema),
+    opportunities: z.array(z.object({
+      type: z.string(),
+      description: z.string(),
+      signals: z.array(z.string()),
+      typicalAction: z.string(),
+    }).strict()),
+  }).strict(),
+  prompt: z.object({
+    roleContext: z.string().min(1),
+    analysisInstructions: z.string().min(1),
+    outputGuidance: z.string().min(1),
+    examples: z.array(z.object({
+      scenario: z.string(),
+      data: z.string(),
+      recommendation: z.string(),
+      reasoning: z.string(),
+    }).strict()),
+    constraints: z.array(z.string()),
+  }).strict(),
+  output: z.object({
+    recommendationTypes: recommendationTypesSchema,
+    maxRecommendations: z.number().int().min(1),
+    requireQuantifiedImpact: z.boolean(),
+  }).strict(),
+}).strict();
+
+// ============================================================================
+// SEO
+// ============================================================================
+
+const schemaRuleSchema = z.object({
+  type: z.string(),
+  description: z.string(),
+  importance: z.enum(['required', 'recommended', 'optional']),
+  validationNotes: z.string(),
+}).strict();
+
+const issueDefinitionSchema = z.object({
+  id: z.string(),
+  pattern: z.string(),
+  description: z.string(),
+  recommendation: z.string(),
+}).strict();
+
+export const seoBenchmarksSchema = z.object({
+  organicCtr: thresholdSetSchema,
+  bounceRate: thresholdSetSchema,
+  avgPosition: thresholdSetSchema,
+  pageLoadTime: thresholdSetSchema.optional(),
+}).strict();
+
+export const seoSkillSchema: z.ZodType<SEOSkillDefinition> = z.object({
+  version: z.string(),
+  context: z.object({
+    siteType: z.string(),
+    primaryGoal: z.string(),
+    contentStrategy: z.string(),
+  }).strict(),
+  schema: z.object({
+    required: z.array(schemaRuleSchema),
+    recommended: z.array(schemaRuleSchema),
+    invalid: z.array(schemaRuleSchema),
+    pageTypeRules: z.array(z.object({
+      pageType: z.string(),
+      requiredSchema: z.array(z.string()),
+      recommendedSchema: z.array(z.string()),
+      invalidSchema: z.array(z.string()),
+    }).strict()),
+  }).strict(),
+  kpis: kpisSchema,
+  benchmarks: seoBenchmarksSchema,
+  analysis: z.object({
+    contentPatterns: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      goodPattern: z.string(),
+      badPattern: z.string(),
+      recommendation: z.string(),
+    }).strict()),
+    technicalChecks: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      importance: levelSchema,
+      description: z.string(),
+    }).strict()),
+    onPageFactors: z.array(z.object({
+      factor: z.string(),
+      importance: levelSchema,
+      guidance: z.string(),
+    }).strict()),
+  }).strict(),
+  prompt: z.object({
+    roleContext: z.string().min(1),
+    analysisInstructions: z.string().min(1),
+    outputGuidance: z.string().min(1),
+    examples: z.array(z.object({
+      scenario: z.string(),
+      pageData: z.string(),
+      recommendation: z.string(),
+      reasoning: z.string(),
+    }).strict()),
+    constraints: z.array(z.string()),
+  }).strict(),
+  commonIssues: z.object({
+    critical: z.array(issueDefinitionSchema),
+    warnings: z.array(issueDefinitionSchema),
+    falsePositives: z.array(z.string()),
+  }).strict(),
+  output: z.object({
+    recommendationTypes: recommendationTypesSchema,
+    maxRecommendations: z.number().int().min(1),
+  }).strict(),
+}).strict();
+
+// ============================================================================
+// DIRECTOR
+// ============================================================================
+
+export const directorSkillSchema: z.ZodType<DirectorSkillDefinition> = z.object({
+  version: z.string(),
+  context: z.object({
+    businessPriorities: z.array(z.string()),
+    successMetrics: z.array(z.string()),
+    executiveFraming: z.string(),
+  }).strict(),
+  synthesis: z.object({
+    conflictResolution: z.array(z.object({
+      id: z.string(),
+      semSignal: z.string(),
+      seoSignal: z.string(),
+      resolution: z.string(),
+      resultingType: z.enum(['sem', 'seo', 'hybrid', 'drop']),
+    }).strict()),
+    synergyIdentification: z.array(z.object({
+      id: z.string(),
+      semCondition: z.string(),
+      seoCondition: z.string(),
+      combinedRecommendation: z.string(),
+    }).strict()),
+    prioritization: z.array(z.object({
+      condition: z.string(),
+      adjustment: z.enum(['boost', 'reduce', 'require', 'exclude']),
+      factor: z.number(),
+      reason: z.string(),
+    }).strict()),
+  }).strict(),
+  filtering: z.object({
+    maxRecommendations: z.number().int().min(1),
+    minImpactThreshold: z.enum(['high', 'medium', 'low']),
+    impactWeights: z.object({
+      revenue: z.number(),
+      cost: z.number(),
+      effort: z.number(),
+      risk: z.number(),
+    }).strict(),
+    mustInclude: z.array(z.string()),
+    mustExclude: z.array(z.string()),
+  }).strict(),
+  executiveSummary: z.object({
+    focusAreas: z.array(z.string()),
+    metricsToQuantify: z.array(z.string()),
+    framingGuidance: z.string(),
+    maxHighlights: z.number().int().min(1),
+  }).strict(),
+  prompt: z.object({
+    roleContext: z.string().min(1),
+    synthesisInstructions: z.string().min(1),
+    prioritizationGuidance: z.string(),
+    outputFormat: z.string(),
+    constraints: z.array(z.string()),
+  }).strict(),
+  output: z.object({
+    recommendationFormat: z.object({
+      requireTitle: z.boolean(),
+      requireDescription: z.boolean(),
+      requireImpact: z.boolean(),
+      requireEffort: z.boolean(),
+      requireActionItems: z.boolean(),
+      maxActionItems: z.number().int().min(1),
+    }).strict(),
+    categoryLabels: z.object({
+      sem: z.string(),
+      seo: z.string(),
+      hybrid: z.string(),
+    }).strict(),
+  }).strict(),
+}).strict();
+
+// ============================================================================
+// BUNDLE
+// ============================================================================
+
+export const agentSkillBundleSchema: z.ZodType<AgentSkillBundle> = z.object({
+  businessType: businessTypeSchema,
+  version: z.string(),
+  scout: scoutSkillSchema,
+  researcher: researcherSkillSchema,
+  sem: semSkillSchema,
+  seo: seoSkillSchema,
+  director: directorSkillSchema,
+}).strict();
+
+// ============================================================================
+// CLIENT OVERRIDES
+// ============================================================================
+
+const thresholdSetOverrideSchema = z.object({
+  excellent: z.number(),
+  good: z.number(),
+  average: z.number(),
+  poor: z.number(),
+}).partial().strict();
+
+export const clientSkillOverridesSchema: z.ZodType<ClientSkillOverrides> = z.object({
+  scout: z.object({
+    thresholds: scoutThresholdsSchema.partial(),
+  }).partial().strict(),
+  sem: z.object({
+    benchmarks: z.object({
+      ctr: thresholdSetOverrideSchema,
+      conversionRate: thresholdSetOverrideSchema,
+      cpc: thresholdSetOverrideSchema,
+      roas: thresholdSetOverrideSchema,
+      costPerConversion: thresholdSetOverrideSchema,
+    }).partial().strict(),
+  }).partial().strict(),
+  seo: z.object({
+    benchmarks: z.object({
+      organicCtr: thresholdSetOverrideSchema,
+      bounceRate: thresholdSetOverrideSchema,
+      avgPosition: thresholdSetOverrideSchema,
+      pageLoadTime: thresholdSetOverrideSchema,
+    }).partial().strict(),
+  }).partial().strict(),
+}).partial().strict();
+
+export interface SkillValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type SkillBundleValidationResult =
+  | { valid: true; bundle: AgentSkillBundle }
+  | { valid: false; issues: SkillValidationIssue[] };
+
+/**
+ * Validate a complete bundle against the skill interfaces.
+ */
+export function validateSkillBundle(bundle: unknown): SkillBundleValidationResult {
+  const result = agentSkillBundleSchema.safeParse(bundle);
+
+  if (result.success) {
+    return { valid: true, bundle: result.data };
+  }
+
+  return {
+    valid: false,
+    issues: result.error.errors.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    })),
+  };
+}
@@ -22,6 +22,11 @@ export {
   InterplayReportDateRange,
   InterplayReportMetadata,
   InterplayReportResponse,
+  InterplayReportDiff,
+  InterplayReportHistoryResponse,
+  ReportPhase,
+  ReportPhaseEvent,
+  ReportProgressStatus,
 } from '@advergent/shared';
 
 export type { UnifiedRecommendation as UnifiedRecommendationType } from '@advergent/shared';
@@ -92,8 +97,20 @@ export interface CompetitiveMetrics {
   dataLevel: CompetitiveDataLevel;
 }
 
+/**
+ * Campaign and ad group a keyword ran in, from google_ads_queries
+ */
+export interface KeywordAdPlacement {
+  campaign: string;
+  adGroup: string | null;
+  matchType: string | null;
+  spend: number;
+}
+
 export interface EnrichedKeyword extends BattlegroundKeyword {
   competitiveMetrics?: CompetitiveMetrics;
+  /** Highest-spend placements first */
+  adPlacements?: KeywordAdPlacement[];
 }
 
 export interface PageContent {
@@ -125,6 +142,17 @@ import type { ImpactLevel } from '@advergent/shared';
 
 export type SEMActionLevel = 'campaign' | 'ad_group' | 'keyword';
 
+export type SEMOperation =
+  | 'adjust_bid'
+  | 'adjust_budget'
+  | 'pause'
+  | 'enable'
+  | 'add_keyword'
+  | 'add_negative_keyword'
+  | 'other';
+
+export type SEMMatchType = 'exact' | 'phrase' | 'broad';
+
 export interface SEMAction {
   action: string;
   level: SEMActionLevel;
@@ -132,6 +160,14 @@ export interface SEMAction {
   reasoning: string;
   impact: ImpactLevel;
   keyword?: string;
+  // Structured change, used for bulk-upload exports. Absent on reports
+  // generated before the SEM agent returned them.
+  operation?: SEMOperation;
+  campaign?: string;
+  adGroup?: string;
+  matchType?: SEMMatchType;
+  /** Signed bid or budget change for adjust_bid / adjust_budget, e.g. -20 */
+  changePercent?: number;
 }
 
 export interface SEMAgentOutput {
@@ -169,8 +205,13 @@ export interface DirectorOutput {
 // ORCHESTRATOR TYPES (Backend-specific)
 // ============================================================================
 
-import type { ReportTrigger, InterplayReportResponse } from '@advergent/shared';
-import type { BusinessType } from './skills/types.js';
+import type {
+  ReportTrigger,
+  InterplayReportResponse,
+  ReportCustomSkillBundle,
+  ReportSkillExperiment,
+} from '@advergent/shared';
+import type { BusinessType, ClientSkillOverrides } from './skills/types.js';
 
 export interface GenerateReportOptions {
   days?: number;
@@ -178,6 +219,24 @@ export interface GenerateReportOptions {
   businessType?: BusinessType;
 }
 
+export interface ReplayReportOptions {
+  days?: number;
+  businessType?: BusinessType;
+  /** Answer prompts that no longer match the recording instead of failing */
+  allowPromptDrift?: boolean;
+}
+
+/**
+ * Agent outputs of one pipeline run
+ */
+export interface InterplayPipelineOutput {
+  scoutFindings: ScoutFindings;
+  researcherData: ResearcherData;
+  semAgentOutput: SEMAgentOutput;
+  seoAgentOutput: SEOAgentOutput;
+  directorOutput: DirectorOutput;
+}
+
 // ============================================================================
 // REPORT METADATA TYPES
 // ============================================================================
@@ -192,6 +251,12 @@ export interface SkillBundleMetadata {
   version: string;
   usingFallback: boolean;
   fallbackFrom?: BusinessType;
+  /** Agency custom bundle, when the client uses one instead of the built-in */
+  customBundle?: ReportCustomSkillBundle;
+  /** Experiment variant, when the agency is A/B testing the built-in bundle */
+  experiment?: ReportSkillExperiment;
+  /** Client threshold/benchmark overrides merged over the bundle */
+  clientOverrides?: ClientSkillOverrides;
 }
 
 export interface ReportPerformanceMetrics {
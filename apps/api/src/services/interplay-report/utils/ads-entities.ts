@@ -0,0 +1,150 @@
+/**
+ * Ads Entities - Campaign, ad group and keyword names known for a client
+ *
+ * Built from google_ads_queries (API syncs and keyword CSV uploads) and
+ * campaign_metrics (campaign CSV uploads). The researcher uses it to tell
+ * the SEM agent where each keyword runs; bulk-upload exports use it to
+ * match SEM actions to real account entities.
+ */
+
+import { db } from '@/db/index.js';
+import { campaignMetrics, googleAdsQueries, searchQueries } from '@/db/schema.js';
+import { and, eq, gte, isNotNull, lte, sql } from 'drizzle-orm';
+import type { DateRange } from './data-constructor.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AdsCampaignEntity {
+  name: string;
+  status: string | null;
+}
+
+export interface AdsAdGroupEntity {
+  campaign: string;
+  name: string;
+  status: string | null;
+}
+
+export interface AdsKeywordEntity {
+  campaign: string;
+  adGroup: string | null;
+  text: string;
+  matchType: string | null;
+  status: string | null;
+  spend: number;
+}
+
+export interface AdsEntityCatalog {
+  campaigns: AdsCampaignEntity[];
+  adGroups: AdsAdGroupEntity[];
+  keywords: AdsKeywordEntity[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const MICROS_PER_UNIT = 1_000_000;
+
+/**
+ * Case- and whitespace-insensitive key for matching entity names
+ */
+export function entityNameKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// ============================================================================
+// CATALOG
+// ============================================================================
+
+export async function loadAdsEntityCatalog(
+  clientAccountId: string,
+  dateRange: DateRange
+): Promise<AdsEntityCatalog> {
+  const [keywordRows, campaignRows] = await Promise.all([
+    db
+      .select({
+        campaign: googleAdsQueries.campaignName,
+        adGroup: googleAdsQueries.adGroupName,
+        text: searchQueries.queryText,
+        matchType: sql<string | null>`MAX(${googleAdsQueries.matchType})`,
+        status: sql<string | null>`MAX(${googleAdsQueries.criterionStatus})`,
+        campaignStatus: sql<string | null>`MAX(${googleAdsQueries.campaignStatus})`,
+        adGroupStatus: sql<string | null>`MAX(${googleAdsQueries.adGroupStatus})`,
+        costMicros: sql<number>`COALESCE(SUM(${googleAdsQueries.costMicros}), 0)::float`,
+      })
+      .from(googleAdsQueries)
+      .innerJoin(searchQueries, eq(googleAdsQueries.searchQueryId, searchQueries.id))
+      .where(
+        and(
+          eq(googleAdsQueries.clientAccountId, clientAccountId),
+          isNotNull(googleAdsQueries.campaignName),
+          gte(googleAdsQueries.date, dateRange.start),
+          lte(googleAdsQueries.date, dateRange.end)
+        )
+      )
+      .groupBy(googleAdsQueries.campaignName, googleAdsQueries.adGroupName, searchQueries.queryText),
+    db
+      .select({
+        name: campaignMetrics.campaignName,
+        status: campaignMetrics.campaignStatus,
+      })
+      .from(campaignMetrics)
+      .where(
+        and(
+          eq(campaignMetrics.clientAccountId, clientAccountId),
+          // Any upload overlapping the report range
+          lte(campaignMetrics.dateRangeStart, dateRange.end),
+          gte(campaignMetrics.dateRangeEnd, dateRange.start)
+        )
+      )
+      .orderBy(campaignMetrics.createdAt),
+  ]);
+
+  const campaigns = new Map<string, AdsCampaignEntity>();
+  const adGroups = new Map<string, AdsAdGroupEntity>();
+  const keywords: AdsKeywordEntity[] = [];
+
+  for (const row of keywordRows) {
+    const campaignName = row.campaign!;
+    const campaignKey = entityNameKey(campaignName);
+    const campaign = campaigns.get(campaignKey) ?? { name: campaignName, status: null };
+    campaign.status ??= row.campaignStatus;
+    campaigns.set(campaignKey, campaign);
+
+    if (row.adGroup) {
+      const adGroupKey = `${campaignKey}\u0000${entityNameKey(row.adGroup)}`;
+      const adGroup = adGroups.get(adGroupKey) ?? { campaign: campaignName, name: row.adGroup, status: null };
+      adGroup.status ??= row.adGroupStatus;
+      adGroups.set(adGroupKey, adGroup);
+    }
+
+    keywords.push({
+      campaign: campaignName,
+      adGroup: row.adGroup,
+      text: row.text,
+      matchType: row.matchType,
+      status: row.status,
+      spend: row.costMicros / MICROS_PER_UNIT,
+    });
+  }
+
+  // Campaign uploads also cover campaigns with no tracked queries. Rows are
+  // oldest first; the latest status wins.
+  for (const row of campaignRows) {
+    const key = entityNameKey(row.name);
+    const existing = campaigns.get(key);
+    campaigns.set(key, {
+      name: existing?.name ?? row.name,
+      status: row.status ?? existing?.status ?? null,
+    });
+  }
+
+  return {
+    campaigns: [...campaigns.values()],
+    adGroups: [...adGroups.values()],
+    keywords: keywords.sort((a, b) => b.spend - a.spend),
+  };
+}
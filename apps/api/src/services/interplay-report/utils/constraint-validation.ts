@@ -10,7 +10,6 @@
  */
 
 import { logger } from '@/utils/logger.js';
-import crypto from 'crypto';
 import type { DirectorSkillDefinition } from '../skills/types.js';
 import type { SEMAgentOutput, SEOAgentOutput, SEMAction, SEOAction } from '../types.js';
 
@@ -39,7 +38,7 @@ export type ActionType =
  * for consistent constraint validation.
  */
 export interface NormalizedAction {
-  /** Unique identifier for the action */
+  /** Source and position in the agent's output, e.g. 'sem-0'; stable across replays */
   id: string;
   /** Source agent (sem or seo) */
   source: 'sem' | 'seo';
@@ -227,11 +226,11 @@ function extractSchemaTypes(text: string): string[] {
 /**
  * Normalizes a SEM action for constraint validation.
  */
-export function normalizeSEMAction(action: SEMAction): NormalizedAction {
+export function normalizeSEMAction(action: SEMAction, index: number): NormalizedAction {
   const text = `${action.action} ${action.reasoning}`.toLowerCase();
 
   return {
-    id: crypto.randomUUID(),
+    id: `sem-${index}`,
     source: 'sem',
     type: inferActionType(text, 'sem'),
     text,
@@ -245,11 +244,11 @@ export function normalizeSEMAction(action: SEMAction): NormalizedAction {
 /**
  * Normalizes an SEO action for constraint validation.
  */
-export function normalizeSEOAction(action: SEOAction): NormalizedAction {
+export function normalizeSEOAction(action: SEOAction, index: number): NormalizedAction {
   const text = `${action.recommendation} ${action.specificActions.join(' ')}`.toLowerCase();
 
   return {
-    id: crypto.randomUUID(),
+    id: `seo-${index}`,
     source: 'seo',
     type: inferActionType(text, 'seo'),
     text,
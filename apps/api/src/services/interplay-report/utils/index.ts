@@ -4,6 +4,15 @@
 
 export { constructInterplayDataFromDb, type DateRange } from './data-constructor.js';
 
+export {
+  loadAdsEntityCatalog,
+  entityNameKey,
+  type AdsEntityCatalog,
+  type AdsCampaignEntity,
+  type AdsAdGroupEntity,
+  type AdsKeywordEntity,
+} from './ads-entities.js';
+
 // Phase 6: Constraint Validation
 export {
   validateUpstreamConstraints,
@@ -39,3 +48,18 @@ export {
   type SkillAlert,
   type AlertSeverity,
 } from './alerts.js';
+
+export {
+  buildReportDiff,
+  diffRecommendations,
+  diffBattlegroundKeywords,
+  diffSummaryMetrics,
+  RECOMMENDATION_MATCH_THRESHOLD,
+  type ReportDiffInput,
+} from './report-diff.js';
+
+export {
+  createProgressTracker,
+  getReportPhaseEvents,
+  ProgressTracker,
+} from './progress.js';
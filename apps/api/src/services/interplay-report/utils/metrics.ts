@@ -23,6 +23,10 @@ export interface ReportMetricsData {
   skillVersion: string;
   usingFallback: boolean;
 
+  // Skill experiment arm
+  experimentId?: string;
+  variantId?: string;
+
   // Constraint violations
   constraintViolations: number;
   violationsByRule: Record<string, number>;
@@ -46,6 +50,9 @@ export interface ReportMetricsData {
   truncationApplied: boolean;
   keywordsDropped: number;
   pagesDropped: number;
+
+  // LLM usage
+  tokensUsed?: number;
 }
 
 // ============================================================================
@@ -64,6 +71,8 @@ export async function saveReportMetrics(data: ReportMetricsData): Promise<void>
       businessType: data.businessType,
       skillVersion: data.skillVersion,
       usingFallback: data.usingFallback,
+      experimentId: data.experimentId,
+      variantId: data.variantId,
       constraintViolations: data.constraintViolations,
       violationsByRule: JSON.stringify(data.violationsByRule),
       roasMentions: data.roasMentions,
@@ -80,6 +89,7 @@ export async function saveReportMetrics(data: ReportMetricsData): Promise<void>
       truncationApplied: data.truncationApplied,
       keywordsDropped: data.keywordsDropped,
       pagesDropped: data.pagesDropped,
+      tokensUsed: data.tokensUsed,
     });
 
     metricsLogger.debug(
@@ -136,6 +146,12 @@ export class MetricsBuilder {
     return this;
   }
 
+  setExperiment(experimentId: string, variantId: string): this {
+    this.data.experimentId = experimentId;
+    this.data.variantId = variantId;
+    return this;
+  }
+
   setConstraintViolations(
     count: number,
     byRule: Record<string, number>
@@ -179,6 +195,11 @@ export class MetricsBuilder {
     return this;
   }
 
+  setTokensUsed(tokensUsed: number): this {
+    this.data.tokensUsed = tokensUsed;
+    return this;
+  }
+
   build(): ReportMetricsData {
     // Validate required fields
     if (!this.data.reportId) {
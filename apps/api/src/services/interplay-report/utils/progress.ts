@@ -0,0 +1,154 @@
+/**
+ * Report Progress Events
+ *
+ * Records pipeline phase events (started / progress / completed / failed)
+ * so the browser can follow a report as it is generated. Events are written
+ * to the database because reports run in the job worker, not the API process.
+ */
+
+import { db } from '@/db/index.js';
+import { reportPhaseEvents } from '@/db/schema.js';
+import { eq, and, gt, asc } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import type { ReportPhase, ReportPhaseEvent, ReportPhaseEventType } from '@advergent/shared';
+
+const progressLogger = logger.child({ module: 'report-progress' });
+
+// ============================================================================
+// PROGRESS TRACKER
+// ============================================================================
+
+interface PhaseEventInput {
+  phase: ReportPhase;
+  type: ReportPhaseEventType;
+  message?: string;
+  progress?: { current: number; total: number };
+  durationMs?: number;
+}
+
+/**
+ * Emits phase events for one report.
+ *
+ * Calls are synchronous and writes are chained in order behind the scenes,
+ * so agents can report progress without awaiting database round trips.
+ * Write failures are logged and never break report generation.
+ */
+export class ProgressTracker {
+  private sequence = 0;
+  private pending: Promise<void> = Promise.resolve();
+  private readonly startedAt = new Map<ReportPhase, number>();
+
+  constructor(private readonly reportId: string) {}
+
+  start(phase: ReportPhase, message?: string): void {
+    this.startedAt.set(phase, Date.now());
+    this.emit({ phase, type: 'started', message });
+  }
+
+  progress(phase: ReportPhase, current: number, total: number, message?: string): void {
+    this.emit({ phase, type: 'progress', progress: { current, total }, message });
+  }
+
+  /**
+   * Mark a phase complete. Pass durationMs for phases timed before the tracker existed.
+   * Returns the phase duration.
+   */
+  complete(phase: ReportPhase, message?: string, durationMs?: number): number {
+    const duration = durationMs ?? this.elapsed(phase);
+    this.startedAt.delete(phase);
+    this.emit({ phase, type: 'completed', message, durationMs: duration });
+    return duration;
+  }
+
+  fail(phase: ReportPhase, message: string): void {
+    const duration = this.elapsed(phase);
+    this.startedAt.delete(phase);
+    this.emit({ phase, type: 'failed', message, durationMs: duration });
+  }
+
+  /**
+   * Fail every phase that started but never completed (pipeline error)
+   */
+  failActive(message: string): void {
+    for (const phase of [...this.startedAt.keys()]) {
+      this.fail(phase, message);
+    }
+  }
+
+  /**
+   * Wait for queued writes, e.g. before the report is marked completed
+   */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  private elapsed(phase: ReportPhase): number {
+    const start = this.startedAt.get(phase);
+    return start ? Date.now() - start : 0;
+  }
+
+  private emit(event: PhaseEventInput): void {
+    const sequence = ++this.sequence;
+    const reportId = this.reportId;
+
+    this.pending = this.pending.then(async () => {
+      try {
+        await db.insert(reportPhaseEvents).values({
+          reportId,
+          sequence,
+          phase: event.phase,
+          eventType: event.type,
+          message: event.message,
+          progressCurrent: event.progress?.current,
+          progressTotal: event.progress?.total,
+          durationMs: event.durationMs,
+        });
+      } catch (error) {
+        // Don't throw - progress reporting should not break report generation
+        progressLogger.error({ error, reportId, phase: event.phase, type: event.type }, 'Failed to record phase event');
+      }
+    });
+  }
+}
+
+/**
+ * Factory function to create a progress tracker for a report
+ */
+export function createProgressTracker(reportId: string): ProgressTracker {
+  return new ProgressTracker(reportId);
+}
+
+// ============================================================================
+// READ EVENTS
+// ============================================================================
+
+/**
+ * Phase events for a report in emission order, optionally after a sequence cursor
+ */
+export async function getReportPhaseEvents(
+  reportId: string,
+  afterSequence = 0
+): Promise<ReportPhaseEvent[]> {
+  const rows = await db
+    .select()
+    .from(reportPhaseEvents)
+    .where(and(
+      eq(reportPhaseEvents.reportId, reportId),
+      gt(reportPhaseEvents.sequence, afterSequence)
+    ))
+    .orderBy(asc(reportPhaseEvents.sequence));
+
+  return rows.map((row) => ({
+    sequence: row.sequence,
+    reportId: row.reportId,
+    phase: row.phase,
+    type: row.eventType,
+    message: row.message,
+    progress:
+      row.progressCurrent !== null && row.progressTotal !== null
+        ? { current: row.progressCurrent, total: row.progressTotal }
+        : null,
+    durationMs: row.durationMs,
+    createdAt: row.createdAt?.toISOString() ?? new Date().toISOString(),
+  }));
+}
@@ -0,0 +1,358 @@
+/**
+ * Report Diff
+ *
+ * Compares two interplay reports for the same client: which recommendations
+ * are new, resolved or persisting, how battleground keywords shifted, and how
+ * the headline summary metrics moved.
+ */
+
+import type {
+  UnifiedRecommendation,
+  ScoutFindings,
+  BattlegroundKeyword,
+} from '../types.js';
+import type {
+  InterplayReportDiff,
+  ReportDiffReportRef,
+  RecommendationDiffEntry,
+  BattlegroundKeywordDiff,
+  BattlegroundKeywordSnapshot,
+  SummaryMetricChange,
+} from '@advergent/shared';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReportDiffInput {
+  ref: ReportDiffReportRef;
+  recommendations: UnifiedRecommendation[];
+  scoutFindings?: ScoutFindings;
+}
+
+interface RecommendationFeatures {
+  titleTokens: Set<string>;
+  anchors: Set<string>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Minimum similarity for two recommendations to be treated as the same item */
+export const RECOMMENDATION_MATCH_THRESHOLD = 0.4;
+
+/** Relative spend/ROAS movement that counts as a battleground keyword change */
+const RELATIVE_CHANGE_THRESHOLD = 0.1;
+
+/** Organic position movement (in positions) that counts as a change */
+const POSITION_CHANGE_THRESHOLD = 1;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'onto', 'that', 'this', 'your', 'our',
+  'are', 'was', 'were', 'will', 'can', 'should', 'via', 'per', 'all', 'any', 'not',
+]);
+
+const URL_PATTERN = /https?:\/\/[^\s"'<>)]+|(?:^|\s)(\/[a-z0-9][\w\-/.]*)/gi;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Build a diff between an older (`from`) and newer (`to`) report.
+ */
+export function buildReportDiff(from: ReportDiffInput, to: ReportDiffInput): InterplayReportDiff {
+  const keywords = collectKeywords(from.scoutFindings, to.scoutFindings);
+
+  return {
+    from: from.ref,
+    to: to.ref,
+    recommendations: diffRecommendations(from.recommendations, to.recommendations, keywords),
+    battlegroundKeywords: diffBattlegroundKeywords(
+      from.scoutFindings?.battlegroundKeywords ?? [],
+      to.scoutFindings?.battlegroundKeywords ?? []
+    ),
+    summaryMetrics: diffSummaryMetrics(from, to),
+  };
+}
+
+/**
+ * Match recommendations across reports by title similarity and shared
+ * anchors (URLs and battleground keywords mentioned in the text).
+ */
+export function diffRecommendations(
+  previous: UnifiedRecommendation[],
+  current: UnifiedRecommendation[],
+  keywords: string[] = []
+): InterplayReportDiff['recommendations'] {
+  const previousFeatures = previous.map((rec) => extractFeatures(rec, keywords));
+  const currentFeatures = current.map((rec) => extractFeatures(rec, keywords));
+
+  // Score every pair, then greedily take the best matches first
+  const candidates: { prevIdx: number; currIdx: number; score: number }[] = [];
+  previousFeatures.forEach((prev, prevIdx) => {
+    currentFeatures.forEach((curr, currIdx) => {
+      const score = recommendationSimilarity(prev, curr);
+      if (score >= RECOMMENDATION_MATCH_THRESHOLD) {
+        candidates.push({ prevIdx, currIdx, score });
+      }
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matchedPrevious = new Set<number>();
+  const matchedCurrent = new Map<number, { prevIdx: number; score: number }>();
+  for (const candidate of candidates) {
+    if (matchedPrevious.has(candidate.prevIdx) || matchedCurrent.has(candidate.currIdx)) {
+      continue;
+    }
+    matchedPrevious.add(candidate.prevIdx);
+    matchedCurrent.set(candidate.currIdx, { prevIdx: candidate.prevIdx, score: candidate.score });
+  }
+
+  const result: InterplayReportDiff['recommendations'] = { new: [], resolved: [], persisting: [] };
+
+  current.forEach((rec, currIdx) => {
+    const match = matchedCurrent.get(currIdx);
+    if (!match) {
+      result.new.push({ status: 'new', recommendation: rec });
+      return;
+    }
+    const prev = previous[match.prevIdx];
+    const entry: RecommendationDiffEntry = {
+      status: 'persisting',
+      recommendation: rec,
+      previous: prev,
+      similarity: round(match.score, 2),
+      changes: describeRecommendationChanges(prev, rec),
+    };
+    result.persisting.push(entry);
+  });
+
+  previous.forEach((rec, prevIdx) => {
+    if (!matchedPrevious.has(prevIdx)) {
+      result.resolved.push({ status: 'resolved', recommendation: rec });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Compare battleground keywords from two sets of scout findings.
+ * Keywords are keyed by normalized query text.
+ */
+export function diffBattlegroundKeywords(
+  previous: BattlegroundKeyword[],
+  current: BattlegroundKeyword[]
+): BattlegroundKeywordDiff[] {
+  const previousByQuery = new Map(previous.map((kw) => [normalizeQuery(kw.query), kw]));
+  const currentByQuery = new Map(current.map((kw) => [normalizeQuery(kw.query), kw]));
+  const diffs: BattlegroundKeywordDiff[] = [];
+
+  for (const [key, curr] of currentByQuery) {
+    const prev = previousByQuery.get(key);
+    diffs.push({
+      query: curr.query,
+      change: !prev ? 'added' : hasKeywordChanged(prev, curr) ? 'changed' : 'unchanged',
+      previous: prev ? toSnapshot(prev) : null,
+      current: toSnapshot(curr),
+    });
+  }
+
+  for (const [key, prev] of previousByQuery) {
+    if (!currentByQuery.has(key)) {
+      diffs.push({ query: prev.query, change: 'removed', previous: toSnapshot(prev), current: null });
+    }
+  }
+
+  const order: Record<BattlegroundKeywordDiff['change'], number> = { added: 0, removed: 1, changed: 2, unchanged: 3 };
+  return diffs.sort(
+    (a, b) =>
+      order[a.change] - order[b.change] ||
+      (b.current?.spend ?? b.previous?.spend ?? 0) - (a.current?.spend ?? a.previous?.spend ?? 0)
+  );
+}
+
+/**
+ * Headline metric changes between reports.
+ */
+export function diffSummaryMetrics(from: ReportDiffInput, to: ReportDiffInput): SummaryMetricChange[] {
+  const previous = summarize(from);
+  const current = summarize(to);
+
+  return SUMMARY_METRICS.map(({ key, label }) => {
+    const prev = previous[key];
+    const curr = current[key];
+    return {
+      key,
+      label,
+      previous: prev,
+      current: curr,
+      delta: prev !== null && curr !== null ? round(curr - prev, 2) : null,
+    };
+  });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const SUMMARY_METRICS = [
+  { key: 'recommendations', label: 'Recommendations' },
+  { key: 'highImpactRecommendations', label: 'High-impact recommendations' },
+  { key: 'semRecommendations', label: 'SEM recommendations' },
+  { key: 'seoRecommendations', label: 'SEO recommendations' },
+  { key: 'hybridRecommendations', label: 'Hybrid recommendations' },
+  { key: 'keywordsAnalyzed', label: 'Keywords analyzed' },
+  { key: 'pagesAnalyzed', label: 'Pages analyzed' },
+  { key: 'battlegroundKeywords', label: 'Battleground keywords' },
+  { key: 'highPriorityItems', label: 'High-priority items' },
+  { key: 'criticalPages', label: 'Critical pages' },
+  { key: 'battlegroundSpend', label: 'Battleground spend' },
+  { key: 'battlegroundConversions', label: 'Battleground conversions' },
+] as const;
+
+type SummaryMetricKey = (typeof SUMMARY_METRICS)[number]['key'];
+
+function summarize(input: ReportDiffInput): Record<SummaryMetricKey, number | null> {
+  const recs = input.recommendations;
+  const scout = input.scoutFindings;
+  const keywords = scout?.battlegroundKeywords ?? [];
+
+  return {
+    recommendations: recs.length,
+    highImpactRecommendations: recs.filter((r) => r.impact === 'high').length,
+    semRecommendations: recs.filter((r) => r.type === 'sem').length,
+    seoRecommendations: recs.filter((r) => r.type === 'seo').length,
+    hybridRecommendations: recs.filter((r) => r.type === 'hybrid').length,
+    keywordsAnalyzed: scout ? scout.summary.totalKeywordsAnalyzed : null,
+    pagesAnalyzed: scout ? scout.summary.totalPagesAnalyzed : null,
+    battlegroundKeywords: scout ? keywords.length : null,
+    highPriorityItems: scout ? scout.summary.highPriorityCount : null,
+    criticalPages: scout ? scout.criticalPages.length : null,
+    battlegroundSpend: scout ? round(keywords.reduce((sum, kw) => sum + kw.spend, 0), 2) : null,
+    battlegroundConversions: scout ? round(keywords.reduce((sum, kw) => sum + kw.conversions, 0), 2) : null,
+  };
+}
+
+function collectKeywords(...findings: (ScoutFindings | undefined)[]): string[] {
+  const keywords = new Set<string>();
+  for (const scout of findings) {
+    for (const kw of scout?.battlegroundKeywords ?? []) {
+      keywords.add(normalizeQuery(kw.query));
+    }
+  }
+  return [...keywords];
+}
+
+function extractFeatures(rec: UnifiedRecommendation, keywords: string[]): RecommendationFeatures {
+  const text = [rec.title, rec.description, ...(rec.actionItems ?? [])].join(' ');
+  const lowerText = text.toLowerCase();
+  const anchors = new Set<string>();
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const path = normalizeUrlPath(match[1] ?? match[0]);
+    if (path) {
+      anchors.add(`url:${path}`);
+    }
+  }
+  for (const keyword of keywords) {
+    if (keyword && lowerText.includes(keyword)) {
+      anchors.add(`kw:${keyword}`);
+    }
+  }
+
+  return { titleTokens: tokenize(rec.title), anchors };
+}
+
+function recommendationSimilarity(a: RecommendationFeatures, b: RecommendationFeatures): number {
+  const titleSimilarity = jaccard(a.titleTokens, b.titleTokens);
+  // Shared URLs/keywords are strong evidence even when the title was reworded
+  const anchorSimilarity = a.anchors.size > 0 && b.anchors.size > 0 ? jaccard(a.anchors, b.anchors) * 0.9 : 0;
+  return Math.max(titleSimilarity, anchorSimilarity);
+}
+
+function describeRecommendationChanges(prev: UnifiedRecommendation, curr: UnifiedRecommendation): string[] {
+  const changes: string[] = [];
+  if (prev.impact !== curr.impact) changes.push(`Impact: ${prev.impact} → ${curr.impact}`);
+  if (prev.effort !== curr.effort) changes.push(`Effort: ${prev.effort} → ${curr.effort}`);
+  if (prev.type !== curr.type) changes.push(`Type: ${prev.type} → ${curr.type}`);
+  if (prev.title !== curr.title) changes.push('Title reworded');
+  return changes;
+}
+
+function hasKeywordChanged(prev: BattlegroundKeyword, curr: BattlegroundKeyword): boolean {
+  if (prev.priority !== curr.priority || prev.reason !== curr.reason) {
+    return true;
+  }
+  if (relativeChange(prev.spend, curr.spend) > RELATIVE_CHANGE_THRESHOLD) {
+    return true;
+  }
+  if (relativeChange(prev.roas, curr.roas) > RELATIVE_CHANGE_THRESHOLD) {
+    return true;
+  }
+  if (
+    prev.organicPosition !== null &&
+    curr.organicPosition !== null &&
+    Math.abs(prev.organicPosition - curr.organicPosition) >= POSITION_CHANGE_THRESHOLD
+  ) {
+    return true;
+  }
+  return (prev.organicPosition === null) !== (curr.organicPosition === null);
+}
+
+function toSnapshot(kw: BattlegroundKeyword): BattlegroundKeywordSnapshot {
+  return {
+    priority: kw.priority,
+    reason: kw.reason,
+    spend: kw.spend,
+    roas: kw.roas,
+    organicPosition: kw.organicPosition,
+    impressionShare: kw.impressionShare,
+    conversions: kw.conversions,
+  };
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length > 2 && !STOPWORDS.has(token))
+  );
+}
+
+function jaccard<T>(a: Set<T>, b: Set<T>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let intersection = 0;
+  for (const item of a) {
+    if (b.has(item)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+function relativeChange(prev: number, curr: number): number {
+  if (prev === 0) return curr === 0 ? 0 : 1;
+  return Math.abs(curr - prev) / Math.abs(prev);
+}
+
+function normalizeQuery(query: string): string {
+  return query.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+/** Absolute and root-relative URLs compare on path only */
+function normalizeUrlPath(url: string): string {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\/[^/]+/, '')
+    .replace(/[.,;:]+$/, '')
+    .replace(/\/+$/, '');
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,455 @@
+import { db } from '@/db/index.js';
+import { clientAccounts, jobQueue } from '@/db/schema.js';
+import { eq, and, or, asc, desc, lt, lte, gt, inArray, notInArray, sql } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import type { ReportTrigger, BusinessType } from '@/services/interplay-report/index.js';
+
+const queueLogger = logger.child({ module: 'job-queue' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type QueueJobType = 'client_sync' | 'interplay_report' | 'webhook_delivery' | 'report_delivery';
+export type QueueJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type QueueJob = typeof jobQueue.$inferSelect;
+
+export interface ClientSyncPayload {
+  trigger: 'scheduled' | 'manual';
+  /** Pre-created sync_jobs row to drive (manual syncs) */
+  syncJobId?: string;
+}
+
+export interface InterplayReportPayload {
+  days: number;
+  trigger: ReportTrigger;
+  businessType?: BusinessType;
+  /** report_schedules row that requested this report */
+  scheduleId?: string;
+}
+
+export interface WebhookDeliveryPayload {
+  /** webhook_deliveries row to attempt */
+  deliveryId: string;
+}
+
+export interface ReportDeliveryPayload {
+  /** report_deliveries row to attempt */
+  deliveryId: string;
+}
+
+export interface JobPayloads {
+  client_sync: ClientSyncPayload;
+  interplay_report: InterplayReportPayload;
+  webhook_delivery: WebhookDeliveryPayload;
+  report_delivery: ReportDeliveryPayload;
+}
+
+export interface EnqueueJobOptions<T extends QueueJobType> {
+  jobType: T;
+  agencyId: string;
+  clientAccountId?: string;
+  referenceId?: string;
+  payload: JobPayloads[T];
+  maxAttempts?: number;
+  runAt?: Date;
+  /**
+   * Return an existing job of the same type for the client instead of adding another:
+   * 'queued' matches jobs not yet picked up, 'active' also matches running ones
+   */
+  dedupe?: 'queued' | 'active';
+}
+
+export interface EnqueueResult {
+  job: QueueJob;
+  created: boolean;
+}
+
+export interface ClaimOptions {
+  leaseSeconds: number;
+  agencyConcurrency: number;
+}
+
+export type FailOutcome = 'retry' | 'failed' | 'lost_lease';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_MAX_ATTEMPTS: Record<QueueJobType, number> = {
+  client_sync: 3,
+  // Each attempt runs the full LLM pipeline, so retry reports sparingly
+  interplay_report: 2,
+  // Backoff spreads these over roughly half an hour
+  webhook_delivery: 6,
+  report_delivery: 4,
+};
+
+/**
+ * Short network calls that neither count toward nor wait on the per-agency
+ * limit, so deliveries aren't held up behind a long report
+ */
+const AGENCY_UNLIMITED_JOB_TYPES: QueueJobType[] = ['webhook_delivery', 'report_delivery'];
+
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+/** Advisory lock key serializing claims so per-agency limits hold across workers */
+const CLAIM_LOCK_KEY = 74_210_001;
+
+// ============================================================================
+// ENQUEUE
+// ============================================================================
+
+async function findDuplicateJob(
+  jobType: QueueJobType,
+  clientAccountId: string,
+  dedupe: 'queued' | 'active'
+): Promise<QueueJob | undefined> {
+  const [existing] = await db
+    .select()
+    .from(jobQueue)
+    .where(and(
+      eq(jobQueue.jobType, jobType),
+      eq(jobQueue.clientAccountId, clientAccountId),
+      dedupe === 'queued'
+        ? eq(jobQueue.status, 'queued')
+        : or(eq(jobQueue.status, 'queued'), eq(jobQueue.status, 'running'))
+    ))
+    .orderBy(desc(jobQueue.createdAt))
+    .limit(1);
+
+  return existing;
+}
+
+/**
+ * Add a job to the queue. A deduplicated job carries a dedupe key until it is
+ * claimed; a partial unique index holds that to one queued job per type and
+ * key, so a concurrent enqueue that loses the race returns the winner's job
+ * instead of inserting a second one.
+ */
+export async function enqueueJob<T extends QueueJobType>(options: EnqueueJobOptions<T>): Promise<EnqueueResult> {
+  const { jobType, clientAccountId, dedupe } = options;
+  const dedupeKey = dedupe && clientAccountId ? clientAccountId : null;
+
+  if (dedupe && clientAccountId) {
+    const existing = await findDuplicateJob(jobType, clientAccountId, dedupe);
+
+    if (existing) {
+      queueLogger.info(
+        { jobId: existing.id, jobType: options.jobType, clientAccountId: options.clientAccountId },
+        'Active job already queued, skipping enqueue'
+      );
+      return { job: existing, created: false };
+    }
+  }
+
+  const [job] = await db
+    .insert(jobQueue)
+    .values({
+      jobType: options.jobType,
+      agencyId: options.agencyId,
+      clientAccountId: options.clientAccountId,
+      referenceId: options.referenceId,
+      dedupeKey,
+      payloadJson: JSON.stringify(options.payload),
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS[options.jobType],
+      runAt: options.runAt ?? new Date(),
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!job) {
+    // Another enqueue inserted the queued job between our check and insert
+    const existing = dedupeKey ? await findDuplicateJob(jobType, dedupeKey, 'active') : undefined;
+    if (!existing) {
+      throw new Error(`Failed to enqueue ${options.jobType} job`);
+    }
+
+    queueLogger.info(
+      { jobId: existing.id, jobType: options.jobType, clientAccountId: options.clientAccountId },
+      'Concurrent enqueue won, skipping enqueue'
+    );
+    return { job: existing, created: false };
+  }
+
+  queueLogger.info(
+    { jobId: job.id, jobType: job.jobType, agencyId: job.agencyId, clientAccountId: job.clientAccountId },
+    'Job enqueued'
+  );
+
+  return { job, created: true };
+}
+
+async function getClientAgencyId(clientAccountId: string): Promise<string> {
+  const [client] = await db
+    .select({ agencyId: clientAccounts.agencyId })
+    .from(clientAccounts)
+    .where(eq(clientAccounts.id, clientAccountId))
+    .limit(1);
+
+  if (!client) {
+    throw new Error(`Client not found: ${clientAccountId}`);
+  }
+  return client.agencyId;
+}
+
+/**
+ * Queue a data sync for a client. Syncs without a pre-created sync_jobs row
+ * collapse into one already waiting for a worker; a sync that is already running
+ * may have missed newly connected credentials, so it does not absorb the request.
+ */
+export async function enqueueClientSync(
+  clientAccountId: string,
+  payload: ClientSyncPayload
+): Promise<EnqueueResult> {
+  return enqueueJob({
+    jobType: 'client_sync',
+    agencyId: await getClientAgencyId(clientAccountId),
+    clientAccountId,
+    referenceId: payload.syncJobId,
+    payload,
+    dedupe: payload.syncJobId ? undefined : 'queued',
+  });
+}
+
+/**
+ * Queue interplay report generation for a client, deduplicated per client.
+ */
+export async function enqueueReportGeneration(
+  clientAccountId: string,
+  payload: InterplayReportPayload
+): Promise<EnqueueResult> {
+  return enqueueJob({
+    jobType: 'interplay_report',
+    agencyId: await getClientAgencyId(clientAccountId),
+    clientAccountId,
+    referenceId: payload.scheduleId,
+    payload,
+    dedupe: 'active',
+  });
+}
+
+// ============================================================================
+// WORKER OPERATIONS
+// ============================================================================
+
+/**
+ * Lease the next runnable job, skipping agencies already at their concurrency limit.
+ */
+export async function claimNextJob(workerId: string, options: ClaimOptions): Promise<QueueJob | null> {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(${CLAIM_LOCK_KEY})`);
+
+    const saturatedAgencies = tx
+      .select({ agencyId: jobQueue.agencyId })
+      .from(jobQueue)
+      .where(and(
+        eq(jobQueue.status, 'running'),
+        gt(jobQueue.lockedUntil, sql`now()`),
+        notInArray(jobQueue.jobType, AGENCY_UNLIMITED_JOB_TYPES)
+      ))
+      .groupBy(jobQueue.agencyId)
+      .having(sql`count(*) >= ${options.agencyConcurrency}`);
+
+    const [candidate] = await tx
+      .select({ id: jobQueue.id })
+      .from(jobQueue)
+      .where(and(
+        eq(jobQueue.status, 'queued'),
+        lte(jobQueue.runAt, sql`now()`),
+        or(
+          inArray(jobQueue.jobType, AGENCY_UNLIMITED_JOB_TYPES),
+          notInArray(jobQueue.agencyId, saturatedAgencies)
+        )
+      ))
+      .orderBy(asc(jobQueue.runAt), asc(jobQueue.createdAt))
+      .limit(1)
+      .for('update', { skipLocked: true });
+
+    if (!candidate) {
+      return null;
+    }
+
+    const [job] = await tx
+      .update(jobQueue)
+      .set({
+        status: 'running',
+        lockedBy: workerId,
+        lockedUntil: sql`now() + (${options.leaseSeconds} * interval '1 second')`,
+        heartbeatAt: sql`now()`,
+        attempts: sql`${jobQueue.attempts} + 1`,
+        startedAt: sql`now()`,
+        updatedAt: sql`now()`,
+        // Running jobs are deduplicated by the enqueue check alone, and a retry
+        // must be able to re-queue next to a newer queued job
+        dedupeKey: null,
+      })
+      .where(eq(jobQueue.id, candidate.id))
+      .returning();
+
+    return job;
+  });
+}
+
+/**
+ * Extend a job's lease. Returns false if the worker no longer holds it.
+ */
+export async function heartbeatJob(jobId: string, workerId: string, leaseSeconds: number): Promise<boolean> {
+  const updated = await db
+    .update(jobQueue)
+    .set({
+      lockedUntil: sql`now() + (${leaseSeconds} * interval '1 second')`,
+      heartbeatAt: sql`now()`,
+      updatedAt: sql`now()`,
+    })
+    .where(and(
+      eq(jobQueue.id, jobId),
+      eq(jobQueue.lockedBy, workerId),
+      eq(jobQueue.status, 'running')
+    ))
+    .returning({ id: jobQueue.id });
+
+  return updated.length > 0;
+}
+
+export async function completeJob(jobId: string, workerId: string, result?: unknown): Promise<void> {
+  await db
+    .update(jobQueue)
+    .set({
+      status: 'completed',
+      resultJson: result === undefined ? null : JSON.stringify(result),
+      lockedBy: null,
+      lockedUntil: null,
+      lastError: null,
+      completedAt: sql`now()`,
+      updatedAt: sql`now()`,
+    })
+    .where(and(eq(jobQueue.id, jobId), eq(jobQueue.lockedBy, workerId)));
+}
+
+/**
+ * Record a failed attempt. The job is re-queued with exponential backoff until
+ * it runs out of attempts.
+ */
+export async function failJob(job: QueueJob, workerId: string, error: unknown): Promise<FailOutcome> {
+  const message = error instanceof Error ? error.message : String(error);
+  const retry = job.attempts < job.maxAttempts;
+
+  const updated = await db
+    .update(jobQueue)
+    .set({
+      status: retry ? 'queued' : 'failed',
+      lastError: message,
+      lockedBy: null,
+      lockedUntil: null,
+      runAt: retry ? new Date(Date.now() + getBackoffMs(job.attempts)) : job.runAt,
+      completedAt: retry ? null : sql`now()`,
+      updatedAt: sql`now()`,
+    })
+    .where(and(eq(jobQueue.id, job.id), eq(jobQueue.lockedBy, workerId)))
+    .returning({ id: jobQueue.id });
+
+  if (updated.length === 0) {
+    return 'lost_lease';
+  }
+
+  queueLogger.warn(
+    { jobId: job.id, jobType: job.jobType, attempts: job.attempts, maxAttempts: job.maxAttempts, retry, error: message },
+    retry ? 'Job attempt failed, retrying with backoff' : 'Job failed permanently'
+  );
+
+  return retry ? 'retry' : 'failed';
+}
+
+/**
+ * Recover jobs whose lease expired (worker crashed or stopped heartbeating).
+ * Returns the recovered jobs so callers can clean up the domain records the
+ * abandoned attempt left behind.
+ */
+export async function recoverExpiredJobs(): Promise<{ requeued: QueueJob[]; failed: QueueJob[] }> {
+  const leaseError = 'Lease expired before the job finished (worker stopped or crashed)';
+
+  const requeued = await db
+    .update(jobQueue)
+    .set({
+      status: 'queued',
+      lastError: leaseError,
+      lockedBy: null,
+      lockedUntil: null,
+      runAt: sql`now()`,
+      updatedAt: sql`now()`,
+    })
+    .where(and(
+      eq(jobQueue.status, 'running'),
+      lt(jobQueue.lockedUntil, sql`now()`),
+      lt(jobQueue.attempts, jobQueue.maxAttempts)
+    ))
+    .returning();
+
+  const failed = await db
+    .update(jobQueue)
+    .set({
+      status: 'failed',
+      lastError: leaseError,
+      lockedBy: null,
+      lockedUntil: null,
+      completedAt: sql`now()`,
+      updatedAt: sql`now()`,
+    })
+    .where(and(
+      eq(jobQueue.status, 'running'),
+      lt(jobQueue.lockedUntil, sql`now()`)
+    ))
+    .returning();
+
+  if (requeued.length > 0 || failed.length > 0) {
+    queueLogger.warn(
+      { requeued: requeued.map((j) => j.id), failed: failed.map((j) => j.id) },
+      'Recovered jobs with expired leases'
+    );
+  }
+
+  return { requeued, failed };
+}
+
+// ============================================================================
+// READ OPERATIONS
+// ============================================================================
+
+export async function getJob(jobId: string): Promise<QueueJob | null> {
+  const [job] = await db.select().from(jobQueue).where(eq(jobQueue.id, jobId)).limit(1);
+  return job || null;
+}
+
+/**
+ * Whether a queued or running job drives the given domain record
+ */
+export async function hasActiveJobForReference(referenceId: string): Promise<boolean> {
+  const [job] = await db
+    .select({ id: jobQueue.id })
+    .from(jobQueue)
+    .where(and(
+      eq(jobQueue.referenceId, referenceId),
+      or(eq(jobQueue.status, 'queued'), eq(jobQueue.status, 'running'))
+    ))
+    .limit(1);
+
+  return !!job;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function parseJobPayload<T extends QueueJobType>(job: QueueJob & { jobType: T }): JobPayloads[T] {
+  return JSON.parse(job.payloadJson) as JobPayloads[T];
+}
+
+/**
+ * Exponential backoff: 30s, 60s, 120s ... capped at 30 minutes
+ */
+export function getBackoffMs(attempt: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempt - 1, 0), BACKOFF_MAX_MS);
+}
@@ -0,0 +1,247 @@
+import { db } from '@/db/index.js';
+import { interplayReports, reportDeliveries, syncJobs, webhookDeliveries } from '@/db/schema.js';
+import { eq, and, gte, inArray } from 'drizzle-orm';
+import { workerLogger } from '@/utils/logger.js';
+import { runClientSync } from '@/services/client-sync.service.js';
+import { generateInterplayReport } from '@/services/interplay-report/index.js';
+import { recordScheduledReport } from '@/services/report-schedule.service.js';
+import { attemptWebhookDelivery } from '@/services/webhook.service.js';
+import { attemptReportDelivery } from '@/services/report-delivery/index.js';
+import {
+  claimNextJob,
+  heartbeatJob,
+  completeJob,
+  failJob,
+  recoverExpiredJobs,
+  parseJobPayload,
+  type QueueJob,
+  type QueueJobType,
+  type JobPayloads,
+} from '@/services/job-queue.service.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface JobWorkerOptions {
+  workerId: string;
+  /** Jobs this worker runs at once */
+  workerConcurrency: number;
+  /** Running jobs allowed per agency across all workers */
+  agencyConcurrency: number;
+  leaseSeconds: number;
+  pollIntervalMs: number;
+}
+
+export interface JobWorker {
+  workerId: string;
+  /** Stop claiming new jobs and wait (up to timeoutMs) for running ones */
+  stop(timeoutMs?: number): Promise<void>;
+}
+
+interface JobHandler<T extends QueueJobType> {
+  run(job: QueueJob, payload: JobPayloads[T]): Promise<unknown>;
+  /** Clean up domain records left behind when a worker died mid-job */
+  onAbandoned?(job: QueueJob, payload: JobPayloads[T]): Promise<void>;
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+const ABANDONED_MESSAGE = 'Worker stopped before the job finished';
+
+const handlers: { [T in QueueJobType]: JobHandler<T> } = {
+  client_sync: {
+    async run(job, payload) {
+      return runClientSync(job.clientAccountId!, payload.trigger, payload.syncJobId);
+    },
+    async onAbandoned(job, payload) {
+      await db
+        .update(syncJobs)
+        .set({ status: 'failed', completedAt: new Date(), errorMessage: ABANDONED_MESSAGE })
+        .where(and(
+          payload.syncJobId
+            ? eq(syncJobs.id, payload.syncJobId)
+            : and(eq(syncJobs.clientAccountId, job.clientAccountId!), gte(syncJobs.startedAt, job.startedAt!)),
+          inArray(syncJobs.status, ['pending', 'running'])
+        ));
+    },
+  },
+
+  interplay_report: {
+    async run(job, payload) {
+      const { reportId, metadata } = await generateInterplayReport(job.clientAccountId!, {
+        days: payload.days,
+        trigger: payload.trigger,
+        businessType: payload.businessType,
+      });
+
+      if (payload.scheduleId) {
+        await recordScheduledReport(payload.scheduleId, reportId);
+      }
+
+      return {
+        reportId,
+        skillVersion: metadata.skillBundle.version,
+        totalDurationMs: metadata.performance.totalDurationMs,
+      };
+    },
+    async onAbandoned(job) {
+      // The retry creates a fresh report, so close out the one the dead attempt started
+      await db
+        .update(interplayReports)
+        .set({ status: 'failed', errorMessage: ABANDONED_MESSAGE })
+        .where(and(
+          eq(interplayReports.clientAccountId, job.clientAccountId!),
+          gte(interplayReports.createdAt, job.startedAt!),
+          inArray(interplayReports.status, ['pending', 'researching', 'analyzing'])
+        ));
+    },
+  },
+
+  webhook_delivery: {
+    async run(job, payload) {
+      return attemptWebhookDelivery(payload.deliveryId, job.attempts >= job.maxAttempts);
+    },
+    async onAbandoned(job, payload) {
+      // Recovery already failed the job for good, so close out the delivery too
+      if (job.attempts < job.maxAttempts) return;
+      await db
+        .update(webhookDeliveries)
+        .set({ status: 'failed', lastError: ABANDONED_MESSAGE })
+        .where(and(eq(webhookDeliveries.id, payload.deliveryId), eq(webhookDeliveries.status, 'pending')));
+    },
+  },
+
+  report_delivery: {
+    async run(job, payload) {
+      return attemptReportDelivery(payload.deliveryId, job.attempts >= job.maxAttempts);
+    },
+    async onAbandoned(job, payload) {
+      if (job.attempts < job.maxAttempts) return;
+      await db
+        .update(reportDeliveries)
+        .set({ status: 'failed', lastError: ABANDONED_MESSAGE })
+        .where(and(eq(reportDeliveries.id, payload.deliveryId), eq(reportDeliveries.status, 'pending')));
+    },
+  },
+};
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+/**
+ * Run a claimed job, renewing its lease until the handler settles.
+ */
+export async function processJob(job: QueueJob, options: JobWorkerOptions): Promise<void> {
+  const { workerId, leaseSeconds } = options;
+  const log = workerLogger.child({ jobId: job.id, jobType: job.jobType, attempt: job.attempts });
+  const handler = handlers[job.jobType] as JobHandler<QueueJobType>;
+
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, workerId, leaseSeconds)
+      .then((held) => {
+        if (!held) {
+          log.warn('Lost job lease; another worker may pick this job up');
+        }
+      })
+      .catch((error) => log.error({ error }, 'Job heartbeat failed'));
+  }, (leaseSeconds * 1000) / 3);
+
+  const startTime = Date.now();
+  log.info({ clientAccountId: job.clientAccountId }, 'Job started');
+
+  try {
+    const result = await handler.run(job, parseJobPayload(job));
+    await completeJob(job.id, workerId, result);
+    log.info({ durationMs: Date.now() - startTime }, 'Job completed');
+  } catch (error) {
+    const outcome = await failJob(job, workerId, error);
+    log.error(
+      { durationMs: Date.now() - startTime, outcome, error: error instanceof Error ? error.message : error },
+      'Job failed'
+    );
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Re-queue or fail jobs whose worker stopped heartbeating, cleaning up after them.
+ */
+export async function recoverAbandonedJobs(): Promise<void> {
+  const { requeued, failed } = await recoverExpiredJobs();
+
+  for (const job of [...requeued, ...failed]) {
+    const handler = handlers[job.jobType] as JobHandler<QueueJobType>;
+    if (!handler.onAbandoned || !job.startedAt) continue;
+
+    try {
+      await handler.onAbandoned(job, parseJobPayload(job));
+    } catch (error) {
+      workerLogger.error({ jobId: job.id, error }, 'Failed to clean up abandoned job');
+    }
+  }
+}
+
+// ============================================================================
+// WORKER LOOP
+// ============================================================================
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Start polling the queue. Claims up to `workerConcurrency` jobs at a time.
+ */
+export function startJobWorker(options: JobWorkerOptions): JobWorker {
+  const active = new Set<Promise<void>>();
+  const recoveryIntervalMs = Math.min((options.leaseSeconds * 1000) / 2, 30_000);
+  let stopping = false;
+  let lastRecoveryAt = 0;
+
+  const loop = async () => {
+    while (!stopping) {
+      try {
+        if (Date.now() - lastRecoveryAt >= recoveryIntervalMs) {
+          await recoverAbandonedJobs();
+          lastRecoveryAt = Date.now();
+        }
+
+        if (active.size < options.workerConcurrency) {
+          const job = await claimNextJob(options.workerId, {
+            leaseSeconds: options.leaseSeconds,
+            agencyConcurrency: options.agencyConcurrency,
+          });
+
+          if (job) {
+            const running: Promise<void> = processJob(job, options).finally(() => active.delete(running));
+            active.add(running);
+            continue;
+          }
+        }
+      } catch (error) {
+        workerLogger.error({ error }, 'Job worker loop error');
+      }
+
+      await sleep(options.pollIntervalMs);
+    }
+  };
+
+  const loopDone = loop();
+
+  return {
+    workerId: options.workerId,
+    async stop(timeoutMs = 25_000) {
+      stopping = true;
+      await loopDone;
+      if (active.size > 0) {
+        workerLogger.info({ activeJobs: active.size }, 'Waiting for running jobs to finish');
+        await Promise.race([Promise.allSettled([...active]), sleep(timeoutMs)]);
+      }
+    },
+  };
+}
@@ -0,0 +1,267 @@
+/**
+ * LLM Client
+ *
+ * Single entry point for model calls. Resolves the provider and model for the
+ * calling agent, then applies retries with backoff, a per-attempt timeout,
+ * token accounting and JSON extraction.
+ */
+
+import type { ZodType, ZodTypeDef } from 'zod';
+import { config } from '@/config/index.js';
+import { logger } from '@/utils/logger.js';
+import { FixtureMissError, getFixtureSession } from '@/services/fixtures/index.js';
+import { getProvider } from './providers/index.js';
+import { extractJsonFromResponse } from './json.js';
+import { recordTokenUsage } from './usage.js';
+import {
+  LLMConfigurationError,
+  type LLMAgent,
+  type LLMCallOptions,
+  type LLMJsonResult,
+  type LLMProviderName,
+  type LLMResult,
+} from './types.js';
+
+const llmLogger = logger.child({ module: 'llm-client' });
+
+const RETRY_BASE_DELAY_MS = 1000;
+
+// ============================================================================
+// MODEL RESOLUTION
+// ============================================================================
+
+function defaultModelFor(provider: LLMProviderName): string {
+  switch (provider) {
+    case 'anthropic':
+      return config.anthropicModel;
+    case 'openai':
+      return config.openaiModel;
+    case 'fixture':
+      return 'fixture';
+  }
+}
+
+/**
+ * Provider and model for an agent: per-agent config, then the global AI_PROVIDER
+ */
+export function resolveAgentModel(agent: LLMAgent): { provider: LLMProviderName; model: string } {
+  const agentConfig = agent === 'default' ? undefined : config.llm.agents[agent];
+  const provider = agentConfig?.provider ?? config.aiProvider;
+
+  return {
+    provider,
+    model: agentConfig?.model ?? defaultModelFor(provider),
+  };
+}
+
+// ============================================================================
+// CALLS
+// ============================================================================
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run attempt() with retries. Configuration errors and fixture misses are not retried.
+ */
+async function withRetries<T>(
+  context: { agent: LLMAgent; provider: LLMProviderName; model: string },
+  maxRetries: number,
+  attempt: (attemptNumber: number) => Promise<T>
+): Promise<T> {
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    try {
+      return await attempt(attemptNumber);
+    } catch (error) {
+      const retryable =
+        !(error instanceof LLMConfigurationError) &&
+        !(error instanceof FixtureMissError) &&
+        attemptNumber <= maxRetries;
+
+      llmLogger.warn(
+        {
+          ...context,
+          attempt: attemptNumber,
+          maxRetries,
+          retryable,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          errorType: error instanceof SyntaxError ? 'JSON_PARSE_ERROR' : 'OTHER',
+        },
+        'LLM call attempt failed'
+      );
+
+      if (!retryable) {
+        throw error;
+      }
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attemptNumber - 1));
+    }
+  }
+}
+
+/**
+ * One provider call, bounded by timeoutMs when set. Inside a fixture session
+ * the call is recorded, or answered from the bundle without reaching the provider.
+ */
+async function completeOnce(
+  agent: LLMAgent,
+  providerName: LLMProviderName,
+  model: string,
+  prompt: string,
+  options: { maxTokens?: number; jsonMode: boolean; timeoutMs?: number }
+) {
+  const fixtures = getFixtureSession();
+  if (fixtures?.mode === 'replay') {
+    const replayed = fixtures.replayLLMCall(agent, prompt);
+    recordTokenUsage(agent, replayed.usage);
+    return replayed;
+  }
+
+  const provider = getProvider(providerName);
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  const { timeoutMs } = options;
+  const timeout =
+    timeoutMs === undefined
+      ? []
+      : [
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+              controller.abort();
+              reject(new Error(`LLM call timed out after ${timeoutMs}ms`));
+            }, timeoutMs);
+          }),
+        ];
+
+  try {
+    const response = await Promise.race([
+      provider.complete({
+        agent,
+        prompt,
+        model,
+        maxTokens: options.maxTokens,
+        jsonMode: options.jsonMode,
+        signal: controller.signal,
+      }),
+      ...timeout,
+    ]);
+
+    // Tokens are spent even if the caller later rejects the output
+    recordTokenUsage(agent, response.usage);
+    fixtures?.recordLLMCall({ agent, provider: providerName, model, prompt, ...response });
+    return response;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Token limit and timeout stay unset unless the caller or the agent's config
+ * sets them: a limit also caps reasoning tokens on some models, and a cut-off
+ * response is invalid JSON.
+ */
+function resolveCall(options: LLMCallOptions) {
+  const agent = options.agent ?? 'default';
+  const resolved = resolveAgentModel(agent);
+  const agentConfig = agent === 'default' ? undefined : config.llm.agents[agent];
+
+  return {
+    agent,
+    provider: resolved.provider,
+    model: options.model ?? resolved.model,
+    maxTokens: options.maxTokens ?? agentConfig?.maxTokens,
+    jsonMode: options.jsonMode ?? true,
+    timeoutMs: options.timeoutMs ?? config.llm.timeoutMs,
+    maxRetries: options.maxRetries ?? config.llm.maxRetries,
+  };
+}
+
+/**
+ * Call the model for an agent and return the raw text plus any JSON found in it.
+ * Provider errors and timeouts are retried; the output itself is not checked.
+ */
+export async function callLLM(prompt: string, options: LLMCallOptions = {}): Promise<LLMResult> {
+  const call = resolveCall(options);
+  const startTime = Date.now();
+
+  llmLogger.info(
+    { agent: call.agent, provider: call.provider, model: call.model, promptLength: prompt.length },
+    'Calling LLM'
+  );
+
+  let attempts = 0;
+  const response = await withRetries(call, call.maxRetries, (attempt) => {
+    attempts = attempt;
+    return completeOnce(call.agent, call.provider, call.model, prompt, call);
+  });
+
+  const durationMs = Date.now() - startTime;
+  llmLogger.info(
+    {
+      agent: call.agent,
+      provider: call.provider,
+      model: call.model,
+      attempts,
+      durationMs,
+      responseLength: response.text.length,
+      ...response.usage,
+    },
+    'LLM call complete'
+  );
+
+  return {
+    text: response.text,
+    json: extractJsonFromResponse(response.text),
+    provider: call.provider,
+    model: call.model,
+    usage: response.usage,
+    attempts,
+    durationMs,
+  };
+}
+
+/**
+ * Call the model and parse its JSON output against a schema.
+ * Missing JSON, parse errors and schema failures are retried like provider errors.
+ */
+export async function callLLMJson<T>(
+  prompt: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: LLMCallOptions = {}
+): Promise<LLMJsonResult<T>> {
+  const call = resolveCall(options);
+  const startTime = Date.now();
+  const usage = { inputTokens: 0, outputTokens: 0 };
+
+  let attempts = 0;
+  const result = await withRetries(call, call.maxRetries, async (attempt) => {
+    attempts = attempt;
+    const response = await completeOnce(call.agent, call.provider, call.model, prompt, call);
+    usage.inputTokens += response.usage.inputTokens;
+    usage.outputTokens += response.usage.outputTokens;
+
+    const json = extractJsonFromResponse(response.text);
+    if (!json) {
+      llmLogger.error({ agent: call.agent, responsePreview: response.text.slice(0, 500) }, 'No valid JSON found in response');
+      throw new Error('No JSON found in response');
+    }
+
+    return { text: response.text, json, data: schema.parse(JSON.parse(json)) };
+  });
+
+  const durationMs = Date.now() - startTime;
+  llmLogger.info(
+    { agent: call.agent, provider: call.provider, model: call.model, attempts, durationMs, ...usage },
+    'LLM JSON call complete'
+  );
+
+  return {
+    ...result,
+    provider: call.provider,
+    model: call.model,
+    usage,
+    attempts,
+    durationMs,
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * LLM Service - Public API
+ *
+ * Provider-agnostic model calls for the analyzers and interplay agents.
+ */
+
+export { callLLM, callLLMJson, resolveAgentModel } from './client.js';
+export { extractJsonFromResponse } from './json.js';
+export {
+  createTokenUsage,
+  runWithTokenUsage,
+  recordTokenUsage,
+  type TokenUsage,
+} from './usage.js';
+export { getProvider, registerProvider } from './providers/index.js';
+
+export {
+  LLMConfigurationError,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMAgent,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMCallOptions,
+  type LLMResult,
+  type LLMJsonResult,
+  type TokenCounts,
+} from './types.js';
@@ -0,0 +1,38 @@
+/**
+ * JSON extraction for model responses
+ */
+
+/**
+ * Extracts JSON from an AI response that may contain markdown fences or leading prose.
+ * Returns the extracted JSON string or null if no valid JSON structure is found.
+ */
+export function extractJsonFromResponse(response: string): string | null {
+  if (!response || typeof response !== 'string') {
+    return null;
+  }
+
+  const trimmed = response.trim();
+
+  // Try markdown code block extraction first (```json ... ``` or ``` ... ```)
+  const markdownMatch = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (markdownMatch) {
+    const extracted = markdownMatch[1].trim();
+    if (extracted.startsWith('{') || extracted.startsWith('[')) {
+      return extracted;
+    }
+  }
+
+  // Try to find a JSON object in the response
+  const jsonObjectMatch = trimmed.match(/\{[\s\S]*\}/);
+  if (jsonObjectMatch) {
+    return jsonObjectMatch[0];
+  }
+
+  // Try to find a JSON array in the response
+  const jsonArrayMatch = trimmed.match(/\[[\s\S]*\]/);
+  if (jsonArrayMatch) {
+    return jsonArrayMatch[0];
+  }
+
+  return null;
+}
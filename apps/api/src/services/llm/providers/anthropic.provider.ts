@@ -0,0 +1,43 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { config } from '@/config/index.js';
+import { LLMConfigurationError, type LLMProvider, type LLMRequest, type LLMResponse } from '../types.js';
+
+// The Messages API requires a limit
+const DEFAULT_MAX_TOKENS = 4096;
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  private client: Anthropic | null = null;
+
+  private getClient(): Anthropic {
+    if (!config.anthropicApiKey) {
+      throw new LLMConfigurationError('Anthropic API key not configured');
+    }
+    // Retries and timeouts are handled by the LLM client
+    this.client ??= new Anthropic({ apiKey: config.anthropicApiKey, maxRetries: 0 });
+    return this.client;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const message = await this.getClient().messages.create(
+      {
+        model: request.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        messages: [{ role: 'user', content: request.prompt }],
+      },
+      { signal: request.signal }
+    );
+
+    const text = message.content
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      text,
+      usage: {
+        inputTokens: message.usage?.input_tokens ?? 0,
+        outputTokens: message.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { config } from '@/config/index.js';
+import {
+  LLMConfigurationError,
+  type LLMAgent,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+} from '../types.js';
+
+/**
+ * Canned responses that satisfy the interplay agent schemas. Used for local
+ * development and tests where calling a real model is slow, costly or flaky.
+ */
+const BUILT_IN_FIXTURES: Partial<Record<LLMAgent, unknown>> = {
+  sem: {
+    semActions: [
+      {
+        action: 'Reduce bids on keywords where organic position is already top 3',
+        level: 'keyword',
+        expectedUplift: '10-15% lower paid spend with stable total clicks',
+        reasoning: 'Strong organic rankings capture most of the intent, so paid clicks largely cannibalise organic traffic.',
+        impact: 'high',
+        operation: 'adjust_bid',
+        changePercent: -20,
+      },
+      {
+        action: 'Increase budget on high-converting keywords losing impression share to rank',
+        level: 'campaign',
+        expectedUplift: '5-10% more conversions at similar cost per conversion',
+        reasoning: 'Lost impression share due to rank indicates demand the account is not capturing.',
+        impact: 'medium',
+        operation: 'adjust_budget',
+        changePercent: 15,
+      },
+    ],
+  },
+  seo: {
+    seoActions: [
+      {
+        condition: 'High paid spend on queries where the landing page ranks outside the top 5',
+        recommendation: 'Strengthen on-page relevance for the most expensive paid queries',
+        specificActions: [
+          'Add the primary query to the page title and H1',
+          'Expand body copy to answer the query intent directly',
+        ],
+        impact: 'high',
+      },
+    ],
+  },
+  director: {
+    executiveSummary: {
+      summary: 'Paid and organic search overlap on several high-spend queries. Shifting budget away from queries with strong organic rankings and improving pages that rank poorly for expensive queries should lower cost without losing traffic.',
+      keyHighlights: [
+        'Paid spend overlaps with strong organic rankings',
+        'Several expensive queries land on weakly ranking pages',
+      ],
+    },
+    unifiedRecommendations: [
+      {
+        title: 'Rebalance paid spend against organic rankings',
+        description: 'Reduce bids where organic position is already strong and redirect budget to queries losing impression share.',
+        type: 'hybrid',
+        impact: 'high',
+        effort: 'low',
+        actionItems: [
+          'Lower bids on top-3 organic keywords',
+          'Move the savings to rank-limited campaigns',
+        ],
+      },
+      {
+        title: 'Improve pages behind expensive paid queries',
+        description: 'Optimise landing pages that rank outside the top 5 for queries with high paid spend.',
+        type: 'seo',
+        impact: 'medium',
+        effort: 'medium',
+        actionItems: ['Update titles and H1s', 'Expand content to match query intent'],
+      },
+    ],
+  },
+};
+
+// Rough token estimate so accounting still has something to count
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Deterministic local provider. Responds from `<LLM_FIXTURE_DIR>/<agent>.json`
+ * when present, otherwise from the built-in fixtures.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const text = this.loadFixture(request.agent);
+
+    return {
+      text,
+      usage: {
+        inputTokens: estimateTokens(request.prompt),
+        outputTokens: estimateTokens(text),
+      },
+    };
+  }
+
+  private loadFixture(agent: LLMAgent): string {
+    if (config.llm.fixtureDir) {
+      const filePath = path.resolve(config.llm.fixtureDir, `${agent}.json`);
+      if (fs.existsSync(filePath)) {
+        return fs.readFileSync(filePath, 'utf-8');
+      }
+    }
+
+    const fixture = BUILT_IN_FIXTURES[agent];
+    if (!fixture) {
+      throw new LLMConfigurationError(
+        `No fixture response for agent '${agent}'; add ${agent}.json to LLM_FIXTURE_DIR`
+      );
+    }
+    return JSON.stringify(fixture);
+  }
+}
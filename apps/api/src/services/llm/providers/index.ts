@@ -0,0 +1,40 @@
+import { AnthropicProvider } from './anthropic.provider.js';
+import { OpenAIProvider } from './openai.provider.js';
+import { FixtureProvider } from './fixture.provider.js';
+import { LLMConfigurationError, type LLMProvider, type LLMProviderName } from '../types.js';
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+/**
+ * Shared provider instance by name
+ */
+export function getProvider(name: LLMProviderName): LLMProvider {
+  let provider = providers.get(name);
+  if (provider) return provider;
+
+  switch (name) {
+    case 'anthropic':
+      provider = new AnthropicProvider();
+      break;
+    case 'openai':
+      provider = new OpenAIProvider();
+      break;
+    case 'fixture':
+      provider = new FixtureProvider();
+      break;
+    default:
+      throw new LLMConfigurationError(`Unknown AI provider: ${name}`);
+  }
+
+  providers.set(name, provider);
+  return provider;
+}
+
+/**
+ * Swap in a provider implementation, e.g. a recording wrapper or a test double
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export { AnthropicProvider, OpenAIProvider, FixtureProvider };
@@ -0,0 +1,37 @@
+import OpenAI from 'openai';
+import { config } from '@/config/index.js';
+import { LLMConfigurationError, type LLMProvider, type LLMRequest, type LLMResponse } from '../types.js';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI | null = null;
+
+  private getClient(): OpenAI {
+    if (!config.openaiApiKey) {
+      throw new LLMConfigurationError('OpenAI API key not configured');
+    }
+    // Retries and timeouts are handled by the LLM client
+    this.client ??= new OpenAI({ apiKey: config.openaiApiKey, maxRetries: 0 });
+    return this.client;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const completion = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        ...(request.maxTokens !== undefined ? { max_completion_tokens: request.maxTokens } : {}),
+        messages: [{ role: 'user', content: request.prompt }],
+        ...(request.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+      },
+      { signal: request.signal }
+    );
+
+    return {
+      text: completion.choices[0]?.message?.content || '',
+      usage: {
+        inputTokens: completion.usage?.prompt_tokens ?? 0,
+        outputTokens: completion.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+}
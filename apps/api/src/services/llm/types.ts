@@ -0,0 +1,83 @@
+/**
+ * LLM Provider Types
+ */
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'fixture';
+
+/**
+ * Callers that pick their own model. 'default' covers the legacy analyzers.
+ */
+export type LLMAgent = 'sem' | 'seo' | 'director' | 'default';
+
+export interface LLMRequest {
+  agent: LLMAgent;
+  prompt: string;
+  model: string;
+  /** Output token limit; omitted from the request when unset, except where the API requires one */
+  maxTokens?: number;
+  /** Ask the provider for a bare JSON object where supported */
+  jsonMode: boolean;
+  signal: AbortSignal;
+}
+
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  usage: TokenCounts;
+}
+
+/**
+ * A model backend. Providers make exactly one attempt per call; retries,
+ * timeouts, token accounting and JSON extraction live in the client.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+export interface LLMCallOptions {
+  agent?: LLMAgent;
+  /** Overrides the configured model for the agent */
+  model?: string;
+  maxTokens?: number;
+  jsonMode?: boolean;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export interface LLMResult {
+  text: string;
+  /** JSON extracted from the response text, null if none was found */
+  json: string | null;
+  provider: LLMProviderName;
+  model: string;
+  usage: TokenCounts;
+  attempts: number;
+  durationMs: number;
+}
+
+export interface LLMJsonResult<T> extends LLMResult {
+  data: T;
+}
+
+/**
+ * Non-retryable failure: misconfiguration rather than a flaky call
+ */
+export class LLMConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigurationError';
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Token Accounting
+ *
+ * Every LLM call records its token counts into the usage scope it runs in.
+ * A caller opens a scope with runWithTokenUsage() and reads the totals after;
+ * parallel calls inside the scope (e.g. SEM + SEO agents) all land in it.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { LLMAgent, TokenCounts } from './types.js';
+
+export interface TokenUsage extends TokenCounts {
+  totalTokens: number;
+  calls: number;
+  byAgent: Partial<Record<LLMAgent, TokenCounts & { calls: number }>>;
+}
+
+const usageStorage = new AsyncLocalStorage<TokenUsage>();
+
+export function createTokenUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0, calls: 0, byAgent: {} };
+}
+
+/**
+ * Run fn with `usage` collecting the tokens of every LLM call made inside it
+ */
+export function runWithTokenUsage<T>(usage: TokenUsage, fn: () => Promise<T>): Promise<T> {
+  return usageStorage.run(usage, fn);
+}
+
+export function recordTokenUsage(agent: LLMAgent, counts: TokenCounts): void {
+  const usage = usageStorage.getStore();
+  if (!usage) return;
+
+  usage.inputTokens += counts.inputTokens;
+  usage.outputTokens += counts.outputTokens;
+  usage.totalTokens += counts.inputTokens + counts.outputTokens;
+  usage.calls++;
+
+  const agentUsage = usage.byAgent[agent] ?? { inputTokens: 0, outputTokens: 0, calls: 0 };
+  agentUsage.inputTokens += counts.inputTokens;
+  agentUsage.outputTokens += counts.outputTokens;
+  agentUsage.calls++;
+  usage.byAgent[agent] = agentUsage;
+}
@@ -0,0 +1,280 @@
+import { db } from '@/db/index.js';
+import { notificationChannels, notificationRules, notificationDeliveries } from '@/db/schema.js';
+import { eq, and, desc, count, type SQL } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import {
+  parseChannelConfig,
+  encryptChannelConfig,
+  decryptChannelConfig,
+  describeChannelConfig,
+  sendTestNotification,
+  type AlertSeverity,
+  type NotificationChannelType,
+  type NotificationDelivery,
+} from './notifications/index.js';
+
+const notificationLogger = logger.child({ module: 'notification-service' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type NotificationChannelRow = typeof notificationChannels.$inferSelect;
+export type NotificationRule = typeof notificationRules.$inferSelect;
+
+/**
+ * Channel as returned to clients; credentials in the config are redacted
+ */
+export interface NotificationChannelSummary {
+  id: string;
+  name: string;
+  type: NotificationChannelType;
+  config: Record<string, unknown>;
+  isActive: boolean;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export interface CreateNotificationChannelInput {
+  name: string;
+  type: NotificationChannelType;
+  config: unknown;
+}
+
+export interface UpdateNotificationChannelInput {
+  name?: string;
+  /** Replaces the whole config; validated against the channel's type */
+  config?: unknown;
+  isActive?: boolean;
+}
+
+export interface NotificationRuleInput {
+  channelId: string;
+  minSeverity?: AlertSeverity;
+  /** Empty or omitted matches every alert code */
+  alertCodes?: string[];
+  isActive?: boolean;
+}
+
+export interface DeliveryListOptions {
+  channelId?: string;
+  status?: NotificationDelivery['status'];
+  limit: number;
+  offset: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function toSummary(channel: NotificationChannelRow): Promise<NotificationChannelSummary> {
+  let config: Record<string, unknown> = {};
+  try {
+    const decrypted = await decryptChannelConfig(channel.type, channel.configEncrypted, channel.configKeyVersion);
+    config = describeChannelConfig(channel.type, decrypted);
+  } catch (error) {
+    notificationLogger.warn({ error, channelId: channel.id }, 'Could not read notification channel config');
+  }
+
+  return {
+    id: channel.id,
+    name: channel.name,
+    type: channel.type,
+    config,
+    isActive: channel.isActive,
+    createdAt: channel.createdAt,
+    updatedAt: channel.updatedAt,
+  };
+}
+
+async function getChannelRow(agencyId: string, channelId: string): Promise<NotificationChannelRow> {
+  const [channel] = await db
+    .select()
+    .from(notificationChannels)
+    .where(and(eq(notificationChannels.id, channelId), eq(notificationChannels.agencyId, agencyId)))
+    .limit(1);
+
+  if (!channel) {
+    throw new AppError('Notification channel not found', 404);
+  }
+
+  return channel;
+}
+
+function normalizeAlertCodes(codes: string[] | undefined): string[] | undefined {
+  return codes && [...new Set(codes.map((code) => code.trim().toUpperCase()).filter(Boolean))];
+}
+
+// ============================================================================
+// CHANNELS
+// ============================================================================
+
+export async function listNotificationChannels(agencyId: string): Promise<NotificationChannelSummary[]> {
+  const channels = await db
+    .select()
+    .from(notificationChannels)
+    .where(eq(notificationChannels.agencyId, agencyId))
+    .orderBy(notificationChannels.name);
+
+  return Promise.all(channels.map(toSummary));
+}
+
+export async function createNotificationChannel(
+  agencyId: string,
+  userId: string,
+  input: CreateNotificationChannelInput
+): Promise<NotificationChannelSummary> {
+  const config = parseChannelConfig(input.type, input.config);
+  const { encrypted, keyVersion } = await encryptChannelConfig(config);
+
+  const [channel] = await db
+    .insert(notificationChannels)
+    .values({
+      agencyId,
+      name: input.name,
+      type: input.type,
+      configEncrypted: encrypted,
+      configKeyVersion: keyVersion,
+      createdBy: userId,
+    })
+    .returning();
+
+  notificationLogger.info({ agencyId, channelId: channel.id, type: channel.type }, 'Notification channel created');
+
+  return toSummary(channel);
+}
+
+export async function updateNotificationChannel(
+  agencyId: string,
+  channelId: string,
+  input: UpdateNotificationChannelInput
+): Promise<NotificationChannelSummary> {
+  const channel = await getChannelRow(agencyId, channelId);
+  const updates: Partial<typeof notificationChannels.$inferInsert> = { updatedAt: new Date() };
+
+  if (input.name !== undefined) updates.name = input.name;
+  if (input.isActive !== undefined) updates.isActive = input.isActive;
+  if (input.config !== undefined) {
+    const { encrypted, keyVersion } = await encryptChannelConfig(parseChannelConfig(channel.type, input.config));
+    updates.configEncrypted = encrypted;
+    updates.configKeyVersion = keyVersion;
+  }
+
+  const [updated] = await db
+    .update(notificationChannels)
+    .set(updates)
+    .where(eq(notificationChannels.id, channel.id))
+    .returning();
+
+  return toSummary(updated);
+}
+
+/**
+ * Delete a channel and its rules; past deliveries are kept
+ */
+export async function deleteNotificationChannel(agencyId: string, channelId: string): Promise<void> {
+  const channel = await getChannelRow(agencyId, channelId);
+  await db.delete(notificationChannels).where(eq(notificationChannels.id, channel.id));
+}
+
+export async function testNotificationChannel(agencyId: string, channelId: string): Promise<NotificationDelivery> {
+  return sendTestNotification(await getChannelRow(agencyId, channelId));
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+export async function listNotificationRules(agencyId: string): Promise<NotificationRule[]> {
+  return db
+    .select()
+    .from(notificationRules)
+    .where(eq(notificationRules.agencyId, agencyId))
+    .orderBy(notificationRules.createdAt);
+}
+
+export async function createNotificationRule(agencyId: string, input: NotificationRuleInput): Promise<NotificationRule> {
+  await getChannelRow(agencyId, input.channelId);
+
+  const [rule] = await db
+    .insert(notificationRules)
+    .values({
+      agencyId,
+      channelId: input.channelId,
+      minSeverity: input.minSeverity,
+      alertCodes: normalizeAlertCodes(input.alertCodes),
+      isActive: input.isActive,
+    })
+    .returning();
+
+  return rule;
+}
+
+export async function updateNotificationRule(
+  agencyId: string,
+  ruleId: string,
+  input: Partial<NotificationRuleInput>
+): Promise<NotificationRule> {
+  if (input.channelId) {
+    await getChannelRow(agencyId, input.channelId);
+  }
+
+  const [rule] = await db
+    .update(notificationRules)
+    .set({
+      channelId: input.channelId,
+      minSeverity: input.minSeverity,
+      alertCodes: normalizeAlertCodes(input.alertCodes),
+      isActive: input.isActive,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(notificationRules.id, ruleId), eq(notificationRules.agencyId, agencyId)))
+    .returning();
+
+  if (!rule) {
+    throw new AppError('Notification rule not found', 404);
+  }
+
+  return rule;
+}
+
+export async function deleteNotificationRule(agencyId: string, ruleId: string): Promise<void> {
+  const deleted = await db
+    .delete(notificationRules)
+    .where(and(eq(notificationRules.id, ruleId), eq(notificationRules.agencyId, agencyId)))
+    .returning({ id: notificationRules.id });
+
+  if (deleted.length === 0) {
+    throw new AppError('Notification rule not found', 404);
+  }
+}
+
+// ============================================================================
+// DELIVERY LOG
+// ============================================================================
+
+export async function listNotificationDeliveries(
+  agencyId: string,
+  options: DeliveryListOptions
+): Promise<{ deliveries: NotificationDelivery[]; total: number }> {
+  const conditions: SQL[] = [eq(notificationDeliveries.agencyId, agencyId)];
+  if (options.channelId) conditions.push(eq(notificationDeliveries.channelId, options.channelId));
+  if (options.status) conditions.push(eq(notificationDeliveries.status, options.status));
+
+  const [deliveries, [{ total }]] = await Promise.all([
+    db
+      .select()
+      .from(notificationDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(options.limit)
+      .offset(options.offset),
+    db
+      .select({ total: count() })
+      .from(notificationDeliveries)
+      .where(and(...conditions)),
+  ]);
+
+  return { deliveries, total };
+}
@@ -0,0 +1,79 @@
+/**
+ * Channel Configuration
+ *
+ * Validation and at-rest encryption of per-channel settings.
+ */
+
+import { z } from 'zod';
+import { encryptToken, decryptToken } from '@/services/encryption.service.js';
+import { webhookUrlError } from '@/services/webhook.service.js';
+import type { NotificationChannelConfigs, NotificationChannelType } from './types.js';
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+/** Same rules as outbound webhooks: https only, no private or reserved hosts */
+const webhookUrlSchema = z
+  .string()
+  .url()
+  .refine(
+    (url) => webhookUrlError(url) === null,
+    (url) => ({ message: webhookUrlError(url) ?? 'Invalid URL' })
+  );
+
+export const channelConfigSchemas = {
+  email: z.object({
+    to: z.array(z.string().email()).min(1).max(20),
+  }).strict(),
+  webhook: z.object({
+    url: webhookUrlSchema,
+    headers: z.record(z.string().min(1).max(100), z.string().max(1000)).optional(),
+  }).strict(),
+  slack: z.object({
+    webhookUrl: webhookUrlSchema,
+  }).strict(),
+} satisfies { [K in NotificationChannelType]: z.ZodType<NotificationChannelConfigs[K]> };
+
+export function parseChannelConfig<T extends NotificationChannelType>(
+  type: T,
+  value: unknown
+): NotificationChannelConfigs[T] {
+  return channelConfigSchemas[type].parse(value) as NotificationChannelConfigs[T];
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+export async function encryptChannelConfig(config: NotificationChannelConfigs[NotificationChannelType]) {
+  return encryptToken(JSON.stringify(config));
+}
+
+export async function decryptChannelConfig<T extends NotificationChannelType>(
+  type: T,
+  encrypted: string,
+  keyVersion: number
+): Promise<NotificationChannelConfigs[T]> {
+  return parseChannelConfig(type, JSON.parse(await decryptToken(encrypted, keyVersion)));
+}
+
+/**
+ * Config safe to return to the UI: recipients are shown, webhook URLs and
+ * header values are credentials and only their host and names are exposed.
+ */
+export function describeChannelConfig(
+  type: NotificationChannelType,
+  config: NotificationChannelConfigs[NotificationChannelType]
+): Record<string, unknown> {
+  switch (type) {
+    case 'email':
+      return { to: (config as NotificationChannelConfigs['email']).to };
+    case 'webhook': {
+      const webhook = config as NotificationChannelConfigs['webhook'];
+      return { host: new URL(webhook.url).host, headerNames: Object.keys(webhook.headers ?? {}) };
+    }
+    case 'slack':
+      return { host: new URL((config as NotificationChannelConfigs['slack']).webhookUrl).host };
+  }
+}
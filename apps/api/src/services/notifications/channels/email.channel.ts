@@ -0,0 +1,26 @@
+import { getSmtpTransport } from '../smtp.js';
+import type { EmailChannelConfig, NotificationAlert, NotificationChannel } from '../types.js';
+
+function formatContext(context: Record<string, unknown>): string {
+  return Object.entries(context)
+    .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join('\n');
+}
+
+/**
+ * Emails the alert to the channel's recipients through the shared SMTP transport
+ */
+export class EmailChannel implements NotificationChannel<'email'> {
+  readonly type = 'email' as const;
+
+  async send(config: EmailChannelConfig, alert: NotificationAlert, signal: AbortSignal): Promise<void> {
+    await getSmtpTransport().send(
+      {
+        to: config.to,
+        subject: `[Advergent ${alert.severity.toUpperCase()}] ${alert.code}`,
+        text: `${alert.message}\n\n${formatContext(alert.context)}\n`,
+      },
+      signal
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { EmailChannel } from './email.channel.js';
+import { WebhookChannel } from './webhook.channel.js';
+import { SlackChannel } from './slack.channel.js';
+import { NotificationConfigurationError, type NotificationChannel, type NotificationChannelType } from '../types.js';
+
+const channels = new Map<NotificationChannelType, NotificationChannel>();
+
+/**
+ * Shared channel instance by type
+ */
+export function getChannel(type: NotificationChannelType): NotificationChannel {
+  let channel = channels.get(type);
+  if (channel) return channel;
+
+  switch (type) {
+    case 'email':
+      channel = new EmailChannel() as NotificationChannel;
+      break;
+    case 'webhook':
+      channel = new WebhookChannel() as NotificationChannel;
+      break;
+    case 'slack':
+      channel = new SlackChannel() as NotificationChannel;
+      break;
+    default:
+      throw new NotificationConfigurationError(`Unknown notification channel: ${type}`);
+  }
+
+  channels.set(type, channel);
+  return channel;
+}
+
+/**
+ * Swap in a channel implementation, e.g. a capturing test double
+ */
+export function registerChannel(channel: NotificationChannel): void {
+  channels.set(channel.type, channel);
+}
+
+export { EmailChannel, WebhookChannel, SlackChannel };
@@ -0,0 +1,34 @@
+import { postWebhook } from '@/services/webhook.service.js';
+import type { NotificationAlert, NotificationChannel, SlackChannelConfig } from '../types.js';
+
+const SEVERITY_EMOJI: Record<NotificationAlert['severity'], string> = {
+  critical: ':rotating_light:',
+  warning: ':warning:',
+  info: ':information_source:',
+};
+
+/**
+ * Posts to a Slack-compatible incoming webhook (Slack, Mattermost, Rocket.Chat)
+ */
+export class SlackChannel implements NotificationChannel<'slack'> {
+  readonly type = 'slack' as const;
+
+  async send(config: SlackChannelConfig, alert: NotificationAlert, signal: AbortSignal): Promise<void> {
+    const fields = Object.entries(alert.context)
+      .map(([key, value]) => `*${key}:* ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+      .join('\n');
+
+    const status = await postWebhook(
+      config.webhookUrl,
+      { 'Content-Type': 'application/json' },
+      JSON.stringify({
+        text: `${SEVERITY_EMOJI[alert.severity]} *${alert.code}* ${alert.message}${fields ? `\n${fields}` : ''}`,
+      }),
+      signal
+    );
+
+    if (status < 200 || status >= 300) {
+      throw new Error(`Slack webhook responded with ${status}`);
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { postWebhook } from '@/services/webhook.service.js';
+import type { NotificationAlert, NotificationChannel, WebhookChannelConfig } from '../types.js';
+
+/**
+ * POSTs the alert as JSON to an arbitrary endpoint, through the outbound
+ * webhook guard that refuses private and reserved addresses
+ */
+export class WebhookChannel implements NotificationChannel<'webhook'> {
+  readonly type = 'webhook' as const;
+
+  async send(config: WebhookChannelConfig, alert: NotificationAlert, signal: AbortSignal): Promise<void> {
+    const status = await postWebhook(
+      config.url,
+      { ...config.headers, 'Content-Type': 'application/json' },
+      JSON.stringify({
+        severity: alert.severity,
+        code: alert.code,
+        message: alert.message,
+        context: alert.context,
+        sentAt: new Date().toISOString(),
+      }),
+      signal
+    );
+
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook responded with ${status}`);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Alert Dispatcher
+ *
+ * Matches alerts against an agency's routing rules, delivers them to the
+ * matching channels and records every attempt in notification_deliveries.
+ * Dispatch never throws: a broken channel must not fail a report or sync.
+ */
+
+import { db } from '@/db/index.js';
+import { notificationChannels, notificationDeliveries, notificationRules } from '@/db/schema.js';
+import { and, eq } from 'drizzle-orm';
+import { config } from '@/config/index.js';
+import { logger } from '@/utils/logger.js';
+import { getChannel } from './channels/index.js';
+import { decryptChannelConfig } from './channel-config.js';
+import {
+  ALERT_SEVERITY_ORDER,
+  NotificationConfigurationError,
+  type AlertSeverity,
+  type NotificationAlert,
+} from './types.js';
+
+const notifyLogger = logger.child({ module: 'notifications' });
+
+type ChannelRow = typeof notificationChannels.$inferSelect;
+type RuleRow = typeof notificationRules.$inferSelect;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function severityAtLeast(severity: AlertSeverity, minimum: AlertSeverity): boolean {
+  return ALERT_SEVERITY_ORDER.indexOf(severity) >= ALERT_SEVERITY_ORDER.indexOf(minimum);
+}
+
+export function ruleMatches(rule: Pick<RuleRow, 'minSeverity' | 'alertCodes'>, alert: NotificationAlert): boolean {
+  return (
+    severityAtLeast(alert.severity, rule.minSeverity) &&
+    (rule.alertCodes.length === 0 || rule.alertCodes.includes(alert.code))
+  );
+}
+
+/**
+ * Send one alert to one channel and log the outcome
+ */
+async function deliver(
+  channel: ChannelRow,
+  alert: NotificationAlert,
+  ruleId: string | null
+): Promise<NotificationDelivery> {
+  const startTime = Date.now();
+  let status: NotificationDelivery['status'] = 'sent';
+  let errorMessage: string | null = null;
+
+  try {
+    const channelConfig = await decryptChannelConfig(channel.type, channel.configEncrypted, channel.configKeyVersion);
+    await getChannel(channel.type).send(
+      channelConfig,
+      alert,
+      AbortSignal.timeout(config.notifications.timeoutMs)
+    );
+  } catch (error) {
+    status = error instanceof NotificationConfigurationError ? 'skipped' : 'failed';
+    errorMessage = error instanceof Error ? error.message : String(error);
+    notifyLogger.warn(
+      { channelId: channel.id, channelType: channel.type, code: alert.code, error: errorMessage },
+      'Notification delivery failed'
+    );
+  }
+
+  const [delivery] = await db
+    .insert(notificationDeliveries)
+    .values({
+      agencyId: channel.agencyId,
+      channelId: channel.id,
+      ruleId,
+      channelType: channel.type,
+      alertCode: alert.code,
+      severity: alert.severity,
+      message: alert.message,
+      contextJson: JSON.stringify(alert.context),
+      status,
+      errorMessage,
+      durationMs: Date.now() - startTime,
+    })
+    .returning();
+
+  return delivery;
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+/**
+ * Deliver alerts to every active channel with a matching active rule. Each
+ * channel receives a given alert at most once even if several rules match.
+ */
+export async function notifyAgency(agencyId: string, alerts: NotificationAlert[]): Promise<void> {
+  if (alerts.length === 0) return;
+
+  try {
+    const routes = await db
+      .select({ rule: notificationRules, channel: notificationChannels })
+      .from(notificationRules)
+      .innerJoin(notificationChannels, eq(notificationRules.channelId, notificationChannels.id))
+      .where(
+        and(
+          eq(notificationRules.agencyId, agencyId),
+          eq(notificationRules.isActive, true),
+          eq(notificationChannels.isActive, true)
+        )
+      );
+
+    const deliveries: Promise<NotificationDelivery>[] = [];
+
+    for (const alert of alerts) {
+      const notified = new Set<string>();
+      for (const { rule, channel } of routes) {
+        if (notified.has(channel.id) || !ruleMatches(rule, alert)) continue;
+        notified.add(channel.id);
+        deliveries.push(deliver(channel, alert, rule.id));
+      }
+    }
+
+    const results = await Promise.allSettled(deliveries);
+    const failed = results.filter((result) => result.status === 'rejected' || result.value.status !== 'sent').length;
+
+    if (deliveries.length > 0) {
+      notifyLogger.info(
+        { agencyId, alertCount: alerts.length, deliveries: deliveries.length, failed },
+        'Alerts dispatched'
+      );
+    }
+  } catch (error) {
+    notifyLogger.error({ error, agencyId, codes: alerts.map((alert) => alert.code) }, 'Failed to dispatch alerts');
+  }
+}
+
+/**
+ * Send a sample alert to one channel, bypassing rules, so settings can be verified
+ */
+export async function sendTestNotification(channel: ChannelRow): Promise<NotificationDelivery> {
+  return deliver(
+    channel,
+    {
+      severity: 'info',
+      code: 'TEST_NOTIFICATION',
+      message: `Test notification for channel "${channel.name}"`,
+      context: { channelId: channel.id },
+    },
+    null
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * Notifications Service - Public API
+ *
+ * Routes alerts (report skill alerts, sync failures) to agency channels:
+ * email over SMTP, generic webhooks and Slack-compatible incoming webhooks.
+ */
+
+export { notifyAgency, sendTestNotification, ruleMatches, type NotificationDelivery } from './dispatch.js';
+export { getChannel, registerChannel } from './channels/index.js';
+export {
+  channelConfigSchemas,
+  parseChannelConfig,
+  encryptChannelConfig,
+  decryptChannelConfig,
+  describeChannelConfig,
+} from './channel-config.js';
+export {
+  getSmtpTransport,
+  setSmtpTransport,
+  NetworkSmtpTransport,
+  OutboxSmtpTransport,
+  type SmtpTransport,
+  type SmtpSettings,
+  type EmailMessage,
+  type EmailAttachment,
+} from './smtp.js';
+
+export {
+  ALERT_SEVERITY_ORDER,
+  NotificationConfigurationError,
+  type AlertSeverity,
+  type NotificationAlert,
+  type NotificationChannel,
+  type NotificationChannelType,
+  type NotificationChannelConfig,
+  type NotificationChannelConfigs,
+  type EmailChannelConfig,
+  type WebhookChannelConfig,
+  type SlackChannelConfig,
+} from './types.js';
@@ -0,0 +1,162 @@
+/**
+ * SMTP Transport
+ *
+ * Outgoing mail for the email channel and report delivery, sent with
+ * nodemailer. The transport is swappable so callers and tests can route
+ * mail elsewhere without a server.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { type Transporter } from 'nodemailer';
+import type Mail from 'nodemailer/lib/mailer/index.js';
+import { config } from '@/config/index.js';
+import { NotificationConfigurationError } from './types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface EmailMessage {
+  /** Defaults to config.smtp.from */
+  from?: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface SmtpTransport {
+  send(message: EmailMessage, signal?: AbortSignal): Promise<void>;
+}
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toMailOptions(message: EmailMessage, defaultFrom: string): Mail.Options {
+  if (message.to.length === 0) {
+    throw new NotificationConfigurationError('Email has no recipients');
+  }
+
+  return {
+    from: message.from ?? defaultFrom,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    attachments: message.attachments?.map(({ filename, contentType, content }) => ({ filename, contentType, content })),
+  };
+}
+
+/**
+ * Reject with the signal's reason when it aborts before the promise settles
+ */
+function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const abort = () => reject(signal.reason);
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+  });
+}
+
+// ============================================================================
+// TRANSPORTS
+// ============================================================================
+
+/**
+ * Delivers each message over a fresh connection to the configured server.
+ * With credentials, the connection must be TLS (implicit, or STARTTLS the
+ * server is required to offer) so the password never goes out in cleartext.
+ */
+export class NetworkSmtpTransport implements SmtpTransport {
+  private transporter: Transporter;
+
+  constructor(private settings: SmtpSettings) {
+    this.transporter = nodemailer.createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      requireTLS: !settings.secure && !!settings.user,
+      auth: settings.user ? { user: settings.user, pass: settings.password ?? '' } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage, signal?: AbortSignal): Promise<void> {
+    await withAbort(this.transporter.sendMail(toMailOptions(message, this.settings.from)), signal);
+  }
+}
+
+/**
+ * Writes each message to a directory as an .eml file instead of sending it,
+ * so mail (attachments included) can be inspected locally
+ */
+export class OutboxSmtpTransport implements SmtpTransport {
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'windows' });
+
+  constructor(private directory: string, private from: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const info = await this.transporter.sendMail(toMailOptions(message, this.from));
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    await fs.writeFile(path.join(this.directory, filename), info.message as Buffer);
+  }
+}
+
+let transport: SmtpTransport | null = null;
+
+/**
+ * Shared transport for outgoing mail, built from config.smtp on first use.
+ * SMTP_OUTBOX_DIR stubs delivery out to files.
+ */
+export function getSmtpTransport(): SmtpTransport {
+  if (transport) return transport;
+
+  if (config.smtp.outboxDir) {
+    transport = new OutboxSmtpTransport(config.smtp.outboxDir, config.smtp.from);
+    return transport;
+  }
+
+  if (!config.smtp.host) {
+    throw new NotificationConfigurationError('SMTP host not configured');
+  }
+
+  transport = new NetworkSmtpTransport({
+    host: config.smtp.host,
+    port: config.smtp.port,
+    secure: config.smtp.secure,
+    user: config.smtp.user,
+    password: config.smtp.password,
+    from: config.smtp.from,
+  });
+  return transport;
+}
+
+/**
+ * Swap in a transport implementation, e.g. a capturing stub in development
+ */
+export function setSmtpTransport(next: SmtpTransport | null): void {
+  transport = next;
+}
@@ -0,0 +1,72 @@
+/**
+ * Notification Types
+ */
+
+// ============================================================================
+// ALERTS
+// ============================================================================
+
+export type AlertSeverity = 'critical' | 'warning' | 'info';
+
+/** Lowest first, for "at or above" rule matching */
+export const ALERT_SEVERITY_ORDER: readonly AlertSeverity[] = ['info', 'warning', 'critical'];
+
+/**
+ * Anything worth telling an agency about. Structurally compatible with
+ * SkillAlert so report alerts can be passed straight through.
+ */
+export interface NotificationAlert {
+  severity: AlertSeverity;
+  /** Stable identifier that routing rules match on, e.g. LEADGEN_ROAS_LEAK */
+  code: string;
+  message: string;
+  context: Record<string, unknown>;
+}
+
+// ============================================================================
+// CHANNELS
+// ============================================================================
+
+export type NotificationChannelType = 'email' | 'webhook' | 'slack';
+
+export interface EmailChannelConfig {
+  to: string[];
+}
+
+export interface WebhookChannelConfig {
+  url: string;
+  /** Extra request headers, e.g. an auth token for the receiving service */
+  headers?: Record<string, string>;
+}
+
+export interface SlackChannelConfig {
+  /** Slack-compatible incoming webhook URL */
+  webhookUrl: string;
+}
+
+export interface NotificationChannelConfigs {
+  email: EmailChannelConfig;
+  webhook: WebhookChannelConfig;
+  slack: SlackChannelConfig;
+}
+
+export type NotificationChannelConfig = NotificationChannelConfigs[NotificationChannelType];
+
+/**
+ * A delivery mechanism. Channels make one attempt per call and throw on
+ * failure; logging and rule matching live in the dispatcher.
+ */
+export interface NotificationChannel<T extends NotificationChannelType = NotificationChannelType> {
+  readonly type: T;
+  send(config: NotificationChannelConfigs[T], alert: NotificationAlert, signal: AbortSignal): Promise<void>;
+}
+
+/**
+ * Channel cannot deliver with the current configuration (e.g. SMTP not set up)
+ */
+export class NotificationConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationConfigurationError';
+  }
+}
@@ -0,0 +1,174 @@
+import { db } from '@/db/index.js';
+import { rolePermissions, roleEnum } from '@/db/schema.js';
+import { eq, and } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+
+const permissionLogger = logger.child({ module: 'permission-service' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const PERMISSIONS = [
+  'clients:create',
+  'clients:update',
+  'clients:delete',
+  'clients:assign',
+  'clients:sync',
+  'google:connect',
+  'google:disconnect',
+  'recommendations:review',
+  'recommendations:apply',
+  'reports:generate',
+  'reports:schedule',
+  'reports:share',
+  'csv:upload',
+  'settings:manage',
+  'audit:view',
+  'permissions:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export type Role = (typeof roleEnum.enumValues)[number];
+
+export type PermissionMatrix = Record<Role, Permission[]>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const ROLES: readonly Role[] = roleEnum.enumValues;
+
+const DEFAULT_PERMISSIONS: PermissionMatrix = {
+  owner: [...PERMISSIONS],
+  admin: [...PERMISSIONS],
+  member: ['clients:sync', 'reports:generate', 'csv:upload'],
+};
+
+/** Owners always hold every permission so an agency can't lock itself out */
+export const EDITABLE_ROLES: readonly Role[] = ['admin', 'member'];
+
+/** Kept at their defaults for every role, for the same reason */
+export const LOCKED_PERMISSIONS: readonly Permission[] = ['permissions:manage'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function getDefaultPermissionMatrix(): PermissionMatrix {
+  return {
+    owner: [...DEFAULT_PERMISSIONS.owner],
+    admin: [...DEFAULT_PERMISSIONS.admin],
+    member: [...DEFAULT_PERMISSIONS.member],
+  };
+}
+
+/**
+ * Apply an agency's overrides on top of a role's defaults, keeping PERMISSIONS order
+ */
+function resolvePermissions(role: Role, overrides: Array<{ permission: string; allowed: boolean }>): Permission[] {
+  if (!EDITABLE_ROLES.includes(role)) {
+    return [...DEFAULT_PERMISSIONS[role]];
+  }
+
+  const granted = new Set<Permission>(DEFAULT_PERMISSIONS[role]);
+  for (const override of overrides) {
+    if (!isPermission(override.permission) || LOCKED_PERMISSIONS.includes(override.permission)) {
+      continue;
+    }
+    if (override.allowed) {
+      granted.add(override.permission);
+    } else {
+      granted.delete(override.permission);
+    }
+  }
+
+  return PERMISSIONS.filter((permission) => granted.has(permission));
+}
+
+// ============================================================================
+// MATRIX
+// ============================================================================
+
+export async function getPermissionMatrix(agencyId: string): Promise<PermissionMatrix> {
+  const overrides = await db
+    .select({ role: rolePermissions.role, permission: rolePermissions.permission, allowed: rolePermissions.allowed })
+    .from(rolePermissions)
+    .where(eq(rolePermissions.agencyId, agencyId));
+
+  const matrix = {} as PermissionMatrix;
+  for (const role of ROLES) {
+    matrix[role] = resolvePermissions(role, overrides.filter((override) => override.role === role));
+  }
+  return matrix;
+}
+
+export async function getRolePermissions(agencyId: string, role: Role): Promise<Permission[]> {
+  if (!EDITABLE_ROLES.includes(role)) {
+    return [...DEFAULT_PERMISSIONS[role]];
+  }
+
+  const overrides = await db
+    .select({ permission: rolePermissions.permission, allowed: rolePermissions.allowed })
+    .from(rolePermissions)
+    .where(and(eq(rolePermissions.agencyId, agencyId), eq(rolePermissions.role, role)));
+
+  return resolvePermissions(role, overrides);
+}
+
+export async function hasPermission(agencyId: string, role: Role, permission: Permission): Promise<boolean> {
+  const permissions = await getRolePermissions(agencyId, role);
+  return permissions.includes(permission);
+}
+
+/**
+ * Replace the permissions granted to a role. Only differences from the
+ * default are stored, so later changes to the defaults still reach agencies
+ * that never customised that permission.
+ */
+export async function updateRolePermissions(
+  agencyId: string,
+  userId: string,
+  role: Role,
+  permissions: Permission[]
+): Promise<PermissionMatrix> {
+  if (!EDITABLE_ROLES.includes(role)) {
+    throw new AppError(`Permissions for the ${role} role cannot be changed`, 400);
+  }
+
+  const requested = new Set(permissions);
+  const defaults = new Set(DEFAULT_PERMISSIONS[role]);
+  const overrides = PERMISSIONS
+    .filter((permission) => !LOCKED_PERMISSIONS.includes(permission))
+    .filter((permission) => requested.has(permission) !== defaults.has(permission))
+    .map((permission) => ({
+      agencyId,
+      role,
+      permission,
+      allowed: requested.has(permission),
+      updatedBy: userId,
+    }));
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(rolePermissions)
+      .where(and(eq(rolePermissions.agencyId, agencyId), eq(rolePermissions.role, role)));
+
+    if (overrides.length > 0) {
+      await tx.insert(rolePermissions).values(overrides);
+    }
+  });
+
+  permissionLogger.info(
+    { agencyId, userId, role, overrides: overrides.map((o) => `${o.allowed ? '+' : '-'}${o.permission}`) },
+    'Role permissions updated'
+  );
+
+  return getPermissionMatrix(agencyId);
+}
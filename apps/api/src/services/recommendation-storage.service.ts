@@ -2,7 +2,8 @@ import { db, recommendations, queryOverlaps } from '@/db/index.js';
 import { eq, and } from 'drizzle-orm';
 import { logger } from '@/utils/logger.js';
 import { encryptToken } from './encryption.service.js';
-import { config } from '@/config/index.js';
+import { emitClientWebhookEvent } from './webhook.service.js';
+import { resolveAgentModel } from '@/services/llm/index.js';
 import type { QueryOverlap } from './query-matcher.service.js';
 import type { Recommendation } from './ai-analyzer.service.js';
 
@@ -89,11 +90,7 @@ export async function saveRecommendation(
         timestamp: new Date().toISOString(),
       },
       response: aiResponse,
-      provider: config.aiProvider,
-      model:
-        config.aiProvider === 'anthropic'
-          ? config.anthropicModel
-          : config.openaiModel,
+      ...resolveAgentModel('default'),
     };
 
     // Encrypt the snapshot
@@ -189,7 +186,7 @@ export async function getRecommendation(recommendationId: string) {
 export async function getClientRecommendations(
   clientId: string,
   filters?: {
-    status?: 'pending' | 'approved' | 'rejected' | 'applied';
+    status?: 'pending' | 'approved' | 'rejected' | 'applying' | 'partial' | 'applied';
     recommendationType?: 'reduce' | 'pause' | 'increase' | 'maintain';
     confidenceLevel?: 'high' | 'medium' | 'low';
   }
@@ -242,7 +239,7 @@ export async function getClientRecommendations(
  */
 export async function updateRecommendationStatus(
   recommendationId: string,
-  status: 'pending' | 'approved' | 'rejected' | 'applied',
+  status: 'pending' | 'approved' | 'rejected' | 'partial' | 'applied',
   userId?: string
 ) {
   const updates: any = { status };
@@ -256,6 +253,12 @@ export async function updateRecommendationStatus(
     updates.appliedAt = new Date();
   }
 
+  const [previous] = await db
+    .select({ status: recommendations.status })
+    .from(recommendations)
+    .where(eq(recommendations.id, recommendationId))
+    .limit(1);
+
   const [updated] = await db
     .update(recommendations)
     .set(updates)
@@ -271,6 +274,15 @@ export async function updateRecommendationStatus(
     'Recommendation status updated'
   );
 
+  if (updated && previous?.status !== status) {
+    await emitClientWebhookEvent(updated.clientAccountId, 'recommendation.status_changed', {
+      recommendationId,
+      previousStatus: previous?.status ?? null,
+      status,
+      changedBy: userId ?? null,
+    });
+  }
+
   return updated;
 }
 
@@ -1,7 +1,633 @@
-export async function approveRecommendation(_id: string) {
-  return null;
+import { db } from '@/db/index.js';
+import {
+  recommendations,
+  queryOverlaps,
+  searchQueries,
+  googleAdsQueries,
+  googleAdsMutations,
+  clientAccounts,
+} from '@/db/schema.js';
+import { eq, and, asc, desc, gte, inArray, isNotNull, sql } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import { config } from '@/config/index.js';
+import { AppError } from '@/utils/errors.js';
+import { updateRecommendationStatus } from './recommendation-storage.service.js';
+import type { KeywordCriterion, KeywordStatus, MutationOptions } from './google-ads.service.js';
+
+const applyLogger = logger.child({ module: 'recommendation-apply' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MutationType = 'keyword_pause' | 'bid_change' | 'negative_keyword';
+
+export interface PlannedMutation {
+  mutationType: MutationType;
+  keywordText: string;
+  campaignId: string;
+  adGroupId: string | null;
+  /** Existing criterion to change (null for negative keywords, which create a new one) */
+  resourceName: string | null;
+  previousState: Record<string, unknown> | null;
+  newState: Record<string, unknown>;
+  description: string;
+}
+
+export interface ApplyPreview {
+  recommendationId: string;
+  recommendationType: string;
+  keywordText: string;
+  mutations: PlannedMutation[];
+  warnings: string[];
+  /** Result of sending the mutations to Google Ads with validate_only */
+  validationErrors: string[];
+}
+
+export interface ApplyResult {
+  recommendationId: string;
+  status: 'applied' | 'partial' | 'failed';
+  mutations: (typeof googleAdsMutations.$inferSelect)[];
+}
+
+interface MutationClient {
+  findKeywordCriteria(clientAccountId: string, keywordText: string): Promise<KeywordCriterion[]>;
+  setKeywordStatus(clientAccountId: string, resourceName: string, status: KeywordStatus, options?: MutationOptions): Promise<void>;
+  updateKeywordBid(clientAccountId: string, resourceName: string, cpcBidMicros: number, options?: MutationOptions): Promise<void>;
+  addCampaignNegativeKeyword(clientAccountId: string, campaignId: string, keywordText: string, options?: MutationOptions): Promise<string>;
+  removeCampaignCriterion(clientAccountId: string, resourceName: string): Promise<void>;
+}
+
+// Bid multipliers are bounded so a single recommendation can't swing bids too far
+const REDUCE_BID_BOUNDS = { min: 0.3, max: 0.95, fallback: 0.8 };
+const INCREASE_BID_BOUNDS = { min: 1.05, max: 2.0, fallback: 1.2 };
+const MIN_BID_MICROS = 10_000;
+
+// Mutations still in effect in the account; a failed rollback left its change in place
+const LIVE_MUTATION_STATUSES: ('applied' | 'rollback_failed')[] = ['applied', 'rollback_failed'];
+
+// ============================================================================
+// GOOGLE ADS CLIENT
+// ============================================================================
+
+/**
+ * Resolve the Google Ads mutation functions, honouring USE_MOCK_GOOGLE_APIS
+ */
+async function getMutationClient(): Promise<MutationClient> {
+  if (config.useMockGoogleApis) {
+    const mock = await import('./google-ads.service.mock.js');
+    return {
+      findKeywordCriteria: mock.findKeywordCriteriaMock,
+      setKeywordStatus: mock.setKeywordStatusMock,
+      updateKeywordBid: mock.updateKeywordBidMock,
+      addCampaignNegativeKeyword: mock.addCampaignNegativeKeywordMock,
+      removeCampaignCriterion: mock.removeCampaignCriterionMock,
+    };
+  }
+
+  const real = await import('./google-ads.service.js');
+  return {
+    findKeywordCriteria: real.findKeywordCriteria,
+    setKeywordStatus: real.setKeywordStatus,
+    updateKeywordBid: real.updateKeywordBid,
+    addCampaignNegativeKeyword: real.addCampaignNegativeKeyword,
+    removeCampaignCriterion: real.removeCampaignCriterion,
+  };
+}
+
+// ============================================================================
+// APPROVE / REJECT
+// ============================================================================
+
+async function getRecommendation(id: string) {
+  const [rec] = await db
+    .select()
+    .from(recommendations)
+    .where(eq(recommendations.id, id))
+    .limit(1);
+
+  if (!rec) {
+    throw new AppError('Recommendation not found', 404);
+  }
+
+  return rec;
+}
+
+/**
+ * Approve a pending recommendation so it can be applied
+ */
+export async function approveRecommendation(id: string, userId: string) {
+  const rec = await getRecommendation(id);
+
+  if (rec.status !== 'pending') {
+    throw new AppError(`Cannot approve a recommendation that is ${rec.status}`, 409);
+  }
+
+  return updateRecommendationStatus(id, 'approved', userId);
+}
+
+/**
+ * Reject a pending or approved (not yet applied) recommendation
+ */
+export async function rejectRecommendation(id: string, userId: string) {
+  const rec = await getRecommendation(id);
+
+  if (rec.status === 'applied' || rec.status === 'partial' || rec.status === 'applying') {
+    throw new AppError(`Cannot reject a recommendation that is ${rec.status} - roll it back first`, 409);
+  }
+
+  return updateRecommendationStatus(id, 'rejected', userId);
+}
+
+/**
+ * Send an approved or rejected recommendation back to pending review
+ */
+export async function reopenRecommendation(id: string, userId: string) {
+  const rec = await getRecommendation(id);
+
+  if (rec.status === 'applied' || rec.status === 'partial' || rec.status === 'applying') {
+    throw new AppError(`Cannot reopen a recommendation that is ${rec.status} - roll it back first`, 409);
+  }
+
+  return updateRecommendationStatus(id, 'pending', userId);
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+function bidMultiplier(
+  currentSpend: number,
+  recommendedSpend: number,
+  bounds: { min: number; max: number; fallback: number }
+): number {
+  if (!(currentSpend > 0) || !(recommendedSpend > 0)) return bounds.fallback;
+  return Math.min(bounds.max, Math.max(bounds.min, recommendedSpend / currentSpend));
+}
+
+function roundBid(micros: number): number {
+  // Google Ads bids must be multiples of the currency's billable unit (0.01)
+  return Math.max(MIN_BID_MICROS, Math.round(micros / 10_000) * 10_000);
+}
+
+function formatMicros(micros: number): string {
+  return (micros / 1_000_000).toFixed(2);
+}
+
+/**
+ * Build the list of Google Ads mutations for a recommendation without applying anything
+ */
+async function buildMutationPlan(
+  rec: typeof recommendations.$inferSelect,
+  client: MutationClient
+): Promise<{ keywordText: string; mutations: PlannedMutation[]; warnings: string[] }> {
+  if (!rec.queryOverlapId) {
+    throw new AppError('Only search query recommendations can be applied to Google Ads', 422);
+  }
+
+  if (rec.recommendationType === 'maintain') {
+    throw new AppError('Maintain recommendations have nothing to apply', 422);
+  }
+
+  const [query] = await db
+    .select({ searchQueryId: searchQueries.id, queryText: searchQueries.queryText })
+    .from(queryOverlaps)
+    .innerJoin(searchQueries, eq(queryOverlaps.searchQueryId, searchQueries.id))
+    .where(eq(queryOverlaps.id, rec.queryOverlapId))
+    .limit(1);
+
+  if (!query) {
+    throw new AppError('Search query for recommendation not found', 404);
+  }
+
+  const keywordText = query.queryText;
+  const warnings: string[] = [];
+  const mutations: PlannedMutation[] = [];
+  const criteria = await client.findKeywordCriteria(rec.clientAccountId, keywordText);
+
+  if (rec.recommendationType === 'pause') {
+    const enabled = criteria.filter((c) => c.status === 'ENABLED');
+
+    if (enabled.length > 0) {
+      for (const criterion of enabled) {
+        mutations.push({
+          mutationType: 'keyword_pause',
+          keywordText,
+          campaignId: criterion.campaignId,
+          adGroupId: criterion.adGroupId,
+          resourceName: criterion.resourceName,
+          previousState: { status: criterion.status },
+          newState: { status: 'PAUSED' },
+          description: `Pause keyword "${criterion.keywordText}" (${criterion.matchType}) in ${criterion.campaignName} › ${criterion.adGroupName}`,
+        });
+      }
+      return { keywordText, mutations, warnings };
+    }
+
+    // No keyword to pause - the query is matched by a broader keyword, so block it with a negative
+    const [adsRow] = await db
+      .select({ campaignId: googleAdsQueries.campaignId, campaignName: googleAdsQueries.campaignName })
+      .from(googleAdsQueries)
+      .where(and(
+        eq(googleAdsQueries.searchQueryId, query.searchQueryId),
+        isNotNull(googleAdsQueries.campaignId)
+      ))
+      .orderBy(desc(googleAdsQueries.date))
+      .limit(1);
+
+    if (!adsRow?.campaignId) {
+      throw new AppError(`No keyword or campaign found in Google Ads for "${keywordText}"`, 422);
+    }
+
+    mutations.push({
+      mutationType: 'negative_keyword',
+      keywordText,
+      campaignId: adsRow.campaignId,
+      adGroupId: null,
+      resourceName: null,
+      previousState: null,
+      newState: { negative: true, matchType: 'EXACT' },
+      description: `Add exact-match negative keyword [${keywordText}] to ${adsRow.campaignName || `campaign ${adsRow.campaignId}`}`,
+    });
+
+    return { keywordText, mutations, warnings };
+  }
+
+  // reduce / increase -> bid change on every matching keyword
+  const bounds = rec.recommendationType === 'reduce' ? REDUCE_BID_BOUNDS : INCREASE_BID_BOUNDS;
+  const multiplier = bidMultiplier(
+    parseFloat(rec.currentMonthlySpend?.toString() || '0'),
+    parseFloat(rec.recommendedMonthlySpend?.toString() || '0'),
+    bounds
+  );
+
+  for (const criterion of criteria) {
+    if (criterion.cpcBidMicros === null) {
+      warnings.push(
+        `Keyword "${criterion.keywordText}" in ${criterion.adGroupName} has no keyword-level bid (automated or ad group bidding) - skipped`
+      );
+      continue;
+    }
+
+    const newBid = roundBid(criterion.cpcBidMicros * multiplier);
+    if (newBid === criterion.cpcBidMicros) {
+      warnings.push(`Bid for "${criterion.keywordText}" in ${criterion.adGroupName} is unchanged after rounding - skipped`);
+      continue;
+    }
+
+    mutations.push({
+      mutationType: 'bid_change',
+      keywordText,
+      campaignId: criterion.campaignId,
+      adGroupId: criterion.adGroupId,
+      resourceName: criterion.resourceName,
+      previousState: { cpcBidMicros: criterion.cpcBidMicros },
+      newState: { cpcBidMicros: newBid },
+      description:
+        `Change max CPC for "${criterion.keywordText}" in ${criterion.campaignName} › ${criterion.adGroupName} ` +
+        `from ${formatMicros(criterion.cpcBidMicros)} to ${formatMicros(newBid)}`,
+    });
+  }
+
+  if (mutations.length === 0) {
+    throw new AppError(`No keyword with a manual bid found in Google Ads for "${keywordText}"`, 422);
+  }
+
+  return { keywordText, mutations, warnings };
+}
+
+async function executeMutation(
+  client: MutationClient,
+  clientAccountId: string,
+  mutation: PlannedMutation,
+  options: MutationOptions = {}
+): Promise<string | null> {
+  switch (mutation.mutationType) {
+    case 'keyword_pause':
+      await client.setKeywordStatus(clientAccountId, mutation.resourceName!, 'PAUSED', options);
+      return mutation.resourceName;
+    case 'bid_change':
+      await client.updateKeywordBid(clientAccountId, mutation.resourceName!, mutation.newState.cpcBidMicros as number, options);
+      return mutation.resourceName;
+    case 'negative_keyword':
+      return client.addCampaignNegativeKeyword(clientAccountId, mutation.campaignId, mutation.keywordText, options);
+  }
+}
+
+// ============================================================================
+// PREVIEW / APPLY / ROLLBACK
+// ============================================================================
+
+/**
+ * Failed mutations from the attempt that left a recommendation partial.
+ * appliedAt marks when that attempt started, so failures from earlier,
+ * abandoned attempts are not retried.
+ */
+async function getRetryableMutations(rec: typeof recommendations.$inferSelect) {
+  return db
+    .select()
+    .from(googleAdsMutations)
+    .where(and(
+      eq(googleAdsMutations.recommendationId, rec.id),
+      eq(googleAdsMutations.status, 'failed'),
+      rec.appliedAt ? gte(googleAdsMutations.createdAt, rec.appliedAt) : undefined
+    ))
+    .orderBy(asc(googleAdsMutations.createdAt));
+}
+
+function toPlannedMutation(row: typeof googleAdsMutations.$inferSelect): PlannedMutation {
+  return {
+    mutationType: row.mutationType,
+    keywordText: row.keywordText,
+    campaignId: row.campaignId ?? '',
+    adGroupId: row.adGroupId,
+    resourceName: row.resourceName,
+    previousState: row.previousStateJson ? JSON.parse(row.previousStateJson) : null,
+    newState: row.newStateJson ? JSON.parse(row.newStateJson) : {},
+    description: `Retry ${row.mutationType.replace('_', ' ')} for "${row.keywordText}"`,
+  };
+}
+
+/**
+ * Dry run: build the mutation plan and validate it against Google Ads without applying.
+ * For a partially applied recommendation, only the failed mutations are planned.
+ */
+export async function previewRecommendationApply(id: string): Promise<ApplyPreview> {
+  const rec = await getRecommendation(id);
+  const client = await getMutationClient();
+  const { keywordText, mutations, warnings } = rec.status === 'partial'
+    ? { keywordText: '', mutations: (await getRetryableMutations(rec)).map(toPlannedMutation), warnings: [] }
+    : await buildMutationPlan(rec, client);
+
+  const validationErrors: string[] = [];
+  for (const mutation of mutations) {
+    try {
+      await executeMutation(client, rec.clientAccountId, mutation, { validateOnly: true });
+    } catch (error) {
+      validationErrors.push(`${mutation.description}: ${error instanceof Error ? error.message : 'validation failed'}`);
+    }
+  }
+
+  return {
+    recommendationId: id,
+    recommendationType: rec.recommendationType,
+    keywordText: keywordText || mutations[0]?.keywordText || '',
+    mutations,
+    warnings,
+    validationErrors,
+  };
+}
+
+/**
+ * Push an approved recommendation to Google Ads and log every mutation.
+ *
+ * The recommendation is claimed as 'applying' with a conditional update, so
+ * concurrent applies can't both run. It ends 'applied' when every mutation
+ * succeeds and 'partial' when only some do; applying a partial recommendation
+ * again retries just the failed mutations instead of rebuilding the plan.
+ */
+export async function applyRecommendation(id: string, userId: string): Promise<ApplyResult> {
+  const rec = await getRecommendation(id);
+
+  if (rec.status !== 'approved' && rec.status !== 'partial') {
+    throw new AppError('Only approved or partially applied recommendations can be applied', 409);
+  }
+
+  const isRetry = rec.status === 'partial';
+  const [claimed] = await db
+    .update(recommendations)
+    .set(isRetry ? { status: 'applying' } : { status: 'applying', appliedAt: sql`now()` })
+    .where(and(eq(recommendations.id, id), eq(recommendations.status, rec.status)))
+    .returning();
+
+  if (!claimed) {
+    throw new AppError('Recommendation is already being applied', 409);
+  }
+
+  const [clientAccount] = await db
+    .select({ googleAdsCustomerId: clientAccounts.googleAdsCustomerId })
+    .from(clientAccounts)
+    .where(eq(clientAccounts.id, rec.clientAccountId))
+    .limit(1);
+
+  const logged: (typeof googleAdsMutations.$inferSelect)[] = [];
+
+  try {
+    const client = await getMutationClient();
+    const pending = isRetry
+      ? (await getRetryableMutations(claimed)).map((row) => ({ row, mutation: toPlannedMutation(row) }))
+      : (await buildMutationPlan(rec, client)).mutations.map((mutation) => ({ row: null, mutation }));
+
+    for (const { row: failedRow, mutation } of pending) {
+      let resourceName = mutation.resourceName;
+      let errorMessage: string | null = null;
+
+      try {
+        resourceName = await executeMutation(client, rec.clientAccountId, mutation);
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        applyLogger.error({ error, recommendationId: id, mutation }, 'Google Ads mutation failed');
+      }
+
+      const outcome = {
+        status: errorMessage ? 'failed' as const : 'applied' as const,
+        resourceName,
+        errorMessage,
+        appliedBy: userId,
+        appliedAt: errorMessage ? null : new Date(),
+      };
+
+      const [row] = failedRow
+        ? await db
+            .update(googleAdsMutations)
+            .set(outcome)
+            .where(eq(googleAdsMutations.id, failedRow.id))
+            .returning()
+        : await db
+            .insert(googleAdsMutations)
+            .values({
+              ...outcome,
+              clientAccountId: rec.clientAccountId,
+              recommendationId: id,
+              mutationType: mutation.mutationType,
+              googleAdsCustomerId: clientAccount?.googleAdsCustomerId ?? null,
+              campaignId: mutation.campaignId,
+              adGroupId: mutation.adGroupId,
+              keywordText: mutation.keywordText,
+              previousStateJson: mutation.previousState ? JSON.stringify(mutation.previousState) : null,
+              newStateJson: JSON.stringify(mutation.newState),
+            })
+            .returning();
+
+      logged.push(row);
+    }
+  } catch (error) {
+    // Nothing new reached Google Ads beyond what is logged - release the claim
+    const anyApplied = isRetry || logged.some((m) => m.status === 'applied');
+    await db
+      .update(recommendations)
+      .set(anyApplied ? { status: 'partial' } : { status: 'approved', appliedAt: null })
+      .where(and(eq(recommendations.id, id), eq(recommendations.status, 'applying')));
+    throw error;
+  }
+
+  const appliedCount = logged.filter((m) => m.status === 'applied').length;
+  const allApplied = appliedCount === logged.length;
+  const status = allApplied ? 'applied' : appliedCount > 0 || isRetry ? 'partial' : 'failed';
+
+  if (status === 'failed') {
+    await db
+      .update(recommendations)
+      .set({ status: 'approved', appliedAt: null })
+      .where(eq(recommendations.id, id));
+  } else {
+    await updateRecommendationStatus(id, status, userId);
+  }
+
+  applyLogger.info(
+    { recommendationId: id, userId, status, retry: isRetry, mutations: logged.length, applied: appliedCount },
+    'Recommendation apply complete'
+  );
+
+  return { recommendationId: id, status, mutations: logged };
+}
+
+/**
+ * Revert a single applied mutation using its logged previous state.
+ *
+ * The mutation is claimed as 'rolling_back' with a conditional update first,
+ * so concurrent rollbacks can't both send the revert.
+ */
+export async function rollbackMutation(mutationId: string, userId: string) {
+  const [mutation] = await db
+    .select()
+    .from(googleAdsMutations)
+    .where(eq(googleAdsMutations.id, mutationId))
+    .limit(1);
+
+  if (!mutation) {
+    throw new AppError('Mutation not found', 404);
+  }
+
+  if (mutation.status !== 'applied' && mutation.status !== 'rollback_failed') {
+    throw new AppError(`Cannot roll back a mutation that is ${mutation.status}`, 409);
+  }
+
+  if (!mutation.resourceName) {
+    throw new AppError('Mutation has no resource to roll back', 422);
+  }
+
+  const client = await getMutationClient();
+  const previousState = mutation.previousStateJson ? JSON.parse(mutation.previousStateJson) : null;
+
+  const [claimed] = await db
+    .update(googleAdsMutations)
+    .set({ status: 'rolling_back' })
+    .where(and(eq(googleAdsMutations.id, mutationId), eq(googleAdsMutations.status, mutation.status)))
+    .returning();
+
+  if (!claimed) {
+    throw new AppError('Mutation is already being rolled back', 409);
+  }
+
+  let errorMessage: string | null = null;
+
+  try {
+    switch (mutation.mutationType) {
+      case 'keyword_pause':
+        await client.setKeywordStatus(mutation.clientAccountId, mutation.resourceName, previousState?.status ?? 'ENABLED');
+        break;
+      case 'bid_change':
+        await client.updateKeywordBid(mutation.clientAccountId, mutation.resourceName, previousState.cpcBidMicros);
+        break;
+      case 'negative_keyword':
+        await client.removeCampaignCriterion(mutation.clientAccountId, mutation.resourceName);
+        break;
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    applyLogger.error({ error, mutationId }, 'Google Ads rollback failed');
+  }
+
+  const [updated] = await db
+    .update(googleAdsMutations)
+    .set({
+      status: errorMessage ? 'rollback_failed' : 'rolled_back',
+      errorMessage,
+      rolledBackBy: errorMessage ? null : userId,
+      rolledBackAt: errorMessage ? null : new Date(),
+    })
+    .where(eq(googleAdsMutations.id, mutationId))
+    .returning();
+
+  // Once nothing remains live in the account (a failed rollback still is), the
+  // recommendation goes back to approved
+  if (!errorMessage && mutation.recommendationId) {
+    const [stillLive] = await db
+      .select({ id: googleAdsMutations.id })
+      .from(googleAdsMutations)
+      .where(and(
+        eq(googleAdsMutations.recommendationId, mutation.recommendationId),
+        inArray(googleAdsMutations.status, [...LIVE_MUTATION_STATUSES, 'rolling_back'])
+      ))
+      .limit(1);
+
+    if (!stillLive) {
+      await db
+        .update(recommendations)
+        .set({ status: 'approved', appliedAt: null })
+        .where(and(
+          eq(recommendations.id, mutation.recommendationId),
+          inArray(recommendations.status, ['applied', 'partial'])
+        ));
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Roll back every live mutation of a recommendation, newest first, and
+ * return it to approved. Mutations whose rollback failed are retried.
+ */
+export async function rollbackRecommendation(id: string, userId: string) {
+  await getRecommendation(id);
+
+  const live = await db
+    .select({ id: googleAdsMutations.id })
+    .from(googleAdsMutations)
+    .where(and(
+      eq(googleAdsMutations.recommendationId, id),
+      inArray(googleAdsMutations.status, LIVE_MUTATION_STATUSES)
+    ))
+    .orderBy(desc(googleAdsMutations.appliedAt), desc(googleAdsMutations.createdAt));
+
+  if (live.length === 0) {
+    throw new AppError('Recommendation has no applied mutations to roll back', 409);
+  }
+
+  const results = [];
+  for (const mutation of live) {
+    results.push(await rollbackMutation(mutation.id, userId));
+  }
+
+  const allRolledBack = results.every((m) => m.status === 'rolled_back');
+
+  applyLogger.info(
+    { recommendationId: id, userId, rolledBack: results.filter((m) => m.status === 'rolled_back').length, total: results.length },
+    'Recommendation rollback complete'
+  );
+
+  return { recommendationId: id, status: allRolledBack ? 'rolled_back' : 'partial', mutations: results };
 }
 
-export async function rejectRecommendation(_id: string) {
-  return null;
+/**
+ * Mutation log for a recommendation, newest first
+ */
+export async function getRecommendationMutations(id: string) {
+  return db
+    .select()
+    .from(googleAdsMutations)
+    .where(eq(googleAdsMutations.recommendationId, id))
+    .orderBy(desc(googleAdsMutations.createdAt));
 }
@@ -0,0 +1,171 @@
+/**
+ * Report delivery email: the executive summary and top recommendations
+ * inline, with the full report attached as a PDF by the caller.
+ */
+
+import type {
+  ExecutiveSummary,
+  ImpactLevel,
+  InterplayReportDateRange,
+  ReportBranding,
+  UnifiedRecommendation,
+} from '@advergent/shared';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReportEmailInput {
+  clientName: string;
+  dateRange: InterplayReportDateRange;
+  executiveSummary?: ExecutiveSummary;
+  recommendations?: UnifiedRecommendation[];
+  branding: ReportBranding;
+}
+
+export interface ReportEmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** The rest are in the attached PDF */
+const MAX_INLINE_RECOMMENDATIONS = 5;
+
+const IMPACT_ORDER: Record<ImpactLevel, number> = { high: 0, medium: 1, low: 2 };
+
+const CATEGORY_LABELS: Record<UnifiedRecommendation['type'], string> = {
+  sem: 'SEM',
+  seo: 'SEO',
+  hybrid: 'Hybrid',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function topRecommendations(recommendations: UnifiedRecommendation[] = []): UnifiedRecommendation[] {
+  return [...recommendations]
+    .sort((a, b) => IMPACT_ORDER[a.impact] - IMPACT_ORDER[b.impact])
+    .slice(0, MAX_INLINE_RECOMMENDATIONS);
+}
+
+function footerLine(branding: ReportBranding): string {
+  return branding.footerText || `Powered by ${branding.companyName}`;
+}
+
+// ============================================================================
+// BUILDERS
+// ============================================================================
+
+function buildText(input: ReportEmailInput, period: string, recommendations: UnifiedRecommendation[]): string {
+  const { clientName, executiveSummary, branding } = input;
+  const lines = [`SEO/SEM Interplay Report for ${clientName}`, period, ''];
+
+  if (executiveSummary) {
+    lines.push('EXECUTIVE SUMMARY', '', executiveSummary.summary, '');
+    if (executiveSummary.keyHighlights.length > 0) {
+      lines.push('Key highlights:', ...executiveSummary.keyHighlights.map((highlight) => `- ${highlight}`), '');
+    }
+  }
+
+  if (recommendations.length > 0) {
+    lines.push('TOP RECOMMENDATIONS', '');
+    recommendations.forEach((rec, index) => {
+      lines.push(
+        `${index + 1}. ${rec.title} (${CATEGORY_LABELS[rec.type]}, ${rec.impact} impact, ${rec.effort} effort)`,
+        `   ${rec.description}`,
+        ''
+      );
+    });
+  }
+
+  lines.push('The full report is attached as a PDF.', '', footerLine(branding));
+  return lines.join('\n');
+}
+
+/**
+ * Inline styles and tables only, for mail clients that ignore <style>.
+ * The logo isn't embedded: most clients block data URL images.
+ */
+function buildHtml(input: ReportEmailInput, period: string, recommendations: UnifiedRecommendation[]): string {
+  const { clientName, executiveSummary, branding } = input;
+  const primary = escapeHtml(branding.primaryColor);
+  const accent = escapeHtml(branding.accentColor);
+
+  const highlights = executiveSummary?.keyHighlights.length
+    ? `<ul style="margin:12px 0 0;padding-left:20px;color:#334155;">${executiveSummary.keyHighlights
+        .map((highlight) => `<li style="margin-bottom:6px;">${escapeHtml(highlight)}</li>`)
+        .join('')}</ul>`
+    : '';
+
+  const summarySection = executiveSummary
+    ? `<h2 style="margin:24px 0 8px;font-size:18px;color:${accent};">Executive Summary</h2>
+<p style="margin:0;line-height:1.6;color:#334155;">${escapeHtml(executiveSummary.summary)}</p>
+${highlights}`
+    : '';
+
+  const recommendationRows = recommendations
+    .map(
+      (rec) => `<tr><td style="padding:12px 0;border-bottom:1px solid #e2e8f0;">
+<div style="font-weight:bold;color:#0f172a;">${escapeHtml(rec.title)}</div>
+<div style="margin:4px 0;font-size:12px;color:#64748b;">${CATEGORY_LABELS[rec.type]} &middot; ${rec.impact} impact &middot; ${rec.effort} effort</div>
+<div style="line-height:1.5;color:#334155;">${escapeHtml(rec.description)}</div>
+</td></tr>`
+    )
+    .join('');
+
+  const recommendationsSection = recommendations.length
+    ? `<h2 style="margin:24px 0 8px;font-size:18px;color:${accent};">Top Recommendations</h2>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0">${recommendationRows}</table>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:0;background:#f8fafc;font-family:Helvetica,Arial,sans-serif;font-size:14px;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f8fafc;">
+<tr><td align="center" style="padding:24px;">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="background:#ffffff;border-top:4px solid ${primary};">
+<tr><td style="padding:24px;">
+<div style="font-size:20px;font-weight:bold;color:${primary};">${escapeHtml(branding.companyName)}</div>
+<h1 style="margin:16px 0 4px;font-size:22px;color:#0f172a;">SEO/SEM Interplay Report for ${escapeHtml(clientName)}</h1>
+<div style="color:#64748b;">${escapeHtml(period)}</div>
+${summarySection}
+${recommendationsSection}
+<p style="margin:24px 0 0;color:#334155;">The full report is attached as a PDF.</p>
+</td></tr>
+<tr><td style="padding:16px 24px;border-top:1px solid #e2e8f0;font-size:12px;color:#94a3b8;">${escapeHtml(footerLine(branding))}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+export function buildReportEmail(input: ReportEmailInput): ReportEmailContent {
+  const period = `${formatDate(input.dateRange.start)} - ${formatDate(input.dateRange.end)}`;
+  const recommendations = topRecommendations(input.recommendations);
+
+  return {
+    subject: `${input.clientName}: SEO/SEM Interplay Report (${period})`,
+    text: buildText(input, period, recommendations),
+    html: buildHtml(input, period, recommendations),
+  };
+}
@@ -0,0 +1,337 @@
+/**
+ * Report Delivery Service - Public API
+ *
+ * Emails completed interplay reports to each client's distribution lists:
+ * the executive summary inline and the branded PDF attached. Every send is
+ * a report_deliveries row attempted by a report_delivery job, so failed
+ * sends are retried and each report keeps its delivery history.
+ */
+
+import { db } from '@/db/index.js';
+import { clientAccounts, reportDeliveries, reportDistributionLists } from '@/db/schema.js';
+import { eq, and, desc } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import { getInterplayReportDebug, type ReportTrigger } from '@/services/interplay-report/index.js';
+import { enqueueJob } from '@/services/job-queue.service.js';
+import { resolveReportBranding } from '@/services/branding.service.js';
+import { buildReportExport } from '@/services/report-export/index.js';
+import { getSmtpTransport, NotificationConfigurationError } from '@/services/notifications/index.js';
+import { buildReportEmail } from './email.js';
+
+export { buildReportEmail, type ReportEmailInput, type ReportEmailContent } from './email.js';
+
+const deliveryLogger = logger.child({ module: 'report-delivery' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const DELIVERY_TRIGGERS = ['client_creation', 'manual', 'scheduled'] as const satisfies readonly ReportTrigger[];
+
+export type ReportDistributionList = typeof reportDistributionLists.$inferSelect;
+
+export type ReportDelivery = typeof reportDeliveries.$inferSelect;
+
+export interface DistributionListInput {
+  name: string;
+  recipients: string[];
+  /** Report triggers that send to this list */
+  triggers: ReportTrigger[];
+  isActive?: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Rendering the PDF and uploading it can take a while on slow relays */
+const DELIVERY_TIMEOUT_MS = 60_000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function normalizeRecipients(recipients: string[]): string[] {
+  return [...new Set(recipients.map((recipient) => recipient.trim().toLowerCase()))];
+}
+
+/**
+ * Create a delivery row per list and queue a job to send it
+ */
+async function queueDeliveries(
+  clientAccountId: string,
+  agencyId: string,
+  reportId: string,
+  lists: ReportDistributionList[],
+  requestedBy: string | null
+): Promise<ReportDelivery[]> {
+  if (lists.length === 0) return [];
+
+  const deliveries = await db
+    .insert(reportDeliveries)
+    .values(lists.map((list) => ({
+      reportId,
+      clientAccountId,
+      listId: list.id,
+      listName: list.name,
+      recipients: list.recipients,
+      requestedBy,
+    })))
+    .returning();
+
+  await Promise.all(deliveries.map((delivery) =>
+    enqueueJob({
+      jobType: 'report_delivery',
+      agencyId,
+      clientAccountId,
+      referenceId: delivery.id,
+      payload: { deliveryId: delivery.id },
+    })
+  ));
+
+  return deliveries;
+}
+
+// ============================================================================
+// DISTRIBUTION LISTS
+// ============================================================================
+
+export async function listDistributionLists(clientAccountId: string): Promise<ReportDistributionList[]> {
+  return db
+    .select()
+    .from(reportDistributionLists)
+    .where(eq(reportDistributionLists.clientAccountId, clientAccountId))
+    .orderBy(reportDistributionLists.createdAt);
+}
+
+export async function createDistributionList(
+  clientAccountId: string,
+  input: DistributionListInput,
+  createdBy: string
+): Promise<ReportDistributionList> {
+  const [list] = await db
+    .insert(reportDistributionLists)
+    .values({
+      clientAccountId,
+      name: input.name,
+      recipients: normalizeRecipients(input.recipients),
+      triggers: [...new Set(input.triggers)],
+      isActive: input.isActive ?? true,
+      createdBy,
+    })
+    .returning();
+
+  deliveryLogger.info({ clientAccountId, listId: list.id, recipients: list.recipients.length }, 'Distribution list created');
+
+  return list;
+}
+
+export async function updateDistributionList(
+  clientAccountId: string,
+  listId: string,
+  input: DistributionListInput
+): Promise<{ before: ReportDistributionList; after: ReportDistributionList }> {
+  const [before] = await db
+    .select()
+    .from(reportDistributionLists)
+    .where(and(eq(reportDistributionLists.id, listId), eq(reportDistributionLists.clientAccountId, clientAccountId)))
+    .limit(1);
+
+  if (!before) {
+    throw new AppError('Distribution list not found', 404);
+  }
+
+  const [after] = await db
+    .update(reportDistributionLists)
+    .set({
+      name: input.name,
+      recipients: normalizeRecipients(input.recipients),
+      triggers: [...new Set(input.triggers)],
+      isActive: input.isActive ?? before.isActive,
+      updatedAt: new Date(),
+    })
+    .where(eq(reportDistributionLists.id, listId))
+    .returning();
+
+  deliveryLogger.info({ clientAccountId, listId }, 'Distribution list updated');
+
+  return { before, after };
+}
+
+export async function deleteDistributionList(clientAccountId: string, listId: string): Promise<ReportDistributionList> {
+  const [list] = await db
+    .delete(reportDistributionLists)
+    .where(and(eq(reportDistributionLists.id, listId), eq(reportDistributionLists.clientAccountId, clientAccountId)))
+    .returning();
+
+  if (!list) {
+    throw new AppError('Distribution list not found', 404);
+  }
+
+  deliveryLogger.info({ clientAccountId, listId }, 'Distribution list deleted');
+
+  return list;
+}
+
+// ============================================================================
+// DELIVERIES
+// ============================================================================
+
+export async function listReportDeliveries(clientAccountId: string, reportId: string): Promise<ReportDelivery[]> {
+  return db
+    .select()
+    .from(reportDeliveries)
+    .where(and(eq(reportDeliveries.clientAccountId, clientAccountId), eq(reportDeliveries.reportId, reportId)))
+    .orderBy(desc(reportDeliveries.createdAt));
+}
+
+/**
+ * Queue delivery of a just-completed report to every active list subscribed
+ * to its trigger. Never throws: delivery problems must not fail the report.
+ */
+export async function queueReportDeliveries(
+  clientAccountId: string,
+  reportId: string,
+  trigger: ReportTrigger
+): Promise<void> {
+  try {
+    const [client] = await db
+      .select({ agencyId: clientAccounts.agencyId })
+      .from(clientAccounts)
+      .where(eq(clientAccounts.id, clientAccountId))
+      .limit(1);
+
+    if (!client) return;
+
+    const lists = (await listDistributionLists(clientAccountId)).filter(
+      (list) => list.isActive && list.recipients.length > 0 && list.triggers.includes(trigger)
+    );
+
+    const deliveries = await queueDeliveries(clientAccountId, client.agencyId, reportId, lists, null);
+
+    if (deliveries.length > 0) {
+      deliveryLogger.info({ clientAccountId, reportId, trigger, lists: deliveries.length }, 'Report deliveries queued');
+    }
+  } catch (error) {
+    deliveryLogger.error({ error, clientAccountId, reportId }, 'Failed to queue report deliveries');
+  }
+}
+
+/**
+ * Send a completed report now, to the given lists or every active list
+ * regardless of its triggers
+ */
+export async function sendReportNow(
+  clientAccountId: string,
+  agencyId: string,
+  reportId: string,
+  requestedBy: string,
+  listIds?: string[]
+): Promise<ReportDelivery[]> {
+  const lists = (await listDistributionLists(clientAccountId)).filter((list) =>
+    list.recipients.length > 0 && (listIds ? listIds.includes(list.id) : list.isActive)
+  );
+
+  if (lists.length === 0) {
+    throw new AppError('No distribution lists with recipients to send to', 409);
+  }
+
+  const deliveries = await queueDeliveries(clientAccountId, agencyId, reportId, lists, requestedBy);
+
+  deliveryLogger.info({ clientAccountId, reportId, lists: deliveries.length }, 'Report send requested');
+
+  return deliveries;
+}
+
+/**
+ * Attempt one delivery (run by the job worker). Throws on failure so the job
+ * is retried; on the final attempt the delivery is marked failed instead.
+ * A missing mail configuration fails the delivery without retrying.
+ */
+export async function attemptReportDelivery(deliveryId: string, finalAttempt: boolean): Promise<{ status: string }> {
+  const [row] = await db
+    .select({ delivery: reportDeliveries, clientName: clientAccounts.name, agencyId: clientAccounts.agencyId })
+    .from(reportDeliveries)
+    .innerJoin(clientAccounts, eq(reportDeliveries.clientAccountId, clientAccounts.id))
+    .where(eq(reportDeliveries.id, deliveryId))
+    .limit(1);
+
+  if (!row) {
+    // Report or client deleted since the delivery was queued
+    return { status: 'missing' };
+  }
+
+  const { delivery, clientName, agencyId } = row;
+
+  if (delivery.status !== 'pending') {
+    return { status: delivery.status };
+  }
+
+  const report = await getInterplayReportDebug(delivery.reportId);
+
+  if (!report || report.status !== 'completed') {
+    await db
+      .update(reportDeliveries)
+      .set({ status: 'failed', lastError: 'Report is not available' })
+      .where(eq(reportDeliveries.id, delivery.id));
+    return { status: 'failed' };
+  }
+
+  try {
+    const branding = await resolveReportBranding(agencyId, delivery.clientAccountId);
+    const pdf = await buildReportExport(report, { clientName, format: 'pdf', branding });
+    const email = buildReportEmail({
+      clientName,
+      dateRange: report.dateRange,
+      executiveSummary: report.executiveSummary,
+      recommendations: report.recommendations,
+      branding,
+    });
+
+    await getSmtpTransport().send(
+      {
+        to: delivery.recipients,
+        ...email,
+        attachments: [{ filename: pdf.filename, contentType: pdf.contentType, content: pdf.content }],
+      },
+      AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    );
+
+    await db
+      .update(reportDeliveries)
+      .set({
+        status: 'sent',
+        attempts: delivery.attempts + 1,
+        lastError: null,
+        lastAttemptAt: new Date(),
+        sentAt: new Date(),
+      })
+      .where(eq(reportDeliveries.id, delivery.id));
+
+    return { status: 'sent' };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const permanent = error instanceof NotificationConfigurationError;
+
+    await db
+      .update(reportDeliveries)
+      .set({
+        status: finalAttempt || permanent ? 'failed' : 'pending',
+        attempts: delivery.attempts + 1,
+        lastError: message,
+        lastAttemptAt: new Date(),
+      })
+      .where(eq(reportDeliveries.id, delivery.id));
+
+    deliveryLogger.warn(
+      { deliveryId, reportId: delivery.reportId, finalAttempt, permanent, error: message },
+      'Report delivery attempt failed'
+    );
+
+    if (permanent) {
+      return { status: 'failed' };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Google Ads Editor bulk CSV built from a report's structured SEM actions.
+ *
+ * Every row targets a campaign, ad group or keyword that exists in the
+ * client's synced or uploaded data, using the stored spelling, so Editor's
+ * "Make multiple changes" import matches it to the live account. Actions
+ * that can't be matched are returned as skipped, with the reason.
+ *
+ * Bid and budget changes are always skipped: Editor takes absolute values,
+ * and only average CPC and spend are synced, not the current Max CPC or
+ * budget a percentage change would apply to.
+ */
+
+import Papa from 'papaparse';
+import type { SEMAction, SEMMatchType } from '@/services/interplay-report/types.js';
+import {
+  entityNameKey,
+  type AdsCampaignEntity,
+  type AdsEntityCatalog,
+} from '@/services/interplay-report/utils/ads-entities.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AdsEditorRow {
+  campaign: string;
+  adGroup: string | null;
+  keyword: string | null;
+  criterionType: string | null;
+  campaignStatus: string | null;
+  adGroupStatus: string | null;
+  status: string | null;
+  /** Index of the SEM action the row came from */
+  actionIndex: number;
+}
+
+export interface SkippedSEMAction {
+  actionIndex: number;
+  action: string;
+  reason: string;
+}
+
+export interface AdsEditorChanges {
+  rows: AdsEditorRow[];
+  skipped: SkippedSEMAction[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Editor's column names for the fields we set; other columns are left alone */
+const COLUMNS = [
+  'Campaign',
+  'Ad Group',
+  'Keyword',
+  'Criterion Type',
+  'Campaign Status',
+  'Ad Group Status',
+  'Status',
+] as const;
+
+const CRITERION_TYPES: Record<SEMMatchType, string> = {
+  exact: 'Exact',
+  phrase: 'Phrase',
+  broad: 'Broad',
+};
+
+/** Battleground keywords are specific queries, so new keywords default to exact */
+const DEFAULT_MATCH_TYPE: SEMMatchType = 'exact';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+class SkipAction extends Error {}
+
+/**
+ * Stored match types look like 'Phrase match' (CSV uploads)
+ */
+function parseStoredMatchType(value: string | null): SEMMatchType | null {
+  const normalized = value?.toLowerCase() ?? '';
+  return (Object.keys(CRITERION_TYPES) as SEMMatchType[]).find((type) => normalized.startsWith(type)) ?? null;
+}
+
+function sameName(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && entityNameKey(a) === entityNameKey(b);
+}
+
+function emptyRow(campaign: string, actionIndex: number): AdsEditorRow {
+  return {
+    campaign,
+    adGroup: null,
+    keyword: null,
+    criterionType: null,
+    campaignStatus: null,
+    adGroupStatus: null,
+    status: null,
+    actionIndex,
+  };
+}
+
+function requireKeyword(action: SEMAction): string {
+  if (!action.keyword?.trim()) {
+    throw new SkipAction('No keyword given');
+  }
+  return action.keyword.trim();
+}
+
+// ============================================================================
+// TARGET RESOLUTION
+// ============================================================================
+
+/**
+ * Campaigns named by the action, or else the campaigns its keyword runs in
+ */
+function resolveCampaigns(action: SEMAction, catalog: AdsEntityCatalog): AdsCampaignEntity[] {
+  if (action.campaign) {
+    const campaign = catalog.campaigns.find((c) => sameName(c.name, action.campaign));
+    if (!campaign) {
+      throw new SkipAction(`Campaign "${action.campaign}" not found in Google Ads data`);
+    }
+    return [campaign];
+  }
+
+  if (action.keyword) {
+    const names = new Set(
+      catalog.keywords.filter((k) => sameName(k.text, action.keyword)).map((k) => entityNameKey(k.campaign))
+    );
+    const campaigns = catalog.campaigns.filter((c) => names.has(entityNameKey(c.name)));
+    if (campaigns.length > 0) return campaigns;
+  }
+
+  throw new SkipAction('No target campaign given');
+}
+
+function resolveAdGroups(action: SEMAction, catalog: AdsEntityCatalog) {
+  if (!action.adGroup) {
+    throw new SkipAction('No target ad group given');
+  }
+
+  const adGroups = catalog.adGroups.filter(
+    (g) => sameName(g.name, action.adGroup) && (!action.campaign || sameName(g.campaign, action.campaign))
+  );
+  if (adGroups.length === 0) {
+    throw new SkipAction(`Ad group "${action.adGroup}" not found in Google Ads data`);
+  }
+  return adGroups;
+}
+
+/**
+ * Every ad group the keyword runs in, narrowed by any campaign or ad group
+ * the action names
+ */
+function resolveKeywords(action: SEMAction, catalog: AdsEntityCatalog) {
+  const text = requireKeyword(action);
+  const keywords = catalog.keywords.filter(
+    (k) =>
+      k.adGroup &&
+      sameName(k.text, text) &&
+      (!action.campaign || sameName(k.campaign, action.campaign)) &&
+      (!action.adGroup || sameName(k.adGroup, action.adGroup))
+  );
+  if (keywords.length === 0) {
+    throw new SkipAction(`Keyword "${text}" not found in a matching ad group`);
+  }
+  return keywords;
+}
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+function buildActionRows(action: SEMAction, actionIndex: number, catalog: AdsEntityCatalog): AdsEditorRow[] {
+  switch (action.operation) {
+    case 'adjust_budget':
+      throw new SkipAction('Current budgets are not synced, so the new budget is unknown - change it in Google Ads');
+
+    case 'adjust_bid':
+      throw new SkipAction('Current Max CPC bids are not synced, so the new bid is unknown - change it in Google Ads');
+
+    case 'pause':
+    case 'enable': {
+      const status = action.operation === 'pause' ? 'Paused' : 'Enabled';
+      if (action.level === 'campaign') {
+        return resolveCampaigns(action, catalog).map((campaign) => ({
+          ...emptyRow(campaign.name, actionIndex),
+          campaignStatus: status,
+        }));
+      }
+      if (action.level === 'ad_group') {
+        return resolveAdGroups(action, catalog).map((adGroup) => ({
+          ...emptyRow(adGroup.campaign, actionIndex),
+          adGroup: adGroup.name,
+          adGroupStatus: status,
+        }));
+      }
+      return resolveKeywords(action, catalog).map((keyword) => {
+        const matchType = parseStoredMatchType(keyword.matchType) ?? action.matchType ?? DEFAULT_MATCH_TYPE;
+        return {
+          ...emptyRow(keyword.campaign, actionIndex),
+          adGroup: keyword.adGroup,
+          keyword: keyword.text,
+          criterionType: CRITERION_TYPES[matchType],
+          status,
+        };
+      });
+    }
+
+    case 'add_keyword': {
+      const text = requireKeyword(action);
+      const criterionType = CRITERION_TYPES[action.matchType ?? DEFAULT_MATCH_TYPE];
+      return resolveAdGroups(action, catalog).map((adGroup) => ({
+        ...emptyRow(adGroup.campaign, actionIndex),
+        adGroup: adGroup.name,
+        keyword: text,
+        criterionType,
+      }));
+    }
+
+    case 'add_negative_keyword': {
+      const text = requireKeyword(action);
+      const criterionType = CRITERION_TYPES[action.matchType ?? DEFAULT_MATCH_TYPE];
+      if (action.adGroup) {
+        return resolveAdGroups(action, catalog).map((adGroup) => ({
+          ...emptyRow(adGroup.campaign, actionIndex),
+          adGroup: adGroup.name,
+          keyword: text,
+          criterionType: `Negative ${criterionType}`,
+        }));
+      }
+      return resolveCampaigns(action, catalog).map((campaign) => ({
+        ...emptyRow(campaign.name, actionIndex),
+        keyword: text,
+        criterionType: `Campaign Negative ${criterionType}`,
+      }));
+    }
+
+    case 'other':
+      throw new SkipAction('Not a single account change');
+
+    default:
+      throw new SkipAction('No structured change (report generated before SEM actions included one)');
+  }
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Match each SEM action to the client's campaigns, ad groups and keywords
+ * and turn it into Editor rows
+ */
+export function buildAdsEditorChanges(actions: SEMAction[], catalog: AdsEntityCatalog): AdsEditorChanges {
+  const rows: AdsEditorRow[] = [];
+  const skipped: SkippedSEMAction[] = [];
+
+  actions.forEach((action, actionIndex) => {
+    try {
+      rows.push(...buildActionRows(action, actionIndex, catalog));
+    } catch (error) {
+      if (!(error instanceof SkipAction)) throw error;
+      skipped.push({ actionIndex, action: action.action, reason: error.message });
+    }
+  });
+
+  return { rows, skipped };
+}
+
+export function adsEditorRowsToCsv(rows: AdsEditorRow[]): string {
+  // Not formula-escaped: every column is an entity name or fixed value that
+  // Editor matches verbatim, and a leading ' would stop it matching
+  return Papa.unparse({
+    fields: [...COLUMNS],
+    data: rows.map((row) => [
+      row.campaign,
+      row.adGroup ?? '',
+      row.keyword ?? '',
+      row.criterionType ?? '',
+      row.campaignStatus ?? '',
+      row.adGroupStatus ?? '',
+      row.status ?? '',
+    ]),
+  });
+}
@@ -0,0 +1,321 @@
+/**
+ * Report Export Service - Public API
+ *
+ * Builds downloadable exports of an interplay report: branded PDFs, and CSV
+ * and XLSX data covering the executive summary, unified recommendations,
+ * battleground keywords with the researcher's competitive metrics, and
+ * critical pages. Structured SEM actions also export as a Google Ads
+ * Editor bulk-change CSV.
+ */
+
+import Papa from 'papaparse';
+import type { ReportBranding } from '@advergent/shared';
+import type { DebugReportResponse } from '@/services/interplay-report/index.js';
+import type { EnrichedKeyword, EnrichedPage } from '@/services/interplay-report/types.js';
+import { buildXlsxWorkbook, type CellValue, type Worksheet } from './xlsx.js';
+import { renderInterplayReportPdf } from './pdf.js';
+import { buildAdsEditorChanges, adsEditorRowsToCsv, type SkippedSEMAction } from './ads-editor.js';
+import type { AdsEntityCatalog } from '@/services/interplay-report/utils/ads-entities.js';
+
+export { buildXlsxWorkbook, type CellValue, type Worksheet, type WorksheetColumn } from './xlsx.js';
+export { renderInterplayReportPdf } from './pdf.js';
+export {
+  buildAdsEditorChanges,
+  adsEditorRowsToCsv,
+  type AdsEditorChanges,
+  type AdsEditorRow,
+  type SkippedSEMAction,
+} from './ads-editor.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const REPORT_EXPORT_FORMATS = ['pdf', 'csv', 'xlsx'] as const;
+export type ReportExportFormat = (typeof REPORT_EXPORT_FORMATS)[number];
+
+export const REPORT_EXPORT_SHEETS = ['summary', 'recommendations', 'battleground_keywords', 'critical_pages'] as const;
+export type ReportExportSheet = (typeof REPORT_EXPORT_SHEETS)[number];
+
+export interface ReportExportOptions {
+  clientName: string;
+  format: ReportExportFormat;
+  /** CSV only: export a single sheet instead of every section */
+  sheet?: ReportExportSheet;
+  /** PDF only: agency white-label branding */
+  branding?: ReportBranding;
+}
+
+export interface ReportExportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface AdsEditorExportFile extends ReportExportFile {
+  rowCount: number;
+  skipped: SkippedSEMAction[];
+}
+
+const CONTENT_TYPES: Record<ReportExportFormat, string> = {
+  pdf: 'application/pdf',
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// ============================================================================
+// SHEETS
+// ============================================================================
+
+function summarySheet(report: DebugReportResponse, clientName: string): Worksheet {
+  const { metadata, dateRange, executiveSummary } = report;
+  const rows: CellValue[][] = [
+    ['Client', clientName],
+    ['Report ID', report.id],
+    ['Status', report.status],
+    ['Trigger', report.trigger],
+    ['Date range', `${dateRange.start} to ${dateRange.end} (${dateRange.days} days)`],
+    ['Generated', metadata.completedAt ?? metadata.createdAt],
+    ['Business type', metadata.businessType ?? null],
+    ['Skill version', metadata.skillVersion ?? null],
+    [
+      'Custom skill bundle',
+      metadata.customSkillBundle ? `${metadata.customSkillBundle.name} v${metadata.customSkillBundle.version}` : null,
+    ],
+    ['Summary', executiveSummary?.summary ?? null],
+    ...(executiveSummary?.keyHighlights ?? []).map((highlight, i): CellValue[] => [`Key highlight ${i + 1}`, highlight]),
+  ];
+
+  return {
+    name: 'Executive Summary',
+    columns: [
+      { header: 'Field', width: 24 },
+      { header: 'Value', width: 100 },
+    ],
+    rows,
+  };
+}
+
+function recommendationsSheet(report: DebugReportResponse): Worksheet {
+  return {
+    name: 'Recommendations',
+    columns: [
+      { header: '#', width: 5 },
+      { header: 'Title', width: 40 },
+      { header: 'Type', width: 10 },
+      { header: 'Impact', width: 10 },
+      { header: 'Effort', width: 10 },
+      { header: 'Description', width: 70 },
+      { header: 'Action Items', width: 70 },
+    ],
+    rows: (report.recommendations ?? []).map((rec, i) => [
+      i + 1,
+      rec.title,
+      rec.type.toUpperCase(),
+      rec.impact,
+      rec.effort,
+      rec.description,
+      rec.actionItems.map((item, n) => `${n + 1}. ${item}`).join('\n'),
+    ]),
+  };
+}
+
+function battlegroundKeywordsSheet(report: DebugReportResponse): Worksheet {
+  // Researcher output adds competitive metrics; fall back to the scout's list
+  const keywords: EnrichedKeyword[] =
+    report.researcherData?.enrichedKeywords ?? report.scoutFindings?.battlegroundKeywords ?? [];
+
+  return {
+    name: 'Battleground Keywords',
+    columns: [
+      { header: 'Query', width: 36 },
+      { header: 'Priority', width: 10 },
+      { header: 'Reason', width: 24 },
+      { header: 'Spend', width: 12 },
+      { header: 'ROAS', width: 10 },
+      { header: 'Conversions', width: 12 },
+      { header: 'Organic Position', width: 16 },
+      { header: 'Impression Share', width: 16 },
+      { header: 'Lost IS (Rank)', width: 14 },
+      { header: 'Lost IS (Budget)', width: 15 },
+      { header: 'Outranking Share', width: 16 },
+      { header: 'Overlap Rate', width: 13 },
+      { header: 'Top of Page Rate', width: 16 },
+      { header: 'Abs. Top of Page Rate', width: 20 },
+      { header: 'Position Above Rate', width: 18 },
+      { header: 'Competitive Data Level', width: 20 },
+    ],
+    rows: keywords.map((keyword) => {
+      const metrics = keyword.competitiveMetrics;
+      return [
+        keyword.query,
+        keyword.priority,
+        keyword.reason,
+        keyword.spend,
+        keyword.roas,
+        keyword.conversions,
+        keyword.organicPosition,
+        metrics?.impressionShare ?? keyword.impressionShare,
+        metrics?.lostImpressionShareRank ?? null,
+        metrics?.lostImpressionShareBudget ?? null,
+        metrics?.outrankingShare ?? null,
+        metrics?.overlapRate ?? null,
+        metrics?.topOfPageRate ?? null,
+        metrics?.absTopOfPageRate ?? null,
+        metrics?.positionAboveRate ?? null,
+        metrics?.dataLevel ?? 'none',
+      ];
+    }),
+  };
+}
+
+function criticalPagesSheet(report: DebugReportResponse): Worksheet {
+  const pages: EnrichedPage[] = report.researcherData?.enrichedPages ?? report.scoutFindings?.criticalPages ?? [];
+
+  return {
+    name: 'Critical Pages',
+    columns: [
+      { header: 'URL', width: 60 },
+      { header: 'Priority', width: 10 },
+      { header: 'Reason', width: 26 },
+      { header: 'Paid Spend', width: 12 },
+      { header: 'Organic Position', width: 16 },
+      { header: 'Impressions', width: 12 },
+      { header: 'CTR', width: 10 },
+      { header: 'Bounce Rate', width: 12 },
+      { header: 'Title', width: 40 },
+      { header: 'H1', width: 40 },
+      { header: 'Meta Description', width: 60 },
+      { header: 'Word Count', width: 12 },
+    ],
+    rows: pages.map((page) => [
+      page.url,
+      page.priority,
+      page.reason,
+      page.paidSpend,
+      page.organicPosition,
+      page.impressions,
+      page.ctr,
+      page.bounceRate,
+      page.content?.title ?? null,
+      page.content?.h1 ?? null,
+      page.content?.metaDescription ?? null,
+      page.content?.wordCount ?? null,
+    ]),
+  };
+}
+
+/**
+ * Every export sheet for a report, keyed by sheet
+ */
+export function buildReportWorksheets(
+  report: DebugReportResponse,
+  clientName: string
+): Record<ReportExportSheet, Worksheet> {
+  return {
+    summary: summarySheet(report, clientName),
+    recommendations: recommendationsSheet(report),
+    battleground_keywords: battlegroundKeywordsSheet(report),
+    critical_pages: criticalPagesSheet(report),
+  };
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+function worksheetToCsv(sheet: Worksheet): string {
+  // Scraped titles, search queries and LLM text are untrusted, so cells that
+  // a spreadsheet would evaluate as formulas are quoted
+  return Papa.unparse(
+    {
+      fields: sheet.columns.map((column) => column.header),
+      data: sheet.rows.map((row) => row.map((value) => value ?? '')),
+    },
+    { escapeFormulae: true }
+  );
+}
+
+/**
+ * Output: ClientName-SEO-SEM-Interplay-Report-2024-12-01[-recommendations].csv
+ */
+function formatExportFilename(
+  clientName: string,
+  report: DebugReportResponse,
+  format: ReportExportFormat,
+  sheet?: ReportExportSheet | 'google_ads_editor'
+): string {
+  const date = (report.metadata.completedAt ?? report.metadata.createdAt ?? new Date().toISOString()).split('T')[0];
+  const sanitizedClientName = clientName.replace(/[^a-zA-Z0-9]/g, '-').replace(/-+/g, '-');
+  const suffix = sheet ? `-${sheet.replace(/_/g, '-')}` : '';
+  return `${sanitizedClientName}-SEO-SEM-Interplay-Report-${date}${suffix}.${format}`;
+}
+
+/**
+ * Export a report as a branded PDF, an XLSX workbook (one worksheet per
+ * section) or CSV. CSV exports a single sheet when one is requested,
+ * otherwise every section one after another under its title.
+ */
+export async function buildReportExport(
+  report: DebugReportResponse,
+  options: ReportExportOptions
+): Promise<ReportExportFile> {
+  const filename = formatExportFilename(
+    options.clientName,
+    report,
+    options.format,
+    options.format === 'csv' ? options.sheet : undefined
+  );
+
+  if (options.format === 'pdf') {
+    return {
+      filename,
+      contentType: CONTENT_TYPES.pdf,
+      content: await renderInterplayReportPdf(report, options.clientName, options.branding),
+    };
+  }
+
+  const worksheets = buildReportWorksheets(report, options.clientName);
+
+  if (options.format === 'xlsx') {
+    return {
+      filename,
+      contentType: CONTENT_TYPES.xlsx,
+      content: buildXlsxWorkbook(REPORT_EXPORT_SHEETS.map((sheet) => worksheets[sheet])),
+    };
+  }
+
+  const csv = options.sheet
+    ? worksheetToCsv(worksheets[options.sheet])
+    : REPORT_EXPORT_SHEETS.map((sheet) => {
+        const worksheet = worksheets[sheet];
+        return `${Papa.unparse([[worksheet.name]], { escapeFormulae: true })}\r\n${worksheetToCsv(worksheet)}`;
+      }).join('\r\n\r\n');
+
+  return {
+    filename,
+    contentType: CONTENT_TYPES.csv,
+    // BOM so Excel opens UTF-8 CSVs with the right encoding
+    content: Buffer.from(`\uFEFF${csv}`, 'utf8'),
+  };
+}
+
+/**
+ * Export the report's SEM actions as a Google Ads Editor bulk-change CSV,
+ * matched against the client's campaigns, ad groups and keywords
+ */
+export function buildAdsEditorExport(
+  report: DebugReportResponse,
+  clientName: string,
+  catalog: AdsEntityCatalog
+): AdsEditorExportFile {
+  const { rows, skipped } = buildAdsEditorChanges(report.semAgentOutput?.semActions ?? [], catalog);
+
+  return {
+    filename: formatExportFilename(clientName, report, 'csv', 'google_ads_editor'),
+    contentType: CONTENT_TYPES.csv,
+    content: Buffer.from(`\uFEFF${adsEditorRowsToCsv(rows)}`, 'utf8'),
+    rowCount: rows.length,
+    skipped,
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Server-side rendering of the interplay report PDF, using the same
+ * document the web app renders in the browser.
+ */
+
+import { createElement, type ReactElement } from 'react';
+import { renderToBuffer, type DocumentProps } from '@react-pdf/renderer';
+import { InterplayReportPDF } from '@advergent/report-pdf';
+import type { InterplayReportResponse, ReportBranding } from '@advergent/shared';
+
+export async function renderInterplayReportPdf(
+  report: InterplayReportResponse,
+  clientName: string,
+  branding?: ReportBranding
+): Promise<Buffer> {
+  // InterplayReportPDF renders a <Document>, which is what renderToBuffer expects
+  const document = createElement(InterplayReportPDF, { report, clientName, branding }) as unknown as ReactElement<DocumentProps>;
+  return renderToBuffer(document);
+}
@@ -0,0 +1,253 @@
+import { db } from '@/db/index.js';
+import { clientAccounts, csvUploads, interplayReports, reportSchedules, syncJobs } from '@/db/schema.js';
+import { eq, and, desc, gt, max } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import { enqueueReportGeneration } from './job-queue.service.js';
+
+const scheduleLogger = logger.child({ module: 'report-schedule-service' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ReportScheduleFrequency = 'weekly' | 'monthly';
+
+export type ReportSchedule = typeof reportSchedules.$inferSelect;
+
+export interface UpsertReportScheduleInput {
+  frequency: ReportScheduleFrequency;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  dateRangeDays?: number;
+  isEnabled?: boolean;
+}
+
+export interface DataChangeResult {
+  changed: boolean;
+  reason: string;
+  lastReportAt: Date | null;
+  lastDataAt: Date | null;
+}
+
+export interface ScheduledReportRunSummary {
+  evaluated: number;
+  queued: number;
+  skipped: number;
+  failed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+export async function getReportSchedule(clientAccountId: string): Promise<ReportSchedule | null> {
+  const [schedule] = await db
+    .select()
+    .from(reportSchedules)
+    .where(eq(reportSchedules.clientAccountId, clientAccountId))
+    .limit(1);
+
+  return schedule || null;
+}
+
+export async function upsertReportSchedule(
+  clientAccountId: string,
+  input: UpsertReportScheduleInput
+): Promise<ReportSchedule> {
+  const values = {
+    frequency: input.frequency,
+    dayOfWeek: input.dayOfWeek ?? 1,
+    dayOfMonth: input.dayOfMonth ?? 1,
+    dateRangeDays: input.dateRangeDays ?? 30,
+    isEnabled: input.isEnabled ?? true,
+  };
+
+  const [schedule] = await db
+    .insert(reportSchedules)
+    .values({ clientAccountId, ...values })
+    .onConflictDoUpdate({
+      target: reportSchedules.clientAccountId,
+      set: { ...values, updatedAt: new Date() },
+    })
+    .returning();
+
+  scheduleLogger.info({ clientAccountId, ...values }, 'Report schedule saved');
+
+  return schedule;
+}
+
+// ============================================================================
+// SCHEDULING HELPERS
+// ============================================================================
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Most recent scheduled run date (UTC midnight) on or before `now`
+ */
+export function getLatestOccurrence(schedule: ReportSchedule, now: Date): Date {
+  const today = startOfUtcDay(now);
+
+  if (schedule.frequency === 'weekly') {
+    const daysSince = (today.getUTCDay() - schedule.dayOfWeek + 7) % 7;
+    return new Date(today.getTime() - daysSince * DAY_MS);
+  }
+
+  const thisMonth = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), schedule.dayOfMonth));
+  if (thisMonth <= today) {
+    return thisMonth;
+  }
+  return new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, schedule.dayOfMonth));
+}
+
+/**
+ * A schedule is due when its latest occurrence has not been handled yet.
+ * A missed cron run is caught up on the next one rather than waiting a full period.
+ */
+export function isScheduleDue(schedule: ReportSchedule, now: Date = new Date()): boolean {
+  if (!schedule.isEnabled) {
+    return false;
+  }
+
+  const occurrence = getLatestOccurrence(schedule, now);
+  const handledAt = [schedule.lastRunAt, schedule.lastSkippedAt]
+    .filter((d): d is Date => !!d)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+
+  if (handledAt) {
+    return handledAt < occurrence;
+  }
+
+  // Never run: only pick up occurrences since the schedule was created
+  const createdDay = schedule.createdAt ? startOfUtcDay(schedule.createdAt) : occurrence;
+  return occurrence >= createdDay;
+}
+
+/**
+ * Check whether new data landed since the last completed report.
+ * Data arrives either through a completed sync that processed records or a completed CSV upload.
+ */
+export async function hasDataChangedSinceLastReport(clientAccountId: string): Promise<DataChangeResult> {
+  const [lastReport] = await db
+    .select({ createdAt: interplayReports.createdAt })
+    .from(interplayReports)
+    .where(and(
+      eq(interplayReports.clientAccountId, clientAccountId),
+      eq(interplayReports.status, 'completed')
+    ))
+    .orderBy(desc(interplayReports.createdAt))
+    .limit(1);
+
+  const [syncResult] = await db
+    .select({ lastAt: max(syncJobs.completedAt) })
+    .from(syncJobs)
+    .where(and(
+      eq(syncJobs.clientAccountId, clientAccountId),
+      eq(syncJobs.status, 'completed'),
+      gt(syncJobs.recordsProcessed, 0)
+    ));
+
+  const [uploadResult] = await db
+    .select({ lastAt: max(csvUploads.createdAt) })
+    .from(csvUploads)
+    .where(and(
+      eq(csvUploads.clientAccountId, clientAccountId),
+      eq(csvUploads.status, 'completed')
+    ));
+
+  const lastDataAt = [syncResult?.lastAt, uploadResult?.lastAt]
+    .filter((d): d is Date => !!d)
+    .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+  const lastReportAt = lastReport?.createdAt ?? null;
+
+  if (!lastDataAt) {
+    return { changed: false, reason: 'No synced or uploaded data', lastReportAt, lastDataAt };
+  }
+  if (!lastReportAt) {
+    return { changed: true, reason: 'No completed report yet', lastReportAt, lastDataAt };
+  }
+  if (lastDataAt > lastReportAt) {
+    return { changed: true, reason: 'New data since last report', lastReportAt, lastDataAt };
+  }
+  return { changed: false, reason: 'No new data since last report', lastReportAt, lastDataAt };
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+/**
+ * Queue report generation for every enabled schedule that is due.
+ * The worker runs the reports; a schedule whose enqueue fails stays due so the next run retries it.
+ */
+export async function runScheduledReports(now: Date = new Date()): Promise<ScheduledReportRunSummary> {
+  const rows = await db
+    .select({ schedule: reportSchedules })
+    .from(reportSchedules)
+    .innerJoin(clientAccounts, eq(reportSchedules.clientAccountId, clientAccounts.id))
+    .where(and(
+      eq(reportSchedules.isEnabled, true),
+      eq(clientAccounts.isActive, true)
+    ));
+
+  const summary: ScheduledReportRunSummary = { evaluated: rows.length, queued: 0, skipped: 0, failed: 0 };
+
+  for (const { schedule } of rows) {
+    if (!isScheduleDue(schedule, now)) {
+      continue;
+    }
+
+    const clientAccountId = schedule.clientAccountId;
+
+    try {
+      const dataChange = await hasDataChangedSinceLastReport(clientAccountId);
+
+      if (!dataChange.changed) {
+        await db
+          .update(reportSchedules)
+          .set({ lastSkippedAt: now, lastSkipReason: dataChange.reason, updatedAt: new Date() })
+          .where(eq(reportSchedules.id, schedule.id));
+
+        summary.skipped++;
+        scheduleLogger.info({ clientAccountId, reason: dataChange.reason }, 'Skipped scheduled report');
+        continue;
+      }
+
+      const { job } = await enqueueReportGeneration(clientAccountId, {
+        days: schedule.dateRangeDays,
+        trigger: 'scheduled',
+        scheduleId: schedule.id,
+      });
+
+      await db
+        .update(reportSchedules)
+        .set({ lastRunAt: now, lastSkipReason: null, updatedAt: new Date() })
+        .where(eq(reportSchedules.id, schedule.id));
+
+      summary.queued++;
+      scheduleLogger.info({ clientAccountId, jobId: job.id }, 'Scheduled report queued');
+    } catch (error) {
+      summary.failed++;
+      scheduleLogger.error(
+        { clientAccountId, error: error instanceof Error ? error.message : 'Unknown error' },
+        'Failed to queue scheduled report'
+      );
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Link the report produced by a scheduled run back to its schedule
+ */
+export async function recordScheduledReport(scheduleId: string, reportId: string): Promise<void> {
+  await db
+    .update(reportSchedules)
+    .set({ lastReportId: reportId, updatedAt: new Date() })
+    .where(eq(reportSchedules.id, scheduleId));
+}
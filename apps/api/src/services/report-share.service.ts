@@ -0,0 +1,232 @@
+import crypto from 'node:crypto';
+import bcrypt from 'bcrypt';
+import { db } from '@/db/index.js';
+import { reportShareLinks, clientAccounts } from '@/db/schema.js';
+import { eq, and, isNull, gt, desc, sql } from 'drizzle-orm';
+import type { ReportShareLink } from '@advergent/shared';
+import { config } from '@/config/index.js';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import { encryptionService } from './encryption.service.js';
+
+const shareLogger = logger.child({ module: 'report-share-service' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ReportShareLinkRow = typeof reportShareLinks.$inferSelect;
+
+export interface CreateReportShareInput {
+  expiresInDays: number;
+  password?: string;
+}
+
+/**
+ * Outcome of a password check on a share link. 'locked' means too many wrong
+ * passwords; no password is checked until lockedUntil.
+ */
+export type ReportSharePasswordCheck =
+  | { status: 'ok' | 'required' | 'incorrect' }
+  | { status: 'locked'; lockedUntil: Date };
+
+/**
+ * A live share link resolved from its token, with what the public view needs
+ */
+export interface ResolvedReportShare {
+  share: ReportShareLinkRow;
+  clientName: string;
+  agencyId: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const TOKEN_PREFIX = 'rs_';
+/** Characters of the token kept in plain text so users can tell links apart */
+const DISPLAY_PREFIX_LENGTH = 10;
+const PASSWORD_SALT_ROUNDS = 10;
+/** Wrong passwords allowed before a link locks */
+const MAX_FAILED_PASSWORD_ATTEMPTS = 5;
+const PASSWORD_LOCKOUT_MINUTES = 15;
+
+export const MAX_SHARE_EXPIRY_DAYS = 90;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toShareLink(row: ReportShareLinkRow): ReportShareLink {
+  return {
+    id: row.id,
+    reportId: row.reportId,
+    tokenPrefix: row.tokenPrefix,
+    passwordProtected: !!row.passwordHash,
+    expiresAt: row.expiresAt.toISOString(),
+    revokedAt: row.revokedAt?.toISOString() ?? null,
+    firstViewedAt: row.firstViewedAt?.toISOString() ?? null,
+    lastViewedAt: row.lastViewedAt?.toISOString() ?? null,
+    viewCount: row.viewCount,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt?.toISOString() ?? new Date(0).toISOString(),
+  };
+}
+
+export function buildShareUrl(token: string): string {
+  return `${config.frontendUrl}/share/${token}`;
+}
+
+// ============================================================================
+// SHARE LINKS
+// ============================================================================
+
+export async function listReportShares(clientAccountId: string, reportId: string): Promise<ReportShareLink[]> {
+  const rows = await db
+    .select()
+    .from(reportShareLinks)
+    .where(and(eq(reportShareLinks.clientAccountId, clientAccountId), eq(reportShareLinks.reportId, reportId)))
+    .orderBy(desc(reportShareLinks.createdAt));
+
+  return rows.map(toShareLink);
+}
+
+/**
+ * Create a share link. The token (and so the URL) is returned only here; it
+ * cannot be recovered later.
+ */
+export async function createReportShare(
+  clientAccountId: string,
+  reportId: string,
+  userId: string,
+  input: CreateReportShareInput
+): Promise<{ share: ReportShareLink; token: string; url: string }> {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  const passwordHash = input.password ? await bcrypt.hash(input.password, PASSWORD_SALT_ROUNDS) : null;
+
+  const [row] = await db
+    .insert(reportShareLinks)
+    .values({
+      reportId,
+      clientAccountId,
+      tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      tokenHash: encryptionService.hash(token),
+      passwordHash,
+      expiresAt: new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000),
+      createdBy: userId,
+    })
+    .returning();
+
+  shareLogger.info(
+    { clientAccountId, reportId, shareId: row.id, passwordProtected: !!passwordHash },
+    'Report share link created'
+  );
+
+  return { share: toShareLink(row), token, url: buildShareUrl(token) };
+}
+
+export async function revokeReportShare(clientAccountId: string, shareId: string): Promise<ReportShareLink> {
+  const [row] = await db
+    .update(reportShareLinks)
+    .set({ revokedAt: new Date() })
+    .where(and(
+      eq(reportShareLinks.id, shareId),
+      eq(reportShareLinks.clientAccountId, clientAccountId),
+      isNull(reportShareLinks.revokedAt)
+    ))
+    .returning();
+
+  if (!row) {
+    throw new AppError('Share link not found or already revoked', 404);
+  }
+
+  shareLogger.info({ clientAccountId, shareId }, 'Report share link revoked');
+
+  return toShareLink(row);
+}
+
+// ============================================================================
+// PUBLIC ACCESS
+// ============================================================================
+
+/**
+ * Resolve a presented token. Returns null for unknown, revoked and expired links.
+ */
+export async function resolveReportShare(token: string): Promise<ResolvedReportShare | null> {
+  const [row] = await db
+    .select({ share: reportShareLinks, clientName: clientAccounts.name, agencyId: clientAccounts.agencyId })
+    .from(reportShareLinks)
+    .innerJoin(clientAccounts, eq(reportShareLinks.clientAccountId, clientAccounts.id))
+    .where(and(
+      eq(reportShareLinks.tokenHash, encryptionService.hash(token)),
+      isNull(reportShareLinks.revokedAt),
+      gt(reportShareLinks.expiresAt, new Date())
+    ))
+    .limit(1);
+
+  return row ?? null;
+}
+
+/**
+ * Check a password against a link. Links without a password accept anything.
+ * Repeated wrong passwords lock the link, so holding it is not enough to
+ * brute-force the password or to keep the API busy with bcrypt compares.
+ */
+export async function verifyReportSharePassword(
+  share: ReportShareLinkRow,
+  password?: string
+): Promise<ReportSharePasswordCheck> {
+  if (!share.passwordHash) {
+    return { status: 'ok' };
+  }
+  if (!password) {
+    return { status: 'required' };
+  }
+  if (share.passwordLockedUntil && share.passwordLockedUntil > new Date()) {
+    return { status: 'locked', lockedUntil: share.passwordLockedUntil };
+  }
+
+  if (await bcrypt.compare(password, share.passwordHash)) {
+    if (share.failedPasswordAttempts > 0) {
+      await db
+        .update(reportShareLinks)
+        .set({ failedPasswordAttempts: 0 })
+        .where(eq(reportShareLinks.id, share.id));
+    }
+    return { status: 'ok' };
+  }
+
+  // Count and lock in one statement so concurrent guesses can't skip the limit
+  const attempts = sql`${reportShareLinks.failedPasswordAttempts} + 1`;
+  const reachesLimit = sql`${attempts} >= ${MAX_FAILED_PASSWORD_ATTEMPTS}`;
+  const [row] = await db
+    .update(reportShareLinks)
+    .set({
+      failedPasswordAttempts: sql`CASE WHEN ${reachesLimit} THEN 0 ELSE ${attempts} END`,
+      passwordLockedUntil: sql`CASE WHEN ${reachesLimit}
+        THEN now() + (${PASSWORD_LOCKOUT_MINUTES} * interval '1 minute')
+        ELSE ${reportShareLinks.passwordLockedUntil} END`,
+    })
+    .where(eq(reportShareLinks.id, share.id))
+    .returning({ passwordLockedUntil: reportShareLinks.passwordLockedUntil });
+
+  if (row?.passwordLockedUntil && row.passwordLockedUntil > new Date()) {
+    shareLogger.warn(
+      { shareId: share.id, lockedUntil: row.passwordLockedUntil },
+      'Report share link locked after repeated wrong passwords'
+    );
+    return { status: 'locked', lockedUntil: row.passwordLockedUntil };
+  }
+  return { status: 'incorrect' };
+}
+
+export async function recordReportShareView(shareId: string): Promise<void> {
+  await db
+    .update(reportShareLinks)
+    .set({
+      viewCount: sql`${reportShareLinks.viewCount} + 1`,
+      firstViewedAt: sql`coalesce(${reportShareLinks.firstViewedAt}, now())`,
+      lastViewedAt: new Date(),
+    })
+    .where(eq(reportShareLinks.id, shareId));
+}
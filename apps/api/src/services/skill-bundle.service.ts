@@ -0,0 +1,479 @@
+import { db } from '@/db/index.js';
+import { clientAccounts, customSkillBundles, customSkillBundleVersions } from '@/db/schema.js';
+import { eq, and, desc, count, inArray } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import { AppError, isUniqueViolation } from '@/utils/errors.js';
+import {
+  loadSkillBundle,
+  buildCustomSkillBundle,
+  applySkillOverrides,
+  mergeSkillOverrides,
+  applyClientSkillOverrides,
+  getClientSkillSettings,
+  hasClientSkillOverrides,
+  clientSkillOverridesSchema,
+  type AgentSkillBundle,
+  type ClientSkillOverrides,
+  type ClientSkillSettings,
+  type BusinessType,
+  type SkillLoadResult,
+  type SkillBundleOverrides,
+  type SkillValidationIssue,
+} from './interplay-report/skills/index.js';
+
+const skillBundleLogger = logger.child({ module: 'skill-bundle-service' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CustomSkillBundle = typeof customSkillBundles.$inferSelect;
+export type CustomSkillBundleVersion = typeof customSkillBundleVersions.$inferSelect;
+
+export interface CustomSkillBundleSummary extends CustomSkillBundle {
+  clientCount: number;
+}
+
+export interface CustomSkillBundleDetail extends CustomSkillBundleSummary {
+  overrides: SkillBundleOverrides;
+  changeNote: string | null;
+  /** Base bundle with the current overrides applied */
+  resolved: AgentSkillBundle;
+}
+
+export interface CreateSkillBundleInput {
+  name: string;
+  description?: string;
+  baseBusinessType?: BusinessType;
+  /** Start from another custom bundle's current version instead of a built-in */
+  cloneFromId?: string;
+  overrides?: SkillBundleOverrides;
+}
+
+export interface UpdateSkillBundleInput {
+  name?: string;
+  description?: string | null;
+  /** Saving overrides creates a new version */
+  overrides?: SkillBundleOverrides;
+  changeNote?: string;
+}
+
+export type ClientSkillSource = Pick<
+  typeof clientAccounts.$inferSelect,
+  'id' | 'businessType' | 'customSkillBundleId' | 'skillOverridesJson'
+>;
+
+export interface ClientSkillOverridesState {
+  overrides: ClientSkillOverrides | null;
+  /** Values from the client's bundle, before its overrides */
+  defaults: ClientSkillSettings;
+}
+
+/**
+ * Overrides that do not produce a valid bundle
+ */
+export class SkillBundleValidationError extends AppError {
+  constructor(readonly issues: SkillValidationIssue[]) {
+    super('Skill bundle overrides are invalid', 400);
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function parseOverrides(overridesJson: string): SkillBundleOverrides {
+  return JSON.parse(overridesJson) as SkillBundleOverrides;
+}
+
+/**
+ * Validate overrides against the base bundle, throwing on any issue
+ */
+function assertValidOverrides(
+  baseBusinessType: BusinessType,
+  overrides: SkillBundleOverrides,
+  ref: { id: string; name: string; version: number }
+): AgentSkillBundle {
+  const base = loadSkillBundle(baseBusinessType).bundle;
+  const result = buildCustomSkillBundle(base, overrides, { ...ref, baseBusinessType });
+
+  if (!result.valid) {
+    throw new SkillBundleValidationError(result.issues);
+  }
+  return result.bundle;
+}
+
+async function getOwnedBundle(agencyId: string, bundleId: string): Promise<CustomSkillBundle> {
+  const [bundle] = await db
+    .select()
+    .from(customSkillBundles)
+    .where(and(eq(customSkillBundles.id, bundleId), eq(customSkillBundles.agencyId, agencyId)))
+    .limit(1);
+
+  if (!bundle) {
+    throw new AppError('Skill bundle not found', 404);
+  }
+  return bundle;
+}
+
+async function getVersion(bundleId: string, version: number): Promise<CustomSkillBundleVersion> {
+  const [row] = await db
+    .select()
+    .from(customSkillBundleVersions)
+    .where(and(eq(customSkillBundleVersions.bundleId, bundleId), eq(customSkillBundleVersions.version, version)))
+    .limit(1);
+
+  if (!row) {
+    throw new AppError(`Skill bundle version ${version} not found`, 404);
+  }
+  return row;
+}
+
+async function countClients(bundleIds: string[]): Promise<Map<string, number>> {
+  if (bundleIds.length === 0) return new Map();
+
+  const rows = await db
+    .select({ bundleId: clientAccounts.customSkillBundleId, clients: count() })
+    .from(clientAccounts)
+    .where(inArray(clientAccounts.customSkillBundleId, bundleIds))
+    .groupBy(clientAccounts.customSkillBundleId);
+
+  return new Map(rows.map((row) => [row.bundleId!, row.clients]));
+}
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+export async function listSkillBundles(
+  agencyId: string,
+  options: { includeArchived?: boolean } = {}
+): Promise<CustomSkillBundleSummary[]> {
+  const bundles = await db
+    .select()
+    .from(customSkillBundles)
+    .where(
+      options.includeArchived
+        ? eq(customSkillBundles.agencyId, agencyId)
+        : and(eq(customSkillBundles.agencyId, agencyId), eq(customSkillBundles.isArchived, false))
+    )
+    .orderBy(customSkillBundles.name);
+
+  const clientCounts = await countClients(bundles.map((bundle) => bundle.id));
+
+  return bundles.map((bundle) => ({ ...bundle, clientCount: clientCounts.get(bundle.id) ?? 0 }));
+}
+
+export async function getSkillBundle(agencyId: string, bundleId: string): Promise<CustomSkillBundleDetail> {
+  const bundle = await getOwnedBundle(agencyId, bundleId);
+  const current = await getVersion(bundle.id, bundle.currentVersion);
+  const overrides = parseOverrides(current.overridesJson);
+  const clientCounts = await countClients([bundle.id]);
+
+  return {
+    ...bundle,
+    clientCount: clientCounts.get(bundle.id) ?? 0,
+    overrides,
+    changeNote: current.changeNote,
+    resolved: applySkillOverrides(loadSkillBundle(bundle.baseBusinessType).bundle, overrides),
+  };
+}
+
+export async function listSkillBundleVersions(
+  agencyId: string,
+  bundleId: string
+): Promise<CustomSkillBundleVersion[]> {
+  await getOwnedBundle(agencyId, bundleId);
+
+  return db
+    .select()
+    .from(customSkillBundleVersions)
+    .where(eq(customSkillBundleVersions.bundleId, bundleId))
+    .orderBy(desc(customSkillBundleVersions.version));
+}
+
+export async function createSkillBundle(
+  agencyId: string,
+  userId: string,
+  input: CreateSkillBundleInput
+): Promise<CustomSkillBundleDetail> {
+  let baseBusinessType = input.baseBusinessType;
+  let overrides: SkillBundleOverrides = input.overrides ?? {};
+
+  if (input.cloneFromId) {
+    const source = await getSkillBundle(agencyId, input.cloneFromId);
+    baseBusinessType = source.baseBusinessType;
+    // Layer the new overrides on top of the source bundle's
+    overrides = mergeSkillOverrides(source.overrides, overrides);
+  }
+
+  if (!baseBusinessType) {
+    throw new AppError('baseBusinessType or cloneFromId is required', 400);
+  }
+
+  // The id only feeds the version string, which is rebuilt from the real row at load time
+  assertValidOverrides(baseBusinessType, overrides, { id: 'new', name: input.name, version: 1 });
+
+  let bundleId: string;
+  try {
+    bundleId = await db.transaction(async (tx) => {
+      const [bundle] = await tx
+        .insert(customSkillBundles)
+        .values({
+          agencyId,
+          name: input.name,
+          description: input.description ?? null,
+          baseBusinessType,
+          currentVersion: 1,
+          createdBy: userId,
+        })
+        .returning({ id: customSkillBundles.id });
+
+      await tx.insert(customSkillBundleVersions).values({
+        bundleId: bundle.id,
+        version: 1,
+        overridesJson: JSON.stringify(overrides),
+        changeNote: input.cloneFromId ? `Cloned from ${input.cloneFromId}` : 'Initial version',
+        createdBy: userId,
+      });
+
+      return bundle.id;
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new AppError(`A skill bundle named "${input.name}" already exists`, 409);
+    }
+    throw error;
+  }
+
+  skillBundleLogger.info(
+    { agencyId, bundleId, baseBusinessType, cloneFromId: input.cloneFromId },
+    'Custom skill bundle created'
+  );
+
+  return getSkillBundle(agencyId, bundleId);
+}
+
+export async function updateSkillBundle(
+  agencyId: string,
+  userId: string,
+  bundleId: string,
+  input: UpdateSkillBundleInput
+): Promise<CustomSkillBundleDetail> {
+  const bundle = await getOwnedBundle(agencyId, bundleId);
+
+  if (bundle.isArchived) {
+    throw new AppError('Archived skill bundles cannot be edited', 409);
+  }
+
+  const nextVersion = input.overrides ? bundle.currentVersion + 1 : bundle.currentVersion;
+
+  if (input.overrides) {
+    assertValidOverrides(bundle.baseBusinessType, input.overrides, {
+      id: bundle.id,
+      name: input.name ?? bundle.name,
+      version: nextVersion,
+    });
+  }
+
+  try {
+    await db.transaction(async (tx) => {
+      if (input.overrides) {
+        await tx.insert(customSkillBundleVersions).values({
+          bundleId,
+          version: nextVersion,
+          overridesJson: JSON.stringify(input.overrides),
+          changeNote: input.changeNote ?? null,
+          createdBy: userId,
+        });
+      }
+
+      await tx
+        .update(customSkillBundles)
+        .set({
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.description !== undefined && { description: input.description }),
+          currentVersion: nextVersion,
+          updatedAt: new Date(),
+        })
+        .where(eq(customSkillBundles.id, bundleId));
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new AppError(
+        input.name && input.name !== bundle.name
+          ? `A skill bundle named "${input.name}" already exists`
+          : 'Skill bundle was modified concurrently, reload and try again',
+        409
+      );
+    }
+    throw error;
+  }
+
+  skillBundleLogger.info(
+    { agencyId, bundleId, version: nextVersion, newVersion: !!input.overrides },
+    'Custom skill bundle updated'
+  );
+
+  return getSkillBundle(agencyId, bundleId);
+}
+
+/**
+ * Archive a bundle. Bundles still selected by clients cannot be archived.
+ */
+export async function archiveSkillBundle(agencyId: string, bundleId: string): Promise<void> {
+  const bundle = await getOwnedBundle(agencyId, bundleId);
+  const clientCount = (await countClients([bundle.id])).get(bundle.id) ?? 0;
+
+  if (clientCount > 0) {
+    throw new AppError(
+      `Skill bundle is used by ${clientCount} client${clientCount === 1 ? '' : 's'}; switch them to another business type first`,
+      409
+    );
+  }
+
+  await db
+    .update(customSkillBundles)
+    .set({ isArchived: true, updatedAt: new Date() })
+    .where(eq(customSkillBundles.id, bundleId));
+
+  skillBundleLogger.info({ agencyId, bundleId }, 'Custom skill bundle archived');
+}
+
+/**
+ * Check a bundle can be selected by a client of the agency
+ */
+export async function getSelectableSkillBundle(agencyId: string, bundleId: string): Promise<CustomSkillBundle> {
+  const bundle = await getOwnedBundle(agencyId, bundleId);
+
+  if (bundle.isArchived) {
+    throw new AppError('Skill bundle is archived', 409);
+  }
+  return bundle;
+}
+
+// ============================================================================
+// REPORT PIPELINE
+// ============================================================================
+
+/**
+ * Load a client's custom bundle at its current version for report generation.
+ * Falls back to the built-in base bundle, with a warning, when the custom
+ * bundle is archived or no longer validates (e.g. after a skill type change).
+ */
+export async function loadCustomSkillBundle(bundleId: string): Promise<SkillLoadResult | null> {
+  const [bundle] = await db
+    .select()
+    .from(customSkillBundles)
+    .where(eq(customSkillBundles.id, bundleId))
+    .limit(1);
+
+  if (!bundle) {
+    return null;
+  }
+
+  const baseResult = loadSkillBundle(bundle.baseBusinessType);
+
+  if (bundle.isArchived) {
+    return {
+      ...baseResult,
+      warning: `Custom skill bundle "${bundle.name}" is archived. Using the built-in ${bundle.baseBusinessType} skills.`,
+    };
+  }
+
+  const current = await getVersion(bundle.id, bundle.currentVersion);
+  const ref = {
+    id: bundle.id,
+    name: bundle.name,
+    version: bundle.currentVersion,
+    baseBusinessType: bundle.baseBusinessType,
+  };
+  const result = buildCustomSkillBundle(baseResult.bundle, parseOverrides(current.overridesJson), ref);
+
+  if (!result.valid) {
+    skillBundleLogger.warn(
+      { bundleId, version: bundle.currentVersion, issues: result.issues },
+      'Custom skill bundle failed validation, using base bundle'
+    );
+    return {
+      ...baseResult,
+      warning:
+        `Custom skill bundle "${bundle.name}" v${bundle.currentVersion} is no longer valid ` +
+        `(${result.issues.length} issue${result.issues.length === 1 ? '' : 's'}). ` +
+        `Using the built-in ${bundle.baseBusinessType} skills.`,
+    };
+  }
+
+  return {
+    bundle: result.bundle,
+    usingFallback: false,
+    customBundle: ref,
+  };
+}
+
+// ============================================================================
+// CLIENT OVERRIDES
+// ============================================================================
+
+async function loadClientBaseBundle(client: ClientSkillSource): Promise<AgentSkillBundle> {
+  const customResult = client.customSkillBundleId
+    ? await loadCustomSkillBundle(client.customSkillBundleId)
+    : null;
+  return (customResult ?? loadSkillBundle(client.businessType)).bundle;
+}
+
+function parseClientOverrides(client: ClientSkillSource): ClientSkillOverrides | null {
+  if (!client.skillOverridesJson) {
+    return null;
+  }
+
+  const result = clientSkillOverridesSchema.safeParse(JSON.parse(client.skillOverridesJson));
+  if (!result.success) {
+    skillBundleLogger.warn({ clientId: client.id, issues: result.error.errors }, 'Stored client skill overrides are invalid');
+    return null;
+  }
+  return result.data;
+}
+
+export async function getClientSkillOverrides(client: ClientSkillSource): Promise<ClientSkillOverridesState> {
+  const bundle = await loadClientBaseBundle(client);
+
+  return {
+    overrides: parseClientOverrides(client),
+    defaults: getClientSkillSettings(bundle),
+  };
+}
+
+/**
+ * Replace a client's overrides after checking they produce a valid bundle.
+ * Empty overrides clear the column.
+ */
+export async function saveClientSkillOverrides(
+  client: ClientSkillSource,
+  overrides: ClientSkillOverrides | null
+): Promise<ClientSkillOverridesState> {
+  const bundle = await loadClientBaseBundle(client);
+  const stored = hasClientSkillOverrides(overrides) ? overrides : null;
+
+  if (stored) {
+    const result = applyClientSkillOverrides(bundle, stored);
+    if (!result.valid) {
+      throw new SkillBundleValidationError(result.issues);
+    }
+  }
+
+  await db
+    .update(clientAccounts)
+    .set({
+      skillOverridesJson: stored ? JSON.stringify(stored) : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(clientAccounts.id, client.id));
+
+  skillBundleLogger.info({ clientId: client.id, hasOverrides: !!stored }, 'Client skill overrides saved');
+
+  return {
+    overrides: stored,
+    defaults: getClientSkillSettings(bundle),
+  };
+}
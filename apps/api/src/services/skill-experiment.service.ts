@@ -0,0 +1,476 @@
+import crypto from 'node:crypto';
+import { db } from '@/db/index.js';
+import { skillExperiments, skillExperimentVariants, reportMetrics } from '@/db/schema.js';
+import { eq, and, desc, sql, inArray } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import { SkillBundleValidationError } from './skill-bundle.service.js';
+import {
+  loadSkillBundle,
+  buildVariantSkillBundle,
+  type AgentSkillBundle,
+  type BusinessType,
+  type SkillBundleOverrides,
+  type SkillValidationIssue,
+} from './interplay-report/skills/index.js';
+
+const experimentLogger = logger.child({ module: 'skill-experiment-service' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SkillExperiment = typeof skillExperiments.$inferSelect;
+export type SkillExperimentVariant = typeof skillExperimentVariants.$inferSelect;
+export type SkillExperimentAssignmentUnit = SkillExperiment['assignmentUnit'];
+
+export interface SkillExperimentVariantDetail {
+  id: string;
+  name: string;
+  weight: number;
+  overrides: SkillBundleOverrides;
+  createdAt: Date | null;
+}
+
+export interface SkillExperimentDetail extends SkillExperiment {
+  variants: SkillExperimentVariantDetail[];
+}
+
+export interface CreateSkillExperimentInput {
+  name: string;
+  description?: string;
+  businessType: BusinessType;
+  assignmentUnit?: SkillExperimentAssignmentUnit;
+  variants: Array<{ name: string; weight: number; overrides?: SkillBundleOverrides }>;
+}
+
+export interface UpdateSkillExperimentInput {
+  name?: string;
+  description?: string | null;
+  /** New weight per variant id; must cover every variant and sum to 100 */
+  weights?: Record<string, number>;
+}
+
+/**
+ * Variant chosen for a report, with the bundle to run
+ */
+export interface SkillVariantAssignment {
+  experimentId: string;
+  experimentName: string;
+  variantId: string;
+  variantName: string;
+  bundle: AgentSkillBundle;
+}
+
+export interface SkillVariantComparison {
+  variantId: string;
+  name: string;
+  weight: number;
+  reportCount: number;
+  avgConstraintViolations: number | null;
+  /** Total violations per constraint rule, and the average per report */
+  violationsByRule: Record<string, { total: number; perReport: number }>;
+  /** Share of reports where ROAS leaked into a business type it is invalid for */
+  roasLeakRate: number | null;
+  /** Share of reports with any invalid metric for the business type */
+  invalidMetricLeakRate: number | null;
+  avgTokensUsed: number | null;
+  totalTokensUsed: number;
+  avgDurationMs: number | null;
+  p50DurationMs: number | null;
+  p95DurationMs: number | null;
+}
+
+export interface SkillExperimentComparison {
+  experiment: SkillExperimentDetail;
+  variants: SkillVariantComparison[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const WEIGHT_TOTAL = 100;
+
+function toVariantDetail(variant: SkillExperimentVariant): SkillExperimentVariantDetail {
+  return {
+    id: variant.id,
+    name: variant.name,
+    weight: variant.weight,
+    overrides: JSON.parse(variant.overridesJson) as SkillBundleOverrides,
+    createdAt: variant.createdAt,
+  };
+}
+
+function assertWeightsTotal(weights: number[]): void {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total !== WEIGHT_TOTAL) {
+    throw new AppError(`Variant weights must add up to ${WEIGHT_TOTAL} (got ${total})`, 400);
+  }
+}
+
+async function getOwnedExperiment(agencyId: string, experimentId: string): Promise<SkillExperiment> {
+  const [experiment] = await db
+    .select()
+    .from(skillExperiments)
+    .where(and(eq(skillExperiments.id, experimentId), eq(skillExperiments.agencyId, agencyId)))
+    .limit(1);
+
+  if (!experiment) {
+    throw new AppError('Skill experiment not found', 404);
+  }
+  return experiment;
+}
+
+async function getVariants(experimentIds: string[]): Promise<SkillExperimentVariant[]> {
+  if (experimentIds.length === 0) return [];
+
+  return db
+    .select()
+    .from(skillExperimentVariants)
+    .where(inArray(skillExperimentVariants.experimentId, experimentIds))
+    .orderBy(skillExperimentVariants.createdAt, skillExperimentVariants.name);
+}
+
+/**
+ * Bucket 0-99 for an assignment. Client assignment hashes the client id so a
+ * client stays on one variant for the life of the experiment.
+ */
+function assignmentBucket(experiment: SkillExperiment, clientAccountId: string): number {
+  if (experiment.assignmentUnit === 'report') {
+    return crypto.randomInt(WEIGHT_TOTAL);
+  }
+
+  const hash = crypto.createHash('sha256').update(`${experiment.id}:${clientAccountId}`).digest();
+  return hash.readUInt32BE(0) % WEIGHT_TOTAL;
+}
+
+function pickVariant(variants: SkillExperimentVariant[], bucket: number): SkillExperimentVariant | undefined {
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += variant.weight;
+    if (bucket < cumulative) {
+      return variant;
+    }
+  }
+  return undefined;
+}
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+export async function listSkillExperiments(agencyId: string): Promise<SkillExperimentDetail[]> {
+  const experiments = await db
+    .select()
+    .from(skillExperiments)
+    .where(eq(skillExperiments.agencyId, agencyId))
+    .orderBy(desc(skillExperiments.createdAt));
+
+  const variants = await getVariants(experiments.map((experiment) => experiment.id));
+
+  return experiments.map((experiment) => ({
+    ...experiment,
+    variants: variants
+      .filter((variant) => variant.experimentId === experiment.id)
+      .map(toVariantDetail),
+  }));
+}
+
+export async function getSkillExperiment(agencyId: string, experimentId: string): Promise<SkillExperimentDetail> {
+  const experiment = await getOwnedExperiment(agencyId, experimentId);
+  const variants = await getVariants([experiment.id]);
+
+  return { ...experiment, variants: variants.map(toVariantDetail) };
+}
+
+/**
+ * Start an experiment. Only one experiment per business type can run at a time.
+ */
+export async function createSkillExperiment(
+  agencyId: string,
+  userId: string,
+  input: CreateSkillExperimentInput
+): Promise<SkillExperimentDetail> {
+  if (input.variants.length < 2) {
+    throw new AppError('An experiment needs at least two variants', 400);
+  }
+
+  const names = new Set(input.variants.map((variant) => variant.name));
+  if (names.size !== input.variants.length) {
+    throw new AppError('Variant names must be unique', 400);
+  }
+
+  assertWeightsTotal(input.variants.map((variant) => variant.weight));
+
+  // Validate every variant up front; the id only feeds the version string
+  const base = loadSkillBundle(input.businessType).bundle;
+  const issues: SkillValidationIssue[] = [];
+  for (const variant of input.variants) {
+    const result = buildVariantSkillBundle(base, variant.overrides ?? {}, 'new', variant.name);
+    if (!result.valid) {
+      issues.push(...result.issues.map((issue) => ({ ...issue, path: `${variant.name}.${issue.path}` })));
+    }
+  }
+  if (issues.length > 0) {
+    throw new SkillBundleValidationError(issues);
+  }
+
+  const [running] = await db
+    .select({ id: skillExperiments.id, name: skillExperiments.name })
+    .from(skillExperiments)
+    .where(
+      and(
+        eq(skillExperiments.agencyId, agencyId),
+        eq(skillExperiments.businessType, input.businessType),
+        eq(skillExperiments.status, 'running')
+      )
+    )
+    .limit(1);
+
+  if (running) {
+    throw new AppError(
+      `Experiment "${running.name}" is already running for ${input.businessType}. Stop it first.`,
+      409
+    );
+  }
+
+  const experimentId = await db.transaction(async (tx) => {
+    const [experiment] = await tx
+      .insert(skillExperiments)
+      .values({
+        agencyId,
+        name: input.name,
+        description: input.description ?? null,
+        businessType: input.businessType,
+        assignmentUnit: input.assignmentUnit ?? 'client',
+        createdBy: userId,
+      })
+      .returning({ id: skillExperiments.id });
+
+    await tx.insert(skillExperimentVariants).values(
+      input.variants.map((variant) => ({
+        experimentId: experiment.id,
+        name: variant.name,
+        weight: variant.weight,
+        overridesJson: JSON.stringify(variant.overrides ?? {}),
+      }))
+    );
+
+    return experiment.id;
+  });
+
+  experimentLogger.info(
+    { agencyId, experimentId, businessType: input.businessType, variants: input.variants.length },
+    'Skill experiment started'
+  );
+
+  return getSkillExperiment(agencyId, experimentId);
+}
+
+/**
+ * Rename an experiment or re-weight its variants. Variant overrides are fixed
+ * so that metrics already recorded stay comparable.
+ */
+export async function updateSkillExperiment(
+  agencyId: string,
+  experimentId: string,
+  input: UpdateSkillExperimentInput
+): Promise<SkillExperimentDetail> {
+  const experiment = await getOwnedExperiment(agencyId, experimentId);
+  const variants = await getVariants([experiment.id]);
+
+  if (input.weights) {
+    const weights = input.weights;
+    const unknown = Object.keys(weights).filter((id) => !variants.some((variant) => variant.id === id));
+    if (unknown.length > 0 || variants.some((variant) => weights[variant.id] === undefined)) {
+      throw new AppError('Weights must be given for exactly the experiment\'s variants', 400);
+    }
+    assertWeightsTotal(Object.values(weights));
+  }
+
+  await db.transaction(async (tx) => {
+    if (input.name !== undefined || input.description !== undefined) {
+      await tx
+        .update(skillExperiments)
+        .set({
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.description !== undefined && { description: input.description }),
+          updatedAt: new Date(),
+        })
+        .where(eq(skillExperiments.id, experiment.id));
+    }
+
+    if (input.weights) {
+      for (const [variantId, weight] of Object.entries(input.weights)) {
+        await tx
+          .update(skillExperimentVariants)
+          .set({ weight })
+          .where(eq(skillExperimentVariants.id, variantId));
+      }
+    }
+  });
+
+  if (input.weights) {
+    experimentLogger.info({ agencyId, experimentId, weights: input.weights }, 'Skill experiment re-weighted');
+  }
+
+  return getSkillExperiment(agencyId, experimentId);
+}
+
+export async function stopSkillExperiment(agencyId: string, experimentId: string): Promise<SkillExperimentDetail> {
+  const experiment = await getOwnedExperiment(agencyId, experimentId);
+
+  if (experiment.status === 'stopped') {
+    throw new AppError('Skill experiment is already stopped', 409);
+  }
+
+  await db
+    .update(skillExperiments)
+    .set({ status: 'stopped', stoppedAt: new Date(), updatedAt: new Date() })
+    .where(eq(skillExperiments.id, experiment.id));
+
+  experimentLogger.info({ agencyId, experimentId }, 'Skill experiment stopped');
+
+  return getSkillExperiment(agencyId, experimentId);
+}
+
+// ============================================================================
+// REPORT PIPELINE
+// ============================================================================
+
+/**
+ * Pick the variant a report runs with, when the agency has an experiment
+ * running for the business type. Returns null when there is none, or when the
+ * chosen variant no longer validates against the built-in bundle.
+ */
+export async function assignSkillVariant(params: {
+  agencyId: string;
+  clientAccountId: string;
+  businessType: BusinessType;
+}): Promise<SkillVariantAssignment | null> {
+  const [experiment] = await db
+    .select()
+    .from(skillExperiments)
+    .where(
+      and(
+        eq(skillExperiments.agencyId, params.agencyId),
+        eq(skillExperiments.businessType, params.businessType),
+        eq(skillExperiments.status, 'running')
+      )
+    )
+    .orderBy(desc(skillExperiments.startedAt))
+    .limit(1);
+
+  if (!experiment) {
+    return null;
+  }
+
+  const variants = await getVariants([experiment.id]);
+  const variant = pickVariant(variants, assignmentBucket(experiment, params.clientAccountId));
+
+  if (!variant) {
+    return null;
+  }
+
+  const result = buildVariantSkillBundle(
+    loadSkillBundle(params.businessType).bundle,
+    JSON.parse(variant.overridesJson),
+    experiment.id,
+    variant.name
+  );
+
+  if (!result.valid) {
+    experimentLogger.warn(
+      { experimentId: experiment.id, variantId: variant.id, issues: result.issues },
+      'Skill experiment variant failed validation, using built-in bundle'
+    );
+    return null;
+  }
+
+  return {
+    experimentId: experiment.id,
+    experimentName: experiment.name,
+    variantId: variant.id,
+    variantName: variant.name,
+    bundle: result.bundle,
+  };
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Aggregate report_metrics for each variant of an experiment
+ */
+export async function compareSkillExperiment(
+  agencyId: string,
+  experimentId: string
+): Promise<SkillExperimentComparison> {
+  const experiment = await getSkillExperiment(agencyId, experimentId);
+
+  const aggregates = await db
+    .select({
+      variantId: reportMetrics.variantId,
+      reportCount: sql<number>`CAST(COUNT(*) AS INTEGER)`,
+      avgConstraintViolations: sql<number | null>`AVG(${reportMetrics.constraintViolations})::float`,
+      roasLeaks: sql<number>`CAST(COUNT(*) FILTER (WHERE 'roas' = ANY(${reportMetrics.invalidMetricsDetected})) AS INTEGER)`,
+      invalidMetricLeaks: sql<number>`CAST(COUNT(*) FILTER (WHERE cardinality(${reportMetrics.invalidMetricsDetected}) > 0) AS INTEGER)`,
+      avgTokensUsed: sql<number | null>`AVG(${reportMetrics.tokensUsed})::float`,
+      totalTokensUsed: sql<number>`COALESCE(SUM(${reportMetrics.tokensUsed}), 0)::float`,
+      avgDurationMs: sql<number | null>`AVG(${reportMetrics.totalDurationMs})::float`,
+      p50DurationMs: sql<number | null>`percentile_cont(0.5) WITHIN GROUP (ORDER BY ${reportMetrics.totalDurationMs})`,
+      p95DurationMs: sql<number | null>`percentile_cont(0.95) WITHIN GROUP (ORDER BY ${reportMetrics.totalDurationMs})`,
+    })
+    .from(reportMetrics)
+    .where(eq(reportMetrics.experimentId, experiment.id))
+    .groupBy(reportMetrics.variantId);
+
+  // violations_by_rule is a JSON string per report, summed here
+  const ruleRows = await db
+    .select({ variantId: reportMetrics.variantId, violationsByRule: reportMetrics.violationsByRule })
+    .from(reportMetrics)
+    .where(and(eq(reportMetrics.experimentId, experiment.id), sql`${reportMetrics.constraintViolations} > 0`));
+
+  const ruleTotals = new Map<string, Record<string, number>>();
+  for (const row of ruleRows) {
+    if (!row.variantId) continue;
+    const totals = ruleTotals.get(row.variantId) ?? {};
+    for (const [rule, total] of Object.entries(JSON.parse(row.violationsByRule) as Record<string, number>)) {
+      totals[rule] = (totals[rule] ?? 0) + total;
+    }
+    ruleTotals.set(row.variantId, totals);
+  }
+
+  const rate = (value: number, reportCount: number) => (reportCount > 0 ? value / reportCount : null);
+
+  const variants = experiment.variants.map((variant): SkillVariantComparison => {
+    const row = aggregates.find((aggregate) => aggregate.variantId === variant.id);
+    const reportCount = row?.reportCount ?? 0;
+    const violationsByRule = Object.fromEntries(
+      Object.entries(ruleTotals.get(variant.id) ?? {}).map(([rule, total]) => [
+        rule,
+        { total, perReport: reportCount > 0 ? total / reportCount : 0 },
+      ])
+    );
+
+    return {
+      variantId: variant.id,
+      name: variant.name,
+      weight: variant.weight,
+      reportCount,
+      avgConstraintViolations: row?.avgConstraintViolations ?? null,
+      violationsByRule,
+      roasLeakRate: rate(row?.roasLeaks ?? 0, reportCount),
+      invalidMetricLeakRate: rate(row?.invalidMetricLeaks ?? 0, reportCount),
+      avgTokensUsed: row?.avgTokensUsed ?? null,
+      totalTokensUsed: row?.totalTokensUsed ?? 0,
+      avgDurationMs: row?.avgDurationMs ?? null,
+      p50DurationMs: row?.p50DurationMs ?? null,
+      p95DurationMs: row?.p95DurationMs ?? null,
+    };
+  });
+
+  return { experiment, variants };
+}
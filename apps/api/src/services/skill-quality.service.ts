@@ -0,0 +1,348 @@
+/**
+ * Skill Quality Reporting
+ *
+ * Aggregates report_metrics, constraint_violations and report_phase_events
+ * for an agency, to spot prompt regressions by business type and skill version.
+ */
+
+import { db } from '@/db/index.js';
+import { clientAccounts, constraintViolations, reportMetrics, reportPhaseEvents } from '@/db/schema.js';
+import { eq, and, gte, sql, count, type SQL } from 'drizzle-orm';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SkillQualityInterval = 'day' | 'week';
+
+export interface SkillQualityFilters {
+  businessType?: string;
+  skillVersion?: string;
+  days: number;
+  interval: SkillQualityInterval;
+}
+
+export interface SkillQualityFilterOptions {
+  businessTypes: string[];
+  skillVersions: Array<{ skillVersion: string; businessType: string; reportCount: number }>;
+}
+
+export interface ViolationTrendPeriod {
+  period: string;
+  reportCount: number;
+  /** Violations per constraint ID */
+  violations: Record<string, number>;
+}
+
+export interface ViolationTrends {
+  periods: ViolationTrendPeriod[];
+  constraints: Array<{ constraintId: string; total: number; perReport: number }>;
+  reportCount: number;
+}
+
+export interface InvalidMetricLeaks {
+  businessTypes: Array<{
+    businessType: string;
+    reportCount: number;
+    reportsWithLeaks: number;
+    leakRate: number;
+    /** Reports each invalid metric leaked into */
+    metrics: Record<string, number>;
+  }>;
+}
+
+export interface TokenBudgetPeriod {
+  period: string;
+  reportCount: number;
+  truncatedReports: number;
+  reportsWithDroppedKeywords: number;
+  keywordsDropped: number;
+  pagesDropped: number;
+}
+
+export interface TokenBudgetStats {
+  periods: TokenBudgetPeriod[];
+  totals: TokenBudgetPeriod & {
+    truncationRate: number | null;
+    droppedKeywordRate: number | null;
+  };
+}
+
+export interface PhaseLatency {
+  phase: string;
+  samples: number;
+  avgMs: number | null;
+  p50Ms: number | null;
+  p90Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function since(days: number): Date {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+}
+
+/**
+ * Period label (YYYY-MM-DD of the day or week start). The interval is one of
+ * a fixed set, so it is inlined to keep SELECT and GROUP BY expressions identical.
+ */
+function periodOf(column: typeof reportMetrics.createdAt | typeof constraintViolations.createdAt, interval: SkillQualityInterval) {
+  return sql<string>`to_char(date_trunc(${sql.raw(`'${interval}'`)}, ${column}), 'YYYY-MM-DD')`;
+}
+
+function metricsConditions(agencyId: string, filters: SkillQualityFilters): SQL | undefined {
+  return and(
+    eq(clientAccounts.agencyId, agencyId),
+    gte(reportMetrics.createdAt, since(filters.days)),
+    filters.businessType ? eq(reportMetrics.businessType, filters.businessType) : undefined,
+    filters.skillVersion ? eq(reportMetrics.skillVersion, filters.skillVersion) : undefined
+  );
+}
+
+function percentile(fraction: number, column: SQL | typeof reportMetrics.totalDurationMs) {
+  return sql<number | null>`percentile_cont(${sql.raw(String(fraction))}) WITHIN GROUP (ORDER BY ${column})`;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Business types and skill versions with metrics in the agency, for filter pickers
+ */
+export async function getSkillQualityFilterOptions(agencyId: string): Promise<SkillQualityFilterOptions> {
+  const rows = await db
+    .select({
+      businessType: reportMetrics.businessType,
+      skillVersion: reportMetrics.skillVersion,
+      reportCount: count(),
+    })
+    .from(reportMetrics)
+    .innerJoin(clientAccounts, eq(reportMetrics.clientAccountId, clientAccounts.id))
+    .where(eq(clientAccounts.agencyId, agencyId))
+    .groupBy(reportMetrics.businessType, reportMetrics.skillVersion)
+    .orderBy(reportMetrics.businessType, reportMetrics.skillVersion);
+
+  return {
+    businessTypes: [...new Set(rows.map((row) => row.businessType))],
+    skillVersions: rows,
+  };
+}
+
+/**
+ * Constraint violations per constraint ID over time, with report counts so
+ * rates can be compared across periods with different volumes
+ */
+export async function getViolationTrends(agencyId: string, filters: SkillQualityFilters): Promise<ViolationTrends> {
+  const violationPeriod = periodOf(constraintViolations.createdAt, filters.interval);
+  const reportPeriod = periodOf(reportMetrics.createdAt, filters.interval);
+
+  const [violationRows, reportRows] = await Promise.all([
+    db
+      .select({
+        period: violationPeriod,
+        constraintId: constraintViolations.constraintId,
+        violations: count(),
+      })
+      .from(constraintViolations)
+      .innerJoin(clientAccounts, eq(constraintViolations.clientAccountId, clientAccounts.id))
+      .where(
+        and(
+          eq(clientAccounts.agencyId, agencyId),
+          gte(constraintViolations.createdAt, since(filters.days)),
+          filters.businessType ? eq(constraintViolations.businessType, filters.businessType) : undefined,
+          filters.skillVersion ? eq(constraintViolations.skillVersion, filters.skillVersion) : undefined
+        )
+      )
+      .groupBy(violationPeriod, constraintViolations.constraintId),
+    db
+      .select({ period: reportPeriod, reportCount: count() })
+      .from(reportMetrics)
+      .innerJoin(clientAccounts, eq(reportMetrics.clientAccountId, clientAccounts.id))
+      .where(metricsConditions(agencyId, filters))
+      .groupBy(reportPeriod),
+  ]);
+
+  const periods = new Map<string, ViolationTrendPeriod>();
+  const periodFor = (period: string) => {
+    const existing = periods.get(period) ?? { period, reportCount: 0, violations: {} };
+    periods.set(period, existing);
+    return existing;
+  };
+
+  for (const row of reportRows) {
+    periodFor(row.period).reportCount = row.reportCount;
+  }
+
+  const totals = new Map<string, number>();
+  for (const row of violationRows) {
+    periodFor(row.period).violations[row.constraintId] = row.violations;
+    totals.set(row.constraintId, (totals.get(row.constraintId) ?? 0) + row.violations);
+  }
+
+  const reportCount = reportRows.reduce((sum, row) => sum + row.reportCount, 0);
+
+  return {
+    periods: [...periods.values()].sort((a, b) => a.period.localeCompare(b.period)),
+    constraints: [...totals.entries()]
+      .map(([constraintId, total]) => ({
+        constraintId,
+        total,
+        perReport: reportCount > 0 ? total / reportCount : 0,
+      }))
+      .sort((a, b) => b.total - a.total),
+    reportCount,
+  };
+}
+
+/**
+ * Reports whose final output mentioned metrics invalid for their business type
+ */
+export async function getInvalidMetricLeaks(agencyId: string, filters: SkillQualityFilters): Promise<InvalidMetricLeaks> {
+  const conditions = metricsConditions(agencyId, filters);
+
+  const [reportRows, leakRows] = await Promise.all([
+    db
+      .select({ businessType: reportMetrics.businessType, reportCount: count() })
+      .from(reportMetrics)
+      .innerJoin(clientAccounts, eq(reportMetrics.clientAccountId, clientAccounts.id))
+      .where(conditions)
+      .groupBy(reportMetrics.businessType),
+    db
+      .select({
+        businessType: reportMetrics.businessType,
+        invalidMetrics: reportMetrics.invalidMetricsDetected,
+      })
+      .from(reportMetrics)
+      .innerJoin(clientAccounts, eq(reportMetrics.clientAccountId, clientAccounts.id))
+      .where(and(conditions, sql`cardinality(${reportMetrics.invalidMetricsDetected}) > 0`)),
+  ]);
+
+  return {
+    businessTypes: reportRows
+      .map((row) => {
+        const leaks = leakRows.filter((leak) => leak.businessType === row.businessType);
+        const metrics: Record<string, number> = {};
+        for (const leak of leaks) {
+          for (const metric of new Set(leak.invalidMetrics)) {
+            metrics[metric] = (metrics[metric] ?? 0) + 1;
+          }
+        }
+
+        return {
+          businessType: row.businessType,
+          reportCount: row.reportCount,
+          reportsWithLeaks: leaks.length,
+          leakRate: row.reportCount > 0 ? leaks.length / row.reportCount : 0,
+          metrics,
+        };
+      })
+      .sort((a, b) => b.leakRate - a.leakRate),
+  };
+}
+
+/**
+ * How often prompt serialization had to truncate or drop data
+ */
+export async function getTokenBudgetStats(agencyId: string, filters: SkillQualityFilters): Promise<TokenBudgetStats> {
+  const period = periodOf(reportMetrics.createdAt, filters.interval);
+
+  const rows = await db
+    .select({
+      period,
+      reportCount: count(),
+      truncatedReports: sql<number>`CAST(COUNT(*) FILTER (WHERE ${reportMetrics.truncationApplied}) AS INTEGER)`,
+      reportsWithDroppedKeywords: sql<number>`CAST(COUNT(*) FILTER (WHERE ${reportMetrics.keywordsDropped} > 0) AS INTEGER)`,
+      keywordsDropped: sql<number>`CAST(COALESCE(SUM(${reportMetrics.keywordsDropped}), 0) AS INTEGER)`,
+      pagesDropped: sql<number>`CAST(COALESCE(SUM(${reportMetrics.pagesDropped}), 0) AS INTEGER)`,
+    })
+    .from(reportMetrics)
+    .innerJoin(clientAccounts, eq(reportMetrics.clientAccountId, clientAccounts.id))
+    .where(metricsConditions(agencyId, filters))
+    .groupBy(period)
+    .orderBy(period);
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      period: 'total',
+      reportCount: sum.reportCount + row.reportCount,
+      truncatedReports: sum.truncatedReports + row.truncatedReports,
+      reportsWithDroppedKeywords: sum.reportsWithDroppedKeywords + row.reportsWithDroppedKeywords,
+      keywordsDropped: sum.keywordsDropped + row.keywordsDropped,
+      pagesDropped: sum.pagesDropped + row.pagesDropped,
+    }),
+    { period: 'total', reportCount: 0, truncatedReports: 0, reportsWithDroppedKeywords: 0, keywordsDropped: 0, pagesDropped: 0 }
+  );
+
+  return {
+    periods: rows,
+    totals: {
+      ...totals,
+      truncationRate: totals.reportCount > 0 ? totals.truncatedReports / totals.reportCount : null,
+      droppedKeywordRate: totals.reportCount > 0 ? totals.reportsWithDroppedKeywords / totals.reportCount : null,
+    },
+  };
+}
+
+/**
+ * Latency percentiles per pipeline phase from completed phase events, plus
+ * end-to-end duration from report_metrics
+ */
+export async function getPhaseLatency(agencyId: string, filters: SkillQualityFilters): Promise<PhaseLatency[]> {
+  const conditions = metricsConditions(agencyId, filters);
+  const duration = sql`${reportPhaseEvents.durationMs}`;
+
+  const [phaseRows, [totalRow]] = await Promise.all([
+    db
+      .select({
+        phase: reportPhaseEvents.phase,
+        samples: count(),
+        avgMs: sql<number | null>`AVG(${reportPhaseEvents.durationMs})::float`,
+        p50Ms: percentile(0.5, duration),
+        p90Ms: percentile(0.9, duration),
+        p95Ms: percentile(0.95, duration),
+        p99Ms: percentile(0.99, duration),
+      })
+      .from(reportPhaseEvents)
+      .innerJoin(reportMetrics, eq(reportPhaseEvents.reportId, reportMetrics.reportId))
+      .innerJoin(clientAccounts, eq(reportMetrics.clientAccountId, clientAccounts.id))
+      .where(
+        and(
+          conditions,
+          eq(reportPhaseEvents.eventType, 'completed'),
+          sql`${reportPhaseEvents.durationMs} IS NOT NULL`
+        )
+      )
+      .groupBy(reportPhaseEvents.phase),
+    db
+      .select({
+        samples: count(),
+        avgMs: sql<number | null>`AVG(${reportMetrics.totalDurationMs})::float`,
+        p50Ms: percentile(0.5, reportMetrics.totalDurationMs),
+        p90Ms: percentile(0.9, reportMetrics.totalDurationMs),
+        p95Ms: percentile(0.95, reportMetrics.totalDurationMs),
+        p99Ms: percentile(0.99, reportMetrics.totalDurationMs),
+      })
+      .from(reportMetrics)
+      .innerJoin(clientAccounts, eq(reportMetrics.clientAccountId, clientAccounts.id))
+      .where(and(conditions, sql`${reportMetrics.totalDurationMs} IS NOT NULL`)),
+  ]);
+
+  // Keep pipeline order rather than alphabetical
+  const phaseOrder = reportPhaseEvents.phase.enumValues as readonly string[];
+  const phases: PhaseLatency[] = phaseRows
+    .map((row) => ({ ...row, phase: row.phase as string }))
+    .sort((a, b) => phaseOrder.indexOf(a.phase) - phaseOrder.indexOf(b.phase));
+
+  if (totalRow && totalRow.samples > 0) {
+    phases.push({ phase: 'total', ...totalRow });
+  }
+
+  return phases;
+}
@@ -0,0 +1,590 @@
+/**
+ * Outbound Webhooks
+ *
+ * Agencies register endpoints that receive signed lifecycle events. Emitting
+ * an event stores one delivery per subscribed endpoint and queues a
+ * webhook_delivery job for it; the job queue retries failed attempts with
+ * backoff.
+ *
+ * Each request carries:
+ *   Advergent-Event: <event type>
+ *   Advergent-Delivery: <delivery id>
+ *   Advergent-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * Endpoint hosts are resolved on every attempt and the connection is refused
+ * when they point at private, loopback or link-local addresses.
+ */
+
+import crypto from 'node:crypto';
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import { db } from '@/db/index.js';
+import { clientAccounts, webhookEndpoints, webhookDeliveries } from '@/db/schema.js';
+import { eq, and, desc, count } from 'drizzle-orm';
+import { logger } from '@/utils/logger.js';
+import { AppError } from '@/utils/errors.js';
+import { encryptToken, decryptToken } from '@/services/encryption.service.js';
+import { enqueueJob } from '@/services/job-queue.service.js';
+import { config } from '@/config/index.js';
+
+const webhookLogger = logger.child({ module: 'webhooks' });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const WEBHOOK_EVENT_TYPES = [
+  'report.completed',
+  'report.failed',
+  'recommendation.status_changed',
+  'sync.completed',
+  'sync.failed',
+  'csv_upload.processed',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType | 'ping';
+  createdAt: string;
+  agencyId: string;
+  data: Record<string, unknown>;
+}
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+/**
+ * Endpoint as returned to clients; the secret is only returned on create and rotate
+ */
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'secretEncrypted' | 'secretKeyVersion'>;
+
+export interface CreateWebhookEndpointInput {
+  url: string;
+  description?: string;
+  events?: WebhookEventType[];
+}
+
+export interface UpdateWebhookEndpointInput {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEventType[];
+  isActive?: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/** Addresses webhooks may never be delivered to: private, loopback, link-local and reserved ranges */
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  // IPv4-mapped addresses not written in dotted form (dotted ones are checked as IPv4)
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+function toSummary(endpoint: WebhookEndpoint): WebhookEndpointSummary {
+  const { secretEncrypted: _secret, secretKeyVersion: _version, ...summary } = endpoint;
+  return summary;
+}
+
+/**
+ * Signature header value for a payload, as verified by receivers
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * True for addresses webhooks must not reach. IPv4-mapped IPv6 addresses
+ * are checked as the IPv4 address they wrap.
+ */
+function isBlockedAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * dns.lookup replacement for webhook requests: fails when any resolved
+ * address is blocked, so the check applies to the address actually dialled
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      return callback(new Error(`Webhook host ${hostname} resolves to a private or reserved address`), '', 0);
+    }
+
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Plain http://localhost is only reachable outside production, for local
+ * receivers
+ */
+function isLocalReceiver(target: URL): boolean {
+  return !config.isProduction && target.protocol === 'http:' && target.hostname === 'localhost';
+}
+
+/**
+ * Why a URL can't receive webhooks, or null when it can. Hostnames are only
+ * resolved when sending; this rejects URLs that are private as written.
+ */
+export function webhookUrlError(url: string): string | null {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return 'Invalid URL';
+  }
+  if (isLocalReceiver(target)) return null;
+
+  if (target.protocol !== 'https:') {
+    return 'Webhook URLs must use https';
+  }
+
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || (net.isIP(host) && isBlockedAddress(host))) {
+    return 'Webhook URL points to a private or reserved address';
+  }
+  return null;
+}
+
+/**
+ * POST to a webhook URL and return the response status. Redirects are not
+ * followed and response bodies are discarded. Also used by the webhook and
+ * Slack notification channels.
+ */
+export function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  signal: AbortSignal = AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+): Promise<number> {
+  // IP literals skip the lookup hook, so webhookUrlError checks them directly
+  const urlError = webhookUrlError(url);
+  if (urlError) {
+    return Promise.reject(new Error(urlError));
+  }
+
+  const target = new URL(url);
+  const allowLocal = isLocalReceiver(target);
+  const client = target.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: allowLocal ? undefined : publicOnlyLookup,
+        signal,
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+async function getEndpointRow(agencyId: string, endpointId: string): Promise<WebhookEndpoint> {
+  const [endpoint] = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(and(eq(webhookEndpoints.id, endpointId), eq(webhookEndpoints.agencyId, agencyId)))
+    .limit(1);
+
+  if (!endpoint) {
+    throw new AppError('Webhook endpoint not found', 404);
+  }
+
+  return endpoint;
+}
+
+async function queueDelivery(endpoint: WebhookEndpoint, event: WebhookEvent): Promise<WebhookDelivery> {
+  const [delivery] = await db
+    .insert(webhookDeliveries)
+    .values({
+      endpointId: endpoint.id,
+      agencyId: endpoint.agencyId,
+      eventId: event.id,
+      eventType: event.type,
+      payloadJson: JSON.stringify(event),
+    })
+    .returning();
+
+  await enqueueJob({
+    jobType: 'webhook_delivery',
+    agencyId: endpoint.agencyId,
+    referenceId: delivery.id,
+    payload: { deliveryId: delivery.id },
+  });
+
+  return delivery;
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+/**
+ * Queue an event for every active endpoint of the agency subscribed to it.
+ * Never throws: webhook problems must not fail the operation that emitted them.
+ */
+export async function emitWebhookEvent(
+  agencyId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const endpoints = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.agencyId, agencyId), eq(webhookEndpoints.isActive, true)));
+
+    const subscribed = endpoints.filter((endpoint) => endpoint.events.length === 0 || endpoint.events.includes(type));
+    if (subscribed.length === 0) return;
+
+    const event: WebhookEvent = {
+      id: crypto.randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      agencyId,
+      data,
+    };
+
+    await Promise.all(subscribed.map((endpoint) => queueDelivery(endpoint, event)));
+
+    webhookLogger.info({ agencyId, eventId: event.id, type, endpoints: subscribed.length }, 'Webhook event queued');
+  } catch (error) {
+    webhookLogger.error({ error, agencyId, type }, 'Failed to queue webhook event');
+  }
+}
+
+/**
+ * emitWebhookEvent for an event about a client, resolving the client's agency
+ */
+export async function emitClientWebhookEvent(
+  clientAccountId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const [client] = await db
+      .select({ agencyId: clientAccounts.agencyId })
+      .from(clientAccounts)
+      .where(eq(clientAccounts.id, clientAccountId))
+      .limit(1);
+
+    if (client) {
+      await emitWebhookEvent(client.agencyId, type, { clientAccountId, ...data });
+    }
+  } catch (error) {
+    webhookLogger.error({ error, clientAccountId, type }, 'Failed to queue webhook event');
+  }
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * Attempt one delivery (run by the job worker). Throws on failure so the job
+ * is retried; on the final attempt the delivery is marked failed instead.
+ */
+export async function attemptWebhookDelivery(deliveryId: string, finalAttempt: boolean): Promise<{ status: number }> {
+  const [row] = await db
+    .select({ delivery: webhookDeliveries, endpoint: webhookEndpoints })
+    .from(webhookDeliveries)
+    .innerJoin(webhookEndpoints, eq(webhookDeliveries.endpointId, webhookEndpoints.id))
+    .where(eq(webhookDeliveries.id, deliveryId))
+    .limit(1);
+
+  if (!row) {
+    // Endpoint deleted since the event was queued; nothing left to do
+    return { status: 0 };
+  }
+
+  const { delivery, endpoint } = row;
+
+  if (delivery.status === 'delivered') {
+    return { status: delivery.responseStatus ?? 0 };
+  }
+
+  if (!endpoint.isActive) {
+    await db
+      .update(webhookDeliveries)
+      .set({ status: 'failed', lastError: 'Endpoint disabled' })
+      .where(eq(webhookDeliveries.id, delivery.id));
+    return { status: 0 };
+  }
+
+  const secret = await decryptToken(endpoint.secretEncrypted, endpoint.secretKeyVersion);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+
+  try {
+    responseStatus = await postWebhook(
+      endpoint.url,
+      {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Advergent-Webhooks/1.0',
+        'Advergent-Event': delivery.eventType,
+        'Advergent-Delivery': delivery.id,
+        'Advergent-Signature': signWebhookPayload(secret, delivery.payloadJson, timestamp),
+      },
+      delivery.payloadJson
+    );
+
+    if (responseStatus < 200 || responseStatus >= 300) {
+      // Receiver response bodies are never stored: lastError is shown to users
+      throw new Error(`Endpoint responded with ${responseStatus}`);
+    }
+
+    await db
+      .update(webhookDeliveries)
+      .set({
+        status: 'delivered',
+        attempts: delivery.attempts + 1,
+        responseStatus,
+        lastError: null,
+        lastAttemptAt: new Date(),
+        deliveredAt: new Date(),
+      })
+      .where(eq(webhookDeliveries.id, delivery.id));
+
+    return { status: responseStatus };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    await db
+      .update(webhookDeliveries)
+      .set({
+        status: finalAttempt ? 'failed' : 'pending',
+        attempts: delivery.attempts + 1,
+        responseStatus,
+        lastError: message,
+        lastAttemptAt: new Date(),
+      })
+      .where(eq(webhookDeliveries.id, delivery.id));
+
+    webhookLogger.warn(
+      { deliveryId, endpointId: endpoint.id, eventType: delivery.eventType, finalAttempt, error: message },
+      'Webhook delivery attempt failed'
+    );
+
+    throw error;
+  }
+}
+
+// ============================================================================
+// ENDPOINTS
+// ============================================================================
+
+export async function listWebhookEndpoints(agencyId: string): Promise<WebhookEndpointSummary[]> {
+  const endpoints = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(eq(webhookEndpoints.agencyId, agencyId))
+    .orderBy(webhookEndpoints.createdAt);
+
+  return endpoints.map(toSummary);
+}
+
+/**
+ * Register an endpoint. The signing secret is returned only here and on rotation.
+ */
+export async function createWebhookEndpoint(
+  agencyId: string,
+  userId: string,
+  input: CreateWebhookEndpointInput
+): Promise<{ endpoint: WebhookEndpointSummary; secret: string }> {
+  const secret = generateSecret();
+  const { encrypted, keyVersion } = await encryptToken(secret);
+
+  const [endpoint] = await db
+    .insert(webhookEndpoints)
+    .values({
+      agencyId,
+      url: input.url,
+      description: input.description,
+      events: input.events ?? [],
+      secretEncrypted: encrypted,
+      secretKeyVersion: keyVersion,
+      createdBy: userId,
+    })
+    .returning();
+
+  webhookLogger.info({ agencyId, endpointId: endpoint.id }, 'Webhook endpoint created');
+
+  return { endpoint: toSummary(endpoint), secret };
+}
+
+export async function updateWebhookEndpoint(
+  agencyId: string,
+  endpointId: string,
+  input: UpdateWebhookEndpointInput
+): Promise<WebhookEndpointSummary> {
+  const endpoint = await getEndpointRow(agencyId, endpointId);
+
+  const [updated] = await db
+    .update(webhookEndpoints)
+    .set({
+      url: input.url,
+      description: input.description,
+      events: input.events,
+      isActive: input.isActive,
+      updatedAt: new Date(),
+    })
+    .where(eq(webhookEndpoints.id, endpoint.id))
+    .returning();
+
+  return toSummary(updated);
+}
+
+export async function rotateWebhookSecret(
+  agencyId: string,
+  endpointId: string
+): Promise<{ endpoint: WebhookEndpointSummary; secret: string }> {
+  const endpoint = await getEndpointRow(agencyId, endpointId);
+  const secret = generateSecret();
+  const { encrypted, keyVersion } = await encryptToken(secret);
+
+  const [updated] = await db
+    .update(webhookEndpoints)
+    .set({ secretEncrypted: encrypted, secretKeyVersion: keyVersion, updatedAt: new Date() })
+    .where(eq(webhookEndpoints.id, endpoint.id))
+    .returning();
+
+  webhookLogger.info({ agencyId, endpointId }, 'Webhook secret rotated');
+
+  return { endpoint: toSummary(updated), secret };
+}
+
+/**
+ * Delete an endpoint with its delivery history; queued attempts become no-ops
+ */
+export async function deleteWebhookEndpoint(agencyId: string, endpointId: string): Promise<void> {
+  const endpoint = await getEndpointRow(agencyId, endpointId);
+  await db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, endpoint.id));
+}
+
+/**
+ * Queue a ping event to one endpoint regardless of its subscriptions
+ */
+export async function sendWebhookPing(agencyId: string, endpointId: string): Promise<WebhookDelivery> {
+  const endpoint = await getEndpointRow(agencyId, endpointId);
+
+  return queueDelivery(endpoint, {
+    id: crypto.randomUUID(),
+    type: 'ping',
+    createdAt: new Date().toISOString(),
+    agencyId,
+    data: { endpointId: endpoint.id },
+  });
+}
+
+// ============================================================================
+// DELIVERY LOG
+// ============================================================================
+
+export async function listWebhookDeliveries(
+  agencyId: string,
+  endpointId: string,
+  options: { limit: number; offset: number }
+): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+  const endpoint = await getEndpointRow(agencyId, endpointId);
+  const condition = eq(webhookDeliveries.endpointId, endpoint.id);
+
+  const [deliveries, [{ total }]] = await Promise.all([
+    db
+      .select()
+      .from(webhookDeliveries)
+      .where(condition)
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(options.limit)
+      .offset(options.offset),
+    db.select({ total: count() }).from(webhookDeliveries).where(condition),
+  ]);
+
+  return { deliveries, total };
+}
+
+/**
+ * Queue a fresh attempt for a delivery, e.g. after fixing the receiver
+ */
+export async function redeliverWebhook(agencyId: string, deliveryId: string): Promise<WebhookDelivery> {
+  const [delivery] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.agencyId, agencyId)))
+    .limit(1);
+
+  if (!delivery) {
+    throw new AppError('Webhook delivery not found', 404);
+  }
+
+  const [updated] = await db
+    .update(webhookDeliveries)
+    .set({ status: 'pending', lastError: null })
+    .where(eq(webhookDeliveries.id, delivery.id))
+    .returning();
+
+  await enqueueJob({
+    jobType: 'webhook_delivery',
+    agencyId,
+    referenceId: delivery.id,
+    payload: { deliveryId: delivery.id },
+  });
+
+  return updated;
+}
@@ -6,3 +6,16 @@ export class AppError extends Error {
     this.status = status;
   }
 }
+
+/**
+ * Postgres unique_violation (23505). Drizzle wraps driver errors in a
+ * DrizzleQueryError, so the code is usually on the cause.
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  let current = error as { code?: string; cause?: unknown } | null | undefined;
+  while (typeof current === 'object' && current !== null) {
+    if (current.code === '23505') return true;
+    current = current.cause as typeof current;
+  }
+  return false;
+}
@@ -0,0 +1,31 @@
+#!/usr/bin/env node
+import os from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { config } from './config/index.js';
+import { startJobWorker } from './services/job-runner.service.js';
+import { workerLogger } from './utils/logger.js';
+
+const workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+const worker = startJobWorker({
+  workerId,
+  ...config.jobQueue,
+});
+
+workerLogger.info({ workerId, ...config.jobQueue }, 'Job worker started');
+
+let shuttingDown = false;
+
+async function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+
+  workerLogger.info({ workerId, signal }, 'Job worker shutting down');
+  // Jobs still running after the grace period keep their lease until it
+  // expires, then another worker retries them
+  await worker.stop();
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));
@@ -12,6 +12,13 @@ import ClientDetail from '@/pages/ClientDetail';
 import ClientPreparing from '@/pages/ClientPreparing';
 import Recommendations from '@/pages/Recommendations';
 import Competitors from '@/pages/Competitors';
+import SkillBundles from '@/pages/SkillBundles';
+import SkillQuality from '@/pages/SkillQuality';
+import ApiKeys from '@/pages/ApiKeys';
+import Branding from '@/pages/Branding';
+import Permissions from '@/pages/Permissions';
+import AuditLog from '@/pages/AuditLog';
+import SharedReport from '@/pages/SharedReport';
 
 const queryClient = new QueryClient();
 
@@ -39,6 +46,9 @@ function App() {
               }
             />
 
+            {/* Public report share links - no account needed */}
+            <Route path="/share/:token" element={<SharedReport />} />
+
             {/* Protected routes */}
             <Route
               path="/onboarding"
@@ -141,6 +151,96 @@ function App() {
                 </>
               }
             />
+            <Route
+              path="/skill-bundles"
+              element={
+                <>
+                  <SignedIn>
+                    <Layout>
+                      <SkillBundles />
+                    </Layout>
+                  </SignedIn>
+                  <SignedOut>
+                    <Navigate to="/sign-in" replace />
+                  </SignedOut>
+                </>
+              }
+            />
+            <Route
+              path="/skill-quality"
+              element={
+                <>
+                  <SignedIn>
+                    <Layout>
+                      <SkillQuality />
+                    </Layout>
+                  </SignedIn>
+                  <SignedOut>
+                    <Navigate to="/sign-in" replace />
+                  </SignedOut>
+                </>
+              }
+            />
+            <Route
+              path="/api-keys"
+              element={
+                <>
+                  <SignedIn>
+                    <Layout>
+                      <ApiKeys />
+                    </Layout>
+                  </SignedIn>
+                  <SignedOut>
+                    <Navigate to="/sign-in" replace />
+                  </SignedOut>
+                </>
+              }
+            />
+            <Route
+              path="/branding"
+              element={
+                <>
+                  <SignedIn>
+                    <Layout>
+                      <Branding />
+                    </Layout>
+                  </SignedIn>
+                  <SignedOut>
+                    <Navigate to="/sign-in" replace />
+                  </SignedOut>
+                </>
+              }
+            />
+            <Route
+              path="/permissions"
+              element={
+                <>
+                  <SignedIn>
+                    <Layout>
+                      <Permissions />
+                    </Layout>
+                  </SignedIn>
+                  <SignedOut>
+                    <Navigate to="/sign-in" replace />
+                  </SignedOut>
+                </>
+              }
+            />
+            <Route
+              path="/audit-log"
+              element={
+                <>
+                  <SignedIn>
+                    <Layout>
+                      <AuditLog />
+                    </Layout>
+                  </SignedIn>
+                  <SignedOut>
+                    <Navigate to="/sign-in" replace />
+                  </SignedOut>
+                </>
+              }
+            />
             <Route
               path="/"
               element={
@@ -4,17 +4,46 @@ import { Info } from 'lucide-react';
 
 export type BusinessType = 'ecommerce' | 'lead-gen' | 'saas' | 'local';
 
+/**
+ * Selector value: a built-in business type, or `custom:<bundleId>` for an
+ * agency custom skill bundle
+ */
+export type BusinessTypeValue = BusinessType | `custom:${string}`;
+
 export interface BusinessTypeOption {
-  value: BusinessType;
+  value: BusinessTypeValue;
   label: string;
   description: string;
   isFullySupported: boolean;
   fallbackNote?: string;
+  customSkillBundleId?: string;
+  baseBusinessType?: BusinessType;
+}
+
+export function toBusinessTypeValue(
+  businessType: BusinessType,
+  customSkillBundleId?: string | null
+): BusinessTypeValue {
+  return customSkillBundleId ? `custom:${customSkillBundleId}` : businessType;
+}
+
+/**
+ * Client payload for a selector value. The API pins businessType to the
+ * custom bundle's base type.
+ */
+export function toSkillSelection(value: BusinessTypeValue): {
+  businessType?: BusinessType;
+  customSkillBundleId: string | null;
+} {
+  if (value.startsWith('custom:')) {
+    return { customSkillBundleId: value.slice('custom:'.length) };
+  }
+  return { businessType: value as BusinessType, customSkillBundleId: null };
 }
 
 interface BusinessTypeSelectorProps {
-  value: BusinessType;
-  onChange: (value: BusinessType) => void;
+  value: BusinessTypeValue;
+  onChange: (value: BusinessTypeValue) => void;
   options: BusinessTypeOption[];
   disabled?: boolean;
 }
@@ -52,6 +81,11 @@ export function BusinessTypeSelector({
               <span className={`font-medium ${value === option.value ? 'text-blue-900' : 'text-slate-900'}`}>
                 {option.label}
               </span>
+              {option.customSkillBundleId && (
+                <Badge variant="outline" className="text-xs">
+                  Custom
+                </Badge>
+              )}
               {!option.isFullySupported && (
                 <Badge
                   variant="secondary"
@@ -3,9 +3,12 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter }
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { ChevronDown, ChevronUp } from 'lucide-react';
+import { ApplyRecommendationDialog } from '@/components/recommendations/ApplyRecommendationDialog';
+import { usePermissions } from '@/hooks/usePermissions';
 import type { Recommendation } from '@/hooks/useClientDetail';
 
 interface RecommendationCardProps {
+  clientId: string;
   recommendation: Recommendation;
   onApprove: (id: string) => void;
   onReject: (id: string) => void;
@@ -33,14 +36,21 @@ const confidenceLevelColors: Record<string, 'success' | 'warning' | 'secondary'>
 };
 
 export function RecommendationCard({
+  clientId,
   recommendation,
   onApprove,
   onReject,
   isUpdating,
 }: RecommendationCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const { can } = usePermissions();
 
   const isPending = recommendation.status === 'pending';
+  const canReview = can('recommendations:review');
+  const canPushToGoogleAds =
+    ['approved', 'partial', 'applied'].includes(recommendation.status) &&
+    recommendation.recommendationType !== 'maintain' &&
+    can('recommendations:apply');
   const savingsAmount = recommendation.estimatedMonthlySavings;
   const savingsPercent = recommendation.currentMonthlySpend > 0
     ? ((savingsAmount / recommendation.currentMonthlySpend) * 100).toFixed(1)
@@ -137,7 +147,7 @@ export function RecommendationCard({
           )}
         </Button>
 
-        {isPending && (
+        {isPending && canReview && (
           <div className="flex gap-2">
             <Button
               variant="outline"
@@ -157,6 +167,14 @@ export function RecommendationCard({
             </Button>
           </div>
         )}
+
+        {canPushToGoogleAds && (
+          <ApplyRecommendationDialog
+            clientId={clientId}
+            recommendationId={recommendation.id}
+            status={recommendation.status}
+          />
+        )}
       </CardFooter>
     </Card>
   );
@@ -1,24 +1,54 @@
-import { useInterplayReport } from '@/hooks/useInterplayReport';
+import { useState, type ReactNode } from 'react';
+import { useInterplayReport, useInterplayReportById } from '@/hooks/useInterplayReport';
+import { usePermissions } from '@/hooks/usePermissions';
 import { Card, CardContent } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert } from '@/components/ui/alert';
 import { FileText, RefreshCw } from 'lucide-react';
+import { HistoricalReportBanner } from '@/components/reports';
 import { ReportHeader } from './reports/ReportHeader';
 import { ReportPreviewContainer } from './reports/ReportPreviewContainer';
 import { InterplayReportView } from './reports/templates/InterplayReportView';
 import { ExportActions } from './reports/ExportActions';
+import { ShareLinksPanel } from './reports/ShareLinksPanel';
+import { ReportDeliveriesPanel } from './reports/ReportDeliveriesPanel';
+import { ReportDiffPanel } from './reports/ReportDiffPanel';
+import { ReportHistoryList } from './reports/ReportHistoryList';
+import { ReportProgressTimeline } from './reports/ReportProgressTimeline';
 
 interface ReportsTabProps {
   clientId: string;
   client: {
     id: string;
     name: string;
+    businessType?: string;
   };
 }
 
 export function ReportsTab({ clientId, client }: ReportsTabProps) {
-  const { data: report, isLoading, isError, error } = useInterplayReport(clientId);
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
+  const latest = useInterplayReport(clientId);
+  const selected = useInterplayReportById(clientId, selectedReportId);
+  const { can } = usePermissions();
+
+  const isViewingHistory = !!selectedReportId && selectedReportId !== latest.data?.id;
+  const { data: report, isLoading, isError, error } = isViewingHistory ? selected : latest;
+
+  const handleSelectReport = (reportId: string) => {
+    setSelectedReportId(reportId === latest.data?.id ? null : reportId);
+  };
+
+  // History is shown beneath every state so older reports stay reachable
+  const withHistory = (content: ReactNode) => (
+    <div className="space-y-6">
+      {content}
+      <ReportHistoryList
+        clientId={clientId}
+        activeReportId={report?.id}
+        onSelect={handleSelectReport}
+      />
+    </div>
+  );
 
   // Loading state
   if (isLoading) {
@@ -32,7 +62,7 @@ export function ReportsTab({ clientId, client }: ReportsTabProps) {
 
   // Error state
   if (isError) {
-    return (
+    return withHistory(
       <Alert variant="destructive">
         <p>Error loading report: {(error as Error)?.message || 'Unknown error'}</p>
       </Alert>
@@ -58,38 +88,41 @@ export function ReportsTab({ clientId, client }: ReportsTabProps) {
 
   // Report failed
   if (report.status === 'failed') {
-    return (
+    return withHistory(
       <Alert variant="destructive">
         <p>Report generation failed: {report.error || 'Unknown error'}. Please try syncing the client data again.</p>
       </Alert>
     );
   }
 
-  // Report still generating
+  // Report still generating - follow the pipeline phases live
   if (report.status !== 'completed') {
-    return (
+    return withHistory(
       <Card>
-        <CardContent className="py-12 text-center">
-          <div className="text-blue-500 mb-4">
-            <RefreshCw className="h-12 w-12 mx-auto animate-spin" />
+        <CardContent className="py-8">
+          <div className="flex items-center gap-3 mb-6">
+            <RefreshCw className="h-6 w-6 text-blue-500 animate-spin" />
+            <div>
+              <p className="text-slate-700 font-medium">Report is being generated...</p>
+              <p className="text-sm text-slate-400">Status: {report.status}</p>
+            </div>
           </div>
-          <p className="text-slate-500 text-lg">Report is being generated...</p>
-          <p className="text-sm text-slate-400 mt-2">
-            Status: {report.status}
-          </p>
-          <Badge variant="secondary" className="mt-4">
-            {report.status === 'researching' && 'Gathering data...'}
-            {report.status === 'analyzing' && 'AI analysis in progress...'}
-            {report.status === 'pending' && 'Queued for processing...'}
-          </Badge>
+          <ReportProgressTimeline clientId={clientId} reportId={report.id} />
         </CardContent>
       </Card>
     );
   }
 
   // Completed report - render the full view
-  return (
-    <div className="space-y-6">
+  return withHistory(
+    <>
+      <HistoricalReportBanner
+        currentType={client.businessType}
+        reportType={report.metadata.businessType}
+        generatedAt={isViewingHistory ? report.metadata.createdAt : undefined}
+        onBackToLatest={isViewingHistory ? () => setSelectedReportId(null) : undefined}
+      />
+
       <ReportHeader
         title="SEO/SEM Interplay Report"
         generatedAt={report.metadata.createdAt}
@@ -102,9 +135,15 @@ export function ReportsTab({ clientId, client }: ReportsTabProps) {
         clientName={client.name}
       />
 
+      {can('reports:share') && <ShareLinksPanel clientId={clientId} reportId={report.id} />}
+
+      <ReportDeliveriesPanel clientId={clientId} reportId={report.id} />
+
+      <ReportDiffPanel clientId={clientId} toReportId={report.id} />
+
       <ReportPreviewContainer>
         <InterplayReportView report={report} />
       </ReportPreviewContainer>
-    </div>
+    </>
   );
 }
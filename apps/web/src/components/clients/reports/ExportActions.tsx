@@ -1,7 +1,13 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Download, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { Download, FileSpreadsheet, FileText, Loader2, Upload } from 'lucide-react';
 import { generateInterplayReportPDF, downloadBlob, formatPDFFilename } from '@/lib/generatePDF';
+import {
+  useExportAdsEditorCsv,
+  useExportInterplayReport,
+  type ReportExportFormat,
+} from '@/hooks/useInterplayReport';
+import { useClientBranding } from '@/hooks/useBranding';
 import type { InterplayReportResponse } from '@advergent/shared';
 
 interface ExportActionsProps {
@@ -11,6 +17,12 @@ interface ExportActionsProps {
 
 export function ExportActions({ report, clientName }: ExportActionsProps) {
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ReportExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportReport = useExportInterplayReport(report.clientAccountId);
+  const exportAdsEditor = useExportAdsEditorCsv(report.clientAccountId);
+  const [adsEditorNotice, setAdsEditorNotice] = useState<string | null>(null);
+  const { data: branding } = useClientBranding(report.clientAccountId);
 
   const handleDownloadPDF = async () => {
     setIsGeneratingPDF(true);
@@ -18,6 +30,7 @@ export function ExportActions({ report, clientName }: ExportActionsProps) {
       const blob = await generateInterplayReportPDF({
         clientName,
         report,
+        branding,
       });
 
       const filename = formatPDFFilename(clientName);
@@ -30,34 +43,97 @@ export function ExportActions({ report, clientName }: ExportActionsProps) {
     }
   };
 
-  // CSV export will be implemented in Phase 3
-  const handleExportCSV = () => {
-    console.log('CSV export - to be implemented in Phase 3', { report, clientName });
+  const handleExport = (format: ReportExportFormat) => {
+    setExportingFormat(format);
+    setExportError(null);
+    exportReport.mutate(
+      { reportId: report.id, format },
+      {
+        onSuccess: ({ blob, filename }) => downloadBlob(blob, filename),
+        onError: () => setExportError(`Failed to export ${format.toUpperCase()}. Please try again.`),
+        onSettled: () => setExportingFormat(null),
+      }
+    );
+  };
+
+  const handleExportAdsEditor = () => {
+    setExportError(null);
+    setAdsEditorNotice(null);
+    exportAdsEditor.mutate(report.id, {
+      onSuccess: ({ blob, filename, skippedActions }) => {
+        downloadBlob(blob, filename);
+        if (skippedActions > 0) {
+          setAdsEditorNotice(
+            `${skippedActions} SEM ${skippedActions === 1 ? 'action was' : 'actions were'} left out because no matching campaign, ad group or keyword was found.`
+          );
+        }
+      },
+      onError: () => setExportError('Failed to export the Google Ads Editor CSV. Please try again.'),
+    });
   };
 
   return (
-    <div className="flex gap-3">
-      <Button
-        onClick={handleDownloadPDF}
-        disabled={isGeneratingPDF}
-        className="gap-2"
-      >
-        {isGeneratingPDF ? (
-          <>
+    <div className="space-y-2">
+      <div className="flex gap-3">
+        <Button
+          onClick={handleDownloadPDF}
+          disabled={isGeneratingPDF}
+          className="gap-2"
+        >
+          {isGeneratingPDF ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Generating PDF...
+            </>
+          ) : (
+            <>
+              <Download className="h-4 w-4" />
+              Download PDF
+            </>
+          )}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => handleExport('xlsx')}
+          disabled={exportingFormat !== null}
+          className="gap-2"
+        >
+          {exportingFormat === 'xlsx' ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <FileSpreadsheet className="h-4 w-4" />
+          )}
+          Export Excel
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => handleExport('csv')}
+          disabled={exportingFormat !== null}
+          className="gap-2"
+        >
+          {exportingFormat === 'csv' ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <FileText className="h-4 w-4" />
+          )}
+          Export CSV
+        </Button>
+        <Button
+          variant="outline"
+          onClick={handleExportAdsEditor}
+          disabled={exportAdsEditor.isPending}
+          className="gap-2"
+        >
+          {exportAdsEditor.isPending ? (
             <Loader2 className="h-4 w-4 animate-spin" />
-            Generating PDF...
-          </>
-        ) : (
-          <>
-            <Download className="h-4 w-4" />
-            Download PDF
-          </>
-        )}
-      </Button>
-      <Button variant="outline" onClick={handleExportCSV} className="gap-2">
-        <FileSpreadsheet className="h-4 w-4" />
-        Export CSV
-      </Button>
+          ) : (
+            <Upload className="h-4 w-4" />
+          )}
+          Google Ads Editor CSV
+        </Button>
+      </div>
+      {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+      {adsEditorNotice && <p className="text-sm text-slate-500">{adsEditorNotice}</p>}
     </div>
   );
 }
@@ -0,0 +1,113 @@
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Mail } from 'lucide-react';
+import { usePermissions } from '@/hooks/usePermissions';
+import {
+  useReportDeliveries,
+  useSendReport,
+  type ReportDelivery,
+} from '@/hooks/useReportDistribution';
+
+interface ReportDeliveriesPanelProps {
+  clientId: string;
+  reportId: string;
+}
+
+function formatDateTime(value: string | null) {
+  return value ? format(new Date(value), 'MMM d, yyyy h:mm a') : '—';
+}
+
+function DeliveryStatusBadge({ delivery }: { delivery: ReportDelivery }) {
+  if (delivery.status === 'sent') {
+    return <Badge variant="secondary">Sent</Badge>;
+  }
+  if (delivery.status === 'failed') {
+    return <Badge variant="destructive">Failed</Badge>;
+  }
+  return <Badge variant="outline">{delivery.attempts > 0 ? 'Retrying' : 'Pending'}</Badge>;
+}
+
+/**
+ * Email delivery history for a report, with a button to send it to the
+ * client's active distribution lists
+ */
+export function ReportDeliveriesPanel({ clientId, reportId }: ReportDeliveriesPanelProps) {
+  const { can } = usePermissions();
+  const { data: deliveries } = useReportDeliveries(clientId, reportId);
+  const sendReport = useSendReport(clientId, reportId);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Mail className="h-4 w-4" />
+            Email Deliveries
+          </CardTitle>
+          <CardDescription>
+            Reports emailed to this client's distribution lists.
+          </CardDescription>
+        </div>
+        {can('reports:schedule') && (
+          <Button variant="outline" size="sm" onClick={() => sendReport.mutate()} disabled={sendReport.isPending}>
+            {sendReport.isPending ? (
+              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+            ) : (
+              <Mail className="w-4 h-4 mr-1" />
+            )}
+            Send Now
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sendReport.isError && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              {(sendReport.error as any)?.response?.data?.error || 'Failed to send report'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {deliveries && deliveries.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-xs uppercase text-slate-500">
+                <th className="pb-2 pr-4 font-medium">List</th>
+                <th className="pb-2 pr-4 font-medium">Recipients</th>
+                <th className="pb-2 pr-4 font-medium">Status</th>
+                <th className="pb-2 pr-4 font-medium">Attempts</th>
+                <th className="pb-2 pr-4 font-medium">Sent</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => (
+                <tr key={delivery.id} className="border-b last:border-0 align-top">
+                  <td className="py-2 pr-4">
+                    <div className="font-medium">{delivery.listName}</div>
+                    <div className="text-xs text-slate-500">
+                      {delivery.requestedBy ? 'Sent manually' : 'Automatic'} · {formatDateTime(delivery.createdAt)}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4 text-slate-600">{delivery.recipients.join(', ')}</td>
+                  <td className="py-2 pr-4">
+                    <DeliveryStatusBadge delivery={delivery} />
+                    {delivery.lastError && delivery.status !== 'sent' && (
+                      <p className="mt-1 text-xs text-red-600">{delivery.lastError}</p>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-slate-600">{delivery.attempts}</td>
+                  <td className="py-2 pr-4 text-slate-600">{formatDateTime(delivery.sentAt)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-slate-500">This report hasn't been emailed yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,269 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { GitCompare, ChevronDown, ChevronUp, ArrowUp, ArrowDown } from 'lucide-react';
+import { useInterplayReportDiff } from '@/hooks/useInterplayReport';
+import type {
+  RecommendationDiffEntry,
+  BattlegroundKeywordDiff,
+  SummaryMetricChange,
+} from '@advergent/shared';
+
+interface ReportDiffPanelProps {
+  clientId: string;
+  /** Older report to compare from (defaults to the report before `toReportId`) */
+  fromReportId?: string;
+  /** Newer report to compare to (defaults to the latest completed report) */
+  toReportId?: string;
+  defaultOpen?: boolean;
+}
+
+const changeVariants: Record<BattlegroundKeywordDiff['change'], 'success' | 'destructive' | 'warning' | 'secondary'> = {
+  added: 'success',
+  removed: 'destructive',
+  changed: 'warning',
+  unchanged: 'secondary',
+};
+
+function formatDate(dateStr: string) {
+  return format(new Date(dateStr), 'MMM d, yyyy');
+}
+
+function formatNumber(value: number | null, digits = 0) {
+  if (value === null) return '—';
+  return value.toLocaleString(undefined, { maximumFractionDigits: digits });
+}
+
+function DeltaValue({ delta }: { delta: number | null }) {
+  if (delta === null || delta === 0) {
+    return <span className="text-slate-400">—</span>;
+  }
+  const Icon = delta > 0 ? ArrowUp : ArrowDown;
+  return (
+    <span className={`inline-flex items-center gap-0.5 ${delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+      <Icon className="h-3 w-3" />
+      {formatNumber(Math.abs(delta), 2)}
+    </span>
+  );
+}
+
+function RecommendationColumn({
+  title,
+  entries,
+  emptyText,
+  variant,
+}: {
+  title: string;
+  entries: RecommendationDiffEntry[];
+  emptyText: string;
+  variant: 'success' | 'secondary' | 'outline';
+}) {
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <h4 className="text-sm font-semibold text-slate-900">{title}</h4>
+        <Badge variant={variant}>{entries.length}</Badge>
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-400">{emptyText}</p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map((entry, idx) => (
+            <li key={idx} className="rounded-md border border-slate-200 p-2 text-sm">
+              <div className="flex items-center gap-1 mb-1">
+                <Badge variant="outline" className="uppercase text-[10px]">{entry.recommendation.type}</Badge>
+                <Badge variant="outline" className="text-[10px]">{entry.recommendation.impact} impact</Badge>
+              </div>
+              <p className="text-slate-800">{entry.recommendation.title}</p>
+              {entry.changes && entry.changes.length > 0 && (
+                <p className="text-xs text-slate-500 mt-1">{entry.changes.join(' · ')}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function SummaryMetricsTable({ metrics }: { metrics: SummaryMetricChange[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-slate-500 border-b">
+          <th className="py-2 font-medium">Metric</th>
+          <th className="py-2 font-medium text-right">Previous</th>
+          <th className="py-2 font-medium text-right">Current</th>
+          <th className="py-2 font-medium text-right">Change</th>
+        </tr>
+      </thead>
+      <tbody>
+        {metrics.map((metric) => (
+          <tr key={metric.key} className="border-b last:border-0">
+            <td className="py-2 text-slate-700">{metric.label}</td>
+            <td className="py-2 text-right">{formatNumber(metric.previous, 2)}</td>
+            <td className="py-2 text-right">{formatNumber(metric.current, 2)}</td>
+            <td className="py-2 text-right"><DeltaValue delta={metric.delta} /></td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function BattlegroundTable({ keywords }: { keywords: BattlegroundKeywordDiff[] }) {
+  if (keywords.length === 0) {
+    return <p className="text-sm text-slate-400">No battleground keyword shifts.</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-slate-500 border-b">
+          <th className="py-2 font-medium">Keyword</th>
+          <th className="py-2 font-medium">Change</th>
+          <th className="py-2 font-medium">Priority</th>
+          <th className="py-2 font-medium text-right">Spend</th>
+          <th className="py-2 font-medium text-right">ROAS</th>
+          <th className="py-2 font-medium text-right">Organic pos.</th>
+        </tr>
+      </thead>
+      <tbody>
+        {keywords.map((kw) => (
+          <tr key={kw.query} className="border-b last:border-0">
+            <td className="py-2 text-slate-800">{kw.query}</td>
+            <td className="py-2">
+              <Badge variant={changeVariants[kw.change]}>{kw.change}</Badge>
+            </td>
+            <td className="py-2 text-slate-600">
+              {kw.previous && kw.current && kw.previous.priority !== kw.current.priority
+                ? `${kw.previous.priority} → ${kw.current.priority}`
+                : (kw.current ?? kw.previous)?.priority}
+            </td>
+            <td className="py-2 text-right">
+              {kw.previous && kw.current
+                ? `$${formatNumber(kw.previous.spend)} → $${formatNumber(kw.current.spend)}`
+                : `$${formatNumber((kw.current ?? kw.previous)!.spend)}`}
+            </td>
+            <td className="py-2 text-right">
+              {kw.previous && kw.current
+                ? `${formatNumber(kw.previous.roas, 2)} → ${formatNumber(kw.current.roas, 2)}`
+                : formatNumber((kw.current ?? kw.previous)!.roas, 2)}
+            </td>
+            <td className="py-2 text-right">
+              {kw.previous && kw.current
+                ? `${formatNumber(kw.previous.organicPosition, 1)} → ${formatNumber(kw.current.organicPosition, 1)}`
+                : formatNumber((kw.current ?? kw.previous)!.organicPosition, 1)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Shows what changed between two interplay reports for a client
+ */
+export function ReportDiffPanel({ clientId, fromReportId, toReportId, defaultOpen = false }: ReportDiffPanelProps) {
+  const [open, setOpen] = useState(defaultOpen);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const { data: diff, isLoading, isError, error } = useInterplayReportDiff(clientId, {
+    fromReportId,
+    toReportId,
+    enabled: open,
+  });
+
+  const keywords = (diff?.battlegroundKeywords ?? []).filter(
+    (kw) => showUnchanged || kw.change !== 'unchanged'
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              Changes Since Previous Report
+            </CardTitle>
+            <CardDescription>
+              {diff
+                ? `Comparing ${formatDate(diff.from.createdAt)} with ${formatDate(diff.to.createdAt)}`
+                : 'New, resolved and persisting recommendations, battleground keyword shifts and metric changes'}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setOpen(!open)}>
+            {open ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+            {open ? 'Hide' : 'Compare'}
+          </Button>
+        </div>
+      </CardHeader>
+
+      {open && (
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : isError ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {(error as any)?.response?.data?.error || 'Failed to load report comparison'}
+              </AlertDescription>
+            </Alert>
+          ) : !diff ? (
+            <p className="text-sm text-slate-500">
+              At least two completed reports are needed to show changes.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <RecommendationColumn
+                  title="New"
+                  entries={diff.recommendations.new}
+                  emptyText="No new recommendations."
+                  variant="success"
+                />
+                <RecommendationColumn
+                  title="Resolved"
+                  entries={diff.recommendations.resolved}
+                  emptyText="Nothing resolved."
+                  variant="secondary"
+                />
+                <RecommendationColumn
+                  title="Persisting"
+                  entries={diff.recommendations.persisting}
+                  emptyText="No carried-over recommendations."
+                  variant="outline"
+                />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-semibold text-slate-900">Battleground Keywords</h4>
+                  <label className="flex items-center gap-2 text-xs text-slate-500">
+                    <input
+                      type="checkbox"
+                      checked={showUnchanged}
+                      onChange={(e) => setShowUnchanged(e.target.checked)}
+                    />
+                    Show unchanged
+                  </label>
+                </div>
+                <BattlegroundTable keywords={keywords} />
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold text-slate-900 mb-2">Summary Metrics</h4>
+                <SummaryMetricsTable metrics={diff.summaryMetrics} />
+              </div>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
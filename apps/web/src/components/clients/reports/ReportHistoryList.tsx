@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { History, ChevronLeft, ChevronRight, Eye } from 'lucide-react';
+import { useInterplayReportHistory } from '@/hooks/useInterplayReport';
+import type { ReportStatus, ReportTrigger } from '@advergent/shared';
+
+interface ReportHistoryListProps {
+  clientId: string;
+  /** Report currently shown above the list */
+  activeReportId?: string;
+  onSelect: (reportId: string) => void;
+}
+
+const PAGE_SIZE = 10;
+
+const statusVariants: Record<ReportStatus, 'success' | 'destructive' | 'secondary' | 'warning'> = {
+  completed: 'success',
+  failed: 'destructive',
+  pending: 'secondary',
+  researching: 'warning',
+  analyzing: 'warning',
+};
+
+const triggerLabels: Record<ReportTrigger, string> = {
+  client_creation: 'Auto-Generated',
+  manual: 'Manual',
+  scheduled: 'Scheduled',
+};
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return '—';
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * Paginated list of a client's interplay reports with links to open older ones
+ */
+export function ReportHistoryList({ clientId, activeReportId, onSelect }: ReportHistoryListProps) {
+  const [page, setPage] = useState(1);
+  const { data, isLoading } = useInterplayReportHistory(clientId, page, PAGE_SIZE);
+
+  const reports = data?.reports ?? [];
+  const pagination = data?.pagination;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Report History
+        </CardTitle>
+        <CardDescription>
+          {pagination ? `${pagination.total} report${pagination.total === 1 ? '' : 's'} generated` : 'All generated reports'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : reports.length === 0 ? (
+          <p className="text-sm text-slate-500">No reports yet.</p>
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b">
+                  <th className="py-2 font-medium">Generated</th>
+                  <th className="py-2 font-medium">Status</th>
+                  <th className="py-2 font-medium">Trigger</th>
+                  <th className="py-2 font-medium">Date range</th>
+                  <th className="py-2 font-medium">Skill</th>
+                  <th className="py-2 font-medium text-right">Duration</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {reports.map((report) => (
+                  <tr
+                    key={report.id}
+                    className={`border-b last:border-0 ${report.id === activeReportId ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="py-2 text-slate-800">
+                      {report.createdAt ? format(new Date(report.createdAt), 'MMM d, yyyy h:mm a') : '—'}
+                    </td>
+                    <td className="py-2">
+                      <Badge variant={statusVariants[report.status]} title={report.error}>
+                        {report.status}
+                      </Badge>
+                    </td>
+                    <td className="py-2 text-slate-600">{triggerLabels[report.trigger]}</td>
+                    <td className="py-2 text-slate-600">
+                      {format(new Date(report.dateRange.start), 'MMM d')} – {format(new Date(report.dateRange.end), 'MMM d, yyyy')}
+                    </td>
+                    <td className="py-2 text-slate-600">
+                      {report.businessType ?? '—'}
+                      {report.skillVersion && <span className="text-slate-400"> v{report.skillVersion}</span>}
+                    </td>
+                    <td className="py-2 text-right text-slate-600">{formatDuration(report.durationMs)}</td>
+                    <td className="py-2 text-right">
+                      {report.status === 'completed' && report.id !== activeReportId && (
+                        <Button variant="ghost" size="sm" onClick={() => onSelect(report.id)}>
+                          <Eye className="h-4 w-4 mr-1" />
+                          View
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between mt-4">
+                <span className="text-xs text-slate-500">
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <div className="flex gap-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => p - 1)}
+                    disabled={page <= 1}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => p + 1)}
+                    disabled={page >= pagination.totalPages}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
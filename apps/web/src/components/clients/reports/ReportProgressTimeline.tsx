@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { Loader2, CheckCircle2, Circle, AlertCircle } from 'lucide-react';
+import { useReportProgress, type PhaseState } from '@/hooks/useReportProgress';
+import type { ReportPhase } from '@advergent/shared';
+
+interface ReportProgressTimelineProps {
+  clientId: string;
+  reportId: string;
+}
+
+const phaseLabels: Record<ReportPhase, string> = {
+  skill_load: 'Loading business-type skills',
+  data_fetch: 'Fetching synced data',
+  scout: 'Scouting battleground keywords and pages',
+  researcher: 'Researching pages and competitors',
+  sem: 'SEM analysis',
+  seo: 'SEO analysis',
+  director: 'Director synthesis',
+  constraint_validation: 'Validating recommendations',
+};
+
+function formatElapsed(ms: number) {
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function PhaseRow({ phase, now }: { phase: PhaseState; now: number }) {
+  const elapsed =
+    phase.durationMs !== null
+      ? phase.durationMs
+      : phase.status === 'running' && phase.startedAt !== null
+        ? Math.max(now - phase.startedAt, 0)
+        : null;
+
+  return (
+    <li className="flex items-start gap-3">
+      {phase.status === 'completed' && <CheckCircle2 className="h-5 w-5 text-green-500 flex-shrink-0" />}
+      {phase.status === 'running' && <Loader2 className="h-5 w-5 text-blue-500 animate-spin flex-shrink-0" />}
+      {phase.status === 'pending' && <Circle className="h-5 w-5 text-slate-300 flex-shrink-0" />}
+      {phase.status === 'failed' && <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-4">
+          <span className={`text-sm font-medium ${
+            phase.status === 'pending' ? 'text-slate-400' :
+            phase.status === 'failed' ? 'text-red-700' :
+            'text-slate-700'
+          }`}>
+            {phaseLabels[phase.phase]}
+            {phase.status === 'running' && phase.progress && (
+              <span className="text-slate-500 font-normal">
+                {' '}— page {phase.progress.current} of {phase.progress.total}
+              </span>
+            )}
+          </span>
+          {elapsed !== null && (
+            <span className="text-xs text-slate-500 tabular-nums">{formatElapsed(elapsed)}</span>
+          )}
+        </div>
+        {phase.message && phase.status !== 'pending' && (
+          <p className={`text-xs mt-0.5 ${phase.status === 'failed' ? 'text-red-600' : 'text-slate-500'}`}>
+            {phase.message}
+          </p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Live step-by-step timeline of a report's pipeline phases
+ */
+export function ReportProgressTimeline({ clientId, reportId }: ReportProgressTimelineProps) {
+  const { phases, isStreaming, error } = useReportProgress(clientId, reportId);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick elapsed time for running phases
+  const hasRunning = phases.some((p) => p.status === 'running');
+  useEffect(() => {
+    if (!hasRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunning]);
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-3">
+        {phases.map((phase) => (
+          <PhaseRow key={phase.phase} phase={phase} now={now} />
+        ))}
+      </ol>
+      {error && !isStreaming && (
+        <p className="text-xs text-amber-600">Live progress unavailable: {error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Copy, Link2, Lock } from 'lucide-react';
+import {
+  useCreateReportShare,
+  useReportShares,
+  useRevokeReportShare,
+  type ReportShareLink,
+} from '@/hooks/useReportShares';
+
+interface ShareLinksPanelProps {
+  clientId: string;
+  reportId: string;
+}
+
+const EXPIRY_OPTIONS = [1, 7, 14, 30, 90];
+
+const selectClassName = 'border border-slate-300 rounded-md px-3 py-2 text-sm';
+
+function formatDateTime(value: string | null) {
+  return value ? format(new Date(value), 'MMM d, yyyy h:mm a') : '—';
+}
+
+function ShareStatusBadge({ share }: { share: ReportShareLink }) {
+  if (share.revokedAt) {
+    return <Badge variant="destructive">Revoked</Badge>;
+  }
+  if (new Date(share.expiresAt) <= new Date()) {
+    return <Badge variant="outline">Expired</Badge>;
+  }
+  return <Badge variant="secondary">Active</Badge>;
+}
+
+/**
+ * Create and manage public read-only links to a report, for clients
+ * without an account
+ */
+export function ShareLinksPanel({ clientId, reportId }: ShareLinksPanelProps) {
+  const { data: shares } = useReportShares(clientId, reportId);
+  const createShare = useCreateReportShare(clientId, reportId);
+  const revokeShare = useRevokeReportShare(clientId);
+  const [expiresInDays, setExpiresInDays] = useState(14);
+  const [password, setPassword] = useState('');
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    setCopied(false);
+    createShare.mutate(
+      { expiresInDays, password: password || undefined },
+      {
+        onSuccess: ({ url }) => {
+          setCreatedUrl(url);
+          setPassword('');
+        },
+      }
+    );
+  };
+
+  const handleCopy = async () => {
+    if (!createdUrl) return;
+    await navigator.clipboard.writeText(createdUrl);
+    setCopied(true);
+  };
+
+  const handleRevoke = (share: ReportShareLink) => {
+    if (!confirm(`Revoke link ${share.tokenPrefix}…? Anyone using it will lose access immediately.`)) {
+      return;
+    }
+    revokeShare.mutate(share.id);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Link2 className="h-4 w-4" />
+          Share Links
+        </CardTitle>
+        <CardDescription>
+          Give clients a read-only link to this report. No account needed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="share-expiry">Expires after</Label>
+            <select
+              id="share-expiry"
+              className={selectClassName}
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+            >
+              {EXPIRY_OPTIONS.map((days) => (
+                <option key={days} value={days}>{days === 1 ? '1 day' : `${days} days`}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="share-password">Password (optional)</Label>
+            <Input
+              id="share-password"
+              type="password"
+              autoComplete="new-password"
+              placeholder="At least 6 characters"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-56"
+            />
+          </div>
+          <Button type="submit" disabled={createShare.isPending || (password.length > 0 && password.length < 6)}>
+            Create Link
+          </Button>
+        </form>
+
+        {createShare.isError && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              {(createShare.error as any)?.response?.data?.error || 'Failed to create share link'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {createdUrl && (
+          <Alert className="border-green-200 bg-green-50">
+            <AlertDescription className="space-y-2 text-green-800">
+              <p>Copy this link now. It will not be shown again.</p>
+              <div className="flex items-center gap-2">
+                <code className="break-all rounded bg-white px-2 py-1 text-xs text-slate-900">{createdUrl}</code>
+                <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+                  <Copy className="w-4 h-4 mr-1" />
+                  {copied ? 'Copied' : 'Copy'}
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {shares && shares.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-xs uppercase text-slate-500">
+                <th className="pb-2 pr-4 font-medium">Link</th>
+                <th className="pb-2 pr-4 font-medium">Status</th>
+                <th className="pb-2 pr-4 font-medium">Expires</th>
+                <th className="pb-2 pr-4 font-medium">Views</th>
+                <th className="pb-2 pr-4 font-medium">First viewed</th>
+                <th className="pb-2 pr-4 font-medium">Last viewed</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {shares.map((share) => (
+                <tr key={share.id} className="border-b last:border-0">
+                  <td className="py-2 pr-4">
+                    <code className="text-xs text-slate-600">{share.tokenPrefix}…</code>
+                    {share.passwordProtected && (
+                      <Lock className="inline h-3 w-3 ml-1 text-slate-400" aria-label="Password protected" />
+                    )}
+                  </td>
+                  <td className="py-2 pr-4"><ShareStatusBadge share={share} /></td>
+                  <td className="py-2 pr-4 text-slate-600">{formatDateTime(share.expiresAt)}</td>
+                  <td className="py-2 pr-4 text-slate-600">{share.viewCount}</td>
+                  <td className="py-2 pr-4 text-slate-600">{formatDateTime(share.firstViewedAt)}</td>
+                  <td className="py-2 pr-4 text-slate-600">{formatDateTime(share.lastViewedAt)}</td>
+                  <td className="py-2 text-right">
+                    {!share.revokedAt && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRevoke(share)}
+                        disabled={revokeShare.isPending}
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +0,0 @@
-export { InterplayReportPDF } from './InterplayReportPDF';
-export { PDFHeader } from './PDFHeader';
-export { PDFFooter } from './PDFFooter';
-export { PDFExecutiveSummary } from './PDFExecutiveSummary';
-export { PDFRecommendationCard } from './PDFRecommendationCard';
-export { pdfStyles, colors, getTypeBadgeStyle, getImpactBadgeStyle, getEffortColor } from './styles';
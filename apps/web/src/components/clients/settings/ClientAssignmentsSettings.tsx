@@ -0,0 +1,108 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2 } from 'lucide-react';
+import { useClientAssignments, useSaveClientAssignments } from '@/hooks/useClientAssignments';
+
+interface ClientAssignmentsSettingsProps {
+  clientId: string;
+}
+
+/**
+ * Choose which members can see a client. Owners and admins always can.
+ */
+export function ClientAssignmentsSettings({ clientId }: ClientAssignmentsSettingsProps) {
+  const { data, isLoading } = useClientAssignments(clientId);
+  const saveAssignments = useSaveClientAssignments(clientId);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+
+  useEffect(() => {
+    if (data) {
+      setSelected(data.assignedUserIds);
+    }
+  }, [data]);
+
+  const toggle = (userId: string) => {
+    setSelected((prev) => (prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]));
+    setSaveSuccess(false);
+  };
+
+  const handleSave = () => {
+    saveAssignments.mutate(selected, {
+      onSuccess: () => {
+        setSaveSuccess(true);
+        setTimeout(() => setSaveSuccess(false), 3000);
+      },
+    });
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  const members = data?.members ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Team Access</h3>
+        <p className="text-sm text-slate-500">
+          Members only see the clients they are assigned to. Owners and admins see every client.
+        </p>
+      </div>
+
+      {members.length === 0 ? (
+        <p className="text-sm text-slate-500">No users in this agency yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {members.map((member) => {
+            const hasFullAccess = member.role === 'owner' || member.role === 'admin';
+            return (
+              <li key={member.id}>
+                <label className="flex items-center gap-3 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={hasFullAccess || selected.includes(member.id)}
+                    disabled={hasFullAccess}
+                    onChange={() => toggle(member.id)}
+                  />
+                  <span className="font-medium text-slate-900">{member.name}</span>
+                  <span className="text-slate-500">{member.email}</span>
+                  {hasFullAccess && <Badge variant="secondary">{member.role}</Badge>}
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {saveAssignments.isError && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {(saveAssignments.error as any)?.response?.data?.error || 'Failed to save team access. Please try again.'}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {saveSuccess && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">Team access saved.</AlertDescription>
+        </Alert>
+      )}
+
+      <Button onClick={handleSave} disabled={saveAssignments.isPending}>
+        {saveAssignments.isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          'Save Team Access'
+        )}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, Trash2, Upload } from 'lucide-react';
+import { useClientBranding, useUpdateClientLogo } from '@/hooks/useBranding';
+import { readLogoFile } from '@/lib/readLogoFile';
+
+interface ClientLogoSettingsProps {
+  clientId: string;
+}
+
+/**
+ * Upload the client's logo, shown alongside the agency's on report PDFs
+ */
+export function ClientLogoSettings({ clientId }: ClientLogoSettingsProps) {
+  const { data: branding, isLoading } = useClientBranding(clientId);
+  const updateLogo = useUpdateClientLogo(clientId);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileError(null);
+    try {
+      updateLogo.mutate(await readLogoFile(file));
+    } catch (err) {
+      setFileError((err as Error).message);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  const logoDataUrl = branding?.clientLogoDataUrl;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium">Report Logo</h3>
+        <p className="text-sm text-slate-500">
+          Shown next to your agency's branding in this client's PDF reports. PNG or JPEG, up to 512 KB.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-4">
+        {logoDataUrl ? (
+          <img src={logoDataUrl} alt="Client logo" className="h-12 max-w-[200px] object-contain" />
+        ) : (
+          <span className="text-sm text-slate-500">No logo uploaded</span>
+        )}
+        <label className="inline-flex cursor-pointer items-center gap-2 rounded-md border border-slate-300 px-3 py-2 text-sm hover:bg-slate-50">
+          {updateLogo.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+          Upload
+          <input
+            type="file"
+            accept="image/png,image/jpeg"
+            className="hidden"
+            onChange={handleFileChange}
+            disabled={updateLogo.isPending}
+          />
+        </label>
+        {logoDataUrl && (
+          <Button variant="outline" size="sm" onClick={() => updateLogo.mutate(null)} disabled={updateLogo.isPending}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Remove
+          </Button>
+        )}
+      </div>
+
+      {(fileError || updateLogo.isError) && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {fileError || (updateLogo.error as any)?.response?.data?.error || 'Failed to save logo. Please try again.'}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -1,23 +1,36 @@
 import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useApiClient } from '@/lib/api';
-import { BusinessTypeSelector, type BusinessType, type BusinessTypeOption } from '../BusinessTypeSelector';
+import {
+  BusinessTypeSelector,
+  toBusinessTypeValue,
+  toSkillSelection,
+  type BusinessType,
+  type BusinessTypeOption,
+  type BusinessTypeValue,
+} from '../BusinessTypeSelector';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, AlertTriangle } from 'lucide-react';
+import { SkillOverridesSettings } from './SkillOverridesSettings';
 
 interface ClientSettingsProps {
   clientId: string;
   currentBusinessType: BusinessType;
-  onUpdate?: (newBusinessType: BusinessType) => void;
+  currentCustomSkillBundleId?: string | null;
+  onUpdate?: (newBusinessType: BusinessTypeValue) => void;
 }
 
 export function ClientSettings({
   clientId,
   currentBusinessType,
+  currentCustomSkillBundleId,
   onUpdate,
 }: ClientSettingsProps) {
   const api = useApiClient();
-  const [businessType, setBusinessType] = useState<BusinessType>(currentBusinessType);
+  const queryClient = useQueryClient();
+  const currentValue = toBusinessTypeValue(currentBusinessType, currentCustomSkillBundleId);
+  const [businessType, setBusinessType] = useState<BusinessTypeValue>(currentValue);
   const [businessTypeOptions, setBusinessTypeOptions] = useState<BusinessTypeOption[]>([]);
   const [hasChanges, setHasChanges] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -44,15 +57,15 @@ export function ClientSettings({
     fetchBusinessTypes();
   }, [api]);
 
-  // Reset state when currentBusinessType prop changes
+  // Reset state when the current selection changes
   useEffect(() => {
-    setBusinessType(currentBusinessType);
+    setBusinessType(currentValue);
     setHasChanges(false);
-  }, [currentBusinessType]);
+  }, [currentValue]);
 
-  const handleBusinessTypeChange = (value: BusinessType) => {
+  const handleBusinessTypeChange = (value: BusinessTypeValue) => {
     setBusinessType(value);
-    setHasChanges(value !== currentBusinessType);
+    setHasChanges(value !== currentValue);
     setSaveSuccess(false);
   };
 
@@ -62,12 +75,12 @@ export function ClientSettings({
     setSaveSuccess(false);
 
     try {
-      await api.patch(`/api/clients/${clientId}`, {
-        businessType,
-      });
+      await api.patch(`/api/clients/${clientId}`, toSkillSelection(businessType));
 
       setHasChanges(false);
       setSaveSuccess(true);
+      // Threshold defaults come from the selected bundle
+      queryClient.invalidateQueries({ queryKey: ['client', clientId, 'skill-overrides'] });
       onUpdate?.(businessType);
 
       // Clear success message after 3 seconds
@@ -80,7 +93,7 @@ export function ClientSettings({
   };
 
   const handleCancel = () => {
-    setBusinessType(currentBusinessType);
+    setBusinessType(currentValue);
     setHasChanges(false);
     setError(null);
   };
@@ -151,6 +164,10 @@ export function ClientSettings({
           </Button>
         )}
       </div>
+
+      <div className="border-t pt-6">
+        <SkillOverridesSettings clientId={clientId} />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2 } from 'lucide-react';
+import {
+  useCreateDistributionList,
+  useDeleteDistributionList,
+  useDistributionLists,
+  useUpdateDistributionList,
+  type DeliveryTrigger,
+  type DistributionListInput,
+  type ReportDistributionList,
+} from '@/hooks/useReportDistribution';
+
+interface DistributionListsSettingsProps {
+  clientId: string;
+}
+
+const TRIGGER_LABELS: Record<DeliveryTrigger, string> = {
+  scheduled: 'Scheduled reports',
+  manual: 'Manually generated reports',
+  client_creation: 'Onboarding report',
+};
+
+const EMPTY_FORM = { name: '', recipients: '', triggers: ['scheduled'] as DeliveryTrigger[], isActive: true };
+
+type ListForm = typeof EMPTY_FORM;
+
+function parseRecipients(value: string): string[] {
+  return value
+    .split(/[\s,;]+/)
+    .map((recipient) => recipient.trim())
+    .filter(Boolean);
+}
+
+function toForm(list: ReportDistributionList): ListForm {
+  return {
+    name: list.name,
+    recipients: list.recipients.join('\n'),
+    triggers: list.triggers,
+    isActive: list.isActive,
+  };
+}
+
+/**
+ * Manage who receives a client's reports by email, and which reports
+ * are sent to them automatically
+ */
+export function DistributionListsSettings({ clientId }: DistributionListsSettingsProps) {
+  const { data: lists, isLoading } = useDistributionLists(clientId);
+  const createList = useCreateDistributionList(clientId);
+  const updateList = useUpdateDistributionList(clientId);
+  const deleteList = useDeleteDistributionList(clientId);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ListForm>(EMPTY_FORM);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+
+  const saveMutation = editingId ? updateList : createList;
+  const recipients = parseRecipients(form.recipients);
+
+  const update = (changes: Partial<ListForm>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+    setSaveSuccess(false);
+  };
+
+  const toggleTrigger = (trigger: DeliveryTrigger) => {
+    update({
+      triggers: form.triggers.includes(trigger)
+        ? form.triggers.filter((t) => t !== trigger)
+        : [...form.triggers, trigger],
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    createList.reset();
+    updateList.reset();
+  };
+
+  const handleEdit = (list: ReportDistributionList) => {
+    setEditingId(list.id);
+    setForm(toForm(list));
+    setSaveSuccess(false);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: DistributionListInput = {
+      name: form.name.trim(),
+      recipients,
+      triggers: form.triggers,
+      isActive: form.isActive,
+    };
+    const onSuccess = () => {
+      resetForm();
+      setSaveSuccess(true);
+      setTimeout(() => setSaveSuccess(false), 3000);
+    };
+
+    if (editingId) {
+      updateList.mutate({ id: editingId, ...input }, { onSuccess });
+    } else {
+      createList.mutate(input, { onSuccess });
+    }
+  };
+
+  const handleDelete = (list: ReportDistributionList) => {
+    if (!confirm(`Delete distribution list "${list.name}"? Its delivery history is kept.`)) {
+      return;
+    }
+    deleteList.mutate(list.id, {
+      onSuccess: () => {
+        if (editingId === list.id) resetForm();
+      },
+    });
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Report Distribution</h3>
+        <p className="text-sm text-slate-500">
+          Email completed reports to client stakeholders, with the executive summary in the message and the
+          full report attached as a PDF.
+        </p>
+      </div>
+
+      {lists && lists.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {lists.map((list) => (
+            <li key={list.id} className="flex items-start justify-between gap-4 p-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{list.name}</span>
+                  {!list.isActive && <Badge variant="outline">Paused</Badge>}
+                </div>
+                <p className="text-sm text-slate-600">{list.recipients.join(', ')}</p>
+                <p className="text-xs text-slate-500">
+                  {list.triggers.length > 0
+                    ? `Sent automatically for: ${list.triggers.map((t) => TRIGGER_LABELS[t].toLowerCase()).join(', ')}`
+                    : 'Only sent manually'}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleEdit(list)}>
+                  Edit
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDelete(list)}
+                  disabled={deleteList.isPending}
+                >
+                  Delete
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSave} className="space-y-4">
+        <h4 className="text-sm font-medium">{editingId ? 'Edit distribution list' : 'New distribution list'}</h4>
+
+        <div className="space-y-2">
+          <Label htmlFor="distribution-list-name">Name</Label>
+          <Input
+            id="distribution-list-name"
+            placeholder="e.g. Marketing leadership"
+            value={form.name}
+            onChange={(e) => update({ name: e.target.value })}
+            maxLength={100}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="distribution-list-recipients">Recipients</Label>
+          <textarea
+            id="distribution-list-recipients"
+            className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
+            rows={3}
+            placeholder="One email address per line"
+            value={form.recipients}
+            onChange={(e) => update({ recipients: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Send automatically when these reports complete</Label>
+          {(Object.keys(TRIGGER_LABELS) as DeliveryTrigger[]).map((trigger) => (
+            <label key={trigger} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={form.triggers.includes(trigger)}
+                onChange={() => toggleTrigger(trigger)}
+              />
+              {TRIGGER_LABELS[trigger]}
+            </label>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={form.isActive}
+            onChange={(e) => update({ isActive: e.target.checked })}
+          />
+          Active
+        </label>
+
+        {saveMutation.isError && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              {(saveMutation.error as any)?.response?.data?.error || 'Failed to save distribution list. Please try again.'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {saveSuccess && (
+          <Alert className="border-green-200 bg-green-50">
+            <AlertDescription className="text-green-800">Distribution list saved.</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={saveMutation.isPending || !form.name.trim() || recipients.length === 0}>
+            {saveMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : editingId ? (
+              'Save List'
+            ) : (
+              'Add List'
+            )}
+          </Button>
+          {editingId && (
+            <Button type="button" variant="outline" onClick={resetForm}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
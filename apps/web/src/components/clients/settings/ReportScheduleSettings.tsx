@@ -0,0 +1,191 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2 } from 'lucide-react';
+import {
+  useReportSchedule,
+  useSaveReportSchedule,
+  type ReportScheduleInput,
+} from '@/hooks/useReportSchedule';
+
+interface ReportScheduleSettingsProps {
+  clientId: string;
+}
+
+const DAYS_OF_WEEK = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DATE_RANGE_OPTIONS = [7, 14, 30, 60, 90];
+
+const DEFAULT_SCHEDULE: Required<ReportScheduleInput> = {
+  frequency: 'weekly',
+  dayOfWeek: 1,
+  dayOfMonth: 1,
+  dateRangeDays: 30,
+  isEnabled: false,
+};
+
+const selectClassName = 'border border-slate-300 rounded-md px-3 py-2 text-sm';
+
+/**
+ * Edit the automatic interplay report schedule for a client
+ */
+export function ReportScheduleSettings({ clientId }: ReportScheduleSettingsProps) {
+  const { data: schedule, isLoading } = useReportSchedule(clientId);
+  const saveSchedule = useSaveReportSchedule(clientId);
+  const [form, setForm] = useState<Required<ReportScheduleInput>>(DEFAULT_SCHEDULE);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+
+  useEffect(() => {
+    if (schedule) {
+      setForm({
+        frequency: schedule.frequency,
+        dayOfWeek: schedule.dayOfWeek,
+        dayOfMonth: schedule.dayOfMonth,
+        dateRangeDays: schedule.dateRangeDays,
+        isEnabled: schedule.isEnabled,
+      });
+    }
+  }, [schedule]);
+
+  const update = (changes: Partial<ReportScheduleInput>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+    setSaveSuccess(false);
+  };
+
+  const handleSave = () => {
+    saveSchedule.mutate(form, {
+      onSuccess: () => {
+        setSaveSuccess(true);
+        setTimeout(() => setSaveSuccess(false), 3000);
+      },
+    });
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Report Schedule</h3>
+        <p className="text-sm text-slate-500">
+          Automatically generate an interplay report on a recurring schedule. Runs are skipped when no new
+          data has been synced or uploaded since the last report.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={form.isEnabled}
+          onChange={(e) => update({ isEnabled: e.target.checked })}
+        />
+        Enable scheduled reports
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="schedule-frequency">Frequency</Label>
+          <select
+            id="schedule-frequency"
+            className={`${selectClassName} w-full`}
+            value={form.frequency}
+            onChange={(e) => update({ frequency: e.target.value as ReportScheduleInput['frequency'] })}
+            disabled={!form.isEnabled}
+          >
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+          </select>
+        </div>
+
+        {form.frequency === 'weekly' ? (
+          <div className="space-y-2">
+            <Label htmlFor="schedule-day-of-week">Day of week</Label>
+            <select
+              id="schedule-day-of-week"
+              className={`${selectClassName} w-full`}
+              value={form.dayOfWeek}
+              onChange={(e) => update({ dayOfWeek: Number(e.target.value) })}
+              disabled={!form.isEnabled}
+            >
+              {DAYS_OF_WEEK.map((day, idx) => (
+                <option key={day} value={idx}>{day}</option>
+              ))}
+            </select>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="schedule-day-of-month">Day of month</Label>
+            <select
+              id="schedule-day-of-month"
+              className={`${selectClassName} w-full`}
+              value={form.dayOfMonth}
+              onChange={(e) => update({ dayOfMonth: Number(e.target.value) })}
+              disabled={!form.isEnabled}
+            >
+              {Array.from({ length: 28 }, (_, i) => i + 1).map((day) => (
+                <option key={day} value={day}>{day}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="schedule-date-range">Date range</Label>
+          <select
+            id="schedule-date-range"
+            className={`${selectClassName} w-full`}
+            value={form.dateRangeDays}
+            onChange={(e) => update({ dateRangeDays: Number(e.target.value) })}
+            disabled={!form.isEnabled}
+          >
+            {DATE_RANGE_OPTIONS.map((days) => (
+              <option key={days} value={days}>Last {days} days</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {schedule && (schedule.lastRunAt || schedule.lastSkippedAt) && (
+        <div className="text-sm text-slate-500 space-y-1">
+          {schedule.lastRunAt && (
+            <p>Last generated: {new Date(schedule.lastRunAt).toLocaleString()}</p>
+          )}
+          {schedule.lastSkippedAt && (
+            <p>
+              Last skipped: {new Date(schedule.lastSkippedAt).toLocaleString()}
+              {schedule.lastSkipReason && ` (${schedule.lastSkipReason})`}
+            </p>
+          )}
+        </div>
+      )}
+
+      {saveSchedule.isError && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {(saveSchedule.error as any)?.response?.data?.error || 'Failed to save schedule. Please try again.'}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {saveSuccess && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">Report schedule saved.</AlertDescription>
+        </Alert>
+      )}
+
+      <Button onClick={handleSave} disabled={saveSchedule.isPending}>
+        {saveSchedule.isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          'Save Schedule'
+        )}
+      </Button>
+    </div>
+  );
+}
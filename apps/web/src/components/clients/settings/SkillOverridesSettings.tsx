@@ -0,0 +1,230 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2 } from 'lucide-react';
+import {
+  useClientSkillOverrides,
+  useSaveClientSkillOverrides,
+  type ClientSkillOverrides,
+  type ThresholdSet,
+} from '@/hooks/useClientSkillOverrides';
+
+interface SkillOverridesSettingsProps {
+  clientId: string;
+}
+
+const SCOUT_FIELDS: { key: string; label: string }[] = [
+  { key: 'highSpendThreshold', label: 'High spend ($)' },
+  { key: 'lowRoasThreshold', label: 'Low ROAS' },
+  { key: 'cannibalizationPosition', label: 'Cannibalization position' },
+  { key: 'highBounceRateThreshold', label: 'High bounce rate (%)' },
+  { key: 'lowCtrThreshold', label: 'Low CTR (%)' },
+  { key: 'minImpressionsForAnalysis', label: 'Min impressions' },
+];
+
+const BENCHMARK_LABELS: Record<string, string> = {
+  ctr: 'CTR (%)',
+  conversionRate: 'Conversion rate (%)',
+  cpc: 'CPC ($)',
+  roas: 'ROAS',
+  costPerConversion: 'Cost / conversion ($)',
+  organicCtr: 'Organic CTR (%)',
+  bounceRate: 'Bounce rate (%)',
+  avgPosition: 'Avg position',
+  pageLoadTime: 'Page load (s)',
+};
+
+const THRESHOLD_LEVELS: (keyof ThresholdSet)[] = ['excellent', 'good', 'average', 'poor'];
+
+/** Form values keyed by override path, e.g. "sem.benchmarks.cpc.good". Empty means default. */
+type OverrideValues = Record<string, string>;
+
+function flattenOverrides(value: unknown, prefix: string = '', out: OverrideValues = {}): OverrideValues {
+  if (typeof value === 'object' && value !== null) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenOverrides(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (typeof value === 'number') {
+    out[prefix] = String(value);
+  }
+  return out;
+}
+
+function buildOverrides(values: OverrideValues): ClientSkillOverrides {
+  const overrides: Record<string, any> = {};
+
+  for (const [path, raw] of Object.entries(values)) {
+    if (raw.trim() === '') continue;
+    const keys = path.split('.');
+    let target = overrides;
+    for (const key of keys.slice(0, -1)) {
+      target = target[key] ??= {};
+    }
+    target[keys[keys.length - 1]] = Number(raw);
+  }
+
+  return overrides;
+}
+
+/**
+ * Edit per-client scout thresholds and SEM/SEO benchmarks. Blank fields use
+ * the value from the client's skill bundle.
+ */
+export function SkillOverridesSettings({ clientId }: SkillOverridesSettingsProps) {
+  const { data, isLoading } = useClientSkillOverrides(clientId);
+  const saveOverrides = useSaveClientSkillOverrides(clientId);
+  const [values, setValues] = useState<OverrideValues>({});
+  const [saveSuccess, setSaveSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (data) {
+      setValues(flattenOverrides(data.overrides ?? {}));
+    }
+  }, [data]);
+
+  if (isLoading || !data) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  const update = (path: string, value: string) => {
+    setValues((prev) => ({ ...prev, [path]: value }));
+    setSaveSuccess(false);
+  };
+
+  const handleSave = (overrides: ClientSkillOverrides | null) => {
+    setError(null);
+    saveOverrides.mutate(overrides, {
+      onSuccess: () => {
+        setSaveSuccess(true);
+        setTimeout(() => setSaveSuccess(false), 3000);
+      },
+      onError: (err: any) => {
+        const details = err.response?.data?.details;
+        const issues = Array.isArray(details)
+          ? details.map((issue: any) => `${Array.isArray(issue.path) ? issue.path.join('.') : issue.path}: ${issue.message}`)
+          : [];
+        setError([err.response?.data?.error || 'Failed to save overrides', ...issues].join(' — '));
+      },
+    });
+  };
+
+  const invalid = Object.values(values).some((value) => value.trim() !== '' && Number.isNaN(Number(value)));
+
+  const renderInput = (path: string, defaultValue: number | undefined) => (
+    <Input
+      id={`skill-override-${path}`}
+      type="number"
+      step="any"
+      className="h-8 text-sm"
+      placeholder={defaultValue !== undefined ? String(defaultValue) : ''}
+      value={values[path] ?? ''}
+      onChange={(e) => update(path, e.target.value)}
+      disabled={saveOverrides.isPending}
+    />
+  );
+
+  const renderBenchmarks = (agent: 'sem' | 'seo', title: string) => {
+    const benchmarks = data.defaults[agent].benchmarks as Record<string, ThresholdSet | undefined>;
+
+    return (
+      <div className="space-y-2">
+        <Label>{title}</Label>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="py-1 pr-2 font-medium">Metric</th>
+              {THRESHOLD_LEVELS.map((level) => (
+                <th key={level} className="py-1 pr-2 font-medium capitalize">{level}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(benchmarks)
+              .filter(([, set]) => set)
+              .map(([metric, set]) => (
+                <tr key={metric}>
+                  <td className="py-1 pr-2 text-slate-700">{BENCHMARK_LABELS[metric] ?? metric}</td>
+                  {THRESHOLD_LEVELS.map((level) => (
+                    <td key={level} className="py-1 pr-2">
+                      {renderInput(`${agent}.benchmarks.${metric}.${level}`, set?.[level])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Skill Thresholds</h3>
+        <p className="text-sm text-slate-500">
+          Adjust thresholds and benchmarks to this client's scale. Leave a field blank to use the value from the
+          client's skill bundle, shown as the placeholder.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Scout thresholds</Label>
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-3">
+          {SCOUT_FIELDS.map((field) => {
+            const path = `scout.thresholds.${field.key}`;
+            return (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`skill-override-${path}`} className="text-xs text-slate-600">
+                  {field.label}
+                </Label>
+                {renderInput(
+                  path,
+                  data.defaults.scout.thresholds[field.key as keyof typeof data.defaults.scout.thresholds]
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {renderBenchmarks('sem', 'SEM benchmarks')}
+      {renderBenchmarks('seo', 'SEO benchmarks')}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {saveSuccess && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">
+            Skill thresholds saved. Future reports will use the new values.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-3">
+        <Button onClick={() => handleSave(buildOverrides(values))} disabled={saveOverrides.isPending || invalid}>
+          {saveOverrides.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            'Save Thresholds'
+          )}
+        </Button>
+        {data.overrides && (
+          <Button variant="outline" onClick={() => handleSave(null)} disabled={saveOverrides.isPending}>
+            Reset to Defaults
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1 +1,6 @@
 export { ClientSettings } from './ClientSettings';
+export { ReportScheduleSettings } from './ReportScheduleSettings';
+export { SkillOverridesSettings } from './SkillOverridesSettings';
+export { ClientAssignmentsSettings } from './ClientAssignmentsSettings';
+export { ClientLogoSettings } from './ClientLogoSettings';
+export { DistributionListsSettings } from './DistributionListsSettings';
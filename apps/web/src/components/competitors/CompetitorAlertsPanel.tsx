@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Bell, Check, X, RotateCcw } from 'lucide-react';
+import {
+  useCompetitorAlerts,
+  useUpdateCompetitorAlertStatus,
+  type CompetitorAlert,
+  type CompetitorAlertStatus,
+} from '@/hooks/useCompetitors';
+
+interface CompetitorAlertsPanelProps {
+  clientId: string;
+}
+
+const ALERT_TYPE_LABELS: Record<CompetitorAlert['alertType'], string> = {
+  new_competitor: 'New competitor',
+  outranking_share_change: 'Outranking shift',
+  lost_is_rank_increase: 'Lost IS (rank)',
+};
+
+const STATUS_FILTERS: { value: CompetitorAlertStatus | undefined; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'acknowledged', label: 'Acknowledged' },
+  { value: 'dismissed', label: 'Dismissed' },
+  { value: undefined, label: 'All' },
+];
+
+function statusVariant(status: CompetitorAlertStatus) {
+  switch (status) {
+    case 'open':
+      return 'warning';
+    case 'acknowledged':
+      return 'success';
+    default:
+      return 'secondary';
+  }
+}
+
+/**
+ * Lists auction-insight competitor alerts with acknowledge/dismiss actions
+ */
+export function CompetitorAlertsPanel({ clientId }: CompetitorAlertsPanelProps) {
+  const [statusFilter, setStatusFilter] = useState<CompetitorAlertStatus | undefined>('open');
+  const { data, isLoading } = useCompetitorAlerts(clientId, statusFilter);
+  const updateStatus = useUpdateCompetitorAlertStatus(clientId);
+
+  const alerts = data?.alerts ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Alerts
+            </CardTitle>
+            <CardDescription>Significant shifts between successive auction insights uploads</CardDescription>
+          </div>
+          <div className="flex gap-1">
+            {STATUS_FILTERS.map((filter) => (
+              <Button
+                key={filter.label}
+                variant={statusFilter === filter.value ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setStatusFilter(filter.value)}
+              >
+                {filter.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : alerts.length === 0 ? (
+          <p className="text-sm text-slate-500">No alerts.</p>
+        ) : (
+          <ul className="divide-y">
+            {alerts.map((alert) => (
+              <li key={alert.id} className="py-3 flex items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <Badge variant="outline">{ALERT_TYPE_LABELS[alert.alertType]}</Badge>
+                    <Badge variant={statusVariant(alert.status)}>{alert.status}</Badge>
+                    <span className="text-xs text-slate-500">
+                      {alert.dateRangeStart} – {alert.dateRangeEnd}
+                    </span>
+                  </div>
+                  <p className="text-sm text-slate-900">{alert.message}</p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {alert.status === 'open' ? (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateStatus.mutate({ alertId: alert.id, status: 'acknowledged' })}
+                        disabled={updateStatus.isPending}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Acknowledge
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateStatus.mutate({ alertId: alert.id, status: 'dismissed' })}
+                        disabled={updateStatus.isPending}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Dismiss
+                      </Button>
+                    </>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateStatus.mutate({ alertId: alert.id, status: 'open' })}
+                      disabled={updateStatus.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Reopen
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,37 @@
+import { Link } from 'react-router-dom';
 import { UserButton, OrganizationSwitcher } from '@clerk/clerk-react';
+import { usePermissions } from '@/hooks/usePermissions';
 
 export function Header() {
+  const { role, can } = usePermissions();
+
   return (
     <header className="border-b bg-white">
       <div className="flex items-center justify-between px-6 py-4">
-        <h1 className="text-2xl font-bold text-gray-900">Advergent</h1>
+        <div className="flex items-center gap-8">
+          <Link to="/">
+            <h1 className="text-2xl font-bold text-gray-900">Advergent</h1>
+          </Link>
+          <nav className="flex items-center gap-6 text-sm text-gray-600">
+            <Link to="/" className="hover:text-gray-900">Clients</Link>
+            <Link to="/skill-bundles" className="hover:text-gray-900">Skill Bundles</Link>
+            {(role === 'owner' || role === 'admin') && (
+              <Link to="/skill-quality" className="hover:text-gray-900">Skill Quality</Link>
+            )}
+            {can('settings:manage') && (
+              <Link to="/api-keys" className="hover:text-gray-900">API Keys</Link>
+            )}
+            {can('settings:manage') && (
+              <Link to="/branding" className="hover:text-gray-900">Branding</Link>
+            )}
+            {can('audit:view') && (
+              <Link to="/audit-log" className="hover:text-gray-900">Audit Log</Link>
+            )}
+            {can('permissions:manage') && (
+              <Link to="/permissions" className="hover:text-gray-900">Permissions</Link>
+            )}
+          </nav>
+        </div>
 
         <div className="flex items-center gap-4">
           <OrganizationSwitcher
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, CheckCircle2, RotateCcw, Upload } from 'lucide-react';
+import {
+  useApplyPreview,
+  useApplyRecommendation,
+  useRecommendationMutations,
+  useRollbackRecommendation,
+  type GoogleAdsMutationLog,
+  type GoogleAdsMutationType,
+} from '@/hooks/useRecommendationApply';
+import type { Recommendation } from '@/hooks/useClientDetail';
+
+interface ApplyRecommendationDialogProps {
+  clientId: string;
+  recommendationId: string;
+  status: Recommendation['status'];
+}
+
+const mutationTypeLabels: Record<GoogleAdsMutationType, string> = {
+  keyword_pause: 'Pause keyword',
+  bid_change: 'Bid change',
+  negative_keyword: 'Negative keyword',
+};
+
+const mutationStatusVariants: Record<GoogleAdsMutationLog['status'], 'success' | 'destructive' | 'secondary' | 'warning'> = {
+  applied: 'success',
+  failed: 'destructive',
+  rolling_back: 'secondary',
+  rolled_back: 'secondary',
+  rollback_failed: 'warning',
+};
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return (error as any)?.response?.data?.error || fallback;
+}
+
+/**
+ * Preview, apply and roll back a recommendation's Google Ads changes
+ */
+export function ApplyRecommendationDialog({ clientId, recommendationId, status }: ApplyRecommendationDialogProps) {
+  const [open, setOpen] = useState(false);
+  const isApplied = status === 'applied';
+  const isPartial = status === 'partial';
+
+  const preview = useApplyPreview(recommendationId, open && !isApplied);
+  const mutationLog = useRecommendationMutations(recommendationId, open);
+  const apply = useApplyRecommendation(clientId, recommendationId);
+  const rollback = useRollbackRecommendation(clientId, recommendationId);
+
+  const mutations = mutationLog.data?.mutations ?? [];
+  const canApply =
+    !isApplied &&
+    !!preview.data &&
+    preview.data.mutations.length > 0 &&
+    preview.data.validationErrors.length === 0;
+
+  return (
+    <>
+      <Button variant={isApplied ? 'outline' : 'default'} size="sm" onClick={() => setOpen(true)}>
+        {isApplied ? (
+          <>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Google Ads Changes
+          </>
+        ) : (
+          <>
+            <Upload className="h-4 w-4 mr-1" />
+            Apply to Google Ads
+          </>
+        )}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{isApplied ? 'Applied Google Ads Changes' : 'Apply to Google Ads'}</DialogTitle>
+            <DialogDescription>
+              {isApplied
+                ? 'These changes were pushed to the ad account. Roll back to restore the previous state.'
+                : isPartial
+                ? 'Some changes failed when this was applied. Retrying sends only the failed changes below.'
+                : 'Review the changes below. Nothing is sent to the ad account until you click Apply.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!isApplied && (
+            <div className="space-y-3">
+              {preview.isLoading ? (
+                <Skeleton className="h-24 w-full" />
+              ) : preview.isError ? (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{getErrorMessage(preview.error, 'Failed to build preview')}</AlertDescription>
+                </Alert>
+              ) : preview.data ? (
+                <>
+                  <ul className="space-y-2">
+                    {preview.data.mutations.map((mutation, idx) => (
+                      <li key={idx} className="flex items-start gap-2 text-sm">
+                        <Badge variant="outline">{mutationTypeLabels[mutation.mutationType]}</Badge>
+                        <span className="text-slate-700">{mutation.description}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  {preview.data.warnings.map((warning, idx) => (
+                    <Alert key={`w-${idx}`}>
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>{warning}</AlertDescription>
+                    </Alert>
+                  ))}
+                  {preview.data.validationErrors.map((message, idx) => (
+                    <Alert key={`e-${idx}`} variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>{message}</AlertDescription>
+                    </Alert>
+                  ))}
+                </>
+              ) : null}
+            </div>
+          )}
+
+          {apply.data && apply.data.status !== 'applied' && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {apply.data.status === 'partial'
+                  ? 'Some changes failed. Applied changes can be rolled back below.'
+                  : 'No changes could be applied.'}
+              </AlertDescription>
+            </Alert>
+          )}
+          {apply.data?.status === 'applied' && (
+            <Alert variant="success">
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription>All changes applied.</AlertDescription>
+            </Alert>
+          )}
+          {(apply.isError || rollback.isError) && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {getErrorMessage(apply.error || rollback.error, 'Request failed')}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {mutations.length > 0 && (
+            <div className="border-t pt-3">
+              <h4 className="text-sm font-semibold mb-2">Mutation log</h4>
+              <ul className="space-y-2">
+                {mutations.map((mutation) => (
+                  <li key={mutation.id} className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{mutationTypeLabels[mutation.mutationType]}</Badge>
+                      <span className="text-slate-700">{mutation.keywordText}</span>
+                      <span className="text-xs text-slate-400">
+                        {new Date(mutation.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <Badge variant={mutationStatusVariants[mutation.status]}>{mutation.status.replace('_', ' ')}</Badge>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <DialogFooter>
+            {mutations.some((m) => m.status === 'applied' || m.status === 'rollback_failed') && (
+              <Button
+                variant="outline"
+                onClick={() => rollback.mutate()}
+                disabled={rollback.isPending}
+              >
+                <RotateCcw className="h-4 w-4 mr-1" />
+                {rollback.isPending ? 'Rolling back...' : 'Roll back'}
+              </Button>
+            )}
+            {!isApplied && (
+              <Button onClick={() => apply.mutate()} disabled={!canApply || apply.isPending}>
+                {apply.isPending ? 'Applying...' : isPartial ? 'Retry failed changes' : 'Apply'}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,23 +1,51 @@
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Info } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { format } from 'date-fns';
+import { History, Info } from 'lucide-react';
 
 interface HistoricalReportBannerProps {
-  currentType: string;
-  reportType: string;
+  currentType?: string;
+  reportType?: string;
+  /** When set, the banner notes that an older report is being viewed */
+  generatedAt?: string;
+  onBackToLatest?: () => void;
 }
 
 export function HistoricalReportBanner({
   currentType,
   reportType,
+  generatedAt,
+  onBackToLatest,
 }: HistoricalReportBannerProps) {
-  if (currentType === reportType) return null;
+  const typeChanged = !!currentType && !!reportType && currentType !== reportType;
+
+  if (!generatedAt && !typeChanged) return null;
 
   return (
     <Alert className="mb-4 border-blue-200 bg-blue-50">
-      <Info className="h-4 w-4 text-blue-600" />
-      <AlertDescription className="text-blue-800">
-        This report was generated when the client was categorized as <strong>{reportType}</strong>.
-        The client is now categorized as <strong>{currentType}</strong>.
+      {generatedAt ? (
+        <History className="h-4 w-4 text-blue-600" />
+      ) : (
+        <Info className="h-4 w-4 text-blue-600" />
+      )}
+      <AlertDescription className="text-blue-800 space-y-2">
+        {generatedAt && (
+          <p>
+            You are viewing a historical report generated on{' '}
+            <strong>{format(new Date(generatedAt), 'MMM d, yyyy h:mm a')}</strong>.
+          </p>
+        )}
+        {typeChanged && (
+          <p>
+            This report was generated when the client was categorized as <strong>{reportType}</strong>.
+            The client is now categorized as <strong>{currentType}</strong>.
+          </p>
+        )}
+        {onBackToLatest && (
+          <Button variant="outline" size="sm" onClick={onBackToLatest}>
+            Back to latest report
+          </Button>
+        )}
       </AlertDescription>
     </Alert>
   );
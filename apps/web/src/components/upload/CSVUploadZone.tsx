@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useApiClient, useAuthReady, AuthenticationError } from '@/lib/api';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface UploadResult {
   sessionId: string;
@@ -34,6 +35,7 @@ interface CSVUploadZoneProps {
 export function CSVUploadZone({ clientId, onUploadComplete }: CSVUploadZoneProps) {
   const apiClient = useApiClient();
   const { isReady: isAuthReady } = useAuthReady();
+  const { can, isLoading: permissionsLoading } = usePermissions();
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [result, setResult] = useState<UploadResult | null>(null);
@@ -111,6 +113,16 @@ export function CSVUploadZone({ clientId, onUploadComplete }: CSVUploadZoneProps
     setUploadProgress(0);
   };
 
+  if (!permissionsLoading && !can('csv:upload')) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-center text-sm text-slate-500">
+          Your role does not allow uploading CSV files. Ask an agency admin to upload them.
+        </CardContent>
+      </Card>
+    );
+  }
+
   // Show results
   if (result) {
     return (
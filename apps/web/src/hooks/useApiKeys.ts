@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useApiClient } from '@/lib/api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ApiKeyScope = 'read:reports' | 'write:recommendations' | 'trigger:sync';
+
+export interface ApiKey {
+  id: string;
+  agencyId: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  createdBy: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface ApiKeyList {
+  apiKeys: ApiKey[];
+  scopes: ApiKeyScope[];
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  /** Full key, returned only once at creation */
+  key: string;
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * List the agency's API keys and the scopes a key can be granted
+ */
+export function useApiKeys() {
+  const apiClient = useApiClient();
+
+  return useQuery<ApiKeyList>({
+    queryKey: ['api-keys'],
+    queryFn: async () => {
+      const { data } = await apiClient.get<ApiKeyList>('/api/api-keys');
+      return data;
+    },
+    retry: false,
+  });
+}
+
+export function useCreateApiKey() {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<CreatedApiKey, Error, CreateApiKeyInput>({
+    mutationFn: async (input) => {
+      const { data } = await apiClient.post<CreatedApiKey>('/api/api-keys', input);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] });
+    },
+  });
+}
+
+export function useRevokeApiKey() {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: async (apiKeyId) => {
+      await apiClient.delete(`/api/api-keys/${apiKeyId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] });
+    },
+  });
+}
@@ -0,0 +1,92 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { useApiClient } from '@/lib/api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEvent {
+  id: string;
+  agencyId: string;
+  actorUserId: string | null;
+  actorName: string | null;
+  actorEmail: string | null;
+  apiKeyId: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  clientAccountId: string | null;
+  changes: AuditChanges | null;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface AuditEventList {
+  events: AuditEvent[];
+  total: number;
+}
+
+export interface AuditEventFilters {
+  action?: string;
+  entityType?: string;
+  actorUserId?: string;
+  clientAccountId?: string;
+  from?: string;
+  to?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface AuditActor {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+export interface AuditFilterOptions {
+  actions: string[];
+  actors: AuditActor[];
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * A page of the agency's audit log, newest first
+ */
+export function useAuditEvents(filters: AuditEventFilters) {
+  const apiClient = useApiClient();
+
+  return useQuery<AuditEventList>({
+    queryKey: ['audit-events', filters],
+    queryFn: async () => {
+      // Drop empty filters so they are not sent as blank query params
+      const params = Object.fromEntries(
+        Object.entries(filters).filter(([, value]) => value !== undefined && value !== '')
+      );
+      const { data } = await apiClient.get<AuditEventList>('/api/audit-events', { params });
+      return data;
+    },
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+}
+
+/**
+ * Actions and actors the audit log can be filtered by
+ */
+export function useAuditFilters() {
+  const apiClient = useApiClient();
+
+  return useQuery<AuditFilterOptions>({
+    queryKey: ['audit-events', 'filters'],
+    queryFn: async () => {
+      const { data } = await apiClient.get<AuditFilterOptions>('/api/audit-events/filters');
+      return data;
+    },
+    retry: false,
+  });
+}
@@ -0,0 +1,102 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useApiClient } from '@/lib/api';
+import type { ReportBranding } from '@advergent/shared';
+
+export type { ReportBranding } from '@advergent/shared';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Stored agency branding; null fields fall back to the defaults
+ */
+export interface AgencyBrandingSettings {
+  companyName: string | null;
+  logoDataUrl: string | null;
+  primaryColor: string | null;
+  accentColor: string | null;
+  footerText: string | null;
+  coverPageEnabled: boolean;
+  coverTitle: string | null;
+  coverSubtitle: string | null;
+  updatedAt: string | null;
+}
+
+export interface AgencyBrandingResponse {
+  branding: AgencyBrandingSettings;
+  defaults: ReportBranding;
+}
+
+export type UpdateBrandingInput = Partial<Omit<AgencyBrandingSettings, 'updatedAt'>>;
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * The agency's report branding settings
+ */
+export function useBranding() {
+  const apiClient = useApiClient();
+
+  return useQuery<AgencyBrandingResponse>({
+    queryKey: ['branding'],
+    queryFn: async () => {
+      const { data } = await apiClient.get<AgencyBrandingResponse>('/api/branding');
+      return data;
+    },
+  });
+}
+
+export function useUpdateBranding() {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<AgencyBrandingSettings, Error, UpdateBrandingInput>({
+    mutationFn: async (input) => {
+      const { data } = await apiClient.put<{ branding: AgencyBrandingSettings }>('/api/branding', input);
+      return data.branding;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['branding'] });
+      queryClient.invalidateQueries({ queryKey: ['client-branding'] });
+    },
+  });
+}
+
+/**
+ * Branding a client's report PDFs render with: agency branding plus the client's logo
+ */
+export function useClientBranding(clientId: string) {
+  const apiClient = useApiClient();
+
+  return useQuery<ReportBranding>({
+    queryKey: ['client-branding', clientId],
+    queryFn: async () => {
+      const { data } = await apiClient.get<{ branding: ReportBranding }>(`/api/clients/${clientId}/branding`);
+      return data.branding;
+    },
+    enabled: !!clientId,
+  });
+}
+
+/**
+ * Set or (with null) remove a client's report logo
+ */
+export function useUpdateClientLogo(clientId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<ReportBranding, Error, string | null>({
+    mutationFn: async (logoDataUrl) => {
+      const { data } = await apiClient.put<{ branding: ReportBranding }>(`/api/clients/${clientId}/logo`, {
+        logoDataUrl,
+      });
+      return data.branding;
+    },
+    onSuccess: (branding) => {
+      queryClient.setQueryData(['client-branding', clientId], branding);
+    },
+  });
+}
@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useApiClient } from '@/lib/api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AgencyMember {
+  id: string;
+  name: string;
+  email: string;
+  role: 'owner' | 'admin' | 'member';
+}
+
+export interface ClientAssignments {
+  assignedUserIds: string[];
+  members: AgencyMember[];
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * Fetch the users assigned to a client and the agency's users to choose from
+ */
+export function useClientAssignments(clientId: string) {
+  const apiClient = useApiClient();
+
+  return useQuery<ClientAssignments>({
+    queryKey: ['client', clientId, 'assignments'],
+    queryFn: async () => {
+      const { data } = await apiClient.get<ClientAssignments>(`/api/clients/${clientId}/assignments`);
+      return data;
+    },
+    enabled: !!clientId,
+  });
+}
+
+/**
+ * Replace the users assigned to a client
+ */
+export function useSaveClientAssignments(clientId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<ClientAssignments, Error, string[]>({
+    mutationFn: async (userIds) => {
+      const { data } = await apiClient.put<ClientAssignments>(`/api/clients/${clientId}/assignments`, {
+        userIds,
+      });
+      return data;
+    },
+    onSuccess: (assignments) => {
+      queryClient.setQueryData(['client', clientId, 'assignments'], assignments);
+    },
+  });
+}
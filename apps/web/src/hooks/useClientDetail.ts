@@ -129,7 +129,7 @@ export interface Recommendation {
   estimatedMonthlySavings: number;
   reasoning: string;
   keyFactors: string[];
-  status: 'pending' | 'approved' | 'rejected' | 'applied';
+  status: 'pending' | 'approved' | 'rejected' | 'applying' | 'partial' | 'applied';
   createdAt: string;
 }
 
@@ -160,6 +160,7 @@ export interface Client {
   searchConsoleSiteUrl?: string;
   ga4PropertyId?: string;
   businessType?: string;
+  customSkillBundleId?: string | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -356,7 +357,7 @@ export function useUpdateRecommendationStatus(clientId: string) {
   return useMutation<
     { id: string; status: string },
     Error,
-    { recommendationId: string; status: 'pending' | 'approved' | 'rejected' | 'applied' }
+    { recommendationId: string; status: 'pending' | 'approved' | 'rejected' }
   >({
     mutationFn: async ({ recommendationId, status }) => {
       const { data } = await apiClient.patch(
@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useApiClient } from '@/lib/api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ThresholdSet {
+  excellent: number;
+  good: number;
+  average: number;
+  poor: number;
+}
+
+export interface ScoutThresholds {
+  highSpendThreshold: number;
+  lowRoasThreshold: number;
+  cannibalizationPosition: number;
+  highBounceRateThreshold: number;
+  lowCtrThreshold: number;
+  minImpressionsForAnalysis: number;
+}
+
+export type SemBenchmarkKey = 'ctr' | 'conversionRate' | 'cpc' | 'roas' | 'costPerConversion';
+export type SeoBenchmarkKey = 'organicCtr' | 'bounceRate' | 'avgPosition' | 'pageLoadTime';
+
+export interface ClientSkillOverrides {
+  scout?: { thresholds?: Partial<ScoutThresholds> };
+  sem?: { benchmarks?: Partial<Record<SemBenchmarkKey, Partial<ThresholdSet>>> };
+  seo?: { benchmarks?: Partial<Record<SeoBenchmarkKey, Partial<ThresholdSet>>> };
+}
+
+export interface ClientSkillSettings {
+  scout: { thresholds: ScoutThresholds };
+  sem: { benchmarks: Partial<Record<SemBenchmarkKey, ThresholdSet>> };
+  seo: { benchmarks: Partial<Record<SeoBenchmarkKey, ThresholdSet>> };
+}
+
+export interface ClientSkillOverridesState {
+  overrides: ClientSkillOverrides | null;
+  defaults: ClientSkillSettings;
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * Fetch a client's skill threshold overrides and the bundle defaults
+ */
+export function useClientSkillOverrides(clientId: string) {
+  const apiClient = useApiClient();
+
+  return useQuery<ClientSkillOverridesState>({
+    queryKey: ['client', clientId, 'skill-overrides'],
+    queryFn: async () => {
+      const { data } = await apiClient.get<ClientSkillOverridesState>(
+        `/api/clients/${clientId}/skill-overrides`
+      );
+      return data;
+    },
+    enabled: !!clientId,
+  });
+}
+
+/**
+ * Replace a client's skill threshold overrides (null clears them)
+ */
+export function useSaveClientSkillOverrides(clientId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<ClientSkillOverridesState, Error, ClientSkillOverrides | null>({
+    mutationFn: async (overrides) => {
+      const { data } = await apiClient.put<ClientSkillOverridesState>(
+        `/api/clients/${clientId}/skill-overrides`,
+        { overrides }
+      );
+      return data;
+    },
+    onSuccess: (state) => {
+      queryClient.setQueryData(['client', clientId, 'skill-overrides'], state);
+    },
+  });
+}
@@ -0,0 +1,227 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useApiClient } from '@/lib/api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CompetitorMetricPoint {
+  date: string;
+  impressionShare: number | null;
+  overlapRate: number | null;
+  positionAboveRate: number | null;
+  topOfPageRate: number | null;
+  outrankingShare: number | null;
+}
+
+export interface Competitor {
+  id: string;
+  clientAccountId: string;
+  competitorDomain: string;
+  detectedVia: string | null;
+  firstSeenAt: string | null;
+  lastSeenAt: string | null;
+  isActive: boolean;
+  createdAt: string;
+  latestMetrics: CompetitorMetricPoint | null;
+}
+
+export interface CompetitorsResponse {
+  competitors: Competitor[];
+  total: number;
+}
+
+export interface CompetitorSeries {
+  competitorId: string;
+  competitorDomain: string;
+  metrics: CompetitorMetricPoint[];
+}
+
+export interface CompetitorTimeseriesResponse {
+  series: CompetitorSeries[];
+}
+
+export type CompetitorAlertStatus = 'open' | 'acknowledged' | 'dismissed';
+
+export interface CompetitorAlert {
+  id: string;
+  clientAccountId: string;
+  competitorId: string | null;
+  competitorDomain: string | null;
+  alertType: 'new_competitor' | 'outranking_share_change' | 'lost_is_rank_increase';
+  status: CompetitorAlertStatus;
+  dateRangeStart: string;
+  dateRangeEnd: string;
+  previousDateRangeEnd: string | null;
+  metricName: string;
+  previousValue: number | null;
+  currentValue: number | null;
+  message: string;
+  statusChangedAt: string | null;
+  createdAt: string;
+}
+
+export interface CompetitorAlertsResponse {
+  alerts: CompetitorAlert[];
+  total: number;
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * Fetch tracked competitors for a client
+ */
+export function useCompetitors(clientId: string, includeInactive: boolean = false) {
+  const apiClient = useApiClient();
+
+  return useQuery<CompetitorsResponse>({
+    queryKey: ['client', clientId, 'competitors', { includeInactive }],
+    queryFn: async () => {
+      const { data } = await apiClient.get<CompetitorsResponse>('/api/competitors', {
+        params: { clientId, includeInactive },
+      });
+      return data;
+    },
+    enabled: !!clientId,
+  });
+}
+
+/**
+ * Fetch metrics timeseries for all active competitors of a client
+ */
+export function useCompetitorTimeseries(clientId: string, days: number = 180) {
+  const apiClient = useApiClient();
+
+  return useQuery<CompetitorTimeseriesResponse>({
+    queryKey: ['client', clientId, 'competitors', 'timeseries', days],
+    queryFn: async () => {
+      const { data } = await apiClient.get<CompetitorTimeseriesResponse>(
+        '/api/competitors/timeseries',
+        { params: { clientId, days } }
+      );
+      return data;
+    },
+    enabled: !!clientId,
+  });
+}
+
+/**
+ * Manually track a competitor domain
+ */
+export function useCreateCompetitor(clientId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<Competitor, Error, { competitorDomain: string }>({
+    mutationFn: async ({ competitorDomain }) => {
+      const { data } = await apiClient.post<Competitor>('/api/competitors', {
+        clientId,
+        competitorDomain,
+      });
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['client', clientId, 'competitors'] });
+    },
+  });
+}
+
+/**
+ * Update a competitor (e.g. toggle tracking)
+ */
+export function useUpdateCompetitor(clientId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    Competitor,
+    Error,
+    { competitorId: string; competitorDomain?: string; isActive?: boolean }
+  >({
+    mutationFn: async ({ competitorId, ...updates }) => {
+      const { data } = await apiClient.patch<Competitor>(`/api/competitors/${competitorId}`, updates);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['client', clientId, 'competitors'] });
+    },
+  });
+}
+
+/**
+ * Stop tracking a competitor
+ */
+export function useDeleteCompetitor(clientId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean; id: string }, Error, string>({
+    mutationFn: async (competitorId) => {
+      const { data } = await apiClient.delete(`/api/competitors/${competitorId}`);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['client', clientId, 'competitors'] });
+    },
+  });
+}
+
+/**
+ * Re-run competitor discovery from auction insights
+ */
+export function useDiscoverCompetitors(clientId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<{ competitorsUpserted: number; metricsUpserted: number; alertsCreated: number }, Error>({
+    mutationFn: async () => {
+      const { data } = await apiClient.post('/api/competitors/discover', { clientId });
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['client', clientId, 'competitors'] });
+    },
+  });
+}
+
+/**
+ * Fetch competitor alerts for a client
+ */
+export function useCompetitorAlerts(clientId: string, status?: CompetitorAlertStatus) {
+  const apiClient = useApiClient();
+
+  return useQuery<CompetitorAlertsResponse>({
+    queryKey: ['client', clientId, 'competitors', 'alerts', status],
+    queryFn: async () => {
+      const { data } = await apiClient.get<CompetitorAlertsResponse>('/api/competitors/alerts', {
+        params: { clientId, status },
+      });
+      return data;
+    },
+    enabled: !!clientId,
+  });
+}
+
+/**
+ * Acknowledge, dismiss or reopen a competitor alert
+ */
+export function useUpdateCompetitorAlertStatus(clientId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    { id: string; status: CompetitorAlertStatus },
+    Error,
+    { alertId: string; status: CompetitorAlertStatus }
+  >({
+    mutationFn: async ({ alertId, status }) => {
+      const { data } = await apiClient.patch(`/api/competitors/alerts/${alertId}/status`, { status });
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['client', clientId, 'competitors', 'alerts'] });
+    },
+  });
+}
@@ -1,9 +1,30 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, keepPreviousData } from '@tanstack/react-query';
 import { useApiClient } from '@/lib/api';
-import type { InterplayReportResponse } from '@advergent/shared';
+import type {
+  InterplayReportResponse,
+  InterplayReportDiff,
+  InterplayReportHistoryResponse,
+} from '@advergent/shared';
 
-// Re-export the type for convenience
-export type { InterplayReportResponse } from '@advergent/shared';
+// Re-export the types for convenience
+export type {
+  InterplayReportResponse,
+  InterplayReportDiff,
+  InterplayReportHistoryResponse,
+  InterplayReportSummary,
+} from '@advergent/shared';
+
+function isNotFound(error: unknown): boolean {
+  return (
+    !!error &&
+    typeof error === 'object' &&
+    'response' in error &&
+    !!error.response &&
+    typeof error.response === 'object' &&
+    'status' in error.response &&
+    error.response.status === 404
+  );
+}
 
 /**
  * Fetch interplay report for a client
@@ -22,15 +43,7 @@ export function useInterplayReport(clientId: string) {
         return data;
       } catch (error: unknown) {
         // Return null if no report exists (404)
-        if (
-          error &&
-          typeof error === 'object' &&
-          'response' in error &&
-          error.response &&
-          typeof error.response === 'object' &&
-          'status' in error.response &&
-          error.response.status === 404
-        ) {
+        if (isNotFound(error)) {
           return null;
         }
         throw error;
@@ -39,3 +52,118 @@ export function useInterplayReport(clientId: string) {
     enabled: !!clientId,
   });
 }
+
+/**
+ * Fetch a specific (historical) report by ID
+ */
+export function useInterplayReportById(clientId: string, reportId: string | null) {
+  const apiClient = useApiClient();
+
+  return useQuery<InterplayReportResponse>({
+    queryKey: ['client', clientId, 'interplay-report', reportId],
+    queryFn: async () => {
+      const { data } = await apiClient.get<InterplayReportResponse>(
+        `/api/clients/${clientId}/interplay-report/${reportId}`
+      );
+      return data;
+    },
+    enabled: !!clientId && !!reportId,
+  });
+}
+
+/**
+ * Fetch a page of the client's report history (newest first)
+ */
+export function useInterplayReportHistory(clientId: string, page: number = 1, pageSize: number = 10) {
+  const apiClient = useApiClient();
+
+  return useQuery<InterplayReportHistoryResponse>({
+    queryKey: ['client', clientId, 'interplay-reports', { page, pageSize }],
+    queryFn: async () => {
+      const { data } = await apiClient.get<InterplayReportHistoryResponse>(
+        `/api/clients/${clientId}/interplay-reports`,
+        { params: { page, pageSize } }
+      );
+      return data;
+    },
+    placeholderData: keepPreviousData,
+    enabled: !!clientId,
+  });
+}
+
+/**
+ * Fetch a diff between two reports for a client.
+ * Without report IDs the API compares the latest completed report with the one before it.
+ * Returns null when there are not enough reports to compare (404).
+ */
+export function useInterplayReportDiff(
+  clientId: string,
+  options: { fromReportId?: string; toReportId?: string; enabled?: boolean } = {}
+) {
+  const apiClient = useApiClient();
+  const { fromReportId, toReportId, enabled = true } = options;
+
+  return useQuery<InterplayReportDiff | null>({
+    queryKey: ['client', clientId, 'interplay-report', 'diff', { fromReportId, toReportId }],
+    queryFn: async () => {
+      try {
+        const { data } = await apiClient.get<InterplayReportDiff>(
+          `/api/clients/${clientId}/interplay-report/diff`,
+          { params: { from: fromReportId, to: toReportId } }
+        );
+        return data;
+      } catch (error: unknown) {
+        if (isNotFound(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    enabled: !!clientId && enabled,
+  });
+}
+
+export type ReportExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Download a server-generated CSV or XLSX export of a completed report
+ */
+export function useExportInterplayReport(clientId: string) {
+  const apiClient = useApiClient();
+
+  return useMutation<{ blob: Blob; filename: string }, Error, { reportId: string; format: ReportExportFormat }>({
+    mutationFn: async ({ reportId, format }) => {
+      const response = await apiClient.get<Blob>(
+        `/api/clients/${clientId}/interplay-report/${reportId}/export`,
+        { params: { format }, responseType: 'blob' }
+      );
+      const disposition = String(response.headers['content-disposition'] ?? '');
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] ?? `interplay-report.${format}`;
+      return { blob: response.data, filename };
+    },
+  });
+}
+
+/**
+ * Download the report's SEM actions as a Google Ads Editor bulk-change CSV.
+ * skippedActions counts actions that couldn't be matched to the account.
+ */
+export function useExportAdsEditorCsv(clientId: string) {
+  const apiClient = useApiClient();
+
+  return useMutation<{ blob: Blob; filename: string; skippedActions: number }, Error, string>({
+    mutationFn: async (reportId) => {
+      const response = await apiClient.get<Blob>(
+        `/api/clients/${clientId}/interplay-report/${reportId}/ads-editor-export`,
+        { responseType: 'blob' }
+      );
+      const disposition = String(response.headers['content-disposition'] ?? '');
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] ?? 'google-ads-editor.csv';
+      return {
+        blob: response.data,
+        filename,
+        skippedActions: Number(response.headers['x-skipped-actions'] ?? 0),
+      };
+    },
+  });
+}
@@ -0,0 +1,104 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useApiClient } from '@/lib/api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Role = 'owner' | 'admin' | 'member';
+
+export type Permission =
+  | 'clients:create'
+  | 'clients:update'
+  | 'clients:delete'
+  | 'clients:assign'
+  | 'clients:sync'
+  | 'google:connect'
+  | 'google:disconnect'
+  | 'recommendations:review'
+  | 'recommendations:apply'
+  | 'reports:generate'
+  | 'reports:schedule'
+  | 'reports:share'
+  | 'csv:upload'
+  | 'settings:manage'
+  | 'audit:view'
+  | 'permissions:manage';
+
+export type PermissionMatrix = Record<Role, Permission[]>;
+
+export interface MyPermissions {
+  role: Role;
+  permissions: Permission[];
+}
+
+export interface PermissionMatrixResponse {
+  permissions: Permission[];
+  matrix: PermissionMatrix;
+  defaults: PermissionMatrix;
+  editableRoles: Role[];
+  lockedPermissions: Permission[];
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * The current user's role and permissions. `can` is false until they have
+ * loaded, so restricted actions stay hidden rather than flashing in.
+ */
+export function usePermissions() {
+  const apiClient = useApiClient();
+
+  const query = useQuery<MyPermissions>({
+    queryKey: ['permissions', 'me'],
+    queryFn: async () => {
+      const { data } = await apiClient.get<MyPermissions>('/api/permissions/me');
+      return data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const permissions = query.data?.permissions;
+  const can = useCallback(
+    (permission: Permission) => permissions?.includes(permission) ?? false,
+    [permissions]
+  );
+
+  return { role: query.data?.role, can, isLoading: query.isLoading };
+}
+
+/**
+ * The agency's full permission matrix, for owners and admins
+ */
+export function usePermissionMatrix() {
+  const apiClient = useApiClient();
+
+  return useQuery<PermissionMatrixResponse>({
+    queryKey: ['permissions', 'matrix'],
+    queryFn: async () => {
+      const { data } = await apiClient.get<PermissionMatrixResponse>('/api/permissions');
+      return data;
+    },
+    retry: false,
+  });
+}
+
+export function useUpdateRolePermissions() {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<PermissionMatrix, Error, { role: Role; permissions: Permission[] }>({
+    mutationFn: async ({ role, permissions }) => {
+      const { data } = await apiClient.put<{ matrix: PermissionMatrix }>(`/api/permissions/${role}`, {
+        permissions,
+      });
+      return data.matrix;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['permissions'] });
+    },
+  });
+}
@@ -0,0 +1,133 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useApiClient } from '@/lib/api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type GoogleAdsMutationType = 'keyword_pause' | 'bid_change' | 'negative_keyword';
+
+export interface PlannedMutation {
+  mutationType: GoogleAdsMutationType;
+  keywordText: string;
+  campaignId: string;
+  adGroupId: string | null;
+  resourceName: string | null;
+  previousState: Record<string, unknown> | null;
+  newState: Record<string, unknown>;
+  description: string;
+}
+
+export interface ApplyPreview {
+  recommendationId: string;
+  recommendationType: string;
+  keywordText: string;
+  mutations: PlannedMutation[];
+  warnings: string[];
+  validationErrors: string[];
+}
+
+export interface GoogleAdsMutationLog {
+  id: string;
+  recommendationId: string | null;
+  mutationType: GoogleAdsMutationType;
+  status: 'applied' | 'failed' | 'rolling_back' | 'rolled_back' | 'rollback_failed';
+  resourceName: string | null;
+  campaignId: string | null;
+  adGroupId: string | null;
+  keywordText: string;
+  previousStateJson: string | null;
+  newStateJson: string | null;
+  errorMessage: string | null;
+  appliedAt: string | null;
+  rolledBackAt: string | null;
+  createdAt: string;
+}
+
+export interface ApplyResult {
+  recommendationId: string;
+  status: 'applied' | 'partial' | 'failed';
+  mutations: GoogleAdsMutationLog[];
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * Dry-run preview of the Google Ads changes a recommendation would make
+ */
+export function useApplyPreview(recommendationId: string, enabled: boolean) {
+  const apiClient = useApiClient();
+
+  return useQuery<ApplyPreview>({
+    queryKey: ['recommendation', recommendationId, 'apply-preview'],
+    queryFn: async () => {
+      const { data } = await apiClient.get<ApplyPreview>(
+        `/api/recommendations/${recommendationId}/apply/preview`
+      );
+      return data;
+    },
+    enabled: enabled && !!recommendationId,
+    retry: false,
+  });
+}
+
+/**
+ * Google Ads mutation log for a recommendation
+ */
+export function useRecommendationMutations(recommendationId: string, enabled: boolean) {
+  const apiClient = useApiClient();
+
+  return useQuery<{ mutations: GoogleAdsMutationLog[] }>({
+    queryKey: ['recommendation', recommendationId, 'mutations'],
+    queryFn: async () => {
+      const { data } = await apiClient.get(`/api/recommendations/${recommendationId}/mutations`);
+      return data;
+    },
+    enabled: enabled && !!recommendationId,
+  });
+}
+
+/**
+ * Push an approved recommendation to Google Ads
+ */
+export function useApplyRecommendation(clientId: string, recommendationId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<ApplyResult, Error>({
+    mutationFn: async () => {
+      const { data } = await apiClient.post<ApplyResult>(
+        `/api/recommendations/${recommendationId}/apply`,
+        undefined,
+        // A failed apply still returns the mutation log
+        { validateStatus: (status) => (status >= 200 && status < 300) || status === 502 }
+      );
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recommendation', recommendationId] });
+      queryClient.invalidateQueries({ queryKey: ['client', clientId, 'recommendations'] });
+    },
+  });
+}
+
+/**
+ * Roll back every applied mutation of a recommendation
+ */
+export function useRollbackRecommendation(clientId: string, recommendationId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<{ status: string; mutations: GoogleAdsMutationLog[] }, Error>({
+    mutationFn: async () => {
+      const { data } = await apiClient.post(`/api/recommendations/${recommendationId}/rollback`);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recommendation', recommendationId] });
+      queryClient.invalidateQueries({ queryKey: ['client', clientId, 'recommendations'] });
+    },
+  });
+}
@@ -0,0 +1,156 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useApiClient } from '@/lib/api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DeliveryTrigger = 'client_creation' | 'manual' | 'scheduled';
+
+export type ReportDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export interface ReportDistributionList {
+  id: string;
+  clientAccountId: string;
+  name: string;
+  recipients: string[];
+  /** Report triggers that email this list when the report completes */
+  triggers: DeliveryTrigger[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DistributionListInput {
+  name: string;
+  recipients: string[];
+  triggers: DeliveryTrigger[];
+  isActive?: boolean;
+}
+
+export interface ReportDelivery {
+  id: string;
+  reportId: string;
+  listId: string | null;
+  listName: string;
+  recipients: string[];
+  /** Null when sent automatically on report completion */
+  requestedBy: string | null;
+  status: ReportDeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  lastAttemptAt: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+export function useDistributionLists(clientId: string) {
+  const apiClient = useApiClient();
+
+  return useQuery<ReportDistributionList[]>({
+    queryKey: ['distribution-lists', clientId],
+    queryFn: async () => {
+      const { data } = await apiClient.get<{ lists: ReportDistributionList[] }>(
+        `/api/clients/${clientId}/distribution-lists`
+      );
+      return data.lists;
+    },
+    enabled: !!clientId,
+  });
+}
+
+export function useCreateDistributionList(clientId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<ReportDistributionList, Error, DistributionListInput>({
+    mutationFn: async (input) => {
+      const { data } = await apiClient.post<{ list: ReportDistributionList }>(
+        `/api/clients/${clientId}/distribution-lists`,
+        input
+      );
+      return data.list;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['distribution-lists', clientId] });
+    },
+  });
+}
+
+export function useUpdateDistributionList(clientId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<ReportDistributionList, Error, DistributionListInput & { id: string }>({
+    mutationFn: async ({ id, ...input }) => {
+      const { data } = await apiClient.put<{ list: ReportDistributionList }>(
+        `/api/clients/${clientId}/distribution-lists/${id}`,
+        input
+      );
+      return data.list;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['distribution-lists', clientId] });
+    },
+  });
+}
+
+export function useDeleteDistributionList(clientId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: async (listId) => {
+      await apiClient.delete(`/api/clients/${clientId}/distribution-lists/${listId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['distribution-lists', clientId] });
+    },
+  });
+}
+
+/**
+ * Email delivery history for a report, newest first. Polls while any
+ * delivery is still pending.
+ */
+export function useReportDeliveries(clientId: string, reportId: string) {
+  const apiClient = useApiClient();
+
+  return useQuery<ReportDelivery[]>({
+    queryKey: ['report-deliveries', clientId, reportId],
+    queryFn: async () => {
+      const { data } = await apiClient.get<{ deliveries: ReportDelivery[] }>(
+        `/api/clients/${clientId}/interplay-report/${reportId}/deliveries`
+      );
+      return data.deliveries;
+    },
+    enabled: !!clientId && !!reportId,
+    refetchInterval: (query) =>
+      query.state.data?.some((delivery) => delivery.status === 'pending') ? 5000 : false,
+  });
+}
+
+/**
+ * Email a report now, to the given lists or every active list
+ */
+export function useSendReport(clientId: string, reportId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<ReportDelivery[], Error, { listIds?: string[] } | void>({
+    mutationFn: async (input) => {
+      const { data } = await apiClient.post<{ deliveries: ReportDelivery[] }>(
+        `/api/clients/${clientId}/interplay-report/${reportId}/deliveries`,
+        input ?? {}
+      );
+      return data.deliveries;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report-deliveries', clientId, reportId] });
+    },
+  });
+}
@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@clerk/clerk-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { apiBaseUrl } from '@/lib/api';
+import { log } from '@/lib/logger';
+import type {
+  ReportPhase,
+  ReportPhaseEvent,
+  ReportProgressStatus,
+} from '@advergent/shared';
+
+export type { ReportPhase, ReportPhaseEvent, ReportProgressStatus } from '@advergent/shared';
+
+export type PhaseStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface PhaseState {
+  phase: ReportPhase;
+  status: PhaseStatus;
+  /** Server timestamp (ms) of the started event */
+  startedAt: number | null;
+  durationMs: number | null;
+  message: string | null;
+  progress: { current: number; total: number } | null;
+}
+
+/** Pipeline phases in display order */
+export const REPORT_PHASES: ReportPhase[] = [
+  'skill_load',
+  'data_fetch',
+  'scout',
+  'researcher',
+  'sem',
+  'seo',
+  'director',
+  'constraint_validation',
+];
+
+// Reconnect a dropped stream a few times before giving up
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 3000;
+
+function initialPhases(): Record<ReportPhase, PhaseState> {
+  return Object.fromEntries(
+    REPORT_PHASES.map((phase) => [
+      phase,
+      { phase, status: 'pending', startedAt: null, durationMs: null, message: null, progress: null },
+    ])
+  ) as Record<ReportPhase, PhaseState>;
+}
+
+function applyEvent(phases: Record<ReportPhase, PhaseState>, event: ReportPhaseEvent) {
+  const current = phases[event.phase];
+  const next: PhaseState = { ...current };
+
+  switch (event.type) {
+    case 'started':
+      next.status = 'running';
+      next.startedAt = new Date(event.createdAt).getTime();
+      next.message = event.message;
+      break;
+    case 'progress':
+      next.status = 'running';
+      next.progress = event.progress;
+      next.message = event.message ?? next.message;
+      break;
+    case 'completed':
+    case 'failed':
+      next.status = event.type;
+      next.durationMs = event.durationMs;
+      next.message = event.message ?? next.message;
+      break;
+  }
+
+  return { ...phases, [event.phase]: next };
+}
+
+/**
+ * Parse complete SSE frames out of the buffer; returns the unparsed remainder
+ */
+function parseFrames(
+  buffer: string,
+  onFrame: (event: string, data: string, id: string | null) => void
+): string {
+  const frames = buffer.split('\n\n');
+  const rest = frames.pop() ?? '';
+
+  for (const frame of frames) {
+    let event = 'message';
+    let id: string | null = null;
+    const data: string[] = [];
+
+    for (const line of frame.split('\n')) {
+      if (line.startsWith(':')) continue; // keep-alive comment
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+      else if (line.startsWith('id:')) id = line.slice(3).trim();
+    }
+
+    if (data.length > 0) {
+      onFrame(event, data.join('\n'), id);
+    }
+  }
+
+  return rest;
+}
+
+/**
+ * Follow a report's pipeline phases over the SSE progress stream.
+ *
+ * Uses fetch rather than EventSource so the Clerk token can be sent as a
+ * header. When the report finishes, the report and sync-status queries are
+ * invalidated so the rest of the page picks up the result.
+ */
+export function useReportProgress(clientId: string | undefined, reportId: string | null | undefined) {
+  const { getToken } = useAuth();
+  const queryClient = useQueryClient();
+  const [phases, setPhases] = useState<Record<ReportPhase, PhaseState>>(initialPhases);
+  const [status, setStatus] = useState<ReportProgressStatus | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!clientId || !reportId) return;
+
+    const controller = new AbortController();
+    let cursor = 0;
+    let ended = false;
+
+    setPhases(initialPhases());
+    setStatus(null);
+    setError(null);
+
+    const handleFrame = (event: string, data: string, id: string | null) => {
+      if (event === 'phase') {
+        const phaseEvent = JSON.parse(data) as ReportPhaseEvent;
+        cursor = id ? Number(id) : phaseEvent.sequence;
+        setPhases((prev) => applyEvent(prev, phaseEvent));
+      } else if (event === 'status') {
+        setStatus(JSON.parse(data) as ReportProgressStatus);
+      } else if (event === 'end') {
+        ended = true;
+        setStatus(JSON.parse(data) as ReportProgressStatus);
+        queryClient.invalidateQueries({ queryKey: ['client', clientId] });
+        queryClient.invalidateQueries({ queryKey: ['sync-status', clientId] });
+      }
+    };
+
+    const stream = async () => {
+      setIsStreaming(true);
+
+      for (let attempt = 0; attempt <= MAX_RECONNECT_ATTEMPTS && !ended; attempt++) {
+        try {
+          const token = await getToken();
+          const response = await fetch(
+            `${apiBaseUrl}/api/clients/${clientId}/interplay-report/${reportId}/progress?after=${cursor}`,
+            {
+              headers: {
+                Accept: 'text/event-stream',
+                ...(token ? { Authorization: `Bearer ${token}` } : {}),
+              },
+              credentials: 'include',
+              signal: controller.signal,
+            }
+          );
+
+          if (!response.ok || !response.body) {
+            throw new Error(`Progress stream failed with status ${response.status}`);
+          }
+
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          let buffer = '';
+
+          for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer = parseFrames(buffer + decoder.decode(value, { stream: true }), handleFrame);
+          }
+
+          setError(null);
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          log.warn('report progress stream error', { reportId, error: err });
+          setError(err instanceof Error ? err.message : 'Progress stream failed');
+        }
+
+        if (!ended && !controller.signal.aborted) {
+          await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+        }
+      }
+    };
+
+    stream().finally(() => {
+      if (!controller.signal.aborted) {
+        setIsStreaming(false);
+      }
+    });
+
+    return () => {
+      controller.abort();
+      setIsStreaming(false);
+    };
+    // Note: getToken is intentionally left out of deps - a new function identity
+    // must not tear down an open stream, and it still fetches a fresh token per connect
+  }, [clientId, reportId, queryClient]);
+
+  return {
+    phases: REPORT_PHASES.map((phase) => phases[phase]),
+    status,
+    isStreaming,
+    error,
+  };
+}
@@ -0,0 +1,75 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useApiClient } from '@/lib/api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ReportScheduleFrequency = 'weekly' | 'monthly';
+
+export interface ReportSchedule {
+  id: string;
+  clientAccountId: string;
+  frequency: ReportScheduleFrequency;
+  dayOfWeek: number;
+  dayOfMonth: number;
+  dateRangeDays: number;
+  isEnabled: boolean;
+  lastRunAt: string | null;
+  lastReportId: string | null;
+  lastSkippedAt: string | null;
+  lastSkipReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReportScheduleInput {
+  frequency: ReportScheduleFrequency;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  dateRangeDays?: number;
+  isEnabled?: boolean;
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * Fetch the automatic report schedule for a client
+ */
+export function useReportSchedule(clientId: string) {
+  const apiClient = useApiClient();
+
+  return useQuery<ReportSchedule | null>({
+    queryKey: ['client', clientId, 'report-schedule'],
+    queryFn: async () => {
+      const { data } = await apiClient.get<{ schedule: ReportSchedule | null }>(
+        `/api/clients/${clientId}/report-schedule`
+      );
+      return data.schedule;
+    },
+    enabled: !!clientId,
+  });
+}
+
+/**
+ * Create or update the automatic report schedule for a client
+ */
+export function useSaveReportSchedule(clientId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<ReportSchedule, Error, ReportScheduleInput>({
+    mutationFn: async (input) => {
+      const { data } = await apiClient.put<{ schedule: ReportSchedule }>(
+        `/api/clients/${clientId}/report-schedule`,
+        input
+      );
+      return data.schedule;
+    },
+    onSuccess: (schedule) => {
+      queryClient.setQueryData(['client', clientId, 'report-schedule'], schedule);
+    },
+  });
+}
@@ -0,0 +1,94 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient as publicApiClient, useApiClient } from '@/lib/api';
+import type { ReportShareLink, SharedReportResponse } from '@advergent/shared';
+
+export type { ReportShareLink, SharedReportResponse } from '@advergent/shared';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CreateReportShareInput {
+  expiresInDays: number;
+  password?: string;
+}
+
+export interface CreatedReportShare {
+  share: ReportShareLink;
+  /** Public URL, returned only once at creation */
+  url: string;
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * Share links created for a report, newest first
+ */
+export function useReportShares(clientId: string, reportId: string) {
+  const apiClient = useApiClient();
+
+  return useQuery<ReportShareLink[]>({
+    queryKey: ['report-shares', clientId, reportId],
+    queryFn: async () => {
+      const { data } = await apiClient.get<{ shares: ReportShareLink[] }>(
+        `/api/clients/${clientId}/interplay-report/${reportId}/shares`
+      );
+      return data.shares;
+    },
+    enabled: !!clientId && !!reportId,
+  });
+}
+
+export function useCreateReportShare(clientId: string, reportId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<CreatedReportShare, Error, CreateReportShareInput>({
+    mutationFn: async (input) => {
+      const { data } = await apiClient.post<CreatedReportShare>(
+        `/api/clients/${clientId}/interplay-report/${reportId}/shares`,
+        input
+      );
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report-shares', clientId, reportId] });
+    },
+  });
+}
+
+export function useRevokeReportShare(clientId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: async (shareId) => {
+      await apiClient.delete(`/api/clients/${clientId}/report-shares/${shareId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report-shares', clientId] });
+    },
+  });
+}
+
+/**
+ * Load a report through a public share link, without a Clerk session.
+ * Every successful fetch counts as a view, so it is never refetched in the background.
+ */
+export function useSharedReport(token: string, password?: string) {
+  return useQuery<SharedReportResponse>({
+    queryKey: ['shared-report', token, password],
+    queryFn: async () => {
+      const { data } = await publicApiClient.post<SharedReportResponse>(`/api/shared-reports/${token}`, {
+        password,
+      });
+      return data;
+    },
+    enabled: !!token,
+    retry: false,
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+}
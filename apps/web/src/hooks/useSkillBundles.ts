@@ -0,0 +1,178 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useApiClient } from '@/lib/api';
+import type { BusinessType } from '@/components/clients/BusinessTypeSelector';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SkillBundleOverrides = Record<string, unknown>;
+
+export interface SkillBundle {
+  id: string;
+  agencyId: string;
+  name: string;
+  description: string | null;
+  baseBusinessType: BusinessType;
+  currentVersion: number;
+  isArchived: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  clientCount: number;
+}
+
+export interface SkillBundleDetail extends SkillBundle {
+  overrides: SkillBundleOverrides;
+  changeNote: string | null;
+  resolved: Record<string, unknown>;
+}
+
+export interface SkillBundleVersion {
+  version: number;
+  overrides: SkillBundleOverrides;
+  changeNote: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface SkillValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface CreateSkillBundleInput {
+  name: string;
+  description?: string;
+  baseBusinessType?: BusinessType;
+  cloneFromId?: string;
+  overrides?: SkillBundleOverrides;
+}
+
+export interface UpdateSkillBundleInput {
+  name?: string;
+  description?: string | null;
+  overrides?: SkillBundleOverrides;
+  changeNote?: string;
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * List the agency's custom skill bundles
+ */
+export function useSkillBundles(includeArchived: boolean = false) {
+  const apiClient = useApiClient();
+
+  return useQuery<SkillBundle[]>({
+    queryKey: ['skill-bundles', { includeArchived }],
+    queryFn: async () => {
+      const { data } = await apiClient.get<{ bundles: SkillBundle[] }>('/api/skill-bundles', {
+        params: { includeArchived: includeArchived ? 'true' : undefined },
+      });
+      return data.bundles;
+    },
+  });
+}
+
+/**
+ * Fetch a custom skill bundle with its current overrides
+ */
+export function useSkillBundle(bundleId: string | null) {
+  const apiClient = useApiClient();
+
+  return useQuery<SkillBundleDetail>({
+    queryKey: ['skill-bundles', bundleId],
+    queryFn: async () => {
+      const { data } = await apiClient.get<{ bundle: SkillBundleDetail }>(`/api/skill-bundles/${bundleId}`);
+      return data.bundle;
+    },
+    enabled: !!bundleId,
+  });
+}
+
+/**
+ * Fetch the version history of a custom skill bundle
+ */
+export function useSkillBundleVersions(bundleId: string | null) {
+  const apiClient = useApiClient();
+
+  return useQuery<SkillBundleVersion[]>({
+    queryKey: ['skill-bundles', bundleId, 'versions'],
+    queryFn: async () => {
+      const { data } = await apiClient.get<{ versions: SkillBundleVersion[] }>(
+        `/api/skill-bundles/${bundleId}/versions`
+      );
+      return data.versions;
+    },
+    enabled: !!bundleId,
+  });
+}
+
+/**
+ * Fetch a built-in skill bundle, for reference while editing overrides
+ */
+export function useBaseSkillBundle(businessType: BusinessType | undefined) {
+  const apiClient = useApiClient();
+
+  return useQuery<Record<string, unknown>>({
+    queryKey: ['skill-bundles', 'base', businessType],
+    queryFn: async () => {
+      const { data } = await apiClient.get<{ bundle: Record<string, unknown> }>(
+        `/api/skill-bundles/base/${businessType}`
+      );
+      return data.bundle;
+    },
+    enabled: !!businessType,
+    staleTime: Infinity,
+  });
+}
+
+export function useCreateSkillBundle() {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<SkillBundleDetail, Error, CreateSkillBundleInput>({
+    mutationFn: async (input) => {
+      const { data } = await apiClient.post<{ bundle: SkillBundleDetail }>('/api/skill-bundles', input);
+      return data.bundle;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['skill-bundles'] });
+    },
+  });
+}
+
+export function useUpdateSkillBundle(bundleId: string) {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<SkillBundleDetail, Error, UpdateSkillBundleInput>({
+    mutationFn: async (input) => {
+      const { data } = await apiClient.patch<{ bundle: SkillBundleDetail }>(
+        `/api/skill-bundles/${bundleId}`,
+        input
+      );
+      return data.bundle;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['skill-bundles'] });
+    },
+  });
+}
+
+export function useArchiveSkillBundle() {
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: async (bundleId) => {
+      await apiClient.delete(`/api/skill-bundles/${bundleId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['skill-bundles'] });
+    },
+  });
+}
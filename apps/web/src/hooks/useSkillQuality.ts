@@ -0,0 +1,135 @@
+import { useQuery } from '@tanstack/react-query';
+import { useApiClient } from '@/lib/api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SkillQualityInterval = 'day' | 'week';
+
+export interface SkillQualityFilters {
+  businessType?: string;
+  skillVersion?: string;
+  days: number;
+  interval: SkillQualityInterval;
+}
+
+export interface SkillQualityFilterOptions {
+  businessTypes: string[];
+  skillVersions: Array<{ skillVersion: string; businessType: string; reportCount: number }>;
+}
+
+export interface ViolationTrends {
+  periods: Array<{ period: string; reportCount: number; violations: Record<string, number> }>;
+  constraints: Array<{ constraintId: string; total: number; perReport: number }>;
+  reportCount: number;
+}
+
+export interface InvalidMetricLeaks {
+  businessTypes: Array<{
+    businessType: string;
+    reportCount: number;
+    reportsWithLeaks: number;
+    leakRate: number;
+    metrics: Record<string, number>;
+  }>;
+}
+
+export interface TokenBudgetPeriod {
+  period: string;
+  reportCount: number;
+  truncatedReports: number;
+  reportsWithDroppedKeywords: number;
+  keywordsDropped: number;
+  pagesDropped: number;
+}
+
+export interface TokenBudgetStats {
+  periods: TokenBudgetPeriod[];
+  totals: TokenBudgetPeriod & {
+    truncationRate: number | null;
+    droppedKeywordRate: number | null;
+  };
+}
+
+export interface PhaseLatency {
+  phase: string;
+  samples: number;
+  avgMs: number | null;
+  p50Ms: number | null;
+  p90Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+function toParams(filters: SkillQualityFilters) {
+  return {
+    days: filters.days,
+    interval: filters.interval,
+    ...(filters.businessType && { businessType: filters.businessType }),
+    ...(filters.skillVersion && { skillVersion: filters.skillVersion }),
+  };
+}
+
+function useSkillQualityQuery<T>(path: string, filters: SkillQualityFilters) {
+  const apiClient = useApiClient();
+
+  return useQuery<T>({
+    queryKey: ['skill-quality', path, filters],
+    queryFn: async () => {
+      const { data } = await apiClient.get<T>(`/api/admin/skill-quality/${path}`, {
+        params: toParams(filters),
+      });
+      return data;
+    },
+    retry: false,
+  });
+}
+
+/**
+ * Fetch the business types and skill versions available to filter on
+ */
+export function useSkillQualityFilterOptions() {
+  const apiClient = useApiClient();
+
+  return useQuery<SkillQualityFilterOptions>({
+    queryKey: ['skill-quality', 'filters'],
+    queryFn: async () => {
+      const { data } = await apiClient.get<SkillQualityFilterOptions>('/api/admin/skill-quality/filters');
+      return data;
+    },
+    retry: false,
+  });
+}
+
+/**
+ * Fetch constraint violations by constraint ID over time
+ */
+export function useViolationTrends(filters: SkillQualityFilters) {
+  return useSkillQualityQuery<ViolationTrends>('violations', filters);
+}
+
+/**
+ * Fetch invalid metric leak rates per business type
+ */
+export function useInvalidMetricLeaks(filters: SkillQualityFilters) {
+  return useSkillQualityQuery<InvalidMetricLeaks>('leaks', filters);
+}
+
+/**
+ * Fetch truncation and dropped keyword frequency
+ */
+export function useTokenBudgetStats(filters: SkillQualityFilters) {
+  return useSkillQualityQuery<TokenBudgetStats>('token-budget', filters);
+}
+
+/**
+ * Fetch latency percentiles per report pipeline phase
+ */
+export function usePhaseLatency(filters: SkillQualityFilters) {
+  return useSkillQualityQuery<{ phases: PhaseLatency[] }>('latency', filters);
+}
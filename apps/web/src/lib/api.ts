@@ -3,7 +3,7 @@ import { useAuth } from '@clerk/clerk-react';
 import { useMemo, useState, useEffect } from 'react';
 import { log } from '@/lib/logger';
 
-const apiBaseUrl = import.meta.env.VITE_API_URL || '/api';
+export const apiBaseUrl = import.meta.env.VITE_API_URL || '/api';
 
 // Base axios instance without auth
 export const apiClient = axios.create({
@@ -38,6 +38,13 @@ export class AuthenticationError extends Error {
   }
 }
 
+/**
+ * Whether a request failed because the user lacks the permission for it
+ */
+export function isForbiddenError(error: unknown): boolean {
+  return axios.isAxiosError(error) && error.response?.status === 403;
+}
+
 /**
  * Hook to get API client with Clerk authentication
  * This creates an axios instance with automatic Clerk token injection
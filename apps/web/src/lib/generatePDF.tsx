@@ -1,27 +1,28 @@
 import { pdf } from '@react-pdf/renderer';
-import { InterplayReportPDF } from '@/components/clients/reports/pdf/InterplayReportPDF';
-import type { InterplayReportResponse } from '@advergent/shared';
+import { InterplayReportPDF } from '@advergent/report-pdf';
+import type { InterplayReportResponse, ReportBranding } from '@advergent/shared';
 
 interface GeneratePDFOptions {
   clientName: string;
   report: InterplayReportResponse;
+  branding?: ReportBranding;
 }
 
 /**
  * Generates a PDF blob for the Interplay Report
  */
 export async function generateInterplayReportPDF(options: GeneratePDFOptions): Promise<Blob> {
-  const { clientName, report } = options;
+  const { clientName, report, branding } = options;
 
   const blob = await pdf(
-    <InterplayReportPDF clientName={clientName} report={report} />
+    <InterplayReportPDF clientName={clientName} report={report} branding={branding} />
   ).toBlob();
 
   return blob;
 }
 
 /**
- * Downloads a PDF file to the user's device
+ * Downloads a file (PDF, CSV, XLSX) to the user's device
  */
 export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
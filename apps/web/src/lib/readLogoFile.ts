@@ -0,0 +1,24 @@
+/** Matches the API's limit of roughly 512 KB per logo */
+export const MAX_LOGO_BYTES = 512 * 1024;
+
+export const LOGO_MIME_TYPES = ['image/png', 'image/jpeg'];
+
+/**
+ * Read an uploaded logo into a data URL the API stores and the PDF renderer
+ * embeds. Rejects formats the renderer can't draw and oversized files.
+ */
+export function readLogoFile(file: File): Promise<string> {
+  if (!LOGO_MIME_TYPES.includes(file.type)) {
+    return Promise.reject(new Error('Logo must be a PNG or JPEG image'));
+  }
+  if (file.size > MAX_LOGO_BYTES) {
+    return Promise.reject(new Error('Logo must be smaller than 512 KB'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read logo file'));
+    reader.readAsDataURL(file);
+  });
+}
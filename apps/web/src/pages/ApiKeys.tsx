@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Copy, KeyRound, Plus } from 'lucide-react';
+import {
+  useApiKeys,
+  useCreateApiKey,
+  useRevokeApiKey,
+  type ApiKey,
+  type ApiKeyScope,
+} from '@/hooks/useApiKeys';
+import { isForbiddenError } from '@/lib/api';
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'read:reports': 'Read clients, interplay reports and recommendations',
+  'write:recommendations': 'Approve, reject and update recommendation status',
+  'trigger:sync': 'Start client data syncs',
+};
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function CreateApiKeyForm({ scopes }: { scopes: ApiKeyScope[] }) {
+  const createApiKey = useCreateApiKey();
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<ApiKeyScope[]>(['read:reports']);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setSelectedScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || selectedScopes.length === 0) return;
+    setError(null);
+    setCopied(false);
+
+    createApiKey.mutate(
+      { name: name.trim(), scopes: selectedScopes },
+      {
+        onSuccess: (result) => {
+          setName('');
+          setCreatedKey(result.key);
+        },
+        onError: (err: any) => setError(err?.response?.data?.error || 'Failed to create API key'),
+      }
+    );
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    setCopied(true);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="api-key-name">Name</Label>
+        <Input
+          id="api-key-name"
+          placeholder="e.g. Reporting warehouse"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Scopes</Label>
+        {scopes.map((scope) => (
+          <label key={scope} className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={selectedScopes.includes(scope)}
+              onChange={() => toggleScope(scope)}
+            />
+            <span>
+              <code className="text-xs">{scope}</code>
+              <span className="block text-xs text-slate-500">{SCOPE_DESCRIPTIONS[scope]}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {createdKey && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="space-y-2 text-green-800">
+            <p>Copy this key now. It will not be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="break-all rounded bg-white px-2 py-1 text-xs text-slate-900">{createdKey}</code>
+              <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+                <Copy className="w-4 h-4 mr-1" />
+                {copied ? 'Copied' : 'Copy'}
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Button type="submit" disabled={createApiKey.isPending || !name.trim() || selectedScopes.length === 0}>
+        <Plus className="w-4 h-4 mr-2" />
+        Create Key
+      </Button>
+    </form>
+  );
+}
+
+function ApiKeyRow({ apiKey }: { apiKey: ApiKey }) {
+  const revokeApiKey = useRevokeApiKey();
+
+  const handleRevoke = () => {
+    if (!confirm(`Revoke "${apiKey.name}"? Integrations using it will stop working immediately.`)) {
+      return;
+    }
+    revokeApiKey.mutate(apiKey.id);
+  };
+
+  return (
+    <tr className="border-b last:border-0">
+      <td className="py-3 pr-4">
+        <div className="font-medium text-slate-900">{apiKey.name}</div>
+        <code className="text-xs text-slate-500">{apiKey.keyPrefix}…</code>
+      </td>
+      <td className="py-3 pr-4">
+        <div className="flex flex-wrap gap-1">
+          {apiKey.scopes.map((scope) => (
+            <Badge key={scope} variant="secondary">{scope}</Badge>
+          ))}
+        </div>
+      </td>
+      <td className="py-3 pr-4 text-slate-600">{formatDate(apiKey.createdAt)}</td>
+      <td className="py-3 pr-4 text-slate-600">{apiKey.lastUsedAt ? formatDate(apiKey.lastUsedAt) : 'Never'}</td>
+      <td className="py-3 text-right">
+        {apiKey.revokedAt ? (
+          <Badge variant="destructive">Revoked</Badge>
+        ) : (
+          <Button variant="outline" size="sm" onClick={handleRevoke} disabled={revokeApiKey.isPending}>
+            Revoke
+          </Button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export default function ApiKeys() {
+  const { data, isLoading, error } = useApiKeys();
+
+  if (isForbiddenError(error)) {
+    return (
+      <main className="p-10">
+        <h1 className="text-3xl font-bold text-slate-900 mb-8">API Keys</h1>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Your role does not have permission to manage API keys.</AlertDescription>
+        </Alert>
+      </main>
+    );
+  }
+
+  return (
+    <main className="p-10">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900">API Keys</h1>
+        <p className="mt-2 text-slate-600">
+          Let scripts and integrations call the Advergent API without a user session
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Failed to load API keys</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              New Key
+            </CardTitle>
+            <CardDescription>
+              Send the key in an <code>X-API-Key</code> header. Requests act as the user who created the key.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CreateApiKeyForm scopes={data?.scopes ?? []} />
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Keys</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            ) : !data || data.apiKeys.length === 0 ? (
+              <p className="text-sm text-slate-500">No API keys yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs uppercase text-slate-500">
+                    <th className="pb-2 pr-4 font-medium">Key</th>
+                    <th className="pb-2 pr-4 font-medium">Scopes</th>
+                    <th className="pb-2 pr-4 font-medium">Created</th>
+                    <th className="pb-2 pr-4 font-medium">Last used</th>
+                    <th className="pb-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.apiKeys.map((apiKey) => (
+                    <ApiKeyRow key={apiKey.id} apiKey={apiKey} />
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
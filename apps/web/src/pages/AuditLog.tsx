@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle } from 'lucide-react';
+import { useAuditEvents, useAuditFilters, type AuditChanges, type AuditEvent } from '@/hooks/useAuditEvents';
+import { useDashboardClients } from '@/hooks/useDashboard';
+import { isForbiddenError } from '@/lib/api';
+
+const PAGE_SIZE = 50;
+
+const ENTITY_TYPE_LABELS: Record<string, string> = {
+  client: 'Client',
+  google_connection: 'Google connection',
+  recommendation: 'Recommendation',
+  mutation: 'Google Ads change',
+  report: 'Report',
+  report_schedule: 'Report schedule',
+  report_share: 'Report share link',
+  distribution_list: 'Distribution list',
+  csv_upload: 'CSV upload',
+};
+
+const selectClassName = 'border border-slate-300 rounded-md px-3 py-2 text-sm w-full';
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function ChangesList({ changes }: { changes: AuditChanges | null }) {
+  if (!changes) {
+    return <span className="text-slate-400">—</span>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {Object.entries(changes).map(([field, { before, after }]) => (
+        <li key={field} className="text-xs">
+          <code className="text-slate-700">{field}</code>:{' '}
+          <span className="text-red-700 line-through">{formatValue(before)}</span>{' '}
+          → <span className="text-green-700">{formatValue(after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function AuditEventRow({ event, clientNames }: { event: AuditEvent; clientNames: Map<string, string> }) {
+  const clientName = event.clientAccountId ? clientNames.get(event.clientAccountId) : null;
+
+  return (
+    <tr className="border-b last:border-0 align-top">
+      <td className="py-3 pr-4 whitespace-nowrap text-slate-600">{new Date(event.createdAt).toLocaleString()}</td>
+      <td className="py-3 pr-4">
+        <div className="text-slate-900">{event.actorName ?? 'Unknown user'}</div>
+        <div className="text-xs text-slate-500">{event.actorEmail}</div>
+        {event.apiKeyId && <Badge variant="secondary" className="mt-1">API key</Badge>}
+      </td>
+      <td className="py-3 pr-4">
+        <code className="text-xs">{event.action}</code>
+      </td>
+      <td className="py-3 pr-4">
+        <div className="text-slate-900">{ENTITY_TYPE_LABELS[event.entityType] ?? event.entityType}</div>
+        {event.entityId && <div className="text-xs text-slate-500 break-all">{event.entityId}</div>}
+        {event.clientAccountId && (
+          <Link to={`/clients/${event.clientAccountId}`} className="text-xs text-blue-600 hover:underline">
+            {clientName ?? 'Deleted client'}
+          </Link>
+        )}
+      </td>
+      <td className="py-3 pr-4 max-w-md">
+        <ChangesList changes={event.changes} />
+      </td>
+      <td className="py-3 text-xs text-slate-500">
+        <div>
+          {formatValue(event.metadata.method)} {formatValue(event.metadata.path)}
+        </div>
+        <div>{formatValue(event.metadata.ip)}</div>
+      </td>
+    </tr>
+  );
+}
+
+export default function AuditLog() {
+  const [action, setAction] = useState('');
+  const [actorUserId, setActorUserId] = useState('');
+  const [entityType, setEntityType] = useState('');
+  const [clientAccountId, setClientAccountId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [offset, setOffset] = useState(0);
+
+  const { data, isLoading, isFetching, error } = useAuditEvents({
+    action,
+    actorUserId,
+    entityType,
+    clientAccountId,
+    // Date inputs are whole days; make the range inclusive of the end date
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+    limit: PAGE_SIZE,
+    offset,
+  });
+  const { data: filterOptions } = useAuditFilters();
+  const { data: clientsData } = useDashboardClients();
+
+  const clientNames = new Map((clientsData?.clients ?? []).map((client) => [client.id, client.name]));
+
+  // Any filter change starts again from the first page
+  const withReset = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setOffset(0);
+  };
+
+  if (isForbiddenError(error)) {
+    return (
+      <main className="p-10">
+        <h1 className="text-3xl font-bold text-slate-900 mb-8">Audit Log</h1>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>You do not have permission to view the audit log.</AlertDescription>
+        </Alert>
+      </main>
+    );
+  }
+
+  const total = data?.total ?? 0;
+  const events = data?.events ?? [];
+
+  return (
+    <main className="p-10">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900">Audit Log</h1>
+        <p className="mt-2 text-slate-600">Who changed what across your agency, and when</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Failed to load the audit log</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="audit-action">Action</Label>
+              <select
+                id="audit-action"
+                className={selectClassName}
+                value={action}
+                onChange={(e) => withReset(setAction)(e.target.value)}
+              >
+                <option value="">All actions</option>
+                {filterOptions?.actions.map((a) => (
+                  <option key={a} value={a}>{a}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-actor">User</Label>
+              <select
+                id="audit-actor"
+                className={selectClassName}
+                value={actorUserId}
+                onChange={(e) => withReset(setActorUserId)(e.target.value)}
+              >
+                <option value="">All users</option>
+                {filterOptions?.actors.map((actor) => (
+                  <option key={actor.id} value={actor.id}>{actor.name ?? actor.email ?? actor.id}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-entity-type">Entity</Label>
+              <select
+                id="audit-entity-type"
+                className={selectClassName}
+                value={entityType}
+                onChange={(e) => withReset(setEntityType)(e.target.value)}
+              >
+                <option value="">All entities</option>
+                {Object.entries(ENTITY_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-client">Client</Label>
+              <select
+                id="audit-client"
+                className={selectClassName}
+                value={clientAccountId}
+                onChange={(e) => withReset(setClientAccountId)(e.target.value)}
+              >
+                <option value="">All clients</option>
+                {clientsData?.clients.map((client) => (
+                  <option key={client.id} value={client.id}>{client.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={from} onChange={(e) => withReset(setFrom)(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={to} onChange={(e) => withReset(setTo)(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Events</CardTitle>
+          <CardDescription>
+            {total === 0 ? 'No matching events' : `Showing ${offset + 1}–${offset + events.length} of ${total}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3, 4].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-slate-500">No audit events match these filters.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs uppercase text-slate-500">
+                    <th className="pb-2 pr-4 font-medium">Time</th>
+                    <th className="pb-2 pr-4 font-medium">User</th>
+                    <th className="pb-2 pr-4 font-medium">Action</th>
+                    <th className="pb-2 pr-4 font-medium">Entity</th>
+                    <th className="pb-2 pr-4 font-medium">Changes</th>
+                    <th className="pb-2 font-medium">Request</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {events.map((event) => (
+                    <AuditEventRow key={event.id} event={event} clientNames={clientNames} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              disabled={offset === 0 || isFetching}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            >
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              disabled={offset + PAGE_SIZE >= total || isFetching}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              Next
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
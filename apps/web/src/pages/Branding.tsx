@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Loader2, Trash2, Upload } from 'lucide-react';
+import { useBranding, useUpdateBranding, type UpdateBrandingInput } from '@/hooks/useBranding';
+import { readLogoFile } from '@/lib/readLogoFile';
+import { isForbiddenError } from '@/lib/api';
+
+type BrandingForm = Required<UpdateBrandingInput>;
+
+const EMPTY_FORM: BrandingForm = {
+  companyName: null,
+  logoDataUrl: null,
+  primaryColor: null,
+  accentColor: null,
+  footerText: null,
+  coverPageEnabled: false,
+  coverTitle: null,
+  coverSubtitle: null,
+};
+
+export default function Branding() {
+  const { data, isLoading, error } = useBranding();
+  const updateBranding = useUpdateBranding();
+  const [form, setForm] = useState<BrandingForm>(EMPTY_FORM);
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+
+  useEffect(() => {
+    if (data) {
+      const { updatedAt: _updatedAt, ...settings } = data.branding;
+      setForm(settings);
+    }
+  }, [data]);
+
+  const update = (changes: Partial<BrandingForm>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+    setSaveSuccess(false);
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setLogoError(null);
+    try {
+      update({ logoDataUrl: await readLogoFile(file) });
+    } catch (err) {
+      setLogoError((err as Error).message);
+    }
+  };
+
+  const handleSave = () => {
+    updateBranding.mutate(form, {
+      onSuccess: () => {
+        setSaveSuccess(true);
+        setTimeout(() => setSaveSuccess(false), 3000);
+      },
+    });
+  };
+
+  if (isForbiddenError(error)) {
+    return (
+      <main className="p-10">
+        <h1 className="text-3xl font-bold text-slate-900 mb-8">Report Branding</h1>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Your role does not have permission to manage report branding.</AlertDescription>
+        </Alert>
+      </main>
+    );
+  }
+
+  const defaults = data?.defaults;
+
+  return (
+    <main className="p-10">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900">Report Branding</h1>
+        <p className="mt-2 text-slate-600">
+          Logo, colours and cover page used on every client's PDF report
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Failed to load branding</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Skeleton className="h-96 w-full max-w-3xl" />
+      ) : (
+        <div className="max-w-3xl space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Identity</CardTitle>
+              <CardDescription>Shown in the report header. The logo replaces the company name when set.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="branding-company-name">Company name</Label>
+                <Input
+                  id="branding-company-name"
+                  placeholder={defaults?.companyName}
+                  value={form.companyName ?? ''}
+                  onChange={(e) => update({ companyName: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Logo</Label>
+                <div className="flex items-center gap-4">
+                  {form.logoDataUrl ? (
+                    <img src={form.logoDataUrl} alt="Agency logo" className="h-12 max-w-[200px] object-contain" />
+                  ) : (
+                    <span className="text-sm text-slate-500">No logo uploaded</span>
+                  )}
+                  <label className="inline-flex cursor-pointer items-center gap-2 rounded-md border border-slate-300 px-3 py-2 text-sm hover:bg-slate-50">
+                    <Upload className="h-4 w-4" />
+                    Upload
+                    <input type="file" accept="image/png,image/jpeg" className="hidden" onChange={handleLogoChange} />
+                  </label>
+                  {form.logoDataUrl && (
+                    <Button variant="outline" size="sm" onClick={() => update({ logoDataUrl: null })}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-slate-500">PNG or JPEG, up to 512 KB.</p>
+                {logoError && <p className="text-sm text-red-600">{logoError}</p>}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="branding-primary-color">Primary colour</Label>
+                  <input
+                    id="branding-primary-color"
+                    type="color"
+                    className="h-10 w-20 cursor-pointer rounded border border-slate-300"
+                    value={form.primaryColor ?? defaults?.primaryColor ?? '#000000'}
+                    onChange={(e) => update({ primaryColor: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="branding-accent-color">Accent colour</Label>
+                  <input
+                    id="branding-accent-color"
+                    type="color"
+                    className="h-10 w-20 cursor-pointer rounded border border-slate-300"
+                    value={form.accentColor ?? defaults?.accentColor ?? '#000000'}
+                    onChange={(e) => update({ accentColor: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="branding-footer-text">Footer text</Label>
+                <Input
+                  id="branding-footer-text"
+                  placeholder={defaults ? `Powered by ${form.companyName || defaults.companyName}` : undefined}
+                  value={form.footerText ?? ''}
+                  onChange={(e) => update({ footerText: e.target.value })}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Cover Page</CardTitle>
+              <CardDescription>
+                An optional first page with your logo, the client's logo and the reporting period.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.coverPageEnabled}
+                  onChange={(e) => update({ coverPageEnabled: e.target.checked })}
+                />
+                Include a cover page
+              </label>
+              <div className="space-y-2">
+                <Label htmlFor="branding-cover-title">Title</Label>
+                <Input
+                  id="branding-cover-title"
+                  placeholder="SEO/SEM Interplay Report"
+                  value={form.coverTitle ?? ''}
+                  onChange={(e) => update({ coverTitle: e.target.value })}
+                  disabled={!form.coverPageEnabled}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="branding-cover-subtitle">Subtitle</Label>
+                <Input
+                  id="branding-cover-subtitle"
+                  value={form.coverSubtitle ?? ''}
+                  onChange={(e) => update({ coverSubtitle: e.target.value })}
+                  disabled={!form.coverPageEnabled}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          {updateBranding.isError && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {(updateBranding.error as any)?.response?.data?.error || 'Failed to save branding. Please try again.'}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {saveSuccess && (
+            <Alert className="border-green-200 bg-green-50">
+              <AlertDescription className="text-green-800">Branding saved.</AlertDescription>
+            </Alert>
+          )}
+
+          <Button onClick={handleSave} disabled={updateBranding.isPending}>
+            {updateBranding.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Branding'
+            )}
+          </Button>
+        </div>
+      )}
+    </main>
+  );
+}
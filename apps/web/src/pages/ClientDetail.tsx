@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useParams, Link, useSearchParams } from 'react-router-dom';
 import { useClientDetail, useRunAnalysis, useUpdateRecommendationStatus, useSyncClientData } from '@/hooks/useClientDetail';
+import { usePermissions } from '@/hooks/usePermissions';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -13,9 +14,15 @@ import { GA4MetricsTable } from '@/components/clients/GA4MetricsTable';
 import { AnalysisRunForm } from '@/components/clients/AnalysisRunForm';
 import { GA4LandingPageTable } from '@/components/clients/GA4LandingPageTable';
 import { FullAnalysisModal } from '@/components/clients/FullAnalysisModal';
-import { ArrowLeft, RefreshCw, FileText, Settings } from 'lucide-react';
+import { ArrowLeft, RefreshCw, FileText, Settings, Users } from 'lucide-react';
 import { ReportsTab } from '@/components/clients/ReportsTab';
-import { ClientSettings } from '@/components/clients/settings';
+import {
+  ClientSettings,
+  ReportScheduleSettings,
+  ClientAssignmentsSettings,
+  ClientLogoSettings,
+  DistributionListsSettings,
+} from '@/components/clients/settings';
 import type { BusinessType } from '@/components/clients/BusinessTypeSelector';
 
 type TabType = 'overview' | 'recommendations' | 'query-data' | 'search-console' | 'ga4' | 'analysis' | 'reports' | 'settings';
@@ -71,6 +78,7 @@ export default function ClientDetail() {
   const runAnalysis = useRunAnalysis(clientId);
   const updateStatus = useUpdateRecommendationStatus(clientId);
   const syncData = useSyncClientData(clientId);
+  const { can } = usePermissions();
 
   if (isLoading) {
     return (
@@ -121,37 +129,47 @@ export default function ClientDetail() {
             </p>
           </div>
           <div className="flex gap-3">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => {
-                syncData.mutate(undefined, {
-                  onSuccess: () => {
-                    // After sync job is queued, refetch the data
-                    setTimeout(() => {
-                      refetch.client();
-                      refetch.searchConsoleData();
-                      refetch.googleAdsData();
-                      refetch.ga4Data();
-                      refetch.queryOverlaps();
-                      refetch.recommendations();
-                    }, 2000); // Wait 2 seconds for job to process
-                  },
-                });
-              }}
-              disabled={syncData.isPending}
-            >
-              <RefreshCw className={`h-4 w-4 mr-2 ${syncData.isPending ? 'animate-spin' : ''}`} />
-              {syncData.isPending ? 'Syncing...' : 'Refresh Data'}
-            </Button>
-            <Button
-              variant="default"
-              size="sm"
-              onClick={() => setIsAnalysisModalOpen(true)}
-              disabled={runAnalysis.isPending}
-            >
-              {runAnalysis.isPending ? 'Analyzing...' : 'Run AI Analysis'}
+            <Button variant="outline" size="sm" asChild>
+              <Link to={`/clients/${clientId}/competitors`}>
+                <Users className="h-4 w-4 mr-2" />
+                Competitors
+              </Link>
             </Button>
+            {can('clients:sync') && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  syncData.mutate(undefined, {
+                    onSuccess: () => {
+                      // After sync job is queued, refetch the data
+                      setTimeout(() => {
+                        refetch.client();
+                        refetch.searchConsoleData();
+                        refetch.googleAdsData();
+                        refetch.ga4Data();
+                        refetch.queryOverlaps();
+                        refetch.recommendations();
+                      }, 2000); // Wait 2 seconds for job to process
+                    },
+                  });
+                }}
+                disabled={syncData.isPending}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${syncData.isPending ? 'animate-spin' : ''}`} />
+                {syncData.isPending ? 'Syncing...' : 'Refresh Data'}
+              </Button>
+            )}
+            {can('reports:generate') && (
+              <Button
+                variant="default"
+                size="sm"
+                onClick={() => setIsAnalysisModalOpen(true)}
+                disabled={runAnalysis.isPending}
+              >
+                {runAnalysis.isPending ? 'Analyzing...' : 'Run AI Analysis'}
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -278,6 +296,7 @@ export default function ClientDetail() {
               {recommendations?.recommendations.map((rec) => (
                 <RecommendationCard
                   key={rec.id}
+                  clientId={clientId!}
                   recommendation={rec}
                   onApprove={(id) => updateStatus.mutate({ recommendationId: id, status: 'approved' })}
                   onReject={(id) => updateStatus.mutate({ recommendationId: id, status: 'rejected' })}
@@ -409,15 +428,17 @@ export default function ClientDetail() {
         {/* Analysis Tab - Simple AI Analysis button */}
         {activeTab === 'analysis' && (
           <div className="space-y-6">
-            <AnalysisRunForm
-              clientId={clientId}
-              onAnalysisComplete={(results) => {
-                console.log('Analysis complete:', results);
-                refetch.recommendations();
-              }}
-              isRunning={runAnalysis.isPending}
-              onRun={(config) => runAnalysis.mutate(config)}
-            />
+            {can('reports:generate') && (
+              <AnalysisRunForm
+                clientId={clientId}
+                onAnalysisComplete={(results) => {
+                  console.log('Analysis complete:', results);
+                  refetch.recommendations();
+                }}
+                isRunning={runAnalysis.isPending}
+                onRun={(config) => runAnalysis.mutate(config)}
+              />
+            )}
           </div>
         )}
 
@@ -429,23 +450,54 @@ export default function ClientDetail() {
         {/* Settings Tab */}
         {activeTab === 'settings' && client && (
           <div className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Client Settings</CardTitle>
-                <CardDescription>
-                  Configure settings for {client.name}
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <ClientSettings
-                  clientId={clientId}
-                  currentBusinessType={(client.businessType as BusinessType) || 'ecommerce'}
-                  onUpdate={() => {
-                    refetch.client();
-                  }}
-                />
-              </CardContent>
-            </Card>
+            {can('clients:update') && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Client Settings</CardTitle>
+                  <CardDescription>
+                    Configure settings for {client.name}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ClientSettings
+                    clientId={clientId}
+                    currentBusinessType={(client.businessType as BusinessType) || 'ecommerce'}
+                    currentCustomSkillBundleId={client.customSkillBundleId}
+                    onUpdate={() => {
+                      refetch.client();
+                    }}
+                  />
+                </CardContent>
+              </Card>
+            )}
+            {can('clients:update') && (
+              <Card>
+                <CardContent className="pt-6">
+                  <ClientLogoSettings clientId={clientId} />
+                </CardContent>
+              </Card>
+            )}
+            {can('reports:schedule') && (
+              <Card>
+                <CardContent className="pt-6">
+                  <ReportScheduleSettings clientId={clientId} />
+                </CardContent>
+              </Card>
+            )}
+            {can('reports:schedule') && (
+              <Card>
+                <CardContent className="pt-6">
+                  <DistributionListsSettings clientId={clientId} />
+                </CardContent>
+              </Card>
+            )}
+            {can('clients:assign') && (
+              <Card>
+                <CardContent className="pt-6">
+                  <ClientAssignmentsSettings clientId={clientId} />
+                </CardContent>
+              </Card>
+            )}
           </div>
         )}
 
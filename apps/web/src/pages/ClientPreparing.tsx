@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, CheckCircle2, Circle, AlertCircle, RefreshCw } from 'lucide-react';
 import { useApiClient } from '@/lib/api';
+import { ReportProgressTimeline } from '@/components/clients/reports/ReportProgressTimeline';
 
 type ProgressStatus = 'pending' | 'running' | 'completed' | 'failed' | 'stalled';
 
@@ -210,6 +211,11 @@ export default function ClientPreparing() {
                 status={getReportStepStatus()}
                 error={status?.report?.errorMessage}
               />
+              {clientId && status?.report?.reportId && reportStatus !== 'completed' && (
+                <div className="ml-9 border-l border-slate-200 pl-4">
+                  <ReportProgressTimeline clientId={clientId} reportId={status.report.reportId} />
+                </div>
+              )}
             </div>
 
             {/* Error/Stalled Actions */}
@@ -1,12 +1,354 @@
-import { useParams } from 'react-router-dom';
+import { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, ArrowLeft, Plus, RefreshCw, Trash2, Eye, EyeOff } from 'lucide-react';
+import { CompetitorAlertsPanel } from '@/components/competitors/CompetitorAlertsPanel';
+import { useClient } from '@/hooks/useClientDetail';
+import {
+  useCompetitors,
+  useCompetitorTimeseries,
+  useCreateCompetitor,
+  useUpdateCompetitor,
+  useDeleteCompetitor,
+  useDiscoverCompetitors,
+  type CompetitorMetricPoint,
+  type CompetitorSeries,
+} from '@/hooks/useCompetitors';
+
+type ChartMetric = 'impressionShare' | 'overlapRate' | 'outrankingShare';
+
+const CHART_METRICS: { key: ChartMetric; title: string; description: string }[] = [
+  {
+    key: 'impressionShare',
+    title: 'Impression Share',
+    description: 'Share of eligible impressions each competitor received',
+  },
+  {
+    key: 'overlapRate',
+    title: 'Overlap Rate',
+    description: 'How often each competitor appeared in the same auction as you',
+  },
+  {
+    key: 'outrankingShare',
+    title: 'Outranking Share',
+    description: 'How often you ranked above each competitor (or showed when they did not)',
+  },
+];
+
+const LINE_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#4b5563'];
+
+const DAY_OPTIONS = [90, 180, 365];
+
+/**
+ * Pivot per-competitor series into one row per date for recharts
+ */
+function buildChartData(series: CompetitorSeries[], metric: ChartMetric) {
+  const rows = new Map<string, Record<string, string | number | null>>();
+
+  for (const competitor of series) {
+    for (const point of competitor.metrics) {
+      const row = rows.get(point.date) ?? { date: point.date };
+      row[competitor.competitorDomain] = point[metric];
+      rows.set(point.date, row);
+    }
+  }
+
+  return Array.from(rows.values()).sort((a, b) => String(a.date).localeCompare(String(b.date)));
+}
+
+function formatPercent(value: number | null | undefined) {
+  return value === null || value === undefined ? '—' : `${value.toFixed(1)}%`;
+}
+
+function MetricChart({
+  title,
+  description,
+  metric,
+  series,
+}: {
+  title: string;
+  description: string;
+  metric: ChartMetric;
+  series: CompetitorSeries[];
+}) {
+  const data = useMemo(() => buildChartData(series, metric), [series, metric]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="text-sm text-slate-500">No data for this period.</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+              <YAxis domain={[0, 100]} tickFormatter={(v) => `${v}%`} tick={{ fontSize: 12 }} />
+              <Tooltip formatter={(value: number) => formatPercent(value)} />
+              <Legend />
+              {series.map((competitor, index) => (
+                <Line
+                  key={competitor.competitorId}
+                  type="monotone"
+                  dataKey={competitor.competitorDomain}
+                  stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function Competitors() {
-  const { clientId } = useParams();
+  const { clientId = '' } = useParams();
+  const [days, setDays] = useState(180);
+  const [newDomain, setNewDomain] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const { data: client } = useClient(clientId);
+  const { data: competitorsData, isLoading: competitorsLoading, isError } = useCompetitors(clientId, true);
+  const { data: timeseries, isLoading: timeseriesLoading } = useCompetitorTimeseries(clientId, days);
+
+  const createCompetitor = useCreateCompetitor(clientId);
+  const updateCompetitor = useUpdateCompetitor(clientId);
+  const deleteCompetitor = useDeleteCompetitor(clientId);
+  const discoverCompetitors = useDiscoverCompetitors(clientId);
+
+  const series = timeseries?.series ?? [];
+  const competitors = competitorsData?.competitors ?? [];
+
+  const handleError = (err: any, fallback: string) => {
+    setActionError(err.response?.data?.error || fallback);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newDomain.trim()) return;
+    setActionError(null);
+    createCompetitor.mutate(
+      { competitorDomain: newDomain.trim() },
+      {
+        onSuccess: () => setNewDomain(''),
+        onError: (err) => handleError(err, 'Failed to add competitor'),
+      }
+    );
+  };
+
+  const handleDelete = (competitorId: string, domain: string) => {
+    if (!confirm(`Stop tracking "${domain}"? Its metrics history will be deleted.`)) {
+      return;
+    }
+    setActionError(null);
+    deleteCompetitor.mutate(competitorId, {
+      onError: (err) => handleError(err, 'Failed to delete competitor'),
+    });
+  };
+
+  const handleToggleActive = (competitorId: string, isActive: boolean) => {
+    setActionError(null);
+    updateCompetitor.mutate(
+      { competitorId, isActive: !isActive },
+      { onError: (err) => handleError(err, 'Failed to update competitor') }
+    );
+  };
+
+  const renderLatest = (metrics: CompetitorMetricPoint | null, key: ChartMetric) =>
+    formatPercent(metrics?.[key]);
 
   return (
     <main className="p-10">
-      <h1 className="text-2xl font-semibold text-slate-900">Competitors for {clientId}</h1>
-      <p className="mt-2 text-slate-600">Competitor dashboard placeholder.</p>
+      <div className="flex items-center gap-2 text-sm text-slate-500 mb-2">
+        <Link to={`/clients/${clientId}`} className="hover:text-slate-700 flex items-center gap-1">
+          <ArrowLeft className="h-4 w-4" />
+          Back to {client?.name ?? 'Client'}
+        </Link>
+      </div>
+
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Competitors</h1>
+          <p className="mt-2 text-slate-600">
+            Auction insights competitors for {client?.name ?? 'this client'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {DAY_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              variant={days === option ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setDays(option)}
+            >
+              {option}d
+            </Button>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setActionError(null);
+              discoverCompetitors.mutate(undefined, {
+                onError: (err) => handleError(err, 'Failed to refresh competitors'),
+              });
+            }}
+            disabled={discoverCompetitors.isPending}
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${discoverCompetitors.isPending ? 'animate-spin' : ''}`} />
+            Refresh from auction insights
+          </Button>
+        </div>
+      </div>
+
+      {(isError || actionError) && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{actionError || 'Failed to load competitors'}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Alerts */}
+      <div className="mb-8">
+        <CompetitorAlertsPanel clientId={clientId} />
+      </div>
+
+      {/* Charts */}
+      <div className="grid gap-6 mb-8">
+        {timeseriesLoading ? (
+          [1, 2, 3].map((i) => <Skeleton key={i} className="h-[380px] w-full" />)
+        ) : series.length === 0 ? (
+          <Card>
+            <CardContent className="py-10 text-center text-slate-600">
+              No competitor metrics yet. Upload an Auction Insights report to start tracking competitors.
+            </CardContent>
+          </Card>
+        ) : (
+          CHART_METRICS.map((chart) => (
+            <MetricChart
+              key={chart.key}
+              title={chart.title}
+              description={chart.description}
+              metric={chart.key}
+              series={series}
+            />
+          ))
+        )}
+      </div>
+
+      {/* Tracked competitors */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Tracked Competitors</CardTitle>
+          <CardDescription>Hidden competitors are excluded from the charts above</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleAdd} className="flex gap-2 mb-6">
+            <Input
+              placeholder="competitor.com"
+              value={newDomain}
+              onChange={(e) => setNewDomain(e.target.value)}
+              className="max-w-sm"
+            />
+            <Button type="submit" disabled={createCompetitor.isPending || !newDomain.trim()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Competitor
+            </Button>
+          </form>
+
+          {competitorsLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : competitors.length === 0 ? (
+            <p className="text-sm text-slate-500">No competitors tracked yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-slate-500">
+                    <th className="py-2 pr-4 font-medium">Domain</th>
+                    <th className="py-2 pr-4 font-medium">Source</th>
+                    <th className="py-2 pr-4 font-medium">Impression Share</th>
+                    <th className="py-2 pr-4 font-medium">Overlap Rate</th>
+                    <th className="py-2 pr-4 font-medium">Outranking Share</th>
+                    <th className="py-2 pr-4 font-medium">Last Seen</th>
+                    <th className="py-2 font-medium text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {competitors.map((competitor) => (
+                    <tr key={competitor.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-medium text-slate-900">
+                        {competitor.competitorDomain}
+                        {!competitor.isActive && (
+                          <Badge variant="secondary" className="ml-2">Hidden</Badge>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Badge variant="outline">
+                          {competitor.detectedVia === 'manual' ? 'Manual' : 'Auction Insights'}
+                        </Badge>
+                      </td>
+                      <td className="py-2 pr-4">{renderLatest(competitor.latestMetrics, 'impressionShare')}</td>
+                      <td className="py-2 pr-4">{renderLatest(competitor.latestMetrics, 'overlapRate')}</td>
+                      <td className="py-2 pr-4">{renderLatest(competitor.latestMetrics, 'outrankingShare')}</td>
+                      <td className="py-2 pr-4 text-slate-600">
+                        {competitor.latestMetrics?.date ?? '—'}
+                      </td>
+                      <td className="py-2 text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={competitor.isActive ? 'Hide from charts' : 'Show in charts'}
+                          onClick={() => handleToggleActive(competitor.id, competitor.isActive)}
+                          disabled={updateCompetitor.isPending}
+                        >
+                          {competitor.isActive ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Stop tracking"
+                          onClick={() => handleDelete(competitor.id, competitor.competitorDomain)}
+                          disabled={deleteCompetitor.isPending}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </main>
   );
 }
@@ -7,6 +7,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Plus, TrendingUp, DollarSign, AlertCircle, CheckCircle2, XCircle, Trash2 } from 'lucide-react';
 import { useDashboardStats, useDashboardClients } from '@/hooks/useDashboard';
+import { usePermissions } from '@/hooks/usePermissions';
 import { useApiClient } from '@/lib/api';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -15,6 +16,7 @@ export default function Dashboard() {
   const api = useApiClient();
   const { data: stats, isLoading: statsLoading } = useDashboardStats();
   const { data: clientsData, isLoading: clientsLoading, refetch } = useDashboardClients();
+  const { can } = usePermissions();
   const [deletingClientId, setDeletingClientId] = useState<string | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
 
@@ -63,10 +65,12 @@ export default function Dashboard() {
           <h1 className="text-3xl font-bold text-slate-900">Dashboard</h1>
           <p className="mt-2 text-slate-600">Manage your clients and view performance insights</p>
         </div>
-        <Button onClick={handleAddClient} size="lg">
-          <Plus className="w-5 h-5 mr-2" />
-          Add Client
-        </Button>
+        {can('clients:create') && (
+          <Button onClick={handleAddClient} size="lg">
+            <Plus className="w-5 h-5 mr-2" />
+            Add Client
+          </Button>
+        )}
       </div>
 
       {/* Aggregate Stats */}
@@ -206,18 +210,20 @@ export default function Dashboard() {
                     >
                       View Details
                     </Button>
-                    <Button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDeleteClient(client.id, client.name);
-                      }}
-                      variant="outline"
-                      size="icon"
-                      disabled={deletingClientId === client.id}
-                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    {can('clients:delete') && (
+                      <Button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteClient(client.id, client.name);
+                        }}
+                        variant="outline"
+                        size="icon"
+                        disabled={deletingClientId === client.id}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -243,10 +249,12 @@ export default function Dashboard() {
                 Add your first client to connect their Google Ads and Search Console accounts.
                 We'll automatically analyze their data and provide AI-powered recommendations.
               </p>
-              <Button onClick={handleAddClient}>
-                <Plus className="w-4 h-4 mr-2" />
-                Add Your First Client
-              </Button>
+              {can('clients:create') && (
+                <Button onClick={handleAddClient}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Your First Client
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -7,7 +7,12 @@ import { Label } from '@/components/ui/label';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { CheckCircle2, Circle, Loader2, LayoutDashboard, Globe } from 'lucide-react';
-import { BusinessTypeSelector, type BusinessType, type BusinessTypeOption } from '@/components/clients/BusinessTypeSelector';
+import {
+  BusinessTypeSelector,
+  toSkillSelection,
+  type BusinessTypeOption,
+  type BusinessTypeValue,
+} from '@/components/clients/BusinessTypeSelector';
 
 type OnboardingStep = 'create-client' | 'select-business-type' | 'select-mode' | 'connect-google-ads' | 'connect-search-console' | 'connect-ga4' | 'complete';
 
@@ -25,7 +30,7 @@ export default function Onboarding() {
   const [searchConsoleConnected, setSearchConsoleConnected] = useState(false);
   const [ga4Connected, setGa4Connected] = useState(false);
   const [onboardingMode, setOnboardingMode] = useState<'unified' | 'split' | null>(null);
-  const [businessType, setBusinessType] = useState<BusinessType>('ecommerce');
+  const [businessType, setBusinessType] = useState<BusinessTypeValue>('ecommerce');
   const [businessTypeOptions, setBusinessTypeOptions] = useState<BusinessTypeOption[]>([]);
 
   // Fetch available business types on mount
@@ -98,7 +103,7 @@ export default function Onboarding() {
     try {
       const response = await api.post('/api/clients', {
         name: clientName,
-        businessType,
+        ...toSkillSelection(businessType),
       });
 
       setClientId(response.data.id);
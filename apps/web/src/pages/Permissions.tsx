@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import {
+  usePermissionMatrix,
+  useUpdateRolePermissions,
+  type Permission,
+  type PermissionMatrix,
+  type Role,
+} from '@/hooks/usePermissions';
+import { isForbiddenError } from '@/lib/api';
+
+const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  'clients:create': 'Add clients',
+  'clients:update': 'Edit client settings',
+  'clients:delete': 'Delete clients',
+  'clients:assign': 'Assign members to clients',
+  'clients:sync': 'Refresh client data',
+  'google:connect': 'Connect Google accounts',
+  'google:disconnect': 'Disconnect Google accounts',
+  'recommendations:review': 'Approve and reject recommendations',
+  'recommendations:apply': 'Push recommendations to Google Ads',
+  'reports:generate': 'Generate reports and run analyses',
+  'reports:schedule': 'Change report schedules and distribution lists',
+  'reports:share': 'Create and revoke public report links',
+  'csv:upload': 'Upload CSV files',
+  'settings:manage': 'Manage skill bundles, notifications, webhooks and API keys',
+  'audit:view': 'View the audit log',
+  'permissions:manage': 'Manage permissions',
+};
+
+export default function Permissions() {
+  const { data, isLoading, error } = usePermissionMatrix();
+  const updatePermissions = useUpdateRolePermissions();
+  const [draft, setDraft] = useState<PermissionMatrix | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (data) {
+      setDraft(data.matrix);
+    }
+  }, [data]);
+
+  if (isForbiddenError(error)) {
+    return (
+      <main className="p-10">
+        <h1 className="text-3xl font-bold text-slate-900 mb-8">Permissions</h1>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Only agency owners and admins can manage permissions.</AlertDescription>
+        </Alert>
+      </main>
+    );
+  }
+
+  const isEditable = (role: Role, permission: Permission) =>
+    !!data && data.editableRoles.includes(role) && !data.lockedPermissions.includes(permission);
+
+  const togglePermission = (role: Role, permission: Permission) => {
+    if (!draft) return;
+    setSaved(false);
+    const current = draft[role];
+    setDraft({
+      ...draft,
+      [role]: current.includes(permission)
+        ? current.filter((p) => p !== permission)
+        : [...current, permission],
+    });
+  };
+
+  const changedRoles = data && draft
+    ? data.editableRoles.filter((role) => {
+        const before = [...data.matrix[role]].sort().join(',');
+        const after = [...draft[role]].sort().join(',');
+        return before !== after;
+      })
+    : [];
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaveError(null);
+    try {
+      for (const role of changedRoles) {
+        await updatePermissions.mutateAsync({ role, permissions: draft[role] });
+      }
+      setSaved(true);
+    } catch (err: any) {
+      setSaveError(err?.response?.data?.error || 'Failed to save permissions');
+    }
+  };
+
+  return (
+    <main className="p-10">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900">Permissions</h1>
+        <p className="mt-2 text-slate-600">Choose what admins and members of your agency can do</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Failed to load permissions</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Role Permissions</CardTitle>
+          <CardDescription>
+            Owners always hold every permission. Managing permissions is reserved for owners and admins.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading || !data || !draft ? (
+            <div className="space-y-2">
+              {[1, 2, 3, 4].map((i) => (
+                <Skeleton key={i} className="h-8 w-full" />
+              ))}
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs uppercase text-slate-500">
+                  <th className="pb-2 pr-4 font-medium">Permission</th>
+                  {(Object.keys(ROLE_LABELS) as Role[]).map((role) => (
+                    <th key={role} className="pb-2 px-4 text-center font-medium">{ROLE_LABELS[role]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {data.permissions.map((permission) => (
+                  <tr key={permission} className="border-b last:border-0">
+                    <td className="py-2 pr-4">
+                      <div className="text-slate-900">{PERMISSION_LABELS[permission] ?? permission}</div>
+                      <code className="text-xs text-slate-500">{permission}</code>
+                    </td>
+                    {(Object.keys(ROLE_LABELS) as Role[]).map((role) => (
+                      <td key={role} className="py-2 px-4 text-center">
+                        <input
+                          type="checkbox"
+                          aria-label={`${ROLE_LABELS[role]}: ${permission}`}
+                          checked={draft[role].includes(permission)}
+                          disabled={!isEditable(role, permission)}
+                          onChange={() => togglePermission(role, permission)}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {saveError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{saveError}</AlertDescription>
+            </Alert>
+          )}
+
+          {saved && changedRoles.length === 0 && (
+            <Alert className="border-green-200 bg-green-50">
+              <AlertDescription className="text-green-800">Permissions saved.</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={updatePermissions.isPending || changedRoles.length === 0}>
+              {updatePermissions.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save Changes'
+              )}
+            </Button>
+            {data && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setSaved(false);
+                  setDraft({ ...data.defaults });
+                }}
+              >
+                Reset to Defaults
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Lock } from 'lucide-react';
+import { ReportHeader } from '@/components/clients/reports/ReportHeader';
+import { ReportPreviewContainer } from '@/components/clients/reports/ReportPreviewContainer';
+import { InterplayReportView } from '@/components/clients/reports/templates/InterplayReportView';
+import { useSharedReport } from '@/hooks/useReportShares';
+
+function PasswordForm({ error, onSubmit }: { error: string | null; onSubmit: (password: string) => void }) {
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) onSubmit(password);
+  };
+
+  return (
+    <Card className="mx-auto max-w-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-4 w-4" />
+          Password required
+        </CardTitle>
+        <CardDescription>Enter the password you were given to view this report.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="shared-report-password">Password</Label>
+            <Input
+              id="shared-report-password"
+              type="password"
+              autoFocus
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button type="submit" disabled={!password}>View Report</Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Public, read-only view of a report opened from a share link
+ */
+export default function SharedReport() {
+  const { token = '' } = useParams<{ token: string }>();
+  const [password, setPassword] = useState<string | undefined>();
+  const { data, isLoading, error } = useSharedReport(token, password);
+
+  const errorResponse = (error as any)?.response;
+  // 429: locked after too many wrong passwords; keep the form up with the message
+  const passwordRequired = [401, 429].includes(errorResponse?.status) && errorResponse?.data?.passwordRequired;
+
+  if (isLoading) {
+    return (
+      <main className="mx-auto max-w-5xl p-10 space-y-6">
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-96 w-full" />
+      </main>
+    );
+  }
+
+  if (passwordRequired) {
+    return (
+      <main className="p-10">
+        <PasswordForm
+          error={password ? errorResponse.data.error : null}
+          onSubmit={setPassword}
+        />
+      </main>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <main className="mx-auto max-w-md p-10">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {errorResponse?.data?.error || 'Failed to load this report. Please try again later.'}
+          </AlertDescription>
+        </Alert>
+      </main>
+    );
+  }
+
+  const { branding, report, clientName } = data;
+
+  return (
+    <main className="mx-auto max-w-5xl p-10 space-y-6">
+      <div className="flex items-center justify-between border-b pb-4" style={{ borderColor: branding.primaryColor }}>
+        {branding.logoDataUrl ? (
+          <img src={branding.logoDataUrl} alt={branding.companyName} className="h-10 max-w-[200px] object-contain" />
+        ) : (
+          <span className="text-2xl font-bold" style={{ color: branding.primaryColor }}>{branding.companyName}</span>
+        )}
+        <div className="flex items-center gap-3">
+          {branding.clientLogoDataUrl && (
+            <img src={branding.clientLogoDataUrl} alt={clientName} className="h-10 max-w-[160px] object-contain" />
+          )}
+          <span className="text-lg font-medium text-slate-700">{clientName}</span>
+        </div>
+      </div>
+
+      <ReportHeader
+        title="SEO/SEM Interplay Report"
+        generatedAt={report.generatedAt}
+        dateRange={report.dateRange}
+        trigger={report.trigger}
+      />
+
+      <ReportPreviewContainer>
+        <InterplayReportView report={report} />
+      </ReportPreviewContainer>
+
+      <p className="text-center text-xs text-slate-400">
+        This link expires {format(new Date(data.expiresAt), 'MMM d, yyyy')}.
+      </p>
+    </main>
+  );
+}
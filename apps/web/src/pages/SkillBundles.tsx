@@ -0,0 +1,464 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Archive, History, Loader2, Plus } from 'lucide-react';
+import type { BusinessType } from '@/components/clients/BusinessTypeSelector';
+import {
+  useSkillBundles,
+  useSkillBundle,
+  useSkillBundleVersions,
+  useBaseSkillBundle,
+  useCreateSkillBundle,
+  useUpdateSkillBundle,
+  useArchiveSkillBundle,
+  type SkillBundleOverrides,
+  type SkillValidationIssue,
+} from '@/hooks/useSkillBundles';
+import { usePermissions } from '@/hooks/usePermissions';
+
+const BUSINESS_TYPE_LABELS: Record<BusinessType, string> = {
+  'ecommerce': 'Ecommerce',
+  'lead-gen': 'Lead Generation',
+  'saas': 'SaaS',
+  'local': 'Local Business',
+};
+
+const selectClassName = 'border border-slate-300 rounded-md px-3 py-2 text-sm';
+const textareaClassName = 'w-full rounded-md border border-slate-300 px-3 py-2 font-mono text-xs';
+
+/**
+ * Parse the overrides editor, returning an error message for invalid JSON
+ */
+function parseOverrides(text: string): { overrides?: SkillBundleOverrides; error?: string } {
+  try {
+    const parsed = JSON.parse(text || '{}');
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      return { error: 'Overrides must be a JSON object' };
+    }
+    return { overrides: parsed };
+  } catch (err) {
+    return { error: `Invalid JSON: ${(err as Error).message}` };
+  }
+}
+
+function getErrorState(err: any, fallback: string): { message: string; issues: SkillValidationIssue[] } {
+  const data = err?.response?.data;
+  const issues = Array.isArray(data?.details)
+    ? data.details.map((issue: any) => ({
+        path: Array.isArray(issue.path) ? issue.path.join('.') : issue.path ?? '',
+        message: issue.message,
+      }))
+    : [];
+  return { message: data?.error || fallback, issues };
+}
+
+function ErrorAlert({ message, issues }: { message: string; issues: SkillValidationIssue[] }) {
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>
+        {message}
+        {issues.length > 0 && (
+          <ul className="mt-2 list-disc pl-5 text-xs">
+            {issues.map((issue, index) => (
+              <li key={index}>
+                <code>{issue.path || '(root)'}</code>: {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+function CreateBundleForm({ onCreated }: { onCreated: (bundleId: string) => void }) {
+  const { data: bundles = [] } = useSkillBundles();
+  const createBundle = useCreateSkillBundle();
+  const [name, setName] = useState('');
+  const [source, setSource] = useState<string>('ecommerce');
+  const [error, setError] = useState<{ message: string; issues: SkillValidationIssue[] } | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setError(null);
+
+    // Source is a built-in business type or `clone:<bundleId>`
+    const input = source.startsWith('clone:')
+      ? { name: name.trim(), cloneFromId: source.slice('clone:'.length) }
+      : { name: name.trim(), baseBusinessType: source as BusinessType };
+
+    createBundle.mutate(input, {
+      onSuccess: (bundle) => {
+        setName('');
+        onCreated(bundle.id);
+      },
+      onError: (err) => setError(getErrorState(err, 'Failed to create skill bundle')),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="bundle-name">Name</Label>
+        <Input
+          id="bundle-name"
+          placeholder="e.g. High-ticket B2B"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="bundle-source">Start from</Label>
+        <select
+          id="bundle-source"
+          className={`${selectClassName} w-full`}
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+        >
+          <optgroup label="Built-in">
+            {(Object.keys(BUSINESS_TYPE_LABELS) as BusinessType[]).map((type) => (
+              <option key={type} value={type}>{BUSINESS_TYPE_LABELS[type]}</option>
+            ))}
+          </optgroup>
+          {bundles.length > 0 && (
+            <optgroup label="Clone custom bundle">
+              {bundles.map((bundle) => (
+                <option key={bundle.id} value={`clone:${bundle.id}`}>{bundle.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </div>
+      {error && <ErrorAlert {...error} />}
+      <Button type="submit" disabled={createBundle.isPending || !name.trim()}>
+        <Plus className="w-4 h-4 mr-2" />
+        Create Bundle
+      </Button>
+    </form>
+  );
+}
+
+function BundleEditor({ bundleId, onArchived }: { bundleId: string; onArchived: () => void }) {
+  const { data: bundle, isLoading } = useSkillBundle(bundleId);
+  const { data: versions = [] } = useSkillBundleVersions(bundleId);
+  const { data: baseBundle } = useBaseSkillBundle(bundle?.baseBusinessType);
+  const updateBundle = useUpdateSkillBundle(bundleId);
+  const archiveBundle = useArchiveSkillBundle();
+  const { can } = usePermissions();
+  const canManage = can('settings:manage');
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [overridesText, setOverridesText] = useState('{}');
+  const [changeNote, setChangeNote] = useState('');
+  const [showBase, setShowBase] = useState(false);
+  const [error, setError] = useState<{ message: string; issues: SkillValidationIssue[] } | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // Reset the form when a different bundle or version is loaded
+  useEffect(() => {
+    if (!bundle) return;
+    setName(bundle.name);
+    setDescription(bundle.description ?? '');
+    setOverridesText(JSON.stringify(bundle.overrides, null, 2));
+    setChangeNote('');
+    setError(null);
+  }, [bundle?.id, bundle?.currentVersion]);
+
+  if (isLoading || !bundle) {
+    return <Skeleton className="h-[480px] w-full" />;
+  }
+
+  const handleSave = () => {
+    setError(null);
+    setSaved(false);
+
+    const { overrides, error: parseError } = parseOverrides(overridesText);
+    if (parseError) {
+      setError({ message: parseError, issues: [] });
+      return;
+    }
+
+    const overridesChanged = JSON.stringify(overrides) !== JSON.stringify(bundle.overrides);
+    updateBundle.mutate(
+      {
+        ...(name.trim() !== bundle.name && { name: name.trim() }),
+        ...(description !== (bundle.description ?? '') && { description: description || null }),
+        ...(overridesChanged && { overrides, changeNote: changeNote || undefined }),
+      },
+      {
+        onSuccess: () => setSaved(true),
+        onError: (err) => setError(getErrorState(err, 'Failed to save skill bundle')),
+      }
+    );
+  };
+
+  const handleArchive = () => {
+    if (!confirm(`Archive "${bundle.name}"? It will no longer be selectable for clients.`)) {
+      return;
+    }
+    setError(null);
+    archiveBundle.mutate(bundle.id, {
+      onSuccess: onArchived,
+      onError: (err) => setError(getErrorState(err, 'Failed to archive skill bundle')),
+    });
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                {bundle.name}
+                <Badge variant="outline">v{bundle.currentVersion}</Badge>
+                {bundle.isArchived && <Badge variant="secondary">Archived</Badge>}
+              </CardTitle>
+              <CardDescription>
+                Based on {BUSINESS_TYPE_LABELS[bundle.baseBusinessType]} · used by {bundle.clientCount}{' '}
+                {bundle.clientCount === 1 ? 'client' : 'clients'}
+              </CardDescription>
+            </div>
+            {!bundle.isArchived && canManage && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleArchive}
+                disabled={archiveBundle.isPending || bundle.clientCount > 0}
+                title={bundle.clientCount > 0 ? 'Reassign its clients before archiving' : undefined}
+              >
+                <Archive className="w-4 h-4 mr-2" />
+                Archive
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="edit-bundle-name">Name</Label>
+              <Input id="edit-bundle-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-bundle-description">Description</Label>
+              <Input
+                id="edit-bundle-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="edit-bundle-overrides">Overrides (JSON)</Label>
+              <Button variant="ghost" size="sm" onClick={() => setShowBase(!showBase)}>
+                {showBase ? 'Hide' : 'Show'} {BUSINESS_TYPE_LABELS[bundle.baseBusinessType]} defaults
+              </Button>
+            </div>
+            <p className="text-xs text-slate-500">
+              Objects are merged into the base skills key by key; arrays and values replace the default.
+              For example <code>{'{"scout": {"thresholds": {"highSpendThreshold": 250}}}'}</code>.
+            </p>
+            <textarea
+              id="edit-bundle-overrides"
+              className={textareaClassName}
+              rows={18}
+              value={overridesText}
+              onChange={(e) => setOverridesText(e.target.value)}
+              spellCheck={false}
+            />
+            {showBase && baseBundle && (
+              <pre className="max-h-96 overflow-auto rounded-md bg-slate-50 p-3 text-xs text-slate-700">
+                {JSON.stringify(baseBundle, null, 2)}
+              </pre>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-bundle-note">Change note</Label>
+            <Input
+              id="edit-bundle-note"
+              placeholder="What changed in this version?"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+            />
+          </div>
+
+          {error && <ErrorAlert {...error} />}
+
+          {saved && (
+            <Alert className="border-green-200 bg-green-50">
+              <AlertDescription className="text-green-800">
+                Saved. Future reports for clients using this bundle will use the new version.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {canManage && (
+            <Button onClick={handleSave} disabled={updateBundle.isPending || bundle.isArchived}>
+              {updateBundle.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save Changes'
+              )}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Versions
+          </CardTitle>
+          <CardDescription>Load an earlier version into the editor to restore it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="space-y-3">
+            {versions.map((version) => (
+              <li key={version.version} className="rounded-md border p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">
+                    v{version.version}
+                    {version.version === bundle.currentVersion && (
+                      <Badge variant="success" className="ml-2">Current</Badge>
+                    )}
+                  </span>
+                  {version.version !== bundle.currentVersion && !bundle.isArchived && canManage && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setOverridesText(JSON.stringify(version.overrides, null, 2));
+                        setChangeNote(`Restore v${version.version}`);
+                      }}
+                    >
+                      Load
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-slate-500">{new Date(version.createdAt).toLocaleString()}</p>
+                {version.changeNote && <p className="mt-1 text-slate-700">{version.changeNote}</p>}
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function SkillBundles() {
+  const [showArchived, setShowArchived] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data: bundles = [], isLoading, isError } = useSkillBundles(showArchived);
+  const { can } = usePermissions();
+
+  return (
+    <main className="p-10">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Skill Bundles</h1>
+          <p className="mt-2 text-slate-600">
+            Tune report thresholds, benchmarks and prompts for your clients' business types
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+          />
+          Show archived
+        </label>
+      </div>
+
+      {isError && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Failed to load skill bundles</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-4">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Custom Bundles</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-2">
+                  {[1, 2, 3].map((i) => (
+                    <Skeleton key={i} className="h-10 w-full" />
+                  ))}
+                </div>
+              ) : bundles.length === 0 ? (
+                <p className="text-sm text-slate-500">No custom bundles yet.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {bundles.map((bundle) => (
+                    <li key={bundle.id}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedId(bundle.id)}
+                        className={`w-full rounded-md px-3 py-2 text-left text-sm transition-colors ${
+                          selectedId === bundle.id ? 'bg-blue-50 text-blue-900' : 'hover:bg-slate-50'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">{bundle.name}</span>
+                          <span className="text-xs text-slate-500">v{bundle.currentVersion}</span>
+                        </div>
+                        <div className="text-xs text-slate-500">
+                          {BUSINESS_TYPE_LABELS[bundle.baseBusinessType]}
+                          {bundle.isArchived && ' · archived'}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          {can('settings:manage') && (
+            <Card>
+              <CardHeader>
+                <CardTitle>New Bundle</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CreateBundleForm onCreated={setSelectedId} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="lg:col-span-3">
+          {selectedId ? (
+            <BundleEditor bundleId={selectedId} onArchived={() => setSelectedId(null)} />
+          ) : (
+            <Card>
+              <CardContent className="py-10 text-center text-slate-600">
+                Select a bundle to edit its overrides, or create a new one.
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,371 @@
+import { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle } from 'lucide-react';
+import {
+  useSkillQualityFilterOptions,
+  useViolationTrends,
+  useInvalidMetricLeaks,
+  useTokenBudgetStats,
+  usePhaseLatency,
+  type SkillQualityFilters,
+  type SkillQualityInterval,
+  type ViolationTrends,
+} from '@/hooks/useSkillQuality';
+import { isForbiddenError } from '@/lib/api';
+
+const LINE_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#4b5563'];
+
+const DAY_OPTIONS = [7, 30, 90, 365];
+
+// Keep the chart readable; the table below lists every constraint
+const MAX_CHART_CONSTRAINTS = 8;
+
+const selectClassName = 'border border-slate-300 rounded-md px-3 py-2 text-sm';
+
+/**
+ * Violations per report for each constraint, one row per period for recharts
+ */
+function buildViolationChartData(trends: ViolationTrends, constraintIds: string[]) {
+  return trends.periods.map((period) => {
+    const row: Record<string, string | number | null> = { period: period.period };
+    for (const constraintId of constraintIds) {
+      const violations = period.violations[constraintId] ?? 0;
+      row[constraintId] = period.reportCount > 0 ? violations / period.reportCount : null;
+    }
+    return row;
+  });
+}
+
+function formatRate(value: number | null | undefined) {
+  return value === null || value === undefined ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatMs(value: number | null | undefined) {
+  if (value === null || value === undefined) return '—';
+  return value >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${Math.round(value)}ms`;
+}
+
+export default function SkillQuality() {
+  const [filters, setFilters] = useState<SkillQualityFilters>({ days: 30, interval: 'day' });
+
+  const { data: options, error: optionsError } = useSkillQualityFilterOptions();
+  const { data: violations, isLoading: violationsLoading } = useViolationTrends(filters);
+  const { data: leaks, isLoading: leaksLoading } = useInvalidMetricLeaks(filters);
+  const { data: tokenBudget, isLoading: tokenBudgetLoading } = useTokenBudgetStats(filters);
+  const { data: latency, isLoading: latencyLoading } = usePhaseLatency(filters);
+
+  const chartConstraints = useMemo(
+    () => (violations?.constraints ?? []).slice(0, MAX_CHART_CONSTRAINTS).map((c) => c.constraintId),
+    [violations]
+  );
+  const chartData = useMemo(
+    () => (violations ? buildViolationChartData(violations, chartConstraints) : []),
+    [violations, chartConstraints]
+  );
+
+  const skillVersions = (options?.skillVersions ?? []).filter(
+    (version) => !filters.businessType || version.businessType === filters.businessType
+  );
+
+  if (isForbiddenError(optionsError)) {
+    return (
+      <main className="p-10">
+        <h1 className="text-3xl font-bold text-slate-900 mb-8">Skill Quality</h1>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Only agency owners and admins can view skill quality metrics.</AlertDescription>
+        </Alert>
+      </main>
+    );
+  }
+
+  return (
+    <main className="p-10">
+      <div className="flex items-start justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Skill Quality</h1>
+          <p className="mt-2 text-slate-600">
+            Constraint violations, invalid metric leaks, token budget pressure and phase latency across reports
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {DAY_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              variant={filters.days === option ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFilters((prev) => ({ ...prev, days: option }))}
+            >
+              {option}d
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-8">
+        <select
+          className={selectClassName}
+          value={filters.businessType ?? ''}
+          onChange={(e) =>
+            setFilters((prev) => ({ ...prev, businessType: e.target.value || undefined, skillVersion: undefined }))
+          }
+        >
+          <option value="">All business types</option>
+          {(options?.businessTypes ?? []).map((type) => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <select
+          className={selectClassName}
+          value={filters.skillVersion ?? ''}
+          onChange={(e) => setFilters((prev) => ({ ...prev, skillVersion: e.target.value || undefined }))}
+        >
+          <option value="">All skill versions</option>
+          {skillVersions.map((version) => (
+            <option key={`${version.businessType}:${version.skillVersion}`} value={version.skillVersion}>
+              {version.skillVersion} ({version.reportCount} reports)
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClassName}
+          value={filters.interval}
+          onChange={(e) => setFilters((prev) => ({ ...prev, interval: e.target.value as SkillQualityInterval }))}
+        >
+          <option value="day">Daily</option>
+          <option value="week">Weekly</option>
+        </select>
+      </div>
+
+      <div className="grid gap-6">
+        {/* Constraint violations */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Constraint Violations</CardTitle>
+            <CardDescription>
+              Violations per report by constraint ID
+              {violations ? ` across ${violations.reportCount} reports` : ''}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {violationsLoading ? (
+              <Skeleton className="h-[300px] w-full" />
+            ) : !violations || violations.constraints.length === 0 ? (
+              <p className="text-sm text-slate-500">No constraint violations for this period.</p>
+            ) : (
+              <div className="space-y-6">
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="period" tick={{ fontSize: 12 }} />
+                    <YAxis tickFormatter={(v) => `${Math.round(v * 100)}%`} tick={{ fontSize: 12 }} />
+                    <Tooltip formatter={(value: number) => formatRate(value)} />
+                    <Legend />
+                    {chartConstraints.map((constraintId, index) => (
+                      <Line
+                        key={constraintId}
+                        type="monotone"
+                        dataKey={constraintId}
+                        stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                        strokeWidth={2}
+                        dot={{ r: 3 }}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-500 border-b">
+                      <th className="py-2 pr-4 font-medium">Constraint</th>
+                      <th className="py-2 pr-4 font-medium text-right">Violations</th>
+                      <th className="py-2 font-medium text-right">Per report</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {violations.constraints.map((constraint) => (
+                      <tr key={constraint.constraintId} className="border-b last:border-0">
+                        <td className="py-2 pr-4 font-mono text-slate-700">{constraint.constraintId}</td>
+                        <td className="py-2 pr-4 text-right">{constraint.total}</td>
+                        <td className="py-2 text-right">{formatRate(constraint.perReport)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Invalid metric leaks */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Invalid Metric Leaks</CardTitle>
+            <CardDescription>Reports whose output mentioned metrics invalid for their business type</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {leaksLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : !leaks || leaks.businessTypes.length === 0 ? (
+              <p className="text-sm text-slate-500">No reports for this period.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Business type</th>
+                    <th className="py-2 pr-4 font-medium text-right">Reports</th>
+                    <th className="py-2 pr-4 font-medium text-right">With leaks</th>
+                    <th className="py-2 pr-4 font-medium text-right">Leak rate</th>
+                    <th className="py-2 font-medium">Leaked metrics</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {leaks.businessTypes.map((row) => (
+                    <tr key={row.businessType} className="border-b last:border-0">
+                      <td className="py-2 pr-4 text-slate-700">{row.businessType}</td>
+                      <td className="py-2 pr-4 text-right">{row.reportCount}</td>
+                      <td className="py-2 pr-4 text-right">{row.reportsWithLeaks}</td>
+                      <td className="py-2 pr-4 text-right">{formatRate(row.leakRate)}</td>
+                      <td className="py-2">
+                        <div className="flex flex-wrap gap-1">
+                          {Object.entries(row.metrics)
+                            .sort(([, a], [, b]) => b - a)
+                            .map(([metric, reports]) => (
+                              <Badge key={metric} variant="outline">
+                                {metric} × {reports}
+                              </Badge>
+                            ))}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Token budget */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Token Budget</CardTitle>
+            <CardDescription>
+              How often prompt data was truncated, and how many keywords and pages were dropped to fit
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {tokenBudgetLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : !tokenBudget || tokenBudget.totals.reportCount === 0 ? (
+              <p className="text-sm text-slate-500">No reports for this period.</p>
+            ) : (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                  <div>
+                    <p className="text-sm text-slate-500">Truncation rate</p>
+                    <p className="text-2xl font-semibold">{formatRate(tokenBudget.totals.truncationRate)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-slate-500">Reports dropping keywords</p>
+                    <p className="text-2xl font-semibold">{formatRate(tokenBudget.totals.droppedKeywordRate)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-slate-500">Keywords dropped</p>
+                    <p className="text-2xl font-semibold">{tokenBudget.totals.keywordsDropped}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-slate-500">Pages dropped</p>
+                    <p className="text-2xl font-semibold">{tokenBudget.totals.pagesDropped}</p>
+                  </div>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-500 border-b">
+                      <th className="py-2 pr-4 font-medium">Period</th>
+                      <th className="py-2 pr-4 font-medium text-right">Reports</th>
+                      <th className="py-2 pr-4 font-medium text-right">Truncated</th>
+                      <th className="py-2 pr-4 font-medium text-right">Dropping keywords</th>
+                      <th className="py-2 pr-4 font-medium text-right">Keywords dropped</th>
+                      <th className="py-2 font-medium text-right">Pages dropped</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tokenBudget.periods.map((period) => (
+                      <tr key={period.period} className="border-b last:border-0">
+                        <td className="py-2 pr-4 text-slate-700">{period.period}</td>
+                        <td className="py-2 pr-4 text-right">{period.reportCount}</td>
+                        <td className="py-2 pr-4 text-right">{period.truncatedReports}</td>
+                        <td className="py-2 pr-4 text-right">{period.reportsWithDroppedKeywords}</td>
+                        <td className="py-2 pr-4 text-right">{period.keywordsDropped}</td>
+                        <td className="py-2 text-right">{period.pagesDropped}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Phase latency */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Phase Latency</CardTitle>
+            <CardDescription>Duration percentiles for each report pipeline phase</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {latencyLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : !latency || latency.phases.length === 0 ? (
+              <p className="text-sm text-slate-500">No completed phases for this period.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Phase</th>
+                    <th className="py-2 pr-4 font-medium text-right">Samples</th>
+                    <th className="py-2 pr-4 font-medium text-right">Avg</th>
+                    <th className="py-2 pr-4 font-medium text-right">p50</th>
+                    <th className="py-2 pr-4 font-medium text-right">p90</th>
+                    <th className="py-2 pr-4 font-medium text-right">p95</th>
+                    <th className="py-2 font-medium text-right">p99</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {latency.phases.map((phase) => (
+                    <tr
+                      key={phase.phase}
+                      className={`border-b last:border-0 ${phase.phase === 'total' ? 'font-semibold' : ''}`}
+                    >
+                      <td className="py-2 pr-4 text-slate-700">{phase.phase}</td>
+                      <td className="py-2 pr-4 text-right">{phase.samples}</td>
+                      <td className="py-2 pr-4 text-right">{formatMs(phase.avgMs)}</td>
+                      <td className="py-2 pr-4 text-right">{formatMs(phase.p50Ms)}</td>
+                      <td className="py-2 pr-4 text-right">{formatMs(phase.p90Ms)}</td>
+                      <td className="py-2 pr-4 text-right">{formatMs(phase.p95Ms)}</td>
+                      <td className="py-2 text-right">{formatMs(phase.p99Ms)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
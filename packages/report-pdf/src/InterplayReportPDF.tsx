@@ -1,37 +1,55 @@
 import { Document, Page, View, Text } from '@react-pdf/renderer';
-import { PDFHeader } from './PDFHeader';
-import { PDFFooter } from './PDFFooter';
-import { PDFExecutiveSummary } from './PDFExecutiveSummary';
-import { PDFRecommendationCard } from './PDFRecommendationCard';
-import { pdfStyles, colors } from './styles';
-import type { InterplayReportResponse } from '@advergent/shared';
+import { PDFHeader } from './PDFHeader.js';
+import { PDFFooter } from './PDFFooter.js';
+import { PDFExecutiveSummary } from './PDFExecutiveSummary.js';
+import { PDFRecommendationCard } from './PDFRecommendationCard.js';
+import { PDFCoverPage } from './PDFCoverPage.js';
+import { pdfStyles, colors } from './styles.js';
+import { DEFAULT_BRANDING } from './branding.js';
+import type { InterplayReportResponse, ReportBranding } from '@advergent/shared';
 
 interface InterplayReportPDFProps {
   clientName: string;
   report: InterplayReportResponse;
+  /** Agency white-label branding; defaults to the Advergent look */
+  branding?: ReportBranding;
 }
 
-export function InterplayReportPDF({ clientName, report }: InterplayReportPDFProps) {
+const REPORT_TITLE = 'SEO/SEM Interplay Report';
+
+export function InterplayReportPDF({ clientName, report, branding = DEFAULT_BRANDING }: InterplayReportPDFProps) {
   const recommendations = report.recommendations || [];
   const highCount = recommendations.filter(r => r.impact === 'high').length;
   const mediumCount = recommendations.filter(r => r.impact === 'medium').length;
   const lowCount = recommendations.filter(r => r.impact === 'low').length;
 
   return (
-    <Document title={`${clientName} - SEO/SEM Interplay Report`} author="Advergent">
+    <Document title={`${clientName} - ${REPORT_TITLE}`} author={branding.companyName}>
+      {branding.coverPageEnabled && (
+        <PDFCoverPage
+          clientName={clientName}
+          reportTitle={REPORT_TITLE}
+          dateRange={report.dateRange}
+          generatedAt={report.metadata.createdAt}
+          branding={branding}
+        />
+      )}
+
       <Page size="A4" style={pdfStyles.page}>
         <PDFHeader
           clientName={clientName}
-          reportTitle="SEO/SEM Interplay Report"
+          reportTitle={REPORT_TITLE}
           dateRange={report.dateRange}
           generatedAt={report.metadata.createdAt}
           trigger={report.trigger}
+          branding={branding}
         />
 
         {report.executiveSummary && (
           <PDFExecutiveSummary
             summary={report.executiveSummary.summary}
             keyHighlights={report.executiveSummary.keyHighlights}
+            branding={branding}
           />
         )}
 
@@ -72,7 +90,7 @@ export function InterplayReportPDF({ clientName, report }: InterplayReportPDFPro
           </View>
         )}
 
-        <PDFFooter clientName={clientName} />
+        <PDFFooter clientName={clientName} branding={branding} />
       </Page>
     </Document>
   );
@@ -0,0 +1,52 @@
+import { Page, View, Text, Image } from '@react-pdf/renderer';
+import { pdfStyles } from './styles.js';
+import { DEFAULT_BRANDING } from './branding.js';
+import { formatDate } from './format.js';
+import type { ReportBranding } from '@advergent/shared';
+
+interface PDFCoverPageProps {
+  clientName: string;
+  reportTitle: string;
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  generatedAt: string;
+  branding?: ReportBranding;
+}
+
+/**
+ * Full-page cover in the agency's colours, shown when branding enables it
+ */
+export function PDFCoverPage({
+  clientName,
+  reportTitle,
+  dateRange,
+  generatedAt,
+  branding = DEFAULT_BRANDING,
+}: PDFCoverPageProps) {
+  return (
+    <Page size="A4" style={pdfStyles.coverPage}>
+      <View style={{ ...pdfStyles.coverBand, backgroundColor: branding.primaryColor }}>
+        {branding.logoDataUrl ? (
+          <Image src={branding.logoDataUrl} style={pdfStyles.coverLogoImage} />
+        ) : (
+          <Text style={pdfStyles.coverCompanyName}>{branding.companyName}</Text>
+        )}
+        <Text style={pdfStyles.coverTitle}>{branding.coverTitle || reportTitle}</Text>
+      </View>
+
+      <View style={pdfStyles.coverBody}>
+        {branding.clientLogoDataUrl && (
+          <Image src={branding.clientLogoDataUrl} style={pdfStyles.coverClientLogoImage} />
+        )}
+        <Text style={pdfStyles.coverClientName}>{clientName}</Text>
+        {branding.coverSubtitle && <Text style={pdfStyles.coverSubtitle}>{branding.coverSubtitle}</Text>}
+        <Text style={pdfStyles.coverMeta}>
+          Reporting period: {formatDate(dateRange.start)} - {formatDate(dateRange.end)}
+        </Text>
+        <Text style={pdfStyles.coverMeta}>Prepared: {formatDate(generatedAt)}</Text>
+      </View>
+    </Page>
+  );
+}
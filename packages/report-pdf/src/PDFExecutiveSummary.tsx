@@ -1,15 +1,18 @@
 import { View, Text } from '@react-pdf/renderer';
-import { pdfStyles } from './styles';
+import { pdfStyles } from './styles.js';
+import { DEFAULT_BRANDING } from './branding.js';
+import type { ReportBranding } from '@advergent/shared';
 
 interface PDFExecutiveSummaryProps {
   summary: string;
   keyHighlights: string[];
+  branding?: ReportBranding;
 }
 
-export function PDFExecutiveSummary({ summary, keyHighlights }: PDFExecutiveSummaryProps) {
+export function PDFExecutiveSummary({ summary, keyHighlights, branding = DEFAULT_BRANDING }: PDFExecutiveSummaryProps) {
   return (
     <View style={pdfStyles.summaryCard}>
-      <Text style={pdfStyles.summaryTitle}>Executive Summary</Text>
+      <Text style={{ ...pdfStyles.summaryTitle, color: branding.accentColor }}>Executive Summary</Text>
       <Text style={pdfStyles.summaryText}>{summary}</Text>
 
       {keyHighlights.length > 0 && (
@@ -17,7 +20,7 @@ export function PDFExecutiveSummary({ summary, keyHighlights }: PDFExecutiveSumm
           <Text style={pdfStyles.highlightsTitle}>Key Highlights</Text>
           {keyHighlights.map((highlight, index) => (
             <View key={index} style={pdfStyles.highlightItem}>
-              <Text style={pdfStyles.highlightNumber}>{index + 1}.</Text>
+              <Text style={{ ...pdfStyles.highlightNumber, color: branding.primaryColor }}>{index + 1}.</Text>
               <Text style={pdfStyles.highlightText}>{highlight}</Text>
             </View>
           ))}
@@ -1,15 +1,18 @@
 import { View, Text } from '@react-pdf/renderer';
-import { pdfStyles } from './styles';
+import { pdfStyles } from './styles.js';
+import { DEFAULT_BRANDING } from './branding.js';
+import type { ReportBranding } from '@advergent/shared';
 
 interface PDFFooterProps {
   clientName: string;
+  branding?: ReportBranding;
 }
 
-export function PDFFooter({ clientName }: PDFFooterProps) {
+export function PDFFooter({ clientName, branding = DEFAULT_BRANDING }: PDFFooterProps) {
   return (
     <View style={pdfStyles.footer} fixed>
       <Text style={pdfStyles.footerText}>
-        {clientName} | Powered by Advergent
+        {clientName} | {branding.footerText || `Powered by ${branding.companyName}`}
       </Text>
       <Text
         style={pdfStyles.pageNumber}
@@ -0,0 +1,50 @@
+import { View, Text, Image } from '@react-pdf/renderer';
+import { pdfStyles } from './styles.js';
+import { DEFAULT_BRANDING } from './branding.js';
+import { formatDate, triggerLabels } from './format.js';
+import type { ReportBranding, ReportTrigger } from '@advergent/shared';
+
+interface PDFHeaderProps {
+  clientName: string;
+  reportTitle: string;
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  generatedAt: string;
+  trigger: ReportTrigger;
+  branding?: ReportBranding;
+}
+
+export function PDFHeader({
+  clientName,
+  reportTitle,
+  dateRange,
+  generatedAt,
+  trigger,
+  branding = DEFAULT_BRANDING,
+}: PDFHeaderProps) {
+  return (
+    <View style={pdfStyles.header}>
+      <View style={{ flex: 1 }}>
+        {branding.logoDataUrl ? (
+          <Image src={branding.logoDataUrl} style={pdfStyles.logoImage} />
+        ) : (
+          <Text style={{ ...pdfStyles.logo, color: branding.primaryColor }}>{branding.companyName}</Text>
+        )}
+        <Text style={pdfStyles.title}>{reportTitle}</Text>
+        <Text style={pdfStyles.subtitle}>{clientName}</Text>
+        <Text style={{ ...pdfStyles.metaText, marginTop: 3 }}>
+          {formatDate(dateRange.start)} - {formatDate(dateRange.end)}
+        </Text>
+      </View>
+      <View style={{ textAlign: 'right' }}>
+        {branding.clientLogoDataUrl && (
+          <Image src={branding.clientLogoDataUrl} style={pdfStyles.clientLogoImage} />
+        )}
+        <Text style={pdfStyles.metaText}>Generated: {formatDate(generatedAt)}</Text>
+        <Text style={{ ...pdfStyles.metaText, marginTop: 2 }}>{triggerLabels[trigger]}</Text>
+      </View>
+    </View>
+  );
+}
@@ -1,5 +1,5 @@
 import { View, Text } from '@react-pdf/renderer';
-import { pdfStyles, getTypeBadgeStyle, getImpactBadgeStyle, getEffortColor } from './styles';
+import { pdfStyles, getTypeBadgeStyle, getImpactBadgeStyle, getEffortColor } from './styles.js';
 import type { RecommendationCategory, ImpactLevel, EffortLevel } from '@advergent/shared';
 
 interface PDFRecommendationCardProps {
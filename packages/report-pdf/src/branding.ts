@@ -0,0 +1,17 @@
+import type { ReportBranding } from '@advergent/shared';
+import { colors } from './styles.js';
+
+/**
+ * The stock Advergent look, used for anything an agency has not customised
+ */
+export const DEFAULT_BRANDING: ReportBranding = {
+  companyName: 'Advergent',
+  logoDataUrl: null,
+  primaryColor: colors.blue600,
+  accentColor: colors.blue900,
+  footerText: null,
+  coverPageEnabled: false,
+  coverTitle: null,
+  coverSubtitle: null,
+  clientLogoDataUrl: null,
+};
@@ -0,0 +1,15 @@
+import type { ReportTrigger } from '@advergent/shared';
+
+export const triggerLabels: Record<ReportTrigger, string> = {
+  client_creation: 'Auto-Generated',
+  manual: 'Manual Regeneration',
+  scheduled: 'Scheduled Run',
+};
+
+export function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
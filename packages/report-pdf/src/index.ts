@@ -0,0 +1,13 @@
+/**
+ * Interplay report PDF document, rendered in the browser by the web app and
+ * on the server by the API (emailed and scheduled reports)
+ */
+
+export { InterplayReportPDF } from './InterplayReportPDF.js';
+export { PDFHeader } from './PDFHeader.js';
+export { PDFFooter } from './PDFFooter.js';
+export { PDFExecutiveSummary } from './PDFExecutiveSummary.js';
+export { PDFRecommendationCard } from './PDFRecommendationCard.js';
+export { PDFCoverPage } from './PDFCoverPage.js';
+export { DEFAULT_BRANDING } from './branding.js';
+export { pdfStyles, colors, getTypeBadgeStyle, getImpactBadgeStyle, getEffortColor } from './styles.js';
@@ -76,6 +76,77 @@ export const pdfStyles = StyleSheet.create({
     fontSize: 9,
     color: colors.slate400,
   },
+  logoImage: {
+    height: 28,
+    maxWidth: 160,
+    objectFit: 'contain',
+    marginBottom: 6,
+  },
+  clientLogoImage: {
+    height: 36,
+    maxWidth: 120,
+    objectFit: 'contain',
+    marginBottom: 6,
+    alignSelf: 'flex-end',
+  },
+
+  // Cover page
+  coverPage: {
+    padding: 0,
+    fontSize: 10,
+    fontFamily: 'Helvetica',
+    color: colors.slate800,
+  },
+  coverBand: {
+    height: 260,
+    paddingHorizontal: 50,
+    paddingBottom: 40,
+    justifyContent: 'flex-end',
+  },
+  coverLogoImage: {
+    height: 48,
+    maxWidth: 220,
+    objectFit: 'contain',
+    marginBottom: 30,
+  },
+  coverCompanyName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 30,
+  },
+  coverTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  coverBody: {
+    paddingHorizontal: 50,
+    paddingTop: 40,
+  },
+  coverClientLogoImage: {
+    height: 64,
+    maxWidth: 200,
+    objectFit: 'contain',
+    marginBottom: 20,
+  },
+  coverClientName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.slate900,
+    marginBottom: 8,
+  },
+  coverSubtitle: {
+    fontSize: 12,
+    color: colors.slate600,
+    lineHeight: 1.5,
+    marginBottom: 20,
+  },
+  coverMeta: {
+    fontSize: 10,
+    color: colors.slate500,
+    marginBottom: 4,
+  },
 
   // Section styles
   section: {
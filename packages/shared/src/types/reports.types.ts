@@ -46,11 +46,35 @@ export interface InterplayReportDateRange {
   days: number;
 }
 
+/**
+ * Agency custom skill bundle a report ran with
+ */
+export interface ReportCustomSkillBundle {
+  id: string;
+  name: string;
+  version: number;
+}
+
+/**
+ * Skill experiment variant a report was assigned to
+ */
+export interface ReportSkillExperiment {
+  id: string;
+  name: string;
+  variantId: string;
+  variantName: string;
+}
+
 export interface InterplayReportMetadata {
   tokensUsed?: number;
   processingTimeMs?: number;
   createdAt: string;
   completedAt?: string;
+  /** Business type the skill bundle was loaded for */
+  businessType?: string;
+  skillVersion?: string;
+  customSkillBundle?: ReportCustomSkillBundle;
+  skillExperiment?: ReportSkillExperiment;
 }
 
 export interface InterplayReportResponse {
@@ -64,3 +88,197 @@ export interface InterplayReportResponse {
   metadata: InterplayReportMetadata;
   error?: string;
 }
+
+// ============================================================================
+// REPORT HISTORY TYPES
+// ============================================================================
+
+export interface InterplayReportSummary {
+  id: string;
+  status: ReportStatus;
+  trigger: ReportTrigger;
+  dateRange: InterplayReportDateRange;
+  businessType: string | null;
+  skillVersion: string | null;
+  customSkillBundle: ReportCustomSkillBundle | null;
+  durationMs: number | null;
+  createdAt: string;
+  completedAt: string | null;
+  error?: string;
+}
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface InterplayReportHistoryResponse {
+  reports: InterplayReportSummary[];
+  pagination: Pagination;
+}
+
+// ============================================================================
+// REPORT DIFF TYPES
+// ============================================================================
+
+export type RecommendationDiffStatus = 'new' | 'resolved' | 'persisting';
+
+export interface RecommendationDiffEntry {
+  status: RecommendationDiffStatus;
+  /** Recommendation from the newer report (older report for 'resolved') */
+  recommendation: UnifiedRecommendation;
+  /** Matched recommendation from the older report ('persisting' only) */
+  previous?: UnifiedRecommendation;
+  /** 0-1 match score ('persisting' only) */
+  similarity?: number;
+  /** Human-readable field changes between matched recommendations */
+  changes?: string[];
+}
+
+export type BattlegroundKeywordChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface BattlegroundKeywordSnapshot {
+  priority: 'high' | 'medium' | 'low';
+  reason: string;
+  spend: number;
+  roas: number;
+  organicPosition: number | null;
+  impressionShare: number | null;
+  conversions: number;
+}
+
+export interface BattlegroundKeywordDiff {
+  query: string;
+  change: BattlegroundKeywordChangeType;
+  previous: BattlegroundKeywordSnapshot | null;
+  current: BattlegroundKeywordSnapshot | null;
+}
+
+export interface SummaryMetricChange {
+  key: string;
+  label: string;
+  previous: number | null;
+  current: number | null;
+  delta: number | null;
+}
+
+export interface ReportDiffReportRef {
+  id: string;
+  status: ReportStatus;
+  trigger: ReportTrigger;
+  dateRange: InterplayReportDateRange;
+  createdAt: string;
+}
+
+export interface InterplayReportDiff {
+  from: ReportDiffReportRef;
+  to: ReportDiffReportRef;
+  recommendations: {
+    new: RecommendationDiffEntry[];
+    resolved: RecommendationDiffEntry[];
+    persisting: RecommendationDiffEntry[];
+  };
+  battlegroundKeywords: BattlegroundKeywordDiff[];
+  summaryMetrics: SummaryMetricChange[];
+}
+
+// ============================================================================
+// REPORT PROGRESS TYPES
+// ============================================================================
+
+export type ReportPhase =
+  | 'skill_load'
+  | 'data_fetch'
+  | 'scout'
+  | 'researcher'
+  | 'sem'
+  | 'seo'
+  | 'director'
+  | 'constraint_validation';
+
+export type ReportPhaseEventType = 'started' | 'progress' | 'completed' | 'failed';
+
+export interface ReportPhaseEvent {
+  /** Monotonic per report; use as the stream cursor */
+  sequence: number;
+  reportId: string;
+  phase: ReportPhase;
+  type: ReportPhaseEventType;
+  message: string | null;
+  /** Step progress within the phase, e.g. researcher page N of M */
+  progress: { current: number; total: number } | null;
+  /** Phase duration, set on completed/failed events */
+  durationMs: number | null;
+  createdAt: string;
+}
+
+/**
+ * Report status as carried on the progress stream
+ */
+export interface ReportProgressStatus {
+  reportId: string;
+  status: ReportStatus;
+  error?: string;
+}
+
+// ============================================================================
+// REPORT BRANDING TYPES
+// ============================================================================
+
+/**
+ * White-label look applied to report PDFs. Resolved per client: the agency's
+ * branding plus the client's own logo, with Advergent defaults for anything unset.
+ */
+export interface ReportBranding {
+  /** Shown in the header and footer in place of "Advergent" */
+  companyName: string;
+  /** PNG or JPEG data URL */
+  logoDataUrl: string | null;
+  /** Hex colour for the wordmark, accents and cover page */
+  primaryColor: string;
+  /** Hex colour for headings on the executive summary */
+  accentColor: string;
+  /** Replaces "Powered by <company>" in the footer */
+  footerText: string | null;
+  coverPageEnabled: boolean;
+  coverTitle: string | null;
+  coverSubtitle: string | null;
+  /** Client's own logo (PNG or JPEG data URL), shown on the cover and header */
+  clientLogoDataUrl: string | null;
+}
+
+// ============================================================================
+// REPORT SHARE LINK TYPES
+// ============================================================================
+
+/**
+ * Share link as listed to agency users; the token itself is only returned on create
+ */
+export interface ReportShareLink {
+  id: string;
+  reportId: string;
+  tokenPrefix: string;
+  passwordProtected: boolean;
+  expiresAt: string;
+  revokedAt: string | null;
+  firstViewedAt: string | null;
+  lastViewedAt: string | null;
+  viewCount: number;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * What a public share link exposes: the report content, without internal
+ * pipeline metadata
+ */
+export interface SharedReportResponse {
+  clientName: string;
+  report: Pick<InterplayReportResponse, 'id' | 'trigger' | 'dateRange' | 'executiveSummary' | 'recommendations'> & {
+    generatedAt: string;
+  };
+  branding: ReportBranding;
+  expiresAt: string;
+}